@@ -0,0 +1,462 @@
+/**
+ * In-memory tenant database for tests
+ *
+ * Implements the Prisma delegate calls the services use (find, create,
+ * update, upsert, delete, count, aggregate, groupBy) over plain rows, with
+ * defaults, unique constraints and relations taken from the tenant schema.
+ * Interactive transactions run one at a time, like transactions queued on a
+ * row lock, and a failed one is rolled back. Raw SQL goes to `options.raw`.
+ */
+
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '../../../packages/database/generated/tenant-client';
+
+type Model = (typeof Prisma.dmmf.datamodel.models)[number];
+type Field = Model['fields'][number];
+
+export type Row = Record<string, unknown>;
+export type ModelKey = Uncapitalize<Prisma.ModelName>;
+
+type Where = Record<string, unknown>;
+type SortOrder = 'asc' | 'desc';
+type OrderBy = Record<string, SortOrder> | Array<Record<string, SortOrder>>;
+type Projection = Record<string, boolean | QueryArgs>;
+
+interface QueryArgs {
+  where?: Where;
+  select?: Projection;
+  include?: Projection;
+  orderBy?: OrderBy;
+  skip?: number;
+  take?: number;
+  data?: Row | Row[];
+  create?: Row;
+  update?: Row;
+  by?: string[];
+  _sum?: Record<string, boolean>;
+  _count?: Record<string, boolean> | true;
+  _min?: Record<string, boolean>;
+  _max?: Record<string, boolean>;
+}
+
+export interface TenantDbOptions {
+  /** Answers $queryRaw and $executeRaw calls; by default queries return no rows */
+  raw?: (sql: string, params: unknown[]) => unknown;
+}
+
+export interface TenantDb {
+  client: PrismaClient;
+  /** The stored rows of a model (live, so tests can inspect or adjust them) */
+  rows<T = Row>(model: ModelKey): T[];
+  /** Insert a row with schema defaults applied and return it as stored */
+  seed<T = Row>(model: ModelKey, data: Row): T;
+}
+
+const MODELS = new Map<string, Model>(Prisma.dmmf.datamodel.models.map(model => [model.name, model]));
+
+const modelName = (key: string) => key.charAt(0).toUpperCase() + key.slice(1);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  !(value instanceof Date) && !Prisma.Decimal.isDecimal(value);
+
+function knownError(code: string, message: string): Prisma.PrismaClientKnownRequestError {
+  return new Prisma.PrismaClientKnownRequestError(message, { code, clientVersion: 'test' });
+}
+
+/**
+ * Comparable form of a stored value (dates and decimals compare by value)
+ */
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (Prisma.Decimal.isDecimal(value)) return value.toNumber();
+  if (typeof value === 'bigint') return Number(value);
+  return value;
+}
+
+function compare(a: unknown, b: unknown): number {
+  const left = comparable(a);
+  const right = comparable(b);
+  if (left === right) return 0;
+  if (left === null || left === undefined) return 1; // Nulls last, as Postgres sorts ascending
+  if (right === null || right === undefined) return -1;
+  return (left as number) < (right as number) ? -1 : 1;
+}
+
+/**
+ * Value as Prisma would store it for the field's type
+ */
+function coerce(field: Field, value: unknown): unknown {
+  if (value === null || value === undefined) return value;
+  switch (field.type) {
+    case 'Decimal':
+      return new Prisma.Decimal(value.toString());
+    case 'DateTime':
+      return value instanceof Date ? value : new Date(String(value));
+    case 'BigInt':
+      return BigInt(value.toString());
+    default:
+      return value;
+  }
+}
+
+function defaultValue(field: Field, nextSequence: () => number): unknown {
+  if (field.isUpdatedAt) return new Date();
+  if (field.default === undefined) return field.isList ? [] : null;
+
+  if (isPlainObject(field.default)) {
+    const name = String(field.default.name);
+    if (name.startsWith('uuid') || name.startsWith('cuid')) return crypto.randomUUID();
+    if (name === 'now') return new Date();
+    if (name === 'autoincrement') return nextSequence();
+    return null;
+  }
+  return field.type === 'Json' ? JSON.parse(String(field.default)) : coerce(field, field.default);
+}
+
+export function createTenantDb(options: TenantDbOptions = {}): TenantDb {
+  const tables = new Map<string, Row[]>([...MODELS.keys()].map(name => [name, []]));
+  let sequence = 0;
+  let transactionQueue: Promise<unknown> = Promise.resolve();
+
+  const model = (name: string): Model => {
+    const definition = MODELS.get(name);
+    if (!definition) throw new Error(`Unknown model ${name}`);
+    return definition;
+  };
+  const table = (name: string): Row[] => tables.get(name)!;
+  const field = (definition: Model, name: string) => definition.fields.find(entry => entry.name === name);
+
+  // The field on the other side of a relation
+  const opposite = (definition: Model, relation: Field): Field => model(relation.type).fields.find(entry =>
+    entry.relationName === relation.relationName && !(relation.type === definition.name && entry.name === relation.name)
+  )!;
+
+  const related = (definition: Model, row: Row, relation: Field): Row[] => {
+    if (relation.relationFromFields?.length) {
+      return table(relation.type).filter(target => relation.relationFromFields!.every((from, index) =>
+        row[from] !== null && row[from] !== undefined && compare(target[relation.relationToFields![index]], row[from]) === 0
+      ));
+    }
+    const back = opposite(definition, relation);
+    return table(relation.type).filter(target => back.relationFromFields!.every((from, index) =>
+      compare(target[from], row[back.relationToFields![index]]) === 0
+    ));
+  };
+
+  const matchesFilter = (value: unknown, filter: Record<string, unknown>): boolean =>
+    Object.entries(filter).every(([operator, operand]) => {
+      if (operand === undefined) return true;
+      const insensitive = filter.mode === 'insensitive';
+      const text = (input: unknown) => (insensitive ? String(input).toLowerCase() : String(input));
+      switch (operator) {
+        case 'equals': return compare(value, operand) === 0;
+        case 'not': return isPlainObject(operand) ? !matchesFilter(value, operand) : compare(value, operand) !== 0;
+        case 'in': return (operand as unknown[]).some(option => compare(value, option) === 0);
+        case 'notIn': return !(operand as unknown[]).some(option => compare(value, option) === 0);
+        case 'lt': return value !== null && compare(value, operand) < 0;
+        case 'lte': return value !== null && compare(value, operand) <= 0;
+        case 'gt': return value !== null && compare(value, operand) > 0;
+        case 'gte': return value !== null && compare(value, operand) >= 0;
+        case 'contains': return value !== null && text(value).includes(text(operand));
+        case 'startsWith': return value !== null && text(value).startsWith(text(operand));
+        case 'endsWith': return value !== null && text(value).endsWith(text(operand));
+        case 'mode': return true;
+        default: throw new Error(`Unsupported filter ${operator}`);
+      }
+    });
+
+  const matches = (definition: Model, row: Row, where: Where = {}): boolean =>
+    Object.entries(where).every(([key, condition]) => {
+      if (condition === undefined) return true;
+      if (key === 'AND') return ([] as Where[]).concat(condition as Where).every(part => matches(definition, row, part));
+      if (key === 'OR') return (condition as Where[]).some(part => matches(definition, row, part));
+      if (key === 'NOT') return !([] as Where[]).concat(condition as Where).some(part => matches(definition, row, part));
+
+      const column = field(definition, key);
+      if (!column) {
+        // Compound unique key, e.g. configCategory_configKey
+        return matches(definition, row, condition as Where);
+      }
+
+      if (column.kind === 'object') {
+        const targets = related(definition, row, column);
+        const target = model(column.type);
+        const filter = condition as Where | null;
+        if (column.isList) {
+          if (filter?.some) return targets.some(entry => matches(target, entry, filter.some as Where));
+          if (filter?.every) return targets.every(entry => matches(target, entry, filter.every as Where));
+          if (filter?.none) return !targets.some(entry => matches(target, entry, filter.none as Where));
+          return true;
+        }
+        if (filter === null) return targets.length === 0;
+        if ('isNot' in filter) return !targets.some(entry => matches(target, entry, filter.isNot as Where));
+        return targets.some(entry => matches(target, entry, ('is' in filter ? filter.is : filter) as Where));
+      }
+
+      return isPlainObject(condition) ? matchesFilter(row[key], condition) : compare(row[key], condition) === 0;
+    });
+
+  const sort = (rows: Row[], orderBy?: OrderBy): Row[] => {
+    const orders = ([] as Array<Record<string, SortOrder>>).concat(orderBy || []);
+    return [...rows].sort((a, b) => {
+      for (const order of orders) {
+        for (const [key, direction] of Object.entries(order)) {
+          const result = compare(a[key], b[key]);
+          if (result !== 0) return direction === 'desc' ? -result : result;
+        }
+      }
+      return 0;
+    });
+  };
+
+  const query = (definition: Model, args: QueryArgs = {}): Row[] => {
+    const rows = sort(table(definition.name).filter(row => matches(definition, row, args.where)), args.orderBy);
+    const start = args.skip || 0;
+    return rows.slice(start, args.take === undefined ? undefined : start + args.take);
+  };
+
+  const project = (definition: Model, row: Row, args: QueryArgs = {}): Row => {
+    const projection = args.select || args.include;
+    const result: Row = {};
+
+    for (const column of definition.fields) {
+      if (column.kind !== 'object' && (!args.select || args.select[column.name])) {
+        result[column.name] = row[column.name];
+      }
+    }
+
+    for (const [key, nested] of Object.entries(projection || {})) {
+      const relation = field(definition, key);
+      if (!nested || relation?.kind !== 'object') continue;
+
+      const target = model(relation.type);
+      const nestedArgs = nested === true ? {} : nested;
+      const rows = related(definition, row, relation);
+      result[key] = relation.isList
+        ? sort(rows.filter(entry => matches(target, entry, nestedArgs.where)), nestedArgs.orderBy)
+          .map(entry => project(target, entry, nestedArgs))
+        : rows[0] ? project(target, rows[0], nestedArgs) : null;
+    }
+
+    return result;
+  };
+
+  const assertUnique = (definition: Model, row: Row) => {
+    const keys = [
+      ...definition.fields.filter(column => column.isId || column.isUnique).map(column => [column.name]),
+      ...definition.uniqueFields.map(fields => [...fields]),
+      ...(definition.primaryKey ? [[...definition.primaryKey.fields]] : [])
+    ];
+    for (const fields of keys) {
+      if (fields.some(name => row[name] === null || row[name] === undefined)) continue;
+      const duplicate = table(definition.name).some(other =>
+        other !== row && fields.every(name => compare(other[name], row[name]) === 0)
+      );
+      if (duplicate) {
+        throw knownError('P2002', `Unique constraint failed on ${definition.name}(${fields.join(', ')})`);
+      }
+    }
+  };
+
+  const applyUpdate = (definition: Model, row: Row, data: Row) => {
+    for (const [key, value] of Object.entries(data)) {
+      const column = field(definition, key);
+      if (!column || value === undefined) continue;
+
+      if (column.kind === 'object') {
+        if (isPlainObject(value) && value.connect && column.relationFromFields?.length) {
+          const connect = value.connect as Row;
+          column.relationFromFields.forEach((from, index) => { row[from] = connect[column.relationToFields![index]]; });
+        } else if (isPlainObject(value) && value.disconnect && column.relationFromFields?.length) {
+          column.relationFromFields.forEach(from => { row[from] = null; });
+        }
+        continue;
+      }
+
+      if (isPlainObject(value) && column.type !== 'Json') {
+        const current = new Prisma.Decimal(comparable(row[key]) as number ?? 0);
+        const operand = value.increment ?? value.decrement ?? value.multiply ?? value.divide;
+        let next: unknown = value.set;
+        if ('increment' in value) next = current.plus(String(operand));
+        if ('decrement' in value) next = current.minus(String(operand));
+        if ('multiply' in value) next = current.times(String(operand));
+        if ('divide' in value) next = current.dividedBy(String(operand));
+        row[key] = column.type === 'Int' && Prisma.Decimal.isDecimal(next) ? next.toNumber() : coerce(column, next);
+      } else {
+        row[key] = coerce(column, value);
+      }
+    }
+
+    for (const column of definition.fields) {
+      if (column.isUpdatedAt && data[column.name] === undefined) row[column.name] = new Date();
+    }
+  };
+
+  const insert = (definition: Model, data: Row): Row => {
+    const row: Row = {};
+    const nested: Array<[Field, Row[]]> = [];
+
+    for (const column of definition.fields) {
+      const value = data[column.name];
+      if (column.kind === 'object') {
+        if (isPlainObject(value) && value.create && !column.relationFromFields?.length) {
+          nested.push([column, ([] as Row[]).concat(value.create as Row)]);
+        }
+        continue;
+      }
+      row[column.name] = value === undefined ? defaultValue(column, () => ++sequence) : coerce(column, value);
+    }
+    applyUpdate(definition, row, Object.fromEntries(
+      Object.entries(data).filter(([key]) => field(definition, key)?.kind === 'object')
+    ));
+
+    assertUnique(definition, row);
+    table(definition.name).push(row);
+
+    for (const [relation, children] of nested) {
+      const back = opposite(definition, relation);
+      for (const child of children) {
+        const links = Object.fromEntries(back.relationFromFields!.map((from, index) => [from, row[back.relationToFields![index]]]));
+        insert(model(relation.type), { ...child, ...links });
+      }
+    }
+
+    return row;
+  };
+
+  const findOne = (definition: Model, where: Where): Row => {
+    const row = table(definition.name).find(entry => matches(definition, entry, where));
+    if (!row) throw knownError('P2025', `No ${definition.name} found`);
+    return row;
+  };
+
+  const aggregate = (definition: Model, rows: Row[], args: QueryArgs): Row => {
+    const result: Row = {};
+    const reduce = (columns: Record<string, boolean>, pick: (values: unknown[], column: Field) => unknown) =>
+      Object.fromEntries(Object.keys(columns).map(name => {
+        const values = rows.map(row => row[name]).filter(value => value !== null && value !== undefined);
+        return [name, pick(values, field(definition, name)!)];
+      }));
+
+    if (args._sum) {
+      result._sum = reduce(args._sum, (values, column) => {
+        if (values.length === 0) return null;
+        const total = values.reduce<Prisma.Decimal>((sum, value) => sum.plus(String(value)), new Prisma.Decimal(0));
+        return column.type === 'Decimal' ? total : total.toNumber();
+      });
+    }
+    if (args._count) {
+      result._count = args._count === true ? rows.length : reduce(args._count, values => values.length);
+    }
+    if (args._min) result._min = reduce(args._min, values => sort(values.map(value => ({ value })), { value: 'asc' })[0]?.value ?? null);
+    if (args._max) result._max = reduce(args._max, values => sort(values.map(value => ({ value })), { value: 'desc' })[0]?.value ?? null);
+    return result;
+  };
+
+  const delegate = (definition: Model) => ({
+    findUnique: async (args: QueryArgs) => {
+      const row = query(definition, args)[0];
+      return row ? project(definition, row, args) : null;
+    },
+    findUniqueOrThrow: async (args: QueryArgs) => project(definition, findOne(definition, args.where!), args),
+    findFirst: async (args: QueryArgs = {}) => {
+      const row = query(definition, args)[0];
+      return row ? project(definition, row, args) : null;
+    },
+    findFirstOrThrow: async (args: QueryArgs = {}) => {
+      const row = query(definition, args)[0];
+      if (!row) throw knownError('P2025', `No ${definition.name} found`);
+      return project(definition, row, args);
+    },
+    findMany: async (args: QueryArgs = {}) => query(definition, args).map(row => project(definition, row, args)),
+    count: async (args: QueryArgs = {}) => query(definition, args).length,
+    create: async (args: QueryArgs) => project(definition, insert(definition, args.data as Row), args),
+    createMany: async (args: QueryArgs) => {
+      const rows = ([] as Row[]).concat(args.data || []);
+      rows.forEach(data => insert(definition, data));
+      return { count: rows.length };
+    },
+    update: async (args: QueryArgs) => {
+      const row = findOne(definition, args.where!);
+      applyUpdate(definition, row, args.data as Row);
+      assertUnique(definition, row);
+      return project(definition, row, args);
+    },
+    updateMany: async (args: QueryArgs) => {
+      const rows = query(definition, { where: args.where });
+      rows.forEach(row => applyUpdate(definition, row, args.data as Row));
+      return { count: rows.length };
+    },
+    upsert: async (args: QueryArgs) => {
+      const row = query(definition, { where: args.where })[0];
+      if (!row) return project(definition, insert(definition, args.create!), args);
+      applyUpdate(definition, row, args.update!);
+      return project(definition, row, args);
+    },
+    delete: async (args: QueryArgs) => {
+      const row = findOne(definition, args.where!);
+      table(definition.name).splice(table(definition.name).indexOf(row), 1);
+      return project(definition, row, args);
+    },
+    deleteMany: async (args: QueryArgs = {}) => {
+      const rows = query(definition, { where: args.where });
+      tables.set(definition.name, table(definition.name).filter(row => !rows.includes(row)));
+      return { count: rows.length };
+    },
+    aggregate: async (args: QueryArgs) => aggregate(definition, query(definition, args), args),
+    groupBy: async (args: QueryArgs) => {
+      const groups = new Map<string, Row[]>();
+      for (const row of query(definition, args)) {
+        const key = JSON.stringify(args.by!.map(name => comparable(row[name])));
+        groups.set(key, [...(groups.get(key) || []), row]);
+      }
+      return [...groups.values()].map(rows => ({
+        ...Object.fromEntries(args.by!.map(name => [name, rows[0][name]])),
+        ...aggregate(definition, rows, args)
+      }));
+    }
+  });
+
+  const runRaw = async (sql: string, params: unknown[], fallback: unknown) =>
+    options.raw ? options.raw(sql, params) : fallback;
+
+  // Tagged template or Prisma.sql
+  const rawTemplate = (query: TemplateStringsArray | Prisma.Sql, values: unknown[]): [string, unknown[]] =>
+    Array.isArray(query) ? [query.join('?'), values] : [(query as Prisma.Sql).sql, (query as Prisma.Sql).values];
+
+  const client: Row = {
+    $connect: async () => undefined,
+    $disconnect: async () => undefined,
+    $queryRaw: (query: TemplateStringsArray | Prisma.Sql, ...values: unknown[]) => runRaw(...rawTemplate(query, values), []),
+    $executeRaw: (query: TemplateStringsArray | Prisma.Sql, ...values: unknown[]) => runRaw(...rawTemplate(query, values), 0),
+    $queryRawUnsafe: (sql: string, ...params: unknown[]) => runRaw(sql, params, []),
+    $executeRawUnsafe: (sql: string, ...params: unknown[]) => runRaw(sql, params, 0),
+    $transaction: async (operations: Promise<unknown>[] | ((tx: PrismaClient) => Promise<unknown>)) => {
+      if (Array.isArray(operations)) {
+        return Promise.all(operations);
+      }
+
+      const run = transactionQueue.then(async () => {
+        const snapshot = new Map([...tables].map(([name, rows]) => [name, rows.map(row => ({ ...row }))]));
+        try {
+          return await operations(client as unknown as PrismaClient);
+        } catch (error) {
+          snapshot.forEach((rows, name) => tables.set(name, rows));
+          throw error;
+        }
+      });
+      transactionQueue = run.catch(() => undefined);
+      return run;
+    }
+  };
+  for (const definition of MODELS.values()) {
+    client[definition.name.charAt(0).toLowerCase() + definition.name.slice(1)] = delegate(definition);
+  }
+
+  return {
+    client: client as unknown as PrismaClient,
+    rows: <T = Row>(key: ModelKey) => table(modelName(key)) as unknown as T[],
+    seed: <T = Row>(key: ModelKey, data: Row) => insert(model(modelName(key)), data) as unknown as T
+  };
+}
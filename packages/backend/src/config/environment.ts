@@ -83,6 +83,9 @@ export interface Config {
       bucket: string;
       accessKeyId: string;
       secretAccessKey: string;
+      endpoint?: string;
+      forcePathStyle?: boolean;
+      publicUrl?: string;
     };
     azure?: {
       connectionString: string;
@@ -93,6 +96,7 @@ export interface Config {
       accessKeyId: string;
       secretAccessKey: string;
       bucket: string;
+      publicUrl?: string;
     };
   };
 
@@ -123,11 +127,13 @@ export interface Config {
   // Email Configuration
   email: {
     provider: 'console' | 'smtp' | 'resend';
+    from: string;
     smtp?: {
       host: string;
       port: number;
-      user: string;
-      pass: string;
+      secure: boolean;
+      user?: string;
+      pass?: string;
     };
     resend?: {
       apiKey: string;
@@ -189,7 +195,10 @@ function loadConfig(): Config {
         region: process.env.AWS_REGION!,
         bucket: process.env.AWS_S3_BUCKET!,
         accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+        endpoint: process.env.AWS_S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.AWS_S3_FORCE_PATH_STYLE === 'true',
+        publicUrl: process.env.AWS_S3_PUBLIC_URL || undefined
       } : undefined,
       azure: process.env.AZURE_STORAGE_CONNECTION_STRING ? {
         connectionString: process.env.AZURE_STORAGE_CONNECTION_STRING!,
@@ -199,7 +208,8 @@ function loadConfig(): Config {
         endpoint: process.env.CLOUDFLARE_R2_ENDPOINT!,
         accessKeyId: process.env.CLOUDFLARE_R2_ACCESS_KEY!,
         secretAccessKey: process.env.CLOUDFLARE_R2_SECRET_KEY!,
-        bucket: process.env.CLOUDFLARE_R2_BUCKET!
+        bucket: process.env.CLOUDFLARE_R2_BUCKET!,
+        publicUrl: process.env.CLOUDFLARE_R2_PUBLIC_URL || undefined
       } : undefined
     },
 
@@ -226,11 +236,13 @@ function loadConfig(): Config {
 
     email: {
       provider: (process.env.EMAIL_PROVIDER as any) || 'console',
+      from: process.env.EMAIL_FROM || 'OMSMS <no-reply@omsms.local>',
       smtp: process.env.SMTP_HOST ? {
         host: process.env.SMTP_HOST!,
         port: parseEnvInt(process.env.SMTP_PORT, 587),
-        user: process.env.SMTP_USER!,
-        pass: process.env.SMTP_PASS!
+        secure: parseEnvBool(process.env.SMTP_SECURE, false),
+        user: process.env.SMTP_USER || undefined,
+        pass: process.env.SMTP_PASS || undefined
       } : undefined,
       resend: process.env.RESEND_API_KEY ? {
         apiKey: process.env.RESEND_API_KEY
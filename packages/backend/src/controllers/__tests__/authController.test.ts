@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import type { User, UserSession } from '../../../packages/database/generated/tenant-client';
+import { AuthController } from '../authController';
+import { AuthService } from '../../lib/auth';
+import { masterDb, getTenantDb, resolveTenantSubdomain } from '../../lib/database';
+import { createTenantDb, TenantDb } from '../../__tests__/helpers/tenantDb';
+
+jest.mock('../../lib/database', () => ({
+  masterDb: { tenant: { findUnique: jest.fn() } },
+  getTenantDb: jest.fn(),
+  resolveTenantSubdomain: jest.fn()
+}));
+jest.mock('../../lib/mailer', () => ({ getMailManager: jest.fn() }));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function issueResetToken(db: TenantDb, expiresAt = new Date(Date.now() + HOUR_MS)): string {
+  const { token, tokenHash } = AuthService.generatePasswordResetToken();
+  db.seed('passwordResetToken', { userId: 'user-1', tokenHash, expiresAt });
+  return token;
+}
+
+async function resetPassword(token: string, password: string, subdomain = 'demo') {
+  const req = { body: { token, password, subdomain }, ip: '127.0.0.1', get: () => 'jest' } as unknown as Request;
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+
+  await AuthController.resetPassword(req, res as unknown as Response);
+  return { status: res.status.mock.calls[0]?.[0] ?? 200, body: res.json.mock.calls[0]?.[0] };
+}
+
+describe('AuthController.resetPassword', () => {
+  let db: TenantDb;
+  let user: User;
+
+  beforeEach(() => {
+    db = createTenantDb();
+    user = db.seed<User>('user', { userId: 'user-1', email: 'owner@example.com', passwordHash: 'old', status: 'active' });
+    for (const sessionId of ['session-1', 'session-2']) {
+      db.seed('userSession', { sessionId, userId: 'user-1', expiresAt: new Date(Date.now() + HOUR_MS) });
+    }
+
+    (resolveTenantSubdomain as jest.Mock).mockImplementation(async (subdomain: string) =>
+      subdomain === 'demo' || subdomain === 'old-demo' ? 'demo' : null
+    );
+    (masterDb.tenant.findUnique as jest.Mock).mockResolvedValue({ status: 'active' });
+    (getTenantDb as jest.Mock).mockResolvedValue(db.client);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('resets the password and signs the user out everywhere', async () => {
+    const token = issueResetToken(db);
+
+    const result = await resetPassword(token, 'new-password-1');
+
+    expect(result.status).toBe(200);
+    expect(result.body.success).toBe(true);
+    expect(await AuthService.verifyPassword('new-password-1', user.passwordHash)).toBe(true);
+    expect(user.passwordChangedAt).toBeInstanceOf(Date);
+    expect(db.rows<UserSession>('userSession').every(session => session.revokedAt instanceof Date)).toBe(true);
+  });
+
+  it('accepts a link that carries the tenant\'s former subdomain', async () => {
+    const token = issueResetToken(db);
+
+    const result = await resetPassword(token, 'new-password-1', 'old-demo');
+
+    expect(result.status).toBe(200);
+    expect(getTenantDb).toHaveBeenCalledWith('demo');
+  });
+
+  it('rejects a token that was already used', async () => {
+    const token = issueResetToken(db);
+
+    await resetPassword(token, 'new-password-1');
+    const { passwordHash } = user;
+    const second = await resetPassword(token, 'new-password-2');
+
+    expect(second.status).toBe(400);
+    expect(second.body.error).toBe('Invalid or expired reset token');
+    expect(user.passwordHash).toBe(passwordHash);
+  });
+
+  it('lets only one of two concurrent requests use a token', async () => {
+    const token = issueResetToken(db);
+
+    const results = await Promise.all([
+      resetPassword(token, 'new-password-1'),
+      resetPassword(token, 'new-password-2')
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual([200, 400]);
+  });
+
+  it('invalidates the user\'s other outstanding tokens', async () => {
+    const first = issueResetToken(db);
+    const second = issueResetToken(db);
+
+    await resetPassword(first, 'new-password-1');
+    const result = await resetPassword(second, 'new-password-2');
+
+    expect(result.status).toBe(400);
+  });
+
+  it('rejects an expired token', async () => {
+    const token = issueResetToken(db, new Date(Date.now() - 1000));
+
+    const result = await resetPassword(token, 'new-password-1');
+
+    expect(result.status).toBe(400);
+    expect(user.passwordHash).toBe('old');
+  });
+});
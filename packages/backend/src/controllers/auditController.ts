@@ -0,0 +1,225 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { getTenantDb } from '../lib/database';
+import {
+  ApiResponse
+} from '@omsms/shared';
+
+// Validation schemas
+const auditQuerySchema = z.object({
+  page: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1)).optional(),
+  limit: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1).max(100)).optional(),
+  entityType: z.string().max(50).optional(),
+  entityId: z.string().max(255).optional(),
+  userId: z.string().uuid().optional(),
+  action: z.string().max(100).optional(),
+  from: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+  to: z.string().datetime({ offset: true }).or(z.string().date()).optional()
+});
+
+const userSelect = {
+  userId: true,
+  firstName: true,
+  lastName: true,
+  email: true
+};
+
+export class AuditController {
+  /**
+   * Get audit log entries with filters by entity, user, action and date
+   */
+  static async getAuditLogs(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const query = auditQuerySchema.parse(req.query);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const where: any = {};
+      if (query.entityType) where.entityType = query.entityType;
+      if (query.entityId) where.entityId = query.entityId;
+      if (query.userId) where.userId = query.userId;
+      if (query.action) where.action = query.action;
+      if (query.from || query.to) {
+        where.createdAt = {};
+        if (query.from) where.createdAt.gte = new Date(query.from);
+        if (query.to) {
+          // A bare date includes the whole day
+          const to = new Date(query.to);
+          if (!query.to.includes('T')) to.setUTCDate(to.getUTCDate() + 1);
+          where.createdAt[query.to.includes('T') ? 'lte' : 'lt'] = to;
+        }
+      }
+
+      const page = query.page || 1;
+      const limit = query.limit || 50;
+      const skip = (page - 1) * limit;
+
+      const [logs, total] = await Promise.all([
+        tenantDb.auditLog.findMany({
+          where,
+          include: {
+            user: { select: userSelect }
+          },
+          skip,
+          take: limit,
+          orderBy: { createdAt: 'desc' }
+        }),
+        tenantDb.auditLog.count({ where })
+      ]);
+
+      const response: ApiResponse<typeof logs> = {
+        success: true,
+        data: logs,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get audit logs error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get audit logs'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get the entity types and actions present in the log, for filter options
+   */
+  static async getFilterOptions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const [entityTypes, actions] = await Promise.all([
+        tenantDb.auditLog.groupBy({
+          by: ['entityType'],
+          where: { entityType: { not: null } },
+          orderBy: { entityType: 'asc' }
+        }),
+        tenantDb.auditLog.groupBy({
+          by: ['action'],
+          orderBy: { action: 'asc' }
+        })
+      ]);
+
+      const response: ApiResponse<{ entityTypes: string[]; actions: string[] }> = {
+        success: true,
+        data: {
+          entityTypes: entityTypes.map(item => item.entityType!),
+          actions: actions.map(item => item.action)
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get audit filter options error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get audit filter options'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get the history of a vehicle: its own changes plus those of its payments,
+   * ledger entries and workflow instances
+   */
+  static async getVehicleHistory(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { vehicleId } = req.params;
+      const query = auditQuerySchema.pick({ page: true, limit: true }).parse(req.query);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const where = {
+        OR: [
+          { entityType: 'vehicle', entityId: vehicleId },
+          { details: { path: ['vehicleId'], equals: vehicleId } }
+        ]
+      };
+
+      const page = query.page || 1;
+      const limit = query.limit || 50;
+      const skip = (page - 1) * limit;
+
+      const [logs, total] = await Promise.all([
+        tenantDb.auditLog.findMany({
+          where,
+          include: {
+            user: { select: userSelect }
+          },
+          skip,
+          take: limit,
+          orderBy: { createdAt: 'desc' }
+        }),
+        tenantDb.auditLog.count({ where })
+      ]);
+
+      const response: ApiResponse<typeof logs> = {
+        success: true,
+        data: logs,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get vehicle history error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get vehicle history'
+      } as ApiResponse);
+    }
+  }
+}
@@ -1,7 +1,13 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { AuthService } from '../lib/auth';
-import { masterDb, getTenantDb, createTenantDatabase } from '../lib/database';
+import { buildPermissionClaims } from '../lib/permissions';
+import { TierLimits, TierLimitError } from '../lib/tierLimits';
+import { masterDb, getTenantDb, resolveTenantSubdomain } from '../lib/database';
+import { TenantManager, TenantManagementError } from '../lib/tenantManager';
+import { getMailManager } from '../lib/mailer';
+import { SessionService, SessionContext } from '../lib/sessions';
+import { config } from '../config/environment';
 import {
   LoginRequest,
   LoginResponse,
@@ -36,6 +42,27 @@ const refreshTokenSchema = z.object({
   refreshToken: z.string()
 });
 
+const logoutSchema = z.object({
+  refreshToken: z.string().optional()
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+  subdomain: z.string().optional()
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(1),
+  confirmPassword: z.string().optional(),
+  subdomain: z.string().optional()
+}).refine(data => data.confirmPassword === undefined || data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword']
+});
+
+const DEFAULT_PASSWORD_MIN_LENGTH = 8;
+
 const tenantRegistrationSchema = z.object({
   tenantName: z.string().min(1),
   subdomain: z.string().min(3).max(63).regex(/^[a-z0-9-]+$/),
@@ -62,8 +89,18 @@ export class AuthController {
         return;
       }
 
+      // Log in under the current subdomain, also when a former one was used
+      const subdomain = await resolveTenantSubdomain(req.tenantId);
+      if (!subdomain) {
+        res.status(404).json({
+          success: false,
+          error: 'Tenant not found'
+        } as ApiResponse);
+        return;
+      }
+
       // Get tenant database
-      const tenantDb = await getTenantDb(req.tenantId);
+      const tenantDb = await getTenantDb(subdomain);
 
       // Find user by email
       const user = await tenantDb.user.findUnique({
@@ -76,7 +113,8 @@ export class AuthController {
               rolePermissions: {
                 select: {
                   resource: true,
-                  action: true
+                  action: true,
+                  conditions: true
                 }
               }
             }
@@ -113,7 +151,7 @@ export class AuthController {
 
       // Get tenant info
       const tenant = await masterDb.tenant.findUnique({
-        where: { subdomain: req.tenantId }, // req.tenantId is actually the subdomain
+        where: { subdomain },
         select: {
           tenantId: true,
           tenantName: true,
@@ -130,19 +168,8 @@ export class AuthController {
         return;
       }
 
-      // Build permissions from role permissions
-      const permissions: Record<string, boolean> = {};
-      
-      // Add admin wildcard if user is admin
-      if (user.role.roleName === 'admin') {
-        permissions['*'] = true;
-      } else {
-        // Convert role permissions to the expected format
-        user.role.rolePermissions.forEach(permission => {
-          const permissionKey = `${permission.resource}.${permission.action}`;
-          permissions[permissionKey] = true;
-        });
-      }
+      // Build permissions (and their conditions) from role permissions
+      const claims = buildPermissionClaims(user.role);
 
       // Generate tokens
       const tokenPayload = {
@@ -151,11 +178,11 @@ export class AuthController {
         role: user.role.roleName as UserRole, // Legacy compatibility
         roleId: user.roleId,
         roleName: user.role.roleName,
-        tenantId: req.tenantId,
-        permissions: permissions
+        tenantId: subdomain,
+        ...claims
       };
 
-      const tokens = AuthService.generateTokens(tokenPayload);
+      const tokens = await SessionService.createSession(tenantDb, tokenPayload, getSessionContext(req));
 
       // Update last login
       await tenantDb.user.update({
@@ -241,6 +268,9 @@ export class AuthController {
       // Hash password
       const passwordHash = await AuthService.hashPassword(body.password);
 
+      // Subscription tier user limit
+      await TierLimits.assertCanAdd(req.tenantId, 'users');
+
       // Determine role and permissions
       const role = body.role || 'installer';
       const permissions = AuthService.getDefaultPermissions(role);
@@ -275,9 +305,21 @@ export class AuthController {
         message: 'User registered successfully'
       };
 
+      TierLimits.notifyUsageChange(req.tenantId, 'users');
+
       res.status(201).json(response);
     } catch (error) {
       console.error('Registration error:', error);
+
+      if (error instanceof TierLimitError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: { resource: error.resource, limit: error.limit, current: error.current }
+        } as ApiResponse);
+        return;
+      }
       
       if (error instanceof z.ZodError) {
         res.status(400).json({
@@ -305,25 +347,56 @@ export class AuthController {
       // Verify refresh token
       const payload = AuthService.verifyToken(body.refreshToken);
 
-      // Get user to ensure they still exist and are active
       const tenantDb = await getTenantDb(payload.tenantId);
-      const user = await tenantDb.user.findUnique({
-        where: { userId: payload.userId },
-        include: {
-          role: {
-            include: {
-              rolePermissions: {
-                select: {
-                  resource: true,
-                  action: true
+
+      // Tokens issued before a subdomain rename are reissued for the new subdomain
+      const subdomain = await resolveTenantSubdomain(payload.tenantId) || payload.tenantId;
+
+      const outcome = await SessionService.refresh(tenantDb, body.refreshToken, getSessionContext(req), async (userId) => {
+        // Get user to ensure they still exist and are active
+        const user = await tenantDb.user.findUnique({
+          where: { userId },
+          include: {
+            role: {
+              include: {
+                rolePermissions: {
+                  select: {
+                    resource: true,
+                    action: true,
+                    conditions: true
+                  }
                 }
               }
             }
           }
+        });
+
+        // Tokens issued before a password reset no longer grant access
+        if (!user || user.status !== 'active' || AuthService.isIssuedBeforePasswordChange(payload, user.passwordChangedAt)) {
+          return null;
         }
+
+        // Build permissions (and their conditions) from role permissions
+        const claims = buildPermissionClaims(user.role);
+
+        return {
+          userId: user.userId,
+          email: user.email,
+          role: user.role.roleName as UserRole, // Legacy compatibility
+          roleId: user.roleId,
+          roleName: user.role.roleName,
+          tenantId: subdomain,
+          ...claims
+        };
       });
 
-      if (!user || user.status !== 'active') {
+      if (outcome.status === 'reused') {
+        await recordAuthEvent(tenantDb, req, 'session_token_reuse', outcome.userId || null, {
+          sessionId: outcome.sessionId
+        });
+      }
+
+      if (outcome.status !== 'rotated') {
         res.status(401).json({
           success: false,
           error: 'Invalid refresh token'
@@ -331,32 +404,7 @@ export class AuthController {
         return;
       }
 
-      // Build permissions from role permissions
-      const permissions: Record<string, boolean> = {};
-      
-      // Add admin wildcard if user is admin
-      if (user.role.roleName === 'admin') {
-        permissions['*'] = true;
-      } else {
-        // Convert role permissions to the expected format
-        user.role.rolePermissions.forEach(permission => {
-          const permissionKey = `${permission.resource}.${permission.action}`;
-          permissions[permissionKey] = true;
-        });
-      }
-
-      // Generate new tokens
-      const newTokenPayload = {
-        userId: user.userId,
-        email: user.email,
-        role: user.role.roleName as UserRole, // Legacy compatibility
-        roleId: user.roleId,
-        roleName: user.role.roleName,
-        tenantId: payload.tenantId,
-        permissions: permissions
-      };
-
-      const tokens = AuthService.generateTokens(newTokenPayload);
+      const { tokens } = outcome;
 
       const response: ApiResponse<RefreshTokenResponse> = {
         success: true,
@@ -393,89 +441,20 @@ export class AuthController {
     try {
       const body = tenantRegistrationSchema.parse(req.body) as TenantRegistrationRequest;
 
-      // Check if subdomain is available
-      const existingTenant = await masterDb.tenant.findUnique({
-        where: { subdomain: body.subdomain }
-      });
-
-      if (existingTenant) {
-        res.status(409).json({
-          success: false,
-          error: 'Subdomain is already taken'
-        } as ApiResponse);
-        return;
-      }
-
-      // Create tenant database
-      const databaseUrl = await createTenantDatabase(body.subdomain, body.subdomain);
-
-      // Create tenant record
-      const tenant = await masterDb.tenant.create({
-        data: {
-          tenantName: body.tenantName,
-          subdomain: body.subdomain,
-          databaseUrl,
-          subscriptionTier: body.subscriptionTier,
-          status: 'active',
-          settings: {
-            timezone: 'UTC',
-            currency: 'USD',
-            dateFormat: 'YYYY-MM-DD',
-            theme: 'light',
-            language: 'en'
-          },
-          features: getTenantFeatures(body.subscriptionTier)
-        }
-      });
-
-      // Get tenant database client
-      const tenantDb = await getTenantDb(tenant.subdomain);
-
-      // Hash admin password
-      const passwordHash = await AuthService.hashPassword(body.adminPassword);
-
-      // Create or get admin role
-      let adminRole;
-      try {
-        adminRole = await tenantDb.role.findUnique({
-          where: { roleName: 'admin' }
-        });
-        
-        if (!adminRole) {
-          // Create admin role if it doesn't exist
-          adminRole = await tenantDb.role.create({
-            data: {
-              roleName: 'admin',
-              roleDescription: 'System Administrator - Full Access',
-              roleLevel: 0,
-              isSystemRole: true,
-              status: 'active'
-            }
-          });
-          console.log('Created admin role for tenant:', body.subdomain);
-        }
-      } catch (error) {
-        console.error('Error with admin role setup:', error);
-        throw new Error('Failed to setup admin role');
-      }
-
-      // Create admin user
-      const adminUser = await tenantDb.user.create({
-        data: {
+      const { tenant, adminUser } = await TenantManager.provisionTenant({
+        tenantName: body.tenantName,
+        subdomain: body.subdomain,
+        subscriptionTier: body.subscriptionTier,
+        admin: {
           email: body.adminEmail,
-          passwordHash,
+          password: body.adminPassword,
           firstName: body.adminFirstName,
-          lastName: body.adminLastName,
-          roleId: adminRole.roleId, // Use roleId instead of role string
-          permissions: AuthService.getDefaultPermissions('admin'),
-          preferences: {},
-          status: 'active'
-        },
-        include: {
-          role: true
+          lastName: body.adminLastName
         }
       });
 
+      const tenantDb = await getTenantDb(tenant.subdomain);
+
       // Generate tokens for admin user
       const tokenPayload = {
         userId: adminUser.userId,
@@ -487,7 +466,7 @@ export class AuthController {
         permissions: { '*': true } // Admin has all permissions
       };
 
-      const tokens = AuthService.generateTokens(tokenPayload);
+      const tokens = await SessionService.createSession(tenantDb, tokenPayload, getSessionContext(req));
 
       // Remove password hash from response
       const { passwordHash: _, ...adminUserWithoutPassword } = adminUser;
@@ -526,6 +505,15 @@ export class AuthController {
         return;
       }
 
+      if (error instanceof TenantManagementError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: 'Tenant registration failed'
@@ -583,18 +571,413 @@ export class AuthController {
   }
 
   /**
-   * Logout user (client-side token removal)
+   * Logout user (revokes the current session)
    */
   static async logout(req: Request, res: Response): Promise<void> {
-    // In a stateless JWT system, logout is typically handled client-side
-    // by removing the tokens from storage
-    
-    const response: ApiResponse = {
-      success: true,
-      message: 'Logged out successfully'
-    };
-
-    res.json(response);
+    try {
+      const body = logoutSchema.parse(req.body || {});
+
+      if (!req.user || !req.tenantId) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      let sessionId = req.user.sessionId;
+      if (!sessionId && body.refreshToken) {
+        const session = await SessionService.findSessionByRefreshToken(tenantDb, body.refreshToken);
+        sessionId = session?.sessionId;
+      }
+
+      if (sessionId) {
+        await SessionService.revokeSession(tenantDb, sessionId, 'logout', req.user.userId);
+        await recordAuthEvent(tenantDb, req, 'logout', req.user.userId, { sessionId });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Logged out successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Logout error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Logout failed'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Logout from all devices (revokes every session of the current user)
+   */
+  static async logoutAll(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user || !req.tenantId) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const tenantDb = await getTenantDb(req.tenantId);
+      const revoked = await SessionService.revokeUserSessions(tenantDb, req.user.userId, 'logout_all');
+
+      await recordAuthEvent(tenantDb, req, 'logout_all', req.user.userId, { revokedSessions: revoked });
+
+      res.json({
+        success: true,
+        data: { revokedSessions: revoked },
+        message: 'Logged out from all devices'
+      } as ApiResponse);
+    } catch (error) {
+      console.error('Logout all error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to logout from all devices'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * List active sessions of the current user
+   */
+  static async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user || !req.tenantId) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const tenantDb = await getTenantDb(req.tenantId);
+      const sessions = await SessionService.listActiveSessions(tenantDb, req.user.userId);
+
+      res.json({
+        success: true,
+        data: sessions.map(session => ({
+          sessionId: session.sessionId,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          expiresAt: session.expiresAt,
+          current: session.sessionId === req.user!.sessionId
+        }))
+      } as ApiResponse);
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get sessions'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Revoke one of the current user's sessions
+   */
+  static async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user || !req.tenantId) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { sessionId } = req.params;
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const revoked = await SessionService.revokeSession(tenantDb, sessionId, 'revoked', req.user.userId);
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found'
+        } as ApiResponse);
+        return;
+      }
+
+      await recordAuthEvent(tenantDb, req, 'session_revoked', req.user.userId, { sessionId });
+
+      res.json({
+        success: true,
+        message: 'Session revoked successfully'
+      } as ApiResponse);
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke session'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Request a password reset link (always responds the same way to avoid account enumeration)
+   */
+  static async forgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const body = forgotPasswordSchema.parse(req.body);
+      const requestedSubdomain = body.subdomain || req.tenantId;
+
+      if (!requestedSubdomain) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'If an account exists for this email, a password reset link has been sent'
+      };
+
+      // Links go out under the current subdomain, also when a former one was used
+      const subdomain = await resolveTenantSubdomain(requestedSubdomain);
+      const tenant = subdomain && await masterDb.tenant.findUnique({
+        where: { subdomain },
+        select: { tenantName: true, status: true }
+      });
+
+      if (!subdomain || !tenant || tenant.status !== 'active') {
+        res.json(response);
+        return;
+      }
+
+      const tenantDb = await getTenantDb(subdomain);
+      const user = await tenantDb.user.findUnique({
+        where: { email: body.email }
+      });
+
+      if (!user || user.status !== 'active') {
+        await recordAuthEvent(tenantDb, req, 'password_reset_requested', null, {
+          email: body.email,
+          outcome: user ? 'inactive_user' : 'unknown_user'
+        });
+        res.json(response);
+        return;
+      }
+
+      // Only the most recent link stays valid
+      await tenantDb.passwordResetToken.updateMany({
+        where: { userId: user.userId, usedAt: null },
+        data: { usedAt: new Date() }
+      });
+
+      const { token, tokenHash, expiresAt } = AuthService.generatePasswordResetToken();
+
+      await tenantDb.passwordResetToken.create({
+        data: {
+          userId: user.userId,
+          tokenHash,
+          expiresAt,
+          requestedIp: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      });
+
+      const resetUrl = `${config.app.frontendUrl}/reset-password?token=${token}&tenant=${encodeURIComponent(subdomain)}`;
+      const expiresInMinutes = Math.round((expiresAt.getTime() - Date.now()) / 60000);
+
+      let emailError: string | undefined;
+      try {
+        await getMailManager().send({
+          to: [user.email],
+          subject: `Reset your ${tenant.tenantName} password`,
+          text: [
+            `Hi ${user.firstName || user.email},`,
+            `We received a request to reset your password. Use the link below to choose a new one:`,
+            resetUrl,
+            `This link expires in ${expiresInMinutes} minutes and can only be used once. If you didn't request a reset, you can ignore this email.`
+          ].join('\n\n')
+        });
+      } catch (error) {
+        console.error('Password reset email error:', error);
+        emailError = error instanceof Error ? error.message : 'Unknown error';
+      }
+
+      await recordAuthEvent(tenantDb, req, 'password_reset_requested', user.userId, {
+        email: user.email,
+        outcome: emailError ? 'email_failed' : 'email_sent',
+        expiresAt,
+        ...(emailError && { emailError })
+      });
+
+      res.json(response);
+    } catch (error) {
+      console.error('Forgot password error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to process password reset request'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Reset password using a single-use reset token
+   */
+  static async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const body = resetPasswordSchema.parse(req.body);
+      const requestedSubdomain = body.subdomain || req.tenantId;
+
+      if (!requestedSubdomain) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      // Links sent before a rename carry the former subdomain
+      const subdomain = await resolveTenantSubdomain(requestedSubdomain);
+      const tenant = subdomain && await masterDb.tenant.findUnique({
+        where: { subdomain },
+        select: { status: true }
+      });
+
+      if (!subdomain || !tenant || tenant.status !== 'active') {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid or expired reset token'
+        } as ApiResponse);
+        return;
+      }
+
+      const tenantDb = await getTenantDb(subdomain);
+      const now = new Date();
+
+      const resetToken = await tenantDb.passwordResetToken.findUnique({
+        where: { tokenHash: AuthService.hashToken(body.token) },
+        include: { user: true }
+      });
+
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= now || resetToken.user.status !== 'active') {
+        await recordAuthEvent(tenantDb, req, 'password_reset_failed', resetToken?.userId || null, {
+          reason: !resetToken
+            ? 'unknown_token'
+            : resetToken.usedAt
+              ? 'token_used'
+              : resetToken.expiresAt <= now ? 'token_expired' : 'inactive_user'
+        });
+        res.status(400).json({
+          success: false,
+          error: 'Invalid or expired reset token'
+        } as ApiResponse);
+        return;
+      }
+
+      const minLength = await getPasswordMinLength(tenantDb);
+      if (body.password.length < minLength) {
+        await recordAuthEvent(tenantDb, req, 'password_reset_failed', resetToken.userId, {
+          reason: 'password_too_short',
+          minLength
+        });
+        res.status(400).json({
+          success: false,
+          error: `Password must be at least ${minLength} characters`
+        } as ApiResponse);
+        return;
+      }
+
+      const passwordHash = await AuthService.hashPassword(body.password);
+
+      const completed = await tenantDb.$transaction(async (tx) => {
+        // Claim the token so a concurrent request with the same token can't reuse it
+        const claimed = await tx.passwordResetToken.updateMany({
+          where: { tokenId: resetToken.tokenId, usedAt: null },
+          data: { usedAt: now }
+        });
+
+        if (claimed.count === 0) {
+          return false;
+        }
+
+        await tx.passwordResetToken.updateMany({
+          where: { userId: resetToken.userId, usedAt: null },
+          data: { usedAt: now }
+        });
+
+        // Refresh tokens issued before this point are rejected from now on
+        await tx.user.update({
+          where: { userId: resetToken.userId },
+          data: { passwordHash, passwordChangedAt: now }
+        });
+
+        return true;
+      });
+
+      if (!completed) {
+        await recordAuthEvent(tenantDb, req, 'password_reset_failed', resetToken.userId, {
+          reason: 'token_used'
+        });
+        res.status(400).json({
+          success: false,
+          error: 'Invalid or expired reset token'
+        } as ApiResponse);
+        return;
+      }
+
+      // Sign the user out everywhere
+      const revokedSessions = await SessionService.revokeUserSessions(tenantDb, resetToken.userId, 'password_reset');
+
+      await recordAuthEvent(tenantDb, req, 'password_reset_completed', resetToken.userId, {
+        tokenId: resetToken.tokenId,
+        revokedSessions
+      });
+
+      res.json({
+        success: true,
+        message: 'Password has been reset successfully. Please sign in with your new password.'
+      } as ApiResponse);
+    } catch (error) {
+      console.error('Reset password error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reset password'
+      } as ApiResponse);
+    }
   }
 
   /**
@@ -621,12 +1004,8 @@ export class AuthController {
         return;
       }
 
-      // Check if subdomain exists
-      const existingTenant = await masterDb.tenant.findUnique({
-        where: { subdomain }
-      });
-
-      const isAvailable = !existingTenant;
+      // Taken by a tenant, or reserved as a renamed tenant's former subdomain
+      const isAvailable = await TenantManager.isSubdomainAvailable(subdomain);
 
       res.json({
         success: true,
@@ -665,7 +1044,7 @@ export class AuthController {
             'Basic support',
             'Standard workflows'
           ],
-          limits: getTenantFeatures('starter')
+          limits: TenantManager.getTierFeatures('starter')
         },
         {
           id: 'professional',
@@ -682,7 +1061,7 @@ export class AuthController {
             'Custom workflows',
             'API access'
           ],
-          limits: getTenantFeatures('professional')
+          limits: TenantManager.getTierFeatures('professional')
         },
         {
           id: 'enterprise',
@@ -701,7 +1080,7 @@ export class AuthController {
             'SSO integration',
             'Custom branding'
           ],
-          limits: getTenantFeatures('enterprise')
+          limits: TenantManager.getTierFeatures('enterprise')
         }
       ];
 
@@ -719,38 +1098,65 @@ export class AuthController {
   }
 }
 
+type AuthAuditAction =
+  | 'password_reset_requested'
+  | 'password_reset_completed'
+  | 'password_reset_failed'
+  | 'logout'
+  | 'logout_all'
+  | 'session_revoked'
+  | 'session_token_reuse';
+
 /**
- * Get tenant features based on subscription tier
+ * Collect client details stored with a session
  */
-function getTenantFeatures(tier: string): Record<string, any> {
-  const features = {
-    starter: {
-      maxVehicles: 100,
-      maxUsers: 10,
-      storageGB: 10,
-      customWorkflows: false,
-      apiAccess: false,
-      prioritySupport: false
-    },
-    professional: {
-      maxVehicles: 1000,
-      maxUsers: 50,
-      storageGB: 100,
-      customWorkflows: true,
-      apiAccess: true,
-      prioritySupport: true
-    },
-    enterprise: {
-      maxVehicles: -1, // unlimited
-      maxUsers: -1, // unlimited
-      storageGB: 1000,
-      customWorkflows: true,
-      apiAccess: true,
-      prioritySupport: true,
-      sso: true,
-      customBranding: true
-    }
+function getSessionContext(req: Request): SessionContext {
+  return {
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
   };
+}
+
+/**
+ * Minimum password length from the tenant security configuration
+ */
+async function getPasswordMinLength(tenantDb: any): Promise<number> {
+  const setting = await tenantDb.systemConfig.findUnique({
+    where: {
+      configCategory_configKey: {
+        configCategory: 'security',
+        configKey: 'passwordMinLength'
+      }
+    }
+  });
+
+  const value = Number(setting?.configValue);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_PASSWORD_MIN_LENGTH;
+}
 
-  return features[tier as keyof typeof features] || features.starter;
-}
\ No newline at end of file
+/**
+ * Record an authentication event in the tenant audit log
+ */
+async function recordAuthEvent(
+  tenantDb: any,
+  req: Request,
+  action: AuthAuditAction,
+  userId: string | null,
+  details: Record<string, any>
+): Promise<void> {
+  try {
+    await tenantDb.auditLog.create({
+      data: {
+        userId,
+        action,
+        entityType: 'user',
+        entityId: userId,
+        details,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+  } catch (error) {
+    console.error('Failed to record auth audit event:', error);
+  }
+}
@@ -0,0 +1,702 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { getTenantDb } from '../lib/database';
+import { notifyUsers } from '../lib/notifications';
+import { getFollowUpQueueWindow } from '../services/callFollowUps';
+import {
+  ApiResponse
+} from '@omsms/shared';
+
+export const CALL_FOLLOW_UP_STATUSES = [
+  'call_entered',
+  'active_calls',
+  'pending',
+  'followed_up',
+  'not_received',
+  'completed'
+] as const;
+
+const CALL_PRIORITIES = ['low', 'medium', 'high'] as const;
+
+// Validation schemas
+const callFollowUpSchema = z.object({
+  callerName: z.string().min(1).max(100),
+  phoneNumber: z.string().min(1).max(20),
+  personToContact: z.string().max(100).nullable().optional(),
+  vehicleId: z.string().uuid().nullable().optional(),
+  operatorId: z.string().uuid().nullable().optional(),
+  assignedToId: z.string().uuid().nullable().optional(),
+  priority: z.enum(CALL_PRIORITIES).default('medium'),
+  callOutcome: z.string().max(2000).nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  followUpAt: z.string().datetime({ offset: true }).nullable().optional()
+});
+
+const statusChangeSchema = z.object({
+  status: z.enum(CALL_FOLLOW_UP_STATUSES),
+  notes: z.string().max(2000).optional(),
+  callOutcome: z.string().max(2000).optional(),
+  followUpAt: z.string().datetime({ offset: true }).nullable().optional()
+});
+
+const callQuerySchema = z.object({
+  page: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1)).optional(),
+  limit: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1).max(100)).optional(),
+  status: z.enum(CALL_FOLLOW_UP_STATUSES).optional(),
+  priority: z.enum(CALL_PRIORITIES).optional(),
+  assignedToId: z.string().uuid().optional(),
+  operatorId: z.string().uuid().optional(),
+  mine: z.enum(['true', 'false']).optional(),
+  search: z.string().optional(),
+  includeCompleted: z.enum(['true', 'false']).optional()
+});
+
+const queueQuerySchema = z.object({
+  mine: z.enum(['true', 'false']).optional()
+});
+
+const userSummarySelect = {
+  userId: true,
+  firstName: true,
+  lastName: true,
+  email: true
+};
+
+const callListInclude = {
+  operator: { select: userSummarySelect },
+  assignedTo: { select: userSummarySelect },
+  vehicle: {
+    select: {
+      vehicleId: true,
+      carNumber: true
+    }
+  }
+};
+
+export class CallFollowUpController {
+  /**
+   * Get follow-up calls with filtering, pagination and queue counts
+   */
+  static async getCalls(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const query = callQuerySchema.parse(req.query);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const where: any = {};
+      if (query.status) {
+        where.status = query.status;
+      } else if (query.includeCompleted === 'false') {
+        where.status = { not: 'completed' };
+      }
+      if (query.priority) where.priority = query.priority;
+      if (query.assignedToId) where.assignedToId = query.assignedToId;
+      if (query.operatorId) where.operatorId = query.operatorId;
+      if (query.mine === 'true') where.assignedToId = req.user.userId;
+      if (query.search) {
+        where.OR = [
+          { callerName: { contains: query.search, mode: 'insensitive' } },
+          { phoneNumber: { contains: query.search } },
+          { personToContact: { contains: query.search, mode: 'insensitive' } },
+          { callOutcome: { contains: query.search, mode: 'insensitive' } }
+        ];
+      }
+
+      const page = query.page || 1;
+      const limit = query.limit || 20;
+      const skip = (page - 1) * limit;
+      const { endOfToday } = getFollowUpQueueWindow();
+      const now = new Date();
+
+      const [calls, total, statusCounts, dueToday, overdue] = await Promise.all([
+        tenantDb.callFollowUp.findMany({
+          where,
+          include: callListInclude,
+          skip,
+          take: limit,
+          orderBy: { createdAt: 'desc' }
+        }),
+        tenantDb.callFollowUp.count({ where }),
+        tenantDb.callFollowUp.groupBy({
+          by: ['status'],
+          _count: { _all: true }
+        }),
+        tenantDb.callFollowUp.count({
+          where: { status: { not: 'completed' }, followUpAt: { gte: now, lt: endOfToday } }
+        }),
+        tenantDb.callFollowUp.count({
+          where: { status: { not: 'completed' }, followUpAt: { lt: now } }
+        })
+      ]);
+
+      const summary: Record<string, number> = Object.fromEntries(CALL_FOLLOW_UP_STATUSES.map(status => [status, 0]));
+      for (const entry of statusCounts) {
+        summary[entry.status] = entry._count._all;
+      }
+
+      res.json({
+        success: true,
+        data: calls,
+        summary: {
+          ...summary,
+          total: Object.values(summary).reduce((sum, count) => sum + count, 0),
+          dueToday,
+          overdue
+        },
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      console.error('Get call follow-ups error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get call follow-ups'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get the overdue and due-today callback queues of open calls
+   */
+  static async getQueues(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const query = queueQuerySchema.parse(req.query);
+      const tenantDb = await getTenantDb(req.tenantId);
+      const { endOfToday } = getFollowUpQueueWindow();
+      const now = new Date();
+
+      const where: any = { status: { not: 'completed' } };
+      if (query.mine === 'true') where.assignedToId = req.user.userId;
+
+      const [overdue, dueToday] = await Promise.all([
+        tenantDb.callFollowUp.findMany({
+          where: { ...where, followUpAt: { lt: now } },
+          include: callListInclude,
+          orderBy: { followUpAt: 'asc' }
+        }),
+        tenantDb.callFollowUp.findMany({
+          where: { ...where, followUpAt: { gte: now, lt: endOfToday } },
+          include: callListInclude,
+          orderBy: { followUpAt: 'asc' }
+        })
+      ]);
+
+      const response: ApiResponse<{ overdue: typeof overdue; dueToday: typeof dueToday }> = {
+        success: true,
+        data: { overdue, dueToday }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get call follow-up queues error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get call follow-up queues'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get users calls can be taken by or assigned to
+   */
+  static async getAssignees(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const users = await tenantDb.user.findMany({
+        where: { status: 'active' },
+        select: {
+          ...userSummarySelect,
+          mobileNumber: true,
+          role: { select: { roleName: true } },
+          department: { select: { departmentName: true } }
+        },
+        orderBy: { firstName: 'asc' }
+      });
+
+      const response: ApiResponse<typeof users> = {
+        success: true,
+        data: users
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get call follow-up assignees error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get assignees'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get follow-up call with its status history
+   */
+  static async getCall(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { callId } = req.params;
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const call = await CallFollowUpController.findCallWithHistory(tenantDb, callId);
+
+      if (!call) {
+        res.status(404).json({
+          success: false,
+          error: 'Call follow-up not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const response: ApiResponse<typeof call> = {
+        success: true,
+        data: call
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get call follow-up error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get call follow-up'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Log a call that needs following up. The operator defaults to the current user.
+   */
+  static async createCall(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const body = callFollowUpSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+      const operatorId = body.operatorId === undefined ? req.user.userId : body.operatorId;
+
+      const invalidReference = await CallFollowUpController.validateReferences(tenantDb, {
+        vehicleId: body.vehicleId,
+        operatorId,
+        assignedToId: body.assignedToId
+      });
+      if (invalidReference) {
+        res.status(400).json({
+          success: false,
+          error: invalidReference
+        } as ApiResponse);
+        return;
+      }
+
+      const call = await tenantDb.callFollowUp.create({
+        data: {
+          callerName: body.callerName,
+          phoneNumber: body.phoneNumber,
+          personToContact: body.personToContact,
+          vehicleId: body.vehicleId,
+          operatorId,
+          assignedToId: body.assignedToId,
+          priority: body.priority,
+          callOutcome: body.callOutcome,
+          notes: body.notes,
+          followUpAt: body.followUpAt ? new Date(body.followUpAt) : null,
+          createdBy: req.user.userId,
+          statusHistory: {
+            create: {
+              toStatus: 'call_entered',
+              notes: 'Initial call entry',
+              changedBy: req.user.userId
+            }
+          }
+        },
+        include: callListInclude
+      });
+
+      if (call.assignedToId && call.assignedToId !== req.user.userId) {
+        await CallFollowUpController.notifyAssignee(req.tenantId, call, req.user.userId);
+      }
+
+      const response: ApiResponse<typeof call> = {
+        success: true,
+        data: call,
+        message: 'Call follow-up created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Create call follow-up error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create call follow-up'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Update call details, callback time and assignment. Status has its own endpoint.
+   */
+  static async updateCall(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { callId } = req.params;
+      const body = callFollowUpSchema.partial().parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const existingCall = await tenantDb.callFollowUp.findUnique({
+        where: { callId }
+      });
+
+      if (!existingCall) {
+        res.status(404).json({
+          success: false,
+          error: 'Call follow-up not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const invalidReference = await CallFollowUpController.validateReferences(tenantDb, body);
+      if (invalidReference) {
+        res.status(400).json({
+          success: false,
+          error: invalidReference
+        } as ApiResponse);
+        return;
+      }
+
+      // partial() keeps the priority default, so only apply fields that were sent
+      const data: any = {};
+      for (const [key, value] of Object.entries(body)) {
+        if (key in (req.body || {})) {
+          data[key] = value;
+        }
+      }
+      if ('followUpAt' in data) {
+        data.followUpAt = data.followUpAt ? new Date(data.followUpAt) : null;
+        if (data.followUpAt?.getTime() !== existingCall.followUpAt?.getTime()) {
+          // Rescheduled, remind again
+          data.reminderSentAt = null;
+        }
+      }
+
+      const call = await tenantDb.callFollowUp.update({
+        where: { callId },
+        data,
+        include: callListInclude
+      });
+
+      if (call.assignedToId && call.assignedToId !== existingCall.assignedToId && call.assignedToId !== req.user.userId) {
+        await CallFollowUpController.notifyAssignee(req.tenantId, call, req.user.userId);
+      }
+
+      const response: ApiResponse<typeof call> = {
+        success: true,
+        data: call,
+        message: 'Call follow-up updated successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Update call follow-up error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update call follow-up'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Change call status, recording the outcome in the status history.
+   * A new callback time can be scheduled in the same step (e.g. not received).
+   */
+  static async updateCallStatus(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { callId } = req.params;
+      const body = statusChangeSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const existingCall = await tenantDb.callFollowUp.findUnique({
+        where: { callId }
+      });
+
+      if (!existingCall) {
+        res.status(404).json({
+          success: false,
+          error: 'Call follow-up not found'
+        } as ApiResponse);
+        return;
+      }
+
+      if (existingCall.status === body.status && body.followUpAt === undefined && !body.callOutcome) {
+        res.status(400).json({
+          success: false,
+          error: `Call follow-up is already ${body.status}`
+        } as ApiResponse);
+        return;
+      }
+
+      const now = new Date();
+      const data: any = {
+        status: body.status,
+        completedAt: body.status === 'completed' ? existingCall.completedAt || now : null
+      };
+      if (body.callOutcome) {
+        data.callOutcome = body.callOutcome;
+      }
+      // Response time runs until the call is first acted on
+      if (!existingCall.firstRespondedAt && body.status !== 'call_entered') {
+        data.firstRespondedAt = now;
+      }
+      if (body.followUpAt !== undefined) {
+        data.followUpAt = body.followUpAt ? new Date(body.followUpAt) : null;
+        data.reminderSentAt = null;
+      }
+
+      await tenantDb.$transaction([
+        tenantDb.callFollowUp.update({
+          where: { callId },
+          data
+        }),
+        tenantDb.callFollowUpStatusChange.create({
+          data: {
+            callId,
+            fromStatus: existingCall.status,
+            toStatus: body.status,
+            callOutcome: body.callOutcome,
+            notes: body.notes,
+            changedBy: req.user.userId
+          }
+        })
+      ]);
+
+      const call = await CallFollowUpController.findCallWithHistory(tenantDb, callId);
+
+      const response: ApiResponse<typeof call> = {
+        success: true,
+        data: call,
+        message: 'Call follow-up status updated successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Update call follow-up status error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update call follow-up status'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Delete follow-up call with its status history
+   */
+  static async deleteCall(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { callId } = req.params;
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const deleted = await tenantDb.callFollowUp.deleteMany({
+        where: { callId }
+      });
+
+      if (deleted.count === 0) {
+        res.status(404).json({
+          success: false,
+          error: 'Call follow-up not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Call follow-up deleted successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Delete call follow-up error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete call follow-up'
+      } as ApiResponse);
+    }
+  }
+
+  private static async findCallWithHistory(tenantDb: any, callId: string) {
+    return tenantDb.callFollowUp.findUnique({
+      where: { callId },
+      include: {
+        ...callListInclude,
+        statusHistory: {
+          include: { user: { select: userSummarySelect } },
+          orderBy: { changedAt: 'asc' }
+        }
+      }
+    });
+  }
+
+  /**
+   * Error message for a referenced vehicle or user that does not exist, or null
+   */
+  private static async validateReferences(
+    tenantDb: any,
+    refs: { vehicleId?: string | null; operatorId?: string | null; assignedToId?: string | null }
+  ): Promise<string | null> {
+    if (refs.vehicleId) {
+      const vehicle = await tenantDb.vehicle.findUnique({
+        where: { vehicleId: refs.vehicleId },
+        select: { vehicleId: true }
+      });
+      if (!vehicle) {
+        return 'Vehicle not found';
+      }
+    }
+
+    const userIds = [refs.operatorId, refs.assignedToId].filter((id): id is string => !!id);
+    if (userIds.length > 0) {
+      const users = await tenantDb.user.count({
+        where: { userId: { in: userIds }, status: 'active' }
+      });
+      if (users !== new Set(userIds).size) {
+        return 'Operator or assigned user not found';
+      }
+    }
+
+    return null;
+  }
+
+  private static async notifyAssignee(
+    tenantId: string,
+    call: { callId: string; assignedToId: string | null; callerName: string; phoneNumber: string; followUpAt: Date | null },
+    assignedBy: string
+  ): Promise<void> {
+    try {
+      await notifyUsers(tenantId, {
+        recipientIds: [call.assignedToId!],
+        type: 'info',
+        title: 'Follow-up call assigned',
+        message: call.followUpAt
+          ? `Call back ${call.callerName} (${call.phoneNumber}) at ${call.followUpAt.toLocaleString()}`
+          : `Follow up with ${call.callerName} (${call.phoneNumber})`,
+        action: { label: 'View', url: '/tracker/call-follow-up' },
+        entityType: 'call_follow_up',
+        entityId: call.callId,
+        createdBy: assignedBy
+      });
+    } catch (error) {
+      // The assignment itself succeeded
+      console.error('Call follow-up assignment notification error:', error);
+    }
+  }
+}
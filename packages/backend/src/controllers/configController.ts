@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { getTenantDb } from '../lib/database';
+import { recordAudit, getAuditContext } from '../lib/audit';
+import { assertPublicUrl, OutboundUrlError } from '../lib/outboundHttp';
 import {
   ApiResponse
 } from '@omsms/shared';
@@ -15,6 +17,15 @@ const configSchema = z.object({
 
 const bulkConfigSchema = z.array(configSchema);
 
+// Settings the server sends requests to; they must not point at internal addresses
+const OUTBOUND_URL_SETTINGS = new Set(['notification.webhookUrl']);
+
+async function assertOutboundSetting(category: string, key: string, value: unknown): Promise<void> {
+  if (OUTBOUND_URL_SETTINGS.has(`${category}.${key}`) && typeof value === 'string' && value) {
+    await assertPublicUrl(value);
+  }
+}
+
 const updateConfigSchema = z.object({
   configValue: z.any(),
   description: z.string().optional()
@@ -46,7 +57,10 @@ const CONFIG_SCHEMAS = {
     pushEnabled: z.boolean().optional(),
     webhookUrl: z.string().url().optional(),
     notifyOnStatusChange: z.boolean().optional(),
-    notifyOnDelayedDelivery: z.boolean().optional()
+    notifyOnDelayedDelivery: z.boolean().optional(),
+    paymentRemindersEnabled: z.boolean().optional(),
+    paymentReminderDays: z.array(z.number().int().min(-90).max(365)).max(20).optional(), // relative to the due date
+    paymentReminderNotifyOwner: z.boolean().optional()
   }),
   
   integration: z.object({
@@ -69,6 +83,9 @@ const CONFIG_SCHEMAS = {
     defaultMarkup: z.number().min(0).optional(),
     taxRate: z.number().min(0).max(100).optional(),
     invoicePrefix: z.string().optional(),
+    creditNotePrefix: z.string().optional(),
+    receiptPrefix: z.string().optional(),
+    refundPrefix: z.string().optional(),
     invoiceNumbering: z.enum(['sequential', 'random']).optional(),
     paymentTerms: z.string().optional()
   })
@@ -209,6 +226,16 @@ export class ConfigController {
           return;
         }
       }
+      await assertOutboundSetting(category, key, body.configValue);
+
+      const existingConfig = await tenantDb.systemConfig.findUnique({
+        where: {
+          configCategory_configKey: {
+            configCategory: category,
+            configKey: key
+          }
+        }
+      });
 
       // Upsert configuration
       const config = await tenantDb.systemConfig.upsert({
@@ -230,6 +257,16 @@ export class ConfigController {
         }
       });
 
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'config',
+        entityId: `${category}.${key}`,
+        verb: existingConfig ? 'updated' : 'created',
+        // Keyed by the config key so secret settings are masked
+        before: existingConfig ? { [key]: existingConfig.configValue } : null,
+        after: { [key]: config.configValue }
+      });
+
       const response: ApiResponse<typeof config> = {
         success: true,
         data: config,
@@ -249,6 +286,15 @@ export class ConfigController {
         return;
       }
 
+      if (error instanceof OutboundUrlError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: 'Failed to set configuration'
@@ -287,8 +333,15 @@ export class ConfigController {
             return;
           }
         }
+        await assertOutboundSetting(config.configCategory, config.configKey, config.configValue);
       }
 
+      const existingConfigs = await tenantDb.systemConfig.findMany({
+        where: {
+          OR: body.map(config => ({ configCategory: config.configCategory, configKey: config.configKey }))
+        }
+      });
+
       // Update all configurations in a transaction
       const results = await tenantDb.$transaction(
         body.map(config => 
@@ -313,6 +366,21 @@ export class ConfigController {
         )
       );
 
+      const auditContext = getAuditContext(req);
+      for (const config of results) {
+        const existing = existingConfigs.find(item =>
+          item.configCategory === config.configCategory && item.configKey === config.configKey
+        );
+        await recordAudit(tenantDb, {
+          ...auditContext,
+          entityType: 'config',
+          entityId: `${config.configCategory}.${config.configKey}`,
+          verb: existing ? 'updated' : 'created',
+          before: existing ? { [config.configKey]: existing.configValue } : null,
+          after: { [config.configKey]: config.configValue }
+        });
+      }
+
       const response: ApiResponse<typeof results> = {
         success: true,
         data: results,
@@ -332,6 +400,15 @@ export class ConfigController {
         return;
       }
 
+      if (error instanceof OutboundUrlError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: 'Failed to update configurations'
@@ -355,7 +432,7 @@ export class ConfigController {
       const { category, key } = req.params;
       const tenantDb = await getTenantDb(req.tenantId);
 
-      await tenantDb.systemConfig.delete({
+      const deletedConfig = await tenantDb.systemConfig.delete({
         where: {
           configCategory_configKey: {
             configCategory: category,
@@ -364,6 +441,14 @@ export class ConfigController {
         }
       });
 
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'config',
+        entityId: `${category}.${key}`,
+        verb: 'deleted',
+        before: { [key]: deletedConfig.configValue }
+      });
+
       const response: ApiResponse = {
         success: true,
         message: 'Configuration deleted successfully'
@@ -445,6 +530,10 @@ export class ConfigController {
         return;
       }
 
+      const existingConfigs = await tenantDb.systemConfig.findMany({
+        where: { configCategory: category }
+      });
+
       // Delete existing configurations for the category
       await tenantDb.systemConfig.deleteMany({
         where: { configCategory: category }
@@ -462,6 +551,22 @@ export class ConfigController {
         data: defaultConfigs
       });
 
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'config',
+        entityId: category,
+        verb: 'updated',
+        before: Object.fromEntries(
+          [...Object.keys(defaults), ...existingConfigs.map(config => config.configKey)]
+            .map(key => [key, existingConfigs.find(config => config.configKey === key)?.configValue ?? null])
+        ),
+        after: Object.fromEntries(
+          [...Object.keys(defaults), ...existingConfigs.map(config => config.configKey)]
+            .map(key => [key, defaults[key] ?? null])
+        ),
+        details: { resetToDefaults: true }
+      });
+
       const response: ApiResponse = {
         success: true,
         message: 'Configuration category reset to defaults'
@@ -505,7 +610,10 @@ function getDefaultConfigurations(category: string): Record<string, any> | null
       smsEnabled: false,
       pushEnabled: true,
       notifyOnStatusChange: true,
-      notifyOnDelayedDelivery: true
+      notifyOnDelayedDelivery: true,
+      paymentRemindersEnabled: true,
+      paymentReminderDays: [-3, 0, 7, 15, 30, 60, 90],
+      paymentReminderNotifyOwner: false
     },
     
     integration: {
@@ -526,6 +634,9 @@ function getDefaultConfigurations(category: string): Record<string, any> | null
       defaultMarkup: 0,
       taxRate: 0,
       invoicePrefix: 'INV',
+      creditNotePrefix: 'CN',
+      receiptPrefix: 'RCPT',
+      refundPrefix: 'RFND',
       invoiceNumbering: 'sequential',
       paymentTerms: 'Net 30'
     }
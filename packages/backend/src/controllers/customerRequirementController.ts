@@ -0,0 +1,871 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { getTenantDb } from '../lib/database';
+import { notifyUsers } from '../lib/notifications';
+import { emitVehicleUpdate, emitDataSync } from '../lib/realTimeEvents';
+import { dispatchWebhook } from '../lib/webhooks';
+import { VehicleController } from './vehicleController';
+import {
+  ApiResponse
+} from '@omsms/shared';
+
+export const CUSTOMER_REQUIREMENT_STATUSES = [
+  'pending',
+  'in_progress',
+  'ordered',
+  'procedure',
+  'contacted',
+  'completed'
+] as const;
+
+const REQUIREMENT_PRIORITIES = ['low', 'medium', 'high'] as const;
+
+// Validation schemas
+// Requested products use the vehicleDetails.products shape so they can be copied onto a vehicle order
+const requestedProductSchema = z.object({
+  productName: z.string().min(1).max(200),
+  brandName: z.string().max(100).nullable().optional(),
+  price: z.number().min(0).nullable().optional(),
+  departmentName: z.string().max(100).nullable().optional()
+});
+
+const requirementSchema = z.object({
+  customerName: z.string().min(1).max(100),
+  customerPhone: z.string().min(1).max(20),
+  customerEmail: z.string().email().nullable().optional(),
+  description: z.string().min(1).max(5000),
+  requestedProducts: z.array(requestedProductSchema).max(50).default([]),
+  priority: z.enum(REQUIREMENT_PRIORITIES).default('medium'),
+  assignedToId: z.string().uuid().nullable().optional()
+});
+
+const statusChangeSchema = z.object({
+  status: z.enum(CUSTOMER_REQUIREMENT_STATUSES),
+  notes: z.string().max(2000).optional()
+});
+
+const commentSchema = z.object({
+  message: z.string().min(1).max(5000)
+});
+
+const convertSchema = z.object({
+  carNumber: z.string().min(1).max(20),
+  modelName: z.string().max(100).nullable().optional(),
+  brandName: z.string().max(100).nullable().optional(),
+  vehicleType: z.string().max(50).nullable().optional(),
+  ownerAddress: z.string().max(500).nullable().optional(),
+  locationId: z.string().uuid().nullable().optional(),
+  salespersonId: z.string().uuid().nullable().optional(),
+  coordinatorId: z.string().uuid().nullable().optional(),
+  supervisorId: z.string().uuid().nullable().optional(),
+  inwardDate: z.string().datetime({ offset: true }).nullable().optional(),
+  expectedDeliveryDate: z.string().datetime({ offset: true }).nullable().optional()
+});
+
+const requirementQuerySchema = z.object({
+  page: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1)).optional(),
+  limit: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1).max(100)).optional(),
+  status: z.enum(CUSTOMER_REQUIREMENT_STATUSES).optional(),
+  priority: z.enum(REQUIREMENT_PRIORITIES).optional(),
+  assignedToId: z.string().uuid().optional(),
+  mine: z.enum(['true', 'false']).optional(),
+  search: z.string().optional(),
+  includeCompleted: z.enum(['true', 'false']).optional()
+});
+
+const userSummarySelect = {
+  userId: true,
+  firstName: true,
+  lastName: true,
+  email: true
+};
+
+const requirementListInclude = {
+  assignedTo: { select: userSummarySelect },
+  creator: { select: userSummarySelect },
+  vehicle: {
+    select: {
+      vehicleId: true,
+      carNumber: true,
+      status: true
+    }
+  },
+  _count: {
+    select: { comments: true }
+  }
+};
+
+export class CustomerRequirementController {
+  /**
+   * Get customer requirements with filtering, pagination and status counts
+   */
+  static async getRequirements(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const query = requirementQuerySchema.parse(req.query);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const where: any = {};
+      if (query.status) {
+        where.status = query.status;
+      } else if (query.includeCompleted === 'false') {
+        where.status = { not: 'completed' };
+      }
+      if (query.priority) where.priority = query.priority;
+      if (query.assignedToId) where.assignedToId = query.assignedToId;
+      if (query.mine === 'true') where.assignedToId = req.user.userId;
+      if (query.search) {
+        where.OR = [
+          { customerName: { contains: query.search, mode: 'insensitive' } },
+          { customerPhone: { contains: query.search } },
+          { customerEmail: { contains: query.search, mode: 'insensitive' } },
+          { description: { contains: query.search, mode: 'insensitive' } }
+        ];
+      }
+
+      const page = query.page || 1;
+      const limit = query.limit || 20;
+      const skip = (page - 1) * limit;
+
+      const [requirements, total, statusCounts] = await Promise.all([
+        tenantDb.customerRequirement.findMany({
+          where,
+          include: requirementListInclude,
+          skip,
+          take: limit,
+          orderBy: { createdAt: 'desc' }
+        }),
+        tenantDb.customerRequirement.count({ where }),
+        tenantDb.customerRequirement.groupBy({
+          by: ['status'],
+          _count: { _all: true }
+        })
+      ]);
+
+      const summary: Record<string, number> = Object.fromEntries(CUSTOMER_REQUIREMENT_STATUSES.map(status => [status, 0]));
+      for (const entry of statusCounts) {
+        summary[entry.status] = entry._count._all;
+      }
+
+      res.json({
+        success: true,
+        data: requirements,
+        summary: {
+          ...summary,
+          total: Object.values(summary).reduce((sum, count) => sum + count, 0)
+        },
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      console.error('Get customer requirements error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get customer requirements'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get users requirements can be assigned to
+   */
+  static async getAssignees(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const users = await tenantDb.user.findMany({
+        where: { status: 'active' },
+        select: {
+          ...userSummarySelect,
+          role: { select: { roleName: true } },
+          department: { select: { departmentName: true } }
+        },
+        orderBy: { firstName: 'asc' }
+      });
+
+      const response: ApiResponse<typeof users> = {
+        success: true,
+        data: users
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get customer requirement assignees error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get assignees'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get customer requirement with status history and comments
+   */
+  static async getRequirement(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { requirementId } = req.params;
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const requirement = await CustomerRequirementController.findRequirementWithDetails(tenantDb, requirementId);
+
+      if (!requirement) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer requirement not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const response: ApiResponse<typeof requirement> = {
+        success: true,
+        data: requirement
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get customer requirement error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get customer requirement'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Record a new customer requirement
+   */
+  static async createRequirement(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const body = requirementSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      if (body.assignedToId && !(await CustomerRequirementController.isActiveUser(tenantDb, body.assignedToId))) {
+        res.status(400).json({
+          success: false,
+          error: 'Assigned user not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const requirement = await tenantDb.customerRequirement.create({
+        data: {
+          customerName: body.customerName,
+          customerPhone: body.customerPhone,
+          customerEmail: body.customerEmail,
+          description: body.description,
+          requestedProducts: body.requestedProducts,
+          priority: body.priority,
+          assignedToId: body.assignedToId,
+          createdBy: req.user.userId,
+          statusHistory: {
+            create: {
+              toStatus: 'pending',
+              notes: 'Requirement recorded',
+              changedBy: req.user.userId
+            }
+          }
+        },
+        include: requirementListInclude
+      });
+
+      if (requirement.assignedToId && requirement.assignedToId !== req.user.userId) {
+        await CustomerRequirementController.notifyAssignee(req.tenantId, requirement, req.user.userId);
+      }
+
+      const response: ApiResponse<typeof requirement> = {
+        success: true,
+        data: requirement,
+        message: 'Customer requirement created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Create customer requirement error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create customer requirement'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Update requirement details, requested products and assignment. Status has its own endpoint.
+   */
+  static async updateRequirement(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { requirementId } = req.params;
+      const body = requirementSchema.partial().parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const existingRequirement = await tenantDb.customerRequirement.findUnique({
+        where: { requirementId }
+      });
+
+      if (!existingRequirement) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer requirement not found'
+        } as ApiResponse);
+        return;
+      }
+
+      if (body.assignedToId && !(await CustomerRequirementController.isActiveUser(tenantDb, body.assignedToId))) {
+        res.status(400).json({
+          success: false,
+          error: 'Assigned user not found'
+        } as ApiResponse);
+        return;
+      }
+
+      // partial() keeps the schema defaults, so only apply fields that were sent
+      const data: any = {};
+      for (const [key, value] of Object.entries(body)) {
+        if (key in (req.body || {})) {
+          data[key] = value;
+        }
+      }
+
+      const requirement = await tenantDb.customerRequirement.update({
+        where: { requirementId },
+        data,
+        include: requirementListInclude
+      });
+
+      if (
+        requirement.assignedToId &&
+        requirement.assignedToId !== existingRequirement.assignedToId &&
+        requirement.assignedToId !== req.user.userId
+      ) {
+        await CustomerRequirementController.notifyAssignee(req.tenantId, requirement, req.user.userId);
+      }
+
+      const response: ApiResponse<typeof requirement> = {
+        success: true,
+        data: requirement,
+        message: 'Customer requirement updated successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Update customer requirement error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update customer requirement'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Change requirement status, recording it in the status history
+   */
+  static async updateRequirementStatus(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { requirementId } = req.params;
+      const body = statusChangeSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const existingRequirement = await tenantDb.customerRequirement.findUnique({
+        where: { requirementId }
+      });
+
+      if (!existingRequirement) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer requirement not found'
+        } as ApiResponse);
+        return;
+      }
+
+      if (existingRequirement.status === body.status) {
+        res.status(400).json({
+          success: false,
+          error: `Customer requirement is already ${body.status}`
+        } as ApiResponse);
+        return;
+      }
+
+      await tenantDb.$transaction([
+        tenantDb.customerRequirement.update({
+          where: { requirementId },
+          data: {
+            status: body.status,
+            completedAt: body.status === 'completed' ? new Date() : null
+          }
+        }),
+        tenantDb.customerRequirementStatusChange.create({
+          data: {
+            requirementId,
+            fromStatus: existingRequirement.status,
+            toStatus: body.status,
+            notes: body.notes,
+            changedBy: req.user.userId
+          }
+        })
+      ]);
+
+      const requirement = await CustomerRequirementController.findRequirementWithDetails(tenantDb, requirementId);
+
+      const response: ApiResponse<typeof requirement> = {
+        success: true,
+        data: requirement,
+        message: 'Customer requirement status updated successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Update customer requirement status error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update customer requirement status'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Add a comment to a requirement
+   */
+  static async addComment(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { requirementId } = req.params;
+      const body = commentSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const requirement = await tenantDb.customerRequirement.findUnique({
+        where: { requirementId },
+        select: { requirementId: true }
+      });
+
+      if (!requirement) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer requirement not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const comment = await tenantDb.customerRequirementComment.create({
+        data: {
+          requirementId,
+          authorId: req.user.userId,
+          message: body.message
+        },
+        include: {
+          author: { select: userSummarySelect }
+        }
+      });
+
+      const response: ApiResponse<typeof comment> = {
+        success: true,
+        data: comment,
+        message: 'Comment added successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Add customer requirement comment error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to add comment'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Convert a requirement into a vehicle order. Creates a pending vehicle for the
+   * customer with the requested products in vehicleDetails.products and moves
+   * the requirement to ordered.
+   */
+  static async convertToVehicle(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { requirementId } = req.params;
+      const body = convertSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+      const userId = req.user.userId;
+
+      const requirement = await tenantDb.customerRequirement.findUnique({
+        where: { requirementId }
+      });
+
+      if (!requirement) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer requirement not found'
+        } as ApiResponse);
+        return;
+      }
+
+      if (requirement.vehicleId) {
+        res.status(409).json({
+          success: false,
+          error: 'Customer requirement has already been converted to a vehicle order'
+        } as ApiResponse);
+        return;
+      }
+
+      const carNumber = body.carNumber.trim();
+      const existingVehicle = await tenantDb.vehicle.findUnique({
+        where: { carNumber },
+        select: { vehicleId: true }
+      });
+
+      if (existingVehicle) {
+        res.status(409).json({
+          success: false,
+          error: 'Vehicle with this car number already exists'
+        } as ApiResponse);
+        return;
+      }
+
+      const invalidReference = await CustomerRequirementController.validateVehicleReferences(tenantDb, body);
+      if (invalidReference) {
+        res.status(400).json({
+          success: false,
+          error: invalidReference
+        } as ApiResponse);
+        return;
+      }
+
+      const products = Array.isArray(requirement.requestedProducts) ? requirement.requestedProducts : [];
+      await VehicleController.ensureProductsAndBrandsExist(tenantDb, products as any[]);
+
+      const vehicle = await tenantDb.$transaction(async (tx: any) => {
+        const newVehicle = await tx.vehicle.create({
+          data: {
+            carNumber,
+            ownerName: requirement.customerName,
+            ownerMobile: requirement.customerPhone,
+            ownerEmail: requirement.customerEmail,
+            ownerAddress: body.ownerAddress,
+            modelName: body.modelName,
+            brandName: body.brandName,
+            vehicleType: body.vehicleType ?? undefined,
+            locationId: body.locationId,
+            salespersonId: body.salespersonId,
+            coordinatorId: body.coordinatorId,
+            supervisorId: body.supervisorId,
+            inwardDate: body.inwardDate ? new Date(body.inwardDate) : null,
+            expectedDeliveryDate: body.expectedDeliveryDate ? new Date(body.expectedDeliveryDate) : null,
+            status: 'pending',
+            vehicleDetails: { products },
+            createdBy: userId
+          }
+        });
+
+        // Completed requirements keep their status, everything else moves to ordered
+        const nextStatus = requirement.status === 'completed' ? requirement.status : 'ordered';
+
+        await tx.customerRequirement.update({
+          where: { requirementId },
+          data: {
+            vehicleId: newVehicle.vehicleId,
+            convertedAt: new Date(),
+            status: nextStatus
+          }
+        });
+
+        await tx.customerRequirementStatusChange.create({
+          data: {
+            requirementId,
+            fromStatus: requirement.status,
+            toStatus: nextStatus,
+            notes: `Converted to vehicle order ${carNumber}`,
+            changedBy: userId
+          }
+        });
+
+        return newVehicle;
+      });
+
+      await VehicleController.initializeDefaultWorkflows(tenantDb, vehicle.vehicleId, userId);
+
+      // Emit real-time events
+      emitVehicleUpdate(req.tenantId, {
+        vehicleId: vehicle.vehicleId,
+        status: vehicle.status,
+        assignedTo: vehicle.salespersonId || undefined,
+        location: vehicle.locationId || undefined,
+        updatedBy: userId,
+        changes: { action: 'created', vehicle, requirementId },
+        timestamp: new Date()
+      });
+
+      emitDataSync(req.tenantId, {
+        entityType: 'vehicle',
+        action: 'created',
+        entityId: vehicle.vehicleId,
+        data: vehicle,
+        timestamp: new Date()
+      });
+
+      dispatchWebhook(req.tenantId, 'vehicle.created', {
+        vehicle,
+        createdBy: userId
+      });
+
+      const updatedRequirement = await CustomerRequirementController.findRequirementWithDetails(tenantDb, requirementId);
+
+      const response: ApiResponse<{ requirement: typeof updatedRequirement; vehicle: typeof vehicle }> = {
+        success: true,
+        data: { requirement: updatedRequirement, vehicle },
+        message: 'Customer requirement converted to vehicle order'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Convert customer requirement error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to convert customer requirement'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Delete customer requirement with its history and comments. A vehicle order
+   * created from it is kept.
+   */
+  static async deleteRequirement(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { requirementId } = req.params;
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const deleted = await tenantDb.customerRequirement.deleteMany({
+        where: { requirementId }
+      });
+
+      if (deleted.count === 0) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer requirement not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Customer requirement deleted successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Delete customer requirement error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete customer requirement'
+      } as ApiResponse);
+    }
+  }
+
+  private static async findRequirementWithDetails(tenantDb: any, requirementId: string) {
+    return tenantDb.customerRequirement.findUnique({
+      where: { requirementId },
+      include: {
+        ...requirementListInclude,
+        statusHistory: {
+          include: { user: { select: userSummarySelect } },
+          orderBy: { changedAt: 'asc' }
+        },
+        comments: {
+          include: { author: { select: userSummarySelect } },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+  }
+
+  private static async isActiveUser(tenantDb: any, userId: string): Promise<boolean> {
+    const user = await tenantDb.user.findUnique({
+      where: { userId },
+      select: { status: true }
+    });
+    return user?.status === 'active';
+  }
+
+  /**
+   * Error message for a location or staff member on the vehicle order that does not exist, or null
+   */
+  private static async validateVehicleReferences(
+    tenantDb: any,
+    refs: { locationId?: string | null; salespersonId?: string | null; coordinatorId?: string | null; supervisorId?: string | null }
+  ): Promise<string | null> {
+    if (refs.locationId) {
+      const location = await tenantDb.location.findUnique({
+        where: { locationId: refs.locationId },
+        select: { locationId: true }
+      });
+      if (!location) {
+        return 'Location not found';
+      }
+    }
+
+    const staff = [
+      { id: refs.salespersonId, field: 'Salesperson' },
+      { id: refs.coordinatorId, field: 'Coordinator' },
+      { id: refs.supervisorId, field: 'Supervisor' }
+    ];
+    for (const member of staff) {
+      if (member.id && !(await CustomerRequirementController.isActiveUser(tenantDb, member.id))) {
+        return `${member.field} not found`;
+      }
+    }
+
+    return null;
+  }
+
+  private static async notifyAssignee(
+    tenantId: string,
+    requirement: { requirementId: string; assignedToId: string | null; customerName: string; description: string },
+    assignedBy: string
+  ): Promise<void> {
+    try {
+      await notifyUsers(tenantId, {
+        recipientIds: [requirement.assignedToId!],
+        type: 'info',
+        title: 'Customer requirement assigned',
+        message: `${requirement.customerName}: ${requirement.description.slice(0, 120)}`,
+        action: { label: 'View', url: '/tracker/requirements' },
+        entityType: 'customer_requirement',
+        entityId: requirement.requirementId,
+        createdBy: assignedBy
+      });
+    } catch (error) {
+      // The assignment itself succeeded
+      console.error('Customer requirement assignment notification error:', error);
+    }
+  }
+}
@@ -230,6 +230,8 @@ export class DashboardController {
               'vehicle:updated',
               'vehicle:status_changed',
               'workflow:stage_completed',
+              'workflow_instance:stage_changed',
+              'payment:created',
               'media:uploaded',
               'user:login'
             ]
@@ -452,6 +454,10 @@ export class DashboardController {
         return `${userName} changed vehicle status`;
       case 'workflow:stage_completed':
         return `${userName} completed a workflow stage`;
+      case 'workflow_instance:stage_changed':
+        return `${userName} moved a workflow to ${activity.newValues?.currentStage || 'the next stage'}`;
+      case 'payment:created':
+        return `${userName} raised a payable`;
       case 'media:uploaded':
         return `${userName} uploaded media files`;
       case 'user:login':
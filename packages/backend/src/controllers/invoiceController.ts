@@ -0,0 +1,785 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import type { PrismaClient } from '../../packages/database/generated/tenant-client';
+import { getTenantDb } from '../lib/database';
+import { emitDataSync } from '../lib/realTimeEvents';
+import { dispatchWebhook } from '../lib/webhooks';
+import { generateInvoicePdf } from '../lib/invoicePdf';
+import {
+  InvoiceError,
+  InvoiceLineInput,
+  buildVehicleInvoiceLines,
+  calculateInvoice,
+  determineSupplyType,
+  getSellerDetails,
+  issueInvoice,
+  resolveState,
+  SupplyType
+} from '../services/invoices';
+import { getBusinessInvoiceSettings } from '../services/documentNumbers';
+import {
+  ApiResponse
+} from '@omsms/shared';
+
+const INVOICE_STATUSES = ['draft', 'issued'] as const;
+const DOCUMENT_TYPES = ['invoice', 'credit_note'] as const;
+
+// Validation schemas
+const invoiceLineSchema = z.object({
+  productId: z.string().uuid().nullable().optional(),
+  description: z.string().min(1).max(500),
+  hsnSac: z.string().max(20).nullable().optional(),
+  quantity: z.number().positive().max(100000),
+  unitPrice: z.number().min(0),
+  discount: z.number().min(0).optional(),
+  taxRate: z.number().min(0).max(100).nullable().optional()
+});
+
+const invoiceSchema = z.object({
+  vehicleId: z.string().uuid().nullable().optional(),
+  customerName: z.string().min(1).max(100),
+  customerPhone: z.string().max(20).nullable().optional(),
+  customerEmail: z.string().email().nullable().optional(),
+  customerAddress: z.string().max(500).nullable().optional(),
+  customerGstin: z.string().regex(/^[0-9]{2}[A-Z0-9]{13}$/, 'Invalid GSTIN').nullable().optional(),
+  placeOfSupply: z.string().max(100).nullable().optional(),
+  paymentTerms: z.string().max(50).nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  items: z.array(invoiceLineSchema).min(1).max(100)
+});
+
+const vehicleInvoiceSchema = z.object({
+  customerGstin: z.string().regex(/^[0-9]{2}[A-Z0-9]{13}$/, 'Invalid GSTIN').nullable().optional(),
+  placeOfSupply: z.string().max(100).nullable().optional(),
+  paymentTerms: z.string().max(50).nullable().optional(),
+  notes: z.string().max(2000).nullable().optional()
+});
+
+const creditNoteSchema = z.object({
+  reason: z.string().min(1).max(1000),
+  // Omit to reverse the whole invoice
+  items: z.array(invoiceLineSchema).min(1).max(100).optional(),
+  notes: z.string().max(2000).nullable().optional()
+});
+
+const invoiceQuerySchema = z.object({
+  page: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1)).optional(),
+  limit: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1).max(100)).optional(),
+  status: z.enum(INVOICE_STATUSES).optional(),
+  documentType: z.enum(DOCUMENT_TYPES).optional(),
+  vehicleId: z.string().uuid().optional(),
+  search: z.string().optional()
+});
+
+const userSummarySelect = {
+  userId: true,
+  firstName: true,
+  lastName: true,
+  email: true
+};
+
+const invoiceListInclude = {
+  vehicle: { select: { vehicleId: true, carNumber: true } },
+  originalInvoice: { select: { invoiceId: true, invoiceNumber: true } },
+  payment: { select: { paymentId: true, status: true, paidAmount: true, outstandingAmount: true } }
+};
+
+const invoiceDetailInclude = {
+  ...invoiceListInclude,
+  items: { orderBy: { lineNumber: 'asc' as const } },
+  creditNotes: {
+    select: { invoiceId: true, invoiceNumber: true, status: true, grandTotal: true, issueDate: true, reason: true },
+    orderBy: { createdAt: 'asc' as const }
+  },
+  originalInvoice: { select: { invoiceId: true, invoiceNumber: true, issueDate: true, grandTotal: true } },
+  creator: { select: userSummarySelect },
+  issuer: { select: userSummarySelect }
+};
+
+export class InvoiceController {
+  /**
+   * Get invoices and credit notes with filtering, pagination and totals
+   */
+  static async getInvoices(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const query = invoiceQuerySchema.parse(req.query);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const where: any = {};
+      if (query.status) where.status = query.status;
+      if (query.documentType) where.documentType = query.documentType;
+      if (query.vehicleId) where.vehicleId = query.vehicleId;
+      if (query.search) {
+        where.OR = [
+          { invoiceNumber: { contains: query.search, mode: 'insensitive' } },
+          { customerName: { contains: query.search, mode: 'insensitive' } },
+          { customerPhone: { contains: query.search } },
+          { vehicle: { carNumber: { contains: query.search, mode: 'insensitive' } } }
+        ];
+      }
+
+      const page = query.page || 1;
+      const limit = query.limit || 20;
+      const skip = (page - 1) * limit;
+
+      const [invoices, total, groups] = await Promise.all([
+        tenantDb.invoice.findMany({
+          where,
+          include: invoiceListInclude,
+          skip,
+          take: limit,
+          orderBy: { createdAt: 'desc' }
+        }),
+        tenantDb.invoice.count({ where }),
+        tenantDb.invoice.groupBy({
+          by: ['documentType', 'status'],
+          _count: { _all: true },
+          _sum: { grandTotal: true }
+        })
+      ]);
+
+      const summary = {
+        drafts: 0,
+        issuedInvoices: 0,
+        issuedCreditNotes: 0,
+        invoicedTotal: 0,
+        creditedTotal: 0,
+        netTotal: 0
+      };
+      for (const group of groups) {
+        const amount = Number(group._sum.grandTotal ?? 0);
+        if (group.status === 'draft') {
+          summary.drafts += group._count._all;
+        } else if (group.documentType === 'credit_note') {
+          summary.issuedCreditNotes += group._count._all;
+          summary.creditedTotal += amount;
+        } else {
+          summary.issuedInvoices += group._count._all;
+          summary.invoicedTotal += amount;
+        }
+      }
+      summary.netTotal = summary.invoicedTotal - summary.creditedTotal;
+
+      res.json({
+        success: true,
+        data: invoices,
+        summary,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      console.error('Get invoices error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get invoices'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get invoice with line items, credit notes and linked payable
+   */
+  static async getInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const tenantDb = await getTenantDb(req.tenantId);
+      const invoice = await tenantDb.invoice.findUnique({
+        where: { invoiceId: req.params.invoiceId },
+        include: invoiceDetailInclude
+      });
+
+      if (!invoice) {
+        res.status(404).json({
+          success: false,
+          error: 'Invoice not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const response: ApiResponse<typeof invoice> = {
+        success: true,
+        data: invoice
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get invoice error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get invoice'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Create a draft invoice from supplied line items
+   */
+  static async createInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const data = invoiceSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      if (data.vehicleId) {
+        const vehicle = await tenantDb.vehicle.findUnique({ where: { vehicleId: data.vehicleId }, select: { vehicleId: true } });
+        if (!vehicle) {
+          res.status(400).json({
+            success: false,
+            error: 'Vehicle not found'
+          } as ApiResponse);
+          return;
+        }
+      }
+
+      const placeOfSupply = data.placeOfSupply || resolveState(data.customerGstin, null);
+      const calculation = await InvoiceController.calculateDraft(tenantDb, data.items, placeOfSupply);
+
+      const invoice = await tenantDb.invoice.create({
+        data: {
+          documentType: 'invoice',
+          vehicleId: data.vehicleId ?? null,
+          customerName: data.customerName,
+          customerPhone: data.customerPhone ?? null,
+          customerEmail: data.customerEmail ?? null,
+          customerAddress: data.customerAddress ?? null,
+          customerGstin: data.customerGstin ?? null,
+          placeOfSupply,
+          paymentTerms: data.paymentTerms ?? null,
+          notes: data.notes ?? null,
+          supplyType: calculation.supplyType,
+          ...calculation.totals,
+          createdBy: req.user.userId,
+          items: { create: calculation.items }
+        },
+        include: invoiceDetailInclude
+      });
+
+      const response: ApiResponse<typeof invoice> = {
+        success: true,
+        data: invoice,
+        message: 'Draft invoice created'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Create invoice error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create invoice'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Create a draft invoice from a vehicle's installed or ordered products
+   */
+  static async createVehicleInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { vehicleId } = req.params;
+      const data = vehicleInvoiceSchema.parse(req.body ?? {});
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const vehicle = await tenantDb.vehicle.findUnique({ where: { vehicleId } });
+      if (!vehicle) {
+        res.status(404).json({
+          success: false,
+          error: 'Vehicle not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const lines = await buildVehicleInvoiceLines(tenantDb, vehicle);
+      if (lines.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Vehicle has no installed or ordered products to invoice'
+        } as ApiResponse);
+        return;
+      }
+
+      const placeOfSupply = data.placeOfSupply || resolveState(data.customerGstin, null);
+      const calculation = await InvoiceController.calculateDraft(tenantDb, lines, placeOfSupply);
+
+      const invoice = await tenantDb.invoice.create({
+        data: {
+          documentType: 'invoice',
+          vehicleId,
+          customerName: vehicle.ownerName,
+          customerPhone: vehicle.ownerMobile,
+          customerEmail: vehicle.ownerEmail,
+          customerAddress: vehicle.ownerAddress,
+          customerGstin: data.customerGstin ?? null,
+          placeOfSupply,
+          paymentTerms: data.paymentTerms ?? null,
+          notes: data.notes ?? `Vehicle: ${vehicle.carNumber}${vehicle.modelName ? ` (${vehicle.modelName})` : ''}`,
+          supplyType: calculation.supplyType,
+          ...calculation.totals,
+          createdBy: req.user.userId,
+          items: { create: calculation.items }
+        },
+        include: invoiceDetailInclude
+      });
+
+      const response: ApiResponse<typeof invoice> = {
+        success: true,
+        data: invoice,
+        message: 'Draft invoice created from vehicle'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Create vehicle invoice error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create invoice'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Update a draft invoice; line items are replaced when supplied
+   */
+  static async updateInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { invoiceId } = req.params;
+      const data = invoiceSchema.partial().parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const existing = await tenantDb.invoice.findUnique({
+        where: { invoiceId },
+        include: { items: { orderBy: { lineNumber: 'asc' } } }
+      });
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: 'Invoice not found'
+        } as ApiResponse);
+        return;
+      }
+      if (existing.status !== 'draft') {
+        res.status(409).json({
+          success: false,
+          error: 'Issued invoices cannot be changed; raise a credit note instead'
+        } as ApiResponse);
+        return;
+      }
+
+      const updateData: any = {};
+      const fields = ['customerName', 'customerPhone', 'customerEmail', 'customerAddress', 'customerGstin', 'placeOfSupply', 'paymentTerms', 'notes'] as const;
+      for (const field of fields) {
+        if (field in req.body) updateData[field] = data[field] ?? null;
+      }
+      if ('vehicleId' in req.body && existing.documentType === 'invoice') {
+        updateData.vehicleId = data.vehicleId ?? null;
+      }
+      if ('customerGstin' in req.body && !('placeOfSupply' in req.body) && data.customerGstin) {
+        updateData.placeOfSupply = resolveState(data.customerGstin, null);
+      }
+
+      const lines: InvoiceLineInput[] = data.items ?? existing.items.map(item => ({
+        productId: item.productId,
+        description: item.description,
+        hsnSac: item.hsnSac,
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unitPrice),
+        discount: Number(item.discount),
+        taxRate: Number(item.taxRate)
+      }));
+      const placeOfSupply = 'placeOfSupply' in updateData ? updateData.placeOfSupply : existing.placeOfSupply;
+      const calculation = await InvoiceController.calculateDraft(
+        tenantDb,
+        lines,
+        placeOfSupply,
+        existing.documentType === 'credit_note' ? existing.supplyType as SupplyType : undefined
+      );
+
+      const invoice = await tenantDb.$transaction(async (tx: any) => {
+        await tx.invoiceItem.deleteMany({ where: { invoiceId } });
+        return tx.invoice.update({
+          where: { invoiceId },
+          data: {
+            ...updateData,
+            supplyType: calculation.supplyType,
+            ...calculation.totals,
+            items: { create: calculation.items }
+          },
+          include: invoiceDetailInclude
+        });
+      });
+
+      const response: ApiResponse<typeof invoice> = {
+        success: true,
+        data: invoice,
+        message: 'Draft invoice updated'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Update invoice error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update invoice'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Issue a draft invoice or credit note; it cannot be edited afterwards
+   */
+  static async issueInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const tenantDb = await getTenantDb(req.tenantId);
+      const issued = await issueInvoice(tenantDb, req.params.invoiceId, req.user.userId);
+      const invoice = await tenantDb.invoice.findUnique({
+        where: { invoiceId: issued.invoiceId },
+        include: invoiceDetailInclude
+      });
+
+      emitDataSync(req.tenantId, {
+        entityType: 'invoice',
+        action: 'issued',
+        entityId: issued.invoiceId,
+        data: invoice,
+        timestamp: new Date()
+      });
+
+      dispatchWebhook(req.tenantId, 'invoice.issued', {
+        invoice,
+        issuedBy: req.user.userId
+      });
+
+      const response: ApiResponse<typeof invoice> = {
+        success: true,
+        data: invoice,
+        message: `${issued.documentType === 'credit_note' ? 'Credit note' : 'Invoice'} ${issued.invoiceNumber} issued`
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Issue invoice error:', error);
+
+      if (error instanceof InvoiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          details: error.details
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to issue invoice'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Create a draft credit note against an issued invoice
+   */
+  static async createCreditNote(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { invoiceId } = req.params;
+      const data = creditNoteSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const original = await tenantDb.invoice.findUnique({
+        where: { invoiceId },
+        include: { items: { orderBy: { lineNumber: 'asc' } } }
+      });
+      if (!original) {
+        res.status(404).json({
+          success: false,
+          error: 'Invoice not found'
+        } as ApiResponse);
+        return;
+      }
+      if (original.documentType !== 'invoice' || original.status !== 'issued') {
+        res.status(409).json({
+          success: false,
+          error: 'Credit notes can only be raised against an issued invoice'
+        } as ApiResponse);
+        return;
+      }
+
+      const lines: InvoiceLineInput[] = data.items ?? original.items.map(item => ({
+        productId: item.productId,
+        description: item.description,
+        hsnSac: item.hsnSac,
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unitPrice),
+        discount: Number(item.discount),
+        taxRate: Number(item.taxRate)
+      }));
+      const calculation = await InvoiceController.calculateDraft(
+        tenantDb,
+        lines,
+        original.placeOfSupply,
+        original.supplyType as SupplyType
+      );
+
+      const creditNote = await tenantDb.invoice.create({
+        data: {
+          documentType: 'credit_note',
+          originalInvoiceId: original.invoiceId,
+          vehicleId: original.vehicleId,
+          customerName: original.customerName,
+          customerPhone: original.customerPhone,
+          customerEmail: original.customerEmail,
+          customerAddress: original.customerAddress,
+          customerGstin: original.customerGstin,
+          placeOfSupply: original.placeOfSupply,
+          reason: data.reason,
+          notes: data.notes ?? null,
+          supplyType: calculation.supplyType,
+          ...calculation.totals,
+          createdBy: req.user.userId,
+          items: { create: calculation.items }
+        },
+        include: invoiceDetailInclude
+      });
+
+      const response: ApiResponse<typeof creditNote> = {
+        success: true,
+        data: creditNote,
+        message: 'Draft credit note created'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Create credit note error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create credit note'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Download invoice or credit note as PDF
+   */
+  static async downloadInvoicePdf(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const tenantDb = await getTenantDb(req.tenantId);
+      const invoice = await tenantDb.invoice.findUnique({
+        where: { invoiceId: req.params.invoiceId },
+        include: {
+          items: { orderBy: { lineNumber: 'asc' } },
+          originalInvoice: { select: { invoiceNumber: true, issueDate: true } }
+        }
+      });
+
+      if (!invoice) {
+        res.status(404).json({
+          success: false,
+          error: 'Invoice not found'
+        } as ApiResponse);
+        return;
+      }
+
+      // Drafts are previewed with the current organization details
+      if (invoice.status === 'draft') {
+        invoice.sellerDetails = await getSellerDetails(tenantDb) as any;
+      }
+
+      const pdf = await generateInvoicePdf(req.tenantId, invoice);
+      const fileName = `${(invoice.invoiceNumber ?? `draft-${invoice.invoiceId.slice(0, 8)}`).replace(/[^A-Za-z0-9-]+/g, '_')}.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error('Download invoice PDF error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to generate invoice PDF'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Delete a draft invoice or credit note
+   */
+  static async deleteInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { invoiceId } = req.params;
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const invoice = await tenantDb.invoice.findUnique({ where: { invoiceId }, select: { status: true } });
+      if (!invoice) {
+        res.status(404).json({
+          success: false,
+          error: 'Invoice not found'
+        } as ApiResponse);
+        return;
+      }
+      if (invoice.status !== 'draft') {
+        res.status(409).json({
+          success: false,
+          error: 'Issued invoices cannot be deleted; raise a credit note instead'
+        } as ApiResponse);
+        return;
+      }
+
+      await tenantDb.invoice.delete({ where: { invoiceId } });
+
+      res.json({
+        success: true,
+        message: 'Draft invoice deleted'
+      } as ApiResponse);
+    } catch (error) {
+      console.error('Delete invoice error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete invoice'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Work out supply type from the seller's state and place of supply, then
+   * calculate lines with the tenant's default tax rate
+   */
+  private static async calculateDraft(
+    tenantDb: PrismaClient,
+    lines: InvoiceLineInput[],
+    placeOfSupply: string | null,
+    supplyType?: SupplyType
+  ) {
+    const [settings, seller] = await Promise.all([
+      getBusinessInvoiceSettings(tenantDb),
+      getSellerDetails(tenantDb)
+    ]);
+    const resolvedSupplyType = supplyType
+      ?? determineSupplyType(resolveState(seller.gstNumber, seller.address.state), placeOfSupply);
+
+    return {
+      supplyType: resolvedSupplyType,
+      ...calculateInvoice(lines, resolvedSupplyType, settings.taxRate)
+    };
+  }
+}
@@ -2,8 +2,18 @@ import { Request, Response } from 'express';
 import { z } from 'zod';
 import multer from 'multer';
 import { getTenantDb } from '../lib/database';
-import { createStorageManager } from '../lib/storage';
-import { MediaProcessor } from '../lib/mediaProcessor';
+import { createStorageManager, StorageManager, StorageProviderName, StorageResult } from '../lib/storage';
+import {
+  MediaProcessor,
+  ImageVariantName,
+  MediaVariant,
+  MediaVariantName,
+  MediaVariants,
+  ProcessedImage,
+  VideoMetadata
+} from '../lib/mediaProcessor';
+import { dispatchWebhook } from '../lib/webhooks';
+import { TierLimits, TierLimitError } from '../lib/tierLimits';
 import {
   ApiResponse
 } from '@omsms/shared';
@@ -20,6 +30,10 @@ const uploadSchema = z.object({
   metadata: z.record(z.any()).default({})
 });
 
+const signedUrlSchema = z.object({
+  expiresIn: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(60).max(7 * 24 * 3600)).default(3600)
+});
+
 const paginationSchema = z.object({
   page: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1)).optional(),
   limit: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1).max(100)).optional(),
@@ -90,6 +104,10 @@ export class MediaController {
       // Validate entity exists
       await MediaController.validateEntity(tenantDb, body.entityType, body.entityId);
 
+      // Subscription tier storage limit, for the whole batch
+      const uploadBytes = files.reduce((total, file) => total + file.size, 0);
+      await TierLimits.assertCanAdd(req.tenantId, 'storage', uploadBytes);
+
       const uploadResults = [];
 
       for (const file of files) {
@@ -113,12 +131,16 @@ export class MediaController {
           let processedFile = file;
           let metadata = body.metadata;
 
+          let videoMetadata: VideoMetadata | null = null;
+
           if (fileCategory === 'photo') {
             await MediaProcessor.validateImage(file.buffer);
             const imageMetadata = await MediaProcessor.extractImageMetadata(file.buffer);
             metadata = { ...metadata, ...imageMetadata };
-            
-            // TODO: Generate image variants (thumbnail, web-optimized)
+          } else if (fileCategory === 'video') {
+            // Rejects corrupt and over-length videos
+            videoMetadata = await MediaProcessor.validateVideo(file.buffer, maxSize);
+            metadata = { ...metadata, ...videoMetadata, duration: Math.round(videoMetadata.duration) };
           }
 
           // Generate storage path
@@ -131,14 +153,61 @@ export class MediaController {
             req.tenantId
           );
 
-          // Upload file to storage
-          const storageResult = await storageManager.upload({
-            originalName: file.originalname,
+          let storageResult: StorageResult;
+          let storedFile = {
             fileName,
             mimeType: file.mimetype,
-            size: file.size,
-            buffer: processedFile.buffer
-          }, filePath);
+            size: file.size
+          };
+          let variants: MediaVariants = {};
+
+          if (fileCategory === 'photo') {
+            // Upright, metadata-free original plus thumbnail and web renditions
+            variants = await MediaController.storeImageVariants(storageManager, file, filePath);
+            const original = variants.original!;
+
+            storageResult = {
+              fileName: original.filePath.split('/').pop() || fileName,
+              filePath: original.filePath,
+              url: original.url,
+              size: original.size
+            };
+            storedFile = {
+              fileName: storageResult.fileName,
+              mimeType: original.mimeType,
+              size: original.size
+            };
+            metadata = { ...metadata, width: original.width, height: original.height, size: original.size };
+          } else if (fileCategory === 'video' && videoMetadata) {
+            // Browser-playable file plus poster frame renditions
+            const video = await MediaController.storeVideo(storageManager, file, filePath, videoMetadata);
+            variants = video.variants;
+            const original = variants.original!;
+
+            storageResult = {
+              fileName: original.filePath.split('/').pop() || fileName,
+              filePath: original.filePath,
+              url: original.url,
+              size: original.size
+            };
+            storedFile = {
+              fileName: storageResult.fileName,
+              mimeType: original.mimeType,
+              size: original.size
+            };
+            if (video.transcodedFrom) {
+              metadata = { ...metadata, size: original.size, transcodedFrom: video.transcodedFrom };
+            }
+          } else {
+            // Upload file to storage
+            storageResult = await storageManager.upload({
+              originalName: file.originalname,
+              fileName,
+              mimeType: file.mimetype,
+              size: file.size,
+              buffer: processedFile.buffer
+            }, filePath);
+          }
 
           // Save file record to database
           const mediaFile = await tenantDb.mediaFile.create({
@@ -148,30 +217,46 @@ export class MediaController {
               fileCategory,
               fileSubcategory: body.fileSubcategory,
               originalFilename: file.originalname,
-              storedFilename: fileName,
+              storedFilename: storedFile.fileName,
               filePath: storageResult.filePath,
-              fileSize: BigInt(file.size),
-              mimeType: file.mimetype,
-              fileExtension: file.originalname.split('.').pop()?.toLowerCase() || '',
+              fileSize: BigInt(storedFile.size),
+              mimeType: storedFile.mimeType,
+              fileExtension: storedFile.fileName.split('.').pop()?.toLowerCase() || '',
               width: metadata.width,
               height: metadata.height,
               duration: metadata.duration,
-              storageProvider: 'local', // TODO: Use actual provider
+              storageProvider: storageManager.providerName,
               cdnUrl: storageResult.url,
               isPublic: body.isPublic,
               workflowStage: body.workflowStage,
               metadata,
+              variants: variants as Record<string, any>,
               tags: body.tags,
               uploadedBy: req.user.userId
             }
           });
 
+          dispatchWebhook(req.tenantId, 'media.uploaded', {
+            fileId: mediaFile.fileId,
+            entityType: mediaFile.entityType,
+            entityId: mediaFile.entityId,
+            fileCategory: mediaFile.fileCategory,
+            fileName: mediaFile.originalFilename,
+            mimeType: mediaFile.mimeType,
+            size: storedFile.size,
+            url: storageResult.url,
+            thumbnailUrl: variants.thumbnail?.url,
+            workflowStage: mediaFile.workflowStage,
+            uploadedBy: req.user.userId
+          });
+
           uploadResults.push({
             fileId: mediaFile.fileId,
             originalFilename: mediaFile.originalFilename,
             url: storageResult.url,
             fileCategory: mediaFile.fileCategory,
-            size: file.size,
+            size: storedFile.size,
+            variants,
             metadata
           });
 
@@ -184,6 +269,9 @@ export class MediaController {
         }
       }
 
+      const storedBytes = uploadResults.reduce((total, result) => total + (result.size || 0), 0);
+      TierLimits.notifyUsageChange(req.tenantId, 'storage', storedBytes);
+
       const response: ApiResponse<typeof uploadResults> = {
         success: true,
         data: uploadResults,
@@ -193,6 +281,16 @@ export class MediaController {
       res.status(201).json(response);
     } catch (error) {
       console.error('Upload files error:', error);
+
+      if (error instanceof TierLimitError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: { resource: error.resource, limit: error.limit, current: error.current }
+        } as ApiResponse);
+        return;
+      }
       
       if (error instanceof z.ZodError) {
         res.status(400).json({
@@ -281,9 +379,11 @@ export class MediaController {
         tenantDb.mediaFile.count({ where })
       ]);
 
-      const response: ApiResponse<typeof mediaFiles> = {
+      const data = mediaFiles.map(MediaController.serializeMediaFile);
+
+      const response: ApiResponse<typeof data> = {
         success: true,
-        data: mediaFiles,
+        data,
         pagination: {
           page,
           limit,
@@ -353,9 +453,11 @@ export class MediaController {
         return;
       }
 
-      const response: ApiResponse<typeof mediaFile> = {
+      const data = MediaController.serializeMediaFile(mediaFile);
+
+      const response: ApiResponse<typeof data> = {
         success: true,
-        data: mediaFile
+        data
       };
 
       res.json(response);
@@ -368,6 +470,70 @@ export class MediaController {
     }
   }
 
+  /**
+   * Get a time-limited download URL for a media file from the provider it was stored with
+   */
+  static async getMediaFileUrl(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { fileId } = req.params;
+      const { expiresIn } = signedUrlSchema.parse(req.query);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const mediaFile = await tenantDb.mediaFile.findUnique({
+        where: {
+          fileId,
+          deletedAt: null
+        },
+        select: {
+          filePath: true,
+          storageProvider: true
+        }
+      });
+
+      if (!mediaFile) {
+        res.status(404).json({
+          success: false,
+          error: 'Media file not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const storageManager = createStorageManager(mediaFile.storageProvider as StorageProviderName);
+      const url = await storageManager.getSignedUrl(mediaFile.filePath, expiresIn);
+
+      const response: ApiResponse<{ url: string; expiresIn: number }> = {
+        success: true,
+        data: { url, expiresIn }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get media file URL error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get media file URL'
+      } as ApiResponse);
+    }
+  }
+
   /**
    * Update media file metadata
    */
@@ -396,9 +562,11 @@ export class MediaController {
         }
       });
 
-      const response: ApiResponse<typeof mediaFile> = {
+      const data = MediaController.serializeMediaFile(mediaFile);
+
+      const response: ApiResponse<typeof data> = {
         success: true,
-        data: mediaFile,
+        data,
         message: 'Media file updated successfully'
       };
 
@@ -447,9 +615,7 @@ export class MediaController {
         data: { deletedAt: new Date() }
       });
 
-      // TODO: Delete file from storage (implement cleanup job)
-      // const storageManager = createStorageManager();
-      // await storageManager.delete(mediaFile.filePath);
+      // Storage objects are purged by MediaCleanupJob once the tenant's retention period has passed
 
       const response: ApiResponse = {
         success: true,
@@ -550,6 +716,114 @@ export class MediaController {
   }
 
   // Helper methods
+  /**
+   * Render a photo's original, web and thumbnail variants and store them next to each other
+   */
+  private static async storeImageVariants(
+    storageManager: StorageManager,
+    file: Express.Multer.File,
+    filePath: string
+  ): Promise<MediaVariants> {
+    const processed = await MediaProcessor.generateImageVariants(file.buffer, file.originalname);
+    const basePath = filePath.replace(/\.[^./]+$/, '');
+
+    const renditions: Array<[ImageVariantName, ProcessedImage, string]> = [
+      ['original', processed.original, ''],
+      ['web', processed.webOptimized, '_web'],
+      ['thumbnail', processed.thumbnail, '_thumb']
+    ];
+
+    const stored = await Promise.all(renditions.map(async ([name, image, suffix]) => {
+      const { mimeType, extension } = MediaProcessor.getImageFormatInfo(image.metadata.format);
+      const variantPath = `${basePath}${suffix}.${extension}`;
+      const fileName = variantPath.split('/').pop()!;
+
+      const result = await storageManager.upload({
+        originalName: file.originalname,
+        fileName,
+        mimeType,
+        size: image.metadata.size,
+        buffer: image.buffer
+      }, variantPath);
+
+      const variant: MediaVariant = {
+        filePath: result.filePath,
+        url: result.url,
+        mimeType,
+        width: image.metadata.width,
+        height: image.metadata.height,
+        size: image.metadata.size
+      };
+      return [name, variant] as const;
+    }));
+
+    return Object.fromEntries(stored) as MediaVariants;
+  }
+
+  /**
+   * Store a video (transcoded to MP4 when browsers can't play it) with poster and thumbnail frames
+   */
+  private static async storeVideo(
+    storageManager: StorageManager,
+    file: Express.Multer.File,
+    filePath: string,
+    videoMetadata: VideoMetadata
+  ): Promise<{ variants: MediaVariants; transcodedFrom: string | null }> {
+    const basePath = filePath.replace(/\.[^./]+$/, '');
+    const transcode = process.env.MEDIA_TRANSCODE_VIDEOS !== 'false' && MediaProcessor.needsTranscode(videoMetadata);
+
+    const videoBuffer = transcode ? await MediaProcessor.transcodeToMp4(file.buffer) : file.buffer;
+    const videoPath = transcode ? `${basePath}.mp4` : filePath;
+    const videoMimeType = transcode ? 'video/mp4' : file.mimetype;
+
+    // Poster from a second in, or the first frame of very short clips
+    const poster = await MediaProcessor.generateVideoThumbnail(file.buffer, videoMetadata.duration > 2 ? 1 : 0);
+    const thumbnail = await MediaProcessor.processImage(poster, {
+      resize: { width: 300, height: 300, fit: 'cover' },
+      quality: 80,
+      format: 'jpeg'
+    });
+    const posterMetadata = await MediaProcessor.extractImageMetadata(poster);
+
+    const renditions: Array<[MediaVariantName, Buffer, string, string, { width: number; height: number }]> = [
+      ['original', videoBuffer, videoPath, videoMimeType, videoMetadata],
+      ['poster', poster, `${basePath}_poster.jpg`, 'image/jpeg', posterMetadata],
+      ['thumbnail', thumbnail.buffer, `${basePath}_thumb.jpg`, 'image/jpeg', thumbnail.metadata]
+    ];
+
+    const stored = await Promise.all(renditions.map(async ([name, buffer, variantPath, mimeType, dimensions]) => {
+      const result = await storageManager.upload({
+        originalName: file.originalname,
+        fileName: variantPath.split('/').pop()!,
+        mimeType,
+        size: buffer.length,
+        buffer
+      }, variantPath);
+
+      const variant: MediaVariant = {
+        filePath: result.filePath,
+        url: result.url,
+        mimeType,
+        width: dimensions.width,
+        height: dimensions.height,
+        size: buffer.length
+      };
+      return [name, variant] as const;
+    }));
+
+    return {
+      variants: Object.fromEntries(stored) as MediaVariants,
+      transcodedFrom: transcode ? file.mimetype : null
+    };
+  }
+
+  /**
+   * Make a media file JSON-safe (file size is a BIGINT column)
+   */
+  static serializeMediaFile<T extends { fileSize: bigint }>(mediaFile: T): Omit<T, 'fileSize'> & { fileSize: number } {
+    return { ...mediaFile, fileSize: Number(mediaFile.fileSize) };
+  }
+
   private static async validateEntity(
     tenantDb: any,
     entityType: string,
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { z } from 'zod';
 import { getTenantDb } from '../lib/database';
 import { ApiResponse } from '@omsms/shared';
+import { TierLimits, TenantUsage } from '../lib/tierLimits';
 import { config } from '../config/environment';
 
 // Validation schemas
@@ -479,6 +480,36 @@ export class OrganizationController {
     }
   }
 
+  /**
+   * Get subscription tier limits and usage of vehicles, users and storage
+   */
+  static async getUsage(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const usage = await TierLimits.getUsage(req.tenantId);
+
+      const response: ApiResponse<TenantUsage> = {
+        success: true,
+        data: usage
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching usage:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch usage'
+      } as ApiResponse);
+    }
+  }
+
   /**
    * Delete QR code
    */
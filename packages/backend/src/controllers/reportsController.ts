@@ -4,7 +4,10 @@ import { ReportGenerator, ReportConfig } from '../lib/reportGenerator';
 import { AnalyticsEngine } from '../lib/analytics';
 import { ApiResponse, PaginatedResponse } from '@omsms/shared';
 import { getTenantDb } from '../lib/database';
+import { buildVehicleScope, getPermissionConditions, withScope } from '../lib/permissions';
 import { StatusService } from '../services/statusService';
+import { ReportScheduler, computeNextRun, getReportSchedule, getTenantTimezone } from '../lib/reportScheduler';
+import type { ScheduledReport } from '../../packages/database/generated/tenant-client';
 import { createReadStream } from 'fs';
 import { promises as fs } from 'fs';
 
@@ -32,7 +35,7 @@ const generateReportSchema = z.object({
 const scheduledReportSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(500).optional(),
-  reportConfig: generateReportSchema.omit({ startDate: 'true', endDate: 'true' }),
+  reportConfig: generateReportSchema.omit({ startDate: true, endDate: true }),
   schedule: z.object({
     frequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly']),
     dayOfWeek: z.number().min(0).max(6).optional(), // For weekly reports
@@ -414,19 +417,28 @@ export class ReportsController {
       }
 
       const body = scheduledReportSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+      const timeZone = await getTenantTimezone(tenantDb);
 
-      // Mock scheduled report creation - in real implementation, save to database
-      const scheduledReport = {
-        id: `scheduled_${Date.now()}`,
-        tenantId: req.tenantId,
-        createdBy: req.user.userId,
-        createdAt: new Date(),
-        ...body
-      };
+      const scheduledReport = await tenantDb.scheduledReport.create({
+        data: {
+          name: body.name,
+          description: body.description,
+          reportConfig: body.reportConfig,
+          frequency: body.schedule.frequency,
+          dayOfWeek: body.schedule.dayOfWeek,
+          dayOfMonth: body.schedule.dayOfMonth,
+          timeOfDay: body.schedule.time,
+          recipients: body.recipients,
+          enabled: body.enabled,
+          nextRunAt: body.enabled ? computeNextRun(body.schedule, timeZone) : null,
+          createdBy: req.user.userId
+        }
+      });
 
-      const response: ApiResponse<typeof scheduledReport> = {
+      const response: ApiResponse<ReturnType<typeof ReportsController.formatScheduledReport>> = {
         success: true,
-        data: scheduledReport,
+        data: ReportsController.formatScheduledReport(scheduledReport, timeZone),
         message: 'Scheduled report created successfully'
       };
 
@@ -438,7 +450,7 @@ export class ReportsController {
         res.status(400).json({
           success: false,
           error: 'Invalid request data',
-          details: error.errors
+          details: error.issues
         } as ApiResponse);
         return;
       }
@@ -463,28 +475,16 @@ export class ReportsController {
         return;
       }
 
-      // Mock scheduled reports - in real implementation, fetch from database
-      const scheduledReports = [
-        {
-          id: 'scheduled_1',
-          name: 'Weekly Performance Report',
-          description: 'Weekly analytics and performance metrics',
-          schedule: {
-            frequency: 'weekly',
-            dayOfWeek: 1, // Monday
-            time: '09:00'
-          },
-          recipients: ['manager@example.com'],
-          enabled: true,
-          lastRun: new Date('2024-01-15T09:00:00Z'),
-          nextRun: new Date('2024-01-22T09:00:00Z'),
-          createdAt: new Date('2024-01-01T10:00:00Z')
-        }
-      ];
+      const tenantDb = await getTenantDb(req.tenantId);
+      const timeZone = await getTenantTimezone(tenantDb);
+
+      const scheduledReports = await tenantDb.scheduledReport.findMany({
+        orderBy: { createdAt: 'desc' }
+      });
 
-      const response: ApiResponse<typeof scheduledReports> = {
+      const response: ApiResponse<ReturnType<typeof ReportsController.formatScheduledReport>[]> = {
         success: true,
-        data: scheduledReports
+        data: scheduledReports.map(report => ReportsController.formatScheduledReport(report, timeZone))
       };
 
       res.json(response);
@@ -497,14 +497,110 @@ export class ReportsController {
     }
   }
 
+  /**
+   * Update scheduled report (schedule, recipients, enable/disable)
+   */
+  static async updateScheduledReport(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { reportId } = req.params;
+      const body = scheduledReportSchema.partial().parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const existing = await tenantDb.scheduledReport.findUnique({
+        where: { scheduledReportId: reportId }
+      });
+
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: 'Scheduled report not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const timeZone = await getTenantTimezone(tenantDb);
+      const schedule = body.schedule || getReportSchedule(existing);
+      const enabled = body.enabled ?? existing.enabled;
+
+      const scheduledReport = await tenantDb.scheduledReport.update({
+        where: { scheduledReportId: reportId },
+        data: {
+          name: body.name,
+          description: body.description,
+          reportConfig: body.reportConfig,
+          frequency: schedule.frequency,
+          dayOfWeek: schedule.dayOfWeek ?? null,
+          dayOfMonth: schedule.dayOfMonth ?? null,
+          timeOfDay: schedule.time,
+          recipients: body.recipients,
+          enabled,
+          nextRunAt: enabled ? computeNextRun(schedule, timeZone) : null
+        }
+      });
+
+      const response: ApiResponse<ReturnType<typeof ReportsController.formatScheduledReport>> = {
+        success: true,
+        data: ReportsController.formatScheduledReport(scheduledReport, timeZone),
+        message: 'Scheduled report updated successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Update scheduled report error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update scheduled report'
+      } as ApiResponse);
+    }
+  }
+
   /**
    * Delete scheduled report
    */
   static async deleteScheduledReport(req: Request, res: Response): Promise<void> {
     try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
       const { reportId } = req.params;
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      // Run history is removed with the definition (ON DELETE CASCADE)
+      const deleted = await tenantDb.scheduledReport.deleteMany({
+        where: { scheduledReportId: reportId }
+      });
+
+      if (deleted.count === 0) {
+        res.status(404).json({
+          success: false,
+          error: 'Scheduled report not found'
+        } as ApiResponse);
+        return;
+      }
 
-      // Mock deletion - in real implementation, delete from database
       const response: ApiResponse = {
         success: true,
         message: 'Scheduled report deleted successfully'
@@ -520,6 +616,129 @@ export class ReportsController {
     }
   }
 
+  /**
+   * Get run history of a scheduled report
+   */
+  static async getScheduledReportRuns(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { reportId } = req.params;
+      const { page = '1', limit = '20' } = req.query;
+      const pageNum = parseInt(page as string);
+      const limitNum = parseInt(limit as string);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const [runs, total] = await Promise.all([
+        tenantDb.scheduledReportRun.findMany({
+          where: { scheduledReportId: reportId },
+          orderBy: { startedAt: 'desc' },
+          skip: (pageNum - 1) * limitNum,
+          take: limitNum
+        }),
+        tenantDb.scheduledReportRun.count({
+          where: { scheduledReportId: reportId }
+        })
+      ]);
+
+      const response: ApiResponse<typeof runs> = {
+        success: true,
+        data: runs,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum)
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get scheduled report runs error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get scheduled report runs'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Run a scheduled report immediately, outside of its schedule
+   */
+  static async runScheduledReport(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { reportId } = req.params;
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const scheduledReport = await tenantDb.scheduledReport.findUnique({
+        where: { scheduledReportId: reportId }
+      });
+
+      if (!scheduledReport) {
+        res.status(404).json({
+          success: false,
+          error: 'Scheduled report not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const run = await ReportScheduler.executeReport(req.tenantId, scheduledReport, 'manual');
+
+      const response: ApiResponse<typeof run> = {
+        success: run.status === 'success',
+        data: run,
+        message: run.status === 'success' ? 'Scheduled report delivered successfully' : undefined,
+        error: run.status === 'success' ? undefined : run.error || 'Scheduled report run failed'
+      };
+
+      res.status(run.status === 'success' ? 200 : 502).json(response);
+    } catch (error) {
+      console.error('Run scheduled report error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to run scheduled report'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Shape a stored scheduled report like the create/update payload
+   */
+  private static formatScheduledReport(report: ScheduledReport, timeZone: string) {
+    return {
+      id: report.scheduledReportId,
+      name: report.name,
+      description: report.description,
+      reportConfig: report.reportConfig,
+      schedule: {
+        ...getReportSchedule(report),
+        timeZone
+      },
+      recipients: report.recipients as string[],
+      enabled: report.enabled,
+      lastRun: report.lastRunAt,
+      lastRunStatus: report.lastRunStatus,
+      nextRun: report.nextRunAt,
+      createdBy: report.createdBy,
+      createdAt: report.createdAt,
+      updatedAt: report.updatedAt
+    };
+  }
+
   /**
    * Get Vehicle Inward Report
    */
@@ -564,8 +783,11 @@ export class ReportsController {
         whereClause.salespersonId = filters.salespersonId;
       }
 
+      // Row-level conditions of the role's reports.read permission
+      const scopedWhere = withScope(whereClause, await buildVehicleScope(tenantDb, req.user, getPermissionConditions(req.user, 'reports.read')));
+
       // Get total count
-      const total = await tenantDb.vehicle.count({ where: whereClause });
+      const total = await tenantDb.vehicle.count({ where: scopedWhere });
       
       // Calculate pagination
       const page = filters.page || 1;
@@ -575,7 +797,7 @@ export class ReportsController {
 
       // Fetch vehicles with related data
       const vehicles = await tenantDb.vehicle.findMany({
-        where: whereClause,
+        where: scopedWhere,
         include: {
           location: {
             select: {
@@ -697,9 +919,11 @@ export class ReportsController {
         vehicleWhere.locationId = filters.locationId;
       }
 
+      const scope = await buildVehicleScope(tenantDb, req.user, getPermissionConditions(req.user, 'reports.read'));
+
       // Get vehicles
       const vehicles = await tenantDb.vehicle.findMany({
-        where: vehicleWhere,
+        where: withScope(vehicleWhere, scope),
         orderBy: {
           inwardDate: 'desc'
         }
@@ -822,14 +1046,16 @@ export class ReportsController {
         return;
       }
 
+      const scope = await buildVehicleScope(tenantDb, req.user, getPermissionConditions(req.user, 'reports.read'));
+
       // Find vehicles matching the number
       const vehicles = await tenantDb.vehicle.findMany({
-        where: {
+        where: withScope({
           carNumber: {
             contains: query.vehicleNumber,
             mode: 'insensitive'
           }
-        },
+        }, scope),
         include: {
           location: {
             select: {
@@ -964,11 +1190,13 @@ export class ReportsController {
         dateFilter.lte = new Date(filters.tillDate);
       }
 
+      const scope = await buildVehicleScope(tenantDb, req.user, getPermissionConditions(req.user, 'financial_reports.view'));
+
       // Get vehicles with installations
       const vehicles = await tenantDb.vehicle.findMany({
-        where: {
+        where: withScope({
           inwardDate: Object.keys(dateFilter).length > 0 ? dateFilter : undefined
-        },
+        }, scope),
         include: {
           location: {
             select: {
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { getTenantDb } from '../lib/database';
+import { recordAudit, getAuditContext } from '../lib/audit';
+import { permissionConditionsSchema } from '../lib/permissions';
 import { ApiResponse } from '@omsms/shared';
 
 // Validation schemas
@@ -12,7 +14,7 @@ const createRoleSchema = z.object({
   permissions: z.array(z.object({
     resource: z.string(),
     action: z.string(),
-    conditions: z.record(z.any()).optional()
+    conditions: permissionConditionsSchema.optional()
   })).optional()
 });
 
@@ -25,7 +27,7 @@ const updateRoleSchema = z.object({
   permissions: z.array(z.object({
     resource: z.string(),
     action: z.string(),
-    conditions: z.record(z.any()).optional()
+    conditions: permissionConditionsSchema.optional()
   })).optional()
 });
 
@@ -267,6 +269,14 @@ export class RoleController {
         }
       });
 
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'role',
+        entityId: newRole.roleId,
+        verb: 'created',
+        after: RoleController.toAuditRecord(roleWithPermissions!)
+      });
+
       const response: ApiResponse<typeof roleWithPermissions> = {
         success: true,
         data: roleWithPermissions,
@@ -312,7 +322,12 @@ export class RoleController {
 
       // Check if role exists
       const existingRole = await tenantDb.role.findUnique({
-        where: { roleId }
+        where: { roleId },
+        include: {
+          rolePermissions: {
+            select: { resource: true, action: true, conditions: true }
+          }
+        }
       });
 
       if (!existingRole) {
@@ -408,6 +423,15 @@ export class RoleController {
         }
       });
 
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'role',
+        entityId: roleId,
+        verb: 'updated',
+        before: RoleController.toAuditRecord(existingRole),
+        after: RoleController.toAuditRecord(roleWithPermissions!)
+      });
+
       const response: ApiResponse<typeof roleWithPermissions> = {
         success: true,
         data: roleWithPermissions,
@@ -454,6 +478,9 @@ export class RoleController {
       const role = await tenantDb.role.findUnique({
         where: { roleId },
         include: {
+          rolePermissions: {
+            select: { resource: true, action: true, conditions: true }
+          },
           _count: {
             select: {
               users: true
@@ -493,6 +520,14 @@ export class RoleController {
         where: { roleId }
       });
 
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'role',
+        entityId: roleId,
+        verb: 'deleted',
+        before: RoleController.toAuditRecord(role)
+      });
+
       const response: ApiResponse = {
         success: true,
         message: 'Role deleted successfully'
@@ -548,4 +583,21 @@ export class RoleController {
       } as ApiResponse);
     }
   }
+
+  /**
+   * Role row with its grants flattened to `resource:action` for diffing
+   */
+  private static toAuditRecord(role: { rolePermissions: Array<{ resource: string; action: string; conditions: unknown }>; [key: string]: any }) {
+    const { rolePermissions, ...row } = role;
+    return {
+      ...row,
+      permissions: rolePermissions
+        .map(permission => `${permission.resource}:${permission.action}${
+          permission.conditions && Object.keys(permission.conditions as object).length > 0
+            ? ` ${JSON.stringify(permission.conditions)}`
+            : ''
+        }`)
+        .sort()
+    };
+  }
 }
\ No newline at end of file
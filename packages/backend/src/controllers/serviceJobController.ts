@@ -0,0 +1,996 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { getTenantDb } from '../lib/database';
+import { notifyUsers } from '../lib/notifications';
+import {
+  ApiResponse
+} from '@omsms/shared';
+
+export const SERVICE_JOB_STATUSES = [
+  'new_complaint',
+  'under_inspection',
+  'sent_to_service_centre',
+  'received',
+  'completed'
+] as const;
+
+const SERVICE_JOB_PRIORITIES = ['low', 'medium', 'high'] as const;
+
+// Roles whose users can be assigned service work
+const TECHNICIAN_ROLES = ['installer', 'supervisor'];
+
+// Validation schemas
+const serviceJobSchema = z.object({
+  vehicleId: z.string().uuid().optional(),
+  vehicleRegistration: z.string().min(1).max(20).optional(),
+  customerName: z.string().min(1).max(100).optional(),
+  customerPhone: z.string().min(1).max(20).optional(),
+  customerEmail: z.string().email().nullable().optional(),
+  vehicleModel: z.string().max(100).nullable().optional(),
+  serviceType: z.string().max(100).nullable().optional(),
+  priority: z.enum(SERVICE_JOB_PRIORITIES).default('medium'),
+  technicianId: z.string().uuid().nullable().optional(),
+  estimatedCost: z.number().min(0).nullable().optional(),
+  actualCost: z.number().min(0).nullable().optional(),
+  scheduledAt: z.string().datetime().nullable().optional(),
+  notes: z.string().max(2000).nullable().optional()
+});
+
+const updateServiceJobSchema = serviceJobSchema
+  .omit({ vehicleId: true, vehicleRegistration: true, technicianId: true })
+  .partial();
+
+const statusChangeSchema = z.object({
+  status: z.enum(SERVICE_JOB_STATUSES),
+  notes: z.string().max(2000).optional()
+});
+
+const assignTechnicianSchema = z.object({
+  technicianId: z.string().uuid().nullable()
+});
+
+const commentSchema = z.object({
+  message: z.string().min(1).max(2000),
+  fileIds: z.array(z.string().uuid()).max(20).default([])
+});
+
+const attachmentSchema = z.object({
+  fileIds: z.array(z.string().uuid()).min(1).max(20)
+});
+
+const serviceJobQuerySchema = z.object({
+  page: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1)).optional(),
+  limit: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1).max(100)).optional(),
+  status: z.enum(SERVICE_JOB_STATUSES).optional(),
+  priority: z.enum(SERVICE_JOB_PRIORITIES).optional(),
+  technicianId: z.string().uuid().optional(),
+  vehicleId: z.string().uuid().optional(),
+  search: z.string().optional(),
+  includeCompleted: z.enum(['true', 'false']).optional()
+});
+
+const userSummarySelect = {
+  userId: true,
+  firstName: true,
+  lastName: true,
+  email: true
+};
+
+const attachmentInclude = {
+  file: {
+    select: {
+      fileId: true,
+      originalFilename: true,
+      mimeType: true,
+      fileCategory: true,
+      filePath: true,
+      variants: true,
+      createdAt: true,
+      deletedAt: true
+    }
+  }
+};
+
+const serviceJobDetailInclude = {
+  vehicle: {
+    select: {
+      vehicleId: true,
+      carNumber: true,
+      ownerName: true,
+      brandName: true,
+      modelName: true
+    }
+  },
+  technician: { select: userSummarySelect },
+  creator: { select: userSummarySelect },
+  statusHistory: {
+    include: { user: { select: userSummarySelect } },
+    orderBy: { changedAt: 'asc' as const }
+  },
+  comments: {
+    include: {
+      author: { select: userSummarySelect },
+      attachments: { include: attachmentInclude }
+    },
+    orderBy: { createdAt: 'asc' as const }
+  },
+  attachments: {
+    include: attachmentInclude,
+    orderBy: { createdAt: 'asc' as const }
+  }
+};
+
+export class ServiceJobController {
+  /**
+   * Get service jobs with filtering, pagination and a per-status summary
+   */
+  static async getServiceJobs(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const query = serviceJobQuerySchema.parse(req.query);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const where: any = {};
+      if (query.status) {
+        where.status = query.status;
+      } else if (query.includeCompleted === 'false') {
+        where.status = { not: 'completed' };
+      }
+      if (query.priority) where.priority = query.priority;
+      if (query.technicianId) where.technicianId = query.technicianId;
+      if (query.vehicleId) where.vehicleId = query.vehicleId;
+      if (query.search) {
+        where.OR = [
+          { customerName: { contains: query.search, mode: 'insensitive' } },
+          { customerPhone: { contains: query.search } },
+          { vehicleRegistration: { contains: query.search, mode: 'insensitive' } },
+          { vehicleModel: { contains: query.search, mode: 'insensitive' } },
+          { serviceType: { contains: query.search, mode: 'insensitive' } }
+        ];
+      }
+
+      const page = query.page || 1;
+      const limit = query.limit || 20;
+      const skip = (page - 1) * limit;
+
+      const [jobs, total, statusCounts] = await Promise.all([
+        tenantDb.serviceJob.findMany({
+          where,
+          include: {
+            technician: { select: userSummarySelect },
+            _count: {
+              select: { comments: true, attachments: true }
+            }
+          },
+          skip,
+          take: limit,
+          orderBy: { createdAt: 'desc' }
+        }),
+        tenantDb.serviceJob.count({ where }),
+        tenantDb.serviceJob.groupBy({
+          by: ['status'],
+          _count: { _all: true }
+        })
+      ]);
+
+      const summary = Object.fromEntries(SERVICE_JOB_STATUSES.map(status => [status, 0])) as Record<string, number>;
+      for (const entry of statusCounts) {
+        summary[entry.status] = entry._count._all;
+      }
+
+      res.json({
+        success: true,
+        data: jobs,
+        summary,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      console.error('Get service jobs error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get service jobs'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get users that service jobs can be assigned to, with their open job count
+   */
+  static async getTechnicians(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const technicians = await tenantDb.user.findMany({
+        where: {
+          status: 'active',
+          role: { roleName: { in: TECHNICIAN_ROLES } }
+        },
+        select: {
+          ...userSummarySelect,
+          mobileNumber: true,
+          role: { select: { roleName: true } },
+          _count: {
+            select: {
+              assignedServiceJobs: { where: { status: { not: 'completed' } } }
+            }
+          }
+        },
+        orderBy: { firstName: 'asc' }
+      });
+
+      const data = technicians.map(({ _count, ...technician }) => ({
+        ...technician,
+        openJobs: _count.assignedServiceJobs
+      }));
+
+      const response: ApiResponse<typeof data> = {
+        success: true,
+        data
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get service technicians error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get technicians'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get service job with status history, comments and attachments
+   */
+  static async getServiceJob(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { jobId } = req.params;
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const job = await ServiceJobController.findJobWithDetails(tenantDb, jobId);
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: 'Service job not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const response: ApiResponse<typeof job> = {
+        success: true,
+        data: job
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get service job error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get service job'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Create service job for a delivered vehicle
+   */
+  static async createServiceJob(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const body = serviceJobSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      if (!body.vehicleId && !body.vehicleRegistration) {
+        res.status(400).json({
+          success: false,
+          error: 'Either vehicleId or vehicleRegistration is required'
+        } as ApiResponse);
+        return;
+      }
+
+      const vehicle = await tenantDb.vehicle.findFirst({
+        where: body.vehicleId
+          ? { vehicleId: body.vehicleId }
+          : { carNumber: { equals: body.vehicleRegistration!.trim(), mode: 'insensitive' } }
+      });
+
+      if (!vehicle) {
+        res.status(404).json({
+          success: false,
+          error: 'Vehicle not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const customerPhone = body.customerPhone || vehicle.ownerMobile;
+      if (!customerPhone) {
+        res.status(400).json({
+          success: false,
+          error: 'Customer phone is required when the vehicle has no owner mobile number'
+        } as ApiResponse);
+        return;
+      }
+
+      if (body.technicianId && !(await ServiceJobController.isTechnician(tenantDb, body.technicianId))) {
+        res.status(400).json({
+          success: false,
+          error: 'Technician not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const job = await tenantDb.serviceJob.create({
+        data: {
+          vehicleId: vehicle.vehicleId,
+          customerName: body.customerName || vehicle.ownerName,
+          customerPhone,
+          customerEmail: body.customerEmail !== undefined ? body.customerEmail : vehicle.ownerEmail,
+          vehicleModel: body.vehicleModel ?? ([vehicle.brandName, vehicle.modelName].filter(Boolean).join(' ') || null),
+          vehicleRegistration: vehicle.carNumber,
+          serviceType: body.serviceType,
+          priority: body.priority,
+          technicianId: body.technicianId,
+          estimatedCost: body.estimatedCost,
+          actualCost: body.actualCost,
+          scheduledAt: body.scheduledAt ? new Date(body.scheduledAt) : null,
+          notes: body.notes,
+          createdBy: req.user.userId,
+          statusHistory: {
+            create: {
+              toStatus: 'new_complaint',
+              notes: 'Service job created',
+              changedBy: req.user.userId
+            }
+          }
+        }
+      });
+
+      if (job.technicianId && job.technicianId !== req.user.userId) {
+        await ServiceJobController.notifyTechnician(req.tenantId, job, req.user.userId);
+      }
+
+      const response: ApiResponse<typeof job> = {
+        success: true,
+        data: job,
+        message: 'Service job created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Create service job error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create service job'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Update service job details. Status and technician have their own endpoints.
+   */
+  static async updateServiceJob(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { jobId } = req.params;
+      // partial() keeps the priority default, so only apply fields that were sent
+      const body = updateServiceJobSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const existingJob = await tenantDb.serviceJob.findUnique({
+        where: { jobId }
+      });
+
+      if (!existingJob) {
+        res.status(404).json({
+          success: false,
+          error: 'Service job not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const data: any = {};
+      for (const [key, value] of Object.entries(body)) {
+        if (key in (req.body || {})) {
+          data[key] = value;
+        }
+      }
+      if ('scheduledAt' in data) {
+        data.scheduledAt = data.scheduledAt ? new Date(data.scheduledAt) : null;
+      }
+
+      const job = await tenantDb.serviceJob.update({
+        where: { jobId },
+        data
+      });
+
+      const response: ApiResponse<typeof job> = {
+        success: true,
+        data: job,
+        message: 'Service job updated successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Update service job error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update service job'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Change service job status and record it in the status history
+   */
+  static async updateServiceJobStatus(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { jobId } = req.params;
+      const body = statusChangeSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const existingJob = await tenantDb.serviceJob.findUnique({
+        where: { jobId }
+      });
+
+      if (!existingJob) {
+        res.status(404).json({
+          success: false,
+          error: 'Service job not found'
+        } as ApiResponse);
+        return;
+      }
+
+      if (existingJob.status === body.status) {
+        res.status(400).json({
+          success: false,
+          error: `Service job is already ${body.status}`
+        } as ApiResponse);
+        return;
+      }
+
+      const userId = req.user.userId;
+      const message = `Status changed from ${existingJob.status} to ${body.status}${body.notes ? `: ${body.notes}` : ''}`;
+
+      await tenantDb.$transaction([
+        tenantDb.serviceJob.update({
+          where: { jobId },
+          data: {
+            status: body.status,
+            completedAt: body.status === 'completed' ? new Date() : null
+          }
+        }),
+        tenantDb.serviceJobStatusChange.create({
+          data: {
+            jobId,
+            fromStatus: existingJob.status,
+            toStatus: body.status,
+            notes: body.notes,
+            changedBy: userId
+          }
+        }),
+        tenantDb.serviceJobComment.create({
+          data: {
+            jobId,
+            authorId: userId,
+            message,
+            type: 'status_update'
+          }
+        })
+      ]);
+
+      const job = await ServiceJobController.findJobWithDetails(tenantDb, jobId);
+
+      const response: ApiResponse<typeof job> = {
+        success: true,
+        data: job,
+        message: 'Service job status updated successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Update service job status error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update service job status'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Assign or unassign the technician of a service job
+   */
+  static async assignTechnician(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { jobId } = req.params;
+      const body = assignTechnicianSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const existingJob = await tenantDb.serviceJob.findUnique({
+        where: { jobId }
+      });
+
+      if (!existingJob) {
+        res.status(404).json({
+          success: false,
+          error: 'Service job not found'
+        } as ApiResponse);
+        return;
+      }
+
+      if (body.technicianId && !(await ServiceJobController.isTechnician(tenantDb, body.technicianId))) {
+        res.status(400).json({
+          success: false,
+          error: 'Technician not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const job = await tenantDb.serviceJob.update({
+        where: { jobId },
+        data: { technicianId: body.technicianId },
+        include: { technician: { select: userSummarySelect } }
+      });
+
+      if (job.technicianId && job.technicianId !== existingJob.technicianId && job.technicianId !== req.user.userId) {
+        await ServiceJobController.notifyTechnician(req.tenantId, job, req.user.userId);
+      }
+
+      const response: ApiResponse<typeof job> = {
+        success: true,
+        data: job,
+        message: body.technicianId ? 'Technician assigned successfully' : 'Technician unassigned successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Assign service technician error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to assign technician'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Delete service job with its history, comments and attachment links
+   */
+  static async deleteServiceJob(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { jobId } = req.params;
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      // Attached media stays with the vehicle; only the links are removed (ON DELETE CASCADE)
+      const deleted = await tenantDb.serviceJob.deleteMany({
+        where: { jobId }
+      });
+
+      if (deleted.count === 0) {
+        res.status(404).json({
+          success: false,
+          error: 'Service job not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Service job deleted successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Delete service job error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete service job'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Add comment, optionally with uploaded media files
+   */
+  static async addComment(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { jobId } = req.params;
+      const body = commentSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const job = await tenantDb.serviceJob.findUnique({
+        where: { jobId }
+      });
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: 'Service job not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const invalidFileIds = await ServiceJobController.findInvalidFiles(tenantDb, job.vehicleId, body.fileIds);
+      if (invalidFileIds.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Some files do not exist or do not belong to this vehicle',
+          details: { fileIds: invalidFileIds }
+        } as ApiResponse);
+        return;
+      }
+
+      const comment = await tenantDb.$transaction(async (tx: any) => {
+        const created = await tx.serviceJobComment.create({
+          data: {
+            jobId,
+            authorId: req.user!.userId,
+            message: body.message,
+            type: body.fileIds.length > 0 ? 'attachment_added' : 'comment'
+          }
+        });
+
+        if (body.fileIds.length > 0) {
+          // Files already linked to the job are re-linked to this comment
+          await tx.serviceJobAttachment.deleteMany({
+            where: { jobId, fileId: { in: body.fileIds } }
+          });
+          await tx.serviceJobAttachment.createMany({
+            data: body.fileIds.map(fileId => ({ jobId, fileId, commentId: created.commentId }))
+          });
+        }
+
+        return tx.serviceJobComment.findUnique({
+          where: { commentId: created.commentId },
+          include: {
+            author: { select: userSummarySelect },
+            attachments: { include: attachmentInclude }
+          }
+        });
+      });
+
+      const response: ApiResponse<typeof comment> = {
+        success: true,
+        data: comment,
+        message: 'Comment added successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Add service job comment error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to add comment'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Attach uploaded media files (uploaded against the job's vehicle) to a service job
+   */
+  static async addAttachments(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { jobId } = req.params;
+      const body = attachmentSchema.parse(req.body);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const job = await tenantDb.serviceJob.findUnique({
+        where: { jobId }
+      });
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: 'Service job not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const invalidFileIds = await ServiceJobController.findInvalidFiles(tenantDb, job.vehicleId, body.fileIds);
+      if (invalidFileIds.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Some files do not exist or do not belong to this vehicle',
+          details: { fileIds: invalidFileIds }
+        } as ApiResponse);
+        return;
+      }
+
+      await tenantDb.serviceJobAttachment.createMany({
+        data: body.fileIds.map(fileId => ({ jobId, fileId })),
+        skipDuplicates: true
+      });
+
+      const attachments = await tenantDb.serviceJobAttachment.findMany({
+        where: { jobId, fileId: { in: body.fileIds } },
+        include: attachmentInclude
+      });
+
+      const response: ApiResponse<typeof attachments> = {
+        success: true,
+        data: attachments,
+        message: 'Attachments added successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Add service job attachments error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to add attachments'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Remove an attachment from a service job. The media file itself is kept.
+   */
+  static async removeAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { jobId, attachmentId } = req.params;
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const deleted = await tenantDb.serviceJobAttachment.deleteMany({
+        where: { jobId, attachmentId }
+      });
+
+      if (deleted.count === 0) {
+        res.status(404).json({
+          success: false,
+          error: 'Attachment not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Attachment removed successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Remove service job attachment error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to remove attachment'
+      } as ApiResponse);
+    }
+  }
+
+  private static async findJobWithDetails(tenantDb: any, jobId: string) {
+    const job = await tenantDb.serviceJob.findUnique({
+      where: { jobId },
+      include: serviceJobDetailInclude
+    });
+
+    if (!job) {
+      return null;
+    }
+
+    // Hide attachments whose media file has been deleted
+    const isLive = (attachment: { file: { deletedAt: Date | null } }) => !attachment.file.deletedAt;
+    return {
+      ...job,
+      attachments: job.attachments.filter(isLive),
+      comments: job.comments.map((comment: any) => ({
+        ...comment,
+        attachments: comment.attachments.filter(isLive)
+      }))
+    };
+  }
+
+  private static async isTechnician(tenantDb: any, userId: string): Promise<boolean> {
+    const technician = await tenantDb.user.findFirst({
+      where: {
+        userId,
+        status: 'active',
+        role: { roleName: { in: TECHNICIAN_ROLES } }
+      },
+      select: { userId: true }
+    });
+
+    return !!technician;
+  }
+
+  /**
+   * File ids that are missing, deleted or were not uploaded against the vehicle
+   */
+  private static async findInvalidFiles(tenantDb: any, vehicleId: string, fileIds: string[]): Promise<string[]> {
+    if (fileIds.length === 0) {
+      return [];
+    }
+
+    const files = await tenantDb.mediaFile.findMany({
+      where: {
+        fileId: { in: fileIds },
+        entityType: 'vehicle',
+        entityId: vehicleId,
+        deletedAt: null
+      },
+      select: { fileId: true }
+    });
+    const validIds = new Set(files.map((file: { fileId: string }) => file.fileId));
+
+    return fileIds.filter(fileId => !validIds.has(fileId));
+  }
+
+  private static async notifyTechnician(
+    tenantId: string,
+    job: { jobId: string; technicianId: string | null; vehicleRegistration: string; customerName: string },
+    assignedBy: string
+  ): Promise<void> {
+    try {
+      await notifyUsers(tenantId, {
+        recipientIds: [job.technicianId!],
+        type: 'info',
+        title: 'Service job assigned',
+        message: `You have been assigned the service job for ${job.vehicleRegistration} (${job.customerName})`,
+        action: { label: 'View', url: '/tracker/service' },
+        entityType: 'service_job',
+        entityId: job.jobId,
+        createdBy: assignedBy
+      });
+    } catch (error) {
+      // The assignment itself succeeded
+      console.error('Service job assignment notification error:', error);
+    }
+  }
+}
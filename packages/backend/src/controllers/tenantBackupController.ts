@@ -0,0 +1,318 @@
+import { Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
+import { z } from 'zod';
+import { masterDb } from '../lib/database';
+import { TenantManager, TenantManagementError } from '../lib/tenantManager';
+import { TenantBackups, TenantBackupError, BackupVerification } from '../lib/tenantBackups';
+import { TenantMigrationError } from '../lib/tenantMigrations';
+import { ApiResponse } from '@omsms/shared';
+import type { Tenant, TenantBackup } from '../../packages/database/generated/master-client';
+
+// Validation schemas
+const backupListQuerySchema = z.object({
+  tenantId: z.string().uuid().optional(),
+  status: z.enum(['running', 'completed', 'failed']).optional(),
+  trigger: z.enum(['manual', 'scheduled', 'pre_deletion', 'pre_migration', 'pre_restore']).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+// Exactly one of: an existing tenant (confirmed by its subdomain) or a new one
+const restoreBackupSchema = z.union([
+  z.object({
+    tenantId: z.string().uuid(),
+    confirmSubdomain: z.string().min(1)
+  }).strict(),
+  z.object({
+    newTenant: z.object({
+      subdomain: z.string().min(3).max(63).regex(/^[a-z0-9-]+$/, 'Use only lowercase letters, numbers, and hyphens'),
+      tenantName: z.string().min(1).max(255).optional()
+    })
+  }).strict()
+]);
+
+type BackupSummary = Omit<TenantBackup, 'sizeBytes' | 'mediaBytes' | 'storagePath'> & {
+  sizeBytes: number;
+  mediaBytes: number;
+};
+
+// Storage paths stay server-side; downloads go through the API
+const toSummary = ({ storagePath, sizeBytes, mediaBytes, ...backup }: TenantBackup): BackupSummary => ({
+  ...backup,
+  sizeBytes: Number(sizeBytes),
+  mediaBytes: Number(mediaBytes)
+});
+
+export class TenantBackupController {
+  /**
+   * List backups, optionally for one tenant (super admin)
+   */
+  static async listBackups(req: Request, res: Response): Promise<void> {
+    try {
+      const query = backupListQuerySchema.parse({ ...req.query, tenantId: req.params.tenantId ?? req.query.tenantId });
+
+      const where = {
+        ...(query.tenantId && { tenantId: query.tenantId }),
+        ...(query.status && { status: query.status }),
+        ...(query.trigger && { trigger: query.trigger })
+      };
+
+      const [backups, total] = await Promise.all([
+        masterDb.tenantBackup.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (query.page - 1) * query.limit,
+          take: query.limit
+        }),
+        masterDb.tenantBackup.count({ where })
+      ]);
+
+      const response: ApiResponse<BackupSummary[]> = {
+        success: true,
+        data: backups.map(toSummary),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit)
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('List tenant backups error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list backups'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Back up a tenant now (super admin)
+   */
+  static async createBackup(req: Request, res: Response): Promise<void> {
+    try {
+      const backup = await TenantBackups.createBackup(req.params.tenantId, {
+        trigger: 'manual',
+        createdBy: req.user!.email
+      });
+
+      const response: ApiResponse<BackupSummary> = {
+        success: true,
+        data: toSummary(backup),
+        message: 'Backup created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Create tenant backup error:', error);
+
+      if (error instanceof TenantBackupError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create backup'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get a backup's details (super admin)
+   */
+  static async getBackup(req: Request, res: Response): Promise<void> {
+    try {
+      const backup = await TenantBackups.getBackup(req.params.backupId);
+
+      const response: ApiResponse<BackupSummary> = {
+        success: true,
+        data: toSummary(backup)
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get tenant backup error:', error);
+
+      if (error instanceof TenantBackupError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get backup'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Download a backup archive (super admin)
+   */
+  static async downloadBackup(req: Request, res: Response): Promise<void> {
+    try {
+      const { backup, stream, fileName } = await TenantBackups.openArchive(req.params.backupId);
+
+      res.setHeader('Content-Type', 'application/gzip');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.setHeader('Content-Length', backup.sizeBytes.toString());
+      if (backup.checksum) {
+        res.setHeader('X-Backup-Checksum', `sha256=${backup.checksum}`);
+      }
+
+      // A checksum mismatch fails the stream, which aborts the transfer
+      await pipeline(stream, res);
+    } catch (error) {
+      console.error('Download tenant backup error:', error);
+
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+
+      if (error instanceof TenantBackupError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to download backup'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Check a backup's archive and media without restoring it (super admin)
+   */
+  static async verifyBackup(req: Request, res: Response): Promise<void> {
+    try {
+      const verification = await TenantBackups.verifyBackup(req.params.backupId);
+
+      const response: ApiResponse<BackupVerification> = {
+        success: true,
+        data: verification,
+        message: verification.media.missingObjects > 0
+          ? `Backup is intact; ${verification.media.missingObjects} media object(s) are missing from storage`
+          : 'Backup is intact'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Verify tenant backup error:', error);
+
+      if (error instanceof TenantBackupError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to verify backup'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Restore a backup into an existing or new tenant (super admin)
+   */
+  static async restoreBackup(req: Request, res: Response): Promise<void> {
+    try {
+      const body = restoreBackupSchema.parse(req.body ?? {});
+
+      const result = await TenantManager.restoreBackup(req.params.backupId, body, req.user!.email);
+      const { databaseUrl, ...tenant } = result.tenant;
+
+      const response: ApiResponse<Omit<typeof result, 'tenant'> & { tenant: Omit<Tenant, 'databaseUrl'> }> = {
+        success: true,
+        data: { ...result, tenant },
+        message: `Backup restored into ${tenant.subdomain}`
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Restore tenant backup error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      if (error instanceof TenantBackupError || error instanceof TenantManagementError || error instanceof TenantMigrationError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to restore backup'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Delete a backup and its archive (super admin)
+   */
+  static async deleteBackup(req: Request, res: Response): Promise<void> {
+    try {
+      await TenantBackups.deleteBackup(req.params.backupId);
+
+      res.json({
+        success: true,
+        message: 'Backup deleted successfully'
+      } as ApiResponse);
+    } catch (error) {
+      console.error('Delete tenant backup error:', error);
+
+      if (error instanceof TenantBackupError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete backup'
+      } as ApiResponse);
+    }
+  }
+}
@@ -0,0 +1,669 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { masterDb, resolveTenantSubdomain } from '../lib/database';
+import { TenantManager, TenantManagementError } from '../lib/tenantManager';
+import { TierLimits, TenantUsage } from '../lib/tierLimits';
+import { ApiResponse } from '@omsms/shared';
+import type { Tenant, TenantPlanRequest } from '../../packages/database/generated/master-client';
+
+// Validation schemas
+const subdomainSchema = z.string().min(3).max(63).regex(/^[a-z0-9-]+$/, 'Use only lowercase letters, numbers, and hyphens');
+
+const subscriptionTierSchema = z.enum(['starter', 'professional', 'enterprise']);
+
+const tenantSettingsSchema = z.object({
+  timezone: z.string().min(1).max(64),
+  currency: z.string().length(3),
+  dateFormat: z.string().min(1).max(32),
+  theme: z.enum(['light', 'dark', 'system']),
+  language: z.string().min(2).max(10)
+}).partial();
+
+const tenantProfileSchema = z.object({
+  tenantName: z.string().min(1).max(255).optional(),
+  settings: tenantSettingsSchema.optional()
+});
+
+// Super admins may also change the status and per-tenant feature overrides
+const tenantAdminUpdateSchema = tenantProfileSchema.extend({
+  status: z.enum(['active', 'inactive', 'suspended']).optional(),
+  features: z.record(z.string(), z.union([z.boolean(), z.number()])).optional()
+});
+
+const createTenantSchema = z.object({
+  tenantName: z.string().min(1).max(255),
+  subdomain: subdomainSchema,
+  subscriptionTier: subscriptionTierSchema,
+  adminEmail: z.string().email(),
+  adminPassword: z.string().min(8),
+  adminFirstName: z.string().min(1),
+  adminLastName: z.string().min(1),
+  settings: tenantSettingsSchema.optional()
+});
+
+const changeSubscriptionSchema = z.object({
+  subscriptionTier: subscriptionTierSchema,
+  force: z.boolean().optional() // Super admins only: downgrade below current usage
+});
+
+const planRequestListQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected', 'cancelled']).optional(),
+  tenantId: z.string().uuid().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+const reviewPlanRequestSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  note: z.string().max(1000).optional()
+});
+
+const renameSubdomainSchema = z.object({
+  subdomain: subdomainSchema
+});
+
+const deleteTenantSchema = z.object({
+  confirmationToken: z.string().min(1),
+  subdomain: z.string().min(1)
+});
+
+const tenantListQuerySchema = z.object({
+  search: z.string().optional(),
+  status: z.string().optional(),
+  subscriptionTier: subscriptionTierSchema.optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+type TenantProfile = Omit<Tenant, 'databaseUrl'>;
+
+// Never expose the database URL (it carries credentials)
+const TENANT_PROFILE_SELECT = {
+  tenantId: true,
+  tenantName: true,
+  subdomain: true,
+  subscriptionTier: true,
+  status: true,
+  settings: true,
+  features: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+const toProfile = ({ databaseUrl, ...profile }: Tenant): TenantProfile => profile;
+
+/**
+ * Tenant an action applies to: `:tenantId` on super admin routes, otherwise
+ * the caller's own tenant (also when addressed by a former subdomain)
+ */
+async function findTargetTenant(req: Request): Promise<TenantProfile | null> {
+  if (req.params.tenantId) {
+    return masterDb.tenant.findUnique({
+      where: { tenantId: req.params.tenantId },
+      select: TENANT_PROFILE_SELECT
+    });
+  }
+
+  const subdomain = req.tenantId ? await resolveTenantSubdomain(req.tenantId) : null;
+  if (!subdomain) {
+    return null;
+  }
+
+  return masterDb.tenant.findUnique({
+    where: { subdomain },
+    select: TENANT_PROFILE_SELECT
+  });
+}
+
+export class TenantController {
+  /**
+   * List all tenants (super admin)
+   */
+  static async listTenants(req: Request, res: Response): Promise<void> {
+    try {
+      const query = tenantListQuerySchema.parse(req.query);
+
+      const where: Record<string, any> = {};
+      if (query.status) where.status = query.status;
+      if (query.subscriptionTier) where.subscriptionTier = query.subscriptionTier;
+      if (query.search) {
+        where.OR = [
+          { tenantName: { contains: query.search, mode: 'insensitive' } },
+          { subdomain: { contains: query.search, mode: 'insensitive' } }
+        ];
+      }
+
+      const [tenants, total] = await Promise.all([
+        masterDb.tenant.findMany({
+          where,
+          select: TENANT_PROFILE_SELECT,
+          orderBy: { createdAt: 'desc' },
+          skip: (query.page - 1) * query.limit,
+          take: query.limit
+        }),
+        masterDb.tenant.count({ where })
+      ]);
+
+      const response: ApiResponse<TenantProfile[]> = {
+        success: true,
+        data: tenants,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit)
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('List tenants error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list tenants'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Provision a new tenant with its admin user (super admin)
+   */
+  static async createTenant(req: Request, res: Response): Promise<void> {
+    try {
+      const body = createTenantSchema.parse(req.body);
+
+      const { tenant, adminUser } = await TenantManager.provisionTenant({
+        tenantName: body.tenantName,
+        subdomain: body.subdomain,
+        subscriptionTier: body.subscriptionTier,
+        settings: body.settings,
+        admin: {
+          email: body.adminEmail,
+          password: body.adminPassword,
+          firstName: body.adminFirstName,
+          lastName: body.adminLastName
+        }
+      });
+
+      const response: ApiResponse<{ tenant: TenantProfile; adminUser: { userId: string; email: string } }> = {
+        success: true,
+        data: {
+          tenant: toProfile(tenant),
+          adminUser: { userId: adminUser.userId, email: adminUser.email }
+        },
+        message: `Tenant ${tenant.subdomain} provisioned`
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Create tenant error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      if (error instanceof TenantManagementError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create tenant'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get a tenant's profile, settings, usage and active subdomain redirects
+   */
+  static async getTenant(req: Request, res: Response): Promise<void> {
+    try {
+      const tenant = await findTargetTenant(req);
+      if (!tenant) {
+        res.status(404).json({
+          success: false,
+          error: 'Tenant not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const [usage, redirects, pendingPlanRequest] = await Promise.all([
+        // Inactive tenants' databases are not reachable
+        tenant.status === 'active' ? TierLimits.getUsage(tenant.subdomain).catch(() => null) : null,
+        masterDb.tenantSubdomainRedirect.findMany({
+          where: { tenantId: tenant.tenantId, expiresAt: { gt: new Date() } },
+          select: { subdomain: true, expiresAt: true },
+          orderBy: { createdAt: 'desc' }
+        }),
+        masterDb.tenantPlanRequest.findFirst({
+          where: { tenantId: tenant.tenantId, status: 'pending' },
+          orderBy: { createdAt: 'desc' }
+        })
+      ]);
+
+      const response: ApiResponse<TenantProfile & {
+        usage: TenantUsage | null;
+        redirects: Array<{ subdomain: string; expiresAt: Date }>;
+        pendingPlanRequest: TenantPlanRequest | null;
+      }> = {
+        success: true,
+        data: { ...tenant, usage, redirects, pendingPlanRequest }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get tenant error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get tenant'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Update a tenant's name and settings; super admins may also set status
+   * and feature overrides
+   */
+  static async updateTenant(req: Request, res: Response): Promise<void> {
+    try {
+      const tenant = await findTargetTenant(req);
+      if (!tenant) {
+        res.status(404).json({
+          success: false,
+          error: 'Tenant not found'
+        } as ApiResponse);
+        return;
+      }
+
+      // Status and features are only accepted (and kept) on super admin routes
+      const body: z.infer<typeof tenantAdminUpdateSchema> = req.params.tenantId
+        ? tenantAdminUpdateSchema.parse(req.body)
+        : tenantProfileSchema.parse(req.body);
+
+      const data: Record<string, any> = {};
+      if (body.tenantName !== undefined) data.tenantName = body.tenantName;
+      if (body.settings) {
+        data.settings = { ...(tenant.settings as Record<string, any>), ...body.settings };
+      }
+      if (body.status) data.status = body.status;
+      if (body.features) {
+        data.features = { ...(tenant.features as Record<string, any>), ...body.features };
+      }
+
+      const updated = await masterDb.tenant.update({
+        where: { tenantId: tenant.tenantId },
+        data,
+        select: TENANT_PROFILE_SELECT
+      });
+
+      const response: ApiResponse<TenantProfile> = {
+        success: true,
+        data: updated,
+        message: 'Tenant updated successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Update tenant error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update tenant'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Move a tenant to another subscription tier. Tenant admins may downgrade
+   * their own tenant; their upgrades become plan requests for a super admin.
+   */
+  static async changeSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const body = changeSubscriptionSchema.parse(req.body);
+
+      const tenant = await findTargetTenant(req);
+      if (!tenant) {
+        res.status(404).json({
+          success: false,
+          error: 'Tenant not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const selfService = !req.params.tenantId;
+
+      if (selfService && TenantManager.isUpgrade(tenant.subscriptionTier, body.subscriptionTier)) {
+        const request = await TenantManager.requestPlanUpgrade(tenant.tenantId, body.subscriptionTier, req.user!.email);
+
+        res.status(202).json({
+          success: true,
+          data: request,
+          message: `Upgrade to the ${body.subscriptionTier} plan requested; it applies once approved`
+        } as ApiResponse<TenantPlanRequest>);
+        return;
+      }
+
+      const updated = await TenantManager.changeSubscriptionTier(tenant.tenantId, body.subscriptionTier, {
+        force: !selfService && body.force
+      });
+
+      const response: ApiResponse<TenantProfile> = {
+        success: true,
+        data: toProfile(updated),
+        message: `Subscription changed to the ${updated.subscriptionTier} plan`
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Change subscription error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      if (error instanceof TenantManagementError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to change subscription'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * List subscription plan requests (super admin)
+   */
+  static async listPlanRequests(req: Request, res: Response): Promise<void> {
+    try {
+      const query = planRequestListQuerySchema.parse(req.query);
+
+      const where = {
+        ...(query.status && { status: query.status }),
+        ...(query.tenantId && { tenantId: query.tenantId })
+      };
+
+      const [requests, total] = await Promise.all([
+        masterDb.tenantPlanRequest.findMany({
+          where,
+          include: { tenant: { select: { tenantName: true, subdomain: true, subscriptionTier: true } } },
+          orderBy: { createdAt: 'desc' },
+          skip: (query.page - 1) * query.limit,
+          take: query.limit
+        }),
+        masterDb.tenantPlanRequest.count({ where })
+      ]);
+
+      const response: ApiResponse<typeof requests> = {
+        success: true,
+        data: requests,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit)
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('List plan requests error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list plan requests'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Approve or reject a pending plan request (super admin)
+   */
+  static async reviewPlanRequest(req: Request, res: Response): Promise<void> {
+    try {
+      const body = reviewPlanRequestSchema.parse(req.body);
+
+      const { request, tenant } = await TenantManager.reviewPlanRequest(
+        req.params.requestId,
+        body.decision,
+        req.user!.email,
+        body.note
+      );
+
+      const response: ApiResponse<{ request: TenantPlanRequest; tenant: TenantProfile }> = {
+        success: true,
+        data: { request, tenant: toProfile(tenant) },
+        message: body.decision === 'approve'
+          ? `${tenant.subdomain} moved to the ${tenant.subscriptionTier} plan`
+          : 'Plan request rejected'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Review plan request error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      if (error instanceof TenantManagementError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to review plan request'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Rename a tenant's subdomain; the former one redirects for a while
+   */
+  static async renameSubdomain(req: Request, res: Response): Promise<void> {
+    try {
+      const body = renameSubdomainSchema.parse(req.body);
+
+      const tenant = await findTargetTenant(req);
+      if (!tenant) {
+        res.status(404).json({
+          success: false,
+          error: 'Tenant not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await TenantManager.renameSubdomain(tenant.tenantId, body.subdomain);
+
+      // Let this client switch right away
+      res.setHeader('X-Tenant-Redirect', result.tenant.subdomain);
+
+      const response: ApiResponse<{
+        tenant: TenantProfile;
+        previousSubdomain: string;
+        redirectExpiresAt: Date;
+      }> = {
+        success: true,
+        data: { ...result, tenant: toProfile(result.tenant) },
+        message: `Subdomain changed to ${result.tenant.subdomain}; ${result.previousSubdomain} redirects until ${result.redirectExpiresAt.toISOString().slice(0, 10)}`
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Rename subdomain error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      if (error instanceof TenantManagementError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to rename subdomain'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Issue a short-lived confirmation token required to delete the tenant
+   */
+  static async requestDeletion(req: Request, res: Response): Promise<void> {
+    try {
+      const tenant = await findTargetTenant(req);
+      if (!tenant) {
+        res.status(404).json({
+          success: false,
+          error: 'Tenant not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const { confirmationToken, expiresAt } = await TenantManager.createDeletionRequest(
+        tenant.tenantId,
+        req.user!.email
+      );
+
+      const response: ApiResponse<{ confirmationToken: string; expiresAt: Date; subdomain: string }> = {
+        success: true,
+        data: { confirmationToken, expiresAt, subdomain: tenant.subdomain },
+        message: 'Send the confirmation token and the tenant subdomain to delete the tenant. All data is backed up first.'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Request tenant deletion error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to request tenant deletion'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Back up and permanently delete a tenant, given a confirmation token
+   */
+  static async deleteTenant(req: Request, res: Response): Promise<void> {
+    try {
+      const body = deleteTenantSchema.parse(req.body);
+
+      const tenant = await findTargetTenant(req);
+      if (!tenant) {
+        res.status(404).json({
+          success: false,
+          error: 'Tenant not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const { backupId, backupLocation } = await TenantManager.deleteTenant(tenant.tenantId, body);
+
+      const response: ApiResponse<{ tenantId: string; backupId: string; backupLocation: string }> = {
+        success: true,
+        data: { tenantId: tenant.tenantId, backupId, backupLocation },
+        message: `Tenant ${tenant.subdomain} deleted`
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Delete tenant error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      if (error instanceof TenantManagementError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete tenant'
+      } as ApiResponse);
+    }
+  }
+}
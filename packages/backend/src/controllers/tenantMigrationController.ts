@@ -0,0 +1,186 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { TenantManager, TenantManagementError } from '../lib/tenantManager';
+import {
+  TenantMigrations,
+  TenantMigrationError,
+  TenantMigrationStatus,
+  TenantMigrationResult,
+  MigrationRolloutResult
+} from '../lib/tenantMigrations';
+import { ApiResponse } from '@omsms/shared';
+
+// Validation schemas
+const migrateTenantSchema = z.object({
+  dryRun: z.boolean().default(false),
+  backupFirst: z.boolean().default(false),
+  targetVersion: z.number().int().min(1).optional()
+});
+
+const rolloutSchema = z.object({
+  dryRun: z.boolean().default(false),
+  tenantIds: z.array(z.string().uuid()).min(1).optional(),
+  targetVersion: z.number().int().min(1).optional(),
+  maxFailures: z.number().int().min(1).optional()
+});
+
+export class TenantMigrationController {
+  /**
+   * Migration state of every tenant (super admin)
+   */
+  static async listStatuses(req: Request, res: Response): Promise<void> {
+    try {
+      const statuses = await TenantMigrations.getAllStatuses();
+
+      const response: ApiResponse<{
+        latestVersion: number;
+        migrations: Array<{ version: number; migrationName: string; checksum: string }>;
+        tenants: TenantMigrationStatus[];
+      }> = {
+        success: true,
+        data: {
+          latestVersion: TenantMigrations.getLatestVersion(),
+          migrations: TenantMigrations.getMigrations().map(migration => ({
+            version: migration.version,
+            migrationName: TenantMigrations.getMigrationName(migration),
+            checksum: TenantMigrations.getChecksum(migration)
+          })),
+          tenants: statuses
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('List tenant migration statuses error:', error);
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get migration status'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Roll pending migrations out across tenants (super admin)
+   */
+  static async rollout(req: Request, res: Response): Promise<void> {
+    try {
+      const body = rolloutSchema.parse(req.body ?? {});
+
+      const result = await TenantMigrations.migrateAll(body);
+
+      const response: ApiResponse<MigrationRolloutResult> = {
+        success: true,
+        data: result,
+        message: body.dryRun
+          ? `Dry run: ${result.succeeded} of ${result.total} tenants would migrate cleanly`
+          : `Migrated ${result.succeeded} of ${result.total} tenants, ${result.failed} failed`
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Tenant migration rollout error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to roll out migrations'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Migration state of one tenant (super admin)
+   */
+  static async getTenantStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const status = await TenantMigrations.getStatus(req.params.tenantId);
+
+      const response: ApiResponse<TenantMigrationStatus> = {
+        success: true,
+        data: status
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get tenant migration status error:', error);
+
+      if (error instanceof TenantMigrationError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get migration status'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Apply pending migrations to one tenant (super admin)
+   */
+  static async migrateTenant(req: Request, res: Response): Promise<void> {
+    try {
+      const body = migrateTenantSchema.parse(req.body ?? {});
+
+      const result = await TenantManager.migrateTenant(req.params.tenantId, body);
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error || 'Migration failed',
+          data: result
+        } as ApiResponse<TenantMigrationResult>);
+        return;
+      }
+
+      const response: ApiResponse<TenantMigrationResult & { backupId?: string }> = {
+        success: true,
+        data: result,
+        message: result.applied.length === 0
+          ? 'Tenant schema is up to date'
+          : `${body.dryRun ? 'Would apply' : 'Applied'} ${result.applied.length} migration(s)`
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Migrate tenant error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      if (error instanceof TenantMigrationError || error instanceof TenantManagementError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to migrate tenant'
+      } as ApiResponse);
+    }
+  }
+}
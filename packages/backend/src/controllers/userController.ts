@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import { z } from 'zod';
 import { AuthService } from '../lib/auth';
 import { getTenantDb } from '../lib/database';
+import { recordAudit, getAuditContext } from '../lib/audit';
+import { TierLimits, TierLimitError } from '../lib/tierLimits';
 import {
   ApiResponse,
   UserRole,
@@ -250,6 +252,9 @@ export class UserController {
         return;
       }
 
+      // Subscription tier user limit
+      await TierLimits.assertCanAdd(req.tenantId, 'users');
+
       // Get default permissions for role (use role name for now)
       const permissions = body.permissions || AuthService.getDefaultPermissions(role.roleName as UserRole);
 
@@ -279,6 +284,17 @@ export class UserController {
       // Remove password hash from response
       const { passwordHash: _, ...userWithoutPassword } = newUser;
 
+      const { role: _role, department: _department, location: _location, ...userRow } = newUser;
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'user',
+        entityId: newUser.userId,
+        verb: 'created',
+        after: userRow
+      });
+
+      TierLimits.notifyUsageChange(req.tenantId, 'users');
+
       const response: ApiResponse<typeof userWithoutPassword> = {
         success: true,
         data: userWithoutPassword,
@@ -288,6 +304,16 @@ export class UserController {
       res.status(201).json(response);
     } catch (error) {
       console.error('Create user error:', error);
+
+      if (error instanceof TierLimitError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: { resource: error.resource, limit: error.limit, current: error.current }
+        } as ApiResponse);
+        return;
+      }
       
       if (error instanceof z.ZodError) {
         res.status(400).json({
@@ -357,6 +383,12 @@ export class UserController {
         }
       }
 
+      // Reactivating a user counts against the tier user limit
+      const reactivating = body.status === 'active' && existingUser.status !== 'active';
+      if (reactivating) {
+        await TierLimits.assertCanAdd(req.tenantId, 'users');
+      }
+
       // Update permissions if role changed
       let permissions = body.permissions;
       if (body.roleId && body.roleId !== existingUser.roleId && !body.permissions) {
@@ -385,6 +417,19 @@ export class UserController {
       // Remove password hash from response
       const { passwordHash, ...userWithoutPassword } = updatedUser;
 
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'user',
+        entityId: userId,
+        verb: 'updated',
+        before: existingUser,
+        after: updatedUser
+      });
+
+      if (reactivating) {
+        TierLimits.notifyUsageChange(req.tenantId, 'users');
+      }
+
       const response: ApiResponse<typeof userWithoutPassword> = {
         success: true,
         data: userWithoutPassword,
@@ -394,6 +439,16 @@ export class UserController {
       res.json(response);
     } catch (error) {
       console.error('Update user error:', error);
+
+      if (error instanceof TierLimitError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: { resource: error.resource, limit: error.limit, current: error.current }
+        } as ApiResponse);
+        return;
+      }
       
       if (error instanceof z.ZodError) {
         res.status(400).json({
@@ -468,11 +523,21 @@ export class UserController {
       }
 
       // Soft delete by setting status to inactive
-      await tenantDb.user.update({
+      const deactivatedUser = await tenantDb.user.update({
         where: { userId },
         data: { status: 'inactive' }
       });
 
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'user',
+        entityId: userId,
+        verb: 'deleted',
+        before: existingUser,
+        after: deactivatedUser,
+        details: { softDelete: true }
+      });
+
       const response: ApiResponse = {
         success: true,
         message: 'User deleted successfully'
@@ -548,11 +613,21 @@ export class UserController {
       const newPasswordHash = await AuthService.hashPassword(body.newPassword);
 
       // Update password
-      await tenantDb.user.update({
+      const updatedUser = await tenantDb.user.update({
         where: { userId },
         data: { passwordHash: newPasswordHash }
       });
 
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'user',
+        entityId: userId,
+        verb: 'updated',
+        before: user,
+        after: updatedUser,
+        details: { passwordChange: true }
+      });
+
       const response: ApiResponse = {
         success: true,
         message: 'Password changed successfully'
@@ -595,6 +670,11 @@ export class UserController {
       const { permissions } = req.body;
       const tenantDb = await getTenantDb(req.tenantId);
 
+      const existingUser = await tenantDb.user.findUnique({
+        where: { userId },
+        select: { permissions: true }
+      });
+
       // Update user permissions
       const updatedUser = await tenantDb.user.update({
         where: { userId },
@@ -602,6 +682,15 @@ export class UserController {
         select: { userId: true, email: true, role: true, permissions: true }
       });
 
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'user',
+        entityId: userId,
+        verb: 'updated',
+        before: existingUser,
+        after: { permissions: updatedUser.permissions }
+      });
+
       const response: ApiResponse<typeof updatedUser> = {
         success: true,
         data: updatedUser,
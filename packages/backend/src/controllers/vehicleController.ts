@@ -2,6 +2,10 @@ import { Request, Response } from 'express';
 import { z } from 'zod';
 import { getTenantDb } from '../lib/database';
 import { emitVehicleUpdate, emitDataSync } from '../lib/realTimeEvents';
+import { dispatchWebhook } from '../lib/webhooks';
+import { recordAudit, recordWorkflowStageChange, getAuditContext } from '../lib/audit';
+import { buildVehicleScope, getPermissionConditions, isVehicleInScope, withScope } from '../lib/permissions';
+import { TierLimits, TierLimitError } from '../lib/tierLimits';
 import {
   ApiResponse,
   VehicleStatus,
@@ -148,6 +152,9 @@ export class VehicleController {
       }
       // Note: Installers can see all vehicles (no filtering applied)
 
+      // Row-level conditions of the role's vehicles.read permission
+      const scopedWhere = withScope(where, await buildVehicleScope(tenantDb, req.user, req.permissionConditions ?? null));
+
       // Pagination
       const page = query.page || 1;
       const limit = query.limit || 20;
@@ -248,13 +255,13 @@ export class VehicleController {
       // Get vehicles with related data
       const [vehicles, total] = await Promise.all([
         tenantDb.vehicle.findMany({
-          where,
+          where: scopedWhere,
           include: buildInclude(query.include),
           skip,
           take: limit,
           orderBy
         }),
-        tenantDb.vehicle.count({ where })
+        tenantDb.vehicle.count({ where: scopedWhere })
       ]);
 
       // Fetch workflow instances separately if requested
@@ -582,7 +589,10 @@ export class VehicleController {
       }
 
       // Check if user has permission to view this vehicle
-      if (!VehicleController.canAccessVehicle(req.user!, vehicle)) {
+      if (
+        !VehicleController.canAccessVehicle(req.user!, vehicle) ||
+        !(await isVehicleInScope(tenantDb, req.user, req.permissionConditions ?? null, vehicleId))
+      ) {
         res.status(403).json({
           success: false,
           error: 'Access denied to this vehicle'
@@ -682,6 +692,9 @@ export class VehicleController {
       }
       
       const tenantDb = await getTenantDb(req.tenantId);
+
+      // Subscription tier vehicle limit
+      await TierLimits.assertCanAdd(req.tenantId, 'vehicles');
       
       // Auto-create new products and brands if they don't exist
       if (body.vehicleDetails && body.vehicleDetails.products) {
@@ -838,6 +851,22 @@ export class VehicleController {
         timestamp: new Date()
       });
 
+      dispatchWebhook(req.tenantId, 'vehicle.created', {
+        vehicle: newVehicle,
+        createdBy: req.user.userId
+      });
+
+      TierLimits.notifyUsageChange(req.tenantId, 'vehicles');
+
+      const { location, salesperson, coordinator, supervisor, creator, ...vehicleRow } = newVehicle;
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'vehicle',
+        entityId: newVehicle.vehicleId,
+        verb: 'created',
+        after: vehicleRow
+      });
+
       const response: ApiResponse<typeof newVehicle> = {
         success: true,
         data: newVehicle,
@@ -847,6 +876,16 @@ export class VehicleController {
       res.status(201).json(response);
     } catch (error) {
       console.error('Create vehicle error:', error);
+
+      if (error instanceof TierLimitError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: { resource: error.resource, limit: error.limit, current: error.current }
+        } as ApiResponse);
+        return;
+      }
       
       if (error instanceof z.ZodError) {
         res.status(400).json({
@@ -943,7 +982,10 @@ export class VehicleController {
       }
 
       // Check if user can update this vehicle
-      if (!VehicleController.canModifyVehicle(req.user, existingVehicle)) {
+      if (
+        !VehicleController.canModifyVehicle(req.user, existingVehicle) ||
+        !(await isVehicleInScope(tenantDb, req.user, req.permissionConditions ?? null, vehicleId))
+      ) {
         res.status(403).json({
           success: false,
           error: 'Access denied to modify this vehicle'
@@ -1011,6 +1053,25 @@ export class VehicleController {
       
       console.log('Vehicle updated successfully:', updatedVehicle.vehicleId);
 
+      if (updatedVehicle.status !== existingVehicle.status) {
+        dispatchWebhook(req.tenantId, 'vehicle.status_changed', {
+          vehicleId: updatedVehicle.vehicleId,
+          carNumber: updatedVehicle.carNumber,
+          previousStatus: existingVehicle.status,
+          status: updatedVehicle.status,
+          updatedBy: req.user.userId
+        });
+      }
+
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'vehicle',
+        entityId: vehicleId,
+        verb: 'updated',
+        before: existingVehicle,
+        after: updatedVehicle
+      });
+
       const response: ApiResponse<typeof updatedVehicle> = {
         success: true,
         data: updatedVehicle,
@@ -1091,6 +1152,14 @@ export class VehicleController {
         return;
       }
 
+      if (!(await isVehicleInScope(tenantDb, req.user, req.permissionConditions ?? null, vehicleId))) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied to modify this vehicle'
+        } as ApiResponse);
+        return;
+      }
+
       // Validate status transition
       if (!VehicleController.isValidStatusTransition(existingVehicle.status as VehicleStatus, body.status)) {
         res.status(400).json({
@@ -1116,7 +1185,25 @@ export class VehicleController {
         data: updateData
       });
 
-      // TODO: Create audit log entry for status change
+      dispatchWebhook(req.tenantId, 'vehicle.status_changed', {
+        vehicleId,
+        carNumber: updatedVehicle.carNumber,
+        previousStatus: existingVehicle.status,
+        status: updatedVehicle.status,
+        notes: body.notes,
+        updatedBy: req.user.userId
+      });
+
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'vehicle',
+        entityId: vehicleId,
+        verb: 'status_changed',
+        before: existingVehicle,
+        after: updatedVehicle,
+        details: body.notes ? { notes: body.notes } : undefined
+      });
+
       // TODO: Send notifications for status change
 
       const response: ApiResponse<typeof updatedVehicle> = {
@@ -1176,6 +1263,14 @@ export class VehicleController {
         return;
       }
 
+      if (!(await isVehicleInScope(tenantDb, req.user, req.permissionConditions ?? null, vehicleId))) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied to modify this vehicle'
+        } as ApiResponse);
+        return;
+      }
+
       // Update assignments
       const updatedVehicle = await tenantDb.vehicle.update({
         where: { vehicleId },
@@ -1218,6 +1313,15 @@ export class VehicleController {
         message: 'Vehicle assignments updated successfully'
       };
 
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'vehicle',
+        entityId: vehicleId,
+        verb: 'updated',
+        before: existingVehicle,
+        after: updatedVehicle
+      });
+
       res.json(response);
       return;
     } catch (error) {
@@ -1276,6 +1380,14 @@ export class VehicleController {
         return;
       }
 
+      if (!(await isVehicleInScope(tenantDb, req.user, req.permissionConditions ?? null, vehicleId))) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied to modify this vehicle'
+        } as ApiResponse);
+        return;
+      }
+
       // Check if vehicle has associated data
       const hasAssociations = 
         existingVehicle._count.installations > 0 ||
@@ -1283,11 +1395,21 @@ export class VehicleController {
 
       if (hasAssociations) {
         // Soft delete by setting status to cancelled
-        await tenantDb.vehicle.update({
+        const cancelledVehicle = await tenantDb.vehicle.update({
           where: { vehicleId },
           data: { status: 'cancelled' }
         });
 
+        await recordAudit(tenantDb, {
+          ...getAuditContext(req),
+          entityType: 'vehicle',
+          entityId: vehicleId,
+          verb: 'status_changed',
+          before: existingVehicle,
+          after: cancelledVehicle,
+          details: { reason: 'Cancelled on delete because the vehicle has installations or media' }
+        });
+
         const response: ApiResponse = {
           success: true,
           message: 'Vehicle cancelled (has associated data)'
@@ -1302,6 +1424,14 @@ export class VehicleController {
         where: { vehicleId }
       });
 
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'vehicle',
+        entityId: vehicleId,
+        verb: 'deleted',
+        before: existingVehicle
+      });
+
       const response: ApiResponse = {
         success: true,
         message: 'Vehicle deleted successfully'
@@ -1332,6 +1462,7 @@ export class VehicleController {
       }
 
       const tenantDb = await getTenantDb(req.tenantId);
+      const scope = await buildVehicleScope(tenantDb, req.user, req.permissionConditions ?? null);
 
       // Get comprehensive vehicle statistics
       const [
@@ -1342,25 +1473,27 @@ export class VehicleController {
         recentVehicles,
         overdueVehicles
       ] = await Promise.all([
-        tenantDb.vehicle.count(),
+        tenantDb.vehicle.count({ where: withScope({}, scope) }),
         tenantDb.vehicle.groupBy({
           by: ['status'],
           _count: { status: true },
+          where: withScope({}, scope),
           orderBy: { _count: { status: 'desc' } }
         }),
         tenantDb.vehicle.groupBy({
           by: ['locationId'],
           _count: { locationId: true },
-          where: { locationId: { not: null } }
+          where: withScope({ locationId: { not: null } }, scope)
         }),
         tenantDb.vehicle.groupBy({
           by: ['brandName'],
           _count: { brandName: true },
-          where: { brandName: { not: null } },
+          where: withScope({ brandName: { not: null } }, scope),
           orderBy: { _count: { brandName: 'desc' } },
           take: 10
         }),
         tenantDb.vehicle.findMany({
+          where: withScope({}, scope),
           select: {
             vehicleId: true,
             carNumber: true,
@@ -1372,10 +1505,10 @@ export class VehicleController {
           take: 10
         }),
         tenantDb.vehicle.count({
-          where: {
+          where: withScope({
             expectedDeliveryDate: { lt: new Date() },
             status: { notIn: ['delivered', 'cancelled'] }
-          }
+          }, scope)
         })
       ]);
 
@@ -1470,7 +1603,7 @@ export class VehicleController {
   /**
    * Ensure products and brands exist in database, create them if they don't
    */
-  private static async ensureProductsAndBrandsExist(tenantDb: any, products: any[]): Promise<void> {
+  static async ensureProductsAndBrandsExist(tenantDb: any, products: any[]): Promise<void> {
     if (!products || !Array.isArray(products)) return;
 
     for (const product of products) {
@@ -1548,7 +1681,10 @@ export class VehicleController {
       }
 
       // Check permissions
-      if (!VehicleController.canAccessVehicle(req.user!, vehicle)) {
+      if (
+        !VehicleController.canAccessVehicle(req.user!, vehicle) ||
+        !(await isVehicleInScope(tenantDb, req.user, req.permissionConditions ?? null, vehicleId))
+      ) {
         res.status(403).json({
           success: false,
           error: 'Insufficient permissions to access this vehicle workflow'
@@ -1666,7 +1802,10 @@ export class VehicleController {
       }
 
       // Check permissions
-      if (!VehicleController.canModifyVehicle(req.user!, vehicle)) {
+      if (
+        !VehicleController.canModifyVehicle(req.user!, vehicle) ||
+        !(await isVehicleInScope(tenantDb, req.user, req.permissionConditions ?? null, vehicleId))
+      ) {
         res.status(403).json({
           success: false,
           error: 'Insufficient permissions to update this vehicle workflow'
@@ -1694,6 +1833,7 @@ export class VehicleController {
         const data = instance.stageData as any;
         return data?.productName === productName;
       });
+      const previousStage = workflowInstance?.currentStage || null;
 
       const stageData = {
         productName,
@@ -1767,6 +1907,31 @@ export class VehicleController {
         });
       }
 
+      if (previousStage !== workflowInstance.currentStage) {
+        dispatchWebhook(req.tenantId, 'workflow.stage_changed', {
+          instanceId: workflowInstance.instanceId,
+          workflowType,
+          entityType: workflowInstance.entityType,
+          entityId: workflowInstance.entityId,
+          productName,
+          previousStage,
+          stage: workflowInstance.currentStage,
+          status: workflowInstance.status,
+          updatedBy: req.user?.userId || 'system'
+        });
+
+        await recordWorkflowStageChange(tenantDb, getAuditContext(req), {
+          instanceId: workflowInstance.instanceId,
+          workflowType,
+          entityType: workflowInstance.entityType,
+          entityId: workflowInstance.entityId,
+          previousStage,
+          stage: workflowInstance.currentStage,
+          status: workflowInstance.status,
+          notes: notes || `${productName} updated`
+        });
+      }
+
       // Emit real-time update
       emitVehicleUpdate(req.tenantId, {
         vehicleId,
@@ -1873,8 +2038,11 @@ export class VehicleController {
         return;
       }
 
-      // Check permissions
-      if (!VehicleController.canModifyVehicle(req.user!, vehicle)) {
+      // Check permissions (role-gated route, so the vehicles.update conditions apply)
+      if (
+        !VehicleController.canModifyVehicle(req.user!, vehicle) ||
+        !(await isVehicleInScope(tenantDb, req.user, getPermissionConditions(req.user, 'vehicles.update'), vehicleId))
+      ) {
         console.log('❌ [ERROR] Insufficient permissions for user:', req.user?.userId);
         res.status(403).json({
           success: false,
@@ -1923,6 +2091,8 @@ export class VehicleController {
         stageHistory: workflowInstance.stageHistory
       } : 'No existing workflow instance found');
 
+      const previousStage = workflowInstance?.currentStage || null;
+
       if (!workflowInstance) {
         console.log('🆕 [CREATE] Creating new workflow instance...');
         
@@ -2023,6 +2193,30 @@ export class VehicleController {
         });
       }
 
+      if (previousStage !== workflowInstance.currentStage) {
+        dispatchWebhook(req.tenantId, 'workflow.stage_changed', {
+          instanceId: workflowInstance.instanceId,
+          workflowType,
+          entityType: workflowInstance.entityType,
+          entityId: workflowInstance.entityId,
+          previousStage,
+          stage: workflowInstance.currentStage,
+          status: workflowInstance.status,
+          updatedBy: req.user?.userId || 'system'
+        });
+
+        await recordWorkflowStageChange(tenantDb, getAuditContext(req), {
+          instanceId: workflowInstance.instanceId,
+          workflowType,
+          entityType: workflowInstance.entityType,
+          entityId: workflowInstance.entityId,
+          previousStage,
+          stage: workflowInstance.currentStage,
+          status: workflowInstance.status,
+          notes
+        });
+      }
+
       console.log('📡 [REAL-TIME] Emitting vehicle update event...');
       
       // Emit real-time update (in background, don't await)
@@ -2131,7 +2325,7 @@ export class VehicleController {
   /**
    * Initialize default workflow instances for a new vehicle
    */
-  private static async initializeDefaultWorkflows(tenantDb: any, vehicleId: string, userId: string): Promise<void> {
+  static async initializeDefaultWorkflows(tenantDb: any, vehicleId: string, userId: string): Promise<void> {
     try {
       console.log('🔍 [INIT] Looking for workflow templates and existing instances...');
 
@@ -0,0 +1,371 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { getTenantDb } from '../lib/database';
+import { WEBHOOK_EVENTS, WebhookDispatcher } from '../lib/webhooks';
+import { assertPublicUrl, OutboundUrlError } from '../lib/outboundHttp';
+import {
+  ApiResponse
+} from '@omsms/shared';
+
+// Validation schemas
+const webhookEndpointSchema = z.object({
+  name: z.string().min(1).max(100),
+  url: z.string().url().refine((url) => /^https?:\/\//.test(url), 'URL must use http or https'),
+  events: z.array(z.enum([...WEBHOOK_EVENTS, '*'])).min(1),
+  enabled: z.boolean().default(true)
+});
+
+const deliveryQuerySchema = z.object({
+  page: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1)).optional(),
+  limit: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1).max(100)).optional(),
+  endpointId: z.string().uuid().optional(),
+  eventType: z.enum(WEBHOOK_EVENTS).optional(),
+  status: z.enum(['pending', 'success', 'failed']).optional()
+});
+
+export class WebhookController {
+  /**
+   * Get available webhook event types
+   */
+  static async getEventTypes(req: Request, res: Response): Promise<void> {
+    const response: ApiResponse<readonly string[]> = {
+      success: true,
+      data: WEBHOOK_EVENTS
+    };
+
+    res.json(response);
+  }
+
+  /**
+   * Get webhook endpoints
+   */
+  static async getEndpoints(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const endpoints = await tenantDb.webhookEndpoint.findMany({
+        include: {
+          _count: {
+            select: { deliveries: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      const response: ApiResponse<typeof endpoints> = {
+        success: true,
+        data: endpoints
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get webhook endpoints error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get webhook endpoints'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Create webhook endpoint
+   */
+  static async createEndpoint(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const body = webhookEndpointSchema.parse(req.body);
+      await assertPublicUrl(body.url);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const endpoint = await tenantDb.webhookEndpoint.create({
+        data: {
+          name: body.name,
+          url: body.url,
+          events: body.events,
+          enabled: body.enabled,
+          createdBy: req.user.userId
+        }
+      });
+
+      const response: ApiResponse<typeof endpoint> = {
+        success: true,
+        data: endpoint,
+        message: 'Webhook endpoint created successfully'
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Create webhook endpoint error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      if (error instanceof OutboundUrlError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create webhook endpoint'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Update webhook endpoint (url, subscribed events, enable/disable)
+   */
+  static async updateEndpoint(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { endpointId } = req.params;
+      const body = webhookEndpointSchema.partial().parse(req.body);
+      if (body.url) {
+        await assertPublicUrl(body.url);
+      }
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const existingEndpoint = await tenantDb.webhookEndpoint.findUnique({
+        where: { endpointId }
+      });
+
+      if (!existingEndpoint) {
+        res.status(404).json({
+          success: false,
+          error: 'Webhook endpoint not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const endpoint = await tenantDb.webhookEndpoint.update({
+        where: { endpointId },
+        data: body
+      });
+
+      const response: ApiResponse<typeof endpoint> = {
+        success: true,
+        data: endpoint,
+        message: 'Webhook endpoint updated successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Update webhook endpoint error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      if (error instanceof OutboundUrlError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update webhook endpoint'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Delete webhook endpoint
+   */
+  static async deleteEndpoint(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { endpointId } = req.params;
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      // Delivery log is removed with the endpoint (ON DELETE CASCADE)
+      const deleted = await tenantDb.webhookEndpoint.deleteMany({
+        where: { endpointId }
+      });
+
+      if (deleted.count === 0) {
+        res.status(404).json({
+          success: false,
+          error: 'Webhook endpoint not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Webhook endpoint deleted successfully'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Delete webhook endpoint error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete webhook endpoint'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get webhook delivery log
+   */
+  static async getDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const query = deliveryQuerySchema.parse(req.query);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      const where: any = {};
+      if (query.endpointId) where.endpointId = query.endpointId;
+      if (query.eventType) where.eventType = query.eventType;
+      if (query.status) where.status = query.status;
+
+      const page = query.page || 1;
+      const limit = query.limit || 20;
+      const skip = (page - 1) * limit;
+
+      const [deliveries, total] = await Promise.all([
+        tenantDb.webhookDelivery.findMany({
+          where,
+          include: {
+            endpoint: {
+              select: {
+                endpointId: true,
+                name: true
+              }
+            }
+          },
+          skip,
+          take: limit,
+          orderBy: { createdAt: 'desc' }
+        }),
+        tenantDb.webhookDelivery.count({ where })
+      ]);
+
+      const response: ApiResponse<typeof deliveries> = {
+        success: true,
+        data: deliveries,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get webhook deliveries error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get webhook deliveries'
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Replay a logged webhook delivery
+   */
+  static async replayDelivery(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { deliveryId } = req.params;
+      const delivery = await WebhookDispatcher.replay(req.tenantId, deliveryId);
+
+      if (!delivery) {
+        res.status(404).json({
+          success: false,
+          error: 'Webhook delivery not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const response: ApiResponse<typeof delivery> = {
+        success: true,
+        data: delivery,
+        message: delivery.status === 'success'
+          ? 'Webhook delivered successfully'
+          : 'Webhook delivery failed, it will be retried automatically'
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Replay webhook delivery error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to replay webhook delivery'
+      } as ApiResponse);
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { getTenantDb } from '../lib/database';
+import { WorkflowEngine, WorkflowTransitionError } from '../services/workflowEngine';
+import { assertPublicUrl, OutboundUrlError } from '../lib/outboundHttp';
 import {
   ApiResponse,
   UserRole
@@ -16,10 +18,10 @@ const workflowStageSchema = z.object({
   assignedUserId: z.string().uuid().optional(),
   autoAdvance: z.boolean().default(false),
   requiredFields: z.array(z.string()).default([]),
-  conditions: z.record(z.any()).default({}),
+  conditions: z.record(z.string(), z.any()).default({}),
   actions: z.array(z.object({
     type: z.enum(['notification', 'assignment', 'status_update', 'webhook', 'email']),
-    config: z.record(z.any())
+    config: z.record(z.string(), z.any())
   })).default([]),
   timeoutHours: z.number().optional(),
   nextStages: z.array(z.string()).default([])
@@ -37,29 +39,30 @@ const createWorkflowSchema = z.object({
     requireApproval: z.boolean().default(false),
     notifyOnDelay: z.boolean().default(true),
     escalationHours: z.number().optional()
-  }).default({}),
+  }).prefault({}),
   notifications: z.object({
     onStart: z.boolean().default(true),
     onComplete: z.boolean().default(true),
     onStageChange: z.boolean().default(true),
     onDelay: z.boolean().default(true),
     channels: z.array(z.enum(['email', 'sms', 'push', 'webhook'])).default(['email'])
-  }).default({})
+  }).prefault({})
 });
 
-const updateWorkflowSchema = createWorkflowSchema.partial().omit(['workflowName']);
+const updateWorkflowSchema = createWorkflowSchema.partial().omit({ workflowName: true });
 
 const startWorkflowSchema = z.object({
   entityType: z.enum(['vehicle', 'installation', 'order']),
   entityId: z.string().uuid(),
   assignedTo: z.string().uuid().optional(),
-  initialData: z.record(z.any()).default({})
+  initialData: z.record(z.string(), z.any()).default({})
 });
 
 const advanceWorkflowSchema = z.object({
   nextStage: z.string(),
   notes: z.string().optional(),
-  stageData: z.record(z.any()).default({})
+  stageData: z.record(z.string(), z.any()).default({}),
+  assignedTo: z.string().uuid().optional()
 });
 
 const paginationSchema = z.object({
@@ -150,7 +153,7 @@ export class WorkflowController {
         res.status(400).json({
           success: false,
           error: 'Invalid query parameters',
-          details: error.errors
+          details: error.issues
         } as ApiResponse);
         return;
       }
@@ -266,7 +269,7 @@ export class WorkflowController {
       }
 
       // Validate workflow stages
-      const validationResult = WorkflowController.validateWorkflowStages(body.stages);
+      const validationResult = await WorkflowController.validateWorkflowStages(body.stages);
       if (!validationResult.valid) {
         res.status(400).json({
           success: false,
@@ -309,7 +312,7 @@ export class WorkflowController {
         res.status(400).json({
           success: false,
           error: 'Invalid request data',
-          details: error.errors
+          details: error.issues
         } as ApiResponse);
         return;
       }
@@ -353,7 +356,7 @@ export class WorkflowController {
 
       // Validate workflow stages if provided
       if (body.stages) {
-        const validationResult = WorkflowController.validateWorkflowStages(body.stages);
+        const validationResult = await WorkflowController.validateWorkflowStages(body.stages);
         if (!validationResult.valid) {
           res.status(400).json({
             success: false,
@@ -364,10 +367,11 @@ export class WorkflowController {
         }
       }
 
-      // Update workflow
+      // Update workflow (description is not persisted on the definition)
+      const { description, ...data } = body;
       const updatedWorkflow = await tenantDb.workflow.update({
         where: { workflowId },
-        data: body,
+        data,
         include: {
           _count: {
             select: {
@@ -391,7 +395,7 @@ export class WorkflowController {
         res.status(400).json({
           success: false,
           error: 'Invalid request data',
-          details: error.errors
+          details: error.issues
         } as ApiResponse);
         return;
       }
@@ -520,56 +524,29 @@ export class WorkflowController {
         }
       }
 
-      // Find start stage
-      const stages = workflow.stages as any[];
-      const startStage = stages.find(stage => stage.type === 'start');
-      
-      if (!startStage) {
-        res.status(400).json({
-          success: false,
-          error: 'No start stage found in workflow'
-        } as ApiResponse);
-        return;
+      // Validate assignee exists if provided
+      if (body.assignedTo) {
+        const assignee = await tenantDb.user.findUnique({
+          where: { userId: body.assignedTo }
+        });
+        if (!assignee) {
+          res.status(400).json({
+            success: false,
+            error: 'Assignee not found'
+          } as ApiResponse);
+          return;
+        }
       }
 
-      // Create workflow instance
-      const instance = await tenantDb.workflowInstance.create({
-        data: {
-          workflowId: workflow.workflowId,
-          entityType: body.entityType,
-          entityId: body.entityId,
-          currentStage: startStage.id,
-          stageData: body.initialData,
-          stageHistory: [{
-            stage: startStage.id,
-            userId: req.user.userId,
-            timestamp: new Date(),
-            notes: 'Workflow started',
-            metadata: body.initialData
-          }],
-          status: 'in_progress',
-          assignedTo: body.assignedTo
-        },
-        include: {
-          workflow: {
-            select: {
-              workflowName: true,
-              workflowType: true
-            }
-          },
-          assignee: {
-            select: {
-              firstName: true,
-              lastName: true,
-              email: true
-            }
-          }
-        }
+      // Create the instance at the start stage and run its actions
+      const instance = await WorkflowEngine.startWorkflow(req.tenantId, workflow, {
+        entityType: body.entityType,
+        entityId: body.entityId,
+        assignedTo: body.assignedTo,
+        initialData: body.initialData,
+        userId: req.user.userId
       });
 
-      // TODO: Execute start stage actions
-      // TODO: Send notifications
-
       const response: ApiResponse<typeof instance> = {
         success: true,
         data: instance,
@@ -579,12 +556,21 @@ export class WorkflowController {
       res.status(201).json(response);
     } catch (error) {
       console.error('Start workflow error:', error);
+
+      if (error instanceof WorkflowTransitionError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          details: error.details
+        } as ApiResponse);
+        return;
+      }
       
       if (error instanceof z.ZodError) {
         res.status(400).json({
           success: false,
           error: 'Invalid request data',
-          details: error.errors
+          details: error.issues
         } as ApiResponse);
         return;
       }
@@ -596,6 +582,65 @@ export class WorkflowController {
     }
   }
 
+  /**
+   * Advance workflow instance to its next stage
+   */
+  static async advanceWorkflow(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId || !req.user) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification and authentication required'
+        } as ApiResponse);
+        return;
+      }
+
+      const { instanceId } = req.params;
+      const body = advanceWorkflowSchema.parse(req.body);
+
+      const instance = await WorkflowEngine.transition(req.tenantId, instanceId, {
+        toStage: body.nextStage,
+        userId: req.user.userId,
+        notes: body.notes,
+        stageData: body.stageData,
+        assignedTo: body.assignedTo
+      });
+
+      const response: ApiResponse<typeof instance> = {
+        success: true,
+        data: instance,
+        message: `Workflow moved to ${instance.currentStage}`
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Advance workflow error:', error);
+
+      if (error instanceof WorkflowTransitionError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          details: error.details
+        } as ApiResponse);
+        return;
+      }
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to advance workflow'
+      } as ApiResponse);
+    }
+  }
+
   /**
    * Get workflow statistics
    */
@@ -667,7 +712,7 @@ export class WorkflowController {
   }
 
   // Helper methods
-  private static validateWorkflowStages(stages: any[]): { valid: boolean; errors: string[] } {
+  private static async validateWorkflowStages(stages: any[]): Promise<{ valid: boolean; errors: string[] }> {
     const errors: string[] = [];
 
     // Check for start stage
@@ -698,6 +743,23 @@ export class WorkflowController {
       }
     }
 
+    // Webhook actions must target public addresses (checked again when sent)
+    for (const stage of stages) {
+      for (const action of stage.actions || []) {
+        if (action.type !== 'webhook') continue;
+        if (typeof action.config?.url !== 'string' || !action.config.url) {
+          errors.push(`Stage "${stage.id}" has a webhook action without a url`);
+          continue;
+        }
+        try {
+          await assertPublicUrl(action.config.url);
+        } catch (error) {
+          if (!(error instanceof OutboundUrlError)) throw error;
+          errors.push(`Stage "${stage.id}" webhook url is not allowed: ${error.message}`);
+        }
+      }
+    }
+
     return { valid: errors.length === 0, errors };
   }
 }
\ No newline at end of file
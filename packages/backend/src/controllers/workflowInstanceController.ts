@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { getTenantDb } from '../lib/database';
+import { dispatchWebhook } from '../lib/webhooks';
+import { recordAudit, recordWorkflowStageChange, getAuditContext } from '../lib/audit';
+import { WorkflowEngine, WorkflowTransitionError } from '../services/workflowEngine';
 import {
   ApiResponse,
   PaginationParams
@@ -12,13 +15,13 @@ const createWorkflowInstanceSchema = z.object({
   entityType: z.string().min(1).max(50),
   entityId: z.string().uuid(),
   currentStage: z.string().min(1).max(100),
-  stageData: z.record(z.any()).optional(),
+  stageData: z.record(z.string(), z.any()).optional(),
   assignedTo: z.string().uuid().optional()
 });
 
 const updateWorkflowInstanceSchema = z.object({
   currentStage: z.string().min(1).max(100),
-  stageData: z.record(z.any()).optional(),
+  stageData: z.record(z.string(), z.any()).optional(),
   assignedTo: z.string().uuid().optional(),
   notes: z.string().optional(),
   status: z.enum(['in_progress', 'completed', 'cancelled']).optional()
@@ -31,7 +34,20 @@ const paginationSchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).optional(),
   entityType: z.string().optional(),
   status: z.enum(['in_progress', 'completed', 'cancelled']).optional(),
-  assignedTo: z.string().uuid().optional()
+  assignedTo: z.string().uuid().optional(),
+  overdue: z.string().transform((val) => val === 'true').optional()
+});
+
+const slaBreachReportSchema = z.object({
+  page: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1)).optional(),
+  limit: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().min(1).max(100)).optional(),
+  dateFrom: z.string().pipe(z.coerce.date()).optional(),
+  dateTo: z.string().pipe(z.coerce.date()).optional(),
+  workflowId: z.string().uuid().optional(),
+  stage: z.string().optional(),
+  assignedTo: z.string().uuid().optional(),
+  state: z.enum(['open', 'resolved', 'all']).optional(),
+  level: z.enum(['breached', 'escalated']).optional()
 });
 
 export class WorkflowInstanceController {
@@ -56,6 +72,10 @@ export class WorkflowInstanceController {
       if (query.entityType) where.entityType = query.entityType;
       if (query.status) where.status = query.status;
       if (query.assignedTo) where.assignedTo = query.assignedTo;
+      if (query.overdue) {
+        where.status = 'in_progress';
+        where.slaBreaches = { some: { resolvedAt: null } };
+      }
 
       // Pagination
       const page = query.page || 1;
@@ -89,6 +109,17 @@ export class WorkflowInstanceController {
                 lastName: true,
                 email: true
               }
+            },
+            slaBreaches: {
+              where: { resolvedAt: null },
+              select: {
+                breachId: true,
+                stage: true,
+                dueAt: true,
+                level: true,
+                breachedAt: true,
+                escalatedAt: true
+              }
             }
           },
           skip,
@@ -117,7 +148,7 @@ export class WorkflowInstanceController {
         res.status(400).json({
           success: false,
           error: 'Invalid query parameters',
-          details: error.errors
+          details: error.issues
         } as ApiResponse);
         return;
       }
@@ -129,6 +160,151 @@ export class WorkflowInstanceController {
     }
   }
 
+  /**
+   * Get SLA breach report
+   */
+  static async getSlaBreachReport(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenantId) {
+        res.status(400).json({
+          success: false,
+          error: 'Tenant identification required'
+        } as ApiResponse);
+        return;
+      }
+
+      const query = slaBreachReportSchema.parse(req.query);
+      const tenantDb = await getTenantDb(req.tenantId);
+
+      // Build where clause
+      const where: any = {};
+      if (query.workflowId) where.workflowId = query.workflowId;
+      if (query.stage) where.stage = query.stage;
+      if (query.assignedTo) where.assignedTo = query.assignedTo;
+      if (query.level) where.level = query.level;
+      if (query.state === 'open') where.resolvedAt = null;
+      if (query.state === 'resolved') where.resolvedAt = { not: null };
+      if (query.dateFrom || query.dateTo) {
+        where.breachedAt = {};
+        if (query.dateFrom) where.breachedAt.gte = query.dateFrom;
+        if (query.dateTo) where.breachedAt.lte = query.dateTo;
+      }
+
+      const page = query.page || 1;
+      const limit = query.limit || 20;
+      const skip = (page - 1) * limit;
+
+      const [breaches, total, allBreaches] = await Promise.all([
+        tenantDb.workflowSlaBreach.findMany({
+          where,
+          include: {
+            instance: {
+              select: {
+                instanceId: true,
+                entityType: true,
+                entityId: true,
+                currentStage: true,
+                status: true,
+                workflow: {
+                  select: {
+                    workflowId: true,
+                    workflowName: true
+                  }
+                },
+                assignee: {
+                  select: {
+                    userId: true,
+                    firstName: true,
+                    lastName: true,
+                    email: true
+                  }
+                }
+              }
+            }
+          },
+          skip,
+          take: limit,
+          orderBy: { breachedAt: 'desc' }
+        }),
+        tenantDb.workflowSlaBreach.count({ where }),
+        tenantDb.workflowSlaBreach.findMany({
+          where,
+          select: {
+            workflowId: true,
+            stage: true,
+            level: true,
+            dueAt: true,
+            resolvedAt: true
+          }
+        })
+      ]);
+
+      // Hours past the due time, up to resolution (or now for open breaches)
+      const now = Date.now();
+      const overdueHours = (breach: { dueAt: Date; resolvedAt: Date | null }) =>
+        Math.max(0, ((breach.resolvedAt?.getTime() ?? now) - breach.dueAt.getTime()) / (60 * 60 * 1000));
+      const round = (value: number) => Math.round(value * 10) / 10;
+
+      const groupBy = (key: 'stage' | 'workflowId') => {
+        const groups: Record<string, { count: number; open: number; escalated: number; totalOverdueHours: number }> = {};
+        for (const breach of allBreaches) {
+          const group = groups[breach[key] || 'unknown'] ||= { count: 0, open: 0, escalated: 0, totalOverdueHours: 0 };
+          group.count++;
+          if (!breach.resolvedAt) group.open++;
+          if (breach.level === 'escalated') group.escalated++;
+          group.totalOverdueHours += overdueHours(breach);
+        }
+        return Object.entries(groups).map(([value, group]) => ({
+          [key]: value,
+          count: group.count,
+          open: group.open,
+          escalated: group.escalated,
+          averageOverdueHours: round(group.totalOverdueHours / group.count)
+        }));
+      };
+
+      const totalOverdueHours = allBreaches.reduce((sum, breach) => sum + overdueHours(breach), 0);
+
+      res.json({
+        success: true,
+        data: {
+          summary: {
+            total: allBreaches.length,
+            open: allBreaches.filter(breach => !breach.resolvedAt).length,
+            resolved: allBreaches.filter(breach => breach.resolvedAt).length,
+            escalated: allBreaches.filter(breach => breach.level === 'escalated').length,
+            averageOverdueHours: allBreaches.length > 0 ? round(totalOverdueHours / allBreaches.length) : 0,
+            byStage: groupBy('stage'),
+            byWorkflow: groupBy('workflowId')
+          },
+          breaches
+        },
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      } as ApiResponse);
+    } catch (error) {
+      console.error('Get SLA breach report error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.issues
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get SLA breach report'
+      } as ApiResponse);
+    }
+  }
+
   /**
    * Get workflow instance by ID
    */
@@ -275,7 +451,7 @@ export class WorkflowInstanceController {
         res.status(400).json({
           success: false,
           error: 'Invalid request data',
-          details: error.errors
+          details: error.issues
         } as ApiResponse);
         return;
       }
@@ -306,7 +482,8 @@ export class WorkflowInstanceController {
 
       // Get existing workflow instance
       const existingInstance = await tenantDb.workflowInstance.findUnique({
-        where: { instanceId }
+        where: { instanceId },
+        include: { workflow: true }
       });
 
       if (!existingInstance) {
@@ -332,6 +509,28 @@ export class WorkflowInstanceController {
         }
       }
 
+      // Definition-driven workflows transition through the engine (rules, required fields, actions)
+      if (
+        body.currentStage !== existingInstance.currentStage &&
+        body.status !== 'cancelled' &&
+        WorkflowEngine.isEngineManaged(existingInstance.workflow, existingInstance.currentStage)
+      ) {
+        const transitionedInstance = await WorkflowEngine.transition(req.tenantId, instanceId, {
+          toStage: body.currentStage,
+          userId: req.user?.userId,
+          notes: body.notes,
+          stageData: body.stageData,
+          assignedTo: body.assignedTo
+        });
+
+        res.json({
+          success: true,
+          data: transitionedInstance,
+          message: 'Workflow instance updated successfully'
+        } as ApiResponse);
+        return;
+      }
+
       // Prepare stage history update
       const newHistoryEntry = {
         stage: body.currentStage,
@@ -355,7 +554,7 @@ export class WorkflowInstanceController {
         where: { instanceId },
         data: {
           currentStage: body.currentStage,
-          stageData: body.stageData ? { ...existingInstance.stageData, ...body.stageData } : existingInstance.stageData,
+          stageData: body.stageData ? { ...(existingInstance.stageData as Record<string, any>), ...body.stageData } : existingInstance.stageData,
           stageHistory: updatedStageHistory,
           status: isCompleted ? 'completed' : (body.status || existingInstance.status),
           assignedTo: body.assignedTo,
@@ -375,6 +574,30 @@ export class WorkflowInstanceController {
         }
       });
 
+      if (updatedInstance.currentStage !== existingInstance.currentStage) {
+        dispatchWebhook(req.tenantId, 'workflow.stage_changed', {
+          instanceId,
+          workflowType: updatedInstance.workflow?.workflowType,
+          entityType: updatedInstance.entityType,
+          entityId: updatedInstance.entityId,
+          previousStage: existingInstance.currentStage,
+          stage: updatedInstance.currentStage,
+          status: updatedInstance.status,
+          updatedBy: req.user?.userId || 'system'
+        });
+
+        await recordWorkflowStageChange(tenantDb, getAuditContext(req), {
+          instanceId,
+          workflowType: updatedInstance.workflow?.workflowType,
+          entityType: updatedInstance.entityType,
+          entityId: updatedInstance.entityId,
+          previousStage: existingInstance.currentStage,
+          stage: updatedInstance.currentStage,
+          status: updatedInstance.status,
+          notes: body.notes
+        });
+      }
+
       const response: ApiResponse<typeof updatedInstance> = {
         success: true,
         data: updatedInstance,
@@ -384,12 +607,21 @@ export class WorkflowInstanceController {
       res.json(response);
     } catch (error) {
       console.error('Update workflow instance error:', error);
+
+      if (error instanceof WorkflowTransitionError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          details: error.details
+        } as ApiResponse);
+        return;
+      }
       
       if (error instanceof z.ZodError) {
         res.status(400).json({
           success: false,
           error: 'Invalid request data',
-          details: error.errors
+          details: error.issues
         } as ApiResponse);
         return;
       }
@@ -431,7 +663,7 @@ export class WorkflowInstanceController {
       }
 
       // Soft delete by setting status to cancelled
-      await tenantDb.workflowInstance.update({
+      const cancelledInstance = await tenantDb.workflowInstance.update({
         where: { instanceId },
         data: { 
           status: 'cancelled',
@@ -439,6 +671,20 @@ export class WorkflowInstanceController {
         }
       });
 
+      await recordAudit(tenantDb, {
+        ...getAuditContext(req),
+        entityType: 'workflow_instance',
+        entityId: instanceId,
+        verb: 'status_changed',
+        before: { status: existingInstance.status },
+        after: { status: cancelledInstance.status },
+        details: {
+          entityType: existingInstance.entityType,
+          entityId: existingInstance.entityId,
+          ...(['vehicle', 'product'].includes(existingInstance.entityType) && { vehicleId: existingInstance.entityId })
+        }
+      });
+
       const response: ApiResponse = {
         success: true,
         message: 'Workflow instance cancelled successfully'
@@ -552,6 +798,7 @@ export class WorkflowInstanceController {
           }
         }
       });
+      const previousStage = workflowInstance?.currentStage || null;
 
       if (!workflowInstance) {
         // Create new workflow instance
@@ -605,6 +852,30 @@ export class WorkflowInstanceController {
         });
       }
 
+      if (previousStage !== workflowInstance.currentStage) {
+        dispatchWebhook(req.tenantId, 'workflow.stage_changed', {
+          instanceId: workflowInstance.instanceId,
+          workflowType,
+          entityType: workflowInstance.entityType,
+          entityId: workflowInstance.entityId,
+          previousStage,
+          stage: workflowInstance.currentStage,
+          status: workflowInstance.status,
+          updatedBy: req.user?.userId || 'system'
+        });
+
+        await recordWorkflowStageChange(tenantDb, getAuditContext(req), {
+          instanceId: workflowInstance.instanceId,
+          workflowType,
+          entityType: workflowInstance.entityType,
+          entityId: workflowInstance.entityId,
+          previousStage,
+          stage: workflowInstance.currentStage,
+          status: workflowInstance.status,
+          notes
+        });
+      }
+
       const response: ApiResponse<typeof workflowInstance> = {
         success: true,
         data: workflowInstance,
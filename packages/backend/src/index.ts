@@ -14,6 +14,16 @@ import { initializeSocket } from './lib/socket';
 import { SecurityManager } from './lib/security';
 import { PerformanceOptimizer } from './lib/performance';
 import { MonitoringService } from './lib/monitoring';
+import { ReportScheduler } from './lib/reportScheduler';
+import { WorkflowSlaMonitor } from './services/workflowSla';
+import { WebhookDispatcher } from './lib/webhooks';
+import { MediaCleanupJob } from './services/mediaCleanup';
+import { CallFollowUpReminderJob } from './services/callFollowUps';
+import { PaymentReminderJob } from './services/paymentReminders';
+import { TenantMigrations } from './lib/tenantMigrations';
+import { TenantBackups } from './lib/tenantBackups';
+import { AlertManager } from './lib/alerts';
+import { MetricsRollup } from './lib/metricsRollup';
 
 // Import routes
 import { healthRoutes } from './routes/health';
@@ -26,7 +36,13 @@ import { roleRoutes } from './routes/roles';
 import { configRoutes } from './routes/config';
 import { vehicleRoutes } from './routes/vehicles';
 import { workflowRoutes } from './routes/workflows';
+import { webhookRoutes } from './routes/webhooks';
 import { mediaRoutes } from './routes/media';
+import { serviceJobRoutes } from './routes/serviceJobs';
+import { callFollowUpRoutes } from './routes/callFollowUps';
+import { customerRequirementRoutes } from './routes/customerRequirements';
+import { invoiceRoutes } from './routes/invoices';
+import { auditRoutes } from './routes/audit';
 import { notificationRoutes } from './routes/notifications';
 import { dashboardRoutes } from './routes/dashboard';
 import { reportsRoutes } from './routes/reports';
@@ -100,7 +116,8 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Tenant-ID', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Tenant-ID', 'X-Requested-With'],
+  exposedHeaders: ['X-Tenant-Redirect']
 }));
 
 // Body parsing middleware
@@ -214,7 +231,13 @@ app.use('/api/roles', tenantConnectionMiddleware, roleRoutes);
 app.use('/api/config', tenantConnectionMiddleware, configRoutes);
 app.use('/api/vehicles', tenantConnectionMiddleware, vehicleRoutes);
 app.use('/api/workflows', tenantConnectionMiddleware, workflowRoutes);
+app.use('/api/webhooks', tenantConnectionMiddleware, webhookRoutes);
 app.use('/api/media', tenantConnectionMiddleware, mediaRoutes);
+app.use('/api/service-jobs', tenantConnectionMiddleware, serviceJobRoutes);
+app.use('/api/call-follow-ups', tenantConnectionMiddleware, callFollowUpRoutes);
+app.use('/api/customer-requirements', tenantConnectionMiddleware, customerRequirementRoutes);
+app.use('/api/invoices', tenantConnectionMiddleware, invoiceRoutes);
+app.use('/api/audit-logs', tenantConnectionMiddleware, auditRoutes);
 app.use('/api/notifications', tenantConnectionMiddleware, notificationRoutes);
 app.use('/api/dashboard', tenantConnectionMiddleware, dashboardRoutes);
 app.use('/api/reports', tenantConnectionMiddleware, reportsRoutes);
@@ -248,6 +271,18 @@ app.use(errorHandler);
 // Initialize Socket.io
 const socketManager = initializeSocket(httpServer);
 
+// Start background jobs
+ReportScheduler.initialize();
+WorkflowSlaMonitor.initialize();
+WebhookDispatcher.initialize();
+MediaCleanupJob.initialize();
+CallFollowUpReminderJob.initialize();
+PaymentReminderJob.initialize();
+TenantMigrations.initialize();
+TenantBackups.initialize();
+AlertManager.initialize();
+MetricsRollup.initialize();
+
 // Start server
 const server = httpServer.listen(config.port, () => {
   logger.info(`🚀 OMSMS Backend Server started`);
@@ -270,6 +305,15 @@ const server = httpServer.listen(config.port, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received. Shutting down gracefully...');
+  ReportScheduler.stop();
+  WorkflowSlaMonitor.stop();
+  WebhookDispatcher.stop();
+  MediaCleanupJob.stop();
+  CallFollowUpReminderJob.stop();
+  PaymentReminderJob.stop();
+  TenantBackups.stop();
+  AlertManager.stop();
+  MetricsRollup.stop();
   server.close(() => {
     logger.info('Process terminated');
     process.exit(0);
@@ -278,6 +322,15 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received. Shutting down gracefully...');
+  ReportScheduler.stop();
+  WorkflowSlaMonitor.stop();
+  WebhookDispatcher.stop();
+  MediaCleanupJob.stop();
+  CallFollowUpReminderJob.stop();
+  PaymentReminderJob.stop();
+  TenantBackups.stop();
+  AlertManager.stop();
+  MetricsRollup.stop();
   server.close(() => {
     logger.info('Process terminated');
     process.exit(0);
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import type { ScheduledReport, ScheduledReportRun } from '../../../packages/database/generated/tenant-client';
+import { ReportScheduler } from '../reportScheduler';
+import { ReportGenerator } from '../reportGenerator';
+import { MailManager, setMailManager } from '../mailer';
+import { getTenantDb } from '../database';
+import { createTenantDb, TenantDb } from '../../__tests__/helpers/tenantDb';
+
+jest.mock('../database', () => ({ masterDb: {}, getTenantDb: jest.fn() }));
+jest.mock('../reportGenerator', () => ({ ReportGenerator: { generateReport: jest.fn() } }));
+jest.mock('../logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+/**
+ * Just enough of an SMTP server to accept messages on localhost
+ */
+function startSmtpServer(): Promise<{ server: net.Server; port: number; received: ReceivedMail[] }> {
+  const received: ReceivedMail[] = [];
+
+  const server = net.createServer(socket => {
+    let buffered = '';
+    let mail: ReceivedMail = { from: '', to: [], data: '' };
+    let inData = false;
+
+    socket.write('220 localhost ESMTP test\r\n');
+    socket.on('data', chunk => {
+      buffered += chunk.toString('utf8');
+
+      while (buffered) {
+        if (inData) {
+          const end = buffered.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          mail.data = buffered.slice(0, end);
+          buffered = buffered.slice(end + 5);
+          inData = false;
+          received.push(mail);
+          mail = { from: '', to: [], data: '' };
+          socket.write('250 OK queued\r\n');
+          continue;
+        }
+
+        const newline = buffered.indexOf('\r\n');
+        if (newline === -1) return;
+        const line = buffered.slice(0, newline);
+        buffered = buffered.slice(newline + 2);
+        const command = line.slice(0, 4).toUpperCase();
+
+        if (command === 'MAIL') mail.from = line.replace(/^MAIL FROM:\s*<([^>]*)>.*$/i, '$1');
+        if (command === 'RCPT') mail.to.push(line.replace(/^RCPT TO:\s*<([^>]*)>.*$/i, '$1'));
+
+        if (command === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port, received });
+    });
+  });
+}
+
+describe('ReportScheduler delivery through SMTP', () => {
+  let smtp: Awaited<ReturnType<typeof startSmtpServer>>;
+  let reportDir: string;
+  let db: TenantDb;
+
+  beforeAll(async () => {
+    smtp = await startSmtpServer();
+    setMailManager(new MailManager({
+      provider: 'smtp',
+      from: 'OMSMS Reports <reports@omsms.test>',
+      smtp: { host: '127.0.0.1', port: smtp.port, secure: false }
+    }));
+  });
+
+  afterAll(async () => {
+    setMailManager(null);
+    await new Promise(resolve => smtp.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    smtp.received.length = 0;
+    reportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'omsms-reports-'));
+    db = createTenantDb();
+    (getTenantDb as jest.Mock).mockResolvedValue(db.client);
+
+    (ReportGenerator.generateReport as jest.Mock).mockImplementation(async () => {
+      const fileName = 'sales_summary.csv';
+      const filePath = path.join(reportDir, fileName);
+      fs.writeFileSync(filePath, 'Car Number,Amount\nKA01AB1234,125000.50\n');
+      return { filePath, fileName };
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(reportDir, { recursive: true, force: true });
+  });
+
+  it('emails a due report with its file to every recipient and records the run', async () => {
+    const now = new Date('2026-03-02T09:00:00Z');
+    const report = db.seed<ScheduledReport>('scheduledReport', {
+      name: 'Weekly sales',
+      reportConfig: { type: 'sales_summary', format: 'csv' },
+      frequency: 'weekly',
+      dayOfWeek: 1,
+      timeOfDay: '08:00',
+      recipients: ['owner@example.com', 'manager@example.com'],
+      nextRunAt: new Date('2026-03-02T02:30:00Z') // 08:00 in the default Asia/Kolkata
+    });
+
+    await ReportScheduler.runDueReports('demo', now);
+
+    expect(smtp.received).toHaveLength(1);
+    const [mail] = smtp.received;
+    expect(mail.from).toBe('reports@omsms.test');
+    expect(mail.to).toEqual(['owner@example.com', 'manager@example.com']);
+    expect(mail.data).toContain('Subject: Weekly sales (2026-02-23 - 2026-03-02)');
+    expect(mail.data).toContain('filename=sales_summary.csv');
+    expect(mail.data).toContain(Buffer.from('Car Number,Amount\nKA01AB1234,125000.50\n').toString('base64'));
+
+    const [run] = db.rows<ScheduledReportRun>('scheduledReportRun');
+    expect(run).toMatchObject({ status: 'success', fileName: 'sales_summary.csv', trigger: 'schedule' });
+    expect(run.messageId).toBeTruthy();
+    expect(report).toMatchObject({ lastRunStatus: 'success', nextRunAt: new Date('2026-03-09T02:30:00Z') });
+
+    // Delivered reports are not kept on disk
+    expect(fs.readdirSync(reportDir)).toEqual([]);
+  });
+
+  it('records a failed run and sends nothing when there are no recipients', async () => {
+    const report = db.seed<ScheduledReport>('scheduledReport', {
+      name: 'Daily sales',
+      frequency: 'daily',
+      timeOfDay: '08:00',
+      recipients: [],
+      nextRunAt: new Date('2026-03-02T08:00:00Z')
+    });
+
+    const run = await ReportScheduler.executeReport('demo', report, 'manual');
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('At least one recipient is required');
+    expect(smtp.received).toHaveLength(0);
+    expect(fs.readdirSync(reportDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+import type { RefreshToken, UserSession } from '../../../packages/database/generated/tenant-client';
+import { SessionService } from '../sessions';
+import { AuthService, JWTPayload } from '../auth';
+import { getTenantDb } from '../database';
+import { createTenantDb, TenantDb } from '../../__tests__/helpers/tenantDb';
+
+jest.mock('../database', () => ({ getTenantDb: jest.fn() }));
+jest.mock('../logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+
+const payload: JWTPayload = {
+  userId: 'user-1',
+  email: 'owner@example.com',
+  role: 'admin' as JWTPayload['role'],
+  roleId: 'role-1',
+  roleName: 'admin',
+  tenantId: 'demo',
+  permissions: {}
+};
+
+const context = { ipAddress: '127.0.0.1', userAgent: 'jest' };
+const buildPayload = async () => payload;
+
+describe('SessionService', () => {
+  let db: TenantDb;
+
+  const sessions = () => db.rows<UserSession>('userSession');
+  const sessionIdOf = (accessToken: string) => AuthService.verifyToken(accessToken).sessionId!;
+
+  beforeEach(() => {
+    db = createTenantDb();
+    (getTenantDb as jest.Mock).mockResolvedValue(db.client);
+  });
+
+  it('rotates a refresh token into a new pair for the same session', async () => {
+    const tokens = await SessionService.createSession(db.client, payload, context);
+
+    const outcome = await SessionService.refresh(db.client, tokens.refreshToken, context, buildPayload);
+
+    expect(outcome.status).toBe('rotated');
+    if (outcome.status !== 'rotated') return;
+    expect(outcome.tokens.refreshToken).not.toBe(tokens.refreshToken);
+    expect(outcome.sessionId).toBe(sessionIdOf(tokens.accessToken));
+    const rotated = db.rows<RefreshToken>('refreshToken').find(row => row.tokenHash === AuthService.hashToken(tokens.refreshToken));
+    expect(rotated?.rotatedAt).toBeInstanceOf(Date);
+  });
+
+  it('revokes the session when a rotated token is presented again', async () => {
+    const tokens = await SessionService.createSession(db.client, payload, context);
+    const rotated = await SessionService.refresh(db.client, tokens.refreshToken, context, buildPayload);
+
+    const reuse = await SessionService.refresh(db.client, tokens.refreshToken, context, buildPayload);
+
+    expect(reuse.status).toBe('reused');
+    expect(sessions()[0].revokedReason).toBe('token_reuse');
+
+    // The legitimate holder's newer token dies with the session
+    if (rotated.status !== 'rotated') throw new Error('expected a rotated token');
+    const next = await SessionService.refresh(db.client, rotated.tokens.refreshToken, context, buildPayload);
+    expect(next.status).toBe('revoked');
+  });
+
+  it('treats two concurrent refreshes with one token as reuse', async () => {
+    const tokens = await SessionService.createSession(db.client, payload, context);
+
+    const outcomes = await Promise.all([
+      SessionService.refresh(db.client, tokens.refreshToken, context, buildPayload),
+      SessionService.refresh(db.client, tokens.refreshToken, context, buildPayload)
+    ]);
+
+    expect(outcomes.map(outcome => outcome.status).sort()).toEqual(['reused', 'rotated']);
+    expect(sessions()[0].revokedAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects unknown refresh tokens without touching sessions', async () => {
+    await SessionService.createSession(db.client, payload, context);
+
+    const outcome = await SessionService.refresh(db.client, 'not-a-token', context, buildPayload);
+
+    expect(outcome.status).toBe('invalid');
+    expect(sessions()[0].revokedAt).toBeNull();
+  });
+
+  it('stops accepting a session\'s access tokens once it is revoked', async () => {
+    const tokens = await SessionService.createSession(db.client, payload, context);
+    const sessionId = sessionIdOf(tokens.accessToken);
+
+    expect(await SessionService.isSessionActive('demo', sessionId)).toBe(true);
+    await SessionService.revokeSession(db.client, sessionId, 'logout');
+    expect(await SessionService.isSessionActive('demo', sessionId)).toBe(false);
+  });
+
+  it('drops expired session statuses from its cache', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    try {
+      const first = sessionIdOf((await SessionService.createSession(db.client, payload, context)).accessToken);
+      await SessionService.isSessionActive('demo', first);
+
+      jest.setSystemTime(Date.now() + 31 * 1000);
+      const second = sessionIdOf((await SessionService.createSession(db.client, payload, context)).accessToken);
+      await SessionService.isSessionActive('demo', second);
+
+      expect(SessionService['statusCache'].has(first)).toBe(false);
+      expect(SessionService['statusCache'].has(second)).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,230 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { S3StorageProvider } from '../storage';
+
+interface StoredBody {
+  body: Buffer;
+  contentType?: string;
+  metadata: Record<string, string>;
+  lastModified: Date;
+}
+
+const PAGE_SIZE = 2;
+
+/**
+ * Decode an aws-chunked body: `<hex size>;chunk-signature=...\r\n<data>\r\n` ... `0\r\n<trailers>`
+ */
+function decodeAwsChunked(raw: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  for (;;) {
+    const lineEnd = raw.indexOf('\r\n', offset);
+    const size = parseInt(raw.subarray(offset, lineEnd).toString().split(';')[0], 16);
+    if (!size) return Buffer.concat(chunks);
+    chunks.push(raw.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+}
+
+const escapeXml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Just enough of a path-style S3 endpoint (what MinIO serves) for one bucket
+ */
+function startS3Server(bucket: string): Promise<{ server: http.Server; endpoint: string; objects: Map<string, StoredBody> }> {
+  const objects = new Map<string, StoredBody>();
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url!, 'http://localhost');
+      const [, requestedBucket, ...keyParts] = url.pathname.split('/');
+      const key = decodeURIComponent(keyParts.join('/'));
+
+      if (requestedBucket !== bucket) {
+        res.writeHead(404, { 'content-type': 'application/xml' });
+        res.end('<Error><Code>NoSuchBucket</Code></Error>');
+        return;
+      }
+      if (!req.headers.authorization && !url.searchParams.has('X-Amz-Signature')) {
+        res.writeHead(403, { 'content-type': 'application/xml' });
+        res.end('<Error><Code>AccessDenied</Code></Error>');
+        return;
+      }
+
+      if (req.method === 'GET' && !key) {
+        const prefix = url.searchParams.get('prefix') || '';
+        const keys = [...objects.keys()].filter(name => name.startsWith(prefix)).sort();
+        const start = Number(url.searchParams.get('continuation-token') || 0);
+        const page = keys.slice(start, start + PAGE_SIZE);
+        const truncated = start + PAGE_SIZE < keys.length;
+        res.writeHead(200, { 'content-type': 'application/xml' });
+        res.end(
+          `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${bucket}</Name>` +
+          `<Prefix>${escapeXml(prefix)}</Prefix><KeyCount>${page.length}</KeyCount><IsTruncated>${truncated}</IsTruncated>` +
+          (truncated ? `<NextContinuationToken>${start + PAGE_SIZE}</NextContinuationToken>` : '') +
+          page.map(name => `<Contents><Key>${escapeXml(name)}</Key><Size>${objects.get(name)!.body.length}</Size>` +
+            `<LastModified>${objects.get(name)!.lastModified.toISOString()}</LastModified></Contents>`).join('') +
+          '</ListBucketResult>'
+        );
+        return;
+      }
+
+      const object = objects.get(key);
+      switch (req.method) {
+        case 'PUT': {
+          const raw = Buffer.concat(chunks);
+          const chunked = String(req.headers['x-amz-content-sha256'] || '').startsWith('STREAMING-')
+            || String(req.headers['content-encoding'] || '').includes('aws-chunked');
+          const metadata: Record<string, string> = {};
+          for (const [header, value] of Object.entries(req.headers)) {
+            if (header.startsWith('x-amz-meta-')) metadata[header.slice('x-amz-meta-'.length)] = String(value);
+          }
+          objects.set(key, {
+            body: chunked ? decodeAwsChunked(raw) : raw,
+            contentType: req.headers['content-type'],
+            metadata,
+            lastModified: new Date()
+          });
+          res.writeHead(200, { etag: '"etag"' });
+          res.end();
+          return;
+        }
+        case 'DELETE':
+          objects.delete(key);
+          res.writeHead(204);
+          res.end();
+          return;
+        case 'HEAD':
+        case 'GET':
+          if (!object) {
+            res.writeHead(404, { 'content-type': 'application/xml' });
+            res.end(req.method === 'GET' ? '<Error><Code>NoSuchKey</Code></Error>' : undefined);
+            return;
+          }
+          res.writeHead(200, {
+            'content-type': object.contentType || 'application/octet-stream',
+            'content-length': object.body.length,
+            'last-modified': object.lastModified.toUTCString()
+          });
+          res.end(req.method === 'GET' ? object.body : undefined);
+          return;
+      }
+      res.writeHead(405);
+      res.end();
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, endpoint: `http://127.0.0.1:${port}`, objects });
+    });
+  });
+}
+
+describe('S3StorageProvider against an S3-compatible endpoint', () => {
+  let s3: Awaited<ReturnType<typeof startS3Server>>;
+  let provider: S3StorageProvider;
+
+  beforeAll(async () => {
+    s3 = await startS3Server('omsms-media');
+    provider = new S3StorageProvider({
+      region: 'us-east-1',
+      bucket: 'omsms-media',
+      accessKeyId: 'minioadmin',
+      secretAccessKey: 'minioadmin',
+      endpoint: s3.endpoint,
+      forcePathStyle: true
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => s3.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    s3.objects.clear();
+  });
+
+  it('uploads a buffer under its key and serves it from the endpoint URL', async () => {
+    const body = Buffer.from('%PDF-1.4 invoice');
+
+    const result = await provider.upload({
+      originalName: 'Invoice #12.pdf',
+      fileName: 'invoice-12.pdf',
+      mimeType: 'application/pdf',
+      size: body.length,
+      buffer: body
+    }, 'demo/invoices/invoice-12.pdf');
+
+    expect(result).toEqual({
+      fileName: 'invoice-12.pdf',
+      filePath: 'demo/invoices/invoice-12.pdf',
+      url: `${s3.endpoint}/omsms-media/demo/invoices/invoice-12.pdf`,
+      size: body.length
+    });
+    const stored = s3.objects.get('demo/invoices/invoice-12.pdf')!;
+    expect(stored.body).toEqual(body);
+    expect(stored.contentType).toBe('application/pdf');
+    expect(stored.metadata.originalname).toBe(encodeURIComponent('Invoice #12.pdf'));
+  });
+
+  it('uploads a stream with its full content', async () => {
+    const body = Buffer.from('front,rear\n1,2\n');
+
+    await provider.upload({
+      originalName: 'photos.csv',
+      fileName: 'photos.csv',
+      mimeType: 'text/csv',
+      size: body.length,
+      stream: Readable.from([body.subarray(0, 5), body.subarray(5)])
+    }, 'demo/photos.csv');
+
+    expect(s3.objects.get('demo/photos.csv')!.body).toEqual(body);
+  });
+
+  it('reports whether an object exists and deletes it', async () => {
+    await provider.upload({ originalName: 'a.jpg', fileName: 'a.jpg', mimeType: 'image/jpeg', size: 1, buffer: Buffer.from('a') }, 'demo/a.jpg');
+
+    expect(await provider.exists('demo/a.jpg')).toBe(true);
+    await provider.delete('demo/a.jpg');
+    expect(await provider.exists('demo/a.jpg')).toBe(false);
+
+    // Deleting again is not an error
+    await expect(provider.delete('demo/a.jpg')).resolves.toBeUndefined();
+  });
+
+  it('lists every object under a prefix across pages', async () => {
+    for (const name of ['demo/1.jpg', 'demo/2.jpg', 'demo/3.jpg', 'demo/4.jpg', 'demo/5.jpg', 'other/1.jpg']) {
+      await provider.upload({ originalName: name, fileName: name, mimeType: 'image/jpeg', size: 3, buffer: Buffer.from('jpg') }, name);
+    }
+
+    const listed = await provider.list('demo/');
+
+    expect(listed.map(object => object.filePath)).toEqual(['demo/1.jpg', 'demo/2.jpg', 'demo/3.jpg', 'demo/4.jpg', 'demo/5.jpg']);
+    expect(listed.every(object => object.size === 3 && object.lastModified instanceof Date)).toBe(true);
+  });
+
+  it('downloads the bytes of a stored object', async () => {
+    const body = Buffer.from([0x1f, 0x8b, 0x08, 0x00, 0xff]);
+    await provider.upload({ originalName: 'backup.gz', fileName: 'backup.gz', mimeType: 'application/gzip', size: body.length, buffer: body }, 'backups/demo.gz');
+
+    expect(await provider.download('backups/demo.gz')).toEqual(body);
+    await expect(provider.download('backups/missing.gz')).rejects.toMatchObject({ name: 'NoSuchKey' });
+  });
+
+  it('signs URLs that fetch the object without credentials', async () => {
+    await provider.upload({ originalName: 'b.txt', fileName: 'b.txt', mimeType: 'text/plain', size: 5, buffer: Buffer.from('hello') }, 'demo/b.txt');
+
+    const signedUrl = await provider.getSignedUrl('demo/b.txt', 60);
+
+    expect(signedUrl.startsWith(`${s3.endpoint}/omsms-media/demo/b.txt?`)).toBe(true);
+    expect(new URL(signedUrl).searchParams.get('X-Amz-Expires')).toBe('60');
+    const response = await fetch(signedUrl);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('hello');
+  });
+});
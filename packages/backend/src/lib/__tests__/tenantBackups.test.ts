@@ -0,0 +1,183 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TenantBackup } from '../../../packages/database/generated/master-client';
+import { TenantBackups, TenantBackupError } from '../tenantBackups';
+import { masterDb } from '../database';
+import { createTenantDb } from '../../__tests__/helpers/tenantDb';
+
+jest.mock('../database', () => ({
+  masterDb: {
+    tenant: { findUnique: jest.fn() },
+    tenantBackup: { create: jest.fn(), update: jest.fn(), findUnique: jest.fn() }
+  }
+}));
+jest.mock('../tenantMigrations', () => ({
+  TenantMigrations: { getStatus: jest.fn(async () => ({ currentVersion: 3 })), getLatestVersion: () => 3 }
+}));
+jest.mock('../storage', () => ({ createStorageManager: jest.fn() }));
+jest.mock('../logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+
+/**
+ * A tenant database: tables with their columns and rows
+ */
+interface MockDatabase {
+  tables: Map<string, { columns: string[]; rows: Record<string, unknown>[] }>;
+  dropRowsOf?: string; // Inserts into this table lose a row, like a conflicting constraint would
+}
+
+const mockDatabases = new Map<string, MockDatabase>();
+
+// Clients connect to the database registered under their URL
+jest.mock('../../../packages/database/generated/tenant-client', () => ({
+  ...jest.requireActual('../../../packages/database/generated/tenant-client'),
+  PrismaClient: jest.fn((options: { datasources: { db: { url: string } } }) =>
+    createTenantDb({ raw: (sql, params) => mockAnswer(mockDatabases.get(options.datasources.db.url)!, sql, params) }).client
+  )
+}));
+
+/**
+ * Answer the SQL TenantBackups issues
+ */
+function mockAnswer(db: MockDatabase, sql: string, params: unknown[]): unknown {
+  if (sql.includes('information_schema.columns')) {
+    return [...db.tables].sort(([a], [b]) => a.localeCompare(b)).flatMap(([table, { columns }]) =>
+      columns.map(column => ({ table_name: table, column_name: column }))
+    );
+  }
+  if (sql.includes('pg_constraint')) {
+    return [];
+  }
+
+  const batch = sql.match(/FROM "([^"]+)" ORDER BY ctid LIMIT (\d+) OFFSET (\d+)/);
+  if (batch) {
+    const rows = db.tables.get(batch[1])!.rows.slice(Number(batch[3]), Number(batch[3]) + Number(batch[2]));
+    return [{ rows: JSON.stringify(rows), count: rows.length }];
+  }
+
+  const count = sql.match(/SELECT count\(\*\)::int AS count FROM "([^"]+)"/);
+  if (count) {
+    return [{ count: db.tables.get(count[1])!.rows.length }];
+  }
+
+  if (sql.startsWith('TRUNCATE')) {
+    db.tables.forEach(table => { table.rows = []; });
+    return 0;
+  }
+
+  const insert = sql.match(/^INSERT INTO "([^"]+)"/);
+  if (insert) {
+    const rows = JSON.parse(params[0] as string);
+    if (db.dropRowsOf === insert[1]) rows.pop();
+    db.tables.get(insert[1])!.rows.push(...rows);
+    return rows.length;
+  }
+
+  if (sql.includes('CONSTRAINT')) {
+    return 0; // ALTER CONSTRAINT / SET CONSTRAINTS
+  }
+
+  throw new Error(`Unexpected query: ${sql}`);
+}
+
+const SOURCE_URL = 'postgresql://source/tenant_demo';
+const TARGET_URL = 'postgresql://target/tenant_demo';
+
+function createDatabase(withRows: boolean): MockDatabase {
+  const users = [
+    { user_id: 'u1', email: 'owner@example.com', created_at: '2026-01-01T00:00:00' },
+    { user_id: 'u2', email: 'manager@example.com', created_at: '2026-01-02T00:00:00' },
+    { user_id: 'u3', email: 'installer@example.com', created_at: '2026-01-03T00:00:00' }
+  ];
+  const vehicles = [
+    { vehicle_id: 'v1', car_number: 'KA01AB1234', total_amount: '125000.50' },
+    { vehicle_id: 'v2', car_number: 'KA02CD5678', total_amount: '98000.00' }
+  ];
+
+  return {
+    tables: new Map([
+      ['audit_logs', { columns: ['log_id', 'action'], rows: [] }],
+      ['users', { columns: ['user_id', 'email', 'created_at'], rows: withRows ? users : [] }],
+      ['vehicles', { columns: ['vehicle_id', 'car_number', 'total_amount'], rows: withRows ? vehicles : [] }]
+    ])
+  };
+}
+
+describe('TenantBackups backup and restore', () => {
+  let backupRoot: string;
+  const backups = new Map<string, TenantBackup>();
+
+  beforeAll(() => {
+    backupRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'omsms-backups-'));
+    process.env.BACKUP_STORAGE_PROVIDER = 'local';
+    process.env.BACKUP_LOCAL_PATH = backupRoot;
+  });
+
+  afterAll(() => {
+    fs.rmSync(backupRoot, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    backups.clear();
+    mockDatabases.set(SOURCE_URL, createDatabase(true));
+    mockDatabases.set(TARGET_URL, createDatabase(false));
+
+    (masterDb.tenant.findUnique as jest.Mock).mockResolvedValue({
+      tenantId: 'tenant-1',
+      tenantName: 'Demo Motors',
+      subdomain: 'demo',
+      status: 'active',
+      subscriptionTier: 'professional',
+      settings: {},
+      features: {},
+      databaseUrl: SOURCE_URL
+    });
+    (masterDb.tenantBackup.create as jest.Mock).mockImplementation(async ({ data }) => {
+      const backup = { backupId: `backup-${backups.size + 1}`, status: 'running', createdAt: new Date(), ...data };
+      backups.set(backup.backupId, backup);
+      return backup;
+    });
+    (masterDb.tenantBackup.update as jest.Mock).mockImplementation(async ({ where, data }) =>
+      Object.assign(backups.get(where.backupId), data)
+    );
+    (masterDb.tenantBackup.findUnique as jest.Mock).mockImplementation(async ({ where }) =>
+      backups.get(where.backupId) || null
+    );
+  });
+
+  it('restores every row and verifies the counts table by table', async () => {
+    const backup = await TenantBackups.createBackup('tenant-1', { trigger: 'manual' });
+    expect(backup.status).toBe('completed');
+    expect(backup.tableCounts).toEqual({ audit_logs: 0, users: 3, vehicles: 2 });
+
+    const archive = await TenantBackups.readArchive(backup.backupId);
+    const restored = await TenantBackups.restoreIntoDatabase(TARGET_URL, archive);
+
+    expect(restored).toEqual({ audit_logs: 0, users: 3, vehicles: 2 });
+    const source = mockDatabases.get(SOURCE_URL)!;
+    const target = mockDatabases.get(TARGET_URL)!;
+    expect(target.tables.get('users')!.rows).toEqual(source.tables.get('users')!.rows);
+    expect(target.tables.get('vehicles')!.rows).toEqual(source.tables.get('vehicles')!.rows);
+  });
+
+  it('fails the restore when a table ends up with fewer rows than the archive', async () => {
+    const backup = await TenantBackups.createBackup('tenant-1', { trigger: 'manual' });
+    const archive = await TenantBackups.readArchive(backup.backupId);
+    mockDatabases.get(TARGET_URL)!.dropRowsOf = 'vehicles';
+
+    const restore = TenantBackups.restoreIntoDatabase(TARGET_URL, archive);
+
+    await expect(restore).rejects.toBeInstanceOf(TenantBackupError);
+    await expect(restore).rejects.toMatchObject({
+      code: 'RESTORE_VERIFICATION_FAILED',
+      message: 'Restored 1 of 2 rows into vehicles'
+    });
+  });
+
+  it('refuses an archive that does not match its recorded checksum', async () => {
+    const backup = await TenantBackups.createBackup('tenant-1', { trigger: 'manual' });
+    backups.get(backup.backupId)!.checksum = '0'.repeat(64);
+
+    await expect(TenantBackups.readArchive(backup.backupId)).rejects.toMatchObject({ code: 'BACKUP_CORRUPT' });
+  });
+});
@@ -0,0 +1,611 @@
+import crypto from 'crypto';
+import { masterDb, getTenantDb } from './database';
+import { logger } from './logger';
+import { getMailManager } from './mailer';
+import { MonitoringService } from './monitoring';
+import { notifyUsers } from './notifications';
+import { PlatformAdmins } from './platformAdmins';
+import { PlatformAnalyticsEngine, TenantHealth } from './platformAnalytics';
+import { WebhookDispatcher } from './webhooks';
+import type { AlertEvent, AlertRule, Prisma } from '../../packages/database/generated/master-client';
+
+// tenant_* metrics are read from tenant health and fire once per tenant
+export const ALERT_METRICS = [
+  'response_time_ms',
+  'error_rate',
+  'request_rate',
+  'memory_usage_bytes',
+  'tenant_response_time_ms',
+  'tenant_error_rate',
+  'tenant_active_users',
+  'tenant_storage_gb',
+  'tenant_health'
+] as const;
+
+export const ALERT_OPERATORS = ['gt', 'gte', 'lt', 'lte'] as const;
+export const ALERT_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+export const ALERT_CHANNELS = ['email', 'webhook', 'notification'] as const;
+
+export type AlertMetric = typeof ALERT_METRICS[number];
+export type AlertOperator = typeof ALERT_OPERATORS[number];
+export type AlertSeverity = typeof ALERT_SEVERITIES[number];
+export type AlertChannel = typeof ALERT_CHANNELS[number];
+
+export interface AlertRuleInput {
+  name: string;
+  description?: string | null;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  windowMinutes: number;
+  severity: AlertSeverity;
+  channels: AlertChannel[];
+  recipients: string[];
+  webhookUrl?: string | null;
+  tenantId?: string | null;
+  enabled: boolean;
+}
+
+export interface ManualAlertInput {
+  severity: AlertSeverity;
+  component: string;
+  message: string;
+  metadata?: Record<string, unknown>;
+  tenantId?: string;
+  channels: AlertChannel[];
+  recipients: string[];
+  webhookUrl?: string;
+}
+
+export interface AlertDelivery {
+  channel: AlertChannel;
+  event: 'firing' | 'resolved';
+  success: boolean;
+  error?: string;
+  at: string;
+}
+
+interface MetricReading {
+  subject: string; // "platform" or a tenant subdomain
+  tenantId?: string;
+  value: number;
+}
+
+interface DeliveryTarget {
+  channels: AlertChannel[];
+  recipients: string[];
+  webhookUrl: string | null;
+}
+
+/**
+ * An alert rule or alert could not be found, saved or changed
+ */
+export class AlertError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public code: string = 'ALERT_ERROR'
+  ) {
+    super(message);
+    this.name = 'AlertError';
+  }
+}
+
+const PLATFORM_SUBJECT = 'platform';
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  response_time_ms: 'Average response time (ms)',
+  error_rate: 'Error rate (%)',
+  request_rate: 'Requests per minute',
+  memory_usage_bytes: 'Heap memory (bytes)',
+  tenant_response_time_ms: 'Tenant average response time (ms)',
+  tenant_error_rate: 'Tenant error rate (%)',
+  tenant_active_users: 'Tenant users active in the last 7 days',
+  tenant_storage_gb: 'Tenant media storage (GB)',
+  tenant_health: 'Tenant health (0 healthy, 1 warning, 2 critical)'
+};
+
+const OPERATOR_SYMBOLS: Record<AlertOperator, string> = { gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+const HEALTH_SCORES: Record<TenantHealth['status'], number> = { healthy: 0, warning: 1, critical: 2 };
+
+const isTenantMetric = (metric: string) => metric.startsWith('tenant_');
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const formatValue = (value: number) => String(Math.round(value * 100) / 100);
+
+export class AlertManager {
+  private static readonly POLL_INTERVAL_MS = 60 * 1000;
+  private static readonly WEBHOOK_TIMEOUT_MS = 10000;
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static ticking = false;
+
+  /**
+   * Start evaluating alert rules every minute
+   */
+  static initialize(): void {
+    if (process.env.ALERTS_ENABLED === 'false' || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Alert evaluation failed:', error));
+    }, this.POLL_INTERVAL_MS);
+    this.timer.unref();
+
+    logger.info('Alert manager initialized');
+  }
+
+  /**
+   * Stop evaluating alert rules (used on shutdown)
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Evaluate every enabled rule, firing alerts for new breaches and resolving
+   * alerts whose condition cleared, and resolve alerts of disabled rules
+   */
+  static async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const rules = await masterDb.alertRule.findMany({ where: { enabled: true } });
+      // Tenant health is read once per window length per tick
+      const healthByWindow = new Map<number, Promise<TenantHealth[]>>();
+
+      for (const rule of rules) {
+        try {
+          await this.evaluateRule(rule, healthByWindow);
+        } catch (error) {
+          // One broken rule must not block the others
+          logger.error(`Failed to evaluate alert rule ${rule.name}:`, error);
+        }
+      }
+
+      const orphaned = await masterDb.alertEvent.findMany({
+        where: { source: 'rule', status: 'firing', rule: { enabled: false } }
+      });
+      for (const event of orphaned) {
+        await this.resolve(event, null, { reason: 'rule_disabled' });
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  static async getRule(ruleId: string): Promise<AlertRule> {
+    const rule = await masterDb.alertRule.findUnique({ where: { ruleId } });
+    if (!rule) {
+      throw new AlertError('Alert rule not found', 404, 'RULE_NOT_FOUND');
+    }
+    return rule;
+  }
+
+  static async createRule(input: AlertRuleInput, createdBy?: string): Promise<AlertRule> {
+    await this.validateRule(input);
+
+    return masterDb.alertRule.create({
+      data: { ...input, createdBy }
+    });
+  }
+
+  static async updateRule(ruleId: string, changes: Partial<AlertRuleInput>): Promise<AlertRule> {
+    const rule = await this.getRule(ruleId);
+
+    await this.validateRule({
+      name: changes.name ?? rule.name,
+      metric: changes.metric ?? rule.metric as AlertMetric,
+      channels: changes.channels ?? toStringArray(rule.channels) as AlertChannel[],
+      webhookUrl: changes.webhookUrl !== undefined ? changes.webhookUrl : rule.webhookUrl,
+      tenantId: changes.tenantId !== undefined ? changes.tenantId : rule.tenantId
+    }, ruleId);
+
+    return masterDb.alertRule.update({
+      where: { ruleId },
+      data: changes
+    });
+  }
+
+  /**
+   * Delete a rule, resolving its firing alerts (history is kept)
+   */
+  static async deleteRule(ruleId: string): Promise<void> {
+    const rule = await this.getRule(ruleId);
+
+    const firing = await masterDb.alertEvent.findMany({ where: { ruleId, status: 'firing' } });
+    for (const event of firing) {
+      await this.resolve(event, null, { reason: 'rule_deleted' });
+    }
+
+    await masterDb.alertRule.delete({ where: { ruleId: rule.ruleId } });
+  }
+
+  /**
+   * Record an alert raised by an operator or an external system and deliver it
+   */
+  static async raiseManualAlert(input: ManualAlertInput, raisedBy?: string): Promise<AlertEvent> {
+    let subdomain: string | undefined;
+    if (input.tenantId) {
+      subdomain = (await this.getTenant(input.tenantId)).subdomain;
+    }
+
+    this.validateTarget(input.channels, input.webhookUrl, !!input.tenantId);
+
+    const event = await masterDb.alertEvent.create({
+      data: {
+        source: 'manual',
+        subject: input.component,
+        tenantId: input.tenantId,
+        severity: input.severity,
+        message: input.message,
+        metadata: { ...input.metadata, raisedBy } as Prisma.InputJsonValue
+      }
+    });
+
+    logger.warn(`Alert raised for ${input.component}: ${input.message}`, { severity: input.severity, raisedBy });
+
+    return this.deliver(event, {
+      channels: input.channels,
+      recipients: input.recipients,
+      webhookUrl: input.webhookUrl ?? null
+    }, 'firing', subdomain);
+  }
+
+  static async acknowledge(alertId: string, acknowledgedBy: string): Promise<AlertEvent> {
+    const event = await this.getEvent(alertId);
+    if (event.acknowledgedAt) {
+      throw new AlertError('Alert is already acknowledged', 409, 'ALREADY_ACKNOWLEDGED');
+    }
+
+    return masterDb.alertEvent.update({
+      where: { alertId },
+      data: { acknowledgedAt: new Date(), acknowledgedBy }
+    });
+  }
+
+  /**
+   * Resolve a manual alert. Rule alerts resolve when their condition clears.
+   */
+  static async resolveManualAlert(alertId: string, resolvedBy: string): Promise<AlertEvent> {
+    const event = await this.getEvent(alertId);
+    if (event.source !== 'manual') {
+      throw new AlertError('Rule alerts resolve automatically when their condition clears', 409, 'RULE_ALERT');
+    }
+    if (event.status !== 'firing') {
+      throw new AlertError('Alert is already resolved', 409, 'ALREADY_RESOLVED');
+    }
+
+    return masterDb.alertEvent.update({
+      where: { alertId },
+      data: {
+        status: 'resolved',
+        resolvedAt: new Date(),
+        metadata: { ...(event.metadata as Prisma.JsonObject), resolvedBy }
+      }
+    });
+  }
+
+  // Private helper methods
+
+  private static async evaluateRule(rule: AlertRule, healthByWindow: Map<number, Promise<TenantHealth[]>>): Promise<void> {
+    const readings = await this.readMetric(rule, healthByWindow);
+    const firing = await masterDb.alertEvent.findMany({ where: { ruleId: rule.ruleId, status: 'firing' } });
+    const firingBySubject = new Map(firing.map(event => [event.subject, event]));
+    const reported = new Set<string>();
+
+    for (const reading of readings) {
+      reported.add(reading.subject);
+      const open = firingBySubject.get(reading.subject);
+      const breached = this.compare(reading.value, rule.operator as AlertOperator, rule.threshold);
+
+      if (breached && !open) {
+        await this.fire(rule, reading);
+      } else if (!breached && open) {
+        await this.resolve(open, rule, { resolvedValue: reading.value });
+      }
+    }
+
+    // No data (no traffic, tenant gone or suspended) clears the condition
+    for (const event of firing) {
+      if (!reported.has(event.subject)) {
+        await this.resolve(event, rule, { reason: 'no_data' });
+      }
+    }
+  }
+
+  private static async readMetric(
+    rule: AlertRule,
+    healthByWindow: Map<number, Promise<TenantHealth[]>>
+  ): Promise<MetricReading[]> {
+    const metric = rule.metric as AlertMetric;
+
+    if (isTenantMetric(metric)) {
+      if (!healthByWindow.has(rule.windowMinutes)) {
+        healthByWindow.set(rule.windowMinutes, PlatformAnalyticsEngine.getTenantHealth(undefined, rule.windowMinutes));
+      }
+      const health = (await healthByWindow.get(rule.windowMinutes)!)
+        .filter(tenant => !rule.tenantId || tenant.tenantId === rule.tenantId);
+
+      return health.map(tenant => ({
+        subject: tenant.subdomain,
+        tenantId: tenant.tenantId,
+        value: this.readTenantMetric(metric, tenant)
+      }));
+    }
+
+    const stats = MonitoringService.getRequestStats(rule.windowMinutes);
+    let value: number | null = null;
+
+    switch (metric) {
+      case 'response_time_ms':
+        value = stats.averageResponseTime;
+        break;
+      case 'error_rate':
+        value = stats.requests > 0 ? stats.errorRate : null;
+        break;
+      case 'request_rate':
+        value = stats.requestsPerMinute;
+        break;
+      case 'memory_usage_bytes':
+        value = MonitoringService.getMetricAverage('system_memory_usage_bytes', rule.windowMinutes);
+        break;
+    }
+
+    return value === null ? [] : [{ subject: PLATFORM_SUBJECT, value }];
+  }
+
+  private static readTenantMetric(metric: AlertMetric, tenant: TenantHealth): number {
+    switch (metric) {
+      case 'tenant_response_time_ms':
+        return tenant.metrics.averageResponseTime;
+      case 'tenant_error_rate':
+        return tenant.metrics.errorRate;
+      case 'tenant_active_users':
+        return tenant.metrics.activeUsers;
+      case 'tenant_storage_gb':
+        return tenant.metrics.storageUsed;
+      default:
+        return HEALTH_SCORES[tenant.status];
+    }
+  }
+
+  private static compare(value: number, operator: AlertOperator, threshold: number): boolean {
+    switch (operator) {
+      case 'gt': return value > threshold;
+      case 'gte': return value >= threshold;
+      case 'lt': return value < threshold;
+      case 'lte': return value <= threshold;
+    }
+  }
+
+  private static async fire(rule: AlertRule, reading: MetricReading): Promise<void> {
+    const label = METRIC_LABELS[rule.metric as AlertMetric] || rule.metric;
+    const scope = reading.subject === PLATFORM_SUBJECT ? '' : ` for ${reading.subject}`;
+
+    const event = await masterDb.alertEvent.create({
+      data: {
+        ruleId: rule.ruleId,
+        source: 'rule',
+        subject: reading.subject,
+        tenantId: reading.tenantId,
+        metric: rule.metric,
+        severity: rule.severity,
+        message: `${rule.name}: ${label} is ${formatValue(reading.value)}${scope} `
+          + `(threshold ${OPERATOR_SYMBOLS[rule.operator as AlertOperator]} ${formatValue(rule.threshold)} over ${rule.windowMinutes}m)`,
+        value: reading.value,
+        threshold: rule.threshold,
+        metadata: { operator: rule.operator, windowMinutes: rule.windowMinutes }
+      }
+    });
+
+    logger.warn(`Alert firing: ${event.message}`, { ruleId: rule.ruleId, severity: rule.severity });
+
+    await this.deliver(event, this.getTarget(rule), 'firing', reading.tenantId ? reading.subject : undefined);
+  }
+
+  /**
+   * Mark a firing alert resolved; notifies the rule's channels when given
+   */
+  private static async resolve(event: AlertEvent, rule: AlertRule | null, details: Record<string, unknown>): Promise<void> {
+    const resolved = await masterDb.alertEvent.update({
+      where: { alertId: event.alertId },
+      data: {
+        status: 'resolved',
+        resolvedAt: new Date(),
+        metadata: { ...(event.metadata as Prisma.JsonObject), ...details } as Prisma.InputJsonValue
+      }
+    });
+
+    logger.info(`Alert resolved: ${event.message}`, { alertId: event.alertId, ...details });
+
+    if (rule) {
+      await this.deliver(resolved, this.getTarget(rule), 'resolved', event.tenantId ? event.subject : undefined);
+    }
+  }
+
+  /**
+   * Send an alert through each channel and record the outcomes on the alert
+   */
+  private static async deliver(
+    event: AlertEvent,
+    target: DeliveryTarget,
+    kind: 'firing' | 'resolved',
+    tenantSubdomain?: string
+  ): Promise<AlertEvent> {
+    if (target.channels.length === 0) {
+      return event;
+    }
+
+    const deliveries: AlertDelivery[] = [];
+
+    for (const channel of target.channels) {
+      try {
+        switch (channel) {
+          case 'email':
+            await this.sendEmail(event, target.recipients, kind);
+            break;
+          case 'webhook':
+            await this.sendWebhook(event, target.webhookUrl, kind);
+            break;
+          case 'notification':
+            await this.sendNotification(event, tenantSubdomain, kind);
+            break;
+        }
+        deliveries.push({ channel, event: kind, success: true, at: new Date().toISOString() });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Delivery failed';
+        logger.error(`Failed to deliver alert ${event.alertId} via ${channel}: ${message}`);
+        deliveries.push({ channel, event: kind, success: false, error: message, at: new Date().toISOString() });
+      }
+    }
+
+    return masterDb.alertEvent.update({
+      where: { alertId: event.alertId },
+      data: {
+        deliveries: [...(event.deliveries as Prisma.JsonArray), ...deliveries] as Prisma.InputJsonValue
+      }
+    });
+  }
+
+  private static async sendEmail(event: AlertEvent, recipients: string[], kind: 'firing' | 'resolved'): Promise<void> {
+    const to = recipients.length > 0 ? recipients : await PlatformAdmins.listEmails();
+    if (to.length === 0) {
+      throw new Error('No recipients (set recipients on the rule or grant a platform admin)');
+    }
+
+    const prefix = kind === 'firing' ? `[${event.severity.toUpperCase()}]` : '[RESOLVED]';
+    await getMailManager().send({
+      to,
+      subject: `${prefix} ${event.message}`,
+      text: [
+        event.message,
+        '',
+        `Status: ${kind}`,
+        `Subject: ${event.subject}`,
+        `Fired at: ${event.firedAt.toISOString()}`,
+        ...(event.resolvedAt ? [`Resolved at: ${event.resolvedAt.toISOString()}`] : []),
+        `Alert ID: ${event.alertId}`
+      ].join('\n')
+    });
+  }
+
+  /**
+   * POST the alert as JSON, signed like tenant webhooks when ALERT_WEBHOOK_SECRET is set
+   */
+  private static async sendWebhook(event: AlertEvent, url: string | null, kind: 'firing' | 'resolved'): Promise<void> {
+    if (!url) {
+      throw new Error('No webhook URL configured');
+    }
+
+    const body = JSON.stringify({
+      id: crypto.randomUUID(),
+      type: `alert.${kind}`,
+      createdAt: new Date().toISOString(),
+      data: event
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const secret = process.env.ALERT_WEBHOOK_SECRET;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'OMSMS-Webhooks/1.0',
+        'X-OMSMS-Event': `alert.${kind}`,
+        'X-OMSMS-Timestamp': String(timestamp),
+        ...(secret && { 'X-OMSMS-Signature': WebhookDispatcher.sign(secret, timestamp, body) })
+      },
+      body,
+      signal: AbortSignal.timeout(this.WEBHOOK_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Endpoint responded with ${response.status}`);
+    }
+  }
+
+  /**
+   * In-app notification to the affected tenant's admins
+   */
+  private static async sendNotification(event: AlertEvent, subdomain: string | undefined, kind: 'firing' | 'resolved'): Promise<void> {
+    if (!subdomain) {
+      throw new Error('Notifications need a tenant alert');
+    }
+
+    const tenantDb = await getTenantDb(subdomain);
+    const admins = await tenantDb.user.findMany({
+      where: { status: 'active', role: { roleName: 'admin' } },
+      select: { userId: true }
+    });
+
+    await notifyUsers(subdomain, {
+      recipientIds: admins.map(admin => admin.userId),
+      type: kind === 'resolved' ? 'success' : ['high', 'critical'].includes(event.severity) ? 'error' : 'warning',
+      title: kind === 'resolved' ? 'Alert resolved' : 'Platform alert',
+      message: event.message,
+      entityType: 'alert',
+      entityId: event.alertId
+    });
+  }
+
+  private static getTarget(rule: AlertRule): DeliveryTarget {
+    return {
+      channels: toStringArray(rule.channels) as AlertChannel[],
+      recipients: toStringArray(rule.recipients),
+      webhookUrl: rule.webhookUrl
+    };
+  }
+
+  private static async validateRule(
+    rule: Pick<AlertRuleInput, 'name' | 'metric' | 'channels' | 'webhookUrl' | 'tenantId'>,
+    ruleId?: string
+  ): Promise<void> {
+    const existing = await masterDb.alertRule.findUnique({ where: { name: rule.name }, select: { ruleId: true } });
+    if (existing && existing.ruleId !== ruleId) {
+      throw new AlertError('An alert rule with this name already exists', 409, 'RULE_NAME_TAKEN');
+    }
+
+    if (rule.tenantId) {
+      if (!isTenantMetric(rule.metric)) {
+        throw new AlertError('Only tenant metrics can be limited to a tenant', 400, 'INVALID_RULE');
+      }
+      await this.getTenant(rule.tenantId);
+    }
+
+    this.validateTarget(rule.channels, rule.webhookUrl, isTenantMetric(rule.metric));
+  }
+
+  private static validateTarget(channels: AlertChannel[], webhookUrl: string | null | undefined, hasTenant: boolean): void {
+    if (channels.includes('webhook') && !webhookUrl) {
+      throw new AlertError('A webhook URL is required for the webhook channel', 400, 'INVALID_RULE');
+    }
+    if (channels.includes('notification') && !hasTenant) {
+      throw new AlertError('The notification channel is only available for tenant alerts', 400, 'INVALID_RULE');
+    }
+  }
+
+  private static async getTenant(tenantId: string) {
+    const tenant = await masterDb.tenant.findUnique({ where: { tenantId }, select: { tenantId: true, subdomain: true } });
+    if (!tenant) {
+      throw new AlertError('Tenant not found', 404, 'TENANT_NOT_FOUND');
+    }
+    return tenant;
+  }
+
+  private static async getEvent(alertId: string): Promise<AlertEvent> {
+    const event = await masterDb.alertEvent.findUnique({ where: { alertId } });
+    if (!event) {
+      throw new AlertError('Alert not found', 404, 'ALERT_NOT_FOUND');
+    }
+    return event;
+  }
+}
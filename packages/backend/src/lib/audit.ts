@@ -0,0 +1,173 @@
+import { Request } from 'express';
+import { logger } from './logger';
+
+export type AuditVerb = 'created' | 'updated' | 'deleted' | 'status_changed' | 'stage_changed';
+
+export interface AuditContext {
+  userId?: string | null;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditEntry extends AuditContext {
+  entityType: string;
+  entityId?: string | null;
+  verb: AuditVerb;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  details?: Record<string, any>;
+}
+
+export interface AuditDiff {
+  oldValues: Record<string, any> | null;
+  newValues: Record<string, any> | null;
+  changedFields: string[];
+}
+
+// Bookkeeping columns that change on every write and say nothing about the edit
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+const SENSITIVE_FIELD = /password|secret|token|apikey|mfa/i;
+const REDACTED = '[redacted]';
+
+/**
+ * JSON-safe copy of a value: Decimals become strings, Dates ISO strings
+ */
+function normalize(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Top-level scalar and JSON columns of a record, with secrets masked
+ */
+function snapshot(record: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(record)) {
+    // `_count` and similar aggregates are not columns
+    if (IGNORED_FIELDS.has(key) || key.startsWith('_') || value === undefined) continue;
+    result[key] = SENSITIVE_FIELD.test(key) ? REDACTED : normalize(value);
+  }
+  return result;
+}
+
+/**
+ * Field-level diff between two versions of a row. A missing `before` is a
+ * create and a missing `after` a delete; the present side is then recorded in
+ * full, so pass the row without included relations.
+ * Secret fields are reported as changed without their values.
+ */
+export function diffValues(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): AuditDiff {
+  if (!before || !after) {
+    const values = before ? snapshot(before) : after ? snapshot(after) : null;
+    return {
+      oldValues: before ? values : null,
+      newValues: after ? values : null,
+      changedFields: values ? Object.keys(values) : []
+    };
+  }
+
+  const oldValues: Record<string, any> = {};
+  const newValues: Record<string, any> = {};
+  for (const key of Object.keys(after)) {
+    // Only columns present on both sides are compared, so partial updates and
+    // included relations don't show up as changes
+    if (IGNORED_FIELDS.has(key) || !(key in before) || after[key] === undefined) continue;
+
+    const oldValue = normalize(before[key]);
+    const newValue = normalize(after[key]);
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    const sensitive = SENSITIVE_FIELD.test(key);
+    oldValues[key] = sensitive ? REDACTED : oldValue;
+    newValues[key] = sensitive ? REDACTED : newValue;
+  }
+
+  return { oldValues, newValues, changedFields: Object.keys(newValues) };
+}
+
+/**
+ * Acting user and client details of a request
+ */
+export function getAuditContext(req: Request): AuditContext {
+  return {
+    userId: req.user?.userId ?? null,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  };
+}
+
+/**
+ * Write a domain audit entry (`<entityType>:<verb>`) with its field-level diff.
+ * Updates that change nothing are skipped. Never throws: a failed audit write
+ * must not fail the mutation it describes.
+ */
+export async function recordAudit(tenantDb: any, entry: AuditEntry): Promise<void> {
+  try {
+    const diff = diffValues(entry.before, entry.after);
+    if (entry.before && entry.after && diff.changedFields.length === 0 && !entry.details) {
+      return;
+    }
+
+    await tenantDb.auditLog.create({
+      data: {
+        userId: entry.userId ?? null,
+        action: `${entry.entityType}:${entry.verb}`,
+        entityType: entry.entityType,
+        entityId: entry.entityId ?? null,
+        oldValues: diff.oldValues ?? undefined,
+        newValues: diff.newValues ?? undefined,
+        details: {
+          ...(entry.details || {}),
+          changedFields: diff.changedFields
+        },
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent
+      }
+    });
+  } catch (error) {
+    logger.error(`Failed to record audit entry ${entry.entityType}:${entry.verb}:`, error);
+  }
+}
+
+export interface WorkflowStageChange {
+  instanceId: string;
+  workflowType?: string | null;
+  entityType: string;
+  entityId: string;
+  previousStage: string | null;
+  stage: string;
+  status: string;
+  automatic?: boolean;
+  notes?: string;
+}
+
+/**
+ * Audit a workflow instance moving between stages. Vehicle and product
+ * workflows carry the vehicle id so they show up in the vehicle's history.
+ */
+export async function recordWorkflowStageChange(
+  tenantDb: any,
+  context: AuditContext,
+  change: WorkflowStageChange
+): Promise<void> {
+  await recordAudit(tenantDb, {
+    ...context,
+    entityType: 'workflow_instance',
+    entityId: change.instanceId,
+    verb: 'stage_changed',
+    before: { currentStage: change.previousStage },
+    after: { currentStage: change.stage },
+    details: {
+      workflowType: change.workflowType ?? null,
+      entityType: change.entityType,
+      entityId: change.entityId,
+      status: change.status,
+      ...(['vehicle', 'product'].includes(change.entityType) && { vehicleId: change.entityId }),
+      ...(change.automatic && { automatic: true }),
+      ...(change.notes && { notes: change.notes })
+    }
+  });
+}
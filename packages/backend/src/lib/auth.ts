@@ -1,6 +1,8 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import { UserRole } from '@omsms/shared';
+import type { PermissionConditions } from './permissions';
 
 export interface JWTPayload {
   userId: string;
@@ -10,6 +12,9 @@ export interface JWTPayload {
   roleName: string; // New dynamic role name
   tenantId: string;
   permissions: Record<string, boolean>;
+  conditions?: Record<string, PermissionConditions>; // Row-level limits of conditional permissions, by permission key
+  sessionId?: string; // Server-side session the tokens belong to
+  iat?: number; // Set by jwt.sign, present on decoded tokens
 }
 
 export interface AuthTokens {
@@ -17,10 +22,17 @@ export interface AuthTokens {
   refreshToken: string;
 }
 
+export interface PasswordResetToken {
+  token: string; // Sent to the user, never stored
+  tokenHash: string;
+  expiresAt: Date;
+}
+
 export class AuthService {
   private static readonly ACCESS_TOKEN_EXPIRY = '15m';
   private static readonly REFRESH_TOKEN_EXPIRY = '7d';
   private static readonly SALT_ROUNDS = parseInt(process.env.BCRYPT_ROUNDS || '12');
+  private static readonly PASSWORD_RESET_TOKEN_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES || '60');
 
   /**
    * Hash a password using bcrypt
@@ -36,6 +48,37 @@ export class AuthService {
     return bcrypt.compare(password, hash);
   }
 
+  /**
+   * Generate a random password reset token and its storable hash
+   */
+  static generatePasswordResetToken(): PasswordResetToken {
+    const token = crypto.randomBytes(32).toString('hex');
+
+    return {
+      token,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(Date.now() + this.PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000)
+    };
+  }
+
+  /**
+   * Hash a reset or refresh token for lookup (tokens are stored hashed only)
+   */
+  static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Check whether a token was issued before the user's last password change.
+   * `iat` has second precision, so a token from the same second counts as older.
+   */
+  static isIssuedBeforePasswordChange(payload: JWTPayload, passwordChangedAt?: Date | null): boolean {
+    if (!passwordChangedAt || !payload.iat) {
+      return false;
+    }
+    return payload.iat <= Math.floor(passwordChangedAt.getTime() / 1000);
+  }
+
   /**
    * Generate JWT tokens (access + refresh)
    */
@@ -52,12 +95,13 @@ export class AuthService {
     });
 
     const refreshToken = jwt.sign(
-      { userId: payload.userId, tenantId: payload.tenantId },
+      { userId: payload.userId, tenantId: payload.tenantId, sessionId: payload.sessionId },
       secret,
       {
         expiresIn: this.REFRESH_TOKEN_EXPIRY,
         issuer: 'omsms',
         subject: payload.userId,
+        jwtid: crypto.randomUUID(), // Keeps rotated tokens unique within the same second
       }
     );
 
@@ -87,6 +131,17 @@ export class AuthService {
     }
   }
 
+  /**
+   * Read the expiry time of a signed token
+   */
+  static getTokenExpiry(token: string): Date {
+    const decoded = jwt.decode(token) as { exp?: number } | null;
+    if (!decoded?.exp) {
+      throw new Error('Token has no expiry');
+    }
+    return new Date(decoded.exp * 1000);
+  }
+
   /**
    * Extract token from Authorization header
    */
@@ -0,0 +1,229 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+import { Storage as GCSStorage } from '@google-cloud/storage';
+import {
+  S3Client,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  GetObjectCommand,
+  DeleteObjectCommand
+} from '@aws-sdk/client-s3';
+
+export type BackupStorageProviderName = 'local' | 's3' | 'gcs';
+
+/**
+ * Private storage for tenant backup archives. Archives hold password and
+ * token hashes, so they never go to media storage (served at /uploads or
+ * from a public bucket) and are only read back through authenticated routes.
+ */
+export interface BackupStore {
+  readonly providerName: BackupStorageProviderName;
+  write(key: string, body: Readable): Promise<void>;
+  read(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+const S3_PART_SIZE = 8 * 1024 * 1024; // S3 needs at least 5 MiB per part but the last
+
+/**
+ * Files in a directory outside the static upload root, readable by the server user only
+ */
+export class LocalBackupStore implements BackupStore {
+  readonly providerName = 'local';
+
+  constructor(private readonly root: string) {}
+
+  async write(key: string, body: Readable): Promise<void> {
+    const fullPath = this.resolve(key);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true, mode: 0o700 });
+
+    const partialPath = `${fullPath}.partial`;
+    try {
+      await pipeline(body, createWriteStream(partialPath, { mode: 0o600 }));
+      await fs.rename(partialPath, fullPath);
+    } catch (error) {
+      await fs.unlink(partialPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async read(key: string): Promise<Readable> {
+    const fullPath = this.resolve(key);
+    await fs.access(fullPath); // Fail here rather than on the first read
+    return createReadStream(fullPath);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  private resolve(key: string): string {
+    const fullPath = path.resolve(this.root, key);
+    if (!fullPath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Backup key escapes the backup directory: ${key}`);
+    }
+    return fullPath;
+  }
+}
+
+/**
+ * A private S3 or S3-compatible (MinIO, R2) bucket, written with a multipart upload
+ */
+export class S3BackupStore implements BackupStore {
+  readonly providerName = 's3';
+
+  constructor(private readonly client: S3Client, private readonly bucket: string) {}
+
+  async write(key: string, body: Readable): Promise<void> {
+    const { UploadId } = await this.client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ContentType: 'application/gzip'
+    }));
+
+    try {
+      const parts: Array<{ ETag?: string; PartNumber: number }> = [];
+      const uploadPart = async (data: Buffer) => {
+        const PartNumber = parts.length + 1;
+        const { ETag } = await this.client.send(new UploadPartCommand({
+          Bucket: this.bucket,
+          Key: key,
+          UploadId,
+          PartNumber,
+          Body: data
+        }));
+        parts.push({ ETag, PartNumber });
+      };
+
+      let pending: Buffer[] = [];
+      let pendingBytes = 0;
+      for await (const chunk of body) {
+        pending.push(chunk as Buffer);
+        pendingBytes += (chunk as Buffer).length;
+        if (pendingBytes >= S3_PART_SIZE) {
+          await uploadPart(Buffer.concat(pending));
+          pending = [];
+          pendingBytes = 0;
+        }
+      }
+      if (pendingBytes > 0 || parts.length === 0) {
+        await uploadPart(Buffer.concat(pending));
+      }
+
+      await this.client.send(new CompleteMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId,
+        MultipartUpload: { Parts: parts }
+      }));
+    } catch (error) {
+      await this.client.send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: key, UploadId }))
+        .catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async read(key: string): Promise<Readable> {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!response.Body) {
+      throw new Error(`Backup object ${key} has no content`);
+    }
+    return response.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+/**
+ * A private Google Cloud Storage bucket
+ */
+export class GCSBackupStore implements BackupStore {
+  readonly providerName = 'gcs';
+
+  constructor(private readonly storage: GCSStorage, private readonly bucketName: string) {}
+
+  async write(key: string, body: Readable): Promise<void> {
+    const file = this.storage.bucket(this.bucketName).file(key);
+    await pipeline(body, file.createWriteStream({ resumable: false, contentType: 'application/gzip' }));
+  }
+
+  async read(key: string): Promise<Readable> {
+    const file = this.storage.bucket(this.bucketName).file(key);
+    const [exists] = await file.exists();
+    if (!exists) {
+      throw new Error(`Backup object ${key} not found`);
+    }
+    return file.createReadStream();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.bucket(this.bucketName).file(key).delete({ ignoreNotFound: true });
+  }
+}
+
+/**
+ * Backup store from BACKUP_STORAGE_PROVIDER. Refuses locations that media is
+ * served from: a directory inside LOCAL_UPLOAD_PATH or the media bucket.
+ */
+export function createBackupStore(): BackupStore {
+  const provider = (process.env.BACKUP_STORAGE_PROVIDER || 'local') as BackupStorageProviderName;
+
+  switch (provider) {
+    case 'local': {
+      const root = path.resolve(process.env.BACKUP_LOCAL_PATH || './backups');
+      const uploadRoot = path.resolve(process.env.LOCAL_UPLOAD_PATH || './uploads');
+      if (root === uploadRoot || root.startsWith(uploadRoot + path.sep)) {
+        throw new Error('BACKUP_LOCAL_PATH must not be inside LOCAL_UPLOAD_PATH (it is served publicly)');
+      }
+      return new LocalBackupStore(root);
+    }
+
+    case 's3': {
+      const bucket = process.env.BACKUP_S3_BUCKET;
+      if (!bucket) {
+        throw new Error('BACKUP_S3_BUCKET is required for S3 backup storage');
+      }
+      if (bucket === process.env.AWS_S3_BUCKET) {
+        throw new Error('BACKUP_S3_BUCKET must be a private bucket, not the media bucket');
+      }
+      return new S3BackupStore(new S3Client({
+        region: process.env.AWS_REGION!,
+        endpoint: process.env.AWS_S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.AWS_S3_FORCE_PATH_STYLE === 'true',
+        credentials: {
+          accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!
+        }
+      }), bucket);
+    }
+
+    case 'gcs': {
+      const bucket = process.env.BACKUP_GCS_BUCKET;
+      if (!bucket) {
+        throw new Error('BACKUP_GCS_BUCKET is required for GCS backup storage');
+      }
+      if (bucket === process.env.GCS_BUCKET_NAME) {
+        throw new Error('BACKUP_GCS_BUCKET must be a private bucket, not the media bucket');
+      }
+      return new GCSBackupStore(new GCSStorage({
+        projectId: process.env.GCS_PROJECT_ID!,
+        keyFilename: process.env.GCS_KEY_FILENAME,
+        credentials: process.env.GCS_CREDENTIALS ? JSON.parse(process.env.GCS_CREDENTIALS) : undefined
+      }), bucket);
+    }
+
+    default:
+      throw new Error(`Unsupported backup storage provider: ${provider}`);
+  }
+}
@@ -0,0 +1,261 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import path from 'path';
+import { promises as fs } from 'fs';
+import type { Invoice, InvoiceItem } from '../../packages/database/generated/tenant-client';
+import type { SellerDetails } from '../services/invoices';
+import { config } from '../config/environment';
+import { logger } from './logger';
+import { outboundRequest } from './outboundHttp';
+
+export type InvoiceWithItems = Invoice & {
+  items: InvoiceItem[];
+  originalInvoice?: { invoiceNumber: string | null; issueDate: Date | null } | null;
+};
+
+const PAGE_MARGIN = 50;
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+const LOGO_MAX_BYTES = 5 * 1024 * 1024; // Same as the logo upload limit
+
+export const formatMoney = (value: unknown): string =>
+  Number(value).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const formatDate = (value: Date | null): string =>
+  value ? value.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }) : '-';
+
+/**
+ * Load the tenant logo, preferring the local uploads directory over an HTTP fetch
+ * (which only reaches public addresses)
+ */
+export async function loadLogo(tenantId: string, logoUrl: string | null): Promise<Buffer | null> {
+  if (!logoUrl) {
+    return null;
+  }
+
+  const fileName = path.basename(logoUrl.split('?')[0]);
+  if (config.storage.local && logoUrl.includes(`/logos/${tenantId}/`)) {
+    try {
+      return await fs.readFile(path.join(path.resolve(config.storage.local.uploadPath), 'logos', tenantId, fileName));
+    } catch {
+      // Fall through to fetching the URL (e.g. served from another instance)
+    }
+  }
+
+  if (!/^https?:\/\//.test(logoUrl)) {
+    return null;
+  }
+
+  try {
+    // The URL is tenant-controlled: private addresses are refused and redirects not followed
+    const response = await outboundRequest(logoUrl, {
+      timeoutMs: LOGO_FETCH_TIMEOUT_MS,
+      maxResponseBytes: LOGO_MAX_BYTES + 1
+    });
+    if (response.status < 200 || response.status >= 300 || response.body.length > LOGO_MAX_BYTES) {
+      return null;
+    }
+    return response.body;
+  } catch (error) {
+    logger.warn(`Failed to load invoice logo for tenant ${tenantId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * UPI payment links get the invoice amount and number so the payer's app is pre-filled
+ */
+function buildPaymentQrContent(content: string, invoice: Invoice): string {
+  if (!content.startsWith('upi://pay')) {
+    return content;
+  }
+
+  const [base, query = ''] = content.split('?');
+  const params = new URLSearchParams(query);
+  if (!params.has('am')) {
+    params.set('am', Number(invoice.grandTotal).toFixed(2));
+  }
+  if (!params.has('tn') && invoice.invoiceNumber) {
+    params.set('tn', invoice.invoiceNumber);
+  }
+  if (!params.has('cu')) {
+    params.set('cu', invoice.currency);
+  }
+
+  return `${base}?${params.toString()}`;
+}
+
+/**
+ * Render an invoice or credit note as a branded PDF
+ */
+export async function generateInvoicePdf(tenantId: string, invoice: InvoiceWithItems): Promise<Buffer> {
+  const seller = (invoice.sellerDetails || {}) as unknown as Partial<SellerDetails>;
+  const isCreditNote = invoice.documentType === 'credit_note';
+  const logo = await loadLogo(tenantId, seller.logo ?? null);
+  const paymentQr = !isCreditNote ? seller.paymentQrCodes?.[0] : undefined;
+  const qrImage = paymentQr
+    ? await QRCode.toBuffer(buildPaymentQrContent(paymentQr.content, invoice), { margin: 1, width: 140 })
+    : null;
+
+  const doc = new PDFDocument({ margin: PAGE_MARGIN, size: 'A4' });
+  const chunks: Buffer[] = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const pageWidth = doc.page.width - PAGE_MARGIN * 2;
+  const right = PAGE_MARGIN + pageWidth;
+
+  // Seller header
+  let y = PAGE_MARGIN;
+  let textX = PAGE_MARGIN;
+  if (logo) {
+    try {
+      doc.image(logo, PAGE_MARGIN, y, { fit: [80, 60] });
+      textX = PAGE_MARGIN + 95;
+    } catch (error) {
+      logger.warn(`Unsupported invoice logo image for tenant ${tenantId}:`, error);
+    }
+  }
+
+  const address = seller.address || {};
+  const contact = seller.contactInfo || {};
+  doc.fontSize(16).font('Helvetica-Bold').text(seller.companyName || '', textX, y, { width: 260 });
+  doc.fontSize(9).font('Helvetica')
+    .text([address.street, address.city, address.state, address.postalCode].filter(Boolean).join(', '), { width: 260 })
+    .text([contact.phone, contact.email].filter(Boolean).join(' | '), { width: 260 });
+  if (seller.gstNumber) {
+    doc.text(`GSTIN: ${seller.gstNumber}`, { width: 260 });
+  }
+
+  doc.fontSize(18).font('Helvetica-Bold')
+    .text(isCreditNote ? 'CREDIT NOTE' : 'TAX INVOICE', PAGE_MARGIN, y, { width: pageWidth, align: 'right' });
+  doc.fontSize(9).font('Helvetica')
+    .text(`No: ${invoice.invoiceNumber ?? 'DRAFT'}`, { width: pageWidth, align: 'right' })
+    .text(`Date: ${formatDate(invoice.issueDate)}`, { width: pageWidth, align: 'right' });
+  if (invoice.dueDate) {
+    doc.text(`Due: ${formatDate(invoice.dueDate)}`, { width: pageWidth, align: 'right' });
+  }
+  if (isCreditNote && invoice.originalInvoice) {
+    doc.text(`Against: ${invoice.originalInvoice.invoiceNumber ?? '-'} (${formatDate(invoice.originalInvoice.issueDate)})`, { width: pageWidth, align: 'right' });
+  }
+
+  // Buyer
+  y = Math.max(doc.y, PAGE_MARGIN + 75) + 15;
+  doc.moveTo(PAGE_MARGIN, y).lineTo(right, y).stroke();
+  y += 10;
+  doc.fontSize(10).font('Helvetica-Bold').text('Bill To', PAGE_MARGIN, y);
+  doc.fontSize(9).font('Helvetica').text(invoice.customerName);
+  [
+    invoice.customerAddress,
+    invoice.customerPhone,
+    invoice.customerEmail,
+    invoice.customerGstin ? `GSTIN: ${invoice.customerGstin}` : null,
+    invoice.placeOfSupply ? `Place of supply: ${invoice.placeOfSupply}` : null
+  ].filter(Boolean).forEach(line => doc.text(line as string, { width: pageWidth / 2 }));
+  if (isCreditNote && invoice.reason) {
+    doc.text(`Reason: ${invoice.reason}`, { width: pageWidth });
+  }
+
+  // Line items
+  const interState = invoice.supplyType === 'inter_state';
+  const columns = [
+    { label: '#', width: 20, align: 'left' as const },
+    { label: 'Description', width: 150, align: 'left' as const },
+    { label: 'HSN/SAC', width: 50, align: 'left' as const },
+    { label: 'Qty', width: 35, align: 'right' as const },
+    { label: 'Rate', width: 60, align: 'right' as const },
+    { label: 'Taxable', width: 65, align: 'right' as const },
+    { label: interState ? 'IGST' : 'CGST+SGST', width: 55, align: 'right' as const },
+    { label: 'Total', width: pageWidth - 435, align: 'right' as const }
+  ];
+
+  const drawRow = (values: string[], rowY: number, bold = false): number => {
+    doc.fontSize(8).font(bold ? 'Helvetica-Bold' : 'Helvetica');
+    let x = PAGE_MARGIN;
+    let height = 0;
+    values.forEach((value, index) => {
+      const column = columns[index];
+      doc.text(value, x, rowY, { width: column.width - 4, align: column.align });
+      height = Math.max(height, doc.heightOfString(value, { width: column.width - 4 }));
+      x += column.width;
+    });
+    return rowY + height + 6;
+  };
+
+  y = doc.y + 15;
+  y = drawRow(columns.map(column => column.label), y, true);
+  doc.moveTo(PAGE_MARGIN, y - 3).lineTo(right, y - 3).stroke();
+
+  for (const item of invoice.items) {
+    if (y > doc.page.height - 200) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+    const tax = interState
+      ? Number(item.igstAmount)
+      : Number(item.cgstAmount) + Number(item.sgstAmount);
+    y = drawRow([
+      String(item.lineNumber),
+      item.description,
+      item.hsnSac ?? '',
+      String(Number(item.quantity)),
+      formatMoney(item.unitPrice),
+      formatMoney(item.taxableValue),
+      `${formatMoney(tax)} (${Number(item.taxRate)}%)`,
+      formatMoney(item.lineTotal)
+    ], y);
+  }
+  doc.moveTo(PAGE_MARGIN, y).lineTo(right, y).stroke();
+
+  // Totals
+  const totals: Array<[string, unknown]> = [['Subtotal', invoice.subtotal]];
+  if (Number(invoice.discountTotal) > 0) totals.push(['Discount', -Number(invoice.discountTotal)]);
+  if (interState) {
+    totals.push(['IGST', invoice.igstTotal]);
+  } else {
+    totals.push(['CGST', invoice.cgstTotal], ['SGST', invoice.sgstTotal]);
+  }
+  if (Number(invoice.roundOff) !== 0) totals.push(['Round off', invoice.roundOff]);
+
+  y += 10;
+  doc.fontSize(9).font('Helvetica');
+  for (const [label, value] of totals) {
+    doc.text(label, right - 200, y, { width: 100 }).text(formatMoney(value), right - 100, y, { width: 100, align: 'right' });
+    y += 14;
+  }
+  doc.fontSize(11).font('Helvetica-Bold')
+    .text(`Total (${invoice.currency})`, right - 200, y, { width: 100 })
+    .text(formatMoney(invoice.grandTotal), right - 100, y, { width: 100, align: 'right' });
+  const totalsBottom = y + 20;
+
+  // Payment details
+  if (!isCreditNote) {
+    let paymentY = totalsBottom - 14 * (totals.length + 1) - 10;
+    const bank = seller.bankAccount;
+    if (bank) {
+      doc.fontSize(10).font('Helvetica-Bold').text('Bank Details', PAGE_MARGIN, paymentY);
+      doc.fontSize(8).font('Helvetica')
+        .text(`${bank.bankName ?? ''}${bank.branchName ? `, ${bank.branchName}` : ''}`, { width: 220 })
+        .text(`A/c Name: ${bank.accountHolderName ?? ''}`, { width: 220 })
+        .text(`A/c No: ${bank.accountNumber ?? ''}`, { width: 220 })
+        .text(`IFSC: ${bank.ifscCode ?? ''}`, { width: 220 });
+      paymentY = doc.y + 10;
+    }
+    if (qrImage && paymentQr) {
+      doc.image(qrImage, PAGE_MARGIN, paymentY, { width: 90 });
+      doc.fontSize(8).font('Helvetica').text(paymentQr.name || 'Scan to pay', PAGE_MARGIN + 100, paymentY + 35, { width: 120 });
+    }
+  }
+
+  if (invoice.notes) {
+    doc.fontSize(8).font('Helvetica').text(invoice.notes, PAGE_MARGIN, Math.max(doc.y, totalsBottom) + 20, { width: pageWidth });
+  }
+
+  doc.fontSize(8).font('Helvetica')
+    .text('This is a computer generated document.', PAGE_MARGIN, doc.page.height - PAGE_MARGIN - 10, { width: pageWidth, align: 'center' });
+
+  doc.end();
+  return finished;
+}
@@ -0,0 +1,184 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EMAIL_PROVIDERS } from '@omsms/shared';
+import { config as appConfig, Config } from '../config/environment';
+import { logger } from './logger';
+
+export type MailConfig = Config['email'];
+
+export interface MailAttachment {
+  filename: string;
+  path?: string;
+  content?: Buffer | string;
+  contentType?: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  from?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailResult {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+}
+
+export interface MailProvider {
+  send(message: MailMessage & { from: string }): Promise<MailResult>;
+}
+
+export class ConsoleMailProvider implements MailProvider {
+  async send(message: MailMessage & { from: string }): Promise<MailResult> {
+    const messageId = `console-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+    // Bodies are left out: they carry password reset links
+    logger.info('Email (console provider)', {
+      messageId,
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      attachments: (message.attachments || []).map(attachment => attachment.filename)
+    });
+
+    return { messageId, accepted: [...message.to], rejected: [] };
+  }
+}
+
+export class SmtpMailProvider implements MailProvider {
+  private transporter: Transporter;
+
+  constructor(config: NonNullable<MailConfig['smtp']>) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<MailResult> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments
+    });
+
+    return {
+      messageId: info.messageId,
+      accepted: (info.accepted || []).map(String),
+      rejected: (info.rejected || []).map(String)
+    };
+  }
+}
+
+export class ResendMailProvider implements MailProvider {
+  private static readonly API_URL = 'https://api.resend.com/emails';
+  private config: NonNullable<MailConfig['resend']>;
+
+  constructor(config: NonNullable<MailConfig['resend']>) {
+    this.config = config;
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<MailResult> {
+    const attachments = await Promise.all(
+      (message.attachments || []).map(async attachment => {
+        const content = attachment.path
+          ? await fs.readFile(attachment.path)
+          : Buffer.from(attachment.content || '');
+        return { filename: attachment.filename, content: content.toString('base64') };
+      })
+    );
+
+    const response = await fetch(ResendMailProvider.API_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Resend API error: ${response.status} ${await response.text()}`);
+    }
+
+    const body = await response.json() as { id: string };
+    return { messageId: body.id, accepted: [...message.to], rejected: [] };
+  }
+}
+
+export class MailManager {
+  private provider: MailProvider;
+  private from: string;
+
+  constructor(config: MailConfig) {
+    this.from = config.from;
+
+    switch (config.provider) {
+      case EMAIL_PROVIDERS.SMTP:
+        if (!config.smtp) {
+          throw new Error('SMTP configuration is required');
+        }
+        this.provider = new SmtpMailProvider(config.smtp);
+        break;
+      case EMAIL_PROVIDERS.RESEND:
+        if (!config.resend) {
+          throw new Error('Resend configuration is required');
+        }
+        this.provider = new ResendMailProvider(config.resend);
+        break;
+      case EMAIL_PROVIDERS.CONSOLE:
+      default:
+        this.provider = new ConsoleMailProvider();
+        break;
+    }
+  }
+
+  async send(message: MailMessage): Promise<MailResult> {
+    if (message.to.length === 0) {
+      throw new Error('At least one recipient is required');
+    }
+
+    const attachments = message.attachments?.map(attachment => ({
+      ...attachment,
+      filename: attachment.filename || (attachment.path ? path.basename(attachment.path) : 'attachment')
+    }));
+
+    return this.provider.send({ ...message, from: message.from || this.from, attachments });
+  }
+}
+
+let mailManager: MailManager | null = null;
+
+/**
+ * Get the process-wide mail manager, created from EMAIL_* environment settings
+ */
+export function getMailManager(): MailManager {
+  if (!mailManager) {
+    mailManager = new MailManager(appConfig.email);
+  }
+  return mailManager;
+}
+
+/**
+ * Replace the process-wide mail manager (e.g. to point at a local SMTP stand-in)
+ */
+export function setMailManager(manager: MailManager | null): void {
+  mailManager = manager;
+}
@@ -1,5 +1,11 @@
 import sharp from 'sharp';
 import path from 'path';
+import os from 'os';
+import { promises as fs } from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
 
 export interface ImageProcessingOptions {
   resize?: {
@@ -10,6 +16,7 @@ export interface ImageProcessingOptions {
   quality?: number;
   format?: 'jpeg' | 'png' | 'webp';
   thumbnail?: boolean;
+  autoOrient?: boolean; // Rotate according to EXIF orientation before metadata is stripped
 }
 
 export interface ProcessedImage {
@@ -22,6 +29,33 @@ export interface ProcessedImage {
   };
 }
 
+export type ImageVariantName = 'original' | 'web' | 'thumbnail';
+export type MediaVariantName = ImageVariantName | 'poster';
+
+export interface VideoMetadata {
+  duration: number; // seconds
+  width: number;
+  height: number;
+  format: string;
+  size: number;
+  videoCodec: string;
+  audioCodec?: string;
+  frameRate?: number;
+  bitRate?: number;
+}
+
+/** A stored rendition of a media file, as recorded in MediaFile.variants */
+export interface MediaVariant {
+  filePath: string;
+  url: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+export type MediaVariants = Partial<Record<MediaVariantName, MediaVariant>>;
+
 export class MediaProcessor {
   /**
    * Process image with specified options
@@ -32,6 +66,12 @@ export class MediaProcessor {
   ): Promise<ProcessedImage> {
     let processor = sharp(inputBuffer);
 
+    // Output never carries EXIF/GPS metadata (sharp drops it unless withMetadata() is used),
+    // so apply the orientation it describes first
+    if (options.autoOrient) {
+      processor = processor.rotate();
+    }
+
     // Apply resize if specified
     if (options.resize) {
       processor = processor.resize({
@@ -77,7 +117,8 @@ export class MediaProcessor {
   }
 
   /**
-   * Generate multiple image variants (original, thumbnail, web-optimized)
+   * Generate multiple image variants (original, thumbnail, web-optimized),
+   * all upright and stripped of EXIF/GPS metadata
    */
   static async generateImageVariants(
     inputBuffer: Buffer,
@@ -91,27 +132,44 @@ export class MediaProcessor {
       // Original (lightly optimized)
       this.processImage(inputBuffer, {
         quality: 90,
-        format: this.getOptimalFormat(originalFilename)
+        format: this.getOptimalFormat(originalFilename),
+        autoOrient: true
       }),
       
       // Thumbnail
       this.processImage(inputBuffer, {
         resize: { width: 300, height: 300, fit: 'cover' },
         quality: 80,
-        format: 'jpeg'
+        format: 'jpeg',
+        autoOrient: true
       }),
       
       // Web-optimized
       this.processImage(inputBuffer, {
         resize: { width: 1200, height: 1200, fit: 'inside' },
         quality: 75,
-        format: 'webp'
+        format: 'webp',
+        autoOrient: true
       })
     ]);
 
     return { original, thumbnail, webOptimized };
   }
 
+  /**
+   * Get MIME type and file extension for a processed image format
+   */
+  static getImageFormatInfo(format: string): { mimeType: string; extension: string } {
+    switch (format) {
+      case 'png':
+        return { mimeType: 'image/png', extension: 'png' };
+      case 'webp':
+        return { mimeType: 'image/webp', extension: 'webp' };
+      default:
+        return { mimeType: 'image/jpeg', extension: 'jpg' };
+    }
+  }
+
   /**
    * Extract metadata from image
    */
@@ -185,37 +243,157 @@ export class MediaProcessor {
   }
 
   /**
-   * Generate video thumbnail (placeholder for future implementation)
+   * Extract a poster frame from a video as a JPEG, at most 1200px wide
    */
-  static async generateVideoThumbnail(videoBuffer: Buffer): Promise<Buffer> {
-    // TODO: Implement video thumbnail generation using ffmpeg
-    throw new Error('Video thumbnail generation not yet implemented');
+  static async generateVideoThumbnail(videoBuffer: Buffer, atSeconds: number = 1): Promise<Buffer> {
+    return this.withTempDir(async (dir) => {
+      const inputPath = path.join(dir, 'input');
+      const outputPath = path.join(dir, 'poster.jpg');
+      await fs.writeFile(inputPath, videoBuffer);
+
+      await this.runFfmpeg([
+        '-v', 'error',
+        '-ss', String(Math.max(0, atSeconds)),
+        '-i', inputPath,
+        '-frames:v', '1',
+        '-vf', "scale='min(1200,iw)':-2",
+        '-q:v', '3',
+        '-y', outputPath
+      ]);
+
+      const poster = await fs.readFile(outputPath).catch(() => null);
+      if (!poster || poster.length === 0) {
+        throw new Error('Could not extract a frame from the video');
+      }
+      return poster;
+    });
   }
 
   /**
-   * Extract video metadata (placeholder for future implementation)
+   * Extract video metadata with ffprobe
    */
-  static async extractVideoMetadata(videoBuffer: Buffer): Promise<{
-    duration: number;
-    width: number;
-    height: number;
-    format: string;
-    size: number;
-  }> {
-    // TODO: Implement video metadata extraction using ffmpeg
-    throw new Error('Video metadata extraction not yet implemented');
+  static async extractVideoMetadata(videoBuffer: Buffer): Promise<VideoMetadata> {
+    return this.withTempDir(async (dir) => {
+      const inputPath = path.join(dir, 'input');
+      await fs.writeFile(inputPath, videoBuffer);
+
+      let probe: any;
+      try {
+        const { stdout } = await execFileAsync(this.getFfprobePath(), [
+          '-v', 'error',
+          '-print_format', 'json',
+          '-show_format',
+          '-show_streams',
+          inputPath
+        ], { timeout: this.getFfmpegTimeout(), maxBuffer: 10 * 1024 * 1024 });
+        probe = JSON.parse(stdout);
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+          throw new Error('ffprobe is not installed (set FFPROBE_PATH)');
+        }
+        throw new Error('Invalid or corrupt video file');
+      }
+
+      const streams: any[] = Array.isArray(probe?.streams) ? probe.streams : [];
+      const videoStream = streams.find(stream => stream.codec_type === 'video' && stream.disposition?.attached_pic !== 1);
+      const audioStream = streams.find(stream => stream.codec_type === 'audio');
+
+      if (!videoStream) {
+        throw new Error('File does not contain a video stream');
+      }
+
+      // Phone recordings are stored landscape with a rotation flag; report the displayed size
+      const rotation = Math.abs(Number(
+        videoStream.tags?.rotate ??
+        videoStream.side_data_list?.find((data: any) => data.rotation !== undefined)?.rotation ??
+        0
+      )) % 180;
+      const width = Number(videoStream.width) || 0;
+      const height = Number(videoStream.height) || 0;
+
+      const [frameNumerator, frameDenominator] = String(videoStream.avg_frame_rate || '0/0').split('/').map(Number);
+
+      return {
+        duration: Number(probe.format?.duration ?? videoStream.duration) || 0,
+        width: rotation === 90 ? height : width,
+        height: rotation === 90 ? width : height,
+        format: String(probe.format?.format_name || 'unknown'),
+        size: videoBuffer.length,
+        videoCodec: String(videoStream.codec_name || 'unknown'),
+        audioCodec: audioStream?.codec_name,
+        frameRate: frameDenominator ? Math.round((frameNumerator / frameDenominator) * 100) / 100 : undefined,
+        bitRate: Number(probe.format?.bit_rate) || undefined
+      };
+    });
   }
 
   /**
-   * Validate video file (placeholder for future implementation)
+   * Validate video file: size, a decodable video stream and maximum duration.
+   * Returns the probed metadata so callers don't probe twice.
    */
-  static async validateVideo(buffer: Buffer, maxSize: number = 100 * 1024 * 1024): Promise<void> {
+  static async validateVideo(
+    buffer: Buffer,
+    maxSize: number = 100 * 1024 * 1024,
+    maxDurationSeconds: number = this.getMaxVideoDuration()
+  ): Promise<VideoMetadata> {
     // Check file size
     if (buffer.length > maxSize) {
       throw new Error(`Video size ${buffer.length} exceeds maximum allowed size of ${maxSize} bytes`);
     }
 
-    // TODO: Implement video validation
+    const metadata = await this.extractVideoMetadata(buffer);
+
+    if (!metadata.width || !metadata.height || metadata.duration <= 0) {
+      throw new Error('Invalid or corrupt video file');
+    }
+
+    if (metadata.duration > maxDurationSeconds) {
+      throw new Error(`Video duration ${Math.round(metadata.duration)}s exceeds maximum allowed duration of ${maxDurationSeconds}s`);
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Whether a video has to be transcoded to play in browsers (H.264 MP4 or VP8/VP9/AV1 WebM)
+   */
+  static needsTranscode(metadata: Pick<VideoMetadata, 'format' | 'videoCodec'>): boolean {
+    const containers = metadata.format.split(',');
+
+    if (containers.includes('mp4')) {
+      return !['h264', 'av1'].includes(metadata.videoCodec);
+    }
+    if (containers.includes('webm')) {
+      return !['vp8', 'vp9', 'av1'].includes(metadata.videoCodec);
+    }
+    return true;
+  }
+
+  /**
+   * Transcode a video to H.264/AAC MP4 with the index at the front for progressive playback
+   */
+  static async transcodeToMp4(videoBuffer: Buffer): Promise<Buffer> {
+    return this.withTempDir(async (dir) => {
+      const inputPath = path.join(dir, 'input');
+      const outputPath = path.join(dir, 'output.mp4');
+      await fs.writeFile(inputPath, videoBuffer);
+
+      await this.runFfmpeg([
+        '-v', 'error',
+        '-i', inputPath,
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-crf', '23',
+        '-pix_fmt', 'yuv420p',
+        '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+        '-c:a', 'aac',
+        '-b:a', '128k',
+        '-movflags', '+faststart',
+        '-y', outputPath
+      ]);
+
+      return fs.readFile(outputPath);
+    });
   }
 
   /**
@@ -288,4 +466,47 @@ export class MediaProcessor {
         return 10 * 1024 * 1024; // 10MB
     }
   }
+
+  private static getFfmpegPath(): string {
+    return process.env.FFMPEG_PATH || 'ffmpeg';
+  }
+
+  private static getFfprobePath(): string {
+    return process.env.FFPROBE_PATH || 'ffprobe';
+  }
+
+  private static getFfmpegTimeout(): number {
+    return parseInt(process.env.FFMPEG_TIMEOUT_MS || '300000', 10);
+  }
+
+  private static getMaxVideoDuration(): number {
+    return parseInt(process.env.MEDIA_MAX_VIDEO_DURATION_SECONDS || '600', 10);
+  }
+
+  private static async runFfmpeg(args: string[]): Promise<void> {
+    try {
+      await execFileAsync(this.getFfmpegPath(), args, {
+        timeout: this.getFfmpegTimeout(),
+        maxBuffer: 10 * 1024 * 1024
+      });
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        throw new Error('ffmpeg is not installed (set FFMPEG_PATH)');
+      }
+      const detail = String(error?.stderr || error?.message || '').trim().split('\n').pop();
+      throw new Error(`ffmpeg failed: ${detail || 'unknown error'}`);
+    }
+  }
+
+  /**
+   * ffmpeg needs seekable input, so buffers are staged in a scratch directory
+   */
+  private static async withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'omsms-media-'));
+    try {
+      return await fn(dir);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,365 @@
+import { masterDb } from './database';
+import { logger } from './logger';
+import { PerformanceOptimizer, MinuteMetrics, RequestTotals } from './performance';
+import type { MetricRollup } from '../../packages/database/generated/master-client';
+
+export const METRIC_RESOLUTIONS = ['1m', '1h', '1d'] as const;
+
+export const TIME_SERIES_METRICS = [
+  'requests',
+  'error_rate',
+  'latency_avg',
+  'latency_max',
+  'db_queries',
+  'db_time_avg',
+  'db_time_max'
+] as const;
+
+export type MetricResolution = typeof METRIC_RESOLUTIONS[number];
+export type TimeSeriesMetric = typeof TIME_SERIES_METRICS[number];
+
+export interface TimeSeriesPoint {
+  timestamp: Date;
+  value: number | null; // null for ratios and averages of buckets without traffic
+}
+
+export interface TimeSeriesQuery {
+  metric: TimeSeriesMetric;
+  resolution: MetricResolution;
+  from: Date;
+  to: Date;
+  tenantId?: string;
+}
+
+export interface MetricForecast {
+  current: number | null; // Latest complete day
+  predicted: TimeSeriesPoint[];
+  trend: 'increasing' | 'decreasing' | 'stable';
+  confidence: number; // R² of the fit, 0-1
+  basedOnDays: number;
+}
+
+/**
+ * A time-series query cannot be answered as asked
+ */
+export class MetricsQueryError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public code: string = 'METRICS_QUERY_ERROR'
+  ) {
+    super(message);
+    this.name = 'MetricsQueryError';
+  }
+}
+
+const PLATFORM_SUBJECT = 'platform';
+
+const RESOLUTION_MS: Record<MetricResolution, number> = {
+  '1m': 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+const MAX_SERIES_POINTS = 2000;
+const FORECAST_HISTORY_DAYS = 30;
+const MIN_FORECAST_DAYS = 3;
+const STABLE_WEEKLY_CHANGE = 0.05; // Projected weekly change below 5% of the mean
+
+const COUNT_METRICS: TimeSeriesMetric[] = ['requests', 'db_queries'];
+
+const truncate = (date: Date, resolution: MetricResolution) =>
+  new Date(date.getTime() - (date.getTime() % RESOLUTION_MS[resolution]));
+
+/**
+ * Durable request and database metrics. Every minute the per-minute totals
+ * collected by PerformanceOptimizer are written as 1m rollups (added to, so
+ * several instances can share the table), the current and previous hour and
+ * day are recomputed from the finer tier, tenants' daily API call counts are
+ * copied into TenantAnalytics, and rows past each tier's retention are pruned.
+ */
+export class MetricsRollup {
+  private static readonly POLL_INTERVAL_MS = 60 * 1000;
+
+  // Retention per tier, overridable with METRICS_RETENTION_* (hours for 1m, days otherwise)
+  private static readonly DEFAULT_RETENTION_MS: Record<MetricResolution, number> = {
+    '1m': 48 * 60 * 60 * 1000,
+    '1h': 30 * RESOLUTION_MS['1d'],
+    '1d': 365 * RESOLUTION_MS['1d']
+  };
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static ticking = false;
+
+  /**
+   * Start writing rollups every minute
+   */
+  static initialize(): void {
+    if (process.env.METRICS_ROLLUP_ENABLED === 'false' || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Metrics rollup failed:', error));
+    }, this.POLL_INTERVAL_MS);
+    this.timer.unref();
+
+    logger.info('Metrics rollup initialized');
+  }
+
+  /**
+   * Stop writing rollups (used on shutdown)
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  static async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      await this.flushMinutes(PerformanceOptimizer.drainMinuteMetrics(now));
+      await this.downsample('1m', '1h', new Date(truncate(now, '1h').getTime() - RESOLUTION_MS['1h']));
+      await this.downsample('1h', '1d', new Date(truncate(now, '1d').getTime() - RESOLUTION_MS['1d']));
+      await this.updateTenantApiCalls(new Date(truncate(now, '1d').getTime() - RESOLUTION_MS['1d']));
+      await this.prune(now);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * One metric over a time range, with a point for every bucket (gaps filled)
+   */
+  static async getSeries(query: TimeSeriesQuery): Promise<TimeSeriesPoint[]> {
+    const step = RESOLUTION_MS[query.resolution];
+    const from = truncate(query.from, query.resolution);
+
+    if ((query.to.getTime() - from.getTime()) / step > MAX_SERIES_POINTS) {
+      throw new MetricsQueryError(
+        `Too many points for ${query.resolution} resolution; choose a coarser resolution or a shorter period`,
+        400,
+        'TOO_MANY_POINTS'
+      );
+    }
+
+    const rows = await masterDb.metricRollup.findMany({
+      where: {
+        resolution: query.resolution,
+        subject: query.tenantId || PLATFORM_SUBJECT,
+        bucketStart: { gte: from, lte: query.to }
+      },
+      orderBy: { bucketStart: 'asc' }
+    });
+    const rowsByBucket = new Map(rows.map(row => [row.bucketStart.getTime(), row]));
+
+    const points: TimeSeriesPoint[] = [];
+    for (let bucket = from.getTime(); bucket <= query.to.getTime(); bucket += step) {
+      const row = rowsByBucket.get(bucket);
+      points.push({
+        timestamp: new Date(bucket),
+        value: row ? this.readValue(query.metric, row) : COUNT_METRICS.includes(query.metric) ? 0 : null
+      });
+    }
+
+    return points;
+  }
+
+  /**
+   * Project a metric's daily values `horizonDays` ahead with a linear fit
+   * over the last FORECAST_HISTORY_DAYS complete days
+   */
+  static async getForecast(metric: TimeSeriesMetric, horizonDays: number, tenantId?: string): Promise<MetricForecast> {
+    const today = truncate(new Date(), '1d');
+    // Only days with data: a day without a rollup predates collection or had no traffic at all
+    const rows = await masterDb.metricRollup.findMany({
+      where: {
+        resolution: '1d',
+        subject: tenantId || PLATFORM_SUBJECT,
+        bucketStart: { gte: new Date(today.getTime() - FORECAST_HISTORY_DAYS * RESOLUTION_MS['1d']), lt: today }
+      },
+      orderBy: { bucketStart: 'asc' }
+    });
+    const history = rows
+      .map(row => ({ timestamp: row.bucketStart, value: this.readValue(metric, row) }))
+      .filter((point): point is { timestamp: Date; value: number } => point.value !== null);
+
+    if (history.length < MIN_FORECAST_DAYS) {
+      return {
+        current: history.length > 0 ? history[history.length - 1].value : null,
+        predicted: [],
+        trend: 'stable',
+        confidence: 0,
+        basedOnDays: history.length
+      };
+    }
+
+    // Least squares over day offsets from the start of the history
+    const xs = history.map(point => (point.timestamp.getTime() - history[0].timestamp.getTime()) / RESOLUTION_MS['1d']);
+    const ys = history.map(point => point.value);
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let i = 0; i < xs.length; i++) {
+      covariance += (xs[i] - meanX) * (ys[i] - meanY);
+      varianceX += (xs[i] - meanX) ** 2;
+      varianceY += (ys[i] - meanY) ** 2;
+    }
+
+    const slope = varianceX > 0 ? covariance / varianceX : 0;
+    const intercept = meanY - slope * meanX;
+    const rSquared = varianceX > 0 && varianceY > 0 ? (covariance * covariance) / (varianceX * varianceY) : 0;
+
+    const lastX = xs[xs.length - 1];
+    const predicted: TimeSeriesPoint[] = [];
+    for (let day = 1; day <= horizonDays; day++) {
+      const value = Math.max(0, intercept + slope * (lastX + day));
+      predicted.push({
+        timestamp: new Date(history[0].timestamp.getTime() + (lastX + day) * RESOLUTION_MS['1d']),
+        value: Math.round(value * 100) / 100
+      });
+    }
+
+    const weeklyChange = meanY !== 0 ? Math.abs(slope * 7 / meanY) : 0;
+
+    return {
+      current: ys[ys.length - 1],
+      predicted,
+      trend: weeklyChange < STABLE_WEEKLY_CHANGE ? 'stable' : slope > 0 ? 'increasing' : 'decreasing',
+      confidence: Math.round(rSquared * 100) / 100,
+      basedOnDays: history.length
+    };
+  }
+
+  /**
+   * Resolution to use when a query doesn't specify one
+   */
+  static defaultResolution(periodMs: number): MetricResolution {
+    if (periodMs <= 6 * RESOLUTION_MS['1h']) return '1m';
+    if (periodMs <= 7 * RESOLUTION_MS['1d']) return '1h';
+    return '1d';
+  }
+
+  // Private helper methods
+
+  private static readValue(metric: TimeSeriesMetric, row: MetricRollup): number | null {
+    switch (metric) {
+      case 'requests':
+        return row.requestCount;
+      case 'error_rate':
+        return row.requestCount > 0 ? (row.errorCount / row.requestCount) * 100 : null;
+      case 'latency_avg':
+        return row.requestCount > 0 ? row.latencySum / row.requestCount : null;
+      case 'latency_max':
+        return row.requestCount > 0 ? row.latencyMax : null;
+      case 'db_queries':
+        return row.dbQueryCount;
+      case 'db_time_avg':
+        return row.dbQueryCount > 0 ? row.dbTimeSum / row.dbQueryCount : null;
+      case 'db_time_max':
+        return row.dbQueryCount > 0 ? row.dbTimeMax : null;
+    }
+  }
+
+  private static async flushMinutes(minutes: MinuteMetrics[]): Promise<void> {
+    if (minutes.length === 0) return;
+
+    // Requests are tracked by subdomain; rollups are kept by tenant ID
+    const subdomains = [...new Set(minutes.flatMap(minute => [...minute.tenants.keys()]))];
+    const tenants = subdomains.length > 0
+      ? await masterDb.tenant.findMany({ where: { subdomain: { in: subdomains } }, select: { tenantId: true, subdomain: true } })
+      : [];
+    const tenantIds = new Map(tenants.map(tenant => [tenant.subdomain, tenant.tenantId]));
+
+    const rows: Array<{ minute: Date; subject: string; tenantId: string | null; totals: RequestTotals }> = [];
+    for (const minute of minutes) {
+      rows.push({ minute: minute.minute, subject: PLATFORM_SUBJECT, tenantId: null, totals: minute.platform });
+
+      for (const [subdomain, totals] of minute.tenants.entries()) {
+        const tenantId = tenantIds.get(subdomain);
+        if (tenantId) {
+          rows.push({ minute: minute.minute, subject: tenantId, tenantId, totals });
+        }
+      }
+    }
+
+    // Raw queries pass dates as ISO strings cast to timestamp: Prisma stores DateTime as UTC without a zone
+    try {
+      await masterDb.$transaction(rows.map(({ minute, subject, tenantId, totals }) => masterDb.$executeRaw`
+        INSERT INTO metric_rollups (resolution, bucket_start, subject, tenant_id, request_count, error_count,
+          latency_sum, latency_max, db_query_count, db_time_sum, db_time_max)
+        VALUES ('1m', ${minute.toISOString()}::timestamp, ${subject}, ${tenantId}, ${totals.requests}, ${totals.errors},
+          ${totals.latencySum}, ${totals.latencyMax}, ${totals.dbQueries}, ${totals.dbTimeSum}, ${totals.dbTimeMax})
+        ON CONFLICT (resolution, subject, bucket_start) DO UPDATE SET
+          request_count = metric_rollups.request_count + EXCLUDED.request_count,
+          error_count = metric_rollups.error_count + EXCLUDED.error_count,
+          latency_sum = metric_rollups.latency_sum + EXCLUDED.latency_sum,
+          latency_max = GREATEST(metric_rollups.latency_max, EXCLUDED.latency_max),
+          db_query_count = metric_rollups.db_query_count + EXCLUDED.db_query_count,
+          db_time_sum = metric_rollups.db_time_sum + EXCLUDED.db_time_sum,
+          db_time_max = GREATEST(metric_rollups.db_time_max, EXCLUDED.db_time_max)
+      `));
+    } catch (error) {
+      logger.error(`Failed to write ${minutes.length} minute(s) of metrics; they are lost`, error);
+    }
+  }
+
+  /**
+   * Recompute `target` buckets from `from` onwards out of the finer `source` tier
+   */
+  private static async downsample(source: MetricResolution, target: MetricResolution, from: Date): Promise<void> {
+    const unit = target === '1h' ? 'hour' : 'day';
+
+    await masterDb.$executeRaw`
+      INSERT INTO metric_rollups (resolution, bucket_start, subject, tenant_id, request_count, error_count,
+        latency_sum, latency_max, db_query_count, db_time_sum, db_time_max)
+      SELECT ${target}, date_trunc(${unit}, bucket_start), subject, MAX(tenant_id), SUM(request_count), SUM(error_count),
+        SUM(latency_sum), MAX(latency_max), SUM(db_query_count), SUM(db_time_sum), MAX(db_time_max)
+      FROM metric_rollups
+      WHERE resolution = ${source} AND bucket_start >= ${from.toISOString()}::timestamp
+      GROUP BY 2, subject
+      ON CONFLICT (resolution, subject, bucket_start) DO UPDATE SET
+        request_count = EXCLUDED.request_count,
+        error_count = EXCLUDED.error_count,
+        latency_sum = EXCLUDED.latency_sum,
+        latency_max = EXCLUDED.latency_max,
+        db_query_count = EXCLUDED.db_query_count,
+        db_time_sum = EXCLUDED.db_time_sum,
+        db_time_max = EXCLUDED.db_time_max
+    `;
+  }
+
+  /**
+   * Copy tenants' daily request counts into TenantAnalytics.apiCallsCount
+   */
+  private static async updateTenantApiCalls(from: Date): Promise<void> {
+    await masterDb.$executeRaw`
+      INSERT INTO tenant_analytics (analytics_id, tenant_id, date_period, api_calls_count)
+      SELECT gen_random_uuid()::text, tenant_id, bucket_start::date, request_count
+      FROM metric_rollups
+      WHERE resolution = '1d' AND tenant_id IS NOT NULL AND bucket_start >= ${from.toISOString()}::timestamp
+      ON CONFLICT (tenant_id, date_period) DO UPDATE SET api_calls_count = EXCLUDED.api_calls_count
+    `;
+  }
+
+  private static async prune(now: Date): Promise<void> {
+    const retention: Record<MetricResolution, number> = {
+      '1m': Number(process.env.METRICS_RETENTION_MINUTE_HOURS) * RESOLUTION_MS['1h'] || this.DEFAULT_RETENTION_MS['1m'],
+      '1h': Number(process.env.METRICS_RETENTION_HOURLY_DAYS) * RESOLUTION_MS['1d'] || this.DEFAULT_RETENTION_MS['1h'],
+      '1d': Number(process.env.METRICS_RETENTION_DAILY_DAYS) * RESOLUTION_MS['1d'] || this.DEFAULT_RETENTION_MS['1d']
+    };
+
+    for (const resolution of METRIC_RESOLUTIONS) {
+      await masterDb.metricRollup.deleteMany({
+        where: { resolution, bucketStart: { lt: new Date(now.getTime() - retention[resolution]) } }
+      });
+    }
+  }
+}
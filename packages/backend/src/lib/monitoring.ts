@@ -6,12 +6,6 @@ export interface MonitoringConfig {
   enabled: boolean;
   metricsEndpoint: string;
   healthCheckEndpoint: string;
-  alerts: {
-    responseTimeThreshold: number;
-    errorRateThreshold: number;
-    memoryThreshold: number;
-    cpuThreshold: number;
-  };
   retention: {
     metrics: number; // days
     logs: number; // days
@@ -46,13 +40,18 @@ export interface ServiceHealth {
   error?: string;
 }
 
-export interface AlertRule {
-  name: string;
-  condition: string;
-  threshold: number;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  enabled: boolean;
-  channels: string[];
+export interface RequestStats {
+  requests: number;
+  errors: number; // 5xx responses
+  errorRate: number; // Percent
+  averageResponseTime: number | null; // ms; null without requests
+  requestsPerMinute: number;
+}
+
+interface RequestBucket {
+  requests: number;
+  errors: number;
+  durationSum: number;
 }
 
 export class MonitoringService {
@@ -60,12 +59,6 @@ export class MonitoringService {
     enabled: process.env.ENABLE_MONITORING === 'true',
     metricsEndpoint: '/metrics',
     healthCheckEndpoint: '/health',
-    alerts: {
-      responseTimeThreshold: 1000, // 1 second
-      errorRateThreshold: 5, // 5%
-      memoryThreshold: 512 * 1024 * 1024, // 512MB
-      cpuThreshold: 80 // 80%
-    },
     retention: {
       metrics: 30,
       logs: 7,
@@ -74,9 +67,12 @@ export class MonitoringService {
   };
 
   private static metrics: Map<string, any> = new Map();
-  private static alerts: AlertRule[] = [];
+  private static requestBuckets: Map<number, { total: RequestBucket; tenants: Map<string, RequestBucket> }> = new Map();
   private static healthChecks: Map<string, () => Promise<ServiceHealth>> = new Map();
 
+  // Per-minute request counts kept for windowed stats (alert rules)
+  static readonly REQUEST_STATS_RETENTION_MINUTES = 60;
+
   /**
    * Initialize monitoring service
    */
@@ -85,7 +81,6 @@ export class MonitoringService {
     
     if (this.config.enabled) {
       this.setupDefaultHealthChecks();
-      this.setupDefaultAlerts();
       this.startMetricsCollection();
       logger.info('Monitoring service initialized');
     }
@@ -156,8 +151,8 @@ export class MonitoringService {
 
         this.recordMetric('memory_usage_bytes', endMemory.heapUsed);
 
-        // Check for alerts
-        this.checkAlerts(duration, endMemory.heapUsed, res.statusCode);
+        // Tenant context is attached after this middleware, but before the response finishes
+        this.recordRequest(duration, res.statusCode, req.tenantId);
       });
 
       next();
@@ -311,10 +306,47 @@ export class MonitoringService {
   }
 
   /**
-   * Add alert rule
+   * Request count, error rate and latency over the last `windowMinutes`
+   * (up to REQUEST_STATS_RETENTION_MINUTES), platform-wide or for one tenant
    */
-  static addAlertRule(rule: AlertRule): void {
-    this.alerts.push(rule);
+  static getRequestStats(windowMinutes: number, tenantId?: string): RequestStats {
+    const minutes = Math.min(Math.max(1, windowMinutes), this.REQUEST_STATS_RETENTION_MINUTES);
+    const since = this.getMinute(Date.now()) - (minutes - 1) * 60000;
+    const totals: RequestBucket = { requests: 0, errors: 0, durationSum: 0 };
+
+    for (const [minute, bucket] of this.requestBuckets.entries()) {
+      if (minute < since) continue;
+
+      const source = tenantId ? bucket.tenants.get(tenantId) : bucket.total;
+      if (source) {
+        totals.requests += source.requests;
+        totals.errors += source.errors;
+        totals.durationSum += source.durationSum;
+      }
+    }
+
+    return {
+      requests: totals.requests,
+      errors: totals.errors,
+      errorRate: totals.requests > 0 ? (totals.errors / totals.requests) * 100 : 0,
+      averageResponseTime: totals.requests > 0 ? totals.durationSum / totals.requests : null,
+      requestsPerMinute: totals.requests / minutes
+    };
+  }
+
+  /**
+   * Average of a recorded metric's samples over the last `windowMinutes`, or null without samples
+   */
+  static getMetricAverage(name: string, windowMinutes: number, labels?: Record<string, string>): number | null {
+    const metric = this.metrics.get(this.getMetricKey(name, labels));
+    if (!metric?.values) return null;
+
+    const since = Date.now() - windowMinutes * 60000;
+    const values: number[] = metric.values
+      .filter((sample: { timestamp: number }) => sample.timestamp >= since)
+      .map((sample: { value: number }) => sample.value);
+
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
   }
 
   /**
@@ -422,35 +454,6 @@ export class MonitoringService {
     });
   }
 
-  private static setupDefaultAlerts(): void {
-    this.addAlertRule({
-      name: 'high_response_time',
-      condition: 'avg_response_time > threshold',
-      threshold: this.config.alerts.responseTimeThreshold,
-      severity: 'medium',
-      enabled: true,
-      channels: ['email', 'slack']
-    });
-
-    this.addAlertRule({
-      name: 'high_error_rate',
-      condition: 'error_rate > threshold',
-      threshold: this.config.alerts.errorRateThreshold,
-      severity: 'high',
-      enabled: true,
-      channels: ['email', 'slack', 'pagerduty']
-    });
-
-    this.addAlertRule({
-      name: 'high_memory_usage',
-      condition: 'memory_usage > threshold',
-      threshold: this.config.alerts.memoryThreshold,
-      severity: 'medium',
-      enabled: true,
-      channels: ['email']
-    });
-  }
-
   private static async checkService(serviceName: string): Promise<ServiceHealth> {
     const checkFn = this.healthChecks.get(serviceName);
     if (checkFn) {
@@ -499,41 +502,40 @@ export class MonitoringService {
     return total > 0 ? (errorRequests / total) * 100 : 0;
   }
 
-  private static checkAlerts(responseTime: number, memoryUsage: number, statusCode: number): void {
-    // Check response time alert
-    if (responseTime > this.config.alerts.responseTimeThreshold) {
-      this.triggerAlert('high_response_time', { responseTime });
+  private static recordRequest(duration: number, statusCode: number, tenantId?: string): void {
+    const minute = this.getMinute(Date.now());
+    let bucket = this.requestBuckets.get(minute);
+
+    if (!bucket) {
+      bucket = { total: { requests: 0, errors: 0, durationSum: 0 }, tenants: new Map() };
+      this.requestBuckets.set(minute, bucket);
+
+      // Drop buckets that have aged out of every window
+      const oldest = minute - this.REQUEST_STATS_RETENTION_MINUTES * 60000;
+      for (const key of this.requestBuckets.keys()) {
+        if (key <= oldest) this.requestBuckets.delete(key);
+      }
     }
 
-    // Check memory usage alert
-    if (memoryUsage > this.config.alerts.memoryThreshold) {
-      this.triggerAlert('high_memory_usage', { memoryUsage });
+    const targets = [bucket.total];
+    if (tenantId) {
+      let tenantBucket = bucket.tenants.get(tenantId);
+      if (!tenantBucket) {
+        tenantBucket = { requests: 0, errors: 0, durationSum: 0 };
+        bucket.tenants.set(tenantId, tenantBucket);
+      }
+      targets.push(tenantBucket);
     }
 
-    // Check error rate alert
-    const errorRate = this.calculateErrorRate();
-    if (errorRate > this.config.alerts.errorRateThreshold) {
-      this.triggerAlert('high_error_rate', { errorRate });
+    for (const target of targets) {
+      target.requests++;
+      target.durationSum += duration;
+      if (statusCode >= 500) target.errors++;
     }
   }
 
-  private static triggerAlert(alertName: string, data: any): void {
-    const alert = this.alerts.find(a => a.name === alertName);
-    if (!alert || !alert.enabled) return;
-
-    logger.warn(`Alert triggered: ${alertName}`, {
-      alert: alert.name,
-      severity: alert.severity,
-      threshold: alert.threshold,
-      data
-    });
-
-    // In production, send alerts to configured channels
-    // This could integrate with:
-    // - Email services
-    // - Slack/Teams
-    // - PagerDuty
-    // - SMS services
+  private static getMinute(timestamp: number): number {
+    return timestamp - (timestamp % 60000);
   }
 
   private static startMetricsCollection(): void {
@@ -0,0 +1,57 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getTenantDb } from './database';
+import { sendNotification, NotificationEvent } from './realTimeEvents';
+
+export interface NotifyUsersInput {
+  recipientIds: string[];
+  type: NotificationEvent['type'];
+  title: string;
+  message: string;
+  action?: {
+    label: string;
+    url: string;
+  };
+  entityType?: string;
+  entityId?: string;
+  createdBy?: string;
+}
+
+/**
+ * Store an in-app notification for each recipient and push it over the socket
+ */
+export async function notifyUsers(tenantId: string, input: NotifyUsersInput): Promise<string | null> {
+  const recipientIds = [...new Set(input.recipientIds)];
+  if (recipientIds.length === 0) {
+    return null;
+  }
+
+  const tenantDb = await getTenantDb(tenantId);
+  const notificationId = uuidv4();
+
+  await tenantDb.notification.createMany({
+    data: recipientIds.map(userId => ({
+      notificationId,
+      userId,
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      actionLabel: input.action?.label,
+      actionUrl: input.action?.url,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      createdBy: input.createdBy
+    }))
+  });
+
+  sendNotification(tenantId, {
+    id: notificationId,
+    type: input.type,
+    title: input.title,
+    message: input.message,
+    recipientIds,
+    action: input.action,
+    timestamp: new Date()
+  });
+
+  return notificationId;
+}
@@ -0,0 +1,222 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+/**
+ * A URL configured by a tenant points somewhere the server must not call
+ * (not http(s), or a loopback, private, link-local or metadata address)
+ */
+export class OutboundUrlError extends Error {
+  constructor(message: string, public statusCode: number = 400, public code: string = 'URL_NOT_ALLOWED') {
+    super(message);
+    this.name = 'OutboundUrlError';
+  }
+}
+
+export interface OutboundResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer; // At most `maxResponseBytes`
+}
+
+// Loopback, private, carrier-grade NAT, link-local (cloud metadata), multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-compatible (deprecated), unique local, link-local, multicast and NAT64
+for (const [network, prefix] of [
+  ['::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8], ['64:ff9b::', 96], ['64:ff9b:1::', 48]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const allowPrivateNetworks = () => process.env.OUTBOUND_ALLOW_PRIVATE_NETWORKS === 'true';
+
+/**
+ * The eight 16-bit groups of an IPv6 address, with a trailing dotted IPv4 part
+ * converted to two groups
+ */
+function ipv6Groups(address: string): number[] {
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[2].split('.').map(Number);
+    address = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = address.split('::');
+  const parse = (part?: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const start = parse(head);
+  const end = parse(tail);
+
+  return tail === undefined ? start : [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+/**
+ * The IPv4 address an IPv6 address carries: IPv4-mapped (::ffff:a.b.c.d),
+ * IPv4-translated (::ffff:0:a.b.c.d) or 6to4 (2002:aabb:ccdd::). Those reach
+ * the IPv4 host, so its rules apply.
+ */
+function embeddedIPv4(address: string): string | null {
+  const groups = ipv6Groups(address);
+  const toIPv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+
+  const mapped = groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff;
+  const translated = groups.slice(0, 4).every(group => group === 0) && groups[4] === 0xffff && groups[5] === 0;
+  if (mapped || translated) {
+    return toIPv4(groups[6], groups[7]);
+  }
+  if (groups[0] === 0x2002) {
+    return toIPv4(groups[1], groups[2]);
+  }
+  return null;
+}
+
+/**
+ * Whether an IP address is one outbound requests must not reach
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  if (family === 4) return BLOCKED_ADDRESSES.check(address, 'ipv4');
+
+  const ipv4 = embeddedIPv4(address.split('%')[0]);
+  return BLOCKED_ADDRESSES.check(address, 'ipv6') || (ipv4 !== null && BLOCKED_ADDRESSES.check(ipv4, 'ipv4'));
+}
+
+/**
+ * DNS lookup for outbound sockets that refuses blocked addresses. Checking at
+ * connect time (not only at registration) stops DNS rebinding.
+ */
+const guardedLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error);
+      return;
+    }
+
+    const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+    if (blocked && !allowPrivateNetworks()) {
+      callback(new OutboundUrlError(`${hostname} resolves to a private or reserved address`));
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as net.LookupFunction;
+
+function parseOutboundUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new OutboundUrlError('URL is invalid');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new OutboundUrlError('URL must use http or https');
+  }
+  if (parsed.username || parsed.password) {
+    throw new OutboundUrlError('URL must not contain credentials');
+  }
+
+  // IP literals skip the lookup, so check them here
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isBlockedAddress(host) && !allowPrivateNetworks()) {
+    throw new OutboundUrlError('URL points to a private or reserved address');
+  }
+
+  return parsed;
+}
+
+/**
+ * Check that a URL is http(s) and its host resolves only to public addresses.
+ * Use when the URL is saved; requests are checked again when sent.
+ */
+export async function assertPublicUrl(url: string): Promise<URL> {
+  const parsed = parseOutboundUrl(url);
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+
+  if (!net.isIP(host) && !allowPrivateNetworks()) {
+    let addresses: dns.LookupAddress[];
+    try {
+      addresses = await dns.promises.lookup(host, { all: true });
+    } catch {
+      throw new OutboundUrlError(`Host ${host} cannot be resolved`);
+    }
+    if (addresses.some(entry => isBlockedAddress(entry.address))) {
+      throw new OutboundUrlError(`${host} resolves to a private or reserved address`);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Make an HTTP request to a tenant-configured URL. Private and reserved
+ * addresses are refused, redirects are not followed (3xx is returned as is)
+ * and at most `maxResponseBytes` of the body are read.
+ */
+export async function outboundRequest(
+  url: string,
+  options: {
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string | Buffer;
+    timeoutMs: number;
+    maxResponseBytes: number;
+  }
+): Promise<OutboundResponse> {
+  const parsed = parseOutboundUrl(url);
+  const client = parsed.protocol === 'https:' ? https : http;
+
+  return new Promise<OutboundResponse>((resolve, reject) => {
+    const request = client.request(parsed, {
+      method: options.method || 'GET',
+      headers: options.body !== undefined
+        ? { ...options.headers, 'Content-Length': String(Buffer.byteLength(options.body)) }
+        : options.headers,
+      lookup: guardedLookup,
+      signal: AbortSignal.timeout(options.timeoutMs)
+    }, response => {
+      const chunks: Buffer[] = [];
+      let received = 0;
+      let settled = false;
+
+      const finish = () => {
+        if (settled) return;
+        settled = true;
+        resolve({ status: response.statusCode || 0, headers: response.headers, body: Buffer.concat(chunks) });
+      };
+
+      response.on('data', (chunk: Buffer) => {
+        if (received < options.maxResponseBytes) {
+          chunks.push(chunk.subarray(0, options.maxResponseBytes - received));
+        }
+        received += chunk.length;
+        if (received >= options.maxResponseBytes) {
+          finish();
+          response.destroy();
+        }
+      });
+      response.on('end', finish);
+      response.on('error', error => {
+        if (!settled) reject(error);
+      });
+    });
+
+    request.on('error', error => {
+      reject(error.name === 'AbortError' ? new Error(`Request timed out after ${options.timeoutMs}ms`) : error);
+    });
+
+    request.end(options.body);
+  });
+}
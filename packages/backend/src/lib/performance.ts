@@ -50,11 +50,31 @@ export interface PerformanceMetrics {
   cacheStats: CacheStats;
 }
 
+export interface RequestTotals {
+  requests: number;
+  errors: number; // 5xx responses
+  latencySum: number; // ms
+  latencyMax: number;
+  dbQueries: number;
+  dbTimeSum: number; // ms
+  dbTimeMax: number;
+}
+
+export interface MinuteMetrics {
+  minute: Date;
+  platform: RequestTotals;
+  tenants: Map<string, RequestTotals>; // By subdomain
+}
+
 export class PerformanceOptimizer {
   private static cache: NodeCache;
   private static metrics: PerformanceMetrics[] = [];
   private static readonly MAX_METRICS_HISTORY = 1000;
 
+  // Per-minute totals awaiting the metrics rollup; older minutes are dropped if it isn't running
+  private static minuteMetrics: Map<number, { platform: RequestTotals; tenants: Map<string, RequestTotals> }> = new Map();
+  private static readonly MAX_PENDING_MINUTES = 60;
+
   private static readonly DEFAULT_CONFIG: PerformanceConfig = {
     cache: {
       stdTTL: 600, // 10 minutes
@@ -195,6 +215,7 @@ export class PerformanceOptimizer {
 
         // Store metrics
         this.recordMetrics(duration, startMemory, endMemory);
+        this.recordRequest(duration, res.statusCode, req.tenantId);
       });
 
       next();
@@ -438,6 +459,34 @@ export class PerformanceOptimizer {
 
   // Private helper methods
 
+  /**
+   * Record a database query's duration (called from the Prisma query event)
+   */
+  static recordQuery(duration: number, tenantId?: string): void {
+    for (const totals of this.getMinuteTotals(tenantId)) {
+      totals.dbQueries++;
+      totals.dbTimeSum += duration;
+      totals.dbTimeMax = Math.max(totals.dbTimeMax, duration);
+    }
+  }
+
+  /**
+   * Remove and return the totals of every minute that ended before `now`
+   */
+  static drainMinuteMetrics(now: Date = new Date()): MinuteMetrics[] {
+    const currentMinute = this.getMinute(now.getTime());
+    const completed: MinuteMetrics[] = [];
+
+    for (const [minute, totals] of this.minuteMetrics.entries()) {
+      if (minute < currentMinute) {
+        completed.push({ minute: new Date(minute), ...totals });
+        this.minuteMetrics.delete(minute);
+      }
+    }
+
+    return completed.sort((a, b) => a.minute.getTime() - b.minute.getTime());
+  }
+
   private static generateCacheKey(req: Request): string {
     const baseKey = `${req.method}:${req.path}`;
     const queryString = Object.keys(req.query)
@@ -471,6 +520,52 @@ export class PerformanceOptimizer {
     }
   }
 
+  private static recordRequest(duration: number, statusCode: number, tenantId?: string): void {
+    for (const totals of this.getMinuteTotals(tenantId)) {
+      totals.requests++;
+      totals.latencySum += duration;
+      totals.latencyMax = Math.max(totals.latencyMax, duration);
+      if (statusCode >= 500) totals.errors++;
+    }
+  }
+
+  /**
+   * Platform totals of the current minute, plus the tenant's when given
+   */
+  private static getMinuteTotals(tenantId?: string): RequestTotals[] {
+    const minute = this.getMinute(Date.now());
+    let bucket = this.minuteMetrics.get(minute);
+
+    if (!bucket) {
+      bucket = { platform: this.emptyTotals(), tenants: new Map() };
+      this.minuteMetrics.set(minute, bucket);
+
+      const oldest = minute - this.MAX_PENDING_MINUTES * 60000;
+      for (const key of this.minuteMetrics.keys()) {
+        if (key <= oldest) this.minuteMetrics.delete(key);
+      }
+    }
+
+    if (!tenantId) {
+      return [bucket.platform];
+    }
+
+    let tenantTotals = bucket.tenants.get(tenantId);
+    if (!tenantTotals) {
+      tenantTotals = this.emptyTotals();
+      bucket.tenants.set(tenantId, tenantTotals);
+    }
+    return [bucket.platform, tenantTotals];
+  }
+
+  private static emptyTotals(): RequestTotals {
+    return { requests: 0, errors: 0, latencySum: 0, latencyMax: 0, dbQueries: 0, dbTimeSum: 0, dbTimeMax: 0 };
+  }
+
+  private static getMinute(timestamp: number): number {
+    return timestamp - (timestamp % 60000);
+  }
+
   private static measureEventLoopLag(): number {
     const start = process.hrtime.bigint();
     setImmediate(() => {
@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import type { JWTPayload } from './auth';
+
+export const VEHICLE_ASSIGNMENTS = ['salesperson', 'coordinator', 'supervisor', 'creator'] as const;
+export type VehicleAssignment = typeof VEHICLE_ASSIGNMENTS[number];
+
+/**
+ * Conditions attached to a role permission (`role_permissions.conditions`).
+ * A permission with conditions only grants access to the rows that satisfy
+ * all of them; an empty object means no restriction.
+ */
+export const permissionConditionsSchema = z.object({
+  // Only vehicles (and their payables) at the user's own location
+  ownLocation: z.boolean().optional(),
+  // Only vehicles where the user holds one of these assignments
+  assignedTo: z.array(z.enum(VEHICLE_ASSIGNMENTS)).min(1).optional(),
+  // Only payables/amounts up to this value
+  maxAmount: z.number().nonnegative().optional()
+}).strict();
+
+export type PermissionConditions = z.infer<typeof permissionConditionsSchema>;
+
+const ASSIGNMENT_FIELDS: Record<VehicleAssignment, string> = {
+  salesperson: 'salespersonId',
+  coordinator: 'coordinatorId',
+  supervisor: 'supervisorId',
+  creator: 'createdBy'
+};
+
+// Matches no vehicle; used when a condition can't be satisfied (e.g. no location)
+const NO_VEHICLES = { vehicleId: { in: [] as string[] } };
+
+function hasConditions(conditions: PermissionConditions | null | undefined): conditions is PermissionConditions {
+  return !!conditions && Object.keys(conditions).length > 0;
+}
+
+/**
+ * Permission map and per-permission conditions carried in the access token
+ */
+export function buildPermissionClaims(role: {
+  roleName: string;
+  rolePermissions: Array<{ resource: string; action: string; conditions?: unknown }>;
+}): Pick<JWTPayload, 'permissions' | 'conditions'> {
+  const permissions: Record<string, boolean> = {};
+  const conditions: Record<string, PermissionConditions> = {};
+
+  // Admin has all permissions, unconditionally
+  if (role.roleName === 'admin') {
+    permissions['*'] = true;
+    return { permissions };
+  }
+
+  role.rolePermissions.forEach(permission => {
+    const permissionKey = `${permission.resource}.${permission.action}`;
+    permissions[permissionKey] = true;
+
+    // Conditions that don't parse (legacy free-form values) are ignored rather than locking the user out
+    const parsed = permissionConditionsSchema.safeParse(permission.conditions ?? {});
+    if (parsed.success && hasConditions(parsed.data)) {
+      conditions[permissionKey] = parsed.data;
+    }
+  });
+
+  return Object.keys(conditions).length > 0 ? { permissions, conditions } : { permissions };
+}
+
+/**
+ * Conditions limiting a granted permission for this user, or null if unrestricted
+ */
+export function getPermissionConditions(user: JWTPayload | undefined, permission: string): PermissionConditions | null {
+  if (!user || user.permissions?.['*'] === true) {
+    return null;
+  }
+  const conditions = user.conditions?.[permission];
+  return hasConditions(conditions) ? conditions : null;
+}
+
+/**
+ * Vehicle filter enforcing the location and assignment conditions, or null if
+ * they don't restrict vehicles. Combine with the query's own filter using AND.
+ */
+export async function buildVehicleScope(
+  tenantDb: any,
+  user: JWTPayload | undefined,
+  conditions: PermissionConditions | null
+): Promise<Record<string, any> | null> {
+  if (!conditions || !user || (!conditions.ownLocation && !conditions.assignedTo)) {
+    return null;
+  }
+
+  const filters: Record<string, any>[] = [];
+
+  if (conditions.ownLocation) {
+    const account = await tenantDb.user.findUnique({
+      where: { userId: user.userId },
+      select: { locationId: true }
+    });
+    filters.push(account?.locationId ? { locationId: account.locationId } : NO_VEHICLES);
+  }
+
+  if (conditions.assignedTo) {
+    filters.push({
+      OR: conditions.assignedTo.map(assignment => ({ [ASSIGNMENT_FIELDS[assignment]]: user.userId }))
+    });
+  }
+
+  return filters.length === 1 ? filters[0] : { AND: filters };
+}
+
+/**
+ * Payment filter enforcing the vehicle and amount conditions, or null if unrestricted
+ */
+export async function buildPaymentScope(
+  tenantDb: any,
+  user: JWTPayload | undefined,
+  conditions: PermissionConditions | null
+): Promise<Record<string, any> | null> {
+  if (!conditions) {
+    return null;
+  }
+
+  const filters: Record<string, any>[] = [];
+  const vehicleScope = await buildVehicleScope(tenantDb, user, conditions);
+  if (vehicleScope) filters.push({ vehicle: vehicleScope });
+  if (conditions.maxAmount !== undefined) filters.push({ amount: { lte: conditions.maxAmount } });
+
+  if (filters.length === 0) return null;
+  return filters.length === 1 ? filters[0] : { AND: filters };
+}
+
+/**
+ * Combine a query filter with an access scope
+ */
+export function withScope(where: Record<string, any>, scope: Record<string, any> | null): Record<string, any> {
+  return scope ? { AND: [where, scope] } : where;
+}
+
+/**
+ * Whether a vehicle satisfies the location and assignment conditions
+ */
+export async function isVehicleInScope(
+  tenantDb: any,
+  user: JWTPayload | undefined,
+  conditions: PermissionConditions | null,
+  vehicleId: string
+): Promise<boolean> {
+  const scope = await buildVehicleScope(tenantDb, user, conditions);
+  if (!scope) return true;
+
+  const match = await tenantDb.vehicle.findFirst({
+    where: { AND: [{ vehicleId }, scope] },
+    select: { vehicleId: true }
+  });
+  return !!match;
+}
+
+/**
+ * Whether a payable satisfies the vehicle and amount conditions
+ */
+export async function isPaymentInScope(
+  tenantDb: any,
+  user: JWTPayload | undefined,
+  conditions: PermissionConditions | null,
+  paymentId: string
+): Promise<boolean> {
+  const scope = await buildPaymentScope(tenantDb, user, conditions);
+  if (!scope) return true;
+
+  const match = await tenantDb.payment.findFirst({
+    where: { AND: [{ paymentId }, scope] },
+    select: { paymentId: true }
+  });
+  return !!match;
+}
+
+/**
+ * Whether an amount is within the `maxAmount` condition
+ */
+export function isAmountAllowed(conditions: PermissionConditions | null, amount: number | string | { toString(): string }): boolean {
+  return conditions?.maxAmount === undefined || Number(amount) <= conditions.maxAmount;
+}
@@ -0,0 +1,111 @@
+import { masterDb, getTenantDb } from './database';
+import { JWTPayload } from './auth';
+import type { PlatformAdmin } from '../../packages/database/generated/master-client';
+
+export class PlatformAdminError extends Error {
+  constructor(message: string, public statusCode: number = 400, public code?: string) {
+    super(message);
+    this.name = 'PlatformAdminError';
+  }
+}
+
+/**
+ * Registry of platform (super) admins. Access is granted to a specific user of
+ * a specific tenant in the master database; with no grants nobody qualifies.
+ */
+export class PlatformAdmins {
+  private static readonly CACHE_TTL_MS = 60 * 1000;
+  private static cache = new Map<string, { isAdmin: boolean; expiresAt: number }>();
+
+  /**
+   * Whether the authenticated user holds a platform admin grant (cached briefly)
+   */
+  static async isPlatformAdmin(user?: JWTPayload): Promise<boolean> {
+    if (!user?.userId || !user.tenantId) {
+      return false;
+    }
+
+    const key = `${user.tenantId}:${user.userId}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.isAdmin;
+    }
+
+    const grant = await masterDb.platformAdmin.findFirst({
+      where: {
+        userId: user.userId,
+        tenant: { subdomain: user.tenantId, status: 'active' }
+      },
+      select: { adminId: true }
+    });
+
+    const isAdmin = grant !== null;
+    this.cache.set(key, { isAdmin, expiresAt: Date.now() + this.CACHE_TTL_MS });
+    return isAdmin;
+  }
+
+  /**
+   * List all grants with their tenant's subdomain
+   */
+  static async list(): Promise<Array<PlatformAdmin & { subdomain: string }>> {
+    const grants = await masterDb.platformAdmin.findMany({
+      include: { tenant: { select: { subdomain: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+    return grants.map(({ tenant, ...grant }) => ({ ...grant, subdomain: tenant.subdomain }));
+  }
+
+  /**
+   * Email addresses of all platform admins, e.g. for alert notifications
+   */
+  static async listEmails(): Promise<string[]> {
+    const grants = await masterDb.platformAdmin.findMany({ select: { email: true } });
+    return [...new Set(grants.map(grant => grant.email.toLowerCase()))];
+  }
+
+  /**
+   * Grant platform administration to an active user of a tenant, found by email
+   */
+  static async grant(subdomain: string, email: string, grantedBy: string): Promise<PlatformAdmin> {
+    const tenant = await masterDb.tenant.findUnique({
+      where: { subdomain },
+      select: { tenantId: true, status: true }
+    });
+    if (!tenant || tenant.status !== 'active') {
+      throw new PlatformAdminError(`Active tenant not found: ${subdomain}`, 404, 'TENANT_NOT_FOUND');
+    }
+
+    const tenantDb = await getTenantDb(subdomain);
+    const user = await tenantDb.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' }, status: 'active' },
+      select: { userId: true, email: true }
+    });
+    if (!user) {
+      throw new PlatformAdminError(`Active user not found in ${subdomain}: ${email}`, 404, 'USER_NOT_FOUND');
+    }
+
+    const grant = await masterDb.platformAdmin.upsert({
+      where: { tenantId_userId: { tenantId: tenant.tenantId, userId: user.userId } },
+      create: { tenantId: tenant.tenantId, userId: user.userId, email: user.email, grantedBy },
+      update: { email: user.email }
+    });
+
+    this.cache.clear();
+    return grant;
+  }
+
+  /**
+   * Revoke a user's grant; returns whether one existed
+   */
+  static async revoke(subdomain: string, email: string): Promise<boolean> {
+    const result = await masterDb.platformAdmin.deleteMany({
+      where: {
+        email: { equals: email, mode: 'insensitive' },
+        tenant: { subdomain }
+      }
+    });
+
+    this.cache.clear();
+    return result.count > 0;
+  }
+}
@@ -1,5 +1,7 @@
-import { getMasterDb } from './database';
+import { getMasterDb, masterDb, getTenantDb } from './database';
 import { logger } from './logger';
+import { MonitoringService } from './monitoring';
+import { TierLimits } from './tierLimits';
 
 export interface PlatformMetrics {
   overview: {
@@ -40,6 +42,7 @@ export interface PlatformMetrics {
 
 export interface TenantHealth {
   tenantId: string;
+  subdomain: string;
   companyName: string;
   status: 'healthy' | 'warning' | 'critical';
   metrics: {
@@ -330,90 +333,92 @@ export class PlatformAnalyticsEngine {
   }
 
   /**
-   * Get tenant health status
+   * Get tenant health status of active tenants. Request latency and error
+   * rate cover the last `windowMinutes` of traffic seen by this instance.
    */
-  static async getTenantHealth(tenantId?: string): Promise<TenantHealth[]> {
+  static async getTenantHealth(tenantId?: string, windowMinutes = 60): Promise<TenantHealth[]> {
     try {
-      const masterDb = await getMasterDb();
-      
-      const whereClause = tenantId ? { tenantId } : {};
       const tenants = await masterDb.tenant.findMany({
-        where: whereClause,
-        include: {
-          users: {
-            select: {
-              userId: true,
-              lastLoginAt: true,
-              status: true
-            }
-          }
-        }
+        where: { status: 'active', ...(tenantId && { tenantId }) },
+        select: { tenantId: true, tenantName: true, subdomain: true, createdAt: true },
+        orderBy: { createdAt: 'asc' }
       });
 
-      const tenantHealthData = await Promise.all(
-        tenants.map(async (tenant) => {
-          const activeUsers = tenant.users.filter(user => 
-            user.status === 'active' && 
-            user.lastLoginAt && 
-            user.lastLoginAt > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-          ).length;
-
-          const lastActivity = tenant.users.reduce((latest, user) => {
-            if (user.lastLoginAt && (!latest || user.lastLoginAt > latest)) {
-              return user.lastLoginAt;
-            }
-            return latest;
-          }, null as Date | null) || tenant.createdAt;
-
-          // Mock metrics that would require tenant database access
-          const vehicleCount = Math.floor(Math.random() * 200) + 50;
-          const storageUsed = Math.floor(Math.random() * 5) + 1;
-          const averageResponseTime = 100 + Math.random() * 100;
-          const errorRate = Math.random() * 1;
-
-          // Determine health status
-          let status: 'healthy' | 'warning' | 'critical' = 'healthy';
-          const issues: string[] = [];
-          const recommendations: string[] = [];
-
-          if (activeUsers === 0) {
-            status = 'warning';
-            issues.push('No active users in the last 7 days');
-            recommendations.push('Reach out to tenant for engagement');
-          }
+      return await Promise.all(tenants.map(async (tenant): Promise<TenantHealth> => {
+        const requests = MonitoringService.getRequestStats(windowMinutes, tenant.subdomain);
+        const averageResponseTime = requests.averageResponseTime ?? 0;
+        const errorRate = requests.errorRate;
+
+        let status: 'healthy' | 'warning' | 'critical' = 'healthy';
+        const issues: string[] = [];
+        const recommendations: string[] = [];
+
+        let userCount = 0;
+        let activeUsers = 0;
+        let vehicleCount = 0;
+        let storageUsed = 0;
+        let lastActivity: Date = tenant.createdAt;
+
+        try {
+          const tenantDb = await getTenantDb(tenant.subdomain);
+          const activeSince = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+          const [users, recentUsers, lastLogin, vehicles, storageBytes] = await Promise.all([
+            tenantDb.user.count(),
+            tenantDb.user.count({ where: { status: 'active', lastLoginAt: { gt: activeSince } } }),
+            tenantDb.user.aggregate({ _max: { lastLoginAt: true } }),
+            tenantDb.vehicle.count(),
+            TierLimits.getCurrentUsage(tenant.subdomain, 'storage')
+          ]);
+
+          userCount = users;
+          activeUsers = recentUsers;
+          vehicleCount = vehicles;
+          storageUsed = Math.round((storageBytes / (1024 * 1024 * 1024)) * 100) / 100;
+          lastActivity = lastLogin._max.lastLoginAt || tenant.createdAt;
+        } catch (error) {
+          logger.error(`Failed to read health data for tenant ${tenant.subdomain}:`, error);
+          status = 'critical';
+          issues.push('Tenant database is unreachable');
+          recommendations.push('Check the tenant database connection');
+        }
 
-          if (errorRate > 2) {
-            status = 'critical';
-            issues.push('High error rate detected');
-            recommendations.push('Investigate system issues');
-          }
+        if (status !== 'critical' && activeUsers === 0) {
+          status = 'warning';
+          issues.push('No active users in the last 7 days');
+          recommendations.push('Reach out to tenant for engagement');
+        }
 
-          if (averageResponseTime > 500) {
-            if (status === 'healthy') status = 'warning';
-            issues.push('Slow response times');
-            recommendations.push('Optimize database queries');
-          }
+        if (errorRate > 2) {
+          status = 'critical';
+          issues.push('High error rate detected');
+          recommendations.push('Investigate system issues');
+        }
+
+        if (averageResponseTime > 500) {
+          if (status === 'healthy') status = 'warning';
+          issues.push('Slow response times');
+          recommendations.push('Optimize database queries');
+        }
 
-          return {
-            tenantId: tenant.tenantId,
-            companyName: tenant.companyName,
-            status,
-            metrics: {
-              userCount: tenant.users.length,
-              activeUsers,
-              vehicleCount,
-              storageUsed,
-              lastActivity,
-              averageResponseTime,
-              errorRate
-            },
-            issues,
-            recommendations
-          };
-        })
-      );
-
-      return tenantHealthData;
+        return {
+          tenantId: tenant.tenantId,
+          subdomain: tenant.subdomain,
+          companyName: tenant.tenantName,
+          status,
+          metrics: {
+            userCount,
+            activeUsers,
+            vehicleCount,
+            storageUsed,
+            lastActivity,
+            averageResponseTime,
+            errorRate
+          },
+          issues,
+          recommendations
+        };
+      }));
     } catch (error) {
       logger.error('Error getting tenant health:', error);
       throw new Error('Failed to get tenant health');
@@ -0,0 +1,122 @@
+import PDFDocument from 'pdfkit';
+import type { SellerDetails } from '../services/invoices';
+import { formatDate, formatMoney, loadLogo } from './invoicePdf';
+import { logger } from './logger';
+
+export interface ReceiptData {
+  receiptNumber: string;
+  type: string;
+  amount: unknown;
+  paymentMethod: string;
+  referenceNumber: string | null;
+  transactionDate: Date;
+  notes: string | null;
+  collector: { firstName: string | null; lastName: string | null; email: string } | null;
+  reversedTransaction: { receiptNumber: string; transactionDate: Date } | null;
+  payment: {
+    amount: unknown;
+    paidAmount: unknown;
+    outstandingAmount: unknown;
+    invoiceNumber: string | null;
+    vehicle: { carNumber: string; ownerName: string; ownerMobile: string | null; modelName: string | null };
+  };
+}
+
+const PAGE_MARGIN = 50;
+
+const TITLES: Record<string, string> = {
+  receipt: 'PAYMENT RECEIPT',
+  refund: 'REFUND VOUCHER',
+  reversal: 'REVERSAL NOTE'
+};
+
+const METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  bank_transfer: 'Bank Transfer',
+  cheque: 'Cheque',
+  upi: 'UPI',
+  online: 'Online'
+};
+
+/**
+ * Render a single payment ledger entry as an A5 receipt
+ */
+export async function generateReceiptPdf(tenantId: string, seller: SellerDetails, receipt: ReceiptData): Promise<Buffer> {
+  const logo = await loadLogo(tenantId, seller.logo);
+
+  const doc = new PDFDocument({ margin: PAGE_MARGIN, size: 'A5', layout: 'landscape' });
+  const chunks: Buffer[] = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const pageWidth = doc.page.width - PAGE_MARGIN * 2;
+  let textX = PAGE_MARGIN;
+  if (logo) {
+    try {
+      doc.image(logo, PAGE_MARGIN, PAGE_MARGIN, { fit: [60, 45] });
+      textX = PAGE_MARGIN + 70;
+    } catch (error) {
+      logger.warn(`Unsupported receipt logo image for tenant ${tenantId}:`, error);
+    }
+  }
+
+  const address = seller.address || {};
+  doc.fontSize(14).font('Helvetica-Bold').text(seller.companyName || '', textX, PAGE_MARGIN, { width: 260 });
+  doc.fontSize(8).font('Helvetica')
+    .text([address.street, address.city, address.state, address.postalCode].filter(Boolean).join(', '), { width: 260 });
+  if (seller.gstNumber) {
+    doc.text(`GSTIN: ${seller.gstNumber}`, { width: 260 });
+  }
+
+  doc.fontSize(14).font('Helvetica-Bold')
+    .text(TITLES[receipt.type] || 'RECEIPT', PAGE_MARGIN, PAGE_MARGIN, { width: pageWidth, align: 'right' });
+  doc.fontSize(9).font('Helvetica')
+    .text(`No: ${receipt.receiptNumber}`, { width: pageWidth, align: 'right' })
+    .text(`Date: ${formatDate(receipt.transactionDate)}`, { width: pageWidth, align: 'right' });
+
+  let y = Math.max(doc.y, PAGE_MARGIN + 50) + 15;
+  doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + pageWidth, y).stroke();
+  y += 12;
+
+  const vehicle = receipt.payment.vehicle;
+  const collectorName = receipt.collector
+    ? [receipt.collector.firstName, receipt.collector.lastName].filter(Boolean).join(' ') || receipt.collector.email
+    : null;
+  const rows: Array<[string, string]> = [
+    [receipt.type === 'refund' ? 'Paid to' : 'Received from', `${vehicle.ownerName}${vehicle.ownerMobile ? ` (${vehicle.ownerMobile})` : ''}`],
+    ['Vehicle', `${vehicle.carNumber}${vehicle.modelName ? ` - ${vehicle.modelName}` : ''}`],
+    ['Amount', `INR ${formatMoney(receipt.amount)}`],
+    ['Mode', METHOD_LABELS[receipt.paymentMethod] || receipt.paymentMethod]
+  ];
+  if (receipt.referenceNumber) rows.push(['Reference', receipt.referenceNumber]);
+  if (receipt.payment.invoiceNumber) rows.push(['Against invoice', receipt.payment.invoiceNumber]);
+  if (receipt.reversedTransaction) {
+    rows.push(['Reverses', `${receipt.reversedTransaction.receiptNumber} (${formatDate(receipt.reversedTransaction.transactionDate)})`]);
+  }
+  if (receipt.notes) rows.push(['Notes', receipt.notes]);
+  if (collectorName) rows.push([receipt.type === 'receipt' ? 'Collected by' : 'Recorded by', collectorName]);
+
+  for (const [label, value] of rows) {
+    doc.fontSize(10).font('Helvetica-Bold').text(label, PAGE_MARGIN, y, { width: 120 });
+    doc.font('Helvetica').text(value, PAGE_MARGIN + 130, y, { width: pageWidth - 130 });
+    y = doc.y + 6;
+  }
+
+  y += 6;
+  doc.fontSize(8).font('Helvetica').text(
+    `Account as of printing: total ${formatMoney(receipt.payment.amount)}, received ${formatMoney(receipt.payment.paidAmount)}, outstanding ${formatMoney(receipt.payment.outstandingAmount)}`,
+    PAGE_MARGIN,
+    y,
+    { width: pageWidth }
+  );
+
+  doc.fontSize(8)
+    .text('This is a computer generated receipt.', PAGE_MARGIN, doc.page.height - PAGE_MARGIN - 10, { width: pageWidth, align: 'center' });
+
+  doc.end();
+  return finished;
+}
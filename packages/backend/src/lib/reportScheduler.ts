@@ -0,0 +1,403 @@
+import { promises as fs } from 'fs';
+import type { PrismaClient, ScheduledReport, ScheduledReportRun } from '../../packages/database/generated/tenant-client';
+import { DEFAULT_SETTINGS } from '@omsms/shared';
+import { masterDb, getTenantDb } from './database';
+import { ReportGenerator, ReportConfig } from './reportGenerator';
+import { getMailManager } from './mailer';
+import { logger } from './logger';
+
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly' | 'quarterly';
+
+export interface ReportSchedule {
+  frequency: ReportFrequency;
+  dayOfWeek?: number | null;
+  dayOfMonth?: number | null;
+  time: string; // HH:MM
+}
+
+interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Read the wall-clock date/time of an instant in the given IANA timezone
+ */
+function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const value = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second')
+  };
+}
+
+function getTimezoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = getZonedDateParts(date, timeZone);
+  const wallClockAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in the given timezone to a UTC instant
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getTimezoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+  let result = wallClockAsUtc - offset;
+
+  // Re-check the offset at the resulting instant in case we crossed a DST boundary
+  const correctedOffset = getTimezoneOffsetMs(new Date(result), timeZone);
+  if (correctedOffset !== offset) {
+    result = wallClockAsUtc - correctedOffset;
+  }
+
+  return new Date(result);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function matchesSchedule(schedule: ReportSchedule, year: number, month: number, day: number, weekday: number): boolean {
+  switch (schedule.frequency) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return weekday === (schedule.dayOfWeek ?? 1);
+    case 'monthly':
+      return day === Math.min(schedule.dayOfMonth ?? 1, daysInMonth(year, month));
+    case 'quarterly':
+      return (month - 1) % 3 === 0 && day === Math.min(schedule.dayOfMonth ?? 1, daysInMonth(year, month));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Compute the next run time strictly after `after`, evaluating the schedule in the tenant timezone
+ */
+export function computeNextRun(schedule: ReportSchedule, timeZone: string, after: Date = new Date()): Date {
+  const [hour, minute] = schedule.time.split(':').map(part => parseInt(part, 10));
+  const today = getZonedDateParts(after, timeZone);
+
+  // Walk forward over local calendar days; a quarterly schedule matches at least once in ~92 days
+  for (let offset = 0; offset <= 400; offset++) {
+    const calendarDay = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    const year = calendarDay.getUTCFullYear();
+    const month = calendarDay.getUTCMonth() + 1;
+    const day = calendarDay.getUTCDate();
+
+    if (!matchesSchedule(schedule, year, month, day, calendarDay.getUTCDay())) {
+      continue;
+    }
+
+    const candidate = zonedTimeToUtc(year, month, day, hour, minute, timeZone);
+    if (candidate > after) {
+      return candidate;
+    }
+  }
+
+  throw new Error(`Unable to compute next run for ${schedule.frequency} schedule`);
+}
+
+/**
+ * Reporting period covered by a run: the full frequency window ending at the run time
+ */
+export function getReportPeriod(frequency: ReportFrequency, runAt: Date): { startDate: Date; endDate: Date } {
+  const startDate = new Date(runAt);
+
+  switch (frequency) {
+    case 'daily':
+      startDate.setUTCDate(startDate.getUTCDate() - 1);
+      break;
+    case 'weekly':
+      startDate.setUTCDate(startDate.getUTCDate() - 7);
+      break;
+    case 'monthly':
+      startDate.setUTCMonth(startDate.getUTCMonth() - 1);
+      break;
+    case 'quarterly':
+      startDate.setUTCMonth(startDate.getUTCMonth() - 3);
+      break;
+  }
+
+  return { startDate, endDate: new Date(runAt) };
+}
+
+function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the tenant timezone from system configuration
+ * (general.timezone takes precedence over the seeded system.timezone)
+ */
+export async function getTenantTimezone(tenantDb: PrismaClient): Promise<string> {
+  const configs = await tenantDb.systemConfig.findMany({
+    where: {
+      configKey: 'timezone',
+      configCategory: { in: ['general', 'system'] }
+    }
+  });
+
+  const preferred = configs.find(config => config.configCategory === 'general') || configs[0];
+  const timeZone = preferred?.configValue;
+
+  if (typeof timeZone === 'string' && isValidTimezone(timeZone)) {
+    return timeZone;
+  }
+
+  return DEFAULT_SETTINGS.TENANT.timezone;
+}
+
+export function getReportSchedule(report: ScheduledReport): ReportSchedule {
+  return {
+    frequency: report.frequency as ReportFrequency,
+    dayOfWeek: report.dayOfWeek,
+    dayOfMonth: report.dayOfMonth,
+    time: report.timeOfDay
+  };
+}
+
+/**
+ * Build a generator config from the stored (date-less) report definition
+ */
+function buildReportConfig(report: ScheduledReport, period: { startDate: Date; endDate: Date }): ReportConfig {
+  const stored = report.reportConfig as Record<string, any>;
+
+  return {
+    title: stored.title || report.name,
+    description: stored.description,
+    type: stored.type,
+    format: stored.format,
+    dateRange: period,
+    filters: {
+      locationIds: stored.locationIds,
+      salespersonIds: stored.salespersonIds,
+      vehicleStatuses: stored.vehicleStatuses
+    },
+    sections: stored.sections,
+    branding: stored.branding
+  };
+}
+
+export class ReportScheduler {
+  private static readonly POLL_INTERVAL_MS = 60 * 1000;
+  private static timer: NodeJS.Timeout | null = null;
+  private static isTicking = false;
+
+  /**
+   * Start polling for due scheduled reports
+   */
+  static initialize(): void {
+    if (process.env.REPORT_SCHEDULER_ENABLED === 'false' || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Report scheduler tick failed:', error));
+    }, this.POLL_INTERVAL_MS);
+    this.timer.unref();
+
+    logger.info('Report scheduler initialized');
+  }
+
+  /**
+   * Stop polling (used on shutdown)
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every due report across all active tenants
+   */
+  static async tick(now: Date = new Date()): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+
+    this.isTicking = true;
+    try {
+      const tenants = await masterDb.tenant.findMany({
+        where: { status: 'active' },
+        select: { subdomain: true }
+      });
+
+      for (const tenant of tenants) {
+        try {
+          await this.runDueReports(tenant.subdomain, now);
+        } catch (error) {
+          // One broken tenant must not block the others
+          logger.error(`Scheduled reports failed for tenant ${tenant.subdomain}:`, error);
+        }
+      }
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Run the due reports of a single tenant
+   */
+  static async runDueReports(tenantId: string, now: Date = new Date()): Promise<void> {
+    const tenantDb = await getTenantDb(tenantId);
+
+    const dueReports = await tenantDb.scheduledReport.findMany({
+      where: {
+        enabled: true,
+        nextRunAt: { lte: now }
+      },
+      orderBy: { nextRunAt: 'asc' }
+    });
+
+    if (dueReports.length === 0) {
+      return;
+    }
+
+    const timeZone = await getTenantTimezone(tenantDb);
+
+    for (const report of dueReports) {
+      const nextRunAt = computeNextRun(getReportSchedule(report), timeZone, now);
+
+      // Claim this occurrence so concurrent instances don't deliver it twice
+      const claimed = await tenantDb.scheduledReport.updateMany({
+        where: {
+          scheduledReportId: report.scheduledReportId,
+          nextRunAt: report.nextRunAt
+        },
+        data: { nextRunAt }
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      await this.executeReport(tenantId, report, 'schedule', report.nextRunAt || now);
+    }
+  }
+
+  /**
+   * Generate and deliver a scheduled report, recording the outcome in its run history
+   */
+  static async executeReport(
+    tenantId: string,
+    report: ScheduledReport,
+    trigger: 'schedule' | 'manual',
+    runAt: Date = new Date()
+  ): Promise<ScheduledReportRun> {
+    const tenantDb = await getTenantDb(tenantId);
+    const period = getReportPeriod(report.frequency as ReportFrequency, runAt);
+    const recipients = report.recipients as string[];
+
+    const run = await tenantDb.scheduledReportRun.create({
+      data: {
+        scheduledReportId: report.scheduledReportId,
+        trigger,
+        status: 'running',
+        periodStart: period.startDate,
+        periodEnd: period.endDate,
+        recipients
+      }
+    });
+
+    let finishedRun: ScheduledReportRun;
+    let filePath: string | undefined;
+
+    try {
+      const generated = await ReportGenerator.generateReport(
+        tenantId,
+        buildReportConfig(report, period)
+      );
+      filePath = generated.filePath;
+      const { fileName } = generated;
+
+      const delivery = await getMailManager().send({
+        to: recipients,
+        subject: `${report.name} (${period.startDate.toISOString().split('T')[0]} - ${period.endDate.toISOString().split('T')[0]})`,
+        text: [
+          `Your scheduled report "${report.name}" is attached.`,
+          report.description || '',
+          `Period: ${period.startDate.toISOString()} - ${period.endDate.toISOString()}`
+        ].filter(Boolean).join('\n\n'),
+        attachments: [{ filename: fileName, path: filePath }]
+      });
+
+      finishedRun = await tenantDb.scheduledReportRun.update({
+        where: { runId: run.runId },
+        data: {
+          status: 'success',
+          fileName,
+          messageId: delivery.messageId,
+          completedAt: new Date()
+        }
+      });
+
+      logger.info(`Scheduled report ${report.scheduledReportId} delivered for tenant ${tenantId}`, {
+        runId: run.runId,
+        recipients: delivery.accepted.length
+      });
+    } catch (error) {
+      finishedRun = await tenantDb.scheduledReportRun.update({
+        where: { runId: run.runId },
+        data: {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date()
+        }
+      });
+
+      logger.error(`Scheduled report ${report.scheduledReportId} failed for tenant ${tenantId}:`, error);
+    } finally {
+      // The report went out as an attachment; it is not kept for download
+      if (filePath) {
+        await fs.unlink(filePath).catch(error => logger.warn(`Failed to remove report file ${filePath}:`, error));
+      }
+    }
+
+    await tenantDb.scheduledReport.update({
+      where: { scheduledReportId: report.scheduledReportId },
+      data: {
+        lastRunAt: finishedRun.startedAt,
+        lastRunStatus: finishedRun.status
+      }
+    });
+
+    return finishedRun;
+  }
+}
@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import type { Prisma, PrismaClient, UserSession } from '../../packages/database/generated/tenant-client';
+import { AuthService, AuthTokens, JWTPayload } from './auth';
+import { getTenantDb } from './database';
+import { logger } from './logger';
+
+type TenantTransaction = Prisma.TransactionClient;
+
+export type SessionRevokeReason = 'logout' | 'logout_all' | 'revoked' | 'token_reuse' | 'password_reset';
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export type RefreshOutcome =
+  | { status: 'rotated'; tokens: AuthTokens; sessionId: string; userId: string }
+  | { status: 'invalid' | 'expired' | 'revoked' | 'reused'; sessionId?: string; userId?: string };
+
+/**
+ * Persisted refresh-token sessions. Each login starts a session (token family);
+ * every refresh rotates the token, and presenting an already-rotated token
+ * revokes the whole session.
+ */
+export class SessionService {
+  private static readonly STATUS_CACHE_TTL_MS = 30 * 1000; // How long another instance may keep accepting a revoked session
+  private static readonly STATUS_CACHE_MAX_ENTRIES = 10000;
+  // Insertion order is expiry order, so the oldest entries are the first to go
+  private static statusCache = new Map<string, { userId: string; active: boolean; expiresAt: number }>();
+
+  /**
+   * Start a new session and issue its first token pair
+   */
+  static async createSession(tenantDb: PrismaClient | TenantTransaction, payload: JWTPayload, context: SessionContext): Promise<AuthTokens> {
+    const sessionId = crypto.randomUUID();
+    const tokens = AuthService.generateTokens({ ...payload, sessionId });
+    const expiresAt = AuthService.getTokenExpiry(tokens.refreshToken);
+
+    await tenantDb.userSession.create({
+      data: {
+        sessionId,
+        userId: payload.userId,
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        expiresAt,
+        refreshTokens: {
+          create: {
+            tokenHash: AuthService.hashToken(tokens.refreshToken),
+            expiresAt
+          }
+        }
+      }
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Exchange a refresh token for a new pair, detecting reuse of rotated tokens.
+   * `buildPayload` returns null when the user may no longer obtain tokens.
+   */
+  static async refresh(
+    tenantDb: PrismaClient,
+    refreshToken: string,
+    context: SessionContext,
+    buildPayload: (userId: string) => Promise<JWTPayload | null>
+  ): Promise<RefreshOutcome> {
+    const now = new Date();
+
+    const record = await tenantDb.refreshToken.findUnique({
+      where: { tokenHash: AuthService.hashToken(refreshToken) },
+      include: { session: true }
+    });
+
+    if (!record) {
+      return { status: 'invalid' };
+    }
+
+    const { sessionId, userId } = record.session;
+
+    if (record.session.revokedAt) {
+      return { status: 'revoked', sessionId, userId };
+    }
+
+    if (record.rotatedAt) {
+      await this.revokeSession(tenantDb, sessionId, 'token_reuse');
+      logger.warn(`Refresh token reuse detected, session ${sessionId} revoked`, { userId });
+      return { status: 'reused', sessionId, userId };
+    }
+
+    if (record.expiresAt <= now || record.session.expiresAt <= now) {
+      return { status: 'expired', sessionId, userId };
+    }
+
+    const payload = await buildPayload(userId);
+    if (!payload) {
+      return { status: 'invalid', sessionId, userId };
+    }
+
+    // Claim the token; losing the race means it was already exchanged
+    const claimed = await tenantDb.refreshToken.updateMany({
+      where: { tokenId: record.tokenId, rotatedAt: null },
+      data: { rotatedAt: now }
+    });
+
+    if (claimed.count === 0) {
+      await this.revokeSession(tenantDb, sessionId, 'token_reuse');
+      logger.warn(`Concurrent refresh token reuse detected, session ${sessionId} revoked`, { userId });
+      return { status: 'reused', sessionId, userId };
+    }
+
+    const tokens = AuthService.generateTokens({ ...payload, sessionId });
+    const expiresAt = AuthService.getTokenExpiry(tokens.refreshToken);
+
+    await tenantDb.$transaction([
+      tenantDb.refreshToken.create({
+        data: {
+          sessionId,
+          tokenHash: AuthService.hashToken(tokens.refreshToken),
+          expiresAt
+        }
+      }),
+      tenantDb.userSession.update({
+        where: { sessionId },
+        data: {
+          lastUsedAt: now,
+          expiresAt,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent
+        }
+      })
+    ]);
+
+    return { status: 'rotated', tokens, sessionId, userId };
+  }
+
+  /**
+   * Whether an access token's session is still live (not revoked or expired).
+   * Checked on every authenticated request, so results are cached briefly;
+   * revocations made by this process take effect immediately.
+   */
+  static async isSessionActive(tenantId: string, sessionId: string): Promise<boolean> {
+    const cached = this.statusCache.get(sessionId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.active;
+    }
+    this.statusCache.delete(sessionId);
+
+    const tenantDb = await getTenantDb(tenantId);
+    const session = await tenantDb.userSession.findUnique({
+      where: { sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true }
+    });
+
+    const active = !!session && !session.revokedAt && session.expiresAt > new Date();
+    if (session) {
+      this.statusCache.set(sessionId, { userId: session.userId, active, expiresAt: Date.now() + this.STATUS_CACHE_TTL_MS });
+      this.pruneStatusCache();
+    }
+    return active;
+  }
+
+  /**
+   * Find the session a refresh token belongs to
+   */
+  static async findSessionByRefreshToken(tenantDb: PrismaClient | TenantTransaction, refreshToken: string): Promise<UserSession | null> {
+    const record = await tenantDb.refreshToken.findUnique({
+      where: { tokenHash: AuthService.hashToken(refreshToken) },
+      include: { session: true }
+    });
+    return record?.session || null;
+  }
+
+  /**
+   * List a user's active (not revoked, not expired) sessions
+   */
+  static async listActiveSessions(tenantDb: PrismaClient | TenantTransaction, userId: string): Promise<UserSession[]> {
+    return tenantDb.userSession.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      orderBy: { lastUsedAt: 'desc' }
+    });
+  }
+
+  /**
+   * Revoke a single session; pass userId to only revoke a session owned by that user
+   */
+  static async revokeSession(
+    tenantDb: PrismaClient | TenantTransaction,
+    sessionId: string,
+    reason: SessionRevokeReason,
+    userId?: string
+  ): Promise<boolean> {
+    const result = await tenantDb.userSession.updateMany({
+      where: {
+        sessionId,
+        revokedAt: null,
+        ...(userId && { userId })
+      },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+    this.statusCache.delete(sessionId);
+    return result.count > 0;
+  }
+
+  /**
+   * Revoke all of a user's sessions, optionally keeping one (e.g. the current device)
+   */
+  static async revokeUserSessions(
+    tenantDb: PrismaClient | TenantTransaction,
+    userId: string,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await tenantDb.userSession.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { sessionId: { not: exceptSessionId } })
+      },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+    for (const [sessionId, status] of this.statusCache) {
+      if (status.userId === userId && sessionId !== exceptSessionId) {
+        this.statusCache.delete(sessionId);
+      }
+    }
+    return result.count;
+  }
+
+  /**
+   * Drop expired cache entries, and the oldest ones beyond STATUS_CACHE_MAX_ENTRIES
+   */
+  private static pruneStatusCache(): void {
+    const now = Date.now();
+    for (const [sessionId, status] of this.statusCache) {
+      if (status.expiresAt > now && this.statusCache.size <= this.STATUS_CACHE_MAX_ENTRIES) {
+        break;
+      }
+      this.statusCache.delete(sessionId);
+    }
+  }
+}
@@ -1,14 +1,14 @@
 import { Server as HttpServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
-import jwt from 'jsonwebtoken';
-import { config } from '../config/environment';
-import { getMasterDb, getTenantDb } from './database';
+import { AuthService } from './auth';
+import { getTenantDb } from './database';
 import { logger } from './logger';
 
 export interface AuthenticatedSocket extends Socket {
   user?: {
     userId: string;
     email: string;
+    name: string;
     role: string;
     tenantId: string;
   };
@@ -25,10 +25,22 @@ export interface SocketEventData {
   entityType?: string;
 }
 
+interface EditingPresence {
+  userId: string;
+  email: string;
+  name: string;
+  entityType: string;
+  entityId: string;
+  field?: string;
+  timestamp: Date;
+}
+
 export class SocketManager {
   private io: SocketIOServer;
   private authenticatedSockets: Map<string, AuthenticatedSocket> = new Map();
   private tenantRooms: Map<string, Set<string>> = new Map();
+  // Who is editing what, by entity room then socket, so late joiners see existing editors
+  private entityEditors: Map<string, Map<string, EditingPresence>> = new Map();
 
   constructor(httpServer: HttpServer) {
     this.io = new SocketIOServer(httpServer, {
@@ -55,34 +67,30 @@ export class SocketManager {
         }
 
         // Verify JWT token
-        const decoded = jwt.verify(token, config.auth.jwtSecret) as any;
-        
-        // Get user details from master database
-        const masterDb = await getMasterDb();
-        const tenant = await masterDb.tenant.findUnique({
-          where: { tenantId: decoded.tenantId },
-          include: {
-            users: {
-              where: { userId: decoded.userId },
-              select: {
-                userId: true,
-                email: true,
-                role: true,
-                isActive: true
-              }
-            }
+        const decoded = AuthService.verifyToken(token);
+
+        // Users live in the tenant database
+        const tenantDb = await getTenantDb(decoded.tenantId);
+        const account = await tenantDb.user.findUnique({
+          where: { userId: decoded.userId },
+          select: {
+            email: true,
+            firstName: true,
+            lastName: true,
+            status: true
           }
         });
 
-        if (!tenant || !tenant.users[0] || !tenant.users[0].isActive) {
+        if (!account || account.status !== 'active') {
           return next(new Error('User not found or inactive'));
         }
 
         // Attach user info to socket
         socket.user = {
           userId: decoded.userId,
-          email: tenant.users[0].email,
-          role: tenant.users[0].role,
+          email: account.email,
+          name: `${account.firstName || ''} ${account.lastName || ''}`.trim() || account.email,
+          role: decoded.roleName || decoded.role,
           tenantId: decoded.tenantId
         };
         socket.tenantId = decoded.tenantId;
@@ -109,7 +117,7 @@ export class SocketManager {
       return;
     }
 
-    const { userId, tenantId, email, role } = socket.user;
+    const { userId, tenantId, email, name, role } = socket.user;
     
     logger.info(`User ${email} connected via Socket.io (${socket.id})`);
 
@@ -149,6 +157,15 @@ export class SocketManager {
       timestamp: new Date()
     }, socket.id);
 
+    // Release editing presence in entity rooms
+    socket.on('disconnecting', () => {
+      this.entityEditors.forEach((editors, entityRoom) => {
+        if (editors.has(socket.id)) {
+          this.stopEditing(socket, entityRoom);
+        }
+      });
+    });
+
     // Handle disconnection
     socket.on('disconnect', () => {
       this.handleDisconnection(socket);
@@ -159,6 +176,11 @@ export class SocketManager {
       const entityRoom = `entity:${data.entityType}:${data.entityId}`;
       socket.join(entityRoom);
       logger.info(`User ${email} joined entity room: ${entityRoom}`);
+
+      // Tell the newcomer who is already editing
+      this.entityEditors.get(entityRoom)?.forEach(presence => {
+        socket.emit('user:editing', presence);
+      });
     });
 
     // Handle leaving specific entity rooms
@@ -178,24 +200,42 @@ export class SocketManager {
       
       // Broadcast to others viewing the same entity
       const entityRoom = `entity:${data.entityType}:${data.entityId}`;
-      socket.to(entityRoom).emit('user:editing', {
+      const presence: EditingPresence = {
         userId,
         email,
+        name,
         entityType: data.entityType,
         entityId: data.entityId,
         field: data.field,
         timestamp: new Date()
-      });
+      };
+      if (!this.entityEditors.has(entityRoom)) {
+        this.entityEditors.set(entityRoom, new Map());
+      }
+      this.entityEditors.get(entityRoom)!.set(socket.id, presence);
+      socket.to(entityRoom).emit('user:editing', presence);
     });
 
     socket.on('activity:stopped_editing', (data: { entityType: string; entityId: string }) => {
-      const entityRoom = `entity:${data.entityType}:${data.entityId}`;
-      socket.to(entityRoom).emit('user:stopped_editing', {
-        userId,
-        entityType: data.entityType,
-        entityId: data.entityId,
-        timestamp: new Date()
-      });
+      this.stopEditing(socket, `entity:${data.entityType}:${data.entityId}`);
+    });
+  }
+
+  private stopEditing(socket: AuthenticatedSocket, entityRoom: string): void {
+    const editors = this.entityEditors.get(entityRoom);
+    const presence = editors?.get(socket.id);
+    if (!editors || !presence) return;
+
+    editors.delete(socket.id);
+    if (editors.size === 0) {
+      this.entityEditors.delete(entityRoom);
+    }
+
+    socket.to(entityRoom).emit('user:stopped_editing', {
+      userId: presence.userId,
+      entityType: presence.entityType,
+      entityId: presence.entityId,
+      timestamp: new Date()
     });
   }
 
@@ -2,10 +2,23 @@ import fs from 'fs/promises';
 import path from 'path';
 import { createWriteStream } from 'fs';
 import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
 import { Storage as GCSStorage } from '@google-cloud/storage'; // Example import for GCS
+import {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  ListObjectsV2CommandOutput
+} from '@aws-sdk/client-s3';
+import { getSignedUrl as getS3SignedUrl } from '@aws-sdk/s3-request-presigner';
+
+export type StorageProviderName = 'local' | 's3' | 'azure' | 'cloudflare' | 'gcs';
 
 export interface StorageConfig {
-  provider: 'local' | 's3' | 'azure' | 'cloudflare' | 'gcs';
+  provider: StorageProviderName;
   local?: {
     uploadPath: string;
     baseUrl: string;
@@ -21,6 +34,9 @@ export interface StorageConfig {
     bucket: string;
     accessKeyId: string;
     secretAccessKey: string;
+    endpoint?: string; // S3-compatible endpoint, e.g. MinIO at http://localhost:9000
+    forcePathStyle?: boolean;
+    publicUrl?: string; // Base URL objects are publicly served from (CDN or bucket website)
   };
   azure?: {
     connectionString: string;
@@ -31,6 +47,7 @@ export interface StorageConfig {
     accessKeyId: string;
     secretAccessKey: string;
     bucket: string;
+    publicUrl?: string; // r2.dev or custom domain bound to the bucket
   };
 }
 
@@ -50,12 +67,20 @@ export interface StorageResult {
   size: number;
 }
 
+export interface StoredObject {
+  filePath: string;
+  size: number;
+  lastModified: Date;
+}
+
 export interface StorageProvider {
   upload(file: StorageFile, destination: string): Promise<StorageResult>;
   delete(filePath: string): Promise<void>;
   getUrl(filePath: string): string;
   getSignedUrl?(filePath: string, expiresIn?: number): Promise<string>;
   exists(filePath: string): Promise<boolean>;
+  list?(prefix: string): Promise<StoredObject[]>;
+  download?(filePath: string): Promise<Buffer>;
 }
 
 export class LocalStorageProvider implements StorageProvider {
@@ -113,6 +138,37 @@ export class LocalStorageProvider implements StorageProvider {
       return false;
     }
   }
+
+  async download(filePath: string): Promise<Buffer> {
+    return fs.readFile(path.join(this.config.uploadPath, filePath));
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await fs.readdir(path.join(this.config.uploadPath, relativeDir), { withFileTypes: true });
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return;
+        throw error;
+      }
+
+      for (const entry of entries) {
+        const relativePath = path.posix.join(relativeDir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(relativePath);
+        } else if (entry.isFile()) {
+          const stats = await fs.stat(path.join(this.config.uploadPath, relativePath));
+          objects.push({ filePath: relativePath, size: stats.size, lastModified: stats.mtime });
+        }
+      }
+    };
+
+    await walk(prefix.replace(/\/$/, ''));
+    return objects;
+  }
 }
 
 // Google Cloud Storage Provider (placeholder for future implementation)
@@ -167,7 +223,7 @@ export class GCSStorageProvider implements StorageProvider {
 
   async delete(filePath: string): Promise<void> {
     const bucket = this.storage.bucket(this.bucketName);
-    await bucket.file(filePath).delete();
+    await bucket.file(filePath).delete({ ignoreNotFound: true });
   }
 
   getUrl(filePath: string): string {
@@ -192,38 +248,142 @@ export class GCSStorageProvider implements StorageProvider {
     const [exists] = await file.exists();
     return exists;
   }
+
+  async download(filePath: string): Promise<Buffer> {
+    const [contents] = await this.storage.bucket(this.bucketName).file(filePath).download();
+    return contents;
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const [files] = await this.storage.bucket(this.bucketName).getFiles({ prefix });
+    return files.map(file => ({
+      filePath: file.name,
+      size: Number(file.metadata.size || 0),
+      lastModified: new Date(file.metadata.updated || file.metadata.timeCreated || 0)
+    }));
+  }
 }
 
-// AWS S3 Storage Provider (placeholder for future implementation)
+// AWS S3 Storage Provider (also used for S3-compatible services such as MinIO)
 export class S3StorageProvider implements StorageProvider {
+  protected client: S3Client;
+  protected bucket: string;
   private config: NonNullable<StorageConfig['s3']>;
 
   constructor(config: NonNullable<StorageConfig['s3']>) {
     this.config = config;
+    this.bucket = config.bucket;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey
+      }
+    });
   }
 
   async upload(file: StorageFile, destination: string): Promise<StorageResult> {
-    // TODO: Implement S3 upload using AWS SDK
-    throw new Error('S3 storage not yet implemented');
+    if (!file.buffer && !file.stream) {
+      throw new Error('File must have either buffer or stream');
+    }
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: destination,
+      Body: file.buffer || (file.stream as Readable),
+      ContentType: file.mimeType,
+      ContentLength: file.size,
+      Metadata: {
+        originalName: encodeURIComponent(file.originalName)
+      }
+    }));
+
+    return {
+      fileName: file.fileName,
+      filePath: destination,
+      url: this.getUrl(destination),
+      size: file.size
+    };
   }
 
   async delete(filePath: string): Promise<void> {
-    // TODO: Implement S3 delete
-    throw new Error('S3 storage not yet implemented');
+    // Deleting a missing key succeeds, matching the local provider's ENOENT handling
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: filePath
+    }));
   }
 
   getUrl(filePath: string): string {
-    return `https://${this.config.bucket}.s3.${this.config.region}.amazonaws.com/${filePath}`;
+    if (this.config.publicUrl) {
+      return `${this.config.publicUrl.replace(/\/$/, '')}/${filePath}`;
+    }
+    if (this.config.endpoint) {
+      return `${this.config.endpoint.replace(/\/$/, '')}/${this.bucket}/${filePath}`;
+    }
+    return `https://${this.bucket}.s3.${this.config.region}.amazonaws.com/${filePath}`;
   }
 
   async getSignedUrl(filePath: string, expiresIn: number = 3600): Promise<string> {
-    // TODO: Implement S3 signed URL
-    throw new Error('S3 storage not yet implemented');
+    return getS3SignedUrl(this.client, new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: filePath
+    }), { expiresIn });
   }
 
   async exists(filePath: string): Promise<boolean> {
-    // TODO: Implement S3 existence check
-    throw new Error('S3 storage not yet implemented');
+    try {
+      await this.client.send(new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: filePath
+      }));
+      return true;
+    } catch (error: any) {
+      if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async download(filePath: string): Promise<Buffer> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: filePath
+    }));
+    if (!response.Body) {
+      throw new Error(`Object ${filePath} has no content`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page: ListObjectsV2CommandOutput = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken
+      }));
+
+      for (const object of page.Contents || []) {
+        if (object.Key) {
+          objects.push({
+            filePath: object.Key,
+            size: object.Size || 0,
+            lastModified: object.LastModified || new Date(0)
+          });
+        }
+      }
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
   }
 }
 
@@ -255,39 +415,28 @@ export class AzureStorageProvider implements StorageProvider {
   }
 }
 
-// Cloudflare R2 Storage Provider (placeholder for future implementation)
-export class CloudflareStorageProvider implements StorageProvider {
-  private config: NonNullable<StorageConfig['cloudflare']>;
-
+// Cloudflare R2 Storage Provider (R2 speaks the S3 API)
+export class CloudflareStorageProvider extends S3StorageProvider {
   constructor(config: NonNullable<StorageConfig['cloudflare']>) {
-    this.config = config;
-  }
-
-  async upload(file: StorageFile, destination: string): Promise<StorageResult> {
-    // TODO: Implement Cloudflare R2 upload
-    throw new Error('Cloudflare R2 storage not yet implemented');
-  }
-
-  async delete(filePath: string): Promise<void> {
-    // TODO: Implement Cloudflare R2 delete
-    throw new Error('Cloudflare R2 storage not yet implemented');
-  }
-
-  getUrl(filePath: string): string {
-    return `${this.config.endpoint}/${filePath}`;
-  }
-
-  async exists(filePath: string): Promise<boolean> {
-    // TODO: Implement Cloudflare R2 existence check
-    throw new Error('Cloudflare R2 storage not yet implemented');
+    super({
+      region: 'auto',
+      bucket: config.bucket,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      endpoint: config.endpoint,
+      forcePathStyle: true,
+      publicUrl: config.publicUrl
+    });
   }
 }
 
 export class StorageManager {
   private provider: StorageProvider;
+  public readonly providerName: StorageProviderName;
 
   constructor(config: StorageConfig) {
     this.provider = this.createProvider(config);
+    this.providerName = config.provider;
   }
 
   private createProvider(config: StorageConfig): StorageProvider {
@@ -350,6 +499,25 @@ export class StorageManager {
     return this.provider.exists(filePath);
   }
 
+  /** Whether the provider can enumerate stored objects (needed for orphan detection) */
+  get supportsListing(): boolean {
+    return typeof this.provider.list === 'function';
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    if (!this.provider.list) {
+      throw new Error(`Storage provider ${this.providerName} does not support listing`);
+    }
+    return this.provider.list(prefix);
+  }
+
+  async download(filePath: string): Promise<Buffer> {
+    if (!this.provider.download) {
+      throw new Error(`Storage provider ${this.providerName} does not support downloads`);
+    }
+    return this.provider.download(filePath);
+  }
+
   /**
    * Generate a unique file path for storage
    */
@@ -389,10 +557,10 @@ export class StorageManager {
   }
 }
 
-// Default storage configuration
-export function createStorageManager(): StorageManager {
+// Default storage configuration; pass a provider to reach files stored before a provider switch
+export function createStorageManager(provider?: StorageProviderName): StorageManager {
   const config: StorageConfig = {
-    provider: (process.env.STORAGE_PROVIDER as any) || 'local',
+    provider: provider || (process.env.STORAGE_PROVIDER as any) || 'local',
     local: {
       uploadPath: process.env.LOCAL_UPLOAD_PATH || './uploads',
       baseUrl: process.env.LOCAL_BASE_URL || 'http://localhost:3001/uploads'
@@ -407,7 +575,10 @@ export function createStorageManager(): StorageManager {
       region: process.env.AWS_REGION!,
       bucket: process.env.AWS_S3_BUCKET!,
       accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+      endpoint: process.env.AWS_S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.AWS_S3_FORCE_PATH_STYLE === 'true',
+      publicUrl: process.env.AWS_S3_PUBLIC_URL || undefined
     } : undefined,
     azure: process.env.AZURE_STORAGE_CONNECTION_STRING ? {
       connectionString: process.env.AZURE_STORAGE_CONNECTION_STRING!,
@@ -417,7 +588,8 @@ export function createStorageManager(): StorageManager {
       endpoint: process.env.CLOUDFLARE_R2_ENDPOINT!,
       accessKeyId: process.env.CLOUDFLARE_R2_ACCESS_KEY!,
       secretAccessKey: process.env.CLOUDFLARE_R2_SECRET_KEY!,
-      bucket: process.env.CLOUDFLARE_R2_BUCKET!
+      bucket: process.env.CLOUDFLARE_R2_BUCKET!,
+      publicUrl: process.env.CLOUDFLARE_R2_PUBLIC_URL || undefined
     } : undefined
   };
 
@@ -0,0 +1,793 @@
+import crypto from 'crypto';
+import { once } from 'events';
+import { Readable, Transform } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { createGzip, createGunzip } from 'zlib';
+import { masterDb } from './database';
+import { logger } from './logger';
+import { createStorageManager, StorageManager, StorageProviderName } from './storage';
+import { createBackupStore } from './backupStorage';
+import { TenantMigrations } from './tenantMigrations';
+import { PrismaClient as TenantClient, Prisma } from '../../packages/database/generated/tenant-client';
+import type { Tenant, TenantBackup } from '../../packages/database/generated/master-client';
+
+export type BackupTrigger = 'manual' | 'scheduled' | 'pre_deletion' | 'pre_migration' | 'pre_restore';
+
+export interface BackupTable {
+  columns: string[];
+  rowCount: number;
+  checksum: string; // SHA-256 of the table's row chunks joined with newlines
+}
+
+export interface MediaManifestEntry {
+  fileId: string;
+  storageProvider: string;
+  deleted: boolean;
+  objects: Array<{ filePath: string; size: number; present: boolean }>;
+}
+
+type ArchiveHeader = {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  backupId: string;
+  createdAt: string;
+  schemaVersion: number;
+  tenant: Pick<Tenant, 'tenantId' | 'tenantName' | 'subdomain' | 'subscriptionTier' | 'settings' | 'features'>;
+};
+
+/**
+ * One line of a backup archive (gzipped newline-delimited JSON): a header,
+ * then each table's rows in chunks, then the media manifest. Rows are kept as
+ * the JSON text Postgres produced so numeric, bigint and timestamp values
+ * restore exactly through `json_populate_recordset`.
+ */
+type ArchiveRecord =
+  | ({ type: 'header' } & ArchiveHeader)
+  | { type: 'table'; name: string; columns: string[] }
+  | { type: 'rows'; table: string; rows: string }
+  | { type: 'table_end'; table: string; rowCount: number; checksum: string }
+  | { type: 'media'; entry: MediaManifestEntry }
+  | { type: 'end'; tables: number; mediaFiles: number };
+
+/**
+ * What a verified archive holds apart from the rows themselves
+ */
+export interface TenantBackupArchive extends ArchiveHeader {
+  tables: Record<string, BackupTable>;
+  media: MediaManifestEntry[];
+}
+
+export interface MediaVerification {
+  totalObjects: number;
+  missingObjects: number;
+  missing: string[]; // First MAX_REPORTED_MISSING paths
+}
+
+export interface BackupVerification {
+  backupId: string;
+  checksum: string;
+  schemaVersion: number;
+  tables: Record<string, number>;
+  media: MediaVerification;
+}
+
+/**
+ * A backup could not be created, read or restored
+ */
+export class TenantBackupError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public code: string = 'TENANT_BACKUP_ERROR'
+  ) {
+    super(message);
+    this.name = 'TenantBackupError';
+  }
+}
+
+const BACKUP_FORMAT = 'omsms-tenant-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+const EXPORT_BATCH_SIZE = 5000;
+const RESTORE_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_REPORTED_MISSING = 100;
+
+// Only these are pruned automatically; others are kept until deleted
+const PRUNABLE_TRIGGERS: BackupTrigger[] = ['scheduled'];
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+export class TenantBackups {
+  private static readonly POLL_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+  private static readonly DEFAULT_INTERVAL_HOURS = 24;
+  private static readonly DEFAULT_RETENTION = 7;
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static ticking = false;
+
+  /**
+   * Start scheduled backups. Each tenant is backed up once its latest
+   * backup is older than TENANT_BACKUP_INTERVAL_HOURS; the newest
+   * TENANT_BACKUP_RETENTION scheduled backups are kept.
+   */
+  static initialize(): void {
+    if (process.env.TENANT_BACKUPS_ENABLED === 'false' || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Tenant backup tick failed:', error));
+    }, this.POLL_INTERVAL_MS);
+    this.timer.unref();
+
+    logger.info('Tenant backup scheduler initialized');
+  }
+
+  /**
+   * Stop scheduled backups (used on shutdown)
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Back up every active tenant that is due, then prune old scheduled backups
+   */
+  static async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const intervalHours = Number(process.env.TENANT_BACKUP_INTERVAL_HOURS) || this.DEFAULT_INTERVAL_HOURS;
+      const retention = Number(process.env.TENANT_BACKUP_RETENTION) || this.DEFAULT_RETENTION;
+      const dueBefore = new Date(Date.now() - intervalHours * 60 * 60 * 1000);
+
+      const tenants = await masterDb.tenant.findMany({
+        where: { status: 'active' },
+        select: { tenantId: true, subdomain: true }
+      });
+
+      for (const tenant of tenants) {
+        try {
+          const latest = await masterDb.tenantBackup.findFirst({
+            where: { tenantId: tenant.tenantId, status: 'completed', trigger: { in: ['scheduled', 'manual'] } },
+            orderBy: { createdAt: 'desc' },
+            select: { createdAt: true }
+          });
+
+          if (!latest || latest.createdAt <= dueBefore) {
+            await this.createBackup(tenant.tenantId, { trigger: 'scheduled' });
+          }
+
+          await this.pruneBackups(tenant.tenantId, retention);
+        } catch (error) {
+          logger.error(`Scheduled backup failed for tenant ${tenant.subdomain}:`, error);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Export a tenant's database and media manifest to a compressed archive in
+   * backup storage. The data is read in one repeatable-read snapshot and
+   * streamed through gzip to storage, one chunk of rows at a time.
+   */
+  static async createBackup(
+    tenantId: string,
+    options: { trigger: BackupTrigger; createdBy?: string }
+  ): Promise<TenantBackup> {
+    const tenant = await masterDb.tenant.findUnique({ where: { tenantId } });
+    if (!tenant) {
+      throw new TenantBackupError('Tenant not found', 404, 'TENANT_NOT_FOUND');
+    }
+    if (tenant.status === 'provisioning') {
+      throw new TenantBackupError('Tenant is still being provisioned', 409, 'TENANT_UNAVAILABLE');
+    }
+
+    const migrationStatus = await TenantMigrations.getStatus(tenantId);
+
+    const backup = await masterDb.tenantBackup.create({
+      data: {
+        tenantId,
+        tenantName: tenant.tenantName,
+        subdomain: tenant.subdomain,
+        trigger: options.trigger,
+        schemaVersion: migrationStatus.currentVersion,
+        createdBy: options.createdBy
+      }
+    });
+
+    const client = new TenantClient({ datasources: { db: { url: tenant.databaseUrl } } });
+    const store = createBackupStore();
+    const storagePath = `${tenant.tenantId}/${backup.backupId}.jsonl.gz`;
+
+    // gzip -> checksum -> storage, consumed by the upload while rows are written
+    const hash = crypto.createHash('sha256');
+    let sizeBytes = 0;
+    const gzip = createGzip();
+    const measured = gzip.pipe(new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash.update(chunk);
+        sizeBytes += chunk.length;
+        callback(null, chunk);
+      }
+    }));
+
+    let rejectUpload!: (error: unknown) => void;
+    const uploadFailed = new Promise<never>((_, reject) => { rejectUpload = reject; });
+    uploadFailed.catch(() => undefined);
+    const upload = store.write(storagePath, measured).catch(error => {
+      rejectUpload(error);
+      throw error;
+    });
+    upload.catch(() => undefined); // Awaited below; a failure also surfaces through the writes
+
+    const write = async (record: ArchiveRecord): Promise<void> => {
+      if (!gzip.write(`${JSON.stringify(record)}\n`)) {
+        await Promise.race([once(gzip, 'drain'), uploadFailed]);
+      }
+    };
+
+    try {
+      await write({
+        type: 'header',
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        backupId: backup.backupId,
+        createdAt: backup.createdAt.toISOString(),
+        schemaVersion: migrationStatus.currentVersion,
+        tenant: {
+          tenantId: tenant.tenantId,
+          tenantName: tenant.tenantName,
+          subdomain: tenant.subdomain,
+          subscriptionTier: tenant.subscriptionTier,
+          settings: tenant.settings,
+          features: tenant.features
+        }
+      });
+
+      const { tables, mediaRows } = await this.exportDatabase(client, write);
+      const media = await this.buildMediaManifest(tenant.subdomain, mediaRows);
+
+      for (const entry of media) {
+        await write({ type: 'media', entry });
+      }
+      await write({ type: 'end', tables: Object.keys(tables).length, mediaFiles: media.length });
+
+      gzip.end();
+      await upload;
+
+      const mediaObjects = media.flatMap(entry => entry.objects);
+      const completed = await masterDb.tenantBackup.update({
+        where: { backupId: backup.backupId },
+        data: {
+          status: 'completed',
+          storagePath,
+          storageProvider: store.providerName,
+          sizeBytes: BigInt(sizeBytes),
+          checksum: hash.digest('hex'),
+          tableCounts: Object.fromEntries(Object.entries(tables).map(([name, table]) => [name, table.rowCount])),
+          mediaFiles: media.length,
+          mediaBytes: BigInt(mediaObjects.reduce((sum, object) => sum + object.size, 0)),
+          completedAt: new Date()
+        }
+      });
+
+      logger.info(`Backup ${backup.backupId} created for tenant ${tenant.subdomain} in ${store.providerName} backup storage`, {
+        trigger: options.trigger,
+        tables: Object.keys(tables).length,
+        bytes: sizeBytes
+      });
+
+      return completed;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Backup failed for tenant ${tenant.subdomain}:`, error);
+
+      measured.destroy(error instanceof Error ? error : new Error(message));
+      gzip.destroy();
+      await upload.catch(() => undefined);
+      await store.delete(storagePath).catch(() => undefined);
+
+      await masterDb.tenantBackup.update({
+        where: { backupId: backup.backupId },
+        data: { status: 'failed', error: message, completedAt: new Date() }
+      });
+
+      throw new TenantBackupError(`Failed to back up tenant ${tenant.subdomain}: ${message}`, 500, 'BACKUP_FAILED');
+    } finally {
+      await client.$disconnect().catch(() => undefined);
+    }
+  }
+
+  static async getBackup(backupId: string): Promise<TenantBackup> {
+    const backup = await masterDb.tenantBackup.findUnique({ where: { backupId } });
+    if (!backup) {
+      throw new TenantBackupError('Backup not found', 404, 'BACKUP_NOT_FOUND');
+    }
+    return backup;
+  }
+
+  /**
+   * Stream a completed backup's archive from backup storage. The stream
+   * fails at its end if the content does not match the recorded checksum.
+   */
+  static async openArchive(backupId: string): Promise<{ backup: TenantBackup; stream: Readable; fileName: string }> {
+    const backup = await this.getBackup(backupId);
+    if (backup.status !== 'completed' || !backup.storagePath) {
+      throw new TenantBackupError(`Backup is ${backup.status}`, 409, 'BACKUP_NOT_COMPLETED');
+    }
+
+    let source: Readable;
+    try {
+      source = await createBackupStore().read(backup.storagePath);
+    } catch (error) {
+      logger.error(`Failed to read backup ${backupId}:`, error);
+      throw new TenantBackupError('Backup archive is missing from storage', 410, 'BACKUP_MISSING');
+    }
+
+    const hash = crypto.createHash('sha256');
+    const stream = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash.update(chunk);
+        callback(null, chunk);
+      },
+      flush(callback) {
+        callback(backup.checksum && hash.digest('hex') !== backup.checksum
+          ? new TenantBackupError('Backup archive does not match its checksum', 422, 'BACKUP_CORRUPT')
+          : null);
+      }
+    });
+    source.on('error', error => stream.destroy(error));
+    source.pipe(stream);
+
+    const date = backup.createdAt.toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    return { backup, stream, fileName: `${backup.subdomain}_${date}.jsonl.gz` };
+  }
+
+  /**
+   * Read a backup through and verify it: archive checksum, format, per-table
+   * checksums and that this build can restore its schema version. Returns
+   * everything but the rows, so memory use does not grow with the tenant.
+   */
+  static async readArchive(backupId: string): Promise<TenantBackupArchive> {
+    let header: ArchiveHeader | undefined;
+    const tables: Record<string, BackupTable> = {};
+    const media: MediaManifestEntry[] = [];
+
+    for await (const record of this.readRecords(backupId)) {
+      if (record.type === 'header') {
+        const { type, ...rest } = record;
+        header = rest;
+      } else if (record.type === 'table') {
+        tables[record.name] = { columns: record.columns, rowCount: 0, checksum: '' };
+      } else if (record.type === 'table_end') {
+        tables[record.table].rowCount = record.rowCount;
+        tables[record.table].checksum = record.checksum;
+      } else if (record.type === 'media') {
+        media.push(record.entry);
+      }
+    }
+
+    return { ...header!, tables, media };
+  }
+
+  /**
+   * Run every integrity check a restore would, without restoring
+   */
+  static async verifyBackup(backupId: string): Promise<BackupVerification> {
+    const backup = await this.getBackup(backupId);
+    const archive = await this.readArchive(backupId);
+
+    return {
+      backupId,
+      checksum: backup.checksum || '',
+      schemaVersion: archive.schemaVersion,
+      tables: Object.fromEntries(Object.entries(archive.tables).map(([name, table]) => [name, table.rowCount])),
+      media: await this.verifyMedia(archive)
+    };
+  }
+
+  /**
+   * Replace all data in a tenant database with a verified archive's, in one
+   * transaction, streaming the rows from storage. The database must already
+   * have the latest schema. Foreign
+   * keys are checked once all rows are in, and row counts must match the
+   * archive or nothing is kept. Returns the restored row counts.
+   */
+  static async restoreIntoDatabase(databaseUrl: string, archive: TenantBackupArchive): Promise<Record<string, number>> {
+    const client = new TenantClient({ datasources: { db: { url: databaseUrl } } });
+
+    try {
+      return await client.$transaction(async tx => {
+        const targetColumns = await this.getTableColumns(tx);
+
+        const unknownTables = Object.keys(archive.tables).filter(name => !targetColumns.has(name));
+        if (unknownTables.length > 0) {
+          throw new TenantBackupError(
+            `Target database has no table(s) ${unknownTables.join(', ')}; migrate it first`,
+            409,
+            'RESTORE_SCHEMA_MISMATCH'
+          );
+        }
+
+        // Rows go in table by table, so foreign keys are only checked at the end
+        const foreignKeys = await tx.$queryRawUnsafe<Array<{ table_name: string; constraint_name: string }>>(`
+          SELECT conrelid::regclass::text AS table_name, conname AS constraint_name
+          FROM pg_constraint
+          WHERE contype = 'f' AND connamespace = 'public'::regnamespace AND NOT condeferrable
+        `);
+        for (const fk of foreignKeys) {
+          await tx.$executeRawUnsafe(`ALTER TABLE ${fk.table_name} ALTER CONSTRAINT ${quoteIdent(fk.constraint_name)} DEFERRABLE INITIALLY DEFERRED`);
+        }
+
+        await tx.$executeRawUnsafe(`TRUNCATE TABLE ${[...targetColumns.keys()].map(quoteIdent).join(', ')} CASCADE`);
+
+        const restored: Record<string, number> = {};
+        let columns = '';
+
+        // The archive is streamed again and re-verified; a mismatch rolls everything back
+        for await (const record of this.readRecords(archive.backupId)) {
+          if (record.type === 'table') {
+            const available = targetColumns.get(record.name)!;
+            columns = record.columns.filter(column => available.has(column)).map(quoteIdent).join(', ');
+          } else if (record.type === 'rows') {
+            await tx.$executeRawUnsafe(
+              `INSERT INTO ${quoteIdent(record.table)} (${columns}) SELECT ${columns} FROM json_populate_recordset(NULL::${quoteIdent(record.table)}, $1::json)`,
+              record.rows
+            );
+          } else if (record.type === 'table_end') {
+            const [{ count }] = await tx.$queryRawUnsafe<Array<{ count: number }>>(
+              `SELECT count(*)::int AS count FROM ${quoteIdent(record.table)}`
+            );
+            if (count !== record.rowCount) {
+              throw new TenantBackupError(
+                `Restored ${count} of ${record.rowCount} rows into ${record.table}`,
+                500,
+                'RESTORE_VERIFICATION_FAILED'
+              );
+            }
+            restored[record.table] = count;
+          }
+        }
+
+        await tx.$executeRawUnsafe('SET CONSTRAINTS ALL IMMEDIATE');
+        for (const fk of foreignKeys) {
+          await tx.$executeRawUnsafe(`ALTER TABLE ${fk.table_name} ALTER CONSTRAINT ${quoteIdent(fk.constraint_name)} NOT DEFERRABLE`);
+        }
+
+        return restored;
+      }, { maxWait: 30_000, timeout: RESTORE_TIMEOUT_MS });
+    } finally {
+      await client.$disconnect().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Check which objects in an archive's media manifest are in storage now
+   */
+  static async verifyMedia(archive: TenantBackupArchive): Promise<MediaVerification> {
+    const missing: string[] = [];
+    let totalObjects = 0;
+
+    const byProvider = new Map<string, MediaManifestEntry[]>();
+    for (const entry of archive.media) {
+      byProvider.set(entry.storageProvider, [...(byProvider.get(entry.storageProvider) || []), entry]);
+    }
+
+    for (const [provider, entries] of byProvider) {
+      const paths = entries.flatMap(entry => entry.objects.map(object => object.filePath));
+      totalObjects += paths.length;
+
+      const present = await this.findStoredPaths(provider, archive.tenant.subdomain, paths);
+      missing.push(...paths.filter(filePath => !present.has(filePath)));
+    }
+
+    return {
+      totalObjects,
+      missingObjects: missing.length,
+      missing: missing.slice(0, MAX_REPORTED_MISSING)
+    };
+  }
+
+  /**
+   * Delete a backup's archive and record
+   */
+  static async deleteBackup(backupId: string): Promise<void> {
+    const backup = await this.getBackup(backupId);
+    if (backup.status === 'running') {
+      throw new TenantBackupError('Backup is still running', 409, 'BACKUP_RUNNING');
+    }
+
+    if (backup.storagePath) {
+      await createBackupStore().delete(backup.storagePath);
+    }
+    await masterDb.tenantBackup.delete({ where: { backupId } });
+  }
+
+  // Private helper methods
+
+  /**
+   * Write every table's rows to the archive in chunks; only the per-table
+   * summaries are kept in memory
+   */
+  private static async exportDatabase(
+    client: TenantClient,
+    write: (record: ArchiveRecord) => Promise<void>
+  ): Promise<{
+    tables: Record<string, BackupTable>;
+    mediaRows: Array<{ file_id: string; file_path: string; file_size: number; variants: unknown; storage_provider: string; deleted_at: Date | null }>;
+  }> {
+    return client.$transaction(async tx => {
+      const columns = await this.getTableColumns(tx);
+      const tables: Record<string, BackupTable> = {};
+
+      for (const [name, tableColumns] of columns) {
+        await write({ type: 'table', name, columns: [...tableColumns] });
+
+        const checksum = crypto.createHash('sha256');
+        let rowCount = 0;
+
+        for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+          // ctid order is stable within the snapshot
+          const [batch] = await tx.$queryRawUnsafe<Array<{ rows: string; count: number }>>(`
+            SELECT coalesce(json_agg(t), '[]'::json)::text AS rows, count(*)::int AS count
+            FROM (SELECT * FROM ${quoteIdent(name)} ORDER BY ctid LIMIT ${EXPORT_BATCH_SIZE} OFFSET ${offset}) t
+          `);
+          if (batch.count === 0) break;
+
+          if (rowCount > 0) checksum.update('\n');
+          checksum.update(batch.rows);
+          await write({ type: 'rows', table: name, rows: batch.rows });
+
+          rowCount += batch.count;
+          if (batch.count < EXPORT_BATCH_SIZE) break;
+        }
+
+        tables[name] = { columns: [...tableColumns], rowCount, checksum: checksum.digest('hex') };
+        await write({ type: 'table_end', table: name, rowCount, checksum: tables[name].checksum });
+      }
+
+      const mediaRows = columns.has('media_files')
+        ? await tx.$queryRawUnsafe<any[]>(`
+            SELECT file_id, file_path, file_size::float8 AS file_size, variants, storage_provider, deleted_at
+            FROM media_files
+          `)
+        : [];
+
+      return { tables, mediaRows };
+    }, {
+      isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead,
+      maxWait: 30_000,
+      timeout: RESTORE_TIMEOUT_MS
+    });
+  }
+
+  /**
+   * Stream an archive's records, verifying its structure, table checksums
+   * and (once fully read) the archive checksum; throws BACKUP_CORRUPT on any
+   * mismatch.
+   */
+  private static async *readRecords(backupId: string): AsyncGenerator<ArchiveRecord> {
+    const { stream } = await this.openArchive(backupId);
+    const gunzip = createGunzip();
+    stream.on('error', error => gunzip.destroy(error));
+    stream.pipe(gunzip);
+
+    const corrupt = (detail: string) => new TenantBackupError(`Backup archive is corrupt: ${detail}`, 422, 'BACKUP_CORRUPT');
+
+    let header: ArchiveHeader | undefined;
+    let table: { name: string; checksum: crypto.Hash; chunks: number } | undefined;
+    let ended = false;
+
+    const check = (record: ArchiveRecord): ArchiveRecord => {
+      if (ended) throw corrupt('data after the end marker');
+
+      if (!header) {
+        if (
+          record?.type !== 'header' ||
+          record.format !== BACKUP_FORMAT ||
+          record.formatVersion !== BACKUP_FORMAT_VERSION ||
+          record.backupId !== backupId
+        ) {
+          throw new TenantBackupError('Backup archive has an unsupported format', 422, 'BACKUP_CORRUPT');
+        }
+        if (record.schemaVersion > TenantMigrations.getLatestVersion()) {
+          throw new TenantBackupError(
+            `Backup has schema version ${record.schemaVersion}; this server only knows up to ${TenantMigrations.getLatestVersion()}`,
+            409,
+            'BACKUP_SCHEMA_TOO_NEW'
+          );
+        }
+        header = record;
+        return record;
+      }
+
+      switch (record.type) {
+        case 'table':
+          if (table) throw corrupt(`table ${table.name} is not closed`);
+          table = { name: record.name, checksum: crypto.createHash('sha256'), chunks: 0 };
+          break;
+        case 'rows':
+          if (!table || record.table !== table.name) throw corrupt(`rows outside their table ${record.table}`);
+          if (table.chunks++ > 0) table.checksum.update('\n');
+          table.checksum.update(record.rows);
+          break;
+        case 'table_end':
+          if (!table || record.table !== table.name) throw corrupt(`unexpected end of table ${record.table}`);
+          if (table.checksum.digest('hex') !== record.checksum) {
+            throw new TenantBackupError(`Backup data for table ${record.table} does not match its checksum`, 422, 'BACKUP_CORRUPT');
+          }
+          table = undefined;
+          break;
+        case 'end':
+          if (table) throw corrupt(`table ${table.name} is not closed`);
+          ended = true;
+          break;
+        case 'media':
+          break;
+        default:
+          throw corrupt('unknown record');
+      }
+      return record;
+    };
+
+    try {
+      const decoder = new StringDecoder('utf8');
+      let buffered = '';
+
+      const parse = (line: string): ArchiveRecord => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new TenantBackupError('Backup archive cannot be read', 422, 'BACKUP_CORRUPT');
+        }
+      };
+
+      for await (const chunk of gunzip) {
+        buffered += decoder.write(chunk as Buffer);
+
+        let newline: number;
+        while ((newline = buffered.indexOf('\n')) !== -1) {
+          const line = buffered.slice(0, newline);
+          buffered = buffered.slice(newline + 1);
+          if (line) {
+            yield check(parse(line));
+          }
+        }
+      }
+
+      buffered += decoder.end();
+      if (buffered) {
+        yield check(parse(buffered));
+      }
+    } catch (error) {
+      if (error instanceof TenantBackupError) throw error;
+      logger.error(`Failed to read backup ${backupId}:`, error);
+      throw new TenantBackupError('Backup archive cannot be read', 422, 'BACKUP_CORRUPT');
+    } finally {
+      stream.destroy();
+      gunzip.destroy();
+    }
+
+    if (!ended) {
+      throw corrupt('archive is truncated');
+    }
+  }
+
+  /**
+   * Columns of every table in the public schema, in table and column order
+   */
+  private static async getTableColumns(tx: Prisma.TransactionClient): Promise<Map<string, Set<string>>> {
+    const rows = await tx.$queryRawUnsafe<Array<{ table_name: string; column_name: string }>>(`
+      SELECT c.table_name, c.column_name
+      FROM information_schema.columns c
+      JOIN information_schema.tables t ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+      WHERE c.table_schema = 'public' AND t.table_type = 'BASE TABLE'
+      ORDER BY c.table_name, c.ordinal_position
+    `);
+
+    const columns = new Map<string, Set<string>>();
+    for (const row of rows) {
+      if (!columns.has(row.table_name)) columns.set(row.table_name, new Set());
+      columns.get(row.table_name)!.add(row.column_name);
+    }
+    return columns;
+  }
+
+  private static async buildMediaManifest(
+    subdomain: string,
+    rows: Array<{ file_id: string; file_path: string; file_size: number; variants: unknown; storage_provider: string; deleted_at: Date | null }>
+  ): Promise<MediaManifestEntry[]> {
+    const entries: MediaManifestEntry[] = rows.map(row => {
+      const objects = new Map<string, number>([[row.file_path, Number(row.file_size) || 0]]);
+      const variants = (row.variants || {}) as Record<string, { filePath?: string; size?: number }>;
+      for (const variant of Object.values(variants)) {
+        if (variant?.filePath && !objects.has(variant.filePath)) {
+          objects.set(variant.filePath, Number(variant.size) || 0);
+        }
+      }
+
+      return {
+        fileId: row.file_id,
+        storageProvider: row.storage_provider,
+        deleted: row.deleted_at !== null,
+        objects: [...objects].map(([filePath, size]) => ({ filePath, size, present: false }))
+      };
+    });
+
+    const byProvider = new Map<string, MediaManifestEntry[]>();
+    for (const entry of entries) {
+      byProvider.set(entry.storageProvider, [...(byProvider.get(entry.storageProvider) || []), entry]);
+    }
+
+    for (const [provider, providerEntries] of byProvider) {
+      const paths = providerEntries.flatMap(entry => entry.objects.map(object => object.filePath));
+      const present = await this.findStoredPaths(provider, subdomain, paths);
+      for (const object of providerEntries.flatMap(entry => entry.objects)) {
+        object.present = present.has(object.filePath);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Which of `paths` exist in a provider's storage. Lists the tenant's prefix
+   * where the provider supports it and checks other paths one by one.
+   */
+  private static async findStoredPaths(provider: string, subdomain: string, paths: string[]): Promise<Set<string>> {
+    const present = new Set<string>();
+    if (paths.length === 0) return present;
+
+    let storageManager: StorageManager;
+    try {
+      storageManager = createStorageManager(provider as StorageProviderName);
+    } catch (error) {
+      logger.warn(`Cannot check media in ${provider} storage:`, error);
+      return present;
+    }
+
+    let remaining = paths;
+    if (storageManager.supportsListing) {
+      const listed = new Set((await storageManager.list(`${subdomain}/`)).map(object => object.filePath));
+      remaining = paths.filter(filePath => !listed.has(filePath));
+      paths.filter(filePath => listed.has(filePath)).forEach(filePath => present.add(filePath));
+    }
+
+    for (const filePath of remaining) {
+      if (await storageManager.exists(filePath).catch(() => false)) {
+        present.add(filePath);
+      }
+    }
+
+    return present;
+  }
+
+  /**
+   * Keep the newest `retention` completed prunable backups, and the latest
+   * attempt if it failed so the error stays visible
+   */
+  private static async pruneBackups(tenantId: string, retention: number): Promise<void> {
+    const backups = await masterDb.tenantBackup.findMany({
+      where: { tenantId, trigger: { in: PRUNABLE_TRIGGERS }, status: { not: 'running' } },
+      orderBy: { createdAt: 'desc' },
+      select: { backupId: true, status: true }
+    });
+
+    let kept = 0;
+    for (const [index, backup] of backups.entries()) {
+      if (index === 0 && backup.status === 'failed') continue;
+      if (backup.status === 'completed' && kept < retention) {
+        kept++;
+        continue;
+      }
+      await this.deleteBackup(backup.backupId);
+    }
+  }
+}
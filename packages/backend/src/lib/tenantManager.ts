@@ -1,194 +1,538 @@
-import { getMasterDb, getTenantDb } from './database';
+import crypto from 'crypto';
+import { masterDb, getTenantDb, createTenantDatabase, evictTenantDb } from './database';
+import { AuthService } from './auth';
 import { logger } from './logger';
 import { createStorageManager } from './storage';
-import bcrypt from 'bcryptjs';
+import { TierLimits, LimitedResource } from './tierLimits';
+import { TenantMigrations, TenantMigrationResult } from './tenantMigrations';
+import { TenantBackups, TenantBackupArchive, MediaVerification } from './tenantBackups';
+import type { Prisma, Tenant, TenantPlanRequest } from '../../packages/database/generated/master-client';
+import type { Role, User } from '../../packages/database/generated/tenant-client';
+
+export type SubscriptionTier = 'starter' | 'professional' | 'enterprise';
+
+// Ascending price; moving right is an upgrade
+const TIER_ORDER: SubscriptionTier[] = ['starter', 'professional', 'enterprise'];
 
 export interface TenantProvisioningConfig {
-  companyName: string;
-  primaryDomain: string;
-  adminEmail: string;
-  adminPassword: string;
-  plan: 'starter' | 'professional' | 'enterprise';
-  features: string[];
-  limits: {
-    maxUsers: number;
-    maxVehicles: number;
-    storageQuota: number; // GB
-    apiCallsPerMonth: number;
-  };
-  branding?: {
-    logoUrl?: string;
-    primaryColor?: string;
-    secondaryColor?: string;
+  tenantName: string;
+  subdomain: string;
+  subscriptionTier: SubscriptionTier;
+  admin: {
+    email: string;
+    password: string;
+    firstName: string;
+    lastName: string;
   };
+  settings?: Record<string, any>;
+}
+
+export interface RestoreResult {
+  tenant: Tenant;
+  backupId: string;
+  safetyBackupId?: string; // Backup of an existing tenant taken before it was overwritten
+  tables: Record<string, number>; // Restored row counts
+  media: MediaVerification;
 }
 
-export interface TenantResource {
-  tenantId: string;
-  resourceType: 'users' | 'vehicles' | 'storage' | 'api_calls';
+export interface ExceededLimit {
+  resource: LimitedResource;
   current: number;
   limit: number;
-  usagePercent: number;
-  lastUpdated: Date;
 }
 
-export interface TenantMigrationResult {
-  success: boolean;
-  migratedTables: string[];
-  errors: string[];
-  duration: number;
-  backupLocation?: string;
+/**
+ * A tenant management action was rejected (taken subdomain, invalid
+ * confirmation, usage above the target plan, ...)
+ */
+export class TenantManagementError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public code: string = 'TENANT_MANAGEMENT_ERROR',
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'TenantManagementError';
+  }
 }
 
+const DEFAULT_TENANT_SETTINGS = {
+  timezone: 'UTC',
+  currency: 'USD',
+  dateFormat: 'YYYY-MM-DD',
+  theme: 'light',
+  language: 'en'
+};
+
+// How long a renamed tenant's former subdomain keeps resolving to it. The
+// subdomain stays reserved afterwards: the tenant's database and storage
+// prefix are still named after it.
+const SUBDOMAIN_REDIRECT_DAYS = 90;
+
+const DELETION_TOKEN_TTL_MINUTES = 15;
+
 export class TenantManager {
   /**
-   * Provision a new tenant with complete setup
+   * Provision a new tenant: database, tenant record and admin user. Anything
+   * created before a failure is removed again.
    */
   static async provisionTenant(config: TenantProvisioningConfig): Promise<{
-    tenantId: string;
-    adminUserId: string;
-    credentials: {
-      email: string;
-      temporaryPassword: string;
-    };
+    tenant: Tenant;
+    adminUser: User & { role: Role | null };
   }> {
-    const masterDb = await getMasterDb();
-    let tenantId: string;
-    
+    if (!(await this.isSubdomainAvailable(config.subdomain))) {
+      throw new TenantManagementError('Subdomain is already taken', 409, 'SUBDOMAIN_TAKEN');
+    }
+
+    let databaseUrl: string | undefined;
+    let tenantId: string | undefined;
+
     try {
-      logger.info(`Starting tenant provisioning for ${config.companyName}`);
+      logger.info(`Starting tenant provisioning for ${config.tenantName} (${config.subdomain})`);
+
+      databaseUrl = await createTenantDatabase(config.subdomain, config.subdomain);
 
-      // Create tenant record
       const tenant = await masterDb.tenant.create({
         data: {
-          companyName: config.companyName,
-          primaryDomain: config.primaryDomain,
-          adminEmail: config.adminEmail,
+          tenantName: config.tenantName,
+          subdomain: config.subdomain,
+          databaseUrl,
+          subscriptionTier: config.subscriptionTier,
           status: 'active',
-          plan: config.plan,
-          features: config.features,
-          limits: config.limits,
-          branding: config.branding || {},
-          createdAt: new Date()
+          settings: { ...DEFAULT_TENANT_SETTINGS, ...config.settings },
+          features: this.getTierFeatures(config.subscriptionTier)
         }
       });
-
       tenantId = tenant.tenantId;
 
-      // Create admin user
-      const hashedPassword = await bcrypt.hash(config.adminPassword, 12);
-      const adminUser = await masterDb.user.create({
-        data: {
-          tenantId,
-          email: config.adminEmail,
-          passwordHash: hashedPassword,
-          firstName: 'Admin',
-          lastName: 'User',
-          role: 'admin',
-          status: 'active',
-          permissions: {
-            all: true
+      // The new database was created from every migration in this build
+      await TenantMigrations.recordProvisioned(tenant.tenantId);
+
+      const tenantDb = await getTenantDb(tenant.subdomain);
+
+      const adminRole = await tenantDb.role.findUnique({ where: { roleName: 'admin' } })
+        || await tenantDb.role.create({
+          data: {
+            roleName: 'admin',
+            roleDescription: 'System Administrator - Full Access',
+            roleLevel: 0,
+            isSystemRole: true,
+            status: 'active'
           }
+        });
+
+      const adminUser = await tenantDb.user.create({
+        data: {
+          email: config.admin.email,
+          passwordHash: await AuthService.hashPassword(config.admin.password),
+          firstName: config.admin.firstName,
+          lastName: config.admin.lastName,
+          roleId: adminRole.roleId,
+          permissions: AuthService.getDefaultPermissions('admin'),
+          preferences: {},
+          status: 'active'
+        },
+        include: {
+          role: true
         }
       });
 
-      // Initialize tenant database schema
-      await this.initializeTenantDatabase(tenantId);
+      logger.info(`Tenant provisioning completed for ${config.tenantName} (${tenant.tenantId})`);
+
+      return { tenant, adminUser };
+    } catch (error) {
+      logger.error(`Tenant provisioning failed for ${config.tenantName}:`, error);
+
+      await this.cleanupFailedProvisioning(config.subdomain, tenantId, databaseUrl);
+
+      throw new Error(`Failed to provision tenant: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Limits and feature flags a tenant gets on a subscription tier
+   */
+  static getTierFeatures(tier: string): Record<string, any> {
+    const features = {
+      starter: {
+        maxVehicles: 100,
+        maxUsers: 10,
+        storageGB: 10,
+        customWorkflows: false,
+        apiAccess: false,
+        prioritySupport: false
+      },
+      professional: {
+        maxVehicles: 1000,
+        maxUsers: 50,
+        storageGB: 100,
+        customWorkflows: true,
+        apiAccess: true,
+        prioritySupport: true
+      },
+      enterprise: {
+        maxVehicles: -1, // unlimited
+        maxUsers: -1, // unlimited
+        storageGB: 1000,
+        customWorkflows: true,
+        apiAccess: true,
+        prioritySupport: true,
+        sso: true,
+        customBranding: true
+      }
+    };
+
+    return features[tier as keyof typeof features] || features.starter;
+  }
+
+  /**
+   * Whether a subdomain can be given to a tenant. Former subdomains stay
+   * reserved for their tenant for good, after the redirect has lapsed too.
+   */
+  static async isSubdomainAvailable(subdomain: string, tenantId?: string): Promise<boolean> {
+    const [tenant, redirect] = await Promise.all([
+      masterDb.tenant.findUnique({ where: { subdomain }, select: { tenantId: true } }),
+      masterDb.tenantSubdomainRedirect.findUnique({ where: { subdomain } })
+    ]);
+
+    if (tenant) {
+      return false;
+    }
+
+    return !redirect || redirect.tenantId === tenantId;
+  }
+
+  /**
+   * Move a tenant to another subscription tier. The tier's limits replace the
+   * tenant's features; a downgrade below current usage is refused unless forced.
+   */
+  static async changeSubscriptionTier(
+    tenantId: string,
+    subscriptionTier: SubscriptionTier,
+    options: { force?: boolean } = {}
+  ): Promise<Tenant> {
+    const tenant = await this.getTenantOrThrow(tenantId);
+    if (tenant.subscriptionTier === subscriptionTier) {
+      return tenant;
+    }
 
-      // Set up default data
-      await this.setupDefaultTenantData(tenantId, adminUser.userId);
+    const features = this.getTierFeatures(subscriptionTier);
+
+    if (!options.force) {
+      const limits = TierLimits.resolveLimits(subscriptionTier, features);
+      const usage = await TierLimits.getUsage(tenant.subdomain);
+      const exceeded: ExceededLimit[] = usage.resources
+        .map(({ resource, current }) => ({ resource, current, limit: TierLimits.getLimit(limits, resource) }))
+        .filter(({ current, limit }) => limit >= 0 && current > limit);
+
+      if (exceeded.length > 0) {
+        throw new TenantManagementError(
+          `Current usage exceeds the ${subscriptionTier} plan limits for ${exceeded.map(item => item.resource).join(', ')}`,
+          409,
+          'PLAN_LIMIT_EXCEEDED',
+          { exceeded }
+        );
+      }
+    }
 
-      // Create storage directories
-      await this.setupTenantStorage(tenantId);
+    const updated = await masterDb.tenant.update({
+      where: { tenantId },
+      data: { subscriptionTier, features }
+    });
 
-      // Initialize monitoring and metrics
-      await this.initializeTenantMonitoring(tenantId);
+    logger.info(`Tenant ${tenant.subdomain} moved from ${tenant.subscriptionTier} to ${subscriptionTier} plan`);
 
-      logger.info(`Tenant provisioning completed for ${config.companyName} (${tenantId})`);
+    return updated;
+  }
 
-      return {
-        tenantId,
-        adminUserId: adminUser.userId,
-        credentials: {
-          email: config.adminEmail,
-          temporaryPassword: config.adminPassword
+  /**
+   * Whether moving between tiers is an upgrade (needs approval when self-service)
+   */
+  static isUpgrade(from: string, to: SubscriptionTier): boolean {
+    return TIER_ORDER.indexOf(to) > TIER_ORDER.indexOf(from as SubscriptionTier);
+  }
+
+  /**
+   * Ask for an upgrade on behalf of a tenant. Replaces the tenant's pending
+   * request; the tier only changes once a super admin approves it.
+   */
+  static async requestPlanUpgrade(
+    tenantId: string,
+    requestedTier: SubscriptionTier,
+    requestedBy: string
+  ): Promise<TenantPlanRequest> {
+    const tenant = await this.getTenantOrThrow(tenantId);
+
+    if (!this.isUpgrade(tenant.subscriptionTier, requestedTier)) {
+      throw new TenantManagementError(
+        `The ${requestedTier} plan is not an upgrade from ${tenant.subscriptionTier}`,
+        400,
+        'NOT_AN_UPGRADE'
+      );
+    }
+
+    const [, request] = await masterDb.$transaction([
+      masterDb.tenantPlanRequest.updateMany({
+        where: { tenantId, status: 'pending' },
+        data: { status: 'cancelled', reviewedAt: new Date() }
+      }),
+      masterDb.tenantPlanRequest.create({
+        data: {
+          tenantId,
+          currentTier: tenant.subscriptionTier,
+          requestedTier,
+          requestedBy
         }
-      };
-    } catch (error) {
-      logger.error(`Tenant provisioning failed for ${config.companyName}:`, error);
-      
-      // Cleanup on failure
-      if (tenantId!) {
-        await this.cleanupFailedProvisioning(tenantId);
+      })
+    ]);
+
+    logger.info(`Tenant ${tenant.subdomain} requested an upgrade to the ${requestedTier} plan (${requestedBy})`);
+
+    return request;
+  }
+
+  /**
+   * Approve (apply the tier) or reject a pending plan request
+   */
+  static async reviewPlanRequest(
+    requestId: string,
+    decision: 'approve' | 'reject',
+    reviewedBy: string,
+    note?: string
+  ): Promise<{ request: TenantPlanRequest; tenant: Tenant }> {
+    const request = await masterDb.tenantPlanRequest.findUnique({ where: { requestId } });
+    if (!request) {
+      throw new TenantManagementError('Plan request not found', 404, 'PLAN_REQUEST_NOT_FOUND');
+    }
+    if (request.status !== 'pending') {
+      throw new TenantManagementError(`Plan request is already ${request.status}`, 409, 'PLAN_REQUEST_CLOSED');
+    }
+
+    // Claim the request so concurrent reviews cannot both act on it
+    const claimed = await masterDb.tenantPlanRequest.updateMany({
+      where: { requestId, status: 'pending' },
+      data: {
+        status: decision === 'approve' ? 'approved' : 'rejected',
+        reviewedBy,
+        reviewNote: note,
+        reviewedAt: new Date()
       }
-      
-      throw new Error(`Failed to provision tenant: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+    if (claimed.count === 0) {
+      throw new TenantManagementError('Plan request was reviewed concurrently', 409, 'PLAN_REQUEST_CLOSED');
+    }
+
+    let tenant: Tenant;
+    try {
+      tenant = decision === 'approve'
+        ? await this.changeSubscriptionTier(request.tenantId, request.requestedTier as SubscriptionTier)
+        : await this.getTenantOrThrow(request.tenantId);
+    } catch (error) {
+      // Leave the request open for another attempt
+      await masterDb.tenantPlanRequest.update({
+        where: { requestId },
+        data: { status: 'pending', reviewedBy: null, reviewNote: null, reviewedAt: null }
+      });
+      throw error;
+    }
+
+    logger.info(`Plan request ${requestId} for tenant ${tenant.subdomain} ${decision === 'approve' ? 'approved' : 'rejected'} by ${reviewedBy}`);
+
+    return {
+      request: await masterDb.tenantPlanRequest.findUniqueOrThrow({ where: { requestId } }),
+      tenant
+    };
+  }
+
+  /**
+   * Give a tenant a new subdomain. The former one keeps resolving to the
+   * tenant for SUBDOMAIN_REDIRECT_DAYS so existing links and sessions work.
+   */
+  static async renameSubdomain(tenantId: string, subdomain: string): Promise<{
+    tenant: Tenant;
+    previousSubdomain: string;
+    redirectExpiresAt: Date;
+  }> {
+    const tenant = await this.getTenantOrThrow(tenantId);
+    const previousSubdomain = tenant.subdomain;
+
+    if (subdomain === previousSubdomain) {
+      throw new TenantManagementError('The tenant already uses this subdomain', 400, 'SUBDOMAIN_UNCHANGED');
+    }
+
+    if (!(await this.isSubdomainAvailable(subdomain, tenantId))) {
+      throw new TenantManagementError('Subdomain is already taken', 409, 'SUBDOMAIN_TAKEN');
+    }
+
+    const redirectExpiresAt = new Date(Date.now() + SUBDOMAIN_REDIRECT_DAYS * 24 * 60 * 60 * 1000);
+
+    const [, updated] = await masterDb.$transaction([
+      // Returning to a former subdomain
+      masterDb.tenantSubdomainRedirect.deleteMany({ where: { subdomain } }),
+      masterDb.tenant.update({
+        where: { tenantId },
+        data: { subdomain }
+      }),
+      masterDb.tenantSubdomainRedirect.upsert({
+        where: { subdomain: previousSubdomain },
+        create: { subdomain: previousSubdomain, tenantId, expiresAt: redirectExpiresAt },
+        update: { tenantId, expiresAt: redirectExpiresAt }
+      })
+    ]);
+
+    // The cached client is keyed by the old subdomain
+    await evictTenantDb(previousSubdomain);
+
+    logger.info(`Tenant ${tenantId} renamed from ${previousSubdomain} to ${subdomain}`);
+
+    return { tenant: updated, previousSubdomain, redirectExpiresAt };
+  }
+
+  /**
+   * Issue a single-use token that must accompany the deletion of a tenant.
+   * Earlier unused tokens of the tenant stop working.
+   */
+  static async createDeletionRequest(tenantId: string, requestedBy: string): Promise<{
+    confirmationToken: string;
+    expiresAt: Date;
+  }> {
+    const tenant = await this.getTenantOrThrow(tenantId);
+
+    const confirmationToken = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + DELETION_TOKEN_TTL_MINUTES * 60 * 1000);
+
+    await masterDb.$transaction([
+      masterDb.tenantDeletionRequest.updateMany({
+        where: { tenantId, usedAt: null, expiresAt: { gt: new Date() } },
+        data: { expiresAt: new Date() }
+      }),
+      masterDb.tenantDeletionRequest.create({
+        data: {
+          tenantId,
+          tokenHash: AuthService.hashToken(confirmationToken),
+          requestedBy,
+          expiresAt
+        }
+      })
+    ]);
+
+    logger.warn(`Deletion of tenant ${tenant.subdomain} requested by ${requestedBy}`);
+
+    return { confirmationToken, expiresAt };
+  }
+
+  /**
+   * Delete a tenant after checking its confirmation token and subdomain. The
+   * data is backed up first; nothing is deleted if the backup fails.
+   */
+  static async deleteTenant(
+    tenantId: string,
+    confirmation: { confirmationToken: string; subdomain: string }
+  ): Promise<{ backupId: string; backupLocation: string }> {
+    const tenant = await this.getTenantOrThrow(tenantId);
+
+    if (confirmation.subdomain !== tenant.subdomain) {
+      throw new TenantManagementError('The confirmation subdomain does not match the tenant', 400, 'CONFIRMATION_MISMATCH');
+    }
+
+    if (['provisioning', 'deleting', 'restoring'].includes(tenant.status)) {
+      throw new TenantManagementError(`Tenant is ${tenant.status}`, 409, 'TENANT_BUSY');
+    }
+
+    const request = await masterDb.tenantDeletionRequest.findUnique({
+      where: { tokenHash: AuthService.hashToken(confirmation.confirmationToken) }
+    });
+
+    const invalidToken = new TenantManagementError(
+      'Deletion confirmation token is invalid or has expired',
+      400,
+      'INVALID_CONFIRMATION_TOKEN'
+    );
+
+    if (!request || request.tenantId !== tenantId || request.usedAt || request.expiresAt <= new Date()) {
+      throw invalidToken;
     }
+
+    // Claim the token so concurrent requests cannot both proceed
+    const claimed = await masterDb.tenantDeletionRequest.updateMany({
+      where: { requestId: request.requestId, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+    if (claimed.count === 0) {
+      throw invalidToken;
+    }
+
+    const result = await this.decommissionTenant(tenantId, { deleteImmediately: true });
+    if (!result.success || !result.backupId || !result.backupLocation) {
+      throw new Error(`Failed to delete tenant: ${result.errors.join('; ')}`);
+    }
+
+    return { backupId: result.backupId, backupLocation: result.backupLocation };
   }
 
   /**
-   * Decommission a tenant with data cleanup
+   * Decommission a tenant: block access and, with `deleteImmediately`, drop
+   * its database, media and record. Deletion always backs the data up first.
    */
   static async decommissionTenant(
     tenantId: string,
     options: {
       backupData?: boolean;
       deleteImmediately?: boolean;
-      transferToArchive?: boolean;
     } = {}
   ): Promise<{
     success: boolean;
+    backupId?: string;
     backupLocation?: string;
     errors: string[];
   }> {
-    const masterDb = await getMasterDb();
     const errors: string[] = [];
+    let backupId: string | undefined;
     let backupLocation: string | undefined;
 
     try {
       logger.info(`Starting tenant decommissioning for ${tenantId}`);
 
-      // Validate tenant exists
-      const tenant = await masterDb.tenant.findUnique({
-        where: { tenantId }
-      });
-
-      if (!tenant) {
-        throw new Error('Tenant not found');
-      }
+      const tenant = await this.getTenantOrThrow(tenantId);
 
-      // Backup data if requested
-      if (options.backupData) {
+      if (options.backupData || options.deleteImmediately) {
         try {
-          backupLocation = await this.backupTenantData(tenantId);
+          const backup = await TenantBackups.createBackup(tenant.tenantId, { trigger: 'pre_deletion' });
+          backupId = backup.backupId;
+          backupLocation = backup.storagePath ?? undefined;
         } catch (error) {
           errors.push(`Backup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          if (options.deleteImmediately) {
+            return { success: false, errors };
+          }
         }
       }
 
-      // Deactivate tenant
+      // Inactive tenants are rejected by the tenant connection middleware
       await masterDb.tenant.update({
         where: { tenantId },
-        data: {
-          status: options.deleteImmediately ? 'deleted' : 'decommissioned',
-          decommissionedAt: new Date()
-        }
-      });
-
-      // Deactivate all users
-      await masterDb.user.updateMany({
-        where: { tenantId },
-        data: { status: 'inactive' }
+        data: { status: options.deleteImmediately ? 'deleting' : 'decommissioned' }
       });
+      await evictTenantDb(tenant.subdomain);
 
       if (options.deleteImmediately) {
-        // Delete tenant data
-        await this.deleteTenantData(tenantId);
-        
-        // Delete storage
-        await this.deleteTenantStorage(tenantId);
-        
-        // Remove tenant record
+        const redirects = await masterDb.tenantSubdomainRedirect.findMany({
+          where: { tenantId },
+          select: { subdomain: true }
+        });
+
+        try {
+          await this.deleteTenantData(tenant);
+        } catch (error) {
+          // The database is intact, so the tenant can keep working
+          await masterDb.tenant.update({ where: { tenantId }, data: { status: tenant.status } });
+          throw error;
+        }
+
+        await this.deleteTenantStorage([tenant.subdomain, ...redirects.map(redirect => redirect.subdomain)]);
+
+        // Redirects and deletion requests go with the tenant record
         await masterDb.tenant.delete({
           where: { tenantId }
         });
@@ -198,355 +542,227 @@ export class TenantManager {
 
       return {
         success: true,
+        backupId,
         backupLocation,
         errors
       };
     } catch (error) {
       logger.error(`Tenant decommissioning failed for ${tenantId}:`, error);
       errors.push(error instanceof Error ? error.message : 'Unknown error');
-      
+
       return {
         success: false,
+        backupId,
+        backupLocation,
         errors
       };
     }
   }
 
   /**
-   * Migrate tenant to new version or configuration
+   * Apply pending schema migrations to one tenant, optionally backing up
+   * its data first. Failures are reported in the result, not thrown.
    */
   static async migrateTenant(
     tenantId: string,
-    migrationScript: string,
     options: {
       dryRun?: boolean;
       backupFirst?: boolean;
+      targetVersion?: number;
     } = {}
-  ): Promise<TenantMigrationResult> {
-    const startTime = Date.now();
-    const migratedTables: string[] = [];
-    const errors: string[] = [];
-    let backupLocation: string | undefined;
-
-    try {
-      logger.info(`Starting tenant migration for ${tenantId}`);
-
-      if (options.backupFirst) {
-        backupLocation = await this.backupTenantData(tenantId);
-      }
-
-      const tenantDb = await getTenantDb(tenantId);
-
-      // Execute migration script
-      // This is a simplified version - real implementation would parse and execute SQL
-      if (!options.dryRun) {
-        // Mock migration execution
-        migratedTables.push('vehicles', 'users', 'workflows');
-        
-        // In real implementation, you'd execute actual migration scripts
-        logger.info(`Migration script executed for tenant ${tenantId}`);
-      } else {
-        logger.info(`Dry run completed for tenant ${tenantId}`);
-      }
-
-      const duration = Date.now() - startTime;
+  ): Promise<TenantMigrationResult & { backupId?: string }> {
+    const tenant = await this.getTenantOrThrow(tenantId);
 
-      return {
-        success: true,
-        migratedTables,
-        errors,
-        duration,
-        backupLocation
-      };
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      errors.push(errorMessage);
-
-      logger.error(`Tenant migration failed for ${tenantId}:`, error);
-
-      return {
-        success: false,
-        migratedTables,
-        errors,
-        duration,
-        backupLocation
-      };
+    let backupId: string | undefined;
+    if (options.backupFirst && !options.dryRun) {
+      backupId = (await TenantBackups.createBackup(tenant.tenantId, { trigger: 'pre_migration' })).backupId;
     }
+
+    const result = await TenantMigrations.migrateTenant(tenant.tenantId, {
+      dryRun: options.dryRun,
+      targetVersion: options.targetVersion
+    });
+    return { ...result, backupId };
   }
 
   /**
-   * Monitor tenant resource usage
+   * Restore a verified backup into an existing tenant, replacing all of its
+   * data, or into a new tenant created with the backup's plan and settings.
+   * An existing tenant is migrated to the latest schema and backed up first,
+   * and is unavailable while the restore runs. Media is not part of the
+   * backup; the result reports manifest objects missing from storage.
    */
-  static async getResourceUsage(tenantId: string): Promise<TenantResource[]> {
-    try {
-      const masterDb = await getMasterDb();
-      
-      const tenant = await masterDb.tenant.findUnique({
-        where: { tenantId },
-        include: {
-          users: true
-        }
-      });
+  static async restoreBackup(
+    backupId: string,
+    target: { tenantId: string; confirmSubdomain: string } | { newTenant: { subdomain: string; tenantName?: string } },
+    requestedBy?: string
+  ): Promise<RestoreResult> {
+    const archive = await TenantBackups.readArchive(backupId);
 
-      if (!tenant) {
-        throw new Error('Tenant not found');
-      }
+    const result = 'tenantId' in target
+      ? await this.restoreIntoExistingTenant(archive, target, requestedBy)
+      : await this.restoreIntoNewTenant(archive, target.newTenant);
 
-      const tenantDb = await getTenantDb(tenantId);
+    const media = await TenantBackups.verifyMedia(archive);
 
-      // Get current usage
-      const [userCount, vehicleCount, storageUsage] = await Promise.all([
-        tenant.users.length,
-        tenantDb.vehicle.count().catch(() => 0),
-        this.calculateStorageUsage(tenantId)
-      ]);
+    logger.warn(`Backup ${backupId} restored into tenant ${result.tenant.subdomain}${requestedBy ? ` by ${requestedBy}` : ''}`, {
+      tables: Object.keys(result.tables).length,
+      missingMedia: media.missingObjects
+    });
 
-      const apiUsage = await this.getApiUsage(tenantId);
+    return { ...result, backupId, media };
+  }
 
-      const resources: TenantResource[] = [
-        {
-          tenantId,
-          resourceType: 'users',
-          current: userCount,
-          limit: tenant.limits.maxUsers,
-          usagePercent: (userCount / tenant.limits.maxUsers) * 100,
-          lastUpdated: new Date()
-        },
-        {
-          tenantId,
-          resourceType: 'vehicles',
-          current: vehicleCount,
-          limit: tenant.limits.maxVehicles,
-          usagePercent: (vehicleCount / tenant.limits.maxVehicles) * 100,
-          lastUpdated: new Date()
-        },
-        {
-          tenantId,
-          resourceType: 'storage',
-          current: storageUsage,
-          limit: tenant.limits.storageQuota,
-          usagePercent: (storageUsage / tenant.limits.storageQuota) * 100,
-          lastUpdated: new Date()
-        },
-        {
-          tenantId,
-          resourceType: 'api_calls',
-          current: apiUsage,
-          limit: tenant.limits.apiCallsPerMonth,
-          usagePercent: (apiUsage / tenant.limits.apiCallsPerMonth) * 100,
-          lastUpdated: new Date()
-        }
-      ];
+  // Private helper methods
 
-      return resources;
-    } catch (error) {
-      logger.error(`Failed to get resource usage for tenant ${tenantId}:`, error);
-      throw new Error('Failed to get resource usage');
+  private static async getTenantOrThrow(tenantId: string): Promise<Tenant> {
+    const tenant = await masterDb.tenant.findUnique({ where: { tenantId } });
+    if (!tenant) {
+      throw new TenantManagementError('Tenant not found', 404, 'TENANT_NOT_FOUND');
     }
+    return tenant;
   }
 
-  /**
-   * Upgrade tenant plan
-   */
-  static async upgradeTenantPlan(
-    tenantId: string,
-    newPlan: 'starter' | 'professional' | 'enterprise',
-    newLimits: TenantProvisioningConfig['limits']
-  ): Promise<void> {
-    try {
-      const masterDb = await getMasterDb();
+  private static async restoreIntoExistingTenant(
+    archive: TenantBackupArchive,
+    target: { tenantId: string; confirmSubdomain: string },
+    requestedBy?: string
+  ): Promise<Omit<RestoreResult, 'backupId' | 'media'>> {
+    const tenant = await this.getTenantOrThrow(target.tenantId);
 
-      await masterDb.tenant.update({
-        where: { tenantId },
-        data: {
-          plan: newPlan,
-          limits: newLimits,
-          updatedAt: new Date()
-        }
-      });
+    if (target.confirmSubdomain !== tenant.subdomain) {
+      throw new TenantManagementError('The confirmation subdomain does not match the tenant', 400, 'CONFIRMATION_MISMATCH');
+    }
 
-      logger.info(`Tenant ${tenantId} upgraded to ${newPlan} plan`);
-    } catch (error) {
-      logger.error(`Failed to upgrade tenant ${tenantId}:`, error);
-      throw new Error('Failed to upgrade tenant plan');
+    // Every table in the backup must exist, and later columns get their defaults
+    const migration = await TenantMigrations.migrateTenant(tenant.tenantId);
+    if (!migration.success) {
+      throw new TenantManagementError(`Tenant schema could not be migrated: ${migration.error}`, 409, 'MIGRATION_FAILED');
     }
-  }
 
-  // Private helper methods
+    const safetyBackup = await TenantBackups.createBackup(tenant.tenantId, { trigger: 'pre_restore', createdBy: requestedBy });
+
+    // Requests are rejected by the tenant connection middleware meanwhile
+    await masterDb.tenant.update({ where: { tenantId: tenant.tenantId }, data: { status: 'restoring' } });
+    await evictTenantDb(tenant.subdomain);
 
-  private static async initializeTenantDatabase(tenantId: string): Promise<void> {
     try {
-      // In a real implementation, this would:
-      // 1. Create a new database schema for the tenant
-      // 2. Run Prisma migrations specific to the tenant
-      // 3. Set up initial database structure
-
-      const tenantDb = await getTenantDb(tenantId);
-      
-      // Verify database connection
-      await tenantDb.$queryRaw`SELECT 1`;
-      
-      logger.info(`Database initialized for tenant ${tenantId}`);
-    } catch (error) {
-      throw new Error(`Failed to initialize database for tenant ${tenantId}`);
+      const tables = await TenantBackups.restoreIntoDatabase(tenant.databaseUrl, archive);
+      return { tenant, tables, safetyBackupId: safetyBackup.backupId };
+    } finally {
+      await masterDb.tenant.update({ where: { tenantId: tenant.tenantId }, data: { status: tenant.status } });
     }
   }
 
-  private static async setupDefaultTenantData(tenantId: string, adminUserId: string): Promise<void> {
+  private static async restoreIntoNewTenant(
+    archive: TenantBackupArchive,
+    newTenant: { subdomain: string; tenantName?: string }
+  ): Promise<Omit<RestoreResult, 'backupId' | 'media'>> {
+    if (!(await this.isSubdomainAvailable(newTenant.subdomain))) {
+      throw new TenantManagementError('Subdomain is already taken', 409, 'SUBDOMAIN_TAKEN');
+    }
+
+    let databaseUrl: string | undefined;
+    let tenantId: string | undefined;
+
     try {
-      const tenantDb = await getTenantDb(tenantId);
+      databaseUrl = await createTenantDatabase(newTenant.subdomain, newTenant.subdomain);
 
-      // Create default location
-      await tenantDb.location.create({
+      const tenant = await masterDb.tenant.create({
         data: {
-          locationName: 'Main Office',
-          address: '123 Business St',
-          city: 'Business City',
-          state: 'BC',
-          country: 'Country',
-          status: 'active'
+          tenantName: newTenant.tenantName || archive.tenant.tenantName,
+          subdomain: newTenant.subdomain,
+          databaseUrl,
+          subscriptionTier: archive.tenant.subscriptionTier,
+          status: 'restoring',
+          settings: (archive.tenant.settings ?? {}) as Prisma.InputJsonValue,
+          features: (archive.tenant.features ?? {}) as Prisma.InputJsonValue
         }
       });
+      tenantId = tenant.tenantId;
 
-      // Create default department
-      await tenantDb.department.create({
-        data: {
-          departmentName: 'Administration',
-          description: 'Default administrative department',
-          status: 'active'
-        }
-      });
+      await TenantMigrations.recordProvisioned(tenant.tenantId);
 
-      // Create default system configs
-      const defaultConfigs = [
-        { category: 'system', key: 'timezone', value: 'UTC' },
-        { category: 'system', key: 'currency', value: 'USD' },
-        { category: 'workflow', key: 'default_stages', value: ['intake', 'assessment', 'installation', 'quality_check', 'delivery'] }
-      ];
+      const tables = await TenantBackups.restoreIntoDatabase(databaseUrl, archive);
 
-      for (const config of defaultConfigs) {
-        await tenantDb.systemConfig.create({
-          data: {
-            configCategory: config.category,
-            configKey: config.key,
-            configValue: config.value
-          }
-        });
-      }
+      const restored = await masterDb.tenant.update({
+        where: { tenantId: tenant.tenantId },
+        data: { status: 'active' }
+      });
 
-      logger.info(`Default data created for tenant ${tenantId}`);
+      return { tenant: restored, tables };
     } catch (error) {
-      throw new Error(`Failed to setup default data for tenant ${tenantId}`);
-    }
-  }
+      logger.error(`Restoring into new tenant ${newTenant.subdomain} failed:`, error);
 
-  private static async setupTenantStorage(tenantId: string): Promise<void> {
-    try {
-      const storageManager = createStorageManager();
-      
-      // Create tenant-specific storage directories
-      // This is provider-specific implementation
-      
-      logger.info(`Storage setup completed for tenant ${tenantId}`);
-    } catch (error) {
-      logger.warn(`Storage setup failed for tenant ${tenantId}:`, error);
-      // Don't throw here as storage might be configured differently
-    }
-  }
+      await this.cleanupFailedProvisioning(newTenant.subdomain, tenantId, databaseUrl);
 
-  private static async initializeTenantMonitoring(tenantId: string): Promise<void> {
-    try {
-      // Initialize monitoring and metrics collection for the tenant
-      // This would set up logging, metrics collection, etc.
-      
-      logger.info(`Monitoring initialized for tenant ${tenantId}`);
-    } catch (error) {
-      logger.warn(`Monitoring initialization failed for tenant ${tenantId}:`, error);
+      throw error;
     }
   }
 
-  private static async cleanupFailedProvisioning(tenantId: string): Promise<void> {
+  private static async cleanupFailedProvisioning(
+    subdomain: string,
+    tenantId?: string,
+    databaseUrl?: string
+  ): Promise<void> {
     try {
-      const masterDb = await getMasterDb();
-      
-      // Delete tenant and related records
-      await masterDb.user.deleteMany({
-        where: { tenantId }
-      });
-      
-      await masterDb.tenant.delete({
-        where: { tenantId }
-      });
-      
-      logger.info(`Cleanup completed for failed tenant provisioning ${tenantId}`);
-    } catch (error) {
-      logger.error(`Cleanup failed for tenant ${tenantId}:`, error);
-    }
-  }
+      await evictTenantDb(subdomain);
 
-  private static async backupTenantData(tenantId: string): Promise<string> {
-    try {
-      // In a real implementation, this would:
-      // 1. Create a database dump
-      // 2. Archive media files
-      // 3. Store backup in secure location
-      // 4. Return backup location/identifier
-      
-      const backupId = `backup_${tenantId}_${Date.now()}`;
-      const backupLocation = `/backups/${backupId}`;
-      
-      logger.info(`Backup created for tenant ${tenantId} at ${backupLocation}`);
-      
-      return backupLocation;
-    } catch (error) {
-      throw new Error(`Failed to backup tenant data for ${tenantId}`);
-    }
-  }
+      if (tenantId) {
+        await masterDb.tenantMigration.deleteMany({ where: { tenantId } });
+        await masterDb.tenant.delete({ where: { tenantId } });
+      }
 
-  private static async deleteTenantData(tenantId: string): Promise<void> {
-    try {
-      // In a real implementation, this would:
-      // 1. Delete all tenant-specific database records
-      // 2. Drop tenant database schema
-      // 3. Clean up any cached data
-      
-      logger.info(`Data deleted for tenant ${tenantId}`);
+      if (databaseUrl) {
+        await this.deleteTenantData({ subdomain, databaseUrl });
+      }
+
+      logger.info(`Cleanup completed for failed tenant provisioning ${subdomain}`);
     } catch (error) {
-      throw new Error(`Failed to delete tenant data for ${tenantId}`);
+      logger.error(`Cleanup failed for tenant ${subdomain}:`, error);
     }
   }
 
-  private static async deleteTenantStorage(tenantId: string): Promise<void> {
+  /**
+   * Drop the tenant database (it lives on the master database's server)
+   */
+  private static async deleteTenantData(tenant: Pick<Tenant, 'subdomain' | 'databaseUrl'>): Promise<void> {
     try {
-      // Delete tenant-specific storage
-      logger.info(`Storage deleted for tenant ${tenantId}`);
+      const databaseName = decodeURIComponent(new URL(tenant.databaseUrl).pathname.replace(/^\//, ''));
+      if (!databaseName) {
+        throw new Error('Database name missing from tenant database URL');
+      }
+
+      await evictTenantDb(tenant.subdomain);
+      await masterDb.$executeRawUnsafe(`DROP DATABASE IF EXISTS "${databaseName.replace(/"/g, '""')}" WITH (FORCE)`);
+
+      logger.info(`Database ${databaseName} dropped for tenant ${tenant.subdomain}`);
     } catch (error) {
-      logger.warn(`Storage deletion failed for tenant ${tenantId}:`, error);
+      logger.error(`Failed to delete tenant data for ${tenant.subdomain}:`, error);
+      throw new Error(`Failed to delete tenant data for ${tenant.subdomain}`);
     }
   }
 
-  private static async calculateStorageUsage(tenantId: string): Promise<number> {
-    try {
-      // Calculate actual storage usage for the tenant
-      // This would sum up all media files, database size, etc.
-      
-      // Mock calculation - in real implementation, this would be accurate
-      return Math.random() * 10; // GB
-    } catch (error) {
-      return 0;
+  /**
+   * Delete stored media under the tenant's current and former subdomains
+   */
+  private static async deleteTenantStorage(subdomains: string[]): Promise<void> {
+    const storageManager = createStorageManager();
+    if (!storageManager.supportsListing) {
+      logger.warn(`Storage provider ${storageManager.providerName} cannot list objects; media of ${subdomains[0]} left in place`);
+      return;
     }
-  }
 
-  private static async getApiUsage(tenantId: string): Promise<number> {
-    try {
-      // Get API usage for current month
-      // This would come from API usage tracking system
-      
-      // Mock data
-      return Math.floor(Math.random() * 10000);
-    } catch (error) {
-      return 0;
+    for (const subdomain of subdomains) {
+      try {
+        const objects = await storageManager.list(`${subdomain}/`);
+        for (const object of objects) {
+          await storageManager.delete(object.filePath);
+        }
+        logger.info(`Deleted ${objects.length} stored object(s) of tenant ${subdomain}`);
+      } catch (error) {
+        logger.warn(`Storage deletion failed for tenant ${subdomain}:`, error);
+      }
     }
   }
-}
\ No newline at end of file
+}
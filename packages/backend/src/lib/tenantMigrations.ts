@@ -0,0 +1,464 @@
+import crypto from 'crypto';
+import { masterDb } from './database';
+import { logger } from './logger';
+import { tenantMigrations } from '../migrations/tenant';
+import { PrismaClient as TenantClient } from '../../packages/database/generated/tenant-client';
+import type { Tenant } from '../../packages/database/generated/master-client';
+
+/**
+ * One versioned change to the tenant database schema. Statements run in
+ * order inside a single transaction and must be safe to re-run against a
+ * database that already has the change (`IF NOT EXISTS`, `addForeignKey`).
+ */
+export interface TenantSchemaMigration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+export type MigrationState = 'applied' | 'pending' | 'failed' | 'modified';
+
+export interface MigrationStatusEntry {
+  version: number;
+  migrationName: string;
+  checksum: string;
+  state: MigrationState;
+  appliedAt?: Date;
+  error?: string;
+}
+
+export interface TenantMigrationStatus {
+  tenantId: string;
+  subdomain: string;
+  tenantName: string;
+  tenantStatus: string;
+  currentVersion: number;
+  latestVersion: number;
+  upToDate: boolean;
+  migrations: MigrationStatusEntry[];
+  unknownMigrations: string[]; // Recorded for the tenant but not in this build
+}
+
+export interface TenantMigrationResult {
+  tenantId: string;
+  subdomain: string;
+  success: boolean;
+  dryRun: boolean;
+  applied: string[]; // In a dry run: migrations that would be applied
+  skipped: boolean; // Not attempted: rollout stopped, or a run was already in progress
+  error?: string;
+  durationMs: number;
+}
+
+export interface MigrationRolloutResult {
+  dryRun: boolean;
+  latestVersion: number;
+  startedAt: Date;
+  finishedAt: Date;
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  results: TenantMigrationResult[];
+}
+
+export interface MigrationRunOptions {
+  dryRun?: boolean;
+  targetVersion?: number; // Stop after this version (default: latest)
+}
+
+export interface MigrationRolloutOptions extends MigrationRunOptions {
+  tenantIds?: string[]; // Default: every tenant that is not being provisioned, restored or deleted
+  maxFailures?: number; // Skip the remaining tenants once this many have failed
+}
+
+/**
+ * A migration run was rejected or could not be started
+ */
+export class TenantMigrationError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public code: string = 'TENANT_MIGRATION_ERROR'
+  ) {
+    super(message);
+    this.name = 'TenantMigrationError';
+  }
+}
+
+// Thrown inside a dry-run transaction to roll it back
+class DryRunRollback extends Error {}
+
+// Serialises migration transactions on one tenant database across processes
+const MIGRATION_LOCK_KEY = 72_011_001;
+
+const MIGRATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Tenants in these states have no usable database to migrate
+const EXCLUDED_TENANT_STATUSES = ['provisioning', 'deleting', 'restoring'];
+
+export class TenantMigrations {
+  // Tenants with a migration run in progress in this process
+  private static running = new Set<string>();
+
+  /**
+   * Apply pending migrations to every tenant in the background at startup.
+   * Set TENANT_MIGRATIONS_AUTO_APPLY=false to roll out manually instead.
+   */
+  static initialize(): void {
+    if (process.env.TENANT_MIGRATIONS_AUTO_APPLY === 'false') {
+      return;
+    }
+
+    this.migrateAll()
+      .then(result => {
+        const log = result.failed > 0 ? logger.warn.bind(logger) : logger.info.bind(logger);
+        log(`Tenant migrations to version ${result.latestVersion}: ${result.succeeded} succeeded, ${result.failed} failed`);
+      })
+      .catch(error => logger.error('Tenant migration rollout failed:', error));
+  }
+
+  /**
+   * Migrations in this build, validated to be numbered 1..n without gaps
+   */
+  static getMigrations(): TenantSchemaMigration[] {
+    tenantMigrations.forEach((migration, index) => {
+      if (migration.version !== index + 1) {
+        throw new Error(`Tenant migration ${migration.name} has version ${migration.version}, expected ${index + 1}`);
+      }
+    });
+    return tenantMigrations;
+  }
+
+  static getLatestVersion(): number {
+    return this.getMigrations().length;
+  }
+
+  /**
+   * Name a migration is recorded under in the master database, e.g. `0003_password_resets`
+   */
+  static getMigrationName(migration: TenantSchemaMigration): string {
+    return `${String(migration.version).padStart(4, '0')}_${migration.name}`;
+  }
+
+  static getChecksum(migration: TenantSchemaMigration): string {
+    return crypto.createHash('sha256').update(migration.statements.join('\n;\n')).digest('hex');
+  }
+
+  /**
+   * Create the full schema in a newly created, empty tenant database. The
+   * tenant record does not exist yet, so nothing is recorded; call
+   * `recordProvisioned` once it does.
+   */
+  static async applyToNewDatabase(client: TenantClient): Promise<void> {
+    for (const migration of this.getMigrations()) {
+      await this.executeMigration(client, migration);
+    }
+  }
+
+  /**
+   * Record every migration in this build as applied to a freshly provisioned tenant
+   */
+  static async recordProvisioned(tenantId: string): Promise<void> {
+    await masterDb.tenantMigration.createMany({
+      data: this.getMigrations().map(migration => ({
+        tenantId,
+        migrationName: this.getMigrationName(migration),
+        migrationHash: this.getChecksum(migration),
+        status: 'completed',
+        metadata: { version: migration.version, provisioned: true }
+      }))
+    });
+  }
+
+  /**
+   * Per-migration state of one tenant (master tenant ID)
+   */
+  static async getStatus(tenantId: string): Promise<TenantMigrationStatus> {
+    const tenant = await masterDb.tenant.findUnique({ where: { tenantId } });
+    if (!tenant) {
+      throw new TenantMigrationError('Tenant not found', 404, 'TENANT_NOT_FOUND');
+    }
+    return this.buildStatus(tenant);
+  }
+
+  /**
+   * Migration state of every tenant
+   */
+  static async getAllStatuses(): Promise<TenantMigrationStatus[]> {
+    const tenants = await masterDb.tenant.findMany({ orderBy: { createdAt: 'asc' } });
+    return Promise.all(tenants.map(tenant => this.buildStatus(tenant)));
+  }
+
+  /**
+   * Apply a tenant's pending migrations in order, stopping at the first
+   * failure. A dry run executes them in transactions that are rolled back,
+   * so SQL errors against the tenant's actual schema still surface.
+   */
+  static async migrateTenant(tenantId: string, options: MigrationRunOptions = {}): Promise<TenantMigrationResult> {
+    const tenant = await masterDb.tenant.findUnique({ where: { tenantId } });
+    if (!tenant) {
+      throw new TenantMigrationError('Tenant not found', 404, 'TENANT_NOT_FOUND');
+    }
+    if (EXCLUDED_TENANT_STATUSES.includes(tenant.status)) {
+      throw new TenantMigrationError(`Tenant is ${tenant.status} and cannot be migrated`, 409, 'TENANT_UNAVAILABLE');
+    }
+    if (this.running.has(tenantId)) {
+      throw new TenantMigrationError('A migration is already running for this tenant', 409, 'MIGRATION_IN_PROGRESS');
+    }
+
+    return this.runForTenant(tenant, options);
+  }
+
+  /**
+   * Roll pending migrations out across tenants one at a time. A failing
+   * tenant is recorded and the rollout moves on to the next one.
+   */
+  static async migrateAll(options: MigrationRolloutOptions = {}): Promise<MigrationRolloutResult> {
+    const startedAt = new Date();
+    const tenants = await masterDb.tenant.findMany({
+      where: {
+        status: { notIn: EXCLUDED_TENANT_STATUSES },
+        ...(options.tenantIds ? { tenantId: { in: options.tenantIds } } : {})
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const results: TenantMigrationResult[] = [];
+    let failed = 0;
+
+    for (const tenant of tenants) {
+      const stopped = options.maxFailures !== undefined && failed >= options.maxFailures;
+      if (stopped || this.running.has(tenant.tenantId)) {
+        results.push({
+          tenantId: tenant.tenantId,
+          subdomain: tenant.subdomain,
+          success: false,
+          dryRun: !!options.dryRun,
+          applied: [],
+          skipped: true,
+          error: stopped ? 'Rollout stopped after too many failures' : 'A migration is already running for this tenant',
+          durationMs: 0
+        });
+        continue;
+      }
+
+      const result = await this.runForTenant(tenant, options);
+      if (!result.success) failed++;
+      results.push(result);
+    }
+
+    return {
+      dryRun: !!options.dryRun,
+      latestVersion: this.getLatestVersion(),
+      startedAt,
+      finishedAt: new Date(),
+      total: results.length,
+      succeeded: results.filter(result => result.success).length,
+      failed,
+      skipped: results.filter(result => result.skipped).length,
+      results
+    };
+  }
+
+  // Private helper methods
+
+  private static async buildStatus(tenant: Tenant): Promise<TenantMigrationStatus> {
+    const records = await masterDb.tenantMigration.findMany({ where: { tenantId: tenant.tenantId } });
+    const byName = new Map(records.map(record => [record.migrationName, record]));
+    const migrations = this.getMigrations();
+
+    const entries: MigrationStatusEntry[] = migrations.map(migration => {
+      const migrationName = this.getMigrationName(migration);
+      const checksum = this.getChecksum(migration);
+      const record = byName.get(migrationName);
+
+      if (!record) {
+        return { version: migration.version, migrationName, checksum, state: 'pending' };
+      }
+      if (record.status !== 'completed') {
+        const metadata = (record.metadata || {}) as Record<string, any>;
+        return { version: migration.version, migrationName, checksum, state: 'failed', error: metadata.error };
+      }
+      return {
+        version: migration.version,
+        migrationName,
+        checksum,
+        state: record.migrationHash === checksum ? 'applied' : 'modified',
+        appliedAt: record.appliedAt
+      };
+    });
+
+    const firstNotApplied = entries.findIndex(entry => entry.state !== 'applied');
+    const currentVersion = firstNotApplied === -1 ? entries.length : firstNotApplied;
+    const known = new Set(entries.map(entry => entry.migrationName));
+
+    return {
+      tenantId: tenant.tenantId,
+      subdomain: tenant.subdomain,
+      tenantName: tenant.tenantName,
+      tenantStatus: tenant.status,
+      currentVersion,
+      latestVersion: migrations.length,
+      upToDate: currentVersion === migrations.length,
+      migrations: entries,
+      unknownMigrations: records.map(record => record.migrationName).filter(name => !known.has(name))
+    };
+  }
+
+  private static async runForTenant(tenant: Tenant, options: MigrationRunOptions): Promise<TenantMigrationResult> {
+    const startTime = Date.now();
+    const dryRun = !!options.dryRun;
+    const applied: string[] = [];
+    let client: TenantClient | null = null;
+
+    this.running.add(tenant.tenantId);
+
+    try {
+      const status = await this.buildStatus(tenant);
+
+      const modified = status.migrations.filter(entry => entry.state === 'modified');
+      if (modified.length > 0) {
+        throw new Error(`Applied migrations have changed since they ran: ${modified.map(entry => entry.migrationName).join(', ')}`);
+      }
+
+      const targetVersion = options.targetVersion ?? status.latestVersion;
+      const pending = this.getMigrations().filter(migration =>
+        migration.version <= targetVersion
+        && status.migrations[migration.version - 1].state !== 'applied'
+      );
+
+      if (pending.length > 0) {
+        client = new TenantClient({ datasources: { db: { url: tenant.databaseUrl } } });
+
+        if (dryRun) {
+          await this.dryRunMigrations(client, pending);
+          applied.push(...pending.map(migration => this.getMigrationName(migration)));
+        } else {
+          for (const migration of pending) {
+            const migrationName = this.getMigrationName(migration);
+
+            try {
+              await this.executeMigration(client, migration, tenant.tenantId);
+            } catch (error) {
+              const message = error instanceof Error ? error.message : String(error);
+              await this.recordResult(tenant.tenantId, migration, 'failed', { error: message });
+              throw new Error(`${migrationName}: ${message}`);
+            }
+
+            applied.push(migrationName);
+          }
+
+          logger.info(`Applied ${applied.length} migration(s) to tenant ${tenant.subdomain}: ${applied.join(', ')}`);
+        }
+      }
+
+      return {
+        tenantId: tenant.tenantId,
+        subdomain: tenant.subdomain,
+        success: true,
+        dryRun,
+        applied,
+        skipped: false,
+        durationMs: Date.now() - startTime
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Tenant migration${dryRun ? ' dry run' : ''} failed for ${tenant.subdomain}: ${message}`);
+
+      return {
+        tenantId: tenant.tenantId,
+        subdomain: tenant.subdomain,
+        success: false,
+        dryRun,
+        applied,
+        skipped: false,
+        error: message,
+        durationMs: Date.now() - startTime
+      };
+    } finally {
+      this.running.delete(tenant.tenantId);
+      if (client) {
+        await client.$disconnect().catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Run one migration in a transaction holding the tenant's migration lock.
+   * With `recordFor` (master tenant ID) the migration is recorded as
+   * completed before the transaction commits, and skipped if another process
+   * applied it while this one waited for the lock.
+   */
+  private static async executeMigration(
+    client: TenantClient,
+    migration: TenantSchemaMigration,
+    recordFor?: string
+  ): Promise<void> {
+    const startTime = Date.now();
+
+    await client.$transaction(async tx => {
+      await tx.$executeRawUnsafe(`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_KEY})`);
+
+      if (recordFor) {
+        const existing = await masterDb.tenantMigration.findUnique({
+          where: { tenantId_migrationName: { tenantId: recordFor, migrationName: this.getMigrationName(migration) } }
+        });
+        if (existing?.status === 'completed') return;
+      }
+
+      for (const statement of migration.statements) {
+        await tx.$executeRawUnsafe(statement);
+      }
+
+      if (recordFor) {
+        await this.recordResult(recordFor, migration, 'completed', { durationMs: Date.now() - startTime });
+      }
+    }, { maxWait: 30_000, timeout: MIGRATION_TIMEOUT_MS });
+  }
+
+  /**
+   * Run migrations in one transaction and roll it back, so each sees the
+   * changes of the ones before it without anything being kept
+   */
+  private static async dryRunMigrations(client: TenantClient, migrations: TenantSchemaMigration[]): Promise<void> {
+    let current: TenantSchemaMigration | undefined;
+
+    try {
+      await client.$transaction(async tx => {
+        for (const migration of migrations) {
+          current = migration;
+          for (const statement of migration.statements) {
+            await tx.$executeRawUnsafe(statement);
+          }
+        }
+        throw new DryRunRollback();
+      }, { maxWait: 30_000, timeout: MIGRATION_TIMEOUT_MS });
+    } catch (error) {
+      if (error instanceof DryRunRollback) return;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(current ? `${this.getMigrationName(current)}: ${message}` : message);
+    }
+  }
+
+  private static async recordResult(
+    tenantId: string,
+    migration: TenantSchemaMigration,
+    status: 'completed' | 'failed',
+    metadata: Record<string, unknown>
+  ): Promise<void> {
+    const migrationName = this.getMigrationName(migration);
+    const data = {
+      migrationHash: this.getChecksum(migration),
+      status,
+      appliedAt: new Date(),
+      metadata: { version: migration.version, ...metadata }
+    };
+
+    await masterDb.tenantMigration.upsert({
+      where: { tenantId_migrationName: { tenantId, migrationName } },
+      create: { tenantId, migrationName, ...data },
+      update: data
+    });
+  }
+}
@@ -0,0 +1,227 @@
+import { TIER_LIMITS, SUBSCRIPTION_TIERS } from '@omsms/shared';
+import { masterDb, getTenantDb } from './database';
+import { notifyUsers } from './notifications';
+import { logger } from './logger';
+import { MediaCleanupJob } from '../services/mediaCleanup';
+
+export type LimitedResource = 'vehicles' | 'users' | 'storage';
+
+export interface TierLimitValues {
+  maxVehicles: number; // -1 = unlimited
+  maxUsers: number; // -1 = unlimited
+  storageGB: number;
+  customWorkflows: boolean;
+  apiAccess: boolean;
+}
+
+export interface ResourceUsage {
+  resource: LimitedResource;
+  current: number; // count, or bytes for storage
+  limit: number; // -1 = unlimited
+  usagePercent: number | null; // null when unlimited
+}
+
+export interface TenantUsage {
+  tier: string;
+  limits: TierLimitValues;
+  resources: ResourceUsage[];
+}
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+// Usage levels at which tenant admins are warned, highest first
+const WARNING_THRESHOLDS = [100, 80];
+
+const RESOURCE_LABELS: Record<LimitedResource, string> = {
+  vehicles: 'vehicles',
+  users: 'active users',
+  storage: 'media storage'
+};
+
+/**
+ * A create would take the tenant past its subscription tier's limit
+ */
+export class TierLimitError extends Error {
+  public statusCode = 402;
+  public code = 'TIER_LIMIT_REACHED';
+
+  constructor(
+    message: string,
+    public resource: LimitedResource,
+    public limit: number,
+    public current: number
+  ) {
+    super(message);
+    this.name = 'TierLimitError';
+  }
+}
+
+function formatAmount(resource: LimitedResource, value: number): string {
+  return resource === 'storage' ? `${(value / BYTES_PER_GB).toFixed(2)} GB` : String(value);
+}
+
+function usagePercent(current: number, limit: number): number | null {
+  if (limit < 0) return null;
+  if (limit === 0) return 100;
+  return Math.round((current / limit) * 1000) / 10;
+}
+
+export class TierLimits {
+  /**
+   * Limits of a subscription tier. Tenants carry their own copy in `features`
+   * (set at registration), which takes precedence over the tier defaults.
+   */
+  static resolveLimits(tier: string, features?: unknown): TierLimitValues {
+    const base = (TIER_LIMITS as Record<string, Partial<TierLimitValues>>)[tier]
+      || TIER_LIMITS[SUBSCRIPTION_TIERS.STARTER];
+    const overrides = (features || {}) as Partial<TierLimitValues>;
+
+    const pick = <K extends keyof TierLimitValues>(key: K): TierLimitValues[K] =>
+      (overrides[key] ?? base[key]) as TierLimitValues[K];
+
+    return {
+      maxVehicles: pick('maxVehicles'),
+      maxUsers: pick('maxUsers'),
+      storageGB: pick('storageGB'),
+      customWorkflows: !!pick('customWorkflows'),
+      apiAccess: !!pick('apiAccess')
+    };
+  }
+
+  /**
+   * Tier and limits of a tenant (identified by subdomain, like `req.tenantId`)
+   */
+  static async getLimits(tenantId: string): Promise<{ tier: string; limits: TierLimitValues }> {
+    const tenant = await masterDb.tenant.findUnique({
+      where: { subdomain: tenantId },
+      select: { subscriptionTier: true, features: true }
+    });
+
+    if (!tenant) {
+      throw new Error(`Tenant not found: ${tenantId}`);
+    }
+
+    return {
+      tier: tenant.subscriptionTier,
+      limits: this.resolveLimits(tenant.subscriptionTier, tenant.features)
+    };
+  }
+
+  /**
+   * Current usage of one limited resource. Soft-deleted media still counts
+   * towards storage until the cleanup job purges it.
+   */
+  static async getCurrentUsage(tenantId: string, resource: LimitedResource): Promise<number> {
+    const tenantDb = await getTenantDb(tenantId);
+
+    switch (resource) {
+      case 'vehicles':
+        return tenantDb.vehicle.count();
+      case 'users':
+        return tenantDb.user.count({ where: { status: 'active' } });
+      case 'storage': {
+        const summary = await MediaCleanupJob.getStorageSummary(tenantDb);
+        return summary.usedBytes + summary.pendingPurgeBytes;
+      }
+    }
+  }
+
+  /**
+   * Usage of every limited resource against the tenant's limits
+   */
+  static async getUsage(tenantId: string): Promise<TenantUsage> {
+    const { tier, limits } = await this.getLimits(tenantId);
+    const resources: LimitedResource[] = ['vehicles', 'users', 'storage'];
+
+    const usage = await Promise.all(resources.map(async resource => {
+      const current = await this.getCurrentUsage(tenantId, resource);
+      const limit = this.getLimit(limits, resource);
+      return { resource, current, limit, usagePercent: usagePercent(current, limit) };
+    }));
+
+    return { tier, limits, resources: usage };
+  }
+
+  /**
+   * Throw a TierLimitError if adding `amount` (count, or bytes for storage)
+   * would exceed the tenant's limit
+   */
+  static async assertCanAdd(tenantId: string, resource: LimitedResource, amount = 1): Promise<void> {
+    const { tier, limits } = await this.getLimits(tenantId);
+    const limit = this.getLimit(limits, resource);
+    if (limit < 0) return;
+
+    const current = await this.getCurrentUsage(tenantId, resource);
+    if (current + amount <= limit) return;
+
+    const message = resource === 'storage'
+      ? `Storage limit reached: your ${tier} plan includes ${limits.storageGB} GB and ${formatAmount('storage', current)} is in use. Upgrade your plan or delete media to upload more.`
+      : `Your ${tier} plan allows up to ${limit} ${RESOURCE_LABELS[resource]}. Upgrade your plan to add more.`;
+
+    throw new TierLimitError(message, resource, limit, current);
+  }
+
+  /**
+   * After usage grew by `amount`, notify tenant admins if it crossed 80% or
+   * 100% of the limit. Never throws; call without awaiting.
+   */
+  static async notifyUsageChange(tenantId: string, resource: LimitedResource, amount = 1): Promise<void> {
+    try {
+      const { tier, limits } = await this.getLimits(tenantId);
+      const limit = this.getLimit(limits, resource);
+      if (limit < 0 || amount <= 0) return;
+
+      const current = await this.getCurrentUsage(tenantId, resource);
+      const before = usagePercent(current - amount, limit) ?? 0;
+      const after = usagePercent(current, limit) ?? 0;
+      const threshold = WARNING_THRESHOLDS.find(level => before < level && after >= level);
+      if (!threshold) return;
+
+      const tenantDb = await getTenantDb(tenantId);
+      const admins = await tenantDb.user.findMany({
+        where: { status: 'active', role: { roleName: 'admin' } },
+        select: { userId: true }
+      });
+
+      const label = RESOURCE_LABELS[resource];
+      await notifyUsers(tenantId, {
+        recipientIds: admins.map(admin => admin.userId),
+        type: threshold >= 100 ? 'error' : 'warning',
+        title: threshold >= 100 ? `Plan limit reached for ${label}` : `${threshold}% of ${label} limit used`,
+        message: `${formatAmount(resource, current)} of ${formatAmount(resource, limit)} ${label} used on the ${tier} plan.`
+          + (threshold >= 100 ? ' New additions are blocked until you upgrade.' : ''),
+        action: { label: 'View usage', url: '/admin/tenant' },
+        entityType: 'tenant',
+        entityId: tenantId
+      });
+    } catch (error) {
+      logger.error(`Failed to check ${resource} usage warnings for tenant ${tenantId}:`, error);
+    }
+  }
+
+  /**
+   * Whether a tier feature (e.g. `customWorkflows`, `apiAccess`) is enabled.
+   * Explicit tenant `features` flags override the tier default.
+   */
+  static hasFeature(tier: string, features: Record<string, any> | undefined, feature: string): boolean {
+    if (features && typeof features[feature] === 'boolean') {
+      return features[feature];
+    }
+    const tierLimits = (TIER_LIMITS as Record<string, Record<string, unknown>>)[tier];
+    return tierLimits?.[feature] === true;
+  }
+
+  /**
+   * Limit of one resource (bytes for storage, -1 = unlimited)
+   */
+  static getLimit(limits: TierLimitValues, resource: LimitedResource): number {
+    switch (resource) {
+      case 'vehicles':
+        return limits.maxVehicles;
+      case 'users':
+        return limits.maxUsers;
+      case 'storage':
+        return limits.storageGB < 0 ? -1 : limits.storageGB * BYTES_PER_GB;
+    }
+  }
+}
@@ -0,0 +1,360 @@
+import crypto from 'crypto';
+import type { PrismaClient, WebhookDelivery } from '../../packages/database/generated/tenant-client';
+import { masterDb, getTenantDb } from './database';
+import { logger } from './logger';
+import { outboundRequest } from './outboundHttp';
+
+export const WEBHOOK_EVENTS = [
+  'vehicle.created',
+  'vehicle.status_changed',
+  'workflow.stage_changed',
+  'payment.recorded',
+  'invoice.issued',
+  'media.uploaded'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+export interface WebhookEnvelope {
+  id: string;
+  type: WebhookEventType;
+  tenant: string;
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+interface WebhookTarget {
+  endpointId: string | null;
+  url: string;
+}
+
+/**
+ * Outbound webhooks. Events are fanned out to the tenant's subscribed endpoints
+ * (plus the legacy `notification.webhookUrl`), signed with
+ * `integration.webhookSecretKey` and retried with backoff. Every attempt is
+ * recorded in the delivery log with the status and a short response excerpt.
+ */
+export class WebhookDispatcher {
+  private static readonly POLL_INTERVAL_MS = 30 * 1000;
+  private static readonly REQUEST_TIMEOUT_MS = 10000;
+  private static readonly CLAIM_MARGIN_MS = 60 * 1000; // Lease beyond the request timeout for the secret lookup and the result write
+  private static readonly RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+  private static readonly MAX_ATTEMPTS = WebhookDispatcher.RETRY_DELAYS_MINUTES.length + 1;
+  private static readonly RESPONSE_EXCERPT_LIMIT = 200; // Only an excerpt is logged, never the full body
+  private static timer: NodeJS.Timeout | null = null;
+  private static isTicking = false;
+
+  /**
+   * Start polling for deliveries due a retry
+   */
+  static initialize(): void {
+    if (process.env.WEBHOOK_DISPATCHER_ENABLED === 'false' || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Webhook dispatcher tick failed:', error));
+    }, this.POLL_INTERVAL_MS);
+    this.timer.unref();
+
+    logger.info('Webhook dispatcher initialized');
+  }
+
+  /**
+   * Stop polling (used on shutdown)
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Retry due deliveries across all active tenants
+   */
+  static async tick(now: Date = new Date()): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+
+    this.isTicking = true;
+    try {
+      const tenants = await masterDb.tenant.findMany({
+        where: { status: 'active' },
+        select: { subdomain: true }
+      });
+
+      for (const tenant of tenants) {
+        try {
+          await this.retryDueDeliveries(tenant.subdomain, now);
+        } catch (error) {
+          // One broken tenant must not block the others
+          logger.error(`Webhook retries failed for tenant ${tenant.subdomain}:`, error);
+        }
+      }
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Queue an event for delivery without blocking the caller
+   */
+  static dispatch(tenantId: string, type: WebhookEventType, data: Record<string, any>): void {
+    this.enqueue(tenantId, type, data)
+      .catch(error => logger.error(`Failed to dispatch webhook ${type} for tenant ${tenantId}:`, error));
+  }
+
+  /**
+   * Record a delivery for every target subscribed to the event and attempt each once
+   */
+  static async enqueue(tenantId: string, type: WebhookEventType, data: Record<string, any>): Promise<WebhookDelivery[]> {
+    const tenantDb = await getTenantDb(tenantId);
+    const targets = await this.getTargets(tenantDb, type);
+
+    return this.deliver(tenantId, targets, type, data);
+  }
+
+  /**
+   * Record a delivery of an event to one URL outside the endpoint registry
+   * (e.g. a workflow webhook action) and attempt it once; retries as usual
+   */
+  static async enqueueTo(tenantId: string, url: string, type: WebhookEventType, data: Record<string, any>): Promise<WebhookDelivery> {
+    const [delivery] = await this.deliver(tenantId, [{ endpointId: null, url }], type, data);
+    return delivery;
+  }
+
+  /**
+   * Send a logged delivery again as a new delivery with the same payload
+   */
+  static async replay(tenantId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    const tenantDb = await getTenantDb(tenantId);
+    const original: WebhookDelivery | null = await tenantDb.webhookDelivery.findUnique({
+      where: { deliveryId }
+    });
+
+    if (!original) {
+      return null;
+    }
+
+    const delivery: WebhookDelivery = await tenantDb.webhookDelivery.create({
+      data: {
+        endpointId: original.endpointId,
+        eventId: original.eventId,
+        eventType: original.eventType,
+        url: original.url,
+        payload: original.payload,
+        replayOf: original.deliveryId,
+        nextAttemptAt: new Date()
+      }
+    });
+
+    return this.attempt(tenantId, delivery);
+  }
+
+  /**
+   * Compute the signature header value for a request body
+   */
+  static sign(secret: string, timestamp: number, body: string): string {
+    return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  /**
+   * Record one delivery per target and attempt each once
+   */
+  private static async deliver(
+    tenantId: string,
+    targets: WebhookTarget[],
+    type: WebhookEventType,
+    data: Record<string, any>
+  ): Promise<WebhookDelivery[]> {
+    if (targets.length === 0) {
+      return [];
+    }
+
+    const tenantDb = await getTenantDb(tenantId);
+    const envelope: WebhookEnvelope = {
+      id: crypto.randomUUID(),
+      type,
+      tenant: tenantId,
+      createdAt: new Date().toISOString(),
+      data
+    };
+    // Round-trip so dates and decimals are stored exactly as they will be sent
+    const payload = JSON.parse(JSON.stringify(envelope));
+
+    const deliveries: WebhookDelivery[] = await Promise.all(targets.map(target =>
+      tenantDb.webhookDelivery.create({
+        data: {
+          endpointId: target.endpointId,
+          eventId: envelope.id,
+          eventType: type,
+          url: target.url,
+          payload,
+          nextAttemptAt: new Date()
+        }
+      })
+    ));
+
+    return Promise.all(deliveries.map(delivery => this.attempt(tenantId, delivery)));
+  }
+
+  private static async retryDueDeliveries(tenantId: string, now: Date): Promise<void> {
+    const tenantDb = await getTenantDb(tenantId);
+
+    const dueDeliveries: WebhookDelivery[] = await tenantDb.webhookDelivery.findMany({
+      where: {
+        status: 'pending',
+        nextAttemptAt: { lte: now }
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: 100
+    });
+
+    for (const delivery of dueDeliveries) {
+      await this.attempt(tenantId, delivery);
+    }
+  }
+
+  /**
+   * Make one delivery attempt and record its outcome, scheduling a retry on failure
+   */
+  private static async attempt(tenantId: string, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const tenantDb = await getTenantDb(tenantId);
+
+    // Claim the attempt with a lease so the poller and the initial dispatch don't
+    // both send it; if this process dies mid-attempt the poller retries once the
+    // lease runs out. The attempt is counted up front so a crash still uses one up.
+    const claimed = await tenantDb.webhookDelivery.updateMany({
+      where: {
+        deliveryId: delivery.deliveryId,
+        status: 'pending',
+        nextAttemptAt: delivery.nextAttemptAt
+      },
+      data: {
+        attempts: { increment: 1 },
+        nextAttemptAt: new Date(Date.now() + this.REQUEST_TIMEOUT_MS + this.CLAIM_MARGIN_MS)
+      }
+    });
+
+    if (claimed.count === 0) {
+      return delivery;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const secret = await this.getSecret(tenantDb);
+      if (!secret) {
+        throw new Error('Webhook secret is not configured (integration.webhookSecretKey)');
+      }
+
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(startedAt / 1000);
+
+      // Private addresses are refused and redirects are not followed
+      const response = await outboundRequest(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'OMSMS-Webhooks/1.0',
+          'X-OMSMS-Event': delivery.eventType,
+          'X-OMSMS-Delivery': delivery.deliveryId,
+          'X-OMSMS-Timestamp': String(timestamp),
+          'X-OMSMS-Signature': this.sign(secret, timestamp, body)
+        },
+        body,
+        timeoutMs: this.REQUEST_TIMEOUT_MS,
+        maxResponseBytes: this.RESPONSE_EXCERPT_LIMIT
+      });
+
+      responseStatus = response.status;
+      responseBody = response.body.toString('utf8').slice(0, this.RESPONSE_EXCERPT_LIMIT) || null;
+
+      if (response.status < 200 || response.status >= 300) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : 'Delivery failed';
+    }
+
+    const now = new Date();
+    const succeeded = error === null;
+    const exhausted = !succeeded && attempts >= this.MAX_ATTEMPTS;
+
+    if (!succeeded) {
+      logger.warn(`Webhook delivery ${delivery.deliveryId} attempt ${attempts} failed: ${error}`, {
+        tenantId,
+        eventType: delivery.eventType,
+        url: delivery.url
+      });
+    }
+
+    return tenantDb.webhookDelivery.update({
+      where: { deliveryId: delivery.deliveryId },
+      data: {
+        status: succeeded ? 'success' : exhausted ? 'failed' : 'pending',
+        attempts,
+        lastAttemptAt: now,
+        nextAttemptAt: succeeded || exhausted
+          ? null
+          : new Date(now.getTime() + this.RETRY_DELAYS_MINUTES[attempts - 1] * 60 * 1000),
+        responseStatus,
+        responseBody,
+        error,
+        durationMs: Date.now() - startedAt,
+        deliveredAt: succeeded ? now : null
+      }
+    });
+  }
+
+  private static async getTargets(tenantDb: PrismaClient, type: WebhookEventType): Promise<WebhookTarget[]> {
+    const [endpoints, legacySetting] = await Promise.all([
+      tenantDb.webhookEndpoint.findMany({
+        where: { enabled: true },
+        select: { endpointId: true, url: true, events: true }
+      }),
+      tenantDb.systemConfig.findUnique({
+        where: {
+          configCategory_configKey: {
+            configCategory: 'notification',
+            configKey: 'webhookUrl'
+          }
+        }
+      })
+    ]);
+
+    const targets: WebhookTarget[] = endpoints
+      .filter(endpoint => Array.isArray(endpoint.events) && (endpoint.events.includes(type) || endpoint.events.includes('*')))
+      .map(endpoint => ({ endpointId: endpoint.endpointId, url: endpoint.url }));
+
+    // The tenant-wide webhook URL receives every event
+    const legacyUrl = legacySetting?.configValue;
+    if (typeof legacyUrl === 'string' && legacyUrl && !targets.some(target => target.url === legacyUrl)) {
+      targets.push({ endpointId: null, url: legacyUrl });
+    }
+
+    return targets;
+  }
+
+  private static async getSecret(tenantDb: PrismaClient): Promise<string | null> {
+    const setting = await tenantDb.systemConfig.findUnique({
+      where: {
+        configCategory_configKey: {
+          configCategory: 'integration',
+          configKey: 'webhookSecretKey'
+        }
+      }
+    });
+
+    return typeof setting?.configValue === 'string' && setting.configValue ? setting.configValue : null;
+  }
+}
+
+export const dispatchWebhook = (tenantId: string, type: WebhookEventType, data: Record<string, any>) =>
+  WebhookDispatcher.dispatch(tenantId, type, data);
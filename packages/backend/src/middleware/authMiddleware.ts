@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService, JWTPayload } from '../lib/auth';
 import { UserRole } from '@omsms/shared';
+import { getPermissionConditions, PermissionConditions } from '../lib/permissions';
+import { PlatformAdmins } from '../lib/platformAdmins';
+import { SessionService } from '../lib/sessions';
 
 // Extend Express Request type to include user info
 declare global {
@@ -8,18 +11,20 @@ declare global {
     interface Request {
       user?: JWTPayload;
       tenantId?: string;
+      permissionConditions?: PermissionConditions | null; // Conditions of the permission that granted access
     }
   }
 }
 
 /**
- * Middleware to authenticate requests using JWT tokens
+ * Middleware to authenticate requests using JWT tokens. The token's session
+ * must still be live, so logout and revocation end access tokens too.
  */
-export const authenticate = (
+export const authenticate = async (
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
     
@@ -59,6 +64,15 @@ export const authenticate = (
       return;
     }
 
+    if (!payload.sessionId || !(await SessionService.isSessionActive(payload.tenantId, payload.sessionId))) {
+      res.status(401).json({
+        success: false,
+        error: 'Session has been revoked',
+        code: 'AUTH_SESSION_REVOKED'
+      });
+      return;
+    }
+
     req.user = payload;
     req.tenantId = payload.tenantId;
 
@@ -142,7 +156,54 @@ export const authorizeRoles = (allowedRoleNames: string[]) => {
 };
 
 /**
- * Middleware to check specific permissions
+ * Whether the user may manage the whole platform: only users holding a
+ * platform admin grant in the master database, never a tenant role or email claim
+ */
+export const isSuperAdmin = async (user?: JWTPayload): Promise<boolean> => {
+  return PlatformAdmins.isPlatformAdmin(user);
+};
+
+/**
+ * Middleware to restrict platform-wide administration to super admins
+ */
+export const requireSuperAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!req.user) {
+    if (res.headersSent) return; // Prevent double sending
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+      code: 'AUTH_REQUIRED'
+    });
+    return;
+  }
+
+  try {
+    if (!(await isSuperAdmin(req.user))) {
+      if (res.headersSent) return; // Prevent double sending
+      res.status(403).json({
+        success: false,
+        error: 'Super admin access required',
+        code: 'SUPER_ADMIN_REQUIRED'
+      });
+      return;
+    }
+  } catch (error) {
+    console.error('Super admin check error:', error);
+    if (res.headersSent) return; // Prevent double sending
+    res.status(500).json({
+      success: false,
+      error: 'Authentication service error',
+      code: 'AUTH_SERVICE_ERROR'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Middleware to check specific permissions. Conditions on the granted
+ * permission are exposed as `req.permissionConditions`.
  */
 export const requirePermission = (permission: string) => {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -171,6 +232,9 @@ export const requirePermission = (permission: string) => {
       return;
     }
 
+    // Row-level conditions are applied by the handler's queries
+    req.permissionConditions = getPermissionConditions(req.user, permission);
+
     next();
   };
 };
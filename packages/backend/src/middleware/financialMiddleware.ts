@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
+import { getPermissionConditions } from '../lib/permissions';
 
 /**
- * Middleware to check financial permissions
+ * Middleware to check financial permissions. Conditions on the granted
+ * permission are exposed as `req.permissionConditions`.
  */
 export const requireFinancialPermission = (resource: string, action: string) => {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -25,6 +27,7 @@ export const requireFinancialPermission = (resource: string, action: string) =>
 
     // Check specific permission
     if (permissions[permissionKey]) {
+      req.permissionConditions = getPermissionConditions(req.user, permissionKey);
       next();
       return;
     }
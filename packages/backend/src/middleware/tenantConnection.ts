@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
-import { getTenantDb, masterDb } from '../lib/database';
+import { getTenantDb, masterDb, resolveTenantSubdomain } from '../lib/database';
 import { logger } from '../lib/logger';
+import { TierLimits } from '../lib/tierLimits';
 
 declare global {
   namespace Express {
@@ -20,6 +21,20 @@ declare global {
   }
 }
 
+const findTenantBySubdomain = (subdomain: string) =>
+  masterDb.tenant.findUnique({
+    where: { subdomain },
+    select: {
+      tenantId: true,
+      tenantName: true,
+      subdomain: true,
+      status: true,
+      subscriptionTier: true,
+      features: true,
+      databaseUrl: true
+    }
+  });
+
 /**
  * Middleware to establish tenant-specific database connection
  * This should be applied to all routes that require tenant context
@@ -54,18 +69,17 @@ export const tenantConnectionMiddleware = async (
     }
 
     // Get tenant information from master database
-    const tenant = await masterDb.tenant.findUnique({
-      where: { subdomain: tenantIdentifier },
-      select: {
-        tenantId: true,
-        tenantName: true,
-        subdomain: true,
-        status: true,
-        subscriptionTier: true,
-        features: true,
-        databaseUrl: true
+    let tenant = await findTenantBySubdomain(tenantIdentifier);
+
+    if (!tenant) {
+      // Former subdomain of a renamed tenant: serve it and tell the client the new one
+      const currentSubdomain = await resolveTenantSubdomain(tenantIdentifier);
+      if (currentSubdomain) {
+        tenant = await findTenantBySubdomain(currentSubdomain);
+        tenantIdentifier = currentSubdomain;
+        res.setHeader('X-Tenant-Redirect', currentSubdomain);
       }
-    });
+    }
 
     if (!tenant) {
       res.status(404).json({
@@ -132,32 +146,72 @@ export const tenantConnectionMiddleware = async (
 };
 
 /**
- * Optional middleware to check tenant features/limits
+ * Optional middleware to check tenant features. A feature is available when the
+ * tenant's `features` enable it or, absent an explicit flag, its tier includes it.
+ * Must run after `authenticate`: features come from the tenant in the token,
+ * never from the X-Tenant-ID header or host, and a request whose header names
+ * a different tenant than its token is rejected.
  */
 export const checkTenantFeatures = (requiredFeatures: string[]) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    if (!req.tenantInfo) {
-      res.status(500).json({
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
         success: false,
-        error: 'Tenant information not available',
-        code: 'MISSING_TENANT_INFO'
+        error: 'Authentication required',
+        code: 'AUTH_REQUIRED'
       });
       return;
     }
 
-    const { features } = req.tenantInfo;
-    const missingFeatures = requiredFeatures.filter(feature => !features[feature]);
+    try {
+      let tenant = await findTenantBySubdomain(req.user.tenantId);
+      if (!tenant) {
+        // Token issued under the former subdomain of a renamed tenant
+        const currentSubdomain = await resolveTenantSubdomain(req.user.tenantId);
+        tenant = currentSubdomain ? await findTenantBySubdomain(currentSubdomain) : null;
+      }
 
-    if (missingFeatures.length > 0) {
-      res.status(403).json({
+      if (!tenant || tenant.status !== 'active') {
+        res.status(403).json({
+          success: false,
+          error: 'Tenant is not active',
+          code: 'TENANT_INACTIVE'
+        });
+        return;
+      }
+
+      if (req.tenantInfo && req.tenantInfo.tenantId !== tenant.tenantId) {
+        res.status(403).json({
+          success: false,
+          error: 'Tenant header does not match the authenticated tenant',
+          code: 'TENANT_MISMATCH'
+        });
+        return;
+      }
+
+      const features = tenant.features as Record<string, any>;
+      const missingFeatures = requiredFeatures.filter(
+        feature => !TierLimits.hasFeature(tenant.subscriptionTier, features, feature)
+      );
+
+      if (missingFeatures.length > 0) {
+        res.status(403).json({
+          success: false,
+          error: `Feature not available on the ${tenant.subscriptionTier} plan: ${missingFeatures.join(', ')}`,
+          code: 'FEATURE_NOT_AVAILABLE',
+          missingFeatures
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      logger.error('Tenant feature check error:', error);
+      res.status(500).json({
         success: false,
-        error: `Feature not available: ${missingFeatures.join(', ')}`,
-        code: 'FEATURE_NOT_AVAILABLE',
-        missingFeatures
+        error: 'Internal server error',
+        code: 'MIDDLEWARE_ERROR'
       });
-      return;
     }
-
-    next();
   };
 };
@@ -0,0 +1,342 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+import { addForeignKey } from './helpers';
+
+/**
+ * Core tenant schema: users and roles, vehicles, workflows, products, media, payments, notifications and configuration
+ */
+export const migration: TenantSchemaMigration = {
+  version: 1,
+  name: 'baseline',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS "roles" (
+      "role_id" TEXT NOT NULL,
+      "role_name" TEXT NOT NULL,
+      "role_description" TEXT,
+      "role_color" TEXT,
+      "role_level" INTEGER NOT NULL DEFAULT 0,
+      "is_system_role" BOOLEAN NOT NULL DEFAULT false,
+      "status" TEXT NOT NULL DEFAULT 'active',
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "roles_pkey" PRIMARY KEY ("role_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "role_permissions" (
+      "role_permission_id" TEXT NOT NULL,
+      "role_id" TEXT NOT NULL,
+      "resource" TEXT NOT NULL,
+      "action" TEXT NOT NULL,
+      "conditions" JSONB NOT NULL DEFAULT '{}',
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "role_permissions_pkey" PRIMARY KEY ("role_permission_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "locations" (
+      "location_id" TEXT NOT NULL,
+      "location_name" TEXT NOT NULL,
+      "address" TEXT,
+      "city" TEXT,
+      "state" TEXT,
+      "country" TEXT,
+      "postal_code" TEXT,
+      "contact_person" TEXT,
+      "contact_mobile" TEXT,
+      "contact_email" TEXT,
+      "status" TEXT NOT NULL DEFAULT 'active',
+      "settings" JSONB NOT NULL DEFAULT '{}',
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "locations_pkey" PRIMARY KEY ("location_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "departments" (
+      "department_id" TEXT NOT NULL,
+      "department_name" TEXT NOT NULL,
+      "color_code" TEXT,
+      "description" TEXT,
+      "head_user_id" TEXT,
+      "status" TEXT NOT NULL DEFAULT 'active',
+      "config" JSONB NOT NULL DEFAULT '{}',
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "departments_pkey" PRIMARY KEY ("department_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "users" (
+      "user_id" TEXT NOT NULL,
+      "email" TEXT NOT NULL,
+      "password_hash" TEXT NOT NULL,
+      "first_name" TEXT,
+      "last_name" TEXT,
+      "mobile_number" TEXT,
+      "address" TEXT,
+      "role_id" TEXT NOT NULL,
+      "department_id" TEXT,
+      "location_id" TEXT,
+      "permissions" JSONB NOT NULL DEFAULT '{}',
+      "preferences" JSONB NOT NULL DEFAULT '{}',
+      "status" TEXT NOT NULL DEFAULT 'active',
+      "last_login_at" TIMESTAMP(3),
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "users_pkey" PRIMARY KEY ("user_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "sales_persons" (
+      "salesperson_id" TEXT NOT NULL,
+      "user_id" TEXT NOT NULL,
+      "employee_code" TEXT,
+      "territory" TEXT,
+      "commission_rate" DECIMAL(5,2),
+      "target_amount" DECIMAL(12,2),
+      "manager_id" TEXT,
+      "status" TEXT NOT NULL DEFAULT 'active',
+      "performance_metrics" JSONB NOT NULL DEFAULT '{}',
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "sales_persons_pkey" PRIMARY KEY ("salesperson_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "vehicles" (
+      "vehicle_id" TEXT NOT NULL,
+      "car_number" TEXT NOT NULL,
+      "owner_name" TEXT NOT NULL,
+      "owner_mobile" TEXT,
+      "owner_email" TEXT,
+      "owner_address" TEXT,
+      "model_name" TEXT,
+      "brand_name" TEXT,
+      "vehicle_type" TEXT,
+      "location_id" TEXT,
+      "salesperson_id" TEXT,
+      "coordinator_id" TEXT,
+      "supervisor_id" TEXT,
+      "inward_date" DATE,
+      "expected_delivery_date" DATE,
+      "actual_delivery_date" DATE,
+      "status" TEXT NOT NULL DEFAULT 'pending',
+      "vehicle_details" JSONB NOT NULL DEFAULT '{}',
+      "custom_fields" JSONB NOT NULL DEFAULT '{}',
+      "created_by" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "vehicles_pkey" PRIMARY KEY ("vehicle_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "workflows" (
+      "workflow_id" TEXT NOT NULL,
+      "workflow_name" TEXT NOT NULL,
+      "workflow_type" TEXT NOT NULL,
+      "stages" JSONB NOT NULL DEFAULT '[]',
+      "rules" JSONB NOT NULL DEFAULT '{}',
+      "notifications" JSONB NOT NULL DEFAULT '{}',
+      "status" TEXT NOT NULL DEFAULT 'active',
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "workflows_pkey" PRIMARY KEY ("workflow_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "workflow_instances" (
+      "instance_id" TEXT NOT NULL,
+      "workflow_id" TEXT,
+      "entity_type" TEXT NOT NULL,
+      "entity_id" TEXT NOT NULL,
+      "current_stage" TEXT NOT NULL,
+      "stage_data" JSONB NOT NULL DEFAULT '{}',
+      "stage_history" JSONB NOT NULL DEFAULT '[]',
+      "status" TEXT NOT NULL DEFAULT 'in_progress',
+      "assigned_to" TEXT,
+      "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "completed_at" TIMESTAMP(3),
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "workflow_instances_pkey" PRIMARY KEY ("instance_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "product_categories" (
+      "category_id" TEXT NOT NULL,
+      "category_name" TEXT NOT NULL,
+      "parent_category_id" TEXT,
+      "description" TEXT,
+      "status" TEXT NOT NULL DEFAULT 'active',
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "product_categories_pkey" PRIMARY KEY ("category_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "products" (
+      "product_id" TEXT NOT NULL,
+      "product_name" TEXT NOT NULL,
+      "brand_name" TEXT,
+      "category_id" TEXT,
+      "price" DECIMAL(10,2),
+      "installation_time_hours" INTEGER,
+      "specifications" JSONB NOT NULL DEFAULT '{}',
+      "status" TEXT NOT NULL DEFAULT 'active',
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "products_pkey" PRIMARY KEY ("product_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "installations" (
+      "installation_id" TEXT NOT NULL,
+      "vehicle_id" TEXT,
+      "product_id" TEXT,
+      "quantity" INTEGER NOT NULL DEFAULT 1,
+      "amount" DECIMAL(10,2),
+      "installation_date" DATE,
+      "installer_id" TEXT,
+      "quality_checked_by" TEXT,
+      "quality_check_date" DATE,
+      "status" TEXT NOT NULL DEFAULT 'pending',
+      "installation_notes" TEXT,
+      "installation_details" JSONB NOT NULL DEFAULT '{}',
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "installations_pkey" PRIMARY KEY ("installation_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "media_files" (
+      "file_id" TEXT NOT NULL,
+      "entity_type" TEXT NOT NULL,
+      "entity_id" TEXT NOT NULL,
+      "file_category" TEXT NOT NULL,
+      "file_subcategory" TEXT,
+      "original_filename" TEXT NOT NULL,
+      "stored_filename" TEXT NOT NULL,
+      "file_path" TEXT NOT NULL,
+      "file_size" BIGINT NOT NULL,
+      "mime_type" TEXT NOT NULL,
+      "file_extension" TEXT NOT NULL,
+      "width" INTEGER,
+      "height" INTEGER,
+      "duration" INTEGER,
+      "storage_provider" TEXT NOT NULL DEFAULT 'local',
+      "cdn_url" TEXT,
+      "is_public" BOOLEAN NOT NULL DEFAULT false,
+      "workflow_stage" TEXT,
+      "metadata" JSONB NOT NULL DEFAULT '{}',
+      "tags" JSONB NOT NULL DEFAULT '[]',
+      "uploaded_by" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "deleted_at" TIMESTAMP(3),
+      CONSTRAINT "media_files_pkey" PRIMARY KEY ("file_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "audit_logs" (
+      "log_id" TEXT NOT NULL,
+      "user_id" TEXT,
+      "action" TEXT NOT NULL,
+      "entity_type" TEXT,
+      "entity_id" TEXT,
+      "old_values" JSONB,
+      "new_values" JSONB,
+      "details" JSONB,
+      "ip_address" TEXT,
+      "user_agent" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("log_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "notifications" (
+      "id" SERIAL NOT NULL,
+      "notification_id" TEXT NOT NULL,
+      "user_id" TEXT NOT NULL,
+      "type" TEXT NOT NULL,
+      "title" TEXT NOT NULL,
+      "message" TEXT NOT NULL,
+      "action_label" TEXT,
+      "action_url" TEXT,
+      "entity_type" TEXT,
+      "entity_id" TEXT,
+      "read_at" TIMESTAMP(3),
+      "created_by" TEXT,
+      "expires_at" TIMESTAMP(3),
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "payments" (
+      "payment_id" TEXT NOT NULL,
+      "vehicle_id" TEXT NOT NULL,
+      "amount" DECIMAL(10,2) NOT NULL,
+      "paid_amount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+      "outstanding_amount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+      "payment_method" TEXT,
+      "transaction_id" TEXT,
+      "reference_number" TEXT,
+      "bank_details" JSONB DEFAULT '{}',
+      "payment_date" TIMESTAMP(3),
+      "due_date" TIMESTAMP(3),
+      "status" TEXT NOT NULL DEFAULT 'pending',
+      "notes" TEXT,
+      "invoice_number" TEXT,
+      "workflow_stage" TEXT,
+      "created_by" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "payments_pkey" PRIMARY KEY ("payment_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "system_config" (
+      "config_id" TEXT NOT NULL,
+      "config_category" TEXT NOT NULL,
+      "config_key" TEXT NOT NULL,
+      "config_value" JSONB NOT NULL,
+      "description" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "system_config_pkey" PRIMARY KEY ("config_id")
+    )`,
+
+    `CREATE UNIQUE INDEX IF NOT EXISTS "roles_role_name_key" ON "roles"("role_name")`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "role_permissions_role_id_resource_action_key" ON "role_permissions"("role_id", "resource", "action")`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "users_email_key" ON "users"("email")`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "sales_persons_user_id_key" ON "sales_persons"("user_id")`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "vehicles_car_number_key" ON "vehicles"("car_number")`,
+    `CREATE INDEX IF NOT EXISTS "idx_vehicles_status" ON "vehicles"("status")`,
+    `CREATE INDEX IF NOT EXISTS "idx_vehicles_location" ON "vehicles"("location_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_vehicles_salesperson" ON "vehicles"("salesperson_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_workflow_instances_entity" ON "workflow_instances"("entity_type", "entity_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_workflow_instances_status" ON "workflow_instances"("status")`,
+    `CREATE INDEX IF NOT EXISTS "idx_media_entity" ON "media_files"("entity_type", "entity_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_media_category" ON "media_files"("file_category", "file_subcategory")`,
+    `CREATE INDEX IF NOT EXISTS "idx_audit_logs_user" ON "audit_logs"("user_id", "created_at")`,
+    `CREATE INDEX IF NOT EXISTS "idx_audit_logs_entity" ON "audit_logs"("entity_type", "entity_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_notifications_user_read" ON "notifications"("user_id", "read_at")`,
+    `CREATE INDEX IF NOT EXISTS "idx_notifications_notification_id" ON "notifications"("notification_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_notifications_entity" ON "notifications"("entity_type", "entity_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_payments_vehicle" ON "payments"("vehicle_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_payments_status" ON "payments"("status")`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "system_config_config_category_config_key_key" ON "system_config"("config_category", "config_key")`,
+
+    addForeignKey(`ALTER TABLE "role_permissions" ADD CONSTRAINT "role_permissions_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "roles"("role_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "departments" ADD CONSTRAINT "departments_head_user_id_fkey" FOREIGN KEY ("head_user_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "users" ADD CONSTRAINT "users_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "roles"("role_id") ON DELETE RESTRICT ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "users" ADD CONSTRAINT "users_department_id_fkey" FOREIGN KEY ("department_id") REFERENCES "departments"("department_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "users" ADD CONSTRAINT "users_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "locations"("location_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "sales_persons" ADD CONSTRAINT "sales_persons_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "sales_persons" ADD CONSTRAINT "sales_persons_manager_id_fkey" FOREIGN KEY ("manager_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "vehicles" ADD CONSTRAINT "vehicles_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "locations"("location_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "vehicles" ADD CONSTRAINT "vehicles_salesperson_id_fkey" FOREIGN KEY ("salesperson_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "vehicles" ADD CONSTRAINT "vehicles_coordinator_id_fkey" FOREIGN KEY ("coordinator_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "vehicles" ADD CONSTRAINT "vehicles_supervisor_id_fkey" FOREIGN KEY ("supervisor_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "vehicles" ADD CONSTRAINT "vehicles_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "workflow_instances" ADD CONSTRAINT "workflow_instances_workflow_id_fkey" FOREIGN KEY ("workflow_id") REFERENCES "workflows"("workflow_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "workflow_instances" ADD CONSTRAINT "workflow_instances_assigned_to_fkey" FOREIGN KEY ("assigned_to") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "workflow_instances" ADD CONSTRAINT "workflow_instances_entity_id_fkey" FOREIGN KEY ("entity_id") REFERENCES "vehicles"("vehicle_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "product_categories" ADD CONSTRAINT "product_categories_parent_category_id_fkey" FOREIGN KEY ("parent_category_id") REFERENCES "product_categories"("category_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "products" ADD CONSTRAINT "products_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "product_categories"("category_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "installations" ADD CONSTRAINT "installations_vehicle_id_fkey" FOREIGN KEY ("vehicle_id") REFERENCES "vehicles"("vehicle_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "installations" ADD CONSTRAINT "installations_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("product_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "installations" ADD CONSTRAINT "installations_installer_id_fkey" FOREIGN KEY ("installer_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "installations" ADD CONSTRAINT "installations_quality_checked_by_fkey" FOREIGN KEY ("quality_checked_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "media_files" ADD CONSTRAINT "media_files_uploaded_by_fkey" FOREIGN KEY ("uploaded_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "media_files" ADD CONSTRAINT "media_files_entity_id_fkey" FOREIGN KEY ("entity_id") REFERENCES "vehicles"("vehicle_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "notifications" ADD CONSTRAINT "notifications_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "payments" ADD CONSTRAINT "payments_vehicle_id_fkey" FOREIGN KEY ("vehicle_id") REFERENCES "vehicles"("vehicle_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "payments" ADD CONSTRAINT "payments_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`)
+  ]
+};
@@ -0,0 +1,53 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+import { addForeignKey } from './helpers';
+
+/**
+ * Scheduled report definitions and their run history
+ */
+export const migration: TenantSchemaMigration = {
+  version: 2,
+  name: 'scheduled_reports',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS "scheduled_reports" (
+      "scheduled_report_id" TEXT NOT NULL,
+      "name" TEXT NOT NULL,
+      "description" TEXT,
+      "report_config" JSONB NOT NULL DEFAULT '{}',
+      "frequency" TEXT NOT NULL,
+      "day_of_week" INTEGER,
+      "day_of_month" INTEGER,
+      "time_of_day" TEXT NOT NULL,
+      "recipients" JSONB NOT NULL DEFAULT '[]',
+      "enabled" BOOLEAN NOT NULL DEFAULT true,
+      "last_run_at" TIMESTAMP(3),
+      "last_run_status" TEXT,
+      "next_run_at" TIMESTAMP(3),
+      "created_by" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "scheduled_reports_pkey" PRIMARY KEY ("scheduled_report_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "scheduled_report_runs" (
+      "run_id" TEXT NOT NULL,
+      "scheduled_report_id" TEXT NOT NULL,
+      "trigger" TEXT NOT NULL DEFAULT 'schedule',
+      "status" TEXT NOT NULL DEFAULT 'running',
+      "period_start" TIMESTAMP(3) NOT NULL,
+      "period_end" TIMESTAMP(3) NOT NULL,
+      "file_name" TEXT,
+      "recipients" JSONB NOT NULL DEFAULT '[]',
+      "message_id" TEXT,
+      "error" TEXT,
+      "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "completed_at" TIMESTAMP(3),
+      CONSTRAINT "scheduled_report_runs_pkey" PRIMARY KEY ("run_id")
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS "idx_scheduled_reports_next_run" ON "scheduled_reports"("enabled", "next_run_at")`,
+    `CREATE INDEX IF NOT EXISTS "idx_scheduled_report_runs_report" ON "scheduled_report_runs"("scheduled_report_id", "started_at")`,
+
+    addForeignKey(`ALTER TABLE "scheduled_reports" ADD CONSTRAINT "scheduled_reports_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "scheduled_report_runs" ADD CONSTRAINT "scheduled_report_runs_scheduled_report_id_fkey" FOREIGN KEY ("scheduled_report_id") REFERENCES "scheduled_reports"("scheduled_report_id") ON DELETE CASCADE ON UPDATE CASCADE`)
+  ]
+};
@@ -0,0 +1,30 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+import { addForeignKey } from './helpers';
+
+/**
+ * Single-use password reset tokens and users.password_changed_at
+ */
+export const migration: TenantSchemaMigration = {
+  version: 3,
+  name: 'password_resets',
+  statements: [
+    `ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "password_changed_at" TIMESTAMP(3)`,
+
+    `CREATE TABLE IF NOT EXISTS "password_reset_tokens" (
+      "token_id" TEXT NOT NULL,
+      "user_id" TEXT NOT NULL,
+      "token_hash" TEXT NOT NULL,
+      "expires_at" TIMESTAMP(3) NOT NULL,
+      "used_at" TIMESTAMP(3),
+      "requested_ip" TEXT,
+      "user_agent" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "password_reset_tokens_pkey" PRIMARY KEY ("token_id")
+    )`,
+
+    `CREATE UNIQUE INDEX IF NOT EXISTS "password_reset_tokens_token_hash_key" ON "password_reset_tokens"("token_hash")`,
+    `CREATE INDEX IF NOT EXISTS "idx_password_reset_tokens_user" ON "password_reset_tokens"("user_id", "used_at")`,
+
+    addForeignKey(`ALTER TABLE "password_reset_tokens" ADD CONSTRAINT "password_reset_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE CASCADE ON UPDATE CASCADE`)
+  ]
+};
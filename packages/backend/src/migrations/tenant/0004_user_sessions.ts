@@ -0,0 +1,41 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+import { addForeignKey } from './helpers';
+
+/**
+ * Refresh-token sessions with rotation
+ */
+export const migration: TenantSchemaMigration = {
+  version: 4,
+  name: 'user_sessions',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS "user_sessions" (
+      "session_id" TEXT NOT NULL,
+      "user_id" TEXT NOT NULL,
+      "user_agent" TEXT,
+      "ip_address" TEXT,
+      "last_used_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "expires_at" TIMESTAMP(3) NOT NULL,
+      "revoked_at" TIMESTAMP(3),
+      "revoked_reason" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "user_sessions_pkey" PRIMARY KEY ("session_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "refresh_tokens" (
+      "token_id" TEXT NOT NULL,
+      "session_id" TEXT NOT NULL,
+      "token_hash" TEXT NOT NULL,
+      "expires_at" TIMESTAMP(3) NOT NULL,
+      "rotated_at" TIMESTAMP(3),
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "refresh_tokens_pkey" PRIMARY KEY ("token_id")
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS "idx_user_sessions_user" ON "user_sessions"("user_id", "revoked_at")`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "refresh_tokens_token_hash_key" ON "refresh_tokens"("token_hash")`,
+    `CREATE INDEX IF NOT EXISTS "idx_refresh_tokens_session" ON "refresh_tokens"("session_id")`,
+
+    addForeignKey(`ALTER TABLE "user_sessions" ADD CONSTRAINT "user_sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "refresh_tokens" ADD CONSTRAINT "refresh_tokens_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "user_sessions"("session_id") ON DELETE CASCADE ON UPDATE CASCADE`)
+  ]
+};
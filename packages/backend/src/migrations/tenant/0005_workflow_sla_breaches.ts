@@ -0,0 +1,35 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+import { addForeignKey } from './helpers';
+
+/**
+ * Workflow stage SLA breaches
+ */
+export const migration: TenantSchemaMigration = {
+  version: 5,
+  name: 'workflow_sla_breaches',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS "workflow_sla_breaches" (
+      "breach_id" TEXT NOT NULL,
+      "instance_id" TEXT NOT NULL,
+      "workflow_id" TEXT,
+      "stage" TEXT NOT NULL,
+      "stage_entered_at" TIMESTAMP(3) NOT NULL,
+      "due_at" TIMESTAMP(3) NOT NULL,
+      "assigned_to" TEXT,
+      "level" TEXT NOT NULL DEFAULT 'breached',
+      "notified_user_ids" JSONB NOT NULL DEFAULT '[]',
+      "breached_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "escalated_at" TIMESTAMP(3),
+      "resolved_at" TIMESTAMP(3),
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "workflow_sla_breaches_pkey" PRIMARY KEY ("breach_id")
+    )`,
+
+    `CREATE UNIQUE INDEX IF NOT EXISTS "workflow_sla_breaches_instance_id_stage_stage_entered_at_key" ON "workflow_sla_breaches"("instance_id", "stage", "stage_entered_at")`,
+    `CREATE INDEX IF NOT EXISTS "idx_workflow_sla_breaches_resolved" ON "workflow_sla_breaches"("resolved_at")`,
+    `CREATE INDEX IF NOT EXISTS "idx_workflow_sla_breaches_breached" ON "workflow_sla_breaches"("breached_at")`,
+
+    addForeignKey(`ALTER TABLE "workflow_sla_breaches" ADD CONSTRAINT "workflow_sla_breaches_instance_id_fkey" FOREIGN KEY ("instance_id") REFERENCES "workflow_instances"("instance_id") ON DELETE CASCADE ON UPDATE CASCADE`)
+  ]
+};
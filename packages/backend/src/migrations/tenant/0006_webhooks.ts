@@ -0,0 +1,51 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+import { addForeignKey } from './helpers';
+
+/**
+ * Outbound webhook endpoints and deliveries
+ */
+export const migration: TenantSchemaMigration = {
+  version: 6,
+  name: 'webhooks',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS "webhook_endpoints" (
+      "endpoint_id" TEXT NOT NULL,
+      "name" TEXT NOT NULL,
+      "url" TEXT NOT NULL,
+      "events" JSONB NOT NULL DEFAULT '[]',
+      "enabled" BOOLEAN NOT NULL DEFAULT true,
+      "created_by" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "webhook_endpoints_pkey" PRIMARY KEY ("endpoint_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+      "delivery_id" TEXT NOT NULL,
+      "endpoint_id" TEXT,
+      "event_id" TEXT NOT NULL,
+      "event_type" TEXT NOT NULL,
+      "url" TEXT NOT NULL,
+      "payload" JSONB NOT NULL,
+      "status" TEXT NOT NULL DEFAULT 'pending',
+      "attempts" INTEGER NOT NULL DEFAULT 0,
+      "next_attempt_at" TIMESTAMP(3),
+      "last_attempt_at" TIMESTAMP(3),
+      "response_status" INTEGER,
+      "response_body" TEXT,
+      "error" TEXT,
+      "duration_ms" INTEGER,
+      "replay_of" TEXT,
+      "delivered_at" TIMESTAMP(3),
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "webhook_deliveries_pkey" PRIMARY KEY ("delivery_id")
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_pending" ON "webhook_deliveries"("status", "next_attempt_at")`,
+    `CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_endpoint" ON "webhook_deliveries"("endpoint_id", "created_at")`,
+
+    addForeignKey(`ALTER TABLE "webhook_endpoints" ADD CONSTRAINT "webhook_endpoints_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_endpoint_id_fkey" FOREIGN KEY ("endpoint_id") REFERENCES "webhook_endpoints"("endpoint_id") ON DELETE CASCADE ON UPDATE CASCADE`)
+  ]
+};
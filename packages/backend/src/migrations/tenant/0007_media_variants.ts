@@ -0,0 +1,12 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+
+/**
+ * Generated image variants on media_files
+ */
+export const migration: TenantSchemaMigration = {
+  version: 7,
+  name: 'media_variants',
+  statements: [
+    `ALTER TABLE "media_files" ADD COLUMN IF NOT EXISTS "variants" JSONB NOT NULL DEFAULT '{}'`
+  ]
+};
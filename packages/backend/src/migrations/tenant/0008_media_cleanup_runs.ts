@@ -0,0 +1,30 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+
+/**
+ * Media storage cleanup runs and the soft-delete index
+ */
+export const migration: TenantSchemaMigration = {
+  version: 8,
+  name: 'media_cleanup_runs',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS "media_cleanup_runs" (
+      "run_id" TEXT NOT NULL,
+      "storage_provider" TEXT NOT NULL,
+      "retention_days" INTEGER NOT NULL,
+      "purged_files" INTEGER NOT NULL DEFAULT 0,
+      "purged_bytes" BIGINT NOT NULL DEFAULT 0,
+      "orphaned_objects" INTEGER NOT NULL DEFAULT 0,
+      "orphaned_bytes" BIGINT NOT NULL DEFAULT 0,
+      "orphans_deleted" BOOLEAN NOT NULL DEFAULT false,
+      "missing_objects" INTEGER NOT NULL DEFAULT 0,
+      "missing_file_ids" JSONB NOT NULL DEFAULT '[]',
+      "errors" JSONB NOT NULL DEFAULT '[]',
+      "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "finished_at" TIMESTAMP(3),
+      CONSTRAINT "media_cleanup_runs_pkey" PRIMARY KEY ("run_id")
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS "idx_media_deleted" ON "media_files"("deleted_at")`,
+    `CREATE INDEX IF NOT EXISTS "idx_media_cleanup_runs_started" ON "media_cleanup_runs"("started_at")`
+  ]
+};
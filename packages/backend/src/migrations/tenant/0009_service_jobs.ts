@@ -0,0 +1,83 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+import { addForeignKey } from './helpers';
+
+/**
+ * Service jobs with status history, comments and attachments
+ */
+export const migration: TenantSchemaMigration = {
+  version: 9,
+  name: 'service_jobs',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS "service_jobs" (
+      "job_id" TEXT NOT NULL,
+      "vehicle_id" TEXT NOT NULL,
+      "customer_name" TEXT NOT NULL,
+      "customer_phone" TEXT NOT NULL,
+      "customer_email" TEXT,
+      "vehicle_model" TEXT,
+      "vehicle_registration" TEXT NOT NULL,
+      "service_type" TEXT,
+      "priority" TEXT NOT NULL DEFAULT 'medium',
+      "status" TEXT NOT NULL DEFAULT 'new_complaint',
+      "technician_id" TEXT,
+      "estimated_cost" DECIMAL(10,2),
+      "actual_cost" DECIMAL(10,2),
+      "scheduled_at" TIMESTAMP(3),
+      "completed_at" TIMESTAMP(3),
+      "notes" TEXT,
+      "created_by" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "service_jobs_pkey" PRIMARY KEY ("job_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "service_job_status_history" (
+      "change_id" TEXT NOT NULL,
+      "job_id" TEXT NOT NULL,
+      "from_status" TEXT,
+      "to_status" TEXT NOT NULL,
+      "notes" TEXT,
+      "changed_by" TEXT,
+      "changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "service_job_status_history_pkey" PRIMARY KEY ("change_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "service_job_comments" (
+      "comment_id" TEXT NOT NULL,
+      "job_id" TEXT NOT NULL,
+      "author_id" TEXT,
+      "message" TEXT NOT NULL,
+      "type" TEXT NOT NULL DEFAULT 'comment',
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "service_job_comments_pkey" PRIMARY KEY ("comment_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "service_job_attachments" (
+      "attachment_id" TEXT NOT NULL,
+      "job_id" TEXT NOT NULL,
+      "file_id" TEXT NOT NULL,
+      "comment_id" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "service_job_attachments_pkey" PRIMARY KEY ("attachment_id")
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS "idx_service_jobs_status" ON "service_jobs"("status")`,
+    `CREATE INDEX IF NOT EXISTS "idx_service_jobs_vehicle" ON "service_jobs"("vehicle_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_service_jobs_technician" ON "service_jobs"("technician_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_service_job_status_history_job" ON "service_job_status_history"("job_id", "changed_at")`,
+    `CREATE INDEX IF NOT EXISTS "idx_service_job_comments_job" ON "service_job_comments"("job_id", "created_at")`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "service_job_attachments_job_id_file_id_key" ON "service_job_attachments"("job_id", "file_id")`,
+
+    addForeignKey(`ALTER TABLE "service_jobs" ADD CONSTRAINT "service_jobs_vehicle_id_fkey" FOREIGN KEY ("vehicle_id") REFERENCES "vehicles"("vehicle_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "service_jobs" ADD CONSTRAINT "service_jobs_technician_id_fkey" FOREIGN KEY ("technician_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "service_jobs" ADD CONSTRAINT "service_jobs_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "service_job_status_history" ADD CONSTRAINT "service_job_status_history_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "service_jobs"("job_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "service_job_status_history" ADD CONSTRAINT "service_job_status_history_changed_by_fkey" FOREIGN KEY ("changed_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "service_job_comments" ADD CONSTRAINT "service_job_comments_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "service_jobs"("job_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "service_job_comments" ADD CONSTRAINT "service_job_comments_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "service_job_attachments" ADD CONSTRAINT "service_job_attachments_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "service_jobs"("job_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "service_job_attachments" ADD CONSTRAINT "service_job_attachments_file_id_fkey" FOREIGN KEY ("file_id") REFERENCES "media_files"("file_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "service_job_attachments" ADD CONSTRAINT "service_job_attachments_comment_id_fkey" FOREIGN KEY ("comment_id") REFERENCES "service_job_comments"("comment_id") ON DELETE CASCADE ON UPDATE CASCADE`)
+  ]
+};
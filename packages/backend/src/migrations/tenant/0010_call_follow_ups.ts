@@ -0,0 +1,57 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+import { addForeignKey } from './helpers';
+
+/**
+ * Call follow-ups and their status history
+ */
+export const migration: TenantSchemaMigration = {
+  version: 10,
+  name: 'call_follow_ups',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS "call_follow_ups" (
+      "call_id" TEXT NOT NULL,
+      "caller_name" TEXT NOT NULL,
+      "phone_number" TEXT NOT NULL,
+      "person_to_contact" TEXT,
+      "vehicle_id" TEXT,
+      "operator_id" TEXT,
+      "assigned_to_id" TEXT,
+      "priority" TEXT NOT NULL DEFAULT 'medium',
+      "status" TEXT NOT NULL DEFAULT 'call_entered',
+      "call_outcome" TEXT,
+      "notes" TEXT,
+      "follow_up_at" TIMESTAMP(3),
+      "reminder_sent_at" TIMESTAMP(3),
+      "first_responded_at" TIMESTAMP(3),
+      "completed_at" TIMESTAMP(3),
+      "created_by" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "call_follow_ups_pkey" PRIMARY KEY ("call_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "call_follow_up_status_history" (
+      "change_id" TEXT NOT NULL,
+      "call_id" TEXT NOT NULL,
+      "from_status" TEXT,
+      "to_status" TEXT NOT NULL,
+      "call_outcome" TEXT,
+      "notes" TEXT,
+      "changed_by" TEXT,
+      "changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "call_follow_up_status_history_pkey" PRIMARY KEY ("change_id")
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS "idx_call_follow_ups_status" ON "call_follow_ups"("status")`,
+    `CREATE INDEX IF NOT EXISTS "idx_call_follow_ups_assigned_to" ON "call_follow_ups"("assigned_to_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_call_follow_ups_follow_up_at" ON "call_follow_ups"("follow_up_at")`,
+    `CREATE INDEX IF NOT EXISTS "idx_call_follow_up_status_history_call" ON "call_follow_up_status_history"("call_id", "changed_at")`,
+
+    addForeignKey(`ALTER TABLE "call_follow_ups" ADD CONSTRAINT "call_follow_ups_vehicle_id_fkey" FOREIGN KEY ("vehicle_id") REFERENCES "vehicles"("vehicle_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "call_follow_ups" ADD CONSTRAINT "call_follow_ups_operator_id_fkey" FOREIGN KEY ("operator_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "call_follow_ups" ADD CONSTRAINT "call_follow_ups_assigned_to_id_fkey" FOREIGN KEY ("assigned_to_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "call_follow_ups" ADD CONSTRAINT "call_follow_ups_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "call_follow_up_status_history" ADD CONSTRAINT "call_follow_up_status_history_call_id_fkey" FOREIGN KEY ("call_id") REFERENCES "call_follow_ups"("call_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "call_follow_up_status_history" ADD CONSTRAINT "call_follow_up_status_history_changed_by_fkey" FOREIGN KEY ("changed_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`)
+  ]
+};
@@ -0,0 +1,64 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+import { addForeignKey } from './helpers';
+
+/**
+ * Customer requirements with status history and comments
+ */
+export const migration: TenantSchemaMigration = {
+  version: 11,
+  name: 'customer_requirements',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS "customer_requirements" (
+      "requirement_id" TEXT NOT NULL,
+      "customer_name" TEXT NOT NULL,
+      "customer_phone" TEXT NOT NULL,
+      "customer_email" TEXT,
+      "description" TEXT NOT NULL,
+      "requested_products" JSONB NOT NULL DEFAULT '[]',
+      "priority" TEXT NOT NULL DEFAULT 'medium',
+      "status" TEXT NOT NULL DEFAULT 'pending',
+      "assigned_to_id" TEXT,
+      "vehicle_id" TEXT,
+      "converted_at" TIMESTAMP(3),
+      "completed_at" TIMESTAMP(3),
+      "created_by" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "customer_requirements_pkey" PRIMARY KEY ("requirement_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "customer_requirement_status_history" (
+      "change_id" TEXT NOT NULL,
+      "requirement_id" TEXT NOT NULL,
+      "from_status" TEXT,
+      "to_status" TEXT NOT NULL,
+      "notes" TEXT,
+      "changed_by" TEXT,
+      "changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "customer_requirement_status_history_pkey" PRIMARY KEY ("change_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "customer_requirement_comments" (
+      "comment_id" TEXT NOT NULL,
+      "requirement_id" TEXT NOT NULL,
+      "author_id" TEXT,
+      "message" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "customer_requirement_comments_pkey" PRIMARY KEY ("comment_id")
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS "idx_customer_requirements_status" ON "customer_requirements"("status")`,
+    `CREATE INDEX IF NOT EXISTS "idx_customer_requirements_assigned_to" ON "customer_requirements"("assigned_to_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_customer_requirement_status_history_requirement" ON "customer_requirement_status_history"("requirement_id", "changed_at")`,
+    `CREATE INDEX IF NOT EXISTS "idx_customer_requirement_comments_requirement" ON "customer_requirement_comments"("requirement_id", "created_at")`,
+
+    addForeignKey(`ALTER TABLE "customer_requirements" ADD CONSTRAINT "customer_requirements_assigned_to_id_fkey" FOREIGN KEY ("assigned_to_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "customer_requirements" ADD CONSTRAINT "customer_requirements_vehicle_id_fkey" FOREIGN KEY ("vehicle_id") REFERENCES "vehicles"("vehicle_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "customer_requirements" ADD CONSTRAINT "customer_requirements_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "customer_requirement_status_history" ADD CONSTRAINT "customer_requirement_status_history_requirement_id_fkey" FOREIGN KEY ("requirement_id") REFERENCES "customer_requirements"("requirement_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "customer_requirement_status_history" ADD CONSTRAINT "customer_requirement_status_history_changed_by_fkey" FOREIGN KEY ("changed_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "customer_requirement_comments" ADD CONSTRAINT "customer_requirement_comments_requirement_id_fkey" FOREIGN KEY ("requirement_id") REFERENCES "customer_requirements"("requirement_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "customer_requirement_comments" ADD CONSTRAINT "customer_requirement_comments_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`)
+  ]
+};
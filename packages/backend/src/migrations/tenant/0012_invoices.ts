@@ -0,0 +1,90 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+import { addForeignKey } from './helpers';
+
+/**
+ * Invoices, invoice items and gap-free invoice numbering
+ */
+export const migration: TenantSchemaMigration = {
+  version: 12,
+  name: 'invoices',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS "invoices" (
+      "invoice_id" TEXT NOT NULL,
+      "invoice_number" TEXT,
+      "document_type" TEXT NOT NULL DEFAULT 'invoice',
+      "status" TEXT NOT NULL DEFAULT 'draft',
+      "vehicle_id" TEXT,
+      "original_invoice_id" TEXT,
+      "payment_id" TEXT,
+      "customer_name" TEXT NOT NULL,
+      "customer_phone" TEXT,
+      "customer_email" TEXT,
+      "customer_address" TEXT,
+      "customer_gstin" TEXT,
+      "place_of_supply" TEXT,
+      "supply_type" TEXT NOT NULL DEFAULT 'intra_state',
+      "subtotal" DECIMAL(12,2) NOT NULL DEFAULT 0,
+      "discount_total" DECIMAL(12,2) NOT NULL DEFAULT 0,
+      "cgst_total" DECIMAL(12,2) NOT NULL DEFAULT 0,
+      "sgst_total" DECIMAL(12,2) NOT NULL DEFAULT 0,
+      "igst_total" DECIMAL(12,2) NOT NULL DEFAULT 0,
+      "tax_total" DECIMAL(12,2) NOT NULL DEFAULT 0,
+      "round_off" DECIMAL(12,2) NOT NULL DEFAULT 0,
+      "grand_total" DECIMAL(12,2) NOT NULL DEFAULT 0,
+      "currency" TEXT NOT NULL DEFAULT 'INR',
+      "payment_terms" TEXT,
+      "due_date" DATE,
+      "notes" TEXT,
+      "reason" TEXT,
+      "seller_details" JSONB NOT NULL DEFAULT '{}',
+      "issue_date" DATE,
+      "issued_at" TIMESTAMP(3),
+      "issued_by" TEXT,
+      "created_by" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "invoices_pkey" PRIMARY KEY ("invoice_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "invoice_items" (
+      "item_id" TEXT NOT NULL,
+      "invoice_id" TEXT NOT NULL,
+      "line_number" INTEGER NOT NULL,
+      "product_id" TEXT,
+      "description" TEXT NOT NULL,
+      "hsn_sac" TEXT,
+      "quantity" DECIMAL(10,2) NOT NULL DEFAULT 1,
+      "unit_price" DECIMAL(12,2) NOT NULL,
+      "discount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+      "tax_rate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+      "taxable_value" DECIMAL(12,2) NOT NULL,
+      "cgst_amount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+      "sgst_amount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+      "igst_amount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+      "line_total" DECIMAL(12,2) NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "invoice_items_pkey" PRIMARY KEY ("item_id")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "invoice_sequences" (
+      "sequence_key" TEXT NOT NULL,
+      "last_number" INTEGER NOT NULL DEFAULT 0,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("sequence_key")
+    )`,
+
+    `CREATE UNIQUE INDEX IF NOT EXISTS "invoices_invoice_number_key" ON "invoices"("invoice_number")`,
+    `CREATE INDEX IF NOT EXISTS "idx_invoices_vehicle" ON "invoices"("vehicle_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_invoices_status" ON "invoices"("status", "document_type")`,
+    `CREATE INDEX IF NOT EXISTS "idx_invoices_original" ON "invoices"("original_invoice_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_invoice_items_invoice" ON "invoice_items"("invoice_id", "line_number")`,
+
+    addForeignKey(`ALTER TABLE "invoices" ADD CONSTRAINT "invoices_vehicle_id_fkey" FOREIGN KEY ("vehicle_id") REFERENCES "vehicles"("vehicle_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "invoices" ADD CONSTRAINT "invoices_original_invoice_id_fkey" FOREIGN KEY ("original_invoice_id") REFERENCES "invoices"("invoice_id") ON DELETE RESTRICT ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "invoices" ADD CONSTRAINT "invoices_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("payment_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "invoices" ADD CONSTRAINT "invoices_issued_by_fkey" FOREIGN KEY ("issued_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "invoices" ADD CONSTRAINT "invoices_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "invoice_items" ADD CONSTRAINT "invoice_items_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("invoice_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "invoice_items" ADD CONSTRAINT "invoice_items_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("product_id") ON DELETE SET NULL ON UPDATE CASCADE`)
+  ]
+};
@@ -0,0 +1,37 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+import { addForeignKey } from './helpers';
+
+/**
+ * Payment transaction ledger
+ */
+export const migration: TenantSchemaMigration = {
+  version: 13,
+  name: 'payment_transactions',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS "payment_transactions" (
+      "payment_transaction_id" TEXT NOT NULL,
+      "payment_id" TEXT NOT NULL,
+      "receipt_number" TEXT NOT NULL,
+      "type" TEXT NOT NULL DEFAULT 'receipt',
+      "amount" DECIMAL(10,2) NOT NULL,
+      "payment_method" TEXT NOT NULL,
+      "reference_number" TEXT,
+      "transaction_date" TIMESTAMP(3) NOT NULL,
+      "collected_by" TEXT,
+      "reversed_transaction_id" TEXT,
+      "notes" TEXT,
+      "created_by" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "payment_transactions_pkey" PRIMARY KEY ("payment_transaction_id")
+    )`,
+
+    `CREATE UNIQUE INDEX IF NOT EXISTS "payment_transactions_receipt_number_key" ON "payment_transactions"("receipt_number")`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "payment_transactions_reversed_transaction_id_key" ON "payment_transactions"("reversed_transaction_id")`,
+    `CREATE INDEX IF NOT EXISTS "idx_payment_transactions_payment" ON "payment_transactions"("payment_id", "transaction_date")`,
+
+    addForeignKey(`ALTER TABLE "payment_transactions" ADD CONSTRAINT "payment_transactions_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("payment_id") ON DELETE CASCADE ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "payment_transactions" ADD CONSTRAINT "payment_transactions_collected_by_fkey" FOREIGN KEY ("collected_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "payment_transactions" ADD CONSTRAINT "payment_transactions_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE`),
+    addForeignKey(`ALTER TABLE "payment_transactions" ADD CONSTRAINT "payment_transactions_reversed_transaction_id_fkey" FOREIGN KEY ("reversed_transaction_id") REFERENCES "payment_transactions"("payment_transaction_id") ON DELETE RESTRICT ON UPDATE CASCADE`)
+  ]
+};
@@ -0,0 +1,15 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+
+/**
+ * Payment reminder tracking and the due date index
+ */
+export const migration: TenantSchemaMigration = {
+  version: 14,
+  name: 'payment_reminders',
+  statements: [
+    `ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "reminder_stage" INTEGER`,
+    `ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "last_reminder_at" TIMESTAMP(3)`,
+
+    `CREATE INDEX IF NOT EXISTS "idx_payments_due_date" ON "payments"("due_date")`
+  ]
+};
@@ -0,0 +1,9 @@
+/**
+ * Wrap an `ALTER TABLE ... ADD CONSTRAINT ... FOREIGN KEY` so it is a no-op
+ * when the constraint already exists. Postgres has no `IF NOT EXISTS` for
+ * constraints, and tenant databases created before migrations were tracked
+ * may already have them.
+ */
+export function addForeignKey(statement: string): string {
+  return `DO $$ BEGIN ${statement}; EXCEPTION WHEN duplicate_object THEN NULL; END $$`;
+}
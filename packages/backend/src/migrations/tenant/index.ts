@@ -0,0 +1,37 @@
+import type { TenantSchemaMigration } from '../../lib/tenantMigrations';
+import { migration as baseline } from './0001_baseline';
+import { migration as scheduledReports } from './0002_scheduled_reports';
+import { migration as passwordResets } from './0003_password_resets';
+import { migration as userSessions } from './0004_user_sessions';
+import { migration as workflowSlaBreaches } from './0005_workflow_sla_breaches';
+import { migration as webhooks } from './0006_webhooks';
+import { migration as mediaVariants } from './0007_media_variants';
+import { migration as mediaCleanupRuns } from './0008_media_cleanup_runs';
+import { migration as serviceJobs } from './0009_service_jobs';
+import { migration as callFollowUps } from './0010_call_follow_ups';
+import { migration as customerRequirements } from './0011_customer_requirements';
+import { migration as invoices } from './0012_invoices';
+import { migration as paymentTransactions } from './0013_payment_transactions';
+import { migration as paymentReminders } from './0014_payment_reminders';
+
+/**
+ * Tenant schema migrations in the order they are applied. Append new
+ * migrations with the next version number; never edit one that has shipped,
+ * its checksum is recorded for every tenant it was applied to.
+ */
+export const tenantMigrations: TenantSchemaMigration[] = [
+  baseline,
+  scheduledReports,
+  passwordResets,
+  userSessions,
+  workflowSlaBreaches,
+  webhooks,
+  mediaVariants,
+  mediaCleanupRuns,
+  serviceJobs,
+  callFollowUps,
+  customerRequirements,
+  invoices,
+  paymentTransactions,
+  paymentReminders
+];
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/auditController';
+import { authenticate, authorizeRoles, extractTenant } from '../middleware/authMiddleware';
+import { attachDatabases } from '../lib/database';
+
+export const auditRoutes = Router();
+
+// Apply authentication and database middleware to all routes
+auditRoutes.use(authenticate);
+auditRoutes.use(extractTenant);
+auditRoutes.use(attachDatabases());
+
+/**
+ * GET /api/audit-logs
+ * Get audit log entries (filters: entityType, entityId, userId, action, from, to)
+ * Requires: admin role
+ */
+auditRoutes.get('/',
+  authorizeRoles(['admin']),
+  AuditController.getAuditLogs
+);
+
+/**
+ * GET /api/audit-logs/filters
+ * Get entity types and actions present in the audit log
+ * Requires: admin role
+ */
+auditRoutes.get('/filters',
+  authorizeRoles(['admin']),
+  AuditController.getFilterOptions
+);
+
+/**
+ * GET /api/audit-logs/vehicles/:vehicleId
+ * Get the change history of a vehicle and its payments and workflows
+ * Requires: admin, manager, coordinator, or supervisor role
+ */
+auditRoutes.get('/vehicles/:vehicleId',
+  authorizeRoles(['admin', 'manager', 'coordinator', 'supervisor']),
+  AuditController.getVehicleHistory
+);
@@ -26,7 +26,7 @@ authRoutes.post('/tenant-login', extractTenant, AuthController.login);
 // Register user within tenant - requires tenant identification
 authRoutes.post('/register', extractTenant, AuthController.register);
 
-// Refresh token - no tenant extraction needed (token contains tenant info)
+// Refresh token - rotates the refresh token (token contains tenant info)
 authRoutes.post('/refresh', AuthController.refreshToken);
 
 // Protected routes (authentication required)
@@ -34,20 +34,19 @@ authRoutes.post('/refresh', AuthController.refreshToken);
 // Get current user profile
 authRoutes.get('/profile', authenticate, AuthController.getProfile);
 
-// Logout (client-side token removal)
+// Logout (revokes the current session)
 authRoutes.post('/logout', authenticate, AuthController.logout);
 
-// Password reset endpoints (to be implemented later)
-authRoutes.post('/forgot-password', (req, res) => {
-  res.status(501).json({
-    success: false,
-    error: 'Password reset not yet implemented'
-  });
-});
-
-authRoutes.post('/reset-password', (req, res) => {
-  res.status(501).json({
-    success: false,
-    error: 'Password reset not yet implemented'
-  });
-});
\ No newline at end of file
+// Logout from all devices
+authRoutes.post('/logout-all', authenticate, AuthController.logoutAll);
+
+// Active sessions of the current user
+authRoutes.get('/sessions', authenticate, AuthController.getSessions);
+
+// Revoke a single session
+authRoutes.delete('/sessions/:sessionId', authenticate, AuthController.revokeSession);
+
+// Password reset - requires tenant identification (or subdomain in the body)
+authRoutes.post('/forgot-password', extractTenant, AuthController.forgotPassword);
+
+authRoutes.post('/reset-password', extractTenant, AuthController.resetPassword);
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { CallFollowUpController } from '../controllers/callFollowUpController';
+import { authenticate, authorizeRoles, extractTenant } from '../middleware/authMiddleware';
+import { attachDatabases } from '../lib/database';
+
+export const callFollowUpRoutes = Router();
+
+// Apply authentication and database middleware to all routes
+callFollowUpRoutes.use(authenticate);
+callFollowUpRoutes.use(extractTenant);
+callFollowUpRoutes.use(attachDatabases());
+
+/**
+ * GET /api/call-follow-ups
+ * Get follow-up calls with filtering, pagination and queue counts
+ * Requires: Any authenticated user
+ */
+callFollowUpRoutes.get('/',
+  CallFollowUpController.getCalls
+);
+
+/**
+ * GET /api/call-follow-ups/queues
+ * Get overdue and due-today callbacks (?mine=true for the current user's)
+ * Requires: Any authenticated user
+ */
+callFollowUpRoutes.get('/queues',
+  CallFollowUpController.getQueues
+);
+
+/**
+ * GET /api/call-follow-ups/assignees
+ * Get users calls can be taken by or assigned to
+ * Requires: Any authenticated user
+ */
+callFollowUpRoutes.get('/assignees',
+  CallFollowUpController.getAssignees
+);
+
+/**
+ * GET /api/call-follow-ups/:callId
+ * Get follow-up call with status history
+ * Requires: Any authenticated user
+ */
+callFollowUpRoutes.get('/:callId',
+  CallFollowUpController.getCall
+);
+
+/**
+ * POST /api/call-follow-ups
+ * Log a call that needs following up
+ * Requires: Any authenticated user
+ */
+callFollowUpRoutes.post('/',
+  CallFollowUpController.createCall
+);
+
+/**
+ * PUT /api/call-follow-ups/:callId
+ * Update call details, callback time and assignment
+ * Requires: Any authenticated user
+ */
+callFollowUpRoutes.put('/:callId',
+  CallFollowUpController.updateCall
+);
+
+/**
+ * PATCH /api/call-follow-ups/:callId/status
+ * Change call status and record the outcome
+ * Requires: Any authenticated user
+ */
+callFollowUpRoutes.patch('/:callId/status',
+  CallFollowUpController.updateCallStatus
+);
+
+/**
+ * DELETE /api/call-follow-ups/:callId
+ * Delete follow-up call
+ * Requires: admin or manager role
+ */
+callFollowUpRoutes.delete('/:callId',
+  authorizeRoles(['admin', 'manager']),
+  CallFollowUpController.deleteCall
+);
@@ -0,0 +1,94 @@
+import { Router } from 'express';
+import { CustomerRequirementController } from '../controllers/customerRequirementController';
+import { authenticate, requirePermission, authorizeRoles, extractTenant } from '../middleware/authMiddleware';
+import { attachDatabases } from '../lib/database';
+
+export const customerRequirementRoutes = Router();
+
+// Apply authentication and database middleware to all routes
+customerRequirementRoutes.use(authenticate);
+customerRequirementRoutes.use(extractTenant);
+customerRequirementRoutes.use(attachDatabases());
+
+/**
+ * GET /api/customer-requirements
+ * Get customer requirements with filtering, pagination and status counts
+ * Requires: Any authenticated user
+ */
+customerRequirementRoutes.get('/',
+  CustomerRequirementController.getRequirements
+);
+
+/**
+ * GET /api/customer-requirements/assignees
+ * Get users requirements can be assigned to
+ * Requires: Any authenticated user
+ */
+customerRequirementRoutes.get('/assignees',
+  CustomerRequirementController.getAssignees
+);
+
+/**
+ * GET /api/customer-requirements/:requirementId
+ * Get customer requirement with status history and comments
+ * Requires: Any authenticated user
+ */
+customerRequirementRoutes.get('/:requirementId',
+  CustomerRequirementController.getRequirement
+);
+
+/**
+ * POST /api/customer-requirements
+ * Record a new customer requirement
+ * Requires: Any authenticated user
+ */
+customerRequirementRoutes.post('/',
+  CustomerRequirementController.createRequirement
+);
+
+/**
+ * PUT /api/customer-requirements/:requirementId
+ * Update requirement details, requested products and assignment
+ * Requires: Any authenticated user
+ */
+customerRequirementRoutes.put('/:requirementId',
+  CustomerRequirementController.updateRequirement
+);
+
+/**
+ * PATCH /api/customer-requirements/:requirementId/status
+ * Change requirement status
+ * Requires: Any authenticated user
+ */
+customerRequirementRoutes.patch('/:requirementId/status',
+  CustomerRequirementController.updateRequirementStatus
+);
+
+/**
+ * POST /api/customer-requirements/:requirementId/comments
+ * Add a comment to a requirement
+ * Requires: Any authenticated user
+ */
+customerRequirementRoutes.post('/:requirementId/comments',
+  CustomerRequirementController.addComment
+);
+
+/**
+ * POST /api/customer-requirements/:requirementId/convert
+ * Create a vehicle order pre-filled with the requested products
+ * Requires: vehicles.create permission
+ */
+customerRequirementRoutes.post('/:requirementId/convert',
+  requirePermission('vehicles.create'),
+  CustomerRequirementController.convertToVehicle
+);
+
+/**
+ * DELETE /api/customer-requirements/:requirementId
+ * Delete customer requirement
+ * Requires: admin or manager role
+ */
+customerRequirementRoutes.delete('/:requirementId',
+  authorizeRoles(['admin', 'manager']),
+  CustomerRequirementController.deleteRequirement
+);
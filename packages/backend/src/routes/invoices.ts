@@ -0,0 +1,102 @@
+import { Router } from 'express';
+import { InvoiceController } from '../controllers/invoiceController';
+import { authenticate, extractTenant } from '../middleware/authMiddleware';
+import { requireInvoicePermission } from '../middleware/financialMiddleware';
+import { attachDatabases } from '../lib/database';
+
+export const invoiceRoutes = Router();
+
+// Apply authentication and database middleware to all routes
+invoiceRoutes.use(authenticate);
+invoiceRoutes.use(extractTenant);
+invoiceRoutes.use(attachDatabases());
+
+/**
+ * GET /api/invoices
+ * Get invoices and credit notes with filtering, pagination and totals
+ * Requires: invoices.view permission
+ */
+invoiceRoutes.get('/',
+  requireInvoicePermission('view'),
+  InvoiceController.getInvoices
+);
+
+/**
+ * GET /api/invoices/:invoiceId
+ * Get invoice with line items, credit notes and linked payable
+ * Requires: invoices.view permission
+ */
+invoiceRoutes.get('/:invoiceId',
+  requireInvoicePermission('view'),
+  InvoiceController.getInvoice
+);
+
+/**
+ * GET /api/invoices/:invoiceId/pdf
+ * Download invoice or credit note as PDF
+ * Requires: invoices.export permission
+ */
+invoiceRoutes.get('/:invoiceId/pdf',
+  requireInvoicePermission('export'),
+  InvoiceController.downloadInvoicePdf
+);
+
+/**
+ * POST /api/invoices
+ * Create a draft invoice from supplied line items
+ * Requires: invoices.create permission
+ */
+invoiceRoutes.post('/',
+  requireInvoicePermission('create'),
+  InvoiceController.createInvoice
+);
+
+/**
+ * POST /api/invoices/vehicles/:vehicleId
+ * Create a draft invoice from a vehicle's installed or ordered products
+ * Requires: invoices.create permission
+ */
+invoiceRoutes.post('/vehicles/:vehicleId',
+  requireInvoicePermission('create'),
+  InvoiceController.createVehicleInvoice
+);
+
+/**
+ * PUT /api/invoices/:invoiceId
+ * Update a draft invoice; issued invoices are immutable
+ * Requires: invoices.update permission
+ */
+invoiceRoutes.put('/:invoiceId',
+  requireInvoicePermission('update'),
+  InvoiceController.updateInvoice
+);
+
+/**
+ * POST /api/invoices/:invoiceId/issue
+ * Assign the next number and issue a draft invoice or credit note
+ * Requires: invoices.send permission
+ */
+invoiceRoutes.post('/:invoiceId/issue',
+  requireInvoicePermission('send'),
+  InvoiceController.issueInvoice
+);
+
+/**
+ * POST /api/invoices/:invoiceId/credit-notes
+ * Create a draft credit note against an issued invoice
+ * Requires: invoices.update permission
+ */
+invoiceRoutes.post('/:invoiceId/credit-notes',
+  requireInvoicePermission('update'),
+  InvoiceController.createCreditNote
+);
+
+/**
+ * DELETE /api/invoices/:invoiceId
+ * Delete a draft invoice or credit note
+ * Requires: invoices.update permission
+ */
+invoiceRoutes.delete('/:invoiceId',
+  requireInvoicePermission('update'),
+  InvoiceController.deleteInvoice
+);
@@ -39,6 +39,15 @@ mediaRoutes.get('/stats',
   MediaController.getMediaStats
 );
 
+/**
+ * GET /api/media/:fileId/url
+ * Get a signed download URL for a media file (?expiresIn=seconds)
+ * All authenticated users can access media
+ */
+mediaRoutes.get('/:fileId/url',
+  MediaController.getMediaFileUrl
+);
+
 /**
  * GET /api/media/:fileId
  * Get media file by ID with metadata
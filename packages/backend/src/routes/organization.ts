@@ -82,6 +82,16 @@ router.put('/settings',
   OrganizationController.updateOrganizationSettings
 );
 
+/**
+ * @route GET /api/organization/usage
+ * @desc Get subscription tier limits and current usage
+ * @access Private (Admin/Manager)
+ */
+router.get('/usage', 
+  authorizeRoles(['admin', 'manager']),
+  OrganizationController.getUsage
+);
+
 /**
  * @route POST /api/organization/logo
  * @desc Upload organization logo
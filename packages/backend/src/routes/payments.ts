@@ -1,13 +1,36 @@
 import { Router } from 'express';
-import { PaymentService } from '../services/payment.service';
+import { z } from 'zod';
+import { PaymentService, PaymentLedgerError, PAYMENT_METHODS } from '../services/payment.service';
+import { getSellerDetails } from '../services/invoices';
 import { getTenantDb } from '../lib/database';
+import { dispatchWebhook } from '../lib/webhooks';
+import { recordAudit, getAuditContext } from '../lib/audit';
+import { buildPaymentScope, getPermissionConditions, isAmountAllowed, isPaymentInScope, isVehicleInScope } from '../lib/permissions';
+import { generateReceiptPdf } from '../lib/receiptPdf';
 import { authenticate } from '../middleware/authMiddleware';
+import { requirePaymentPermission } from '../middleware/financialMiddleware';
 
 const router = Router();
 
 // Apply authentication middleware to all routes
 router.use(authenticate);
 
+const transactionSchema = z.object({
+  type: z.enum(['receipt', 'refund']).default('receipt'),
+  amount: z.number().positive(),
+  paymentMethod: z.enum(PAYMENT_METHODS),
+  referenceNumber: z.string().max(100).nullable().optional(),
+  transactionDate: z.string().datetime({ offset: true }).optional(),
+  collectedBy: z.string().uuid().nullable().optional(),
+  notes: z.string().max(1000).nullable().optional()
+});
+
+const reversalSchema = z.object({
+  reason: z.string().min(1).max(1000)
+});
+
+const OUT_OF_SCOPE = 'This payment is outside your access scope';
+
 // GET /api/payments - Get all payments with optional filters
 router.get('/', async (req, res) => {
   try {
@@ -30,7 +53,9 @@ router.get('/', async (req, res) => {
     const prisma = await getTenantDb(tenantId);
     const paymentService = new PaymentService(prisma);
     
-    const payments = await paymentService.getAllPayments(filters);
+    // Row-level conditions of the role's payments.view permission
+    const scope = await buildPaymentScope(prisma, req.user, getPermissionConditions(req.user, 'payments.view'));
+    const payments = await paymentService.getAllPayments(filters, scope);
     res.json(payments);
   } catch (error) {
     console.error('Error fetching payments:', error);
@@ -49,7 +74,8 @@ router.get('/outstanding', async (req, res) => {
     const prisma = await getTenantDb(tenantId);
     const paymentService = new PaymentService(prisma);
     
-    const payments = await paymentService.getOutstandingPayments();
+    const scope = await buildPaymentScope(prisma, req.user, getPermissionConditions(req.user, 'payments.view'));
+    const payments = await paymentService.getOutstandingPayments(new Date(), scope);
     res.json(payments);
   } catch (error) {
     console.error('Error fetching outstanding payments:', error);
@@ -68,7 +94,8 @@ router.get('/summary', async (req, res) => {
     const prisma = await getTenantDb(tenantId);
     const paymentService = new PaymentService(prisma);
     
-    const summary = await paymentService.getPaymentSummary();
+    const scope = await buildPaymentScope(prisma, req.user, getPermissionConditions(req.user, 'payments.view'));
+    const summary = await paymentService.getPaymentSummary(scope);
     res.json(summary);
   } catch (error) {
     console.error('Error fetching payment summary:', error);
@@ -76,6 +103,31 @@ router.get('/summary', async (req, res) => {
   }
 });
 
+// GET /api/payments/ageing - Receivables ageing (0-30/31-60/61-90/90+ days) by location and salesperson
+router.get('/ageing', requirePaymentPermission('view'), async (req, res) => {
+  try {
+    const tenantId = req.user?.tenantId;
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID is required' });
+    }
+
+    const asOf = req.query.asOf ? new Date(req.query.asOf as string) : new Date();
+    if (isNaN(asOf.getTime())) {
+      return res.status(400).json({ error: 'Invalid asOf date' });
+    }
+
+    const prisma = await getTenantDb(tenantId);
+    const paymentService = new PaymentService(prisma);
+
+    const scope = await buildPaymentScope(prisma, req.user, getPermissionConditions(req.user, 'payments.view'));
+    const report = await paymentService.getAgeingReport(asOf, scope);
+    res.json(report);
+  } catch (error) {
+    console.error('Error building ageing report:', error);
+    res.status(500).json({ error: 'Failed to build ageing report' });
+  }
+});
+
 // GET /api/payments/vehicle/:vehicleId - Get payments for specific vehicle
 router.get('/vehicle/:vehicleId', async (req, res) => {
   try {
@@ -89,7 +141,8 @@ router.get('/vehicle/:vehicleId', async (req, res) => {
     const prisma = await getTenantDb(tenantId);
     const paymentService = new PaymentService(prisma);
     
-    const payments = await paymentService.getPaymentsByVehicle(vehicleId);
+    const scope = await buildPaymentScope(prisma, req.user, getPermissionConditions(req.user, 'payments.view'));
+    const payments = await paymentService.getPaymentsByVehicle(vehicleId, scope);
     res.json(payments);
   } catch (error) {
     console.error('Error fetching vehicle payments:', error);
@@ -112,11 +165,38 @@ router.post('/', async (req, res) => {
 
     const prisma = await getTenantDb(tenantId);
     const paymentService = new PaymentService(prisma);
+
+    const conditions = getPermissionConditions(req.user, 'payments.create');
+    if (
+      !isAmountAllowed(conditions, paymentData.amount ?? 0) ||
+      !(await isVehicleInScope(prisma, req.user, conditions, paymentData.vehicleId))
+    ) {
+      return res.status(403).json({ error: OUT_OF_SCOPE });
+    }
     
     const payment = await paymentService.createPayment(paymentData);
+
+    dispatchWebhook(tenantId, 'payment.recorded', {
+      payment,
+      recordedBy: req.user?.userId
+    });
+
+    const { vehicle, ...paymentRow } = payment;
+    await recordAudit(prisma, {
+      ...getAuditContext(req),
+      entityType: 'payment',
+      entityId: payment.paymentId,
+      verb: 'created',
+      after: paymentRow,
+      details: { vehicleId: payment.vehicleId }
+    });
+
     res.status(201).json(payment);
   } catch (error) {
     console.error('Error creating payment:', error);
+    if (error instanceof PaymentLedgerError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     res.status(500).json({ error: 'Failed to create payment' });
   }
 });
@@ -125,7 +205,10 @@ router.post('/', async (req, res) => {
 router.put('/:paymentId', async (req, res) => {
   try {
     const { paymentId } = req.params;
-    const updateData = req.body;
+    const updateData = {
+      ...req.body,
+      updatedBy: req.user?.userId,
+    };
 
     const tenantId = req.user?.tenantId;
     if (!tenantId) {
@@ -134,18 +217,220 @@ router.put('/:paymentId', async (req, res) => {
 
     const prisma = await getTenantDb(tenantId);
     const paymentService = new PaymentService(prisma);
+
+    const conditions = getPermissionConditions(req.user, 'payments.update');
+    if (
+      (updateData.amount !== undefined && !isAmountAllowed(conditions, updateData.amount)) ||
+      !(await isPaymentInScope(prisma, req.user, conditions, paymentId))
+    ) {
+      return res.status(403).json({ error: OUT_OF_SCOPE });
+    }
     
+    const previous = await prisma.payment.findUnique({
+      where: { paymentId }
+    });
     const payment = await paymentService.updatePayment(paymentId, updateData);
+
+    // Only an increase of the paid amount records money received
+    if (previous && payment.paidAmount.greaterThan(previous.paidAmount)) {
+      dispatchWebhook(tenantId, 'payment.recorded', {
+        payment,
+        previousPaidAmount: previous.paidAmount,
+        recordedBy: req.user?.userId
+      });
+    }
+
+    await recordAudit(prisma, {
+      ...getAuditContext(req),
+      entityType: 'payment',
+      entityId: paymentId,
+      verb: 'updated',
+      before: previous,
+      after: payment,
+      details: { vehicleId: payment.vehicleId }
+    });
+
     res.json(payment);
   } catch (error) {
     console.error('Error updating payment:', error);
-    if (error instanceof Error && error.message === 'Payment not found') {
-      return res.status(404).json({ error: 'Payment not found' });
+    if (error instanceof PaymentLedgerError) {
+      return res.status(error.statusCode).json({ error: error.message });
     }
     res.status(500).json({ error: 'Failed to update payment' });
   }
 });
 
+// GET /api/payments/:paymentId/transactions - Get the payment ledger
+router.get('/:paymentId/transactions', requirePaymentPermission('view'), async (req, res) => {
+  try {
+    const { paymentId } = req.params;
+
+    const tenantId = req.user?.tenantId;
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID is required' });
+    }
+
+    const prisma = await getTenantDb(tenantId);
+    const paymentService = new PaymentService(prisma);
+
+    if (!(await isPaymentInScope(prisma, req.user, getPermissionConditions(req.user, 'payments.view'), paymentId))) {
+      return res.status(403).json({ error: OUT_OF_SCOPE });
+    }
+
+    const transactions = await paymentService.getTransactions(paymentId);
+    res.json(transactions);
+  } catch (error) {
+    console.error('Error fetching payment transactions:', error);
+    res.status(500).json({ error: 'Failed to fetch payment transactions' });
+  }
+});
+
+// POST /api/payments/:paymentId/transactions - Record a receipt (installment) or refund
+router.post('/:paymentId/transactions', requirePaymentPermission('create'), async (req, res) => {
+  try {
+    const { paymentId } = req.params;
+    const data = transactionSchema.parse(req.body);
+
+    const tenantId = req.user?.tenantId;
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID is required' });
+    }
+
+    // Refunds send money back out, so they need more than collection rights
+    const permissions = req.user?.permissions || {};
+    const canUpdate = permissions['*'] || permissions['payments.update'] ||
+      (Array.isArray(permissions.payments) && permissions.payments.includes('update'));
+    if (data.type === 'refund' && !canUpdate) {
+      return res.status(403).json({ error: 'Insufficient permissions to record refunds' });
+    }
+
+    const prisma = await getTenantDb(tenantId);
+    const paymentService = new PaymentService(prisma);
+
+    const conditions = getPermissionConditions(req.user, 'payments.create');
+    if (!isAmountAllowed(conditions, data.amount) || !(await isPaymentInScope(prisma, req.user, conditions, paymentId))) {
+      return res.status(403).json({ error: OUT_OF_SCOPE });
+    }
+
+    const result = await paymentService.recordTransaction(paymentId, {
+      ...data,
+      transactionDate: data.transactionDate ? new Date(data.transactionDate) : undefined,
+      collectedBy: data.collectedBy ?? req.user?.userId,
+      createdBy: req.user?.userId
+    });
+
+    if (data.type === 'receipt') {
+      dispatchWebhook(tenantId, 'payment.recorded', {
+        payment: result.payment,
+        transaction: result.transaction,
+        recordedBy: req.user?.userId
+      });
+    }
+
+    await recordAudit(prisma, {
+      ...getAuditContext(req),
+      entityType: 'payment_transaction',
+      entityId: result.transaction.paymentTransactionId,
+      verb: 'created',
+      after: result.transaction,
+      details: { paymentId, vehicleId: result.payment.vehicleId }
+    });
+
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Error recording payment transaction:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request data', details: error.issues });
+    }
+    if (error instanceof PaymentLedgerError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to record payment transaction' });
+  }
+});
+
+// POST /api/payments/transactions/:transactionId/reverse - Reverse a receipt or refund
+router.post('/transactions/:transactionId/reverse', requirePaymentPermission('update'), async (req, res) => {
+  try {
+    const { transactionId } = req.params;
+    const { reason } = reversalSchema.parse(req.body);
+
+    const tenantId = req.user?.tenantId;
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID is required' });
+    }
+
+    const prisma = await getTenantDb(tenantId);
+    const paymentService = new PaymentService(prisma);
+
+    const original = await prisma.paymentTransaction.findUnique({
+      where: { paymentTransactionId: transactionId },
+      select: { paymentId: true }
+    });
+    if (original && !(await isPaymentInScope(prisma, req.user, getPermissionConditions(req.user, 'payments.update'), original.paymentId))) {
+      return res.status(403).json({ error: OUT_OF_SCOPE });
+    }
+
+    const result = await paymentService.reverseTransaction(transactionId, {
+      reason,
+      createdBy: req.user?.userId
+    });
+
+    await recordAudit(prisma, {
+      ...getAuditContext(req),
+      entityType: 'payment_transaction',
+      entityId: result.transaction.paymentTransactionId,
+      verb: 'created',
+      after: result.transaction,
+      details: { paymentId: result.payment.paymentId, vehicleId: result.payment.vehicleId, reverses: transactionId }
+    });
+
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Error reversing payment transaction:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request data', details: error.issues });
+    }
+    if (error instanceof PaymentLedgerError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to reverse payment transaction' });
+  }
+});
+
+// GET /api/payments/transactions/:transactionId/receipt - Download receipt PDF
+router.get('/transactions/:transactionId/receipt', requirePaymentPermission('view'), async (req, res) => {
+  try {
+    const { transactionId } = req.params;
+
+    const tenantId = req.user?.tenantId;
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID is required' });
+    }
+
+    const prisma = await getTenantDb(tenantId);
+    const paymentService = new PaymentService(prisma);
+
+    const transaction = await paymentService.getTransactionForReceipt(transactionId);
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+    if (!(await isPaymentInScope(prisma, req.user, getPermissionConditions(req.user, 'payments.view'), transaction.paymentId))) {
+      return res.status(403).json({ error: OUT_OF_SCOPE });
+    }
+
+    const seller = await getSellerDetails(prisma);
+    const pdf = await generateReceiptPdf(tenantId, seller, transaction);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${transaction.receiptNumber.replace(/[^A-Za-z0-9-]+/g, '_')}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Error generating payment receipt:', error);
+    res.status(500).json({ error: 'Failed to generate payment receipt' });
+  }
+});
+
 // DELETE /api/payments/:paymentId - Delete payment
 router.delete('/:paymentId', async (req, res) => {
   try {
@@ -158,8 +443,22 @@ router.delete('/:paymentId', async (req, res) => {
 
     const prisma = await getTenantDb(tenantId);
     const paymentService = new PaymentService(prisma);
+
+    if (!(await isPaymentInScope(prisma, req.user, getPermissionConditions(req.user, 'payments.delete'), paymentId))) {
+      return res.status(403).json({ error: OUT_OF_SCOPE });
+    }
     
-    await paymentService.deletePayment(paymentId);
+    const deleted = await paymentService.deletePayment(paymentId);
+
+    await recordAudit(prisma, {
+      ...getAuditContext(req),
+      entityType: 'payment',
+      entityId: paymentId,
+      verb: 'deleted',
+      before: deleted,
+      details: { vehicleId: deleted.vehicleId }
+    });
+
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting payment:', error);
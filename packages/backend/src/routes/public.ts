@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { AuthController } from '../controllers/authController';
 import { publicRateLimiter } from '../middleware/rateLimiter';
 import { attachDatabases } from '../lib/database';
+import { extractTenant } from '../middleware/authMiddleware';
 
 export const publicRoutes = Router();
 
@@ -34,26 +35,16 @@ publicRoutes.get('/plans', AuthController.getSubscriptionPlans);
 
 /**
  * @route POST /api/public/forgot-password
- * @desc Request password reset (public - no tenant required)
+ * @desc Request password reset link (tenant from body subdomain, header or host)
  * @access Public
  */
-publicRoutes.post('/forgot-password', (req, res) => {
-  res.status(501).json({
-    success: false,
-    error: 'Password reset not yet implemented'
-  });
-});
+publicRoutes.post('/forgot-password', extractTenant, AuthController.forgotPassword);
 
 /**
  * @route POST /api/public/reset-password
- * @desc Reset password with token
+ * @desc Reset password with a single-use token
  * @access Public
  */
-publicRoutes.post('/reset-password', (req, res) => {
-  res.status(501).json({
-    success: false,
-    error: 'Password reset not yet implemented'
-  });
-});
+publicRoutes.post('/reset-password', extractTenant, AuthController.resetPassword);
 
 export default publicRoutes;
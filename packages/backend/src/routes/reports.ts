@@ -87,6 +87,36 @@ reportsRoutes.get('/scheduled',
   ReportsController.getScheduledReports
 );
 
+/**
+ * PUT /api/reports/scheduled/:reportId
+ * Update scheduled report (schedule, recipients, enable/disable)
+ * Requires: manager+ role
+ */
+reportsRoutes.put('/scheduled/:reportId',
+  authorizeRoles(['admin', 'manager']),
+  ReportsController.updateScheduledReport
+);
+
+/**
+ * GET /api/reports/scheduled/:reportId/runs
+ * Get run history of a scheduled report
+ * Requires: manager+ role
+ */
+reportsRoutes.get('/scheduled/:reportId/runs',
+  authorizeRoles(['admin', 'manager']),
+  ReportsController.getScheduledReportRuns
+);
+
+/**
+ * POST /api/reports/scheduled/:reportId/run
+ * Generate and deliver a scheduled report immediately
+ * Requires: manager+ role
+ */
+reportsRoutes.post('/scheduled/:reportId/run',
+  authorizeRoles(['admin', 'manager']),
+  ReportsController.runScheduledReport
+);
+
 /**
  * DELETE /api/reports/scheduled/:reportId
  * Delete scheduled report
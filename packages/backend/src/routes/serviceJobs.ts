@@ -0,0 +1,118 @@
+import { Router } from 'express';
+import { ServiceJobController } from '../controllers/serviceJobController';
+import { authenticate, authorizeRoles, extractTenant } from '../middleware/authMiddleware';
+import { attachDatabases } from '../lib/database';
+
+export const serviceJobRoutes = Router();
+
+// Apply authentication and database middleware to all routes
+serviceJobRoutes.use(authenticate);
+serviceJobRoutes.use(extractTenant);
+serviceJobRoutes.use(attachDatabases());
+
+/**
+ * GET /api/service-jobs
+ * Get service jobs with filtering and pagination
+ * Requires: Any authenticated user
+ */
+serviceJobRoutes.get('/',
+  ServiceJobController.getServiceJobs
+);
+
+/**
+ * GET /api/service-jobs/technicians
+ * Get assignable technicians with their open job count
+ * Requires: Any authenticated user
+ */
+serviceJobRoutes.get('/technicians',
+  ServiceJobController.getTechnicians
+);
+
+/**
+ * GET /api/service-jobs/:jobId
+ * Get service job with status history, comments and attachments
+ * Requires: Any authenticated user
+ */
+serviceJobRoutes.get('/:jobId',
+  ServiceJobController.getServiceJob
+);
+
+/**
+ * POST /api/service-jobs
+ * Create service job for a vehicle
+ * Requires: admin, manager, coordinator or supervisor role
+ */
+serviceJobRoutes.post('/',
+  authorizeRoles(['admin', 'manager', 'coordinator', 'supervisor']),
+  ServiceJobController.createServiceJob
+);
+
+/**
+ * PUT /api/service-jobs/:jobId
+ * Update service job details
+ * Requires: admin, manager, coordinator or supervisor role
+ */
+serviceJobRoutes.put('/:jobId',
+  authorizeRoles(['admin', 'manager', 'coordinator', 'supervisor']),
+  ServiceJobController.updateServiceJob
+);
+
+/**
+ * PATCH /api/service-jobs/:jobId/status
+ * Change service job status
+ * Requires: admin, manager, coordinator, supervisor or installer role
+ */
+serviceJobRoutes.patch('/:jobId/status',
+  authorizeRoles(['admin', 'manager', 'coordinator', 'supervisor', 'installer']),
+  ServiceJobController.updateServiceJobStatus
+);
+
+/**
+ * PATCH /api/service-jobs/:jobId/technician
+ * Assign or unassign the technician
+ * Requires: admin, manager, coordinator or supervisor role
+ */
+serviceJobRoutes.patch('/:jobId/technician',
+  authorizeRoles(['admin', 'manager', 'coordinator', 'supervisor']),
+  ServiceJobController.assignTechnician
+);
+
+/**
+ * DELETE /api/service-jobs/:jobId
+ * Delete service job
+ * Requires: admin or manager role
+ */
+serviceJobRoutes.delete('/:jobId',
+  authorizeRoles(['admin', 'manager']),
+  ServiceJobController.deleteServiceJob
+);
+
+/**
+ * POST /api/service-jobs/:jobId/comments
+ * Add comment with optional media file attachments
+ * Requires: admin, manager, coordinator, supervisor or installer role
+ */
+serviceJobRoutes.post('/:jobId/comments',
+  authorizeRoles(['admin', 'manager', 'coordinator', 'supervisor', 'installer']),
+  ServiceJobController.addComment
+);
+
+/**
+ * POST /api/service-jobs/:jobId/attachments
+ * Attach media files uploaded for the job's vehicle
+ * Requires: admin, manager, coordinator, supervisor or installer role
+ */
+serviceJobRoutes.post('/:jobId/attachments',
+  authorizeRoles(['admin', 'manager', 'coordinator', 'supervisor', 'installer']),
+  ServiceJobController.addAttachments
+);
+
+/**
+ * DELETE /api/service-jobs/:jobId/attachments/:attachmentId
+ * Remove attachment from a service job
+ * Requires: admin, manager, coordinator or supervisor role
+ */
+serviceJobRoutes.delete('/:jobId/attachments/:attachmentId',
+  authorizeRoles(['admin', 'manager', 'coordinator', 'supervisor']),
+  ServiceJobController.removeAttachment
+);
@@ -1,36 +1,14 @@
 import { Router } from 'express';
 import { SuperAdminController } from '../controllers/superAdminController';
 import { SystemMonitoringController } from '../controllers/systemMonitoringController';
-import { authenticate, extractTenant } from '../middleware/authMiddleware';
+import { authenticate, requireSuperAdmin } from '../middleware/authMiddleware';
 import { attachDatabases } from '../lib/database';
 
 export const superAdminRoutes = Router();
 
-// Super admin authentication middleware
-const superAdminAuth = (req: any, res: any, next: any) => {
-  // In a real implementation, this would check for super admin privileges
-  // For now, we'll check if the user has admin role and specific permissions
-  if (!req.user || req.user.role !== 'admin') {
-    return res.status(403).json({
-      success: false,
-      error: 'Super admin access required'
-    });
-  }
-  
-  // Additional check for super admin flag (would be in JWT or user record)
-  // if (!req.user.isSuperAdmin) {
-  //   return res.status(403).json({
-  //     success: false,
-  //     error: 'Super admin privileges required'
-  //   });
-  // }
-  
-  next();
-};
-
 // Apply authentication middleware to all routes
 superAdminRoutes.use(authenticate);
-superAdminRoutes.use(superAdminAuth);
+superAdminRoutes.use(requireSuperAdmin);
 
 /**
  * GET /api/super-admin/overview
@@ -116,7 +94,7 @@ superAdminRoutes.get('/monitoring/database',
 
 /**
  * GET /api/super-admin/monitoring/historical
- * Get historical metrics data
+ * Get a metric's history (request latency, error rate, API calls, DB timing)
  */
 superAdminRoutes.get('/monitoring/historical',
   SystemMonitoringController.getHistoricalMetrics
@@ -124,7 +102,7 @@ superAdminRoutes.get('/monitoring/historical',
 
 /**
  * GET /api/super-admin/monitoring/alerts
- * Get system alerts and notifications
+ * Get alert history (firing and resolved)
  */
 superAdminRoutes.get('/monitoring/alerts',
   SystemMonitoringController.getSystemAlerts
@@ -132,12 +110,60 @@ superAdminRoutes.get('/monitoring/alerts',
 
 /**
  * POST /api/super-admin/monitoring/alerts
- * Create new system alert
+ * Raise an alert manually
  */
 superAdminRoutes.post('/monitoring/alerts',
   SystemMonitoringController.createAlert
 );
 
+/**
+ * POST /api/super-admin/monitoring/alerts/:alertId/acknowledge
+ * Acknowledge an alert
+ */
+superAdminRoutes.post('/monitoring/alerts/:alertId/acknowledge',
+  SystemMonitoringController.acknowledgeAlert
+);
+
+/**
+ * POST /api/super-admin/monitoring/alerts/:alertId/resolve
+ * Resolve a manually raised alert
+ */
+superAdminRoutes.post('/monitoring/alerts/:alertId/resolve',
+  SystemMonitoringController.resolveAlert
+);
+
+/**
+ * GET /api/super-admin/monitoring/alert-rules
+ * List alert rules
+ */
+superAdminRoutes.get('/monitoring/alert-rules',
+  SystemMonitoringController.getAlertRules
+);
+
+/**
+ * POST /api/super-admin/monitoring/alert-rules
+ * Create an alert rule
+ */
+superAdminRoutes.post('/monitoring/alert-rules',
+  SystemMonitoringController.createAlertRule
+);
+
+/**
+ * PUT /api/super-admin/monitoring/alert-rules/:ruleId
+ * Update an alert rule
+ */
+superAdminRoutes.put('/monitoring/alert-rules/:ruleId',
+  SystemMonitoringController.updateAlertRule
+);
+
+/**
+ * DELETE /api/super-admin/monitoring/alert-rules/:ruleId
+ * Delete an alert rule
+ */
+superAdminRoutes.delete('/monitoring/alert-rules/:ruleId',
+  SystemMonitoringController.deleteAlertRule
+);
+
 /**
  * GET /api/super-admin/monitoring/performance
  * Get system performance summary
@@ -148,7 +174,7 @@ superAdminRoutes.get('/monitoring/performance',
 
 /**
  * GET /api/super-admin/monitoring/forecast
- * Get resource usage forecast
+ * Forecast daily request, error rate, latency and DB timing trends
  */
 superAdminRoutes.get('/monitoring/forecast',
   SystemMonitoringController.getResourceForecast
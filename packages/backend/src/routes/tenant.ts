@@ -1,54 +1,294 @@
-import { Router, Request, Response } from 'express';
-import { createApiResponse, createApiError } from '@omsms/shared';
+import { Router } from 'express';
+import { TenantController } from '../controllers/tenantController';
+import { TenantMigrationController } from '../controllers/tenantMigrationController';
+import { TenantBackupController } from '../controllers/tenantBackupController';
+import { authenticate, authorizeRoles, requireSuperAdmin } from '../middleware/authMiddleware';
 
 export const tenantRoutes = Router();
 
-// Get tenant info (placeholder for Phase 2)
-tenantRoutes.get('/:tenantId', (req: Request, res: Response) => {
-  // TODO: Implement tenant info retrieval in Phase 2
-  const response = createApiError(
-    'Not implemented',
-    'Tenant management will be implemented in Phase 2'
-  );
-  res.status(501).json(response);
-});
-
-// Create tenant (placeholder for Phase 2)
-tenantRoutes.post('/', (req: Request, res: Response) => {
-  // TODO: Implement tenant creation in Phase 2
-  const response = createApiError(
-    'Not implemented',
-    'Tenant creation will be implemented in Phase 2'
-  );
-  res.status(501).json(response);
-});
-
-// Update tenant (placeholder for Phase 2)
-tenantRoutes.put('/:tenantId', (req: Request, res: Response) => {
-  // TODO: Implement tenant update in Phase 2
-  const response = createApiError(
-    'Not implemented',
-    'Tenant updates will be implemented in Phase 2'
-  );
-  res.status(501).json(response);
-});
-
-// Delete tenant (placeholder for Phase 2)
-tenantRoutes.delete('/:tenantId', (req: Request, res: Response) => {
-  // TODO: Implement tenant deletion in Phase 2
-  const response = createApiError(
-    'Not implemented',
-    'Tenant deletion will be implemented in Phase 2'
-  );
-  res.status(501).json(response);
-});
-
-// List tenants (placeholder for Phase 2)
-tenantRoutes.get('/', (req: Request, res: Response) => {
-  // TODO: Implement tenant listing in Phase 2
-  const response = createApiError(
-    'Not implemented',
-    'Tenant listing will be implemented in Phase 2'
-  );
-  res.status(501).json(response);
-});
\ No newline at end of file
+// Apply authentication middleware to all routes
+tenantRoutes.use(authenticate);
+
+// Self-service: the caller's own tenant
+
+/**
+ * GET /api/tenants/current
+ * Get the current tenant's profile, settings and usage
+ * Requires: admin or manager role
+ */
+tenantRoutes.get('/current',
+  authorizeRoles(['admin', 'manager']),
+  TenantController.getTenant
+);
+
+/**
+ * PUT /api/tenants/current
+ * Update the current tenant's name and settings
+ * Requires: admin role
+ */
+tenantRoutes.put('/current',
+  authorizeRoles(['admin']),
+  TenantController.updateTenant
+);
+
+/**
+ * PUT /api/tenants/current/subscription
+ * Downgrade the current tenant's plan, or request an upgrade (202)
+ * Requires: admin role
+ */
+tenantRoutes.put('/current/subscription',
+  authorizeRoles(['admin']),
+  TenantController.changeSubscription
+);
+
+/**
+ * PUT /api/tenants/current/subdomain
+ * Rename the current tenant's subdomain
+ * Requires: admin role
+ */
+tenantRoutes.put('/current/subdomain',
+  authorizeRoles(['admin']),
+  TenantController.renameSubdomain
+);
+
+/**
+ * POST /api/tenants/current/deletion-request
+ * Get a confirmation token for deleting the current tenant
+ * Requires: admin role
+ */
+tenantRoutes.post('/current/deletion-request',
+  authorizeRoles(['admin']),
+  TenantController.requestDeletion
+);
+
+/**
+ * DELETE /api/tenants/current
+ * Back up and delete the current tenant
+ * Requires: admin role, confirmation token
+ */
+tenantRoutes.delete('/current',
+  authorizeRoles(['admin']),
+  TenantController.deleteTenant
+);
+
+// Platform administration: any tenant
+
+/**
+ * GET /api/tenants
+ * List tenants
+ * Requires: super admin
+ */
+tenantRoutes.get('/',
+  requireSuperAdmin,
+  TenantController.listTenants
+);
+
+/**
+ * POST /api/tenants
+ * Provision a tenant with its admin user
+ * Requires: super admin
+ */
+tenantRoutes.post('/',
+  requireSuperAdmin,
+  TenantController.createTenant
+);
+
+/**
+ * GET /api/tenants/plan-requests
+ * List subscription upgrade requests
+ * Requires: super admin
+ */
+tenantRoutes.get('/plan-requests',
+  requireSuperAdmin,
+  TenantController.listPlanRequests
+);
+
+/**
+ * POST /api/tenants/plan-requests/:requestId/review
+ * Approve (apply the plan) or reject an upgrade request
+ * Requires: super admin
+ */
+tenantRoutes.post('/plan-requests/:requestId/review',
+  requireSuperAdmin,
+  TenantController.reviewPlanRequest
+);
+
+/**
+ * GET /api/tenants/migrations
+ * Schema migration state of every tenant
+ * Requires: super admin
+ */
+tenantRoutes.get('/migrations',
+  requireSuperAdmin,
+  TenantMigrationController.listStatuses
+);
+
+/**
+ * POST /api/tenants/migrations/rollout
+ * Apply pending schema migrations across tenants (supports dry run)
+ * Requires: super admin
+ */
+tenantRoutes.post('/migrations/rollout',
+  requireSuperAdmin,
+  TenantMigrationController.rollout
+);
+
+/**
+ * GET /api/tenants/backups
+ * List backups across tenants
+ * Requires: super admin
+ */
+tenantRoutes.get('/backups',
+  requireSuperAdmin,
+  TenantBackupController.listBackups
+);
+
+/**
+ * GET /api/tenants/backups/:backupId
+ * Get a backup's details
+ * Requires: super admin
+ */
+tenantRoutes.get('/backups/:backupId',
+  requireSuperAdmin,
+  TenantBackupController.getBackup
+);
+
+/**
+ * GET /api/tenants/backups/:backupId/download
+ * Download a backup archive
+ * Requires: super admin
+ */
+tenantRoutes.get('/backups/:backupId/download',
+  requireSuperAdmin,
+  TenantBackupController.downloadBackup
+);
+
+/**
+ * POST /api/tenants/backups/:backupId/verify
+ * Check a backup's integrity and media without restoring it
+ * Requires: super admin
+ */
+tenantRoutes.post('/backups/:backupId/verify',
+  requireSuperAdmin,
+  TenantBackupController.verifyBackup
+);
+
+/**
+ * POST /api/tenants/backups/:backupId/restore
+ * Restore a backup into an existing tenant or a new one
+ * Requires: super admin
+ */
+tenantRoutes.post('/backups/:backupId/restore',
+  requireSuperAdmin,
+  TenantBackupController.restoreBackup
+);
+
+/**
+ * DELETE /api/tenants/backups/:backupId
+ * Delete a backup
+ * Requires: super admin
+ */
+tenantRoutes.delete('/backups/:backupId',
+  requireSuperAdmin,
+  TenantBackupController.deleteBackup
+);
+
+/**
+ * GET /api/tenants/:tenantId
+ * Get a tenant's profile, settings and usage
+ * Requires: super admin
+ */
+tenantRoutes.get('/:tenantId',
+  requireSuperAdmin,
+  TenantController.getTenant
+);
+
+/**
+ * PUT /api/tenants/:tenantId
+ * Update a tenant's name, settings, status and feature overrides
+ * Requires: super admin
+ */
+tenantRoutes.put('/:tenantId',
+  requireSuperAdmin,
+  TenantController.updateTenant
+);
+
+/**
+ * PUT /api/tenants/:tenantId/subscription
+ * Change a tenant's subscription tier
+ * Requires: super admin
+ */
+tenantRoutes.put('/:tenantId/subscription',
+  requireSuperAdmin,
+  TenantController.changeSubscription
+);
+
+/**
+ * PUT /api/tenants/:tenantId/subdomain
+ * Rename a tenant's subdomain
+ * Requires: super admin
+ */
+tenantRoutes.put('/:tenantId/subdomain',
+  requireSuperAdmin,
+  TenantController.renameSubdomain
+);
+
+/**
+ * POST /api/tenants/:tenantId/deletion-request
+ * Get a confirmation token for deleting a tenant
+ * Requires: super admin
+ */
+tenantRoutes.post('/:tenantId/deletion-request',
+  requireSuperAdmin,
+  TenantController.requestDeletion
+);
+
+/**
+ * DELETE /api/tenants/:tenantId
+ * Back up and delete a tenant
+ * Requires: super admin, confirmation token
+ */
+tenantRoutes.delete('/:tenantId',
+  requireSuperAdmin,
+  TenantController.deleteTenant
+);
+
+/**
+ * GET /api/tenants/:tenantId/migrations
+ * Schema migration state of a tenant
+ * Requires: super admin
+ */
+tenantRoutes.get('/:tenantId/migrations',
+  requireSuperAdmin,
+  TenantMigrationController.getTenantStatus
+);
+
+/**
+ * POST /api/tenants/:tenantId/migrations
+ * Apply a tenant's pending schema migrations (supports dry run)
+ * Requires: super admin
+ */
+tenantRoutes.post('/:tenantId/migrations',
+  requireSuperAdmin,
+  TenantMigrationController.migrateTenant
+);
+
+/**
+ * GET /api/tenants/:tenantId/backups
+ * List a tenant's backups
+ * Requires: super admin
+ */
+tenantRoutes.get('/:tenantId/backups',
+  requireSuperAdmin,
+  TenantBackupController.listBackups
+);
+
+/**
+ * POST /api/tenants/:tenantId/backups
+ * Back up a tenant now
+ * Requires: super admin
+ */
+tenantRoutes.post('/:tenantId/backups',
+  requireSuperAdmin,
+  TenantBackupController.createBackup
+);
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/webhookController';
+import { authenticate, authorizeRoles, extractTenant } from '../middleware/authMiddleware';
+import { attachDatabases } from '../lib/database';
+import { checkTenantFeatures } from '../middleware/tenantConnection';
+
+export const webhookRoutes = Router();
+
+// Apply authentication and database middleware to all routes
+webhookRoutes.use(authenticate);
+webhookRoutes.use(extractTenant);
+webhookRoutes.use(attachDatabases());
+
+/**
+ * GET /api/webhooks/events
+ * Get available webhook event types
+ * Requires: admin role
+ */
+webhookRoutes.get('/events',
+  authorizeRoles(['admin']),
+  WebhookController.getEventTypes
+);
+
+/**
+ * GET /api/webhooks/endpoints
+ * Get webhook endpoints
+ * Requires: admin role
+ */
+webhookRoutes.get('/endpoints',
+  authorizeRoles(['admin']),
+  WebhookController.getEndpoints
+);
+
+/**
+ * POST /api/webhooks/endpoints
+ * Create webhook endpoint
+ * Requires: admin role, plan with API access
+ */
+webhookRoutes.post('/endpoints',
+  authorizeRoles(['admin']),
+  checkTenantFeatures(['apiAccess']),
+  WebhookController.createEndpoint
+);
+
+/**
+ * PUT /api/webhooks/endpoints/:endpointId
+ * Update webhook endpoint (url, subscribed events, enable/disable)
+ * Requires: admin role, plan with API access
+ */
+webhookRoutes.put('/endpoints/:endpointId',
+  authorizeRoles(['admin']),
+  checkTenantFeatures(['apiAccess']),
+  WebhookController.updateEndpoint
+);
+
+/**
+ * DELETE /api/webhooks/endpoints/:endpointId
+ * Delete webhook endpoint and its delivery log
+ * Requires: admin role
+ */
+webhookRoutes.delete('/endpoints/:endpointId',
+  authorizeRoles(['admin']),
+  WebhookController.deleteEndpoint
+);
+
+/**
+ * GET /api/webhooks/deliveries
+ * Get webhook delivery log
+ * Requires: admin role
+ */
+webhookRoutes.get('/deliveries',
+  authorizeRoles(['admin']),
+  WebhookController.getDeliveries
+);
+
+/**
+ * POST /api/webhooks/deliveries/:deliveryId/replay
+ * Send a logged delivery again
+ * Requires: admin role, plan with API access
+ */
+webhookRoutes.post('/deliveries/:deliveryId/replay',
+  authorizeRoles(['admin']),
+  checkTenantFeatures(['apiAccess']),
+  WebhookController.replayDelivery
+);
@@ -1,7 +1,9 @@
 import { Router } from 'express';
+import { WorkflowController } from '../controllers/workflowController';
 import { WorkflowInstanceController } from '../controllers/workflowInstanceController';
 import { authenticate, authorizeRoles, extractTenant } from '../middleware/authMiddleware';
 import { attachDatabases } from '../lib/database';
+import { checkTenantFeatures } from '../middleware/tenantConnection';
 
 export const workflowRoutes = Router();
 
@@ -10,9 +12,91 @@ workflowRoutes.use(authenticate);
 workflowRoutes.use(extractTenant);
 workflowRoutes.use(attachDatabases());
 
+/**
+ * GET /api/workflows/definitions
+ * Get all workflow definitions with pagination and filtering
+ * Requires: coordinator, supervisor, manager, or admin role
+ */
+workflowRoutes.get('/definitions', 
+  authorizeRoles(['admin', 'manager', 'coordinator', 'supervisor']),
+  WorkflowController.getWorkflows
+);
+
+/**
+ * GET /api/workflows/stats
+ * Get workflow statistics
+ * Requires: manager or admin role
+ */
+workflowRoutes.get('/stats', 
+  authorizeRoles(['admin', 'manager']),
+  WorkflowController.getWorkflowStats
+);
+
+/**
+ * GET /api/workflows/sla/breaches
+ * Get SLA breach report (supports ?state=open|resolved, ?dateFrom, ?dateTo)
+ * Requires: supervisor, manager, or admin role
+ */
+workflowRoutes.get('/sla/breaches', 
+  authorizeRoles(['admin', 'manager', 'supervisor']),
+  WorkflowInstanceController.getSlaBreachReport
+);
+
+/**
+ * GET /api/workflows/definitions/:workflowId
+ * Get workflow definition by ID
+ * Requires: coordinator, supervisor, manager, or admin role
+ */
+workflowRoutes.get('/definitions/:workflowId', 
+  authorizeRoles(['admin', 'manager', 'coordinator', 'supervisor']),
+  WorkflowController.getWorkflowById
+);
+
+/**
+ * POST /api/workflows/definitions
+ * Create workflow definition
+ * Requires: manager or admin role, plan with custom workflows
+ */
+workflowRoutes.post('/definitions', 
+  authorizeRoles(['admin', 'manager']),
+  checkTenantFeatures(['customWorkflows']),
+  WorkflowController.createWorkflow
+);
+
+/**
+ * PUT /api/workflows/definitions/:workflowId
+ * Update workflow definition
+ * Requires: manager or admin role, plan with custom workflows
+ */
+workflowRoutes.put('/definitions/:workflowId', 
+  authorizeRoles(['admin', 'manager']),
+  checkTenantFeatures(['customWorkflows']),
+  WorkflowController.updateWorkflow
+);
+
+/**
+ * DELETE /api/workflows/definitions/:workflowId
+ * Delete workflow definition (deactivates it when instances exist)
+ * Requires: admin role
+ */
+workflowRoutes.delete('/definitions/:workflowId', 
+  authorizeRoles(['admin']),
+  WorkflowController.deleteWorkflow
+);
+
+/**
+ * POST /api/workflows/definitions/:workflowId/start
+ * Start a workflow instance at the definition's start stage
+ * Requires: coordinator, manager, or admin role
+ */
+workflowRoutes.post('/definitions/:workflowId/start', 
+  authorizeRoles(['admin', 'manager', 'coordinator']),
+  WorkflowController.startWorkflow
+);
+
 /**
  * GET /api/workflows/instances
- * Get all workflow instances with pagination and filtering
+ * Get all workflow instances with pagination and filtering (?overdue=true for SLA breaches)
  * Requires: coordinator, supervisor, manager, or admin role
  */
 workflowRoutes.get('/instances', 
@@ -50,6 +134,16 @@ workflowRoutes.put('/instances/:instanceId',
   WorkflowInstanceController.updateWorkflowInstance
 );
 
+/**
+ * POST /api/workflows/instances/:instanceId/advance
+ * Advance workflow instance to a next stage of its definition
+ * Requires: coordinator, supervisor, manager, or admin role
+ */
+workflowRoutes.post('/instances/:instanceId/advance', 
+  authorizeRoles(['admin', 'manager', 'coordinator', 'supervisor']),
+  WorkflowController.advanceWorkflow
+);
+
 /**
  * DELETE /api/workflows/instances/:instanceId
  * Cancel workflow instance
@@ -0,0 +1,65 @@
+/**
+ * Storage Provider Check Script
+ *
+ * Round-trips a small object through the configured storage provider:
+ * upload, existence check, signed URL download and delete. Point it at the
+ * bundled MinIO (docker compose --profile storage up) with
+ * STORAGE_PROVIDER=s3, AWS_S3_ENDPOINT=http://localhost:9000 and
+ * AWS_S3_FORCE_PATH_STYLE=true.
+ *
+ * Usage: npm run storage:check [-- <provider>]
+ */
+
+import 'dotenv/config';
+import { createStorageManager, StorageProviderName } from '../lib/storage';
+
+async function main(): Promise<void> {
+  const storageManager = createStorageManager(process.argv[2] as StorageProviderName | undefined);
+  const content = `storage check ${new Date().toISOString()}`;
+  const filePath = `storage-check/${Date.now()}.txt`;
+
+  console.log(`🗄️  Checking "${storageManager.providerName}" storage provider`);
+
+  const result = await storageManager.upload({
+    originalName: 'storage-check.txt',
+    fileName: 'storage-check.txt',
+    mimeType: 'text/plain',
+    size: Buffer.byteLength(content),
+    buffer: Buffer.from(content)
+  }, filePath);
+  console.log(`✅ Uploaded ${result.filePath} (${result.url})`);
+
+  if (!(await storageManager.exists(filePath))) {
+    throw new Error('Uploaded object was not found');
+  }
+  console.log('✅ Object exists');
+
+  const signedUrl = await storageManager.getSignedUrl(filePath, 300);
+  // Local files are only reachable through the running API, so skip the download there
+  if (storageManager.providerName !== 'local') {
+    const response = await fetch(signedUrl);
+    const body = await response.text();
+    if (!response.ok || body !== content) {
+      throw new Error(`Signed URL download failed with status ${response.status}`);
+    }
+    console.log('✅ Signed URL download matches');
+  } else {
+    console.log(`⚠️  Skipping download for local storage (${signedUrl})`);
+  }
+
+  await storageManager.delete(filePath);
+  if (await storageManager.exists(filePath)) {
+    throw new Error('Object still exists after delete');
+  }
+  console.log('✅ Object deleted');
+
+  console.log('\n🎉 Storage provider is working correctly.');
+}
+
+// Run check if this script is executed directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌ Storage check failed:', error);
+    process.exit(1);
+  });
+}
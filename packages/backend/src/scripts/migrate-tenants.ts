@@ -0,0 +1,80 @@
+/**
+ * Tenant Migration Script
+ *
+ * Shows the schema migration state of every tenant, or applies pending
+ * migrations to all tenants (one at a time; a failing tenant does not stop
+ * the others). Use --dry-run to run the pending migrations in transactions
+ * that are rolled back.
+ *
+ * Usage: npm run migrate:tenants -- [status] [--dry-run] [--tenant <tenantId>] [--max-failures <n>]
+ */
+
+import 'dotenv/config';
+import { masterDb } from '../lib/database';
+import { TenantMigrations } from '../lib/tenantMigrations';
+
+function getOption(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function printStatus(): Promise<void> {
+  const statuses = await TenantMigrations.getAllStatuses();
+  console.log(`📋 Latest tenant schema version: ${TenantMigrations.getLatestVersion()}\n`);
+
+  for (const status of statuses) {
+    const marker = status.upToDate ? '✅' : '⏳';
+    console.log(`${marker} ${status.subdomain} (${status.tenantStatus}): version ${status.currentVersion}/${status.latestVersion}`);
+
+    for (const entry of status.migrations.filter(migration => migration.state !== 'applied')) {
+      console.log(`     ${entry.state.padEnd(8)} ${entry.migrationName}${entry.error ? ` - ${entry.error}` : ''}`);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  if (process.argv.includes('status')) {
+    await printStatus();
+    return;
+  }
+
+  const dryRun = process.argv.includes('--dry-run');
+  const tenantId = getOption('--tenant');
+  const maxFailures = getOption('--max-failures');
+
+  console.log(`🔧 ${dryRun ? 'Dry run of' : 'Applying'} tenant migrations up to version ${TenantMigrations.getLatestVersion()}\n`);
+
+  const result = await TenantMigrations.migrateAll({
+    dryRun,
+    tenantIds: tenantId ? [tenantId] : undefined,
+    maxFailures: maxFailures ? Number(maxFailures) : undefined
+  });
+
+  for (const tenant of result.results) {
+    if (tenant.skipped) {
+      console.log(`⏭️  ${tenant.subdomain}: skipped (${tenant.error})`);
+    } else if (!tenant.success) {
+      console.log(`❌ ${tenant.subdomain}: ${tenant.error}`);
+    } else if (tenant.applied.length === 0) {
+      console.log(`✅ ${tenant.subdomain}: up to date`);
+    } else {
+      console.log(`✅ ${tenant.subdomain}: ${dryRun ? 'would apply' : 'applied'} ${tenant.applied.join(', ')}`);
+    }
+  }
+
+  console.log(`\n${result.succeeded} succeeded, ${result.failed} failed, ${result.skipped} skipped`);
+
+  if (result.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+// Run migrations if this script is executed directly
+if (require.main === module) {
+  main()
+    .catch((error) => {
+      console.error('❌ Tenant migration failed:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => masterDb.$disconnect());
+}
@@ -0,0 +1,54 @@
+/**
+ * Platform Admin Script
+ *
+ * Lists, grants or revokes platform (super) admin access. Access belongs to
+ * one user of one tenant; the user must already exist and be active.
+ *
+ * Usage: npm run platform:admins -- list
+ *        npm run platform:admins -- grant <subdomain> <email>
+ *        npm run platform:admins -- revoke <subdomain> <email>
+ */
+
+import 'dotenv/config';
+import { masterDb } from '../lib/database';
+import { PlatformAdmins } from '../lib/platformAdmins';
+
+async function main(): Promise<void> {
+  const [command, subdomain, email] = process.argv.slice(2);
+
+  if (command === 'list') {
+    const grants = await PlatformAdmins.list();
+    if (grants.length === 0) {
+      console.log('No platform admins granted');
+    }
+    for (const grant of grants) {
+      console.log(`👤 ${grant.email} (${grant.subdomain}) - granted by ${grant.grantedBy} on ${grant.createdAt.toISOString()}`);
+    }
+    return;
+  }
+
+  if ((command !== 'grant' && command !== 'revoke') || !subdomain || !email) {
+    console.error('Usage: platform-admins list | grant <subdomain> <email> | revoke <subdomain> <email>');
+    process.exitCode = 1;
+    return;
+  }
+
+  if (command === 'grant') {
+    const grant = await PlatformAdmins.grant(subdomain, email, 'cli');
+    console.log(`✅ ${grant.email} (${subdomain}) is a platform admin`);
+    return;
+  }
+
+  const revoked = await PlatformAdmins.revoke(subdomain, email);
+  console.log(revoked ? `✅ Revoked ${email} (${subdomain})` : `ℹ️  ${email} (${subdomain}) was not a platform admin`);
+}
+
+// Run if this script is executed directly
+if (require.main === module) {
+  main()
+    .catch((error) => {
+      console.error('❌ Platform admin command failed:', error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    })
+    .finally(() => masterDb.$disconnect());
+}
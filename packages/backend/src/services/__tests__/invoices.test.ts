@@ -0,0 +1,114 @@
+import type { Invoice } from '../../../packages/database/generated/tenant-client';
+import { issueInvoice, InvoiceError } from '../invoices';
+import { createTenantDb, TenantDb } from '../../__tests__/helpers/tenantDb';
+
+function seedDraft(db: TenantDb, customerName: string): Invoice {
+  const invoice = db.seed<Invoice>('invoice', { customerName, placeOfSupply: 'Karnataka' });
+  db.seed('invoiceItem', {
+    invoiceId: invoice.invoiceId,
+    lineNumber: 1,
+    description: 'Seat covers',
+    quantity: 1,
+    unitPrice: 1000,
+    taxRate: 18,
+    taxableValue: 0,
+    lineTotal: 0
+  });
+  return invoice;
+}
+
+describe('issueInvoice numbering', () => {
+  let db: TenantDb;
+
+  const numbers = () => db.rows<Invoice>('invoice')
+    .map(invoice => invoice.invoiceNumber)
+    .filter((number): number is string => number !== null)
+    .sort();
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    jest.setSystemTime(new Date('2026-05-10T10:00:00+05:30'));
+
+    db = createTenantDb();
+    db.seed('systemConfig', {
+      configCategory: 'organization',
+      configKey: 'company_info',
+      configValue: { companyName: 'Demo Motors', address: { state: 'Karnataka' }, gstDetails: { gstNumber: '29ABCDE1234F1Z5' } }
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('numbers invoices issued at the same time consecutively', async () => {
+    const drafts = ['A', 'B', 'C', 'D', 'E'].map(name => seedDraft(db, name));
+
+    const issued = await Promise.all(drafts.map(draft => issueInvoice(db.client, draft.invoiceId, 'user-1')));
+
+    expect(issued.every(invoice => invoice.status === 'issued')).toBe(true);
+    expect(numbers()).toEqual([
+      'INV/2026-27/0001',
+      'INV/2026-27/0002',
+      'INV/2026-27/0003',
+      'INV/2026-27/0004',
+      'INV/2026-27/0005'
+    ]);
+  });
+
+  it('gives the number of a failed issue to the next invoice', async () => {
+    const [failing, second, third] = ['A', 'B', 'C'].map(name => seedDraft(db, name));
+    jest.spyOn(db.client.invoiceItem, 'createMany').mockImplementation(async () => {
+      throw new Error('connection lost');
+    });
+
+    const results = await Promise.allSettled([
+      issueInvoice(db.client, failing.invoiceId, 'user-1').finally(() => jest.restoreAllMocks()),
+      issueInvoice(db.client, second.invoiceId, 'user-1'),
+      issueInvoice(db.client, third.invoiceId, 'user-1')
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'fulfilled', 'fulfilled']);
+    expect(numbers()).toEqual(['INV/2026-27/0001', 'INV/2026-27/0002']);
+    expect(db.rows<Invoice>('invoice').find(invoice => invoice.invoiceId === failing.invoiceId)).toMatchObject({
+      status: 'draft',
+      invoiceNumber: null
+    });
+  });
+
+  it('does not use up a number when a draft cannot be issued', async () => {
+    const empty = db.seed<Invoice>('invoice', { customerName: 'Empty' });
+    const draft = seedDraft(db, 'A');
+
+    await expect(issueInvoice(db.client, empty.invoiceId, 'user-1')).rejects.toBeInstanceOf(InvoiceError);
+    const issued = await issueInvoice(db.client, draft.invoiceId, 'user-1');
+
+    expect(issued.invoiceNumber).toBe('INV/2026-27/0001');
+  });
+
+  it('keeps a separate series for credit notes', async () => {
+    const draft = seedDraft(db, 'A');
+    const invoice = await issueInvoice(db.client, draft.invoiceId, 'user-1');
+    const creditNote = db.seed<Invoice>('invoice', {
+      customerName: 'A',
+      documentType: 'credit_note',
+      originalInvoiceId: invoice.invoiceId,
+      supplyType: invoice.supplyType
+    });
+    db.seed('invoiceItem', {
+      invoiceId: creditNote.invoiceId,
+      lineNumber: 1,
+      description: 'Seat covers returned',
+      unitPrice: 500,
+      taxRate: 18,
+      taxableValue: 0,
+      lineTotal: 0
+    });
+
+    const issued = await issueInvoice(db.client, creditNote.invoiceId, 'user-1');
+
+    expect(issued.invoiceNumber).toBe('CN/2026-27/0001');
+    expect(Number(issued.grandTotal)).toBe(590);
+  });
+});
@@ -0,0 +1,145 @@
+import type { Payment, PaymentTransaction, Vehicle } from '../../../packages/database/generated/tenant-client';
+import { PaymentService, PaymentLedgerError } from '../payment.service';
+import { createTenantDb, TenantDb } from '../../__tests__/helpers/tenantDb';
+
+describe('PaymentService ledger', () => {
+  let db: TenantDb;
+  let service: PaymentService;
+  let vehicle: Vehicle;
+
+  const payment = (paymentId: string) => db.rows<Payment>('payment').find(row => row.paymentId === paymentId)!;
+  const ledger = () => db.rows<PaymentTransaction>('paymentTransaction');
+  const balance = (paymentId: string) => {
+    const { amount, paidAmount, outstandingAmount, status } = payment(paymentId);
+    return { amount: Number(amount), paidAmount: Number(paidAmount), outstandingAmount: Number(outstandingAmount), status };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    jest.setSystemTime(new Date('2026-05-10T10:00:00+05:30'));
+
+    db = createTenantDb();
+    service = new PaymentService(db.client);
+    vehicle = db.seed<Vehicle>('vehicle', { carNumber: 'KA01AB1234', ownerName: 'Asha Rao' });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('records an amount paid up front as the first receipt', async () => {
+    const created = await service.createPayment({ vehicleId: vehicle.vehicleId, amount: 10000, paidAmount: 4000, paymentMethod: 'upi' });
+
+    expect(balance(created.paymentId)).toEqual({ amount: 10000, paidAmount: 4000, outstandingAmount: 6000, status: 'partial' });
+    expect(ledger()).toHaveLength(1);
+    expect(ledger()[0]).toMatchObject({ type: 'receipt', receiptNumber: 'RCPT/2026-27/0001', paymentMethod: 'upi' });
+    expect(created.vehicle).toMatchObject({ carNumber: 'KA01AB1234' });
+  });
+
+  it('marks the payable paid once receipts cover it and refuses to receive more', async () => {
+    const { paymentId } = await service.createPayment({ vehicleId: vehicle.vehicleId, amount: 10000 });
+
+    await service.recordTransaction(paymentId, { type: 'receipt', amount: 2500.5, paymentMethod: 'cash' });
+    const { transaction } = await service.recordTransaction(paymentId, { type: 'receipt', amount: 7499.5, paymentMethod: 'card' });
+
+    expect(transaction.receiptNumber).toBe('RCPT/2026-27/0002');
+    expect(balance(paymentId)).toEqual({ amount: 10000, paidAmount: 10000, outstandingAmount: 0, status: 'paid' });
+    expect(payment(paymentId).paymentMethod).toBe('card');
+
+    await expect(service.recordTransaction(paymentId, { type: 'receipt', amount: 1, paymentMethod: 'cash' }))
+      .rejects.toThrow(new PaymentLedgerError('Receipt exceeds the outstanding amount'));
+    expect(ledger()).toHaveLength(2);
+  });
+
+  it('lets only one of two concurrent receipts take the last of the balance', async () => {
+    const { paymentId } = await service.createPayment({ vehicleId: vehicle.vehicleId, amount: 5000 });
+
+    const results = await Promise.allSettled([
+      service.recordTransaction(paymentId, { type: 'receipt', amount: 5000, paymentMethod: 'cash' }),
+      service.recordTransaction(paymentId, { type: 'receipt', amount: 5000, paymentMethod: 'upi' })
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(balance(paymentId)).toMatchObject({ paidAmount: 5000, status: 'paid' });
+    expect(ledger().map(entry => entry.receiptNumber)).toEqual(['RCPT/2026-27/0001']);
+  });
+
+  it('numbers refunds in their own series and never refunds more than was received', async () => {
+    const { paymentId } = await service.createPayment({ vehicleId: vehicle.vehicleId, amount: 10000, paidAmount: 10000 });
+
+    const { transaction } = await service.recordTransaction(paymentId, { type: 'refund', amount: 1500, paymentMethod: 'bank_transfer' });
+
+    expect(transaction.receiptNumber).toBe('RFND/2026-27/0001');
+    expect(balance(paymentId)).toEqual({ amount: 10000, paidAmount: 8500, outstandingAmount: 1500, status: 'partial' });
+    await expect(service.recordTransaction(paymentId, { type: 'refund', amount: 9000, paymentMethod: 'cash' }))
+      .rejects.toThrow('Refund exceeds the amount received');
+  });
+
+  it('cancels a bounced cheque with a reversal, once', async () => {
+    const { paymentId } = await service.createPayment({ vehicleId: vehicle.vehicleId, amount: 10000, paidAmount: 3000 });
+    const { transaction: cheque } = await service.recordTransaction(paymentId, {
+      type: 'receipt',
+      amount: 7000,
+      paymentMethod: 'cheque',
+      referenceNumber: 'CHQ-118'
+    });
+
+    const { transaction: reversal } = await service.reverseTransaction(cheque.paymentTransactionId, { reason: 'Cheque bounced' });
+
+    expect(reversal).toMatchObject({ type: 'reversal', receiptNumber: 'REV/2026-27/0001', reversedTransactionId: cheque.paymentTransactionId });
+    expect(balance(paymentId)).toEqual({ amount: 10000, paidAmount: 3000, outstandingAmount: 7000, status: 'partial' });
+    // The payable shows the receipt that still stands
+    expect(payment(paymentId).paymentMethod).toBe('cash');
+
+    await expect(service.reverseTransaction(cheque.paymentTransactionId, { reason: 'Again' }))
+      .rejects.toMatchObject({ statusCode: 409, message: 'Transaction has already been reversed' });
+    await expect(service.reverseTransaction(reversal.paymentTransactionId, { reason: 'Undo' }))
+      .rejects.toThrow('Reversals cannot be reversed');
+  });
+
+  it('puts a reversed refund back into the amount received', async () => {
+    const { paymentId } = await service.createPayment({ vehicleId: vehicle.vehicleId, amount: 10000, paidAmount: 10000 });
+    const { transaction: refund } = await service.recordTransaction(paymentId, { type: 'refund', amount: 2000, paymentMethod: 'cash' });
+    const [receipt] = ledger();
+
+    await expect(service.reverseTransaction(receipt.paymentTransactionId, { reason: 'Wrong payable' }))
+      .rejects.toThrow('Reverse the refunds made from this receipt first');
+    await service.reverseTransaction(refund.paymentTransactionId, { reason: 'Refund not paid out' });
+
+    expect(balance(paymentId)).toMatchObject({ paidAmount: 10000, outstandingAmount: 0, status: 'paid' });
+  });
+
+  it('carries a paid amount recorded before the ledger over as an opening receipt', async () => {
+    const legacy = db.seed<Payment>('payment', {
+      vehicleId: vehicle.vehicleId,
+      amount: 8000,
+      paidAmount: 3000,
+      outstandingAmount: 5000,
+      status: 'partial',
+      paymentMethod: 'cash'
+    });
+
+    await service.recordTransaction(legacy.paymentId, { type: 'receipt', amount: 5000, paymentMethod: 'upi' });
+
+    expect(ledger().map(entry => [entry.receiptNumber, Number(entry.amount)])).toEqual([
+      ['RCPT/2026-27/0001', 3000],
+      ['RCPT/2026-27/0002', 5000]
+    ]);
+    expect(balance(legacy.paymentId)).toEqual({ amount: 8000, paidAmount: 8000, outstandingAmount: 0, status: 'paid' });
+  });
+
+  it('prints a receipt with the payable totals after that entry', async () => {
+    const { paymentId } = await service.createPayment({ vehicleId: vehicle.vehicleId, amount: 12000, paidAmount: 5000 });
+    const [receipt] = ledger();
+
+    const printable = await service.getTransactionForReceipt(receipt.paymentTransactionId);
+
+    expect(printable).toMatchObject({
+      receiptNumber: 'RCPT/2026-27/0001',
+      payment: { paymentId, vehicle: { carNumber: 'KA01AB1234', ownerName: 'Asha Rao' } }
+    });
+    expect(Number(printable!.amount)).toBe(5000);
+    expect(Number(printable!.payment.paidAmount)).toBe(5000);
+    expect(Number(printable!.payment.outstandingAmount)).toBe(7000);
+  });
+});
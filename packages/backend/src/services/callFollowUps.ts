@@ -0,0 +1,161 @@
+/**
+ * Call Follow-Up Reminders
+ *
+ * Periodically looks for open follow-up calls whose scheduled callback
+ * (`followUpAt`) is coming up within the reminder lead time and notifies the
+ * assigned user (or the operator when nobody is assigned). Each schedule is
+ * reminded once; rescheduling a call clears `reminderSentAt`.
+ */
+
+import type { CallFollowUp } from '../../packages/database/generated/tenant-client';
+import { masterDb, getTenantDb } from '../lib/database';
+import { notifyUsers } from '../lib/notifications';
+import { logger } from '../lib/logger';
+
+export interface FollowUpQueueWindow {
+  startOfToday: Date;
+  endOfToday: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Boundaries of "today" used for the due-today and overdue queues
+ */
+export function getFollowUpQueueWindow(now: Date = new Date()): FollowUpQueueWindow {
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+  const endOfToday = new Date(startOfToday);
+  endOfToday.setDate(endOfToday.getDate() + 1);
+
+  return { startOfToday, endOfToday };
+}
+
+export class CallFollowUpReminderJob {
+  private static readonly POLL_INTERVAL_MS = MINUTE_MS;
+  private static readonly DEFAULT_LEAD_MINUTES = 15;
+  private static readonly BATCH_SIZE = 100;
+  private static timer: NodeJS.Timeout | null = null;
+  private static isTicking = false;
+
+  /**
+   * Start polling for upcoming callbacks
+   */
+  static initialize(): void {
+    if (process.env.CALL_FOLLOW_UP_REMINDERS_ENABLED === 'false' || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Call follow-up reminder tick failed:', error));
+    }, this.POLL_INTERVAL_MS);
+    this.timer.unref();
+
+    logger.info('Call follow-up reminder job initialized');
+  }
+
+  /**
+   * Stop polling (used on shutdown)
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send due reminders across all active tenants
+   */
+  static async tick(now: Date = new Date()): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+
+    this.isTicking = true;
+    try {
+      const tenants = await masterDb.tenant.findMany({
+        where: { status: 'active' },
+        select: { subdomain: true }
+      });
+
+      for (const tenant of tenants) {
+        try {
+          await this.remindTenant(tenant.subdomain, now);
+        } catch (error) {
+          // One broken tenant must not block the others
+          logger.error(`Call follow-up reminders failed for tenant ${tenant.subdomain}:`, error);
+        }
+      }
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Notify the owners of open calls due within the lead time. Returns the number of reminders sent.
+   */
+  static async remindTenant(tenantId: string, now: Date = new Date()): Promise<number> {
+    const tenantDb = await getTenantDb(tenantId);
+    const remindBefore = new Date(now.getTime() + this.getLeadMinutes() * MINUTE_MS);
+
+    const calls: CallFollowUp[] = await tenantDb.callFollowUp.findMany({
+      where: {
+        status: { not: 'completed' },
+        followUpAt: { lte: remindBefore },
+        reminderSentAt: null,
+        OR: [
+          { assignedToId: { not: null } },
+          { operatorId: { not: null } }
+        ]
+      },
+      orderBy: { followUpAt: 'asc' },
+      take: this.BATCH_SIZE
+    });
+
+    let sent = 0;
+    for (const call of calls) {
+      try {
+        await this.sendReminder(tenantId, call, now);
+        // Guard on followUpAt so a reschedule made meanwhile still gets its reminder
+        await tenantDb.callFollowUp.updateMany({
+          where: { callId: call.callId, followUpAt: call.followUpAt },
+          data: { reminderSentAt: now }
+        });
+        sent++;
+      } catch (error) {
+        logger.error(`Call follow-up reminder failed for call ${call.callId}:`, error);
+      }
+    }
+
+    if (sent > 0) {
+      logger.info(`Sent ${sent} call follow-up reminder(s) for tenant ${tenantId}`);
+    }
+
+    return sent;
+  }
+
+  private static async sendReminder(tenantId: string, call: CallFollowUp, now: Date): Promise<void> {
+    const followUpAt = call.followUpAt!;
+    const overdue = followUpAt <= now;
+    const minutes = Math.round(Math.abs(followUpAt.getTime() - now.getTime()) / MINUTE_MS);
+    const when = overdue
+      ? `was due ${minutes > 0 ? `${minutes} min ago` : 'now'}`
+      : `is due in ${minutes} min`;
+
+    await notifyUsers(tenantId, {
+      recipientIds: [(call.assignedToId || call.operatorId)!],
+      type: overdue ? 'warning' : 'info',
+      title: overdue ? 'Follow-up call overdue' : 'Follow-up call due',
+      message: `Callback to ${call.callerName} (${call.phoneNumber}) ${when}`,
+      action: { label: 'View', url: '/tracker/call-follow-up' },
+      entityType: 'call_follow_up',
+      entityId: call.callId
+    });
+  }
+
+  private static getLeadMinutes(): number {
+    const minutes = Number(process.env.CALL_FOLLOW_UP_REMINDER_LEAD_MINUTES);
+    return Number.isFinite(minutes) && minutes >= 0 ? minutes : this.DEFAULT_LEAD_MINUTES;
+  }
+}
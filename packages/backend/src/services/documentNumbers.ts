@@ -0,0 +1,71 @@
+/**
+ * Document Numbers
+ *
+ * Gap-free, per-financial-year numbering shared by invoices, credit notes and
+ * payment receipts, plus the business settings that hold their prefixes.
+ */
+
+import type { Prisma, PrismaClient } from '../../packages/database/generated/tenant-client';
+
+export interface BusinessInvoiceSettings {
+  taxRate: number;
+  invoicePrefix: string;
+  creditNotePrefix: string;
+  receiptPrefix: string;
+  refundPrefix: string;
+  paymentTerms: string | null;
+}
+
+type TenantTransaction = Prisma.TransactionClient;
+
+/**
+ * Indian financial year label (April to March), e.g. 2025-26
+ */
+export function getFinancialYear(date: Date): string {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Allocate the next number of a per-financial-year document series inside the
+ * caller's transaction. The sequence row is locked by the increment, so
+ * concurrent allocations queue behind each other and a rolled-back
+ * transaction releases its number.
+ */
+export async function allocateDocumentNumber(
+  tx: TenantTransaction,
+  series: string,
+  prefix: string,
+  date: Date
+): Promise<string> {
+  const financialYear = getFinancialYear(date);
+  const sequence = await tx.invoiceSequence.upsert({
+    where: { sequenceKey: `${series}:${financialYear}` },
+    create: { sequenceKey: `${series}:${financialYear}`, lastNumber: 1 },
+    update: { lastNumber: { increment: 1 } }
+  });
+
+  return `${prefix}/${financialYear}/${String(sequence.lastNumber).padStart(4, '0')}`;
+}
+
+/**
+ * Invoicing and receipt business configuration with defaults applied
+ */
+export async function getBusinessInvoiceSettings(tenantDb: PrismaClient | TenantTransaction): Promise<BusinessInvoiceSettings> {
+  const configs = await tenantDb.systemConfig.findMany({
+    where: {
+      configCategory: 'business',
+      configKey: { in: ['taxRate', 'invoicePrefix', 'creditNotePrefix', 'receiptPrefix', 'refundPrefix', 'paymentTerms'] }
+    }
+  });
+  const values = Object.fromEntries(configs.map(config => [config.configKey, config.configValue as any]));
+
+  return {
+    taxRate: typeof values.taxRate === 'number' ? values.taxRate : 0,
+    invoicePrefix: values.invoicePrefix || 'INV',
+    creditNotePrefix: values.creditNotePrefix || 'CN',
+    receiptPrefix: values.receiptPrefix || 'RCPT',
+    refundPrefix: values.refundPrefix || 'RFND',
+    paymentTerms: values.paymentTerms || null
+  };
+}
@@ -0,0 +1,478 @@
+/**
+ * Invoices
+ *
+ * Tax calculation, gap-free numbering and seller snapshots for GST invoices
+ * and credit notes. Amounts are calculated in paise so line and document
+ * totals always reconcile; the grand total is rounded to the nearest rupee
+ * with the difference kept as `roundOff`.
+ */
+
+import type { Invoice, Prisma, PrismaClient } from '../../packages/database/generated/tenant-client';
+import { allocateDocumentNumber, getBusinessInvoiceSettings } from './documentNumbers';
+import { recalculatePaymentBalance } from './payment.service';
+
+export type InvoiceDocumentType = 'invoice' | 'credit_note';
+export type SupplyType = 'intra_state' | 'inter_state';
+
+export interface InvoiceLineInput {
+  productId?: string | null;
+  description: string;
+  hsnSac?: string | null;
+  quantity: number;
+  unitPrice: number;
+  discount?: number;
+  taxRate?: number | null;
+}
+
+export interface CalculatedInvoiceLine {
+  lineNumber: number;
+  productId: string | null;
+  description: string;
+  hsnSac: string | null;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  taxRate: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  lineTotal: number;
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  discountTotal: number;
+  cgstTotal: number;
+  sgstTotal: number;
+  igstTotal: number;
+  taxTotal: number;
+  roundOff: number;
+  grandTotal: number;
+}
+
+export interface InvoiceCalculation {
+  items: CalculatedInvoiceLine[];
+  totals: InvoiceTotals;
+}
+
+export interface SellerDetails {
+  companyName: string;
+  logo: string | null;
+  address: Record<string, any>;
+  contactInfo: Record<string, any>;
+  gstNumber: string | null;
+  panNumber: string | null;
+  bankAccount: Record<string, any> | null;
+  paymentQrCodes: Array<{ name: string; content: string; description?: string }>;
+}
+
+type TenantTransaction = Prisma.TransactionClient;
+
+export class InvoiceError extends Error {
+  public statusCode: number;
+  public details?: string[];
+
+  constructor(message: string, statusCode: number = 400, details?: string[]) {
+    super(message);
+    this.name = 'InvoiceError';
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+/**
+ * GST state codes (first two digits of a GSTIN)
+ */
+const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh'
+};
+
+const toPaise = (value: number): number => Math.round(value * 100);
+const toRupees = (paise: number): number => paise / 100;
+
+/**
+ * Resolve a state from a GSTIN prefix, falling back to a state name
+ */
+export function resolveState(gstin?: string | null, stateName?: string | null): string | null {
+  const code = gstin?.trim().slice(0, 2);
+  if (code && GST_STATE_CODES[code]) {
+    return GST_STATE_CODES[code];
+  }
+
+  const name = stateName?.trim();
+  return name ? name : null;
+}
+
+/**
+ * Intra-state supplies carry CGST + SGST, inter-state supplies carry IGST.
+ * When either side's state is unknown the supply is treated as intra-state.
+ */
+export function determineSupplyType(sellerState: string | null, placeOfSupply: string | null): SupplyType {
+  if (!sellerState || !placeOfSupply) {
+    return 'intra_state';
+  }
+
+  return sellerState.toLowerCase() === placeOfSupply.toLowerCase() ? 'intra_state' : 'inter_state';
+}
+
+/**
+ * Calculate line amounts and document totals
+ */
+export function calculateInvoice(
+  lines: InvoiceLineInput[],
+  supplyType: SupplyType,
+  defaultTaxRate: number
+): InvoiceCalculation {
+  let subtotal = 0;
+  let discountTotal = 0;
+  let taxableTotal = 0;
+  let cgstTotal = 0;
+  let sgstTotal = 0;
+  let igstTotal = 0;
+
+  const items = lines.map((line, index): CalculatedInvoiceLine => {
+    const taxRate = line.taxRate ?? defaultTaxRate;
+    const gross = Math.round(line.quantity * toPaise(line.unitPrice));
+    const discount = Math.min(toPaise(line.discount ?? 0), gross);
+    const taxable = gross - discount;
+
+    let cgst = 0;
+    let sgst = 0;
+    let igst = 0;
+    if (supplyType === 'inter_state') {
+      igst = Math.round(taxable * taxRate / 100);
+    } else {
+      cgst = Math.round(taxable * taxRate / 200);
+      sgst = cgst;
+    }
+
+    subtotal += gross;
+    discountTotal += discount;
+    taxableTotal += taxable;
+    cgstTotal += cgst;
+    sgstTotal += sgst;
+    igstTotal += igst;
+
+    return {
+      lineNumber: index + 1,
+      productId: line.productId ?? null,
+      description: line.description,
+      hsnSac: line.hsnSac ?? null,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      discount: toRupees(discount),
+      taxRate,
+      taxableValue: toRupees(taxable),
+      cgstAmount: toRupees(cgst),
+      sgstAmount: toRupees(sgst),
+      igstAmount: toRupees(igst),
+      lineTotal: toRupees(taxable + cgst + sgst + igst)
+    };
+  });
+
+  const taxTotal = cgstTotal + sgstTotal + igstTotal;
+  const beforeRounding = taxableTotal + taxTotal;
+  const grandTotal = Math.round(beforeRounding / 100) * 100;
+
+  return {
+    items,
+    totals: {
+      subtotal: toRupees(subtotal),
+      discountTotal: toRupees(discountTotal),
+      cgstTotal: toRupees(cgstTotal),
+      sgstTotal: toRupees(sgstTotal),
+      igstTotal: toRupees(igstTotal),
+      taxTotal: toRupees(taxTotal),
+      roundOff: toRupees(grandTotal - beforeRounding),
+      grandTotal: toRupees(grandTotal)
+    }
+  };
+}
+
+/**
+ * Due date from "Net N" style payment terms; "Due on receipt" is due on issue
+ */
+export function calculateDueDate(paymentTerms: string | null | undefined, issueDate: Date): Date | null {
+  if (!paymentTerms) {
+    return null;
+  }
+
+  const net = paymentTerms.match(/net\s*(\d+)/i);
+  if (net) {
+    const dueDate = new Date(issueDate);
+    dueDate.setDate(dueDate.getDate() + parseInt(net[1], 10));
+    return dueDate;
+  }
+
+  return /receipt|immediate/i.test(paymentTerms) ? new Date(issueDate) : null;
+}
+
+/**
+ * Snapshot of the organization printed on an issued document
+ */
+export async function getSellerDetails(tenantDb: PrismaClient | TenantTransaction): Promise<SellerDetails> {
+  const configs = await tenantDb.systemConfig.findMany({
+    where: {
+      configCategory: 'organization',
+      configKey: { in: ['company_info', 'bank_details', 'qr_codes'] }
+    }
+  });
+  const values = Object.fromEntries(configs.map(config => [config.configKey, config.configValue as any]));
+
+  const companyInfo = values.company_info || {};
+  const bankDetails: any[] = Array.isArray(values.bank_details) ? values.bank_details : [];
+  const qrCodes: any[] = Array.isArray(values.qr_codes) ? values.qr_codes : [];
+
+  const bankAccount = bankDetails.find(bank => bank.isDefault) || bankDetails[0] || null;
+
+  return {
+    companyName: companyInfo.companyName || '',
+    logo: companyInfo.logo || null,
+    address: companyInfo.address || {},
+    contactInfo: companyInfo.contactInfo || {},
+    gstNumber: companyInfo.gstDetails?.gstNumber || null,
+    panNumber: companyInfo.gstDetails?.panNumber || null,
+    bankAccount: bankAccount
+      ? {
+          bankName: bankAccount.bankName,
+          accountHolderName: bankAccount.accountHolderName,
+          accountNumber: bankAccount.accountNumber,
+          ifscCode: bankAccount.ifscCode,
+          branchName: bankAccount.branchName
+        }
+      : null,
+    paymentQrCodes: qrCodes
+      .filter(qr => qr.type === 'payment' && qr.isActive !== false && qr.content)
+      .map(qr => ({ name: qr.name, content: qr.content, description: qr.description }))
+  };
+}
+
+/**
+ * Draft invoice lines for a vehicle: installation records when present,
+ * otherwise the products captured on the vehicle order
+ */
+export async function buildVehicleInvoiceLines(
+  tenantDb: PrismaClient,
+  vehicle: { vehicleId: string; vehicleDetails: Prisma.JsonValue }
+): Promise<InvoiceLineInput[]> {
+  const installations = await tenantDb.installation.findMany({
+    where: { vehicleId: vehicle.vehicleId },
+    include: {
+      product: {
+        select: { productId: true, productName: true, brandName: true, price: true }
+      }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  if (installations.length > 0) {
+    return installations.map(installation => {
+      const quantity = installation.quantity > 0 ? installation.quantity : 1;
+      const unitPrice = installation.amount !== null
+        ? Math.round(Number(installation.amount) * 100 / quantity) / 100
+        : Number(installation.product?.price ?? 0);
+      const product = installation.product;
+
+      return {
+        productId: product?.productId ?? null,
+        description: product
+          ? [product.brandName, product.productName].filter(Boolean).join(' ')
+          : 'Installation',
+        quantity,
+        unitPrice
+      };
+    });
+  }
+
+  const details = (vehicle.vehicleDetails || {}) as Record<string, any>;
+  const products: any[] = Array.isArray(details.products) ? details.products : [];
+
+  return products
+    .filter(product => product?.productName)
+    .map(product => ({
+      description: [product.brandName, product.productName].filter(Boolean).join(' '),
+      quantity: 1,
+      unitPrice: Number(product.price) || 0
+    }));
+}
+
+/**
+ * Issue a draft: lock it, recalculate against the current seller details,
+ * allocate the next number and snapshot the seller. Invoices raise a payable
+ * for the vehicle; credit notes reduce the original invoice's payable and
+ * may never credit more than is left on the original.
+ */
+export async function issueInvoice(tenantDb: PrismaClient, invoiceId: string, userId: string): Promise<Invoice> {
+  const settings = await getBusinessInvoiceSettings(tenantDb);
+
+  return tenantDb.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "invoice_id" FROM "invoices" WHERE "invoice_id" = ${invoiceId} FOR UPDATE`;
+
+    const invoice = await tx.invoice.findUnique({
+      where: { invoiceId },
+      include: { items: { orderBy: { lineNumber: 'asc' } } }
+    });
+
+    if (!invoice) {
+      throw new InvoiceError('Invoice not found', 404);
+    }
+    if (invoice.status !== 'draft') {
+      throw new InvoiceError('Invoice has already been issued and cannot be changed', 409);
+    }
+    if (invoice.items.length === 0) {
+      throw new InvoiceError('Invoice has no line items');
+    }
+
+    const seller = await getSellerDetails(tx);
+    const isCreditNote = invoice.documentType === 'credit_note';
+    const supplyType = isCreditNote
+      ? invoice.supplyType as SupplyType
+      : determineSupplyType(resolveState(seller.gstNumber, seller.address.state), invoice.placeOfSupply);
+
+    const { items, totals } = calculateInvoice(
+      invoice.items.map(item => ({
+        productId: item.productId,
+        description: item.description,
+        hsnSac: item.hsnSac,
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unitPrice),
+        discount: Number(item.discount),
+        taxRate: Number(item.taxRate)
+      })),
+      supplyType,
+      settings.taxRate
+    );
+
+    if (totals.grandTotal <= 0) {
+      throw new InvoiceError('Invoice total must be greater than zero');
+    }
+
+    const issueDate = new Date();
+    let paymentId = invoice.paymentId;
+    let dueDate: Date | null = null;
+
+    if (isCreditNote) {
+      if (!invoice.originalInvoiceId) {
+        throw new InvoiceError('Credit note is not linked to an invoice');
+      }
+
+      await tx.$queryRaw`SELECT "invoice_id" FROM "invoices" WHERE "invoice_id" = ${invoice.originalInvoiceId} FOR UPDATE`;
+      const original = await tx.invoice.findUnique({ where: { invoiceId: invoice.originalInvoiceId } });
+      if (!original || original.status !== 'issued' || original.documentType !== 'invoice') {
+        throw new InvoiceError('Credit notes can only be issued against an issued invoice', 409);
+      }
+
+      const credited = await tx.invoice.aggregate({
+        where: { originalInvoiceId: original.invoiceId, documentType: 'credit_note', status: 'issued' },
+        _sum: { grandTotal: true }
+      });
+      const alreadyCredited = Number(credited._sum.grandTotal ?? 0);
+      const remaining = Number(original.grandTotal) - alreadyCredited;
+      if (totals.grandTotal > remaining) {
+        throw new InvoiceError('Credit note exceeds the remaining value of the invoice', 409, [
+          `Invoice total: ${Number(original.grandTotal).toFixed(2)}`,
+          `Already credited: ${alreadyCredited.toFixed(2)}`,
+          `Remaining: ${remaining.toFixed(2)}`
+        ]);
+      }
+
+      if (original.paymentId) {
+        const payment = await tx.payment.findUnique({ where: { paymentId: original.paymentId } });
+        if (payment) {
+          await tx.payment.update({
+            where: { paymentId: payment.paymentId },
+            data: { amount: Math.max(0, Math.round((Number(payment.amount) - totals.grandTotal) * 100) / 100) }
+          });
+          await recalculatePaymentBalance(tx, payment.paymentId);
+        }
+      }
+    }
+
+    const invoiceNumber = await allocateDocumentNumber(
+      tx,
+      invoice.documentType as InvoiceDocumentType,
+      isCreditNote ? settings.creditNotePrefix : settings.invoicePrefix,
+      issueDate
+    );
+
+    if (!isCreditNote) {
+      const paymentTerms = invoice.paymentTerms ?? settings.paymentTerms;
+      dueDate = calculateDueDate(paymentTerms, issueDate);
+
+      if (invoice.vehicleId) {
+        const payment = await tx.payment.create({
+          data: {
+            vehicleId: invoice.vehicleId,
+            amount: totals.grandTotal,
+            outstandingAmount: totals.grandTotal,
+            status: 'pending',
+            dueDate,
+            invoiceNumber,
+            workflowStage: 'invoice',
+            notes: `Raised by invoice ${invoiceNumber}`,
+            createdBy: userId
+          }
+        });
+        paymentId = payment.paymentId;
+      }
+    }
+
+    await tx.invoiceItem.deleteMany({ where: { invoiceId } });
+    await tx.invoiceItem.createMany({
+      data: items.map(item => ({ ...item, invoiceId }))
+    });
+
+    return tx.invoice.update({
+      where: { invoiceId },
+      data: {
+        ...totals,
+        supplyType,
+        status: 'issued',
+        invoiceNumber,
+        issueDate,
+        issuedAt: issueDate,
+        issuedBy: userId,
+        dueDate,
+        paymentTerms: isCreditNote ? null : invoice.paymentTerms ?? settings.paymentTerms,
+        paymentId,
+        sellerDetails: seller as unknown as Prisma.InputJsonValue
+      }
+    });
+  });
+}
@@ -0,0 +1,346 @@
+/**
+ * Media Storage Cleanup
+ *
+ * Periodically purges the storage objects of media soft-deleted longer ago
+ * than the tenant's grace period (`storage.mediaRetentionDays`), then
+ * reconciles the tenant's storage prefix against MediaFile rows to find
+ * orphaned objects and rows whose object has gone missing. Every run is
+ * recorded in media_cleanup_runs so reclaimed space can be reported.
+ */
+
+import type { MediaCleanupRun, MediaFile } from '../../packages/database/generated/tenant-client';
+import { masterDb, getTenantDb } from '../lib/database';
+import { createStorageManager, StorageManager, StorageProviderName } from '../lib/storage';
+import { logger } from '../lib/logger';
+
+export interface MediaStorageSummary {
+  usedBytes: number;
+  pendingPurgeBytes: number;
+  reclaimedBytes: number;
+  lastCleanupAt: Date | null;
+  lastRun: MediaCleanupRun | null;
+}
+
+interface CleanupSettings {
+  retentionDays: number;
+  purgeOrphans: boolean;
+}
+
+type StoredMediaFile = Pick<MediaFile, 'fileId' | 'filePath' | 'fileSize' | 'variants' | 'storageProvider' | 'deletedAt'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Top-level folders StorageManager.generateFilePath puts media under
+const MEDIA_ENTITY_TYPES = ['vehicle', 'installation', 'user', 'location'];
+
+export class MediaCleanupJob {
+  private static readonly POLL_INTERVAL_MS = 6 * 60 * 60 * 1000;
+  private static readonly DEFAULT_RETENTION_DAYS = 30;
+  private static readonly ORPHAN_MIN_AGE_MS = DAY_MS; // Leave in-flight uploads alone
+  private static readonly PURGE_BATCH_SIZE = 200;
+  private static readonly MAX_RECORDED_IDS = 100;
+  private static timer: NodeJS.Timeout | null = null;
+  private static isTicking = false;
+
+  /**
+   * Start periodic cleanup
+   */
+  static initialize(): void {
+    if (process.env.MEDIA_CLEANUP_ENABLED === 'false' || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Media cleanup tick failed:', error));
+    }, this.POLL_INTERVAL_MS);
+    this.timer.unref();
+
+    logger.info('Media cleanup job initialized');
+  }
+
+  /**
+   * Stop periodic cleanup (used on shutdown)
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Clean up media storage across all active tenants
+   */
+  static async tick(now: Date = new Date()): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+
+    this.isTicking = true;
+    try {
+      const tenants = await masterDb.tenant.findMany({
+        where: { status: 'active' },
+        select: { subdomain: true }
+      });
+
+      for (const tenant of tenants) {
+        try {
+          await this.cleanupTenant(tenant.subdomain, now);
+        } catch (error) {
+          // One broken tenant must not block the others
+          logger.error(`Media cleanup failed for tenant ${tenant.subdomain}:`, error);
+        }
+      }
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Purge expired soft-deleted media and reconcile storage for a single tenant
+   */
+  static async cleanupTenant(tenantId: string, now: Date = new Date()): Promise<MediaCleanupRun> {
+    const tenantDb = await getTenantDb(tenantId);
+    const settings = await this.getSettings(tenantDb);
+    const storageManager = createStorageManager();
+    const errors: string[] = [];
+
+    const run: MediaCleanupRun = await tenantDb.mediaCleanupRun.create({
+      data: {
+        storageProvider: storageManager.providerName,
+        retentionDays: settings.retentionDays,
+        startedAt: now
+      }
+    });
+
+    const purged = await this.purgeDeletedMedia(
+      tenantDb,
+      new Date(now.getTime() - settings.retentionDays * DAY_MS),
+      errors
+    );
+    const reconciled = await this.reconcileStorage(tenantId, tenantDb, storageManager, now, settings.purgeOrphans, errors);
+
+    const completedRun: MediaCleanupRun = await tenantDb.mediaCleanupRun.update({
+      where: { runId: run.runId },
+      data: {
+        purgedFiles: purged.files,
+        purgedBytes: BigInt(purged.bytes),
+        orphanedObjects: reconciled.orphanedObjects,
+        orphanedBytes: BigInt(reconciled.orphanedBytes),
+        orphansDeleted: reconciled.orphansDeleted,
+        missingObjects: reconciled.missingFileIds.length,
+        missingFileIds: reconciled.missingFileIds.slice(0, this.MAX_RECORDED_IDS),
+        errors: errors.slice(0, this.MAX_RECORDED_IDS),
+        finishedAt: new Date()
+      }
+    });
+
+    if (purged.files > 0 || reconciled.orphanedObjects > 0 || reconciled.missingFileIds.length > 0) {
+      logger.info(`Media cleanup for tenant ${tenantId}`, {
+        purgedFiles: purged.files,
+        purgedBytes: purged.bytes,
+        orphanedObjects: reconciled.orphanedObjects,
+        orphansDeleted: reconciled.orphansDeleted,
+        missingObjects: reconciled.missingFileIds.length,
+        errors: errors.length
+      });
+    }
+
+    return completedRun;
+  }
+
+  /**
+   * Bytes held by live and soft-deleted media, and bytes reclaimed by cleanup runs
+   */
+  static async getStorageSummary(tenantDb: any): Promise<MediaStorageSummary> {
+    const [used, pendingPurge, reclaimed, lastRun] = await Promise.all([
+      tenantDb.mediaFile.aggregate({
+        where: { deletedAt: null },
+        _sum: { fileSize: true }
+      }),
+      tenantDb.mediaFile.aggregate({
+        where: { deletedAt: { not: null } },
+        _sum: { fileSize: true }
+      }),
+      Promise.all([
+        tenantDb.mediaCleanupRun.aggregate({ _sum: { purgedBytes: true } }),
+        tenantDb.mediaCleanupRun.aggregate({
+          where: { orphansDeleted: true },
+          _sum: { orphanedBytes: true }
+        })
+      ]),
+      tenantDb.mediaCleanupRun.findFirst({
+        where: { finishedAt: { not: null } },
+        orderBy: { startedAt: 'desc' }
+      })
+    ]);
+
+    return {
+      usedBytes: Number(used._sum.fileSize || 0),
+      pendingPurgeBytes: Number(pendingPurge._sum.fileSize || 0),
+      reclaimedBytes: Number(reclaimed[0]._sum.purgedBytes || 0) + Number(reclaimed[1]._sum.orphanedBytes || 0),
+      lastCleanupAt: lastRun?.finishedAt || null,
+      lastRun
+    };
+  }
+
+  /**
+   * Delete storage objects of media soft-deleted before the cutoff, then the rows.
+   * Rows are kept when an object could not be deleted so the next run retries.
+   */
+  private static async purgeDeletedMedia(
+    tenantDb: any,
+    cutoff: Date,
+    errors: string[]
+  ): Promise<{ files: number; bytes: number }> {
+    const managers = new Map<string, StorageManager>();
+    const failedIds: string[] = [];
+    let files = 0;
+    let bytes = 0;
+
+    for (;;) {
+      const batch: StoredMediaFile[] = await tenantDb.mediaFile.findMany({
+        where: {
+          deletedAt: { lt: cutoff },
+          fileId: { notIn: failedIds }
+        },
+        select: { fileId: true, filePath: true, fileSize: true, variants: true, storageProvider: true, deletedAt: true },
+        orderBy: { deletedAt: 'asc' },
+        take: this.PURGE_BATCH_SIZE
+      });
+
+      for (const file of batch) {
+        try {
+          let manager = managers.get(file.storageProvider);
+          if (!manager) {
+            manager = createStorageManager(file.storageProvider as StorageProviderName);
+            managers.set(file.storageProvider, manager);
+          }
+
+          const objects = this.getStoredObjects(file);
+          for (const filePath of objects.keys()) {
+            await manager.delete(filePath);
+          }
+
+          await tenantDb.mediaFile.delete({ where: { fileId: file.fileId } });
+          files++;
+          bytes += [...objects.values()].reduce((total, size) => total + size, 0);
+        } catch (error) {
+          failedIds.push(file.fileId);
+          errors.push(`purge ${file.fileId}: ${error instanceof Error ? error.message : 'unknown error'}`);
+        }
+      }
+
+      if (batch.length < this.PURGE_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    return { files, bytes };
+  }
+
+  /**
+   * Compare the tenant's media folders in storage with MediaFile rows
+   */
+  private static async reconcileStorage(
+    tenantId: string,
+    tenantDb: any,
+    storageManager: StorageManager,
+    now: Date,
+    purgeOrphans: boolean,
+    errors: string[]
+  ): Promise<{ orphanedObjects: number; orphanedBytes: number; orphansDeleted: boolean; missingFileIds: string[] }> {
+    const result = { orphanedObjects: 0, orphanedBytes: 0, orphansDeleted: false, missingFileIds: [] as string[] };
+
+    if (!storageManager.supportsListing) {
+      return result;
+    }
+
+    const storedObjects = (await Promise.all(
+      MEDIA_ENTITY_TYPES.map(entityType => storageManager.list(`${tenantId}/${entityType}/`))
+    )).flat();
+    const storedPaths = new Set(storedObjects.map(object => object.filePath));
+
+    // Soft-deleted rows still reference their objects until they are purged
+    const files: StoredMediaFile[] = await tenantDb.mediaFile.findMany({
+      select: { fileId: true, filePath: true, fileSize: true, variants: true, storageProvider: true, deletedAt: true }
+    });
+
+    const knownPaths = new Set<string>();
+    for (const file of files) {
+      for (const filePath of this.getStoredObjects(file).keys()) {
+        knownPaths.add(filePath);
+      }
+
+      // Files uploaded before a subdomain rename live under the former prefix, which isn't listed
+      if (!file.deletedAt && file.storageProvider === storageManager.providerName &&
+          file.filePath.startsWith(`${tenantId}/`) && !storedPaths.has(file.filePath)) {
+        result.missingFileIds.push(file.fileId);
+      }
+    }
+
+    const orphans = storedObjects.filter(object =>
+      !knownPaths.has(object.filePath) &&
+      now.getTime() - object.lastModified.getTime() >= this.ORPHAN_MIN_AGE_MS
+    );
+
+    result.orphanedObjects = orphans.length;
+    result.orphanedBytes = orphans.reduce((total, object) => total + object.size, 0);
+
+    if (purgeOrphans && orphans.length > 0) {
+      let deletedBytes = 0;
+      for (const orphan of orphans) {
+        try {
+          await storageManager.delete(orphan.filePath);
+          deletedBytes += orphan.size;
+        } catch (error) {
+          errors.push(`orphan ${orphan.filePath}: ${error instanceof Error ? error.message : 'unknown error'}`);
+        }
+      }
+      // Report what was actually reclaimed
+      result.orphansDeleted = true;
+      result.orphanedBytes = deletedBytes;
+    }
+
+    if (result.missingFileIds.length > 0) {
+      logger.warn(`${result.missingFileIds.length} media file(s) of tenant ${tenantId} have no object in storage`, {
+        fileIds: result.missingFileIds.slice(0, 10)
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Storage paths of a media file and its variants with their sizes
+   */
+  private static getStoredObjects(file: StoredMediaFile): Map<string, number> {
+    const objects = new Map<string, number>([[file.filePath, Number(file.fileSize)]]);
+
+    const variants = (file.variants || {}) as Record<string, { filePath?: string; size?: number }>;
+    for (const variant of Object.values(variants)) {
+      if (variant?.filePath && !objects.has(variant.filePath)) {
+        objects.set(variant.filePath, Number(variant.size) || 0);
+      }
+    }
+
+    return objects;
+  }
+
+  private static async getSettings(tenantDb: any): Promise<CleanupSettings> {
+    const settings = await tenantDb.systemConfig.findMany({
+      where: {
+        configCategory: 'storage',
+        configKey: { in: ['mediaRetentionDays', 'purgeOrphanedMedia'] }
+      }
+    });
+    const values = new Map<string, unknown>(settings.map((setting: any) => [setting.configKey, setting.configValue]));
+
+    const retentionDays = Number(values.get('mediaRetentionDays') ?? process.env.MEDIA_RETENTION_DAYS ?? this.DEFAULT_RETENTION_DAYS);
+
+    return {
+      retentionDays: Number.isFinite(retentionDays) && retentionDays >= 0 ? Math.floor(retentionDays) : this.DEFAULT_RETENTION_DAYS,
+      purgeOrphans: values.get('purgeOrphanedMedia') !== false
+    };
+  }
+}
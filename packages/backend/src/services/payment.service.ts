@@ -1,5 +1,15 @@
-import { PrismaClient } from '@prisma/client';
+import type { Prisma, PrismaClient } from '../../packages/database/generated/tenant-client';
 import { Decimal } from '@prisma/client/runtime/library';
+import { allocateDocumentNumber, getBusinessInvoiceSettings } from './documentNumbers';
+import { withScope } from '../lib/permissions';
+
+export const PAYMENT_TRANSACTION_TYPES = ['receipt', 'refund', 'reversal'] as const;
+export const PAYMENT_METHODS = ['cash', 'card', 'bank_transfer', 'cheque', 'upi', 'online'] as const;
+
+export type PaymentTransactionType = typeof PAYMENT_TRANSACTION_TYPES[number];
+
+// Row-level filter from the caller's permission conditions (see buildPaymentScope)
+export type PaymentScope = Prisma.PaymentWhereInput | null;
 
 export interface CreatePaymentRequest {
   vehicleId: string;
@@ -9,8 +19,8 @@ export interface CreatePaymentRequest {
   transactionId?: string;
   referenceNumber?: string;
   bankDetails?: any;
-  paymentDate?: Date;
-  dueDate?: Date;
+  paymentDate?: string;
+  dueDate?: string;
   notes?: string;
   invoiceNumber?: string;
   workflowStage?: string;
@@ -24,12 +34,188 @@ export interface UpdatePaymentRequest {
   transactionId?: string;
   referenceNumber?: string;
   bankDetails?: any;
-  paymentDate?: Date;
-  dueDate?: Date;
+  paymentDate?: string;
+  dueDate?: string;
   status?: string;
   notes?: string;
   invoiceNumber?: string;
   workflowStage?: string;
+  updatedBy?: string;
+}
+
+export interface RecordTransactionRequest {
+  type: Exclude<PaymentTransactionType, 'reversal'>;
+  amount: number;
+  paymentMethod: string;
+  referenceNumber?: string | null;
+  transactionDate?: Date;
+  collectedBy?: string | null;
+  notes?: string | null;
+  createdBy?: string;
+}
+
+export const AGEING_BUCKETS = ['current', '0-30', '31-60', '61-90', '90+'] as const;
+
+export type AgeingBucket = typeof AGEING_BUCKETS[number];
+
+export type AgeingTotals = Record<AgeingBucket, number> & { total: number; count: number };
+
+export interface AgeingGroup extends AgeingTotals {
+  id: string | null;
+  name: string;
+}
+
+export interface AgeingReport {
+  asOf: string;
+  totals: AgeingTotals;
+  byLocation: AgeingGroup[];
+  bySalesperson: AgeingGroup[];
+}
+
+export class PaymentLedgerError extends Error {
+  public statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'PaymentLedgerError';
+    this.statusCode = statusCode;
+  }
+}
+
+type TenantTransaction = Prisma.TransactionClient;
+
+interface LedgerEntry {
+  paymentTransactionId: string;
+  type: string;
+  amount: Decimal | Prisma.Decimal;
+  reversedTransactionId: string | null;
+}
+
+const vehicleSummarySelect = {
+  carNumber: true,
+  ownerName: true,
+  modelName: true,
+  brandName: true,
+};
+
+const userSummarySelect = {
+  userId: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days a due date lies before `asOf` (negative while not yet due), by calendar day
+ */
+export function getDaysPastDue(dueDate: Date, asOf: Date = new Date()): number {
+  const due = new Date(dueDate);
+  due.setHours(0, 0, 0, 0);
+  const today = new Date(asOf);
+  today.setHours(0, 0, 0, 0);
+  return Math.round((today.getTime() - due.getTime()) / DAY_MS);
+}
+
+export function getAgeingBucket(daysPastDue: number): AgeingBucket {
+  if (daysPastDue < 0) return 'current';
+  if (daysPastDue <= 30) return '0-30';
+  if (daysPastDue <= 60) return '31-60';
+  if (daysPastDue <= 90) return '61-90';
+  return '90+';
+}
+
+const emptyAgeingTotals = (): AgeingTotals => ({
+  current: 0,
+  '0-30': 0,
+  '31-60': 0,
+  '61-90': 0,
+  '90+': 0,
+  total: 0,
+  count: 0
+});
+
+// Reversals are numbered in their own series with a fixed prefix
+const REVERSAL_PREFIX = 'REV';
+
+/**
+ * Convert a date-only or ISO string into a Date
+ */
+function parseDateInput(value: string | Date): Date {
+  if (value instanceof Date) return value;
+  return new Date(value + (value.includes('T') ? '' : 'T00:00:00.000Z'));
+}
+
+/**
+ * Derive payable status from amount and paid. `overdue` is kept while money is outstanding.
+ */
+export function derivePaymentStatus(amount: Decimal | number, paidAmount: Decimal | number, currentStatus?: string): string {
+  const total = new Decimal(amount);
+  const paid = new Decimal(paidAmount);
+
+  if (paid.greaterThanOrEqualTo(total) && total.greaterThan(0)) return 'paid';
+  if (currentStatus === 'overdue') return 'overdue';
+  if (paid.lessThanOrEqualTo(0)) return 'pending';
+  return 'partial';
+}
+
+/**
+ * Net amount received: receipts in, refunds out, and each reversal cancels the entry it points at
+ */
+export function sumLedger(entries: LedgerEntry[]): Decimal {
+  const byId = new Map(entries.map(entry => [entry.paymentTransactionId, entry]));
+
+  return entries.reduce((total, entry) => {
+    const amount = new Decimal(entry.amount.toString());
+    if (entry.type === 'receipt') return total.plus(amount);
+    if (entry.type === 'refund') return total.minus(amount);
+
+    const reversed = entry.reversedTransactionId ? byId.get(entry.reversedTransactionId) : undefined;
+    return reversed?.type === 'refund' ? total.plus(amount) : total.minus(amount);
+  }, new Decimal(0));
+}
+
+/**
+ * Recompute paidAmount, outstandingAmount and status of a payable from its ledger.
+ * The latest standing receipt is mirrored onto the payable for older screens and reports.
+ */
+export async function recalculatePaymentBalance(tx: TenantTransaction, paymentId: string) {
+  const payment = await tx.payment.findUnique({ where: { paymentId } });
+  if (!payment) {
+    throw new PaymentLedgerError('Payment not found', 404);
+  }
+
+  const entries = await tx.paymentTransaction.findMany({
+    where: { paymentId },
+    orderBy: [{ transactionDate: 'asc' }, { createdAt: 'asc' }]
+  });
+
+  const paidAmount = sumLedger(entries);
+  const amount = new Decimal(payment.amount.toString());
+  const outstanding = amount.minus(paidAmount);
+
+  const reversedIds = new Set(entries.map(entry => entry.reversedTransactionId).filter(Boolean));
+  const latestReceipt = [...entries]
+    .reverse()
+    .find(entry => entry.type === 'receipt' && !reversedIds.has(entry.paymentTransactionId));
+
+  return tx.payment.update({
+    where: { paymentId },
+    data: {
+      paidAmount,
+      outstandingAmount: outstanding.greaterThan(0) ? outstanding : new Decimal(0),
+      status: derivePaymentStatus(amount, paidAmount, payment.status),
+      ...(latestReceipt && {
+        paymentMethod: latestReceipt.paymentMethod,
+        referenceNumber: latestReceipt.referenceNumber,
+        paymentDate: latestReceipt.transactionDate
+      })
+    },
+    include: {
+      vehicle: { select: vehicleSummarySelect }
+    }
+  });
 }
 
 export class PaymentService {
@@ -38,28 +224,18 @@ export class PaymentService {
   async createPayment(data: CreatePaymentRequest) {
     const amount = new Decimal(data.amount);
     const paidAmount = new Decimal(data.paidAmount || 0);
-    const outstandingAmount = amount.minus(paidAmount);
-    
-    let status = 'pending';
-    if (paidAmount.equals(0)) {
-      status = 'pending';
-    } else if (paidAmount.greaterThanOrEqualTo(amount)) {
-      status = 'paid';
-    } else {
-      status = 'partial';
-    }
 
     // Prepare create data with proper date handling
     const createData: any = {
       vehicleId: data.vehicleId,
       amount,
-      paidAmount,
-      outstandingAmount,
+      paidAmount: 0,
+      outstandingAmount: amount,
       paymentMethod: data.paymentMethod,
       transactionId: data.transactionId,
       referenceNumber: data.referenceNumber,
       bankDetails: data.bankDetails || {},
-      status,
+      status: 'pending',
       notes: data.notes,
       invoiceNumber: data.invoiceNumber,
       workflowStage: data.workflowStage,
@@ -68,102 +244,198 @@ export class PaymentService {
 
     // Handle date fields - convert string dates to DateTime if provided
     if (data.paymentDate) {
-      createData.paymentDate = new Date(data.paymentDate + (data.paymentDate.includes('T') ? '' : 'T00:00:00.000Z'));
+      createData.paymentDate = parseDateInput(data.paymentDate);
     }
     if (data.dueDate) {
-      createData.dueDate = new Date(data.dueDate + (data.dueDate.includes('T') ? '' : 'T00:00:00.000Z'));
+      createData.dueDate = parseDateInput(data.dueDate);
     }
 
-    return await this.prisma.payment.create({
-      data: createData,
-      include: {
-        vehicle: {
-          select: {
-            carNumber: true,
-            ownerName: true,
-            modelName: true,
-            brandName: true,
-          }
-        }
+    return await this.prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.create({ data: createData });
+
+      // An amount received up front is recorded as the first receipt
+      if (paidAmount.greaterThan(0)) {
+        await this.addLedgerEntry(tx, payment.paymentId, {
+          type: 'receipt',
+          amount: paidAmount.toNumber(),
+          paymentMethod: data.paymentMethod || 'cash',
+          referenceNumber: data.referenceNumber || data.transactionId,
+          transactionDate: createData.paymentDate,
+          collectedBy: data.createdBy,
+          createdBy: data.createdBy
+        });
       }
+
+      return recalculatePaymentBalance(tx, payment.paymentId);
     });
   }
 
   async updatePayment(paymentId: string, data: UpdatePaymentRequest) {
-    // Get current payment
-    const currentPayment = await this.prisma.payment.findUnique({
-      where: { paymentId }
+    return await this.prisma.$transaction(async (tx) => {
+      const currentPayment = await this.lockPayment(tx, paymentId);
+      await this.ensureOpeningBalance(tx, currentPayment);
+
+      const updateData: any = {};
+      if (data.amount !== undefined) updateData.amount = new Decimal(data.amount);
+      if (data.transactionId !== undefined) updateData.transactionId = data.transactionId;
+      if (data.bankDetails !== undefined) updateData.bankDetails = data.bankDetails;
+      if (data.notes !== undefined) updateData.notes = data.notes;
+      if (data.invoiceNumber !== undefined) updateData.invoiceNumber = data.invoiceNumber;
+      if (data.workflowStage !== undefined) updateData.workflowStage = data.workflowStage;
+      if (data.dueDate) {
+        updateData.dueDate = parseDateInput(data.dueDate);
+        // A new due date starts the reminder schedule over
+        if (currentPayment.dueDate?.getTime() !== updateData.dueDate.getTime()) {
+          updateData.reminderStage = null;
+        }
+      }
+      // Only overdue can be set by hand, everything else follows the ledger
+      if (data.status === 'overdue') {
+        updateData.status = 'overdue';
+      } else if (currentPayment.status === 'overdue' && (
+        data.status !== undefined ||
+        (updateData.dueDate && getDaysPastDue(updateData.dueDate) <= 0)
+      )) {
+        updateData.status = 'pending';
+      }
+
+      await tx.payment.update({ where: { paymentId }, data: updateData });
+
+      // Paid amount is derived from the ledger; an increase is taken as a new receipt
+      if (data.paidAmount !== undefined) {
+        const balance = await recalculatePaymentBalance(tx, paymentId);
+        const difference = new Decimal(data.paidAmount).minus(balance.paidAmount.toString());
+
+        if (difference.lessThan(0)) {
+          throw new PaymentLedgerError('Paid amount cannot be reduced directly; record a refund or reverse a transaction instead');
+        }
+        if (difference.greaterThan(0)) {
+          await this.addLedgerEntry(tx, paymentId, {
+            type: 'receipt',
+            amount: difference.toNumber(),
+            paymentMethod: data.paymentMethod || currentPayment.paymentMethod || 'cash',
+            referenceNumber: data.referenceNumber ?? data.transactionId,
+            transactionDate: data.paymentDate ? parseDateInput(data.paymentDate) : undefined,
+            collectedBy: data.updatedBy,
+            createdBy: data.updatedBy
+          });
+        }
+      }
+
+      return recalculatePaymentBalance(tx, paymentId);
     });
+  }
 
-    if (!currentPayment) {
-      throw new Error('Payment not found');
-    }
+  /**
+   * Ledger of a payable, oldest first
+   */
+  async getTransactions(paymentId: string) {
+    return await this.prisma.paymentTransaction.findMany({
+      where: { paymentId },
+      include: {
+        collector: { select: userSummarySelect },
+        reversal: { select: { paymentTransactionId: true, receiptNumber: true, transactionDate: true } },
+        reversedTransaction: { select: { paymentTransactionId: true, receiptNumber: true } }
+      },
+      orderBy: [{ transactionDate: 'asc' }, { createdAt: 'asc' }]
+    });
+  }
+
+  /**
+   * Record money received or refunded against a payable
+   */
+  async recordTransaction(paymentId: string, data: RecordTransactionRequest) {
+    return await this.prisma.$transaction(async (tx) => {
+      const payment = await this.lockPayment(tx, paymentId);
+      await this.ensureOpeningBalance(tx, payment);
+
+      const entries = await tx.paymentTransaction.findMany({ where: { paymentId } });
+      const paid = sumLedger(entries);
+      const amount = new Decimal(data.amount);
 
-    const amount = data.amount !== undefined ? new Decimal(data.amount) : currentPayment.amount;
-    const paidAmount = data.paidAmount !== undefined ? new Decimal(data.paidAmount) : currentPayment.paidAmount;
-    const outstandingAmount = amount.minus(paidAmount);
-    
-    let status = data.status;
-    if (!status) {
-      if (paidAmount.equals(0)) {
-        status = 'pending';
-      } else if (paidAmount.greaterThanOrEqualTo(amount)) {
-        status = 'paid';
-      } else {
-        status = 'partial';
+      if (data.type === 'receipt' && amount.greaterThan(new Decimal(payment.amount.toString()).minus(paid))) {
+        throw new PaymentLedgerError('Receipt exceeds the outstanding amount');
+      }
+      if (data.type === 'refund' && amount.greaterThan(paid)) {
+        throw new PaymentLedgerError('Refund exceeds the amount received');
       }
-    }
 
-    // Prepare update data with proper date handling
-    const updateData: any = {
-      amount,
-      paidAmount,
-      outstandingAmount,
-      status,
-    };
+      const transaction = await this.addLedgerEntry(tx, paymentId, data);
+      const updatedPayment = await recalculatePaymentBalance(tx, paymentId);
 
-    // Handle optional fields
-    if (data.paymentMethod !== undefined) updateData.paymentMethod = data.paymentMethod;
-    if (data.transactionId !== undefined) updateData.transactionId = data.transactionId;
-    if (data.referenceNumber !== undefined) updateData.referenceNumber = data.referenceNumber;
-    if (data.notes !== undefined) updateData.notes = data.notes;
-    if (data.workflowStage !== undefined) updateData.workflowStage = data.workflowStage;
+      return { transaction, payment: updatedPayment };
+    });
+  }
 
-    // Handle date fields - convert string dates to DateTime
-    if (data.paymentDate) {
-      updateData.paymentDate = new Date(data.paymentDate + 'T00:00:00.000Z');
-    }
-    if (data.dueDate) {
-      updateData.dueDate = new Date(data.dueDate + 'T00:00:00.000Z');
+  /**
+   * Cancel a receipt or refund (e.g. a bounced cheque) with an opposite entry
+   */
+  async reverseTransaction(paymentTransactionId: string, data: { reason: string; createdBy?: string }) {
+    const original = await this.prisma.paymentTransaction.findUnique({ where: { paymentTransactionId } });
+    if (!original) {
+      throw new PaymentLedgerError('Transaction not found', 404);
     }
 
-    return await this.prisma.payment.update({
-      where: { paymentId },
-      data: updateData,
+    return await this.prisma.$transaction(async (tx) => {
+      await this.lockPayment(tx, original.paymentId);
+
+      const entries = await tx.paymentTransaction.findMany({ where: { paymentId: original.paymentId } });
+      if (original.type === 'reversal') {
+        throw new PaymentLedgerError('Reversals cannot be reversed');
+      }
+      if (entries.some(entry => entry.reversedTransactionId === paymentTransactionId)) {
+        throw new PaymentLedgerError('Transaction has already been reversed', 409);
+      }
+      if (original.type === 'receipt' && sumLedger(entries).lessThan(original.amount.toString())) {
+        throw new PaymentLedgerError('Reverse the refunds made from this receipt first', 409);
+      }
+
+      const transactionDate = new Date();
+      const transaction = await tx.paymentTransaction.create({
+        data: {
+          paymentId: original.paymentId,
+          receiptNumber: await allocateDocumentNumber(tx, 'reversal', REVERSAL_PREFIX, transactionDate),
+          type: 'reversal',
+          amount: original.amount,
+          paymentMethod: original.paymentMethod,
+          referenceNumber: original.referenceNumber,
+          transactionDate,
+          reversedTransactionId: paymentTransactionId,
+          notes: data.reason,
+          collectedBy: data.createdBy,
+          createdBy: data.createdBy
+        }
+      });
+      const payment = await recalculatePaymentBalance(tx, original.paymentId);
+
+      return { transaction, payment };
+    });
+  }
+
+  /**
+   * Single ledger entry with its payable, vehicle and collector for printing
+   */
+  async getTransactionForReceipt(paymentTransactionId: string) {
+    return await this.prisma.paymentTransaction.findUnique({
+      where: { paymentTransactionId },
       include: {
-        vehicle: {
-          select: {
-            carNumber: true,
-            ownerName: true,
-            modelName: true,
-            brandName: true,
+        payment: {
+          include: {
+            vehicle: { select: { ...vehicleSummarySelect, ownerMobile: true } }
           }
-        }
+        },
+        collector: { select: userSummarySelect },
+        reversedTransaction: { select: { receiptNumber: true, transactionDate: true } }
       }
     });
   }
 
-  async getPaymentsByVehicle(vehicleId: string) {
+  async getPaymentsByVehicle(vehicleId: string, scope: PaymentScope = null) {
     return await this.prisma.payment.findMany({
-      where: { vehicleId },
+      where: withScope({ vehicleId }, scope),
       include: {
         vehicle: {
-          select: {
-            carNumber: true,
-            ownerName: true,
-            modelName: true,
-            brandName: true,
-          }
+          select: vehicleSummarySelect
         }
       },
       orderBy: { createdAt: 'desc' }
@@ -174,52 +446,48 @@ export class PaymentService {
     status?: string;
     vehicleId?: string;
     dueDate?: { gte?: Date; lte?: Date };
-  }) {
+  }, scope: PaymentScope = null) {
     return await this.prisma.payment.findMany({
-      where: {
+      where: withScope({
         ...(filters?.status && { status: filters.status }),
         ...(filters?.vehicleId && { vehicleId: filters.vehicleId }),
         ...(filters?.dueDate && { dueDate: filters.dueDate }),
-      },
+      }, scope),
       include: {
         vehicle: {
-          select: {
-            carNumber: true,
-            ownerName: true,
-            modelName: true,
-            brandName: true,
-          }
+          select: vehicleSummarySelect
         }
       },
       orderBy: { createdAt: 'desc' }
     });
   }
 
-  async getOutstandingPayments() {
-    return await this.prisma.payment.findMany({
-      where: {
+  async getOutstandingPayments(asOf: Date = new Date(), scope: PaymentScope = null) {
+    const payments = await this.prisma.payment.findMany({
+      where: withScope({
         OR: [
           { status: 'pending' },
           { status: 'partial' },
           { status: 'overdue' }
         ]
-      },
+      }, scope),
       include: {
         vehicle: {
-          select: {
-            carNumber: true,
-            ownerName: true,
-            modelName: true,
-            brandName: true,
-          }
+          select: vehicleSummarySelect
         }
       },
       orderBy: { dueDate: 'asc' }
     });
+
+    return payments.map(payment => {
+      const daysPastDue = getDaysPastDue(payment.dueDate ?? payment.createdAt, asOf);
+      return { ...payment, daysPastDue, ageingBucket: getAgeingBucket(daysPastDue) };
+    });
   }
 
-  async getPaymentSummary() {
+  async getPaymentSummary(scope: PaymentScope = null) {
     const result = await this.prisma.payment.aggregate({
+      where: withScope({}, scope),
       _sum: {
         amount: true,
         paidAmount: true,
@@ -232,6 +500,7 @@ export class PaymentService {
 
     const statusCounts = await this.prisma.payment.groupBy({
       by: ['status'],
+      where: withScope({}, scope),
       _count: {
         paymentId: true,
       }
@@ -249,9 +518,143 @@ export class PaymentService {
     };
   }
 
+  /**
+   * Accounts-receivable ageing of open balances, by location and salesperson.
+   * Payables without a due date age from the day they were raised.
+   */
+  async getAgeingReport(asOf: Date = new Date(), scope: PaymentScope = null): Promise<AgeingReport> {
+    const payments = await this.prisma.payment.findMany({
+      where: withScope({
+        status: { not: 'paid' },
+        outstandingAmount: { gt: 0 }
+      }, scope),
+      select: {
+        outstandingAmount: true,
+        dueDate: true,
+        createdAt: true,
+        vehicle: {
+          select: {
+            locationId: true,
+            salespersonId: true,
+            location: { select: { locationName: true } },
+            salesperson: { select: { firstName: true, lastName: true, email: true } }
+          }
+        }
+      }
+    });
+
+    const totals = emptyAgeingTotals();
+    const byLocation = new Map<string | null, AgeingGroup>();
+    const bySalesperson = new Map<string | null, AgeingGroup>();
+
+    const addTo = (group: AgeingTotals, bucket: AgeingBucket, amount: number) => {
+      group[bucket] += amount;
+      group.total += amount;
+      group.count += 1;
+    };
+
+    for (const payment of payments) {
+      const amount = Number(payment.outstandingAmount);
+      const bucket = getAgeingBucket(getDaysPastDue(payment.dueDate ?? payment.createdAt, asOf));
+      const { vehicle } = payment;
+
+      addTo(totals, bucket, amount);
+
+      if (!byLocation.has(vehicle.locationId)) {
+        byLocation.set(vehicle.locationId, {
+          id: vehicle.locationId,
+          name: vehicle.location?.locationName || 'Unassigned',
+          ...emptyAgeingTotals()
+        });
+      }
+      addTo(byLocation.get(vehicle.locationId)!, bucket, amount);
+
+      if (!bySalesperson.has(vehicle.salespersonId)) {
+        const salesperson = vehicle.salesperson;
+        bySalesperson.set(vehicle.salespersonId, {
+          id: vehicle.salespersonId,
+          name: salesperson
+            ? `${salesperson.firstName || ''} ${salesperson.lastName || ''}`.trim() || salesperson.email
+            : 'Unassigned',
+          ...emptyAgeingTotals()
+        });
+      }
+      addTo(bySalesperson.get(vehicle.salespersonId)!, bucket, amount);
+    }
+
+    // Oldest debt first so the worst offenders lead the report
+    const sortGroups = (groups: Map<string | null, AgeingGroup>) =>
+      [...groups.values()].sort((a, b) => b['90+'] - a['90+'] || b.total - a.total);
+
+    return {
+      asOf: asOf.toISOString(),
+      totals,
+      byLocation: sortGroups(byLocation),
+      bySalesperson: sortGroups(bySalesperson)
+    };
+  }
+
   async deletePayment(paymentId: string) {
     return await this.prisma.payment.delete({
       where: { paymentId }
     });
   }
+
+  /**
+   * Row-lock the payable so concurrent ledger writes are applied one at a time
+   */
+  private async lockPayment(tx: TenantTransaction, paymentId: string) {
+    await tx.$queryRaw`SELECT "payment_id" FROM "payments" WHERE "payment_id" = ${paymentId} FOR UPDATE`;
+    const payment = await tx.payment.findUnique({ where: { paymentId } });
+    if (!payment) {
+      throw new PaymentLedgerError('Payment not found', 404);
+    }
+    return payment;
+  }
+
+  /**
+   * Payables recorded before the ledger existed carry a paid amount with no
+   * entries behind it; carry it over as an opening receipt so it is not lost
+   */
+  private async ensureOpeningBalance(tx: TenantTransaction, payment: { paymentId: string; paidAmount: Prisma.Decimal; paymentMethod: string | null; referenceNumber: string | null; paymentDate: Date | null; createdBy: string | null }) {
+    if (!payment.paidAmount.greaterThan(0)) return;
+
+    const count = await tx.paymentTransaction.count({ where: { paymentId: payment.paymentId } });
+    if (count > 0) return;
+
+    await this.addLedgerEntry(tx, payment.paymentId, {
+      type: 'receipt',
+      amount: payment.paidAmount.toNumber(),
+      paymentMethod: payment.paymentMethod || 'cash',
+      referenceNumber: payment.referenceNumber,
+      transactionDate: payment.paymentDate ?? undefined,
+      notes: 'Opening balance carried over from the payment record',
+      createdBy: payment.createdBy ?? undefined
+    });
+  }
+
+  private async addLedgerEntry(tx: TenantTransaction, paymentId: string, data: RecordTransactionRequest) {
+    const settings = await getBusinessInvoiceSettings(tx);
+    const transactionDate = data.transactionDate ?? new Date();
+
+    return tx.paymentTransaction.create({
+      data: {
+        paymentId,
+        receiptNumber: await allocateDocumentNumber(
+          tx,
+          data.type,
+          data.type === 'refund' ? settings.refundPrefix : settings.receiptPrefix,
+          transactionDate
+        ),
+        type: data.type,
+        amount: new Decimal(data.amount),
+        paymentMethod: data.paymentMethod,
+        referenceNumber: data.referenceNumber ?? null,
+        transactionDate,
+        collectedBy: data.collectedBy ?? null,
+        notes: data.notes ?? null,
+        createdBy: data.createdBy ?? null
+      }
+    });
+  }
 }
@@ -0,0 +1,255 @@
+/**
+ * Payment Reminders
+ *
+ * Hourly job that moves open payables past their due date to `overdue` and
+ * sends reminders on the tenant's schedule (`notification.paymentReminderDays`,
+ * days relative to the due date; negative values remind ahead of it). The
+ * account manager — the vehicle's salesperson, else whoever raised the
+ * payable — gets an in-app notification; the vehicle owner is emailed when
+ * `notification.paymentReminderNotifyOwner` is on. Each schedule step is sent
+ * once; changing the due date starts the schedule over.
+ */
+
+import type { PrismaClient } from '../../packages/database/generated/tenant-client';
+import { masterDb, getTenantDb } from '../lib/database';
+import { notifyUsers } from '../lib/notifications';
+import { getMailManager } from '../lib/mailer';
+import { logger } from '../lib/logger';
+import { getSellerDetails } from './invoices';
+import { getDaysPastDue } from './payment.service';
+
+export interface PaymentReminderSettings {
+  enabled: boolean;
+  days: number[];
+  notifyOwner: boolean;
+  emailEnabled: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_REMINDER_DAYS = [-3, 0, 7, 15, 30, 60, 90];
+
+/**
+ * Tenant reminder settings from the notification config category
+ */
+export async function getPaymentReminderSettings(tenantDb: PrismaClient): Promise<PaymentReminderSettings> {
+  const configs = await tenantDb.systemConfig.findMany({
+    where: {
+      configCategory: 'notification',
+      configKey: { in: ['emailEnabled', 'paymentRemindersEnabled', 'paymentReminderDays', 'paymentReminderNotifyOwner'] }
+    }
+  });
+  const values = Object.fromEntries(configs.map(config => [config.configKey, config.configValue as any]));
+
+  const days = Array.isArray(values.paymentReminderDays)
+    ? values.paymentReminderDays.filter((day: unknown) => Number.isInteger(day))
+    : DEFAULT_REMINDER_DAYS;
+
+  return {
+    enabled: values.paymentRemindersEnabled !== false,
+    days: [...new Set<number>(days)].sort((a, b) => a - b),
+    notifyOwner: values.paymentReminderNotifyOwner === true,
+    emailEnabled: values.emailEnabled !== false
+  };
+}
+
+/**
+ * Latest schedule step reached by a payable, or null if none is due yet
+ */
+export function getReminderStage(days: number[], daysPastDue: number): number | null {
+  let stage: number | null = null;
+  for (const day of days) {
+    if (day <= daysPastDue) stage = day;
+  }
+  return stage;
+}
+
+export class PaymentReminderJob {
+  private static readonly POLL_INTERVAL_MS = HOUR_MS;
+  private static timer: NodeJS.Timeout | null = null;
+  private static isTicking = false;
+
+  /**
+   * Start the hourly overdue/reminder sweep
+   */
+  static initialize(): void {
+    if (process.env.PAYMENT_REMINDERS_ENABLED === 'false' || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Payment reminder tick failed:', error));
+    }, this.POLL_INTERVAL_MS);
+    this.timer.unref();
+
+    logger.info('Payment reminder job initialized');
+  }
+
+  /**
+   * Stop polling (used on shutdown)
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Mark overdue payables and send due reminders across all active tenants
+   */
+  static async tick(now: Date = new Date()): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+
+    this.isTicking = true;
+    try {
+      const tenants = await masterDb.tenant.findMany({
+        where: { status: 'active' },
+        select: { subdomain: true }
+      });
+
+      for (const tenant of tenants) {
+        try {
+          await this.processTenant(tenant.subdomain, now);
+        } catch (error) {
+          // One broken tenant must not block the others
+          logger.error(`Payment reminders failed for tenant ${tenant.subdomain}:`, error);
+        }
+      }
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  static async processTenant(tenantId: string, now: Date = new Date()): Promise<{ markedOverdue: number; reminded: number }> {
+    const tenantDb = await getTenantDb(tenantId);
+    const markedOverdue = await this.markOverdue(tenantDb, now);
+    const reminded = await this.remindTenant(tenantId, tenantDb, now);
+
+    if (markedOverdue > 0 || reminded > 0) {
+      logger.info(`Payments for tenant ${tenantId}: ${markedOverdue} marked overdue, ${reminded} reminder(s) sent`);
+    }
+
+    return { markedOverdue, reminded };
+  }
+
+  /**
+   * Move open payables whose due date has passed to `overdue`
+   */
+  static async markOverdue(tenantDb: PrismaClient, now: Date = new Date()): Promise<number> {
+    const startOfToday = new Date(now);
+    startOfToday.setHours(0, 0, 0, 0);
+
+    const result = await tenantDb.payment.updateMany({
+      where: {
+        status: { in: ['pending', 'partial'] },
+        outstandingAmount: { gt: 0 },
+        dueDate: { lt: startOfToday }
+      },
+      data: { status: 'overdue' }
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Send the next reminder step for each open payable that has reached one.
+   * Returns the number of payables reminded.
+   */
+  static async remindTenant(tenantId: string, tenantDb: PrismaClient, now: Date = new Date()): Promise<number> {
+    const settings = await getPaymentReminderSettings(tenantDb);
+    if (!settings.enabled || settings.days.length === 0) {
+      return 0;
+    }
+
+    // Only payables within reach of the earliest step can need a reminder
+    const earliest = new Date(now);
+    earliest.setHours(23, 59, 59, 999);
+    earliest.setDate(earliest.getDate() - settings.days[0]);
+
+    const payments = await tenantDb.payment.findMany({
+      where: {
+        status: { not: 'paid' },
+        outstandingAmount: { gt: 0 },
+        dueDate: { not: null, lte: earliest },
+        // Payables that already had the final step are done
+        OR: [
+          { reminderStage: null },
+          { reminderStage: { lt: settings.days[settings.days.length - 1] } }
+        ]
+      },
+      include: {
+        vehicle: {
+          select: {
+            carNumber: true,
+            ownerName: true,
+            ownerEmail: true,
+            salespersonId: true
+          }
+        }
+      },
+      orderBy: { dueDate: 'asc' }
+    });
+
+    let sellerName: string | null = null;
+    let sent = 0;
+
+    for (const payment of payments) {
+      const daysPastDue = getDaysPastDue(payment.dueDate!, now);
+      const stage = getReminderStage(settings.days, daysPastDue);
+      if (stage === null || (payment.reminderStage !== null && stage <= payment.reminderStage)) {
+        continue;
+      }
+
+      try {
+        const outstanding = Number(payment.outstandingAmount).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+        const dueOn = payment.dueDate!.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+        const when = daysPastDue > 0
+          ? `${daysPastDue} day(s) overdue`
+          : daysPastDue === 0 ? 'due today' : `due in ${-daysPastDue} day(s)`;
+
+        const managerId = payment.vehicle.salespersonId || payment.createdBy;
+        if (managerId) {
+          await notifyUsers(tenantId, {
+            recipientIds: [managerId],
+            type: daysPastDue > 0 ? 'warning' : 'info',
+            title: daysPastDue > 0 ? 'Payment overdue' : 'Payment due',
+            message: `₹${outstanding} from ${payment.vehicle.ownerName} (${payment.vehicle.carNumber}) is ${when}`,
+            action: { label: 'View', url: '/reports/accounts' },
+            entityType: 'payment',
+            entityId: payment.paymentId
+          });
+        }
+
+        if (settings.notifyOwner && settings.emailEnabled && payment.vehicle.ownerEmail) {
+          sellerName ??= (await getSellerDetails(tenantDb)).companyName;
+          await getMailManager().send({
+            to: [payment.vehicle.ownerEmail],
+            subject: `Payment reminder${payment.invoiceNumber ? ` for invoice ${payment.invoiceNumber}` : ''}`,
+            text: [
+              `Dear ${payment.vehicle.ownerName},`,
+              '',
+              `This is a reminder that ₹${outstanding} for vehicle ${payment.vehicle.carNumber}` +
+                `${payment.invoiceNumber ? ` (invoice ${payment.invoiceNumber})` : ''} ${daysPastDue > 0 ? 'was' : 'is'} due on ${dueOn}.`,
+              'Please ignore this message if you have already paid.',
+              '',
+              sellerName || ''
+            ].join('\n')
+          });
+        }
+
+        // Guard on the due date so a change made meanwhile restarts the schedule
+        await tenantDb.payment.updateMany({
+          where: { paymentId: payment.paymentId, dueDate: payment.dueDate },
+          data: { reminderStage: stage, lastReminderAt: now }
+        });
+        sent++;
+      } catch (error) {
+        logger.error(`Payment reminder failed for payment ${payment.paymentId}:`, error);
+      }
+    }
+
+    return sent;
+  }
+}
@@ -0,0 +1,647 @@
+/**
+ * Workflow Engine
+ *
+ * Drives WorkflowInstance rows through the stage definitions stored on their
+ * Workflow: validates transitions against `nextStages` and `requiredFields`,
+ * runs each stage's actions on entry and follows `autoAdvance` stages.
+ */
+
+import type { Workflow, WorkflowInstance } from '../../packages/database/generated/tenant-client';
+import { getTenantDb } from '../lib/database';
+import { getMailManager } from '../lib/mailer';
+import { notifyUsers } from '../lib/notifications';
+import { emitWorkflowUpdate } from '../lib/realTimeEvents';
+import { dispatchWebhook, WebhookDispatcher } from '../lib/webhooks';
+import { recordWorkflowStageChange } from '../lib/audit';
+import { logger } from '../lib/logger';
+
+export type WorkflowStageType = 'start' | 'task' | 'decision' | 'end';
+export type WorkflowActionType = 'notification' | 'assignment' | 'status_update' | 'webhook' | 'email';
+
+export interface WorkflowStageAction {
+  type: WorkflowActionType;
+  config: Record<string, any>;
+}
+
+export interface WorkflowStageDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  type: WorkflowStageType;
+  assignedRole?: string;
+  assignedUserId?: string;
+  autoAdvance?: boolean;
+  requiredFields?: string[];
+  conditions?: Record<string, any>; // Entry conditions, evaluated against stage data when auto-advancing
+  actions?: WorkflowStageAction[];
+  timeoutHours?: number;
+  nextStages?: string[];
+}
+
+export interface WorkflowRules {
+  autoStart?: boolean;
+  allowSkipStages?: boolean;
+  requireApproval?: boolean;
+  notifyOnDelay?: boolean;
+  escalationHours?: number;
+}
+
+export interface ActionResult {
+  type: WorkflowActionType;
+  status: 'success' | 'failed' | 'skipped';
+  message?: string;
+}
+
+export interface StageHistoryEntry {
+  stage: string;
+  previousStage?: string;
+  userId?: string;
+  timestamp: string;
+  notes?: string;
+  metadata?: Record<string, any>;
+  automatic?: boolean;
+  actions?: ActionResult[];
+}
+
+export interface StartWorkflowOptions {
+  entityType: string;
+  entityId: string;
+  assignedTo?: string;
+  initialData?: Record<string, any>;
+  userId?: string;
+}
+
+export interface TransitionOptions {
+  toStage: string;
+  userId?: string;
+  notes?: string;
+  stageData?: Record<string, any>;
+  assignedTo?: string;
+}
+
+export class WorkflowTransitionError extends Error {
+  public statusCode: number;
+  public details?: string[];
+
+  constructor(message: string, statusCode: number = 400, details?: string[]) {
+    super(message);
+    this.name = 'WorkflowTransitionError';
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+type InstanceWithWorkflow = WorkflowInstance & { workflow: Workflow | null };
+
+interface StageEntry {
+  previousStage?: string;
+  userId?: string;
+  notes?: string;
+  stageData: Record<string, any>;
+  assignedTo?: string | null;
+  automatic?: boolean;
+}
+
+interface ActionContext {
+  tenantDb: any;
+  tenantId: string;
+  workflow: Workflow;
+  instance: WorkflowInstance;
+  stage: WorkflowStageDefinition;
+  userId?: string;
+}
+
+/**
+ * Replace {{path}} placeholders with values from the template context
+ */
+function renderTemplate(template: string, values: Record<string, any>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    const value = path.split('.').reduce((current: any, key) => current?.[key], values);
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+function asRecord(value: unknown): Record<string, any> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : {};
+}
+
+export class WorkflowEngine {
+  private static readonly MAX_AUTO_ADVANCE = 20;
+
+  /**
+   * Stage definitions of a workflow (legacy `{ key, label }` stage lists yield none)
+   */
+  static getStages(workflow: Pick<Workflow, 'stages'> | null | undefined): WorkflowStageDefinition[] {
+    if (!workflow || !Array.isArray(workflow.stages)) {
+      return [];
+    }
+
+    return (workflow.stages as unknown as WorkflowStageDefinition[])
+      .filter(stage => stage && typeof stage.id === 'string' && typeof stage.type === 'string');
+  }
+
+  /**
+   * Whether an instance at `currentStage` is driven by the workflow's stage definitions
+   */
+  static isEngineManaged(workflow: Pick<Workflow, 'stages'> | null | undefined, currentStage: string): boolean {
+    return this.getStages(workflow).some(stage => stage.id === currentStage);
+  }
+
+  /**
+   * Create an instance at the start stage and run its actions
+   */
+  static async startWorkflow(
+    tenantId: string,
+    workflow: Workflow,
+    options: StartWorkflowOptions
+  ): Promise<WorkflowInstance> {
+    const startStage = this.getStages(workflow).find(stage => stage.type === 'start');
+    if (!startStage) {
+      throw new WorkflowTransitionError('No start stage found in workflow');
+    }
+
+    const tenantDb = await getTenantDb(tenantId);
+    const instance = await tenantDb.workflowInstance.create({
+      data: {
+        workflowId: workflow.workflowId,
+        entityType: options.entityType,
+        entityId: options.entityId,
+        currentStage: startStage.id,
+        stageData: options.initialData || {},
+        stageHistory: [],
+        status: 'in_progress',
+        assignedTo: options.assignedTo
+      }
+    });
+
+    return this.enterStage(tenantDb, tenantId, workflow, instance, startStage, {
+      userId: options.userId,
+      notes: 'Workflow started',
+      stageData: options.initialData || {},
+      assignedTo: options.assignedTo
+    }, 0);
+  }
+
+  /**
+   * Move an instance to another stage
+   */
+  static async transition(tenantId: string, instanceId: string, options: TransitionOptions): Promise<WorkflowInstance> {
+    const tenantDb = await getTenantDb(tenantId);
+    const instance: InstanceWithWorkflow | null = await tenantDb.workflowInstance.findUnique({
+      where: { instanceId },
+      include: { workflow: true }
+    });
+
+    if (!instance) {
+      throw new WorkflowTransitionError('Workflow instance not found', 404);
+    }
+
+    if (!instance.workflow || !this.isEngineManaged(instance.workflow, instance.currentStage)) {
+      throw new WorkflowTransitionError('Workflow instance has no stage definitions');
+    }
+
+    return this.advance(tenantDb, tenantId, instance.workflow, instance, options, 0, false);
+  }
+
+  private static async advance(
+    tenantDb: any,
+    tenantId: string,
+    workflow: Workflow,
+    instance: WorkflowInstance,
+    options: TransitionOptions,
+    depth: number,
+    automatic: boolean
+  ): Promise<WorkflowInstance> {
+    if (instance.status !== 'in_progress') {
+      throw new WorkflowTransitionError(`Workflow instance is ${instance.status}`, 409);
+    }
+
+    const stages = this.getStages(workflow);
+    const current = stages.find(stage => stage.id === instance.currentStage);
+    const target = stages.find(stage => stage.id === options.toStage);
+
+    if (!current) {
+      throw new WorkflowTransitionError(`Current stage "${instance.currentStage}" is not defined in the workflow`, 409);
+    }
+
+    if (!target) {
+      throw new WorkflowTransitionError(`Unknown stage "${options.toStage}"`);
+    }
+
+    const rules = asRecord(workflow.rules) as WorkflowRules;
+    const allowedStages = current.nextStages || [];
+    const isAllowed = allowedStages.includes(target.id) || (rules.allowSkipStages && target.id !== current.id);
+
+    if (!isAllowed) {
+      throw new WorkflowTransitionError(
+        `Transition from "${current.id}" to "${target.id}" is not allowed`,
+        400,
+        [`Allowed next stages: ${allowedStages.join(', ') || 'none'}`]
+      );
+    }
+
+    // The stage being left must have its required fields filled in
+    const stageData = { ...asRecord(instance.stageData), ...(options.stageData || {}) };
+    const missingFields = this.getMissingFields(current, stageData);
+
+    if (missingFields.length > 0) {
+      throw new WorkflowTransitionError(
+        `Required fields missing for stage "${current.id}"`,
+        400,
+        missingFields.map(field => `${field} is required`)
+      );
+    }
+
+    return this.enterStage(tenantDb, tenantId, workflow, instance, target, {
+      previousStage: current.id,
+      userId: options.userId,
+      notes: options.notes,
+      stageData,
+      assignedTo: options.assignedTo,
+      automatic
+    }, depth);
+  }
+
+  private static async enterStage(
+    tenantDb: any,
+    tenantId: string,
+    workflow: Workflow,
+    instance: WorkflowInstance,
+    stage: WorkflowStageDefinition,
+    entry: StageEntry,
+    depth: number
+  ): Promise<WorkflowInstance> {
+    const now = new Date();
+    const isEnd = stage.type === 'end';
+    const assignedTo = entry.assignedTo
+      || stage.assignedUserId
+      || (stage.assignedRole ? await this.findAssigneeByRole(tenantDb, stage.assignedRole) : null)
+      || instance.assignedTo;
+
+    const historyEntry: StageHistoryEntry = {
+      stage: stage.id,
+      previousStage: entry.previousStage,
+      userId: entry.userId,
+      timestamp: now.toISOString(),
+      notes: entry.notes || (entry.automatic ? `Auto-advanced to ${stage.name}` : `Stage changed to ${stage.name}`),
+      ...(entry.automatic && { automatic: true })
+    };
+    const history = Array.isArray(instance.stageHistory) ? instance.stageHistory as unknown as StageHistoryEntry[] : [];
+
+    // Guard on the stage we are leaving so concurrent transitions can't both apply
+    const claimed = await tenantDb.workflowInstance.updateMany({
+      where: {
+        instanceId: instance.instanceId,
+        currentStage: instance.currentStage,
+        status: 'in_progress'
+      },
+      data: {
+        currentStage: stage.id,
+        stageData: entry.stageData,
+        stageHistory: [...history, historyEntry],
+        status: isEnd ? 'completed' : 'in_progress',
+        assignedTo,
+        completedAt: isEnd ? now : null
+      }
+    });
+
+    if (claimed.count === 0) {
+      throw new WorkflowTransitionError('Workflow instance was modified by another request', 409);
+    }
+
+    let updated: WorkflowInstance = await tenantDb.workflowInstance.findUnique({
+      where: { instanceId: instance.instanceId }
+    });
+
+    const context: ActionContext = { tenantDb, tenantId, workflow, instance: updated, stage, userId: entry.userId };
+    const results = await this.runActions(context);
+
+    if (results.length > 0) {
+      historyEntry.actions = results;
+      updated = await tenantDb.workflowInstance.update({
+        where: { instanceId: instance.instanceId },
+        data: { stageHistory: [...history, historyEntry] }
+      });
+    } else {
+      updated = context.instance;
+    }
+
+    this.emitUpdate(tenantId, workflow, updated, entry.userId);
+    await recordWorkflowStageChange(tenantDb, { userId: entry.userId ?? null }, {
+      instanceId: updated.instanceId,
+      workflowType: workflow.workflowType,
+      entityType: updated.entityType,
+      entityId: updated.entityId,
+      previousStage: entry.previousStage || null,
+      stage: updated.currentStage,
+      status: updated.status,
+      automatic: entry.automatic,
+      notes: historyEntry.notes
+    });
+    dispatchWebhook(tenantId, 'workflow.stage_changed', {
+      instanceId: updated.instanceId,
+      workflowId: workflow.workflowId,
+      workflowType: workflow.workflowType,
+      entityType: updated.entityType,
+      entityId: updated.entityId,
+      previousStage: entry.previousStage || null,
+      stage: updated.currentStage,
+      status: updated.status,
+      assignedTo: updated.assignedTo,
+      automatic: !!entry.automatic,
+      updatedBy: entry.userId || 'system'
+    });
+
+    if (stage.autoAdvance && !isEnd) {
+      return this.autoAdvance(tenantDb, tenantId, workflow, updated, stage, depth);
+    }
+
+    return updated;
+  }
+
+  private static async autoAdvance(
+    tenantDb: any,
+    tenantId: string,
+    workflow: Workflow,
+    instance: WorkflowInstance,
+    stage: WorkflowStageDefinition,
+    depth: number
+  ): Promise<WorkflowInstance> {
+    if (depth >= this.MAX_AUTO_ADVANCE) {
+      logger.warn(`Workflow instance ${instance.instanceId} stopped auto-advancing after ${depth} stages`);
+      return instance;
+    }
+
+    const stageData = asRecord(instance.stageData);
+    const stages = this.getStages(workflow);
+    const next = (stage.nextStages || [])
+      .map(stageId => stages.find(candidate => candidate.id === stageId))
+      .find(candidate => candidate && this.matchesConditions(candidate.conditions, stageData));
+
+    if (!next || this.getMissingFields(stage, stageData).length > 0) {
+      return instance;
+    }
+
+    try {
+      return await this.advance(tenantDb, tenantId, workflow, instance, { toStage: next.id }, depth + 1, true);
+    } catch (error) {
+      logger.warn(`Workflow instance ${instance.instanceId} could not auto-advance from ${stage.id}:`, error);
+      return instance;
+    }
+  }
+
+  private static getMissingFields(stage: WorkflowStageDefinition, stageData: Record<string, any>): string[] {
+    return (stage.requiredFields || []).filter(field => {
+      const value = stageData[field];
+      return value === undefined || value === null || value === '';
+    });
+  }
+
+  private static matchesConditions(conditions: Record<string, any> | undefined, stageData: Record<string, any>): boolean {
+    return Object.entries(conditions || {}).every(([field, expected]) =>
+      Array.isArray(expected) ? expected.includes(stageData[field]) : stageData[field] === expected
+    );
+  }
+
+  private static async runActions(context: ActionContext): Promise<ActionResult[]> {
+    const results: ActionResult[] = [];
+
+    for (const action of context.stage.actions || []) {
+      try {
+        results.push(await this.executeAction(action, context));
+      } catch (error) {
+        logger.error(`Workflow action ${action.type} failed for instance ${context.instance.instanceId}:`, error);
+        results.push({
+          type: action.type,
+          status: 'failed',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private static async executeAction(action: WorkflowStageAction, context: ActionContext): Promise<ActionResult> {
+    const config = action.config || {};
+    const templateValues = {
+      workflowName: context.workflow.workflowName,
+      stageId: context.stage.id,
+      stageName: context.stage.name,
+      entityType: context.instance.entityType,
+      entityId: context.instance.entityId,
+      instanceId: context.instance.instanceId,
+      data: asRecord(context.instance.stageData)
+    };
+
+    switch (action.type) {
+      case 'notification': {
+        const recipients = await this.resolveRecipients(context, config);
+        if (recipients.length === 0) {
+          return { type: action.type, status: 'skipped', message: 'No recipients' };
+        }
+
+        await notifyUsers(context.tenantId, {
+          recipientIds: recipients.map(recipient => recipient.userId),
+          type: config.notificationType || 'info',
+          title: renderTemplate(config.title || '{{workflowName}}: {{stageName}}', templateValues),
+          message: renderTemplate(config.message || '{{entityType}} {{entityId}} moved to {{stageName}}', templateValues),
+          action: config.actionUrl
+            ? { label: config.actionLabel || 'View', url: renderTemplate(config.actionUrl, templateValues) }
+            : undefined,
+          entityType: context.instance.entityType,
+          entityId: context.instance.entityId,
+          createdBy: context.userId
+        });
+
+        return { type: action.type, status: 'success', message: `Notified ${recipients.length} users` };
+      }
+
+      case 'email': {
+        const recipients = await this.resolveRecipients(context, config);
+        const addresses = [...new Set([...recipients.map(recipient => recipient.email), ...(config.to || [])])];
+        if (addresses.length === 0) {
+          return { type: action.type, status: 'skipped', message: 'No recipients' };
+        }
+
+        const result = await getMailManager().send({
+          to: addresses,
+          subject: renderTemplate(config.subject || '{{workflowName}}: {{stageName}}', templateValues),
+          text: renderTemplate(config.body || config.message || '{{entityType}} {{entityId}} moved to {{stageName}}.', templateValues)
+        });
+
+        return { type: action.type, status: 'success', message: `Sent to ${result.accepted.length} recipients` };
+      }
+
+      case 'assignment': {
+        let assigneeId: string | null = null;
+
+        if (config.userId) {
+          const user = await context.tenantDb.user.findFirst({
+            where: { userId: config.userId, status: 'active' },
+            select: { userId: true }
+          });
+          assigneeId = user?.userId || null;
+        } else if (config.role) {
+          assigneeId = await this.findAssigneeByRole(context.tenantDb, config.role);
+        }
+
+        if (!assigneeId) {
+          return { type: action.type, status: 'skipped', message: 'No eligible assignee' };
+        }
+
+        context.instance = await context.tenantDb.workflowInstance.update({
+          where: { instanceId: context.instance.instanceId },
+          data: { assignedTo: assigneeId }
+        });
+
+        return { type: action.type, status: 'success', message: `Assigned to ${assigneeId}` };
+      }
+
+      case 'status_update': {
+        if (!config.status) {
+          throw new Error('status_update action requires a status');
+        }
+
+        if (context.instance.entityType === 'vehicle') {
+          const vehicle = await context.tenantDb.vehicle.findUnique({
+            where: { vehicleId: context.instance.entityId },
+            select: { status: true }
+          });
+          await context.tenantDb.vehicle.update({
+            where: { vehicleId: context.instance.entityId },
+            data: { status: config.status }
+          });
+
+          if (vehicle && vehicle.status !== config.status) {
+            dispatchWebhook(context.tenantId, 'vehicle.status_changed', {
+              vehicleId: context.instance.entityId,
+              previousStatus: vehicle.status,
+              status: config.status,
+              updatedBy: context.userId || 'system'
+            });
+          }
+        } else if (context.instance.entityType === 'installation') {
+          await context.tenantDb.installation.update({
+            where: { installationId: context.instance.entityId },
+            data: { status: config.status }
+          });
+        } else {
+          return { type: action.type, status: 'skipped', message: `Unsupported entity type ${context.instance.entityType}` };
+        }
+
+        return { type: action.type, status: 'success', message: `Status set to ${config.status}` };
+      }
+
+      case 'webhook': {
+        if (!config.url) {
+          throw new Error('webhook action requires a url');
+        }
+
+        // Signed, logged and retried like any other webhook; private addresses are refused
+        const delivery = await WebhookDispatcher.enqueueTo(context.tenantId, config.url, 'workflow.stage_changed', {
+          instanceId: context.instance.instanceId,
+          workflowId: context.workflow.workflowId,
+          workflowName: context.workflow.workflowName,
+          workflowType: context.workflow.workflowType,
+          entityType: context.instance.entityType,
+          entityId: context.instance.entityId,
+          stage: context.stage.id,
+          stageName: context.stage.name,
+          status: context.instance.status,
+          assignedTo: context.instance.assignedTo
+        });
+
+        if (delivery.status !== 'success') {
+          return {
+            type: action.type,
+            status: 'failed',
+            message: `${delivery.error || 'Delivery failed'}${delivery.status === 'pending' ? ' (will be retried)' : ''}`
+          };
+        }
+
+        return { type: action.type, status: 'success', message: `Delivered (${delivery.responseStatus})` };
+      }
+
+      default:
+        return { type: action.type, status: 'skipped', message: 'Unknown action type' };
+    }
+  }
+
+  /**
+   * Users targeted by a notification/email action: explicit userIds, users in
+   * the configured roles, and the assignee (the default when nothing is configured)
+   */
+  private static async resolveRecipients(
+    context: ActionContext,
+    config: Record<string, any>
+  ): Promise<Array<{ userId: string; email: string }>> {
+    const userIds: string[] = [...(config.userIds || [])];
+    const roles: string[] = config.roles || [];
+    const notifyAssignee = config.notifyAssignee ?? (!config.userIds && !config.roles && !config.to);
+
+    if (notifyAssignee && context.instance.assignedTo) {
+      userIds.push(context.instance.assignedTo);
+    }
+
+    if (userIds.length === 0 && roles.length === 0) {
+      return [];
+    }
+
+    return context.tenantDb.user.findMany({
+      where: {
+        status: 'active',
+        OR: [
+          { userId: { in: userIds } },
+          { role: { roleName: { in: roles } } }
+        ]
+      },
+      select: { userId: true, email: true }
+    });
+  }
+
+  /**
+   * Pick the active user in a role with the fewest open workflow instances
+   */
+  private static async findAssigneeByRole(tenantDb: any, roleName: string): Promise<string | null> {
+    const candidates: Array<{ userId: string }> = await tenantDb.user.findMany({
+      where: { status: 'active', role: { roleName } },
+      select: { userId: true }
+    });
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const workloads: Array<{ assignedTo: string | null; _count: { _all: number } }> = await tenantDb.workflowInstance.groupBy({
+      by: ['assignedTo'],
+      where: {
+        status: 'in_progress',
+        assignedTo: { in: candidates.map(candidate => candidate.userId) }
+      },
+      _count: { _all: true }
+    });
+
+    const load = (userId: string) => workloads.find(workload => workload.assignedTo === userId)?._count._all || 0;
+    return candidates.reduce((best, candidate) => load(candidate.userId) < load(best.userId) ? candidate : best).userId;
+  }
+
+  private static emitUpdate(tenantId: string, workflow: Workflow, instance: WorkflowInstance, userId?: string): void {
+    const stages = this.getStages(workflow);
+    const index = stages.findIndex(stage => stage.id === instance.currentStage);
+
+    emitWorkflowUpdate(tenantId, {
+      workflowInstanceId: instance.instanceId,
+      entityType: instance.entityType,
+      entityId: instance.entityId,
+      stage: instance.currentStage,
+      status: instance.status,
+      assignedTo: instance.assignedTo || undefined,
+      updatedBy: userId || 'system',
+      completionPercentage: instance.status === 'completed'
+        ? 100
+        : stages.length > 1 && index >= 0 ? Math.round((index / (stages.length - 1)) * 100) : undefined,
+      timestamp: new Date()
+    });
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * Workflow SLA Monitor
+ *
+ * Periodically scans open WorkflowInstance rows and measures how long each has
+ * been in its current stage. Passing the stage's `timeoutHours` records a
+ * breach and notifies the assignee; passing the workflow's `escalationHours`
+ * escalates to the vehicle supervisor and the assignee's department head.
+ */
+
+import type { Workflow, WorkflowInstance, WorkflowSlaBreach } from '../../packages/database/generated/tenant-client';
+import { masterDb, getTenantDb } from '../lib/database';
+import { notifyUsers } from '../lib/notifications';
+import { logger } from '../lib/logger';
+import { WorkflowEngine, WorkflowRules, StageHistoryEntry } from './workflowEngine';
+
+export interface StageSla {
+  stageEnteredAt: Date;
+  hoursInStage: number;
+  timeoutHours?: number;
+  escalationHours?: number;
+  dueAt: Date | null;
+}
+
+type OpenInstance = WorkflowInstance & {
+  workflow: Pick<Workflow, 'workflowName' | 'stages' | 'rules'> | null;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function formatHours(hours: number): string {
+  return hours >= 48 ? `${Math.floor(hours / 24)}d ${Math.floor(hours % 24)}h` : `${Math.floor(hours)}h`;
+}
+
+export class WorkflowSlaMonitor {
+  private static readonly POLL_INTERVAL_MS = 5 * 60 * 1000;
+  private static timer: NodeJS.Timeout | null = null;
+  private static isTicking = false;
+
+  /**
+   * Start polling for stalled workflow stages
+   */
+  static initialize(): void {
+    if (process.env.WORKFLOW_SLA_MONITOR_ENABLED === 'false' || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Workflow SLA monitor tick failed:', error));
+    }, this.POLL_INTERVAL_MS);
+    this.timer.unref();
+
+    logger.info('Workflow SLA monitor initialized');
+  }
+
+  /**
+   * Stop polling (used on shutdown)
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check open workflow instances across all active tenants
+   */
+  static async tick(now: Date = new Date()): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+
+    this.isTicking = true;
+    try {
+      const tenants = await masterDb.tenant.findMany({
+        where: { status: 'active' },
+        select: { subdomain: true }
+      });
+
+      for (const tenant of tenants) {
+        try {
+          await this.checkTenant(tenant.subdomain, now);
+        } catch (error) {
+          // One broken tenant must not block the others
+          logger.error(`Workflow SLA check failed for tenant ${tenant.subdomain}:`, error);
+        }
+      }
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Record, notify and escalate stage breaches of a single tenant, and resolve
+   * breaches of instances that have since moved on
+   */
+  static async checkTenant(tenantId: string, now: Date = new Date()): Promise<void> {
+    const tenantDb = await getTenantDb(tenantId);
+
+    const [instances, openBreaches]: [OpenInstance[], WorkflowSlaBreach[]] = await Promise.all([
+      tenantDb.workflowInstance.findMany({
+        where: { status: 'in_progress' },
+        include: {
+          workflow: {
+            select: { workflowName: true, stages: true, rules: true }
+          }
+        }
+      }),
+      tenantDb.workflowSlaBreach.findMany({
+        where: { resolvedAt: null }
+      })
+    ]);
+
+    const currentBreachIds = new Set<string>();
+
+    for (const instance of instances) {
+      const sla = this.getStageSla(instance, now);
+      if (!sla.dueAt || sla.dueAt > now) {
+        continue;
+      }
+
+      try {
+        const breach = await this.recordBreach(tenantId, tenantDb, instance, sla);
+        currentBreachIds.add(breach.breachId);
+      } catch (error) {
+        logger.error(`Workflow SLA check failed for instance ${instance.instanceId}:`, error);
+      }
+    }
+
+    const staleBreachIds = openBreaches
+      .map(breach => breach.breachId)
+      .filter(breachId => !currentBreachIds.has(breachId));
+
+    if (staleBreachIds.length > 0) {
+      await tenantDb.workflowSlaBreach.updateMany({
+        where: { breachId: { in: staleBreachIds }, resolvedAt: null },
+        data: { resolvedAt: now }
+      });
+    }
+  }
+
+  /**
+   * Time spent in the current stage and the thresholds that apply to it
+   */
+  static getStageSla(instance: OpenInstance, now: Date = new Date()): StageSla {
+    const stageEnteredAt = this.getStageEnteredAt(instance);
+    const stage = WorkflowEngine.getStages(instance.workflow)
+      .find(definition => definition.id === instance.currentStage);
+    const rules = (instance.workflow?.rules || {}) as WorkflowRules;
+
+    const timeoutHours = isPositiveNumber(stage?.timeoutHours) ? stage!.timeoutHours : undefined;
+    const escalationHours = isPositiveNumber(rules.escalationHours) ? rules.escalationHours : undefined;
+    const thresholds = [timeoutHours, escalationHours].filter(isPositiveNumber);
+
+    return {
+      stageEnteredAt,
+      hoursInStage: (now.getTime() - stageEnteredAt.getTime()) / HOUR_MS,
+      timeoutHours,
+      escalationHours,
+      dueAt: thresholds.length > 0
+        ? new Date(stageEnteredAt.getTime() + Math.min(...thresholds) * HOUR_MS)
+        : null
+    };
+  }
+
+  /**
+   * When the instance entered its current stage, taken from the start of the
+   * latest run of history entries for that stage
+   */
+  static getStageEnteredAt(instance: Pick<WorkflowInstance, 'currentStage' | 'stageHistory' | 'startedAt'>): Date {
+    const history = Array.isArray(instance.stageHistory)
+      ? (instance.stageHistory as unknown as StageHistoryEntry[]).filter(entry => entry && typeof entry.stage === 'string')
+      : [];
+
+    let enteredAt: string | undefined;
+    for (let index = history.length - 1; index >= 0 && history[index].stage === instance.currentStage; index--) {
+      enteredAt = history[index].timestamp;
+    }
+
+    const parsed = enteredAt ? new Date(enteredAt) : null;
+    return parsed && !isNaN(parsed.getTime()) ? parsed : instance.startedAt;
+  }
+
+  private static async recordBreach(
+    tenantId: string,
+    tenantDb: any,
+    instance: OpenInstance,
+    sla: StageSla
+  ): Promise<WorkflowSlaBreach> {
+    const key = {
+      instanceId: instance.instanceId,
+      stage: instance.currentStage,
+      stageEnteredAt: sla.stageEnteredAt
+    };
+
+    // Only the caller that creates the breach notifies the assignee
+    const created = await tenantDb.workflowSlaBreach.createMany({
+      data: [{
+        ...key,
+        workflowId: instance.workflowId,
+        dueAt: sla.dueAt,
+        assignedTo: instance.assignedTo
+      }],
+      skipDuplicates: true
+    });
+
+    let breach: WorkflowSlaBreach = await tenantDb.workflowSlaBreach.findUnique({
+      where: { instanceId_stage_stageEnteredAt: key }
+    });
+
+    const rules = (instance.workflow?.rules || {}) as WorkflowRules;
+    const notify = rules.notifyOnDelay !== false;
+
+    if (created.count > 0 && notify && instance.assignedTo) {
+      await this.notifyBreach(tenantId, tenantDb, breach, instance, sla, [instance.assignedTo], false);
+      breach = await tenantDb.workflowSlaBreach.update({
+        where: { breachId: breach.breachId },
+        data: { notifiedUserIds: [instance.assignedTo] }
+      });
+    }
+
+    if (sla.escalationHours === undefined || sla.hoursInStage < sla.escalationHours || breach.escalatedAt) {
+      return breach;
+    }
+
+    const claimed = await tenantDb.workflowSlaBreach.updateMany({
+      where: { breachId: breach.breachId, escalatedAt: null },
+      data: { level: 'escalated', escalatedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      return breach;
+    }
+
+    const escalationIds = notify ? await this.findEscalationRecipients(tenantDb, instance) : [];
+    if (escalationIds.length > 0) {
+      await this.notifyBreach(tenantId, tenantDb, breach, instance, sla, escalationIds, true);
+    }
+
+    const notifiedUserIds = [...new Set([...(breach.notifiedUserIds as string[]), ...escalationIds])];
+    return tenantDb.workflowSlaBreach.update({
+      where: { breachId: breach.breachId },
+      data: { notifiedUserIds }
+    });
+  }
+
+  /**
+   * Supervisor of the vehicle the instance tracks and head of the assignee's
+   * department, falling back to active managers when neither is set
+   */
+  private static async findEscalationRecipients(tenantDb: any, instance: WorkflowInstance): Promise<string[]> {
+    const recipientIds: string[] = [];
+
+    if (instance.entityType === 'vehicle' || instance.entityType === 'product') {
+      const vehicle = await tenantDb.vehicle.findUnique({
+        where: { vehicleId: instance.entityId },
+        select: { supervisorId: true }
+      });
+      if (vehicle?.supervisorId) {
+        recipientIds.push(vehicle.supervisorId);
+      }
+    }
+
+    if (instance.assignedTo) {
+      const assignee = await tenantDb.user.findUnique({
+        where: { userId: instance.assignedTo },
+        select: { department: { select: { headUserId: true } } }
+      });
+      if (assignee?.department?.headUserId) {
+        recipientIds.push(assignee.department.headUserId);
+      }
+    }
+
+    const escalationIds = recipientIds.filter(userId => userId !== instance.assignedTo);
+    if (escalationIds.length > 0) {
+      return [...new Set(escalationIds)];
+    }
+
+    const managers: Array<{ userId: string }> = await tenantDb.user.findMany({
+      where: { status: 'active', role: { roleName: 'manager' } },
+      select: { userId: true }
+    });
+    return managers.map(manager => manager.userId).filter(userId => userId !== instance.assignedTo);
+  }
+
+  private static async notifyBreach(
+    tenantId: string,
+    tenantDb: any,
+    breach: WorkflowSlaBreach,
+    instance: OpenInstance,
+    sla: StageSla,
+    recipientIds: string[],
+    escalated: boolean
+  ): Promise<void> {
+    const stageName = WorkflowEngine.getStages(instance.workflow)
+      .find(stage => stage.id === instance.currentStage)?.name || instance.currentStage;
+    const workflowName = instance.workflow?.workflowName || 'Workflow';
+    const limitHours = escalated ? sla.escalationHours! : Math.min(...[sla.timeoutHours, sla.escalationHours].filter(isPositiveNumber));
+
+    let assigneeName = 'unassigned';
+    if (escalated && instance.assignedTo) {
+      const assignee = await tenantDb.user.findUnique({
+        where: { userId: instance.assignedTo },
+        select: { firstName: true, lastName: true }
+      });
+      if (assignee) {
+        assigneeName = `${assignee.firstName} ${assignee.lastName}`;
+      }
+    }
+
+    await notifyUsers(tenantId, {
+      recipientIds,
+      type: escalated ? 'error' : 'warning',
+      title: escalated ? `${workflowName}: stage escalated` : `${workflowName}: stage overdue`,
+      message: escalated
+        ? `"${stageName}" has been open for ${formatHours(sla.hoursInStage)} (limit ${formatHours(limitHours)}), assigned to ${assigneeName}`
+        : `"${stageName}" has been open for ${formatHours(sla.hoursInStage)} (limit ${formatHours(limitHours)})`,
+      action: instance.entityType === 'vehicle' || instance.entityType === 'product'
+        ? { label: 'View vehicle', url: `/vehicles/${instance.entityId}` }
+        : undefined,
+      entityType: 'workflow_instance',
+      entityId: instance.instanceId
+    });
+
+    logger.info(`Workflow SLA ${escalated ? 'escalation' : 'breach'} for instance ${instance.instanceId}`, {
+      tenantId,
+      breachId: breach.breachId,
+      stage: instance.currentStage,
+      recipients: recipientIds.length
+    });
+  }
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FileClock, Loader2 } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+import { AuditChanges, formatAuditAction, formatAuditUser } from '@/components/audit/audit-changes';
+import { useAuditFilterOptions, useAuditLogs } from '@/lib/hooks/useAudit';
+import { userApi } from '@/lib/api/users';
+import type { User } from '@/types';
+
+const PAGE_SIZE = 25;
+const ALL = 'all';
+
+export default function AuditLogsPage() {
+  const [entityType, setEntityType] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [userId, setUserId] = useState(ALL);
+  const [entityId, setEntityId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(1);
+  const [users, setUsers] = useState<User[]>([]);
+
+  const { data: optionsData } = useAuditFilterOptions();
+  const { data, isLoading } = useAuditLogs({
+    page,
+    limit: PAGE_SIZE,
+    entityType: entityType === ALL ? undefined : entityType,
+    action: action === ALL ? undefined : action,
+    userId: userId === ALL ? undefined : userId,
+    entityId: entityId.trim() || undefined,
+    from: from || undefined,
+    to: to || undefined,
+  });
+
+  useEffect(() => {
+    userApi.getUsers()
+      .then((response) => {
+        if (response.success) setUsers(response.data || []);
+      })
+      .catch((error) => console.error('Failed to fetch users:', error));
+  }, []);
+
+  // Any filter change starts from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [entityType, action, userId, entityId, from, to]);
+
+  const entries = data?.data || [];
+  const totalPages = data?.pagination?.totalPages || 1;
+  const entityTypes = optionsData?.data?.entityTypes || [];
+  const actions = (optionsData?.data?.actions || []).filter(
+    (value) => entityType === ALL || value.startsWith(`${entityType}:`)
+  );
+
+  const clearFilters = () => {
+    setEntityType(ALL);
+    setAction(ALL);
+    setUserId(ALL);
+    setEntityId('');
+    setFrom('');
+    setTo('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50/50">
+      <div className="max-w-7xl mx-auto p-6 space-y-8">
+        {/* Page Header */}
+        <div className="bg-white rounded-xl shadow-sm border p-6">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+              <div className="p-2 bg-blue-50 rounded-lg">
+                <FileClock className="h-8 w-8 text-blue-600" />
+              </div>
+              Audit Log
+            </h1>
+            <p className="text-gray-600 text-lg">
+              Who changed what, and when, across vehicles, payments, users, roles, settings and workflows
+            </p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Filters</CardTitle>
+            <CardDescription>Narrow the log by entity, user and date</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="auditEntityType">Entity</Label>
+                <Select
+                  value={entityType}
+                  onValueChange={(value) => {
+                    setEntityType(value);
+                    setAction(ALL);
+                  }}
+                >
+                  <SelectTrigger id="auditEntityType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All entities</SelectItem>
+                    {entityTypes.map((value) => (
+                      <SelectItem key={value} value={value}>{formatAuditAction(value)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auditAction">Action</Label>
+                <Select value={action} onValueChange={setAction}>
+                  <SelectTrigger id="auditAction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All actions</SelectItem>
+                    {actions.map((value) => (
+                      <SelectItem key={value} value={value}>{formatAuditAction(value)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auditUser">User</Label>
+                <Select value={userId} onValueChange={setUserId}>
+                  <SelectTrigger id="auditUser">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All users</SelectItem>
+                    {users.map((user) => (
+                      <SelectItem key={user.userId} value={user.userId}>
+                        {`${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auditEntityId">Entity ID</Label>
+                <Input
+                  id="auditEntityId"
+                  value={entityId}
+                  onChange={(e) => setEntityId(e.target.value)}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auditFrom">From</Label>
+                <Input id="auditFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auditTo">To</Label>
+                <Input id="auditTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            </div>
+            <div className="mt-4 flex justify-end">
+              <Button variant="outline" size="sm" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex justify-center py-10">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="py-10 text-center text-sm text-gray-500">No audit entries match these filters</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[170px]">When</TableHead>
+                    <TableHead className="w-[160px]">User</TableHead>
+                    <TableHead className="w-[200px]">Action</TableHead>
+                    <TableHead className="w-[220px]">Entity</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.logId} className="align-top">
+                      <TableCell className="text-sm">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <div className="text-sm font-medium">{formatAuditUser(entry)}</div>
+                        {entry.ipAddress && <div className="text-xs text-gray-500">{entry.ipAddress}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{formatAuditAction(entry.action)}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{entry.entityType ? formatAuditAction(entry.entityType) : '-'}</div>
+                        {entry.entityId && (
+                          <button
+                            type="button"
+                            className="font-mono text-xs text-blue-600 hover:underline break-all text-left"
+                            onClick={() => setEntityId(entry.entityId!)}
+                            title="Show all entries for this record"
+                          >
+                            {entry.entityId}
+                          </button>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <AuditChanges entry={entry} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex items-center justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+            Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
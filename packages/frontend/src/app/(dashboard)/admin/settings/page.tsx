@@ -31,6 +31,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { toast } from 'sonner';
+import { WebhooksCard } from '@/components/settings/webhooks-card';
 
 interface SystemSettings {
   // Database Settings
@@ -711,6 +712,9 @@ export default function AdminSettingsPage() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Webhooks */}
+        <WebhooksCard />
       </div>
     </div>
   );
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import { UsageMeters } from "@/components/tenant/usage-meters";
 import { 
   Building, 
   Plus, 
@@ -434,6 +435,9 @@ export default function AdminTenantPage() {
           </div>
         </div>
 
+        {/* Plan Usage */}
+        <UsageMeters />
+
         {/* Statistics Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <Card className="shadow-sm border-0 bg-white">
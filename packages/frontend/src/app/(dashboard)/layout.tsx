@@ -3,6 +3,7 @@
 import { ProtectedRoute } from '@/components/auth/protected-route';
 import { DashboardNav } from '@/components/layout/dashboard-nav';
 import { DashboardHeader } from '@/components/layout/dashboard-header';
+import { SocketProvider } from '@/lib/providers/socket-provider';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -11,20 +12,22 @@ interface DashboardLayoutProps {
 export default function DashboardLayout({ children }: DashboardLayoutProps) {
   return (
     <ProtectedRoute>
-      <div className="min-h-screen bg-background">
-        {/* Header */}
-        <DashboardHeader />
+      <SocketProvider>
+        <div className="min-h-screen bg-background">
+          {/* Header */}
+          <DashboardHeader />
         
-        <div className="flex">
-          {/* Sidebar Navigation */}
-          <DashboardNav />
+          <div className="flex">
+            {/* Sidebar Navigation */}
+            <DashboardNav />
           
-          {/* Main Content */}
-          <main className="flex-1 p-6">
-            {children}
-          </main>
+            {/* Main Content */}
+            <main className="flex-1 p-6">
+              {children}
+            </main>
+          </div>
         </div>
-      </div>
+      </SocketProvider>
     </ProtectedRoute>
   );
 }
\ No newline at end of file
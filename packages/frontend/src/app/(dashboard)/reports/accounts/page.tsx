@@ -10,8 +10,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { toast } from 'sonner';
-import { Search, Edit, Plus, IndianRupee, Calendar, AlertCircle } from 'lucide-react';
+import { Search, Edit, Plus, IndianRupee, Calendar, AlertCircle, Receipt } from 'lucide-react';
 import { paymentApi, type Payment, type PaymentSummary } from '@/lib/api/payments';
+import { InvoicesCard } from '@/components/accounts/invoices-card';
+import { AgeingCard } from '@/components/accounts/ageing-card';
+import { PaymentTransactionsDialog } from '@/components/accounts/payment-transactions-dialog';
 import {
   Table,
   TableBody,
@@ -42,6 +45,8 @@ export default function AccountsPage() {
   const [statusFilter, setStatusFilter] = useState('all');
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedPayment, setSelectedPayment] = useState<Payment | null>(null);
+  const [ledgerPayment, setLedgerPayment] = useState<Payment | null>(null);
+  const [ageingRefreshKey, setAgeingRefreshKey] = useState(0);
   const [editFormData, setEditFormData] = useState<EditFormData>({
     amount: 0,
     paidAmount: 0,
@@ -55,9 +60,9 @@ export default function AccountsPage() {
     invoiceNumber: ''
   });
 
-  const fetchData = async () => {
+  const fetchData = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       const [paymentsData, summaryData] = await Promise.all([
         paymentApi.getOutstandingPayments(),
         paymentApi.getPaymentSummary()
@@ -66,6 +71,7 @@ export default function AccountsPage() {
       // Ensure payments is always an array
       setPayments(Array.isArray(paymentsData) ? paymentsData : []);
       setSummary(summaryData);
+      setAgeingRefreshKey(key => key + 1);
     } catch (error) {
       console.error('Error fetching payment data:', error);
       toast.error('Failed to fetch payment data. Please try again.');
@@ -246,6 +252,8 @@ export default function AccountsPage() {
         </div>
       )}
 
+      <AgeingCard refreshKey={ageingRefreshKey} />
+
       {/* Filters */}
       <Card className="mb-6">
         <CardContent className="p-4">
@@ -337,15 +345,28 @@ export default function AccountsPage() {
                     </TableCell>
                     <TableCell>
                       {payment.dueDate ? new Date(payment.dueDate).toLocaleDateString() : 'No due date'}
+                      {payment.dueDate && (payment.daysPastDue ?? 0) > 0 && (
+                        <div className="text-xs text-red-600">{payment.daysPastDue} days overdue</div>
+                      )}
                     </TableCell>
                     <TableCell>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleEditPayment(payment)}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Transactions"
+                          onClick={() => setLedgerPayment(payment)}
+                        >
+                          <Receipt className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleEditPayment(payment)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))}
@@ -355,6 +376,14 @@ export default function AccountsPage() {
         </CardContent>
       </Card>
 
+      <InvoicesCard />
+
+      <PaymentTransactionsDialog
+        payment={ledgerPayment}
+        onOpenChange={(open) => !open && setLedgerPayment(null)}
+        onChanged={() => fetchData(false)}
+      />
+
       {/* Edit Payment Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="max-w-2xl">
@@ -380,8 +409,11 @@ export default function AccountsPage() {
                     id="paidAmount"
                     type="number"
                     value={editFormData.paidAmount}
-                    onChange={(e) => setEditFormData(prev => ({ ...prev, paidAmount: Number(e.target.value) }))}
+                    disabled
                   />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Record receipts and refunds from the transactions ledger
+                  </p>
                 </div>
               </div>
 
@@ -46,6 +46,7 @@ import { organizationApi } from '@/lib/api/organization';
 import type { OrganizationSettings, BankDetails, QRCode } from '@/lib/api/organization';
 import { useOrganization, useOrganizationLogo } from '@/lib/providers/organization-provider';
 import { toast } from 'sonner';
+import { ActiveSessionsCard } from '@/components/settings/active-sessions-card';
 
 export default function SettingsPage() {
   const { organization, refreshOrganization, updateOrganization } = useOrganization();
@@ -699,6 +700,9 @@ export default function SettingsPage() {
           )}
         </CardContent>
       </Card>
+
+      {/* Active Sessions */}
+      <ActiveSessionsCard />
     </div>
   );
 }
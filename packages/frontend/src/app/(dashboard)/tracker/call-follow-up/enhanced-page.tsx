@@ -1,20 +1,20 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { 
-  Dialog, 
-  DialogContent, 
-  DialogDescription, 
-  DialogFooter, 
-  DialogHeader, 
-  DialogTitle, 
-  DialogTrigger 
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
 } from "@/components/ui/dialog";
 import {
   Select,
@@ -41,73 +41,39 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { 
-  Phone, 
-  Plus, 
-  Search, 
-  Edit, 
-  Trash2, 
-  Clock, 
-  CheckCircle, 
+import {
+  Phone,
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  Clock,
+  CheckCircle,
   AlertTriangle,
-  User,
   Calendar,
-  Filter,
   Download,
-  Users,
-  UserPlus,
-  Settings,
   Loader2,
-  FileText,
   History
 } from "lucide-react";
 import { toast } from 'sonner';
 
-interface CallFollowUp {
-  id: string;
-  callerName: string;
-  phoneNumber: string;
-  personToContact: string;
-  operatorId: string;
-  operatorName: string;
-  priority: 'low' | 'medium' | 'high';
-  status: 'call_entered' | 'active_calls' | 'pending' | 'followed_up' | 'not_received' | 'completed';
-  responseTime: number; // in minutes
-  callOutcome: string;
-  notes: string;
-  createdAt: string;
-  updatedAt: string;
-  followUpDate?: string;
-  assignedToId?: string;
-  assignedToName?: string;
-  statusHistory: StatusChange[];
-}
-
-interface StatusChange {
-  id: string;
-  fromStatus: string;
-  toStatus: string;
-  changedAt: string;
-  changedBy: string;
-  notes?: string;
-}
-
-interface Operator {
-  id: string;
-  name: string;
-  phone: string;
-  email: string;
-  isActive: boolean;
-}
-
-interface AssignedPerson {
-  id: string;
-  name: string;
-  department: string;
-  phone: string;
-  email: string;
-  isActive: boolean;
-}
+import type {
+  CallFollowUp,
+  CallFollowUpPriority,
+  CallFollowUpRequest,
+  CallFollowUpStatus,
+  CallFollowUpUser,
+} from '@/lib/api/callFollowUps';
+import {
+  useCallFollowUp,
+  useCallFollowUpAssignees,
+  useCallFollowUpQueues,
+  useCallFollowUps,
+  useCreateCallFollowUp,
+  useDeleteCallFollowUp,
+  useUpdateCallFollowUp,
+  useUpdateCallFollowUpStatus,
+} from '@/lib/hooks/useCallFollowUps';
 
 const priorityConfig = {
   low: { label: 'Low', color: 'bg-green-100 text-green-800' },
@@ -124,197 +90,76 @@ const statusConfig = {
   completed: { label: 'Completed', color: 'bg-green-100 text-green-800', icon: CheckCircle }
 };
 
+const UNASSIGNED = 'unassigned';
+const PAGE_SIZE = 25;
+
+const emptyForm = {
+  callerName: '',
+  phoneNumber: '',
+  personToContact: '',
+  operatorId: UNASSIGNED,
+  assignedToId: UNASSIGNED,
+  priority: 'medium' as CallFollowUpPriority,
+  status: 'call_entered' as CallFollowUpStatus,
+  callOutcome: '',
+  notes: '',
+  followUpDate: ''
+};
+
+const getUserName = (user?: CallFollowUpUser | null) => {
+  if (!user) return '-';
+  return `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email;
+};
+
+// datetime-local inputs work in local time without a zone
+const toDateTimeLocal = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
 export default function EnhancedCallFollowUpTrackerPage() {
-  const [calls, setCalls] = useState<CallFollowUp[]>([]);
-  const [filteredCalls, setFilteredCalls] = useState<CallFollowUp[]>([]);
-  const [operators, setOperators] = useState<Operator[]>([]);
-  const [assignedPersons, setAssignedPersons] = useState<AssignedPerson[]>([]);
-  const [loading, setLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [priorityFilter, setPriorityFilter] = useState<string>('all');
+  const [assignmentFilter, setAssignmentFilter] = useState<'all' | 'mine'>('all');
+  const [page, setPage] = useState(1);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [isOperatorDialogOpen, setIsOperatorDialogOpen] = useState(false);
-  const [isPersonDialogOpen, setIsPersonDialogOpen] = useState(false);
   const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
   const [editingCall, setEditingCall] = useState<CallFollowUp | null>(null);
-  const [editingOperator, setEditingOperator] = useState<Operator | null>(null);
-  const [editingPerson, setEditingPerson] = useState<AssignedPerson | null>(null);
-  const [selectedCallHistory, setSelectedCallHistory] = useState<CallFollowUp | null>(null);
+  const [selectedCallId, setSelectedCallId] = useState<string | null>(null);
   const [deleteCallId, setDeleteCallId] = useState<string | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
 
   // Form state
-  const [formData, setFormData] = useState({
-    callerName: '',
-    phoneNumber: '',
-    personToContact: '',
-    operatorId: '',
-    priority: 'medium' as const,
-    status: 'call_entered' as const,
-    callOutcome: '',
-    notes: '',
-    followUpDate: '',
-    assignedToId: ''
-  });
-
-  const [operatorFormData, setOperatorFormData] = useState({
-    name: '',
-    phone: '',
-    email: ''
-  });
-
-  const [personFormData, setPersonFormData] = useState({
-    name: '',
-    department: '',
-    phone: '',
-    email: ''
-  });
-
-  // Enhanced mock data with status history
-  useEffect(() => {
-    const mockOperators: Operator[] = [
-      { id: 'op_001', name: 'Priya Sharma', phone: '+91-9876543210', email: 'priya@omsms.com', isActive: true },
-      { id: 'op_002', name: 'Vikram Singh', phone: '+91-9876543211', email: 'vikram@omsms.com', isActive: true },
-      { id: 'op_003', name: 'Neha Gupta', phone: '+91-9876543212', email: 'neha@omsms.com', isActive: true }
-    ];
-
-    const mockAssignedPersons: AssignedPerson[] = [
-      { id: 'person_001', name: 'Raj Kumar', department: 'Sales', phone: '+91-9876543213', email: 'raj@omsms.com', isActive: true },
-      { id: 'person_002', name: 'Amit Patel', department: 'Service', phone: '+91-9876543214', email: 'amit@omsms.com', isActive: true },
-      { id: 'person_003', name: 'Suresh Mehta', department: 'Installation', phone: '+91-9876543215', email: 'suresh@omsms.com', isActive: true }
-    ];
-
-    const mockCalls: CallFollowUp[] = [
-      {
-        id: 'call_001',
-        callerName: 'John Smith',
-        phoneNumber: '+91-9876543210',
-        personToContact: 'Raj Kumar',
-        operatorId: 'op_001',
-        operatorName: 'Priya Sharma',
-        priority: 'high',
-        status: 'active_calls',
-        responseTime: 15,
-        callOutcome: 'Customer inquiry about installation status',
-        notes: 'Customer wants to know when their car will be ready',
-        createdAt: '2024-01-15T10:30:00Z',
-        updatedAt: '2024-01-15T10:30:00Z',
-        followUpDate: '2024-01-16T10:00:00Z',
-        assignedToId: 'person_001',
-        assignedToName: 'Raj Kumar',
-        statusHistory: [
-          {
-            id: 'status_001',
-            fromStatus: 'call_entered',
-            toStatus: 'active_calls',
-            changedAt: '2024-01-15T10:30:00Z',
-            changedBy: 'Priya Sharma',
-            notes: 'Call picked up and customer inquiry noted'
-          }
-        ]
-      },
-      {
-        id: 'call_002',
-        callerName: 'Sarah Johnson',
-        phoneNumber: '+91-9876543211',
-        personToContact: 'Amit Patel',
-        operatorId: 'op_002',
-        operatorName: 'Vikram Singh',
-        priority: 'medium',
-        status: 'pending',
-        responseTime: 30,
-        callOutcome: 'Service request for audio system',
-        notes: 'Customer needs audio system installation',
-        createdAt: '2024-01-15T11:00:00Z',
-        updatedAt: '2024-01-15T11:00:00Z',
-        followUpDate: '2024-01-17T14:00:00Z',
-        assignedToId: 'person_002',
-        assignedToName: 'Amit Patel',
-        statusHistory: [
-          {
-            id: 'status_002',
-            fromStatus: 'call_entered',
-            toStatus: 'pending',
-            changedAt: '2024-01-15T11:00:00Z',
-            changedBy: 'Vikram Singh',
-            notes: 'Service request logged, awaiting technician assignment'
-          }
-        ]
-      },
-      {
-        id: 'call_003',
-        callerName: 'Mike Wilson',
-        phoneNumber: '+91-9876543212',
-        personToContact: 'Neha Gupta',
-        operatorId: 'op_001',
-        operatorName: 'Priya Sharma',
-        priority: 'low',
-        status: 'completed',
-        responseTime: 5,
-        callOutcome: 'Installation completed successfully',
-        notes: 'Customer satisfied with the service',
-        createdAt: '2024-01-14T15:30:00Z',
-        updatedAt: '2024-01-15T09:00:00Z',
-        followUpDate: '2024-01-15T10:00:00Z',
-        assignedToId: 'person_003',
-        assignedToName: 'Suresh Mehta',
-        statusHistory: [
-          {
-            id: 'status_003',
-            fromStatus: 'call_entered',
-            toStatus: 'active_calls',
-            changedAt: '2024-01-14T15:30:00Z',
-            changedBy: 'Priya Sharma',
-            notes: 'Call received and logged'
-          },
-          {
-            id: 'status_004',
-            fromStatus: 'active_calls',
-            toStatus: 'completed',
-            changedAt: '2024-01-15T09:00:00Z',
-            changedBy: 'Neha Gupta',
-            notes: 'Installation completed and customer confirmed satisfaction'
-          }
-        ]
-      }
-    ];
-
-    setOperators(mockOperators);
-    setAssignedPersons(mockAssignedPersons);
-    setCalls(mockCalls);
-    // Initially filter out completed calls
-    setFilteredCalls(mockCalls.filter(call => call.status !== 'completed'));
-  }, []);
-
-  // Filter calls
-  useEffect(() => {
-    let filtered = calls;
-
+  const [formData, setFormData] = useState(emptyForm);
+
+  const mine = assignmentFilter === 'mine';
+  const { data: callsData, isLoading } = useCallFollowUps({
+    page,
+    limit: PAGE_SIZE,
+    search: searchTerm || undefined,
+    status: statusFilter === 'all' ? undefined : statusFilter as CallFollowUpStatus,
+    priority: priorityFilter === 'all' ? undefined : priorityFilter as CallFollowUpPriority,
+    mine: mine || undefined,
     // By default, exclude completed calls from main table unless specifically filtering for them
-    if (statusFilter === 'all') {
-      filtered = filtered.filter(call => call.status !== 'completed');
-    }
-
-    if (searchTerm) {
-      filtered = filtered.filter(call =>
-        call.callerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        call.phoneNumber.includes(searchTerm) ||
-        call.personToContact.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        call.operatorName.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
-
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(call => call.status === statusFilter);
-    }
-
-    if (priorityFilter !== 'all') {
-      filtered = filtered.filter(call => call.priority === priorityFilter);
-    }
-
-    setFilteredCalls(filtered);
-  }, [calls, searchTerm, statusFilter, priorityFilter]);
+    includeCompleted: statusFilter === 'all' ? false : undefined
+  });
+  const { data: queuesData } = useCallFollowUpQueues(mine);
+  const { data: selectedCallData, isLoading: selectedCallLoading } = useCallFollowUp(selectedCallId);
+  const { data: assigneesData } = useCallFollowUpAssignees();
+  const createCallMutation = useCreateCallFollowUp();
+  const updateCallMutation = useUpdateCallFollowUp();
+  const updateStatusMutation = useUpdateCallFollowUpStatus();
+  const deleteCallMutation = useDeleteCallFollowUp();
+
+  const filteredCalls: CallFollowUp[] = callsData?.data || [];
+  const totalPages = callsData?.pagination?.totalPages || 1;
+  const overdueCalls = queuesData?.data?.overdue || [];
+  const dueTodayCalls = queuesData?.data?.dueToday || [];
+  const selectedCall = selectedCallData?.data || null;
+  const assignees = assigneesData?.data || [];
 
   // Utility functions
   const formatDate = (dateString: string) => {
@@ -337,10 +182,15 @@ export default function EnhancedCallFollowUpTrackerPage() {
     }
   };
 
-  const calculateResponseTime = (createdAt: string, updatedAt: string) => {
-    const created = new Date(createdAt);
-    const updated = new Date(updatedAt);
-    return Math.floor((updated.getTime() - created.getTime()) / (1000 * 60));
+  // Minutes until the call was first acted on (still counting while it is untouched)
+  const calculateResponseTime = (call: CallFollowUp) => {
+    const created = new Date(call.createdAt);
+    const responded = call.firstRespondedAt ? new Date(call.firstRespondedAt) : new Date();
+    return Math.max(0, Math.floor((responded.getTime() - created.getTime()) / (1000 * 60)));
+  };
+
+  const isOverdue = (call: CallFollowUp) => {
+    return !!call.followUpAt && call.status !== 'completed' && new Date(call.followUpAt) < new Date();
   };
 
   const handlePhoneClick = (phoneNumber: string) => {
@@ -348,85 +198,66 @@ export default function EnhancedCallFollowUpTrackerPage() {
   };
 
   const handleStatusChange = (callId: string, newStatus: string) => {
-    const call = calls.find(c => c.id === callId);
-    if (!call) return;
-
-    const statusChange: StatusChange = {
-      id: `status_${Date.now()}`,
-      fromStatus: call.status,
-      toStatus: newStatus,
-      changedAt: new Date().toISOString(),
-      changedBy: 'Current User', // In real app, get from auth
-      notes: `Status changed from ${statusConfig[call.status as keyof typeof statusConfig].label} to ${statusConfig[newStatus as keyof typeof statusConfig].label}`
-    };
-
-    const updatedCall: CallFollowUp = {
-      ...call,
-      status: newStatus as any,
-      updatedAt: new Date().toISOString(),
-      responseTime: calculateResponseTime(call.createdAt, new Date().toISOString()),
-      statusHistory: [...call.statusHistory, statusChange]
-    };
-
-    setCalls(calls.map(c => c.id === callId ? updatedCall : c));
-    
-    // If status changed to completed, show success message
-    if (newStatus === 'completed') {
-      toast.success(`Call completed! It has been moved to the completed section.`);
-    } else {
-      toast.success(`Status updated to ${statusConfig[newStatus as keyof typeof statusConfig].label}`);
-    }
+    const status = newStatus as CallFollowUpStatus;
+
+    updateStatusMutation.mutate({ callId, data: { status } }, {
+      onSuccess: () => {
+        // If status changed to completed, show success message
+        if (status === 'completed') {
+          toast.success(`Call completed! It has been moved to the completed section.`);
+        } else {
+          toast.success(`Status updated to ${statusConfig[status].label}`);
+        }
+      },
+      onError: (error: any) => toast.error(error.message || 'Failed to update status')
+    });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
+    setSaving(true);
+
+    const details: CallFollowUpRequest = {
+      callerName: formData.callerName.trim(),
+      phoneNumber: formData.phoneNumber.trim(),
+      personToContact: formData.personToContact.trim() || null,
+      operatorId: formData.operatorId === UNASSIGNED ? null : formData.operatorId,
+      assignedToId: formData.assignedToId === UNASSIGNED ? null : formData.assignedToId,
+      priority: formData.priority,
+      notes: formData.notes.trim() || null,
+      followUpAt: formData.followUpDate ? new Date(formData.followUpDate).toISOString() : null
+    };
 
     try {
       if (editingCall) {
         // Update existing call
-        const updatedCalls = calls.map(call =>
-          call.id === editingCall.id
-            ? { 
-                ...call, 
-                ...formData, 
-                updatedAt: new Date().toISOString(),
-                responseTime: calculateResponseTime(call.createdAt, new Date().toISOString())
-              }
-            : call
-        );
-        setCalls(updatedCalls);
+        await updateCallMutation.mutateAsync({ callId: editingCall.callId, data: details });
+
+        const callOutcome = formData.callOutcome.trim();
+        if (formData.status !== editingCall.status || callOutcome !== (editingCall.callOutcome || '')) {
+          await updateStatusMutation.mutateAsync({
+            callId: editingCall.callId,
+            data: { status: formData.status, callOutcome: callOutcome || undefined }
+          });
+        }
         toast.success('Call follow-up updated successfully');
       } else {
-        // Create new call
-        const newCall: CallFollowUp = {
-          id: `call_${Date.now()}`,
-          ...formData,
-          operatorName: operators.find(op => op.id === formData.operatorId)?.name || 'Unknown',
-          assignedToName: assignedPersons.find(person => person.id === formData.assignedToId)?.name || '',
-          responseTime: 0,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-          statusHistory: [{
-            id: `status_${Date.now()}`,
-            fromStatus: '',
-            toStatus: formData.status,
-            changedAt: new Date().toISOString(),
-            changedBy: 'Current User',
-            notes: 'Initial call entry'
-          }]
-        };
-        setCalls([newCall, ...calls]);
+        // Create new call (the operator defaults to the current user)
+        await createCallMutation.mutateAsync({
+          ...details,
+          operatorId: formData.operatorId === UNASSIGNED ? undefined : formData.operatorId,
+          callOutcome: formData.callOutcome.trim() || null
+        });
         toast.success('Call follow-up created successfully');
       }
 
       setIsDialogOpen(false);
       setEditingCall(null);
       resetForm();
-    } catch (error) {
-      toast.error('Failed to save call follow-up');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save call follow-up');
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
   };
 
@@ -435,43 +266,34 @@ export default function EnhancedCallFollowUpTrackerPage() {
     setFormData({
       callerName: call.callerName,
       phoneNumber: call.phoneNumber,
-      personToContact: call.personToContact,
-      operatorId: call.operatorId,
+      personToContact: call.personToContact || '',
+      operatorId: call.operatorId || UNASSIGNED,
+      assignedToId: call.assignedToId || UNASSIGNED,
       priority: call.priority,
       status: call.status,
-      callOutcome: call.callOutcome,
-      notes: call.notes,
-      followUpDate: call.followUpDate || '',
-      assignedToId: call.assignedToId || ''
+      callOutcome: call.callOutcome || '',
+      notes: call.notes || '',
+      followUpDate: toDateTimeLocal(call.followUpAt)
     });
     setIsDialogOpen(true);
   };
 
   const handleDelete = (callId: string) => {
-    setCalls(calls.filter(call => call.id !== callId));
-    toast.success('Call follow-up deleted successfully');
+    deleteCallMutation.mutate(callId, {
+      onSuccess: () => toast.success('Call follow-up deleted successfully'),
+      onError: (error: any) => toast.error(error.message || 'Failed to delete call follow-up')
+    });
     setIsDeleteDialogOpen(false);
     setDeleteCallId(null);
   };
 
   const handleViewHistory = (call: CallFollowUp) => {
-    setSelectedCallHistory(call);
+    setSelectedCallId(call.callId);
     setIsHistoryDialogOpen(true);
   };
 
   const resetForm = () => {
-    setFormData({
-      callerName: '',
-      phoneNumber: '',
-      personToContact: '',
-      operatorId: '',
-      priority: 'medium',
-      status: 'call_entered',
-      callOutcome: '',
-      notes: '',
-      followUpDate: '',
-      assignedToId: ''
-    });
+    setFormData(emptyForm);
   };
 
   const handleDialogClose = () => {
@@ -480,21 +302,30 @@ export default function EnhancedCallFollowUpTrackerPage() {
     resetForm();
   };
 
+  const handleFilterChange = (setter: (value: any) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
   const handleExport = () => {
+    const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
     const csvContent = [
-      ['Caller Name', 'Phone', 'Contact Person', 'Operator', 'Priority', 'Status', 'Response Time', 'Created', 'Notes'],
+      ['Caller Name', 'Phone', 'Contact Person', 'Operator', 'Assigned To', 'Priority', 'Status', 'Response Time', 'Follow-up', 'Created', 'Outcome', 'Notes'],
       ...filteredCalls.map(call => [
         call.callerName,
         call.phoneNumber,
-        call.personToContact,
-        call.operatorName,
+        call.personToContact || '',
+        getUserName(call.operator),
+        getUserName(call.assignedTo),
         priorityConfig[call.priority].label,
         statusConfig[call.status].label,
-        formatResponseTime(call.responseTime),
+        formatResponseTime(calculateResponseTime(call)),
+        call.followUpAt ? formatDate(call.followUpAt) : '',
         formatDate(call.createdAt),
-        call.notes
+        call.callOutcome || '',
+        call.notes || ''
       ])
-    ].map(row => row.join(',')).join('\n');
+    ].map(row => row.map(escape).join(',')).join('\n');
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
@@ -507,13 +338,60 @@ export default function EnhancedCallFollowUpTrackerPage() {
   };
 
   // Dashboard statistics
+  const summary = callsData?.summary;
   const stats = {
-    activeCalls: calls.filter(call => call.status === 'active_calls').length,
-    pending: calls.filter(call => call.status === 'pending').length,
-    completed: calls.filter(call => call.status === 'completed').length,
-    total: calls.length
+    activeCalls: summary?.active_calls || 0,
+    pending: summary?.pending || 0,
+    completed: summary?.completed || 0,
+    total: summary?.total || 0
   };
 
+  const renderUserSelect = (value: string, onChange: (value: string) => void, emptyLabel: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>{emptyLabel}</SelectItem>
+        {assignees.map(user => (
+          <SelectItem key={user.userId} value={user.userId}>
+            {getUserName(user)}{user.department ? ` (${user.department.departmentName})` : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderQueue = (title: string, calls: CallFollowUp[], tone: string) => (
+    <div className="space-y-2">
+      <h3 className={`text-sm font-semibold ${tone}`}>{title} ({calls.length})</h3>
+      {calls.length > 0 ? (
+        <div className="space-y-2 max-h-60 overflow-y-auto">
+          {calls.map(call => (
+            <div key={call.callId} className="flex items-center justify-between border rounded-lg p-3">
+              <div className="min-w-0">
+                <div className="font-medium text-sm">{call.callerName}</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDate(call.followUpAt!)} · {getUserName(call.assignedTo || call.operator)}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => handlePhoneClick(call.phoneNumber)}>
+                  <Phone className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleEdit(call)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground py-2">Nothing here</p>
+      )}
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -531,9 +409,9 @@ export default function EnhancedCallFollowUpTrackerPage() {
 
       {/* Dashboard Statistics Cards */}
       <div className="grid gap-4 md:grid-cols-4">
-        <Card 
+        <Card
           className="cursor-pointer hover:shadow-lg transition-shadow"
-          onClick={() => setStatusFilter('active_calls')}
+          onClick={() => handleFilterChange(setStatusFilter)('active_calls')}
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Active Calls</CardTitle>
@@ -546,9 +424,9 @@ export default function EnhancedCallFollowUpTrackerPage() {
             </p>
           </CardContent>
         </Card>
-        <Card 
+        <Card
           className="cursor-pointer hover:shadow-lg transition-shadow"
-          onClick={() => setStatusFilter('pending')}
+          onClick={() => handleFilterChange(setStatusFilter)('pending')}
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Pending</CardTitle>
@@ -561,9 +439,9 @@ export default function EnhancedCallFollowUpTrackerPage() {
             </p>
           </CardContent>
         </Card>
-        <Card 
+        <Card
           className="cursor-pointer hover:shadow-lg transition-shadow"
-          onClick={() => setStatusFilter('completed')}
+          onClick={() => handleFilterChange(setStatusFilter)('completed')}
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Completed</CardTitle>
@@ -590,34 +468,52 @@ export default function EnhancedCallFollowUpTrackerPage() {
         </Card>
       </div>
 
+      {/* Callback Queues */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="h-5 w-5" />
+                Callback Queue
+              </CardTitle>
+              <CardDescription>
+                Scheduled callbacks that are overdue or due today. Assignees are reminded before each callback.
+              </CardDescription>
+            </div>
+            <Select value={assignmentFilter} onValueChange={handleFilterChange(setAssignmentFilter)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Calls</SelectItem>
+                <SelectItem value="mine">Assigned to Me</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-6 md:grid-cols-2">
+            {renderQueue('Overdue', overdueCalls, 'text-red-600')}
+            {renderQueue('Due Today', dueTodayCalls, 'text-yellow-600')}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Management Section */}
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle>Call Follow-Up Management</CardTitle>
             <div className="flex gap-2">
-              <Button
-                variant="outline"
-                onClick={() => setIsOperatorDialogOpen(true)}
-              >
-                <Users className="mr-2 h-4 w-4" />
-                Manage Operators
-              </Button>
-              <Button
-                variant="outline"
-                onClick={() => setIsPersonDialogOpen(true)}
-              >
-                <UserPlus className="mr-2 h-4 w-4" />
-                Manage Persons
-              </Button>
-              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <Dialog open={isDialogOpen} onOpenChange={(open) => open ? setIsDialogOpen(true) : handleDialogClose()}>
                 <DialogTrigger asChild>
                   <Button onClick={() => { setEditingCall(null); resetForm(); }}>
                     <Plus className="mr-2 h-4 w-4" />
                     New Call Follow-Up
                   </Button>
                 </DialogTrigger>
-                <DialogContent className="max-w-2xl">
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                   <DialogHeader>
                     <DialogTitle>
                       {editingCall ? 'Edit Call Follow-Up' : 'Add New Call Follow Up'}
@@ -649,42 +545,20 @@ export default function EnhancedCallFollowUpTrackerPage() {
                     </div>
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
-                        <Label htmlFor="personToContact">Person to Contact *</Label>
+                        <Label htmlFor="personToContact">Person to Contact</Label>
                         <Input
                           id="personToContact"
                           value={formData.personToContact}
                           onChange={(e) => setFormData({ ...formData, personToContact: e.target.value })}
-                          required
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label htmlFor="operatorId">Operator *</Label>
-                        <div className="flex gap-2">
-                          <Select
-                            value={formData.operatorId}
-                            onValueChange={(value) => setFormData({ ...formData, operatorId: value })}
-                          >
-                            <SelectTrigger className="flex-1">
-                              <SelectValue placeholder="Select an operator..." />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {operators.map(operator => (
-                                <SelectItem key={operator.id} value={operator.id}>
-                                  {operator.name}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <Button
-                            type="button"
-                            variant="outline"
-                            size="sm"
-                            className="bg-green-600 hover:bg-green-700 text-white border-green-600"
-                            onClick={() => setIsOperatorDialogOpen(true)}
-                          >
-                            <Plus className="h-4 w-4" />
-                          </Button>
-                        </div>
+                        <Label htmlFor="operatorId">Operator</Label>
+                        {renderUserSelect(
+                          formData.operatorId,
+                          (value) => setFormData({ ...formData, operatorId: value }),
+                          editingCall ? 'None' : 'Me'
+                        )}
                       </div>
                     </div>
                     <div className="grid grid-cols-2 gap-4">
@@ -709,6 +583,7 @@ export default function EnhancedCallFollowUpTrackerPage() {
                         <Select
                           value={formData.status}
                           onValueChange={(value: any) => setFormData({ ...formData, status: value })}
+                          disabled={!editingCall}
                         >
                           <SelectTrigger>
                             <SelectValue />
@@ -724,33 +599,23 @@ export default function EnhancedCallFollowUpTrackerPage() {
                         </Select>
                       </div>
                     </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="assignedToId">Assigned To *</Label>
-                      <div className="flex gap-2">
-                        <Select
-                          value={formData.assignedToId}
-                          onValueChange={(value) => setFormData({ ...formData, assignedToId: value })}
-                        >
-                          <SelectTrigger className="flex-1">
-                            <SelectValue placeholder="Select assigned person..." />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {assignedPersons.map(person => (
-                              <SelectItem key={person.id} value={person.id}>
-                                {person.name} ({person.department})
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <Button
-                          type="button"
-                          variant="outline"
-                          size="sm"
-                          className="bg-green-600 hover:bg-green-700 text-white border-green-600"
-                          onClick={() => setIsPersonDialogOpen(true)}
-                        >
-                          <Plus className="h-4 w-4" />
-                        </Button>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="assignedToId">Assigned To</Label>
+                        {renderUserSelect(
+                          formData.assignedToId,
+                          (value) => setFormData({ ...formData, assignedToId: value }),
+                          'Unassigned'
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="followUpDate">Follow-up Date</Label>
+                        <Input
+                          id="followUpDate"
+                          type="datetime-local"
+                          value={formData.followUpDate}
+                          onChange={(e) => setFormData({ ...formData, followUpDate: e.target.value })}
+                        />
                       </div>
                     </div>
                     <div className="space-y-2">
@@ -772,21 +637,12 @@ export default function EnhancedCallFollowUpTrackerPage() {
                         required
                       />
                     </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="followUpDate">Follow-up Date</Label>
-                      <Input
-                        id="followUpDate"
-                        type="datetime-local"
-                        value={formData.followUpDate}
-                        onChange={(e) => setFormData({ ...formData, followUpDate: e.target.value })}
-                      />
-                    </div>
                     <DialogFooter>
                       <Button type="button" variant="outline" onClick={handleDialogClose}>
                         Cancel
                       </Button>
-                      <Button type="submit" disabled={loading}>
-                        {loading ? (
+                      <Button type="submit" disabled={saving}>
+                        {saving ? (
                           <>
                             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                             Saving...
@@ -811,12 +667,12 @@ export default function EnhancedCallFollowUpTrackerPage() {
                 <Input
                   placeholder="Search calls..."
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => handleFilterChange(setSearchTerm)(e.target.value)}
                   className="pl-10"
                 />
               </div>
             </div>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <Select value={statusFilter} onValueChange={handleFilterChange(setStatusFilter)}>
               <SelectTrigger className="w-48">
                 <SelectValue placeholder="Status" />
               </SelectTrigger>
@@ -830,7 +686,7 @@ export default function EnhancedCallFollowUpTrackerPage() {
                 <SelectItem value="completed">Completed</SelectItem>
               </SelectContent>
             </Select>
-            <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+            <Select value={priorityFilter} onValueChange={handleFilterChange(setPriorityFilter)}>
               <SelectTrigger className="w-40">
                 <SelectValue placeholder="Priority" />
               </SelectTrigger>
@@ -841,7 +697,7 @@ export default function EnhancedCallFollowUpTrackerPage() {
                 <SelectItem value="low">Low</SelectItem>
               </SelectContent>
             </Select>
-            <Button variant="outline" onClick={handleExport}>
+            <Button variant="outline" onClick={handleExport} disabled={filteredCalls.length === 0}>
               <Download className="mr-2 h-4 w-4" />
               Export
             </Button>
@@ -855,98 +711,133 @@ export default function EnhancedCallFollowUpTrackerPage() {
                   <TableHead>Caller</TableHead>
                   <TableHead>Contact Person</TableHead>
                   <TableHead>Operator</TableHead>
+                  <TableHead>Assigned To</TableHead>
                   <TableHead>Priority</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Response Time</TableHead>
+                  <TableHead>Follow-up</TableHead>
                   <TableHead>Notes</TableHead>
-                  <TableHead>Created</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredCalls.map((call) => (
-                  <TableRow key={call.id} className="hover:bg-muted/50">
-                    <TableCell>
-                      <div>
-                        <div className="font-medium">{call.callerName}</div>
-                        <Button
-                          variant="link"
-                          className="p-0 h-auto text-blue-600 hover:text-blue-800"
-                          onClick={() => handlePhoneClick(call.phoneNumber)}
-                        >
-                          {call.phoneNumber}
-                        </Button>
-                      </div>
-                    </TableCell>
-                    <TableCell>{call.personToContact}</TableCell>
-                    <TableCell>{call.operatorName}</TableCell>
-                    <TableCell>
-                      <Badge className={priorityConfig[call.priority].color}>
-                        {priorityConfig[call.priority].label}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      <Select
-                        value={call.status}
-                        onValueChange={(value) => handleStatusChange(call.id, value)}
-                      >
-                        <SelectTrigger className="w-40">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="call_entered">Call Entered</SelectItem>
-                          <SelectItem value="active_calls">Active Calls</SelectItem>
-                          <SelectItem value="pending">Pending</SelectItem>
-                          <SelectItem value="followed_up">Followed Up</SelectItem>
-                          <SelectItem value="not_received">Not Received</SelectItem>
-                          <SelectItem value="completed">Completed</SelectItem>
-                        </SelectContent>
-                      </Select>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={10} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
                     </TableCell>
-                    <TableCell>
-                      <span className={call.responseTime > 60 ? 'text-red-600 font-medium' : call.responseTime > 30 ? 'text-yellow-600' : 'text-green-600'}>
-                        {formatResponseTime(call.responseTime)}
-                      </span>
-                    </TableCell>
-                    <TableCell>
-                      <div className="max-w-xs truncate" title={call.notes}>
-                        {call.notes}
-                      </div>
-                    </TableCell>
-                    <TableCell>{formatDate(call.createdAt)}</TableCell>
-                    <TableCell>
-                      <div className="flex gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleViewHistory(call)}
-                        >
-                          <History className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleEdit(call)}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            setDeleteCallId(call.id);
-                            setIsDeleteDialogOpen(true);
-                          }}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
+                  </TableRow>
+                ) : filteredCalls.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={10} className="text-center py-8 text-muted-foreground">
+                      No call follow-ups found
                     </TableCell>
                   </TableRow>
-                ))}
+                ) : filteredCalls.map((call) => {
+                  const responseTime = calculateResponseTime(call);
+
+                  return (
+                    <TableRow key={call.callId} className="hover:bg-muted/50">
+                      <TableCell>
+                        <div>
+                          <div className="font-medium">{call.callerName}</div>
+                          <Button
+                            variant="link"
+                            className="p-0 h-auto text-blue-600 hover:text-blue-800"
+                            onClick={() => handlePhoneClick(call.phoneNumber)}
+                          >
+                            {call.phoneNumber}
+                          </Button>
+                        </div>
+                      </TableCell>
+                      <TableCell>{call.personToContact || '-'}</TableCell>
+                      <TableCell>{getUserName(call.operator)}</TableCell>
+                      <TableCell>{getUserName(call.assignedTo)}</TableCell>
+                      <TableCell>
+                        <Badge className={priorityConfig[call.priority].color}>
+                          {priorityConfig[call.priority].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={call.status}
+                          onValueChange={(value) => handleStatusChange(call.callId, value)}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="call_entered">Call Entered</SelectItem>
+                            <SelectItem value="active_calls">Active Calls</SelectItem>
+                            <SelectItem value="pending">Pending</SelectItem>
+                            <SelectItem value="followed_up">Followed Up</SelectItem>
+                            <SelectItem value="not_received">Not Received</SelectItem>
+                            <SelectItem value="completed">Completed</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <span className={responseTime > 60 ? 'text-red-600 font-medium' : responseTime > 30 ? 'text-yellow-600' : 'text-green-600'}>
+                          {formatResponseTime(responseTime)}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        {call.followUpAt ? (
+                          <span className={isOverdue(call) ? 'text-red-600 font-medium' : ''}>
+                            {formatDate(call.followUpAt)}
+                          </span>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="max-w-xs truncate" title={call.notes || ''}>
+                          {call.notes}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleViewHistory(call)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleEdit(call)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setDeleteCallId(call.callId);
+                              setIsDeleteDialogOpen(true);
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
               </TableBody>
             </Table>
           </div>
+          {totalPages > 1 && (
+            <div className="flex items-center justify-end gap-2 mt-4">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                Next
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -956,29 +847,35 @@ export default function EnhancedCallFollowUpTrackerPage() {
           <DialogHeader>
             <DialogTitle>Call Status History</DialogTitle>
             <DialogDescription>
-              Complete status change history for {selectedCallHistory?.callerName}
+              Complete status change history for {selectedCall?.callerName}
             </DialogDescription>
           </DialogHeader>
-          {selectedCallHistory && (
+          {selectedCallLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : selectedCall && (
             <div className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label className="text-sm font-medium">Caller</Label>
-                  <div className="text-sm">{selectedCallHistory.callerName}</div>
+                  <div className="text-sm">{selectedCall.callerName}</div>
                 </div>
                 <div>
                   <Label className="text-sm font-medium">Phone</Label>
-                  <div className="text-sm">{selectedCallHistory.phoneNumber}</div>
+                  <div className="text-sm">{selectedCall.phoneNumber}</div>
                 </div>
               </div>
-              <div className="space-y-3">
+              <div className="space-y-3 max-h-96 overflow-y-auto">
                 <Label className="text-sm font-medium">Status Changes</Label>
-                {selectedCallHistory.statusHistory.map((change, index) => (
-                  <div key={change.id} className="border rounded-lg p-3">
+                {selectedCall.statusHistory.map((change) => (
+                  <div key={change.changeId} className="border rounded-lg p-3">
                     <div className="flex items-center justify-between mb-2">
                       <div className="flex items-center gap-2">
                         <Badge variant="outline">
-                          {change.fromStatus ? `${change.fromStatus} → ${change.toStatus}` : change.toStatus}
+                          {change.fromStatus
+                            ? `${statusConfig[change.fromStatus].label} → ${statusConfig[change.toStatus].label}`
+                            : statusConfig[change.toStatus].label}
                         </Badge>
                         <span className="text-sm text-muted-foreground">
                           {formatDate(change.changedAt)}
@@ -986,7 +883,10 @@ export default function EnhancedCallFollowUpTrackerPage() {
                       </div>
                     </div>
                     <div className="text-sm">
-                      <div><strong>Changed by:</strong> {change.changedBy}</div>
+                      <div><strong>Changed by:</strong> {getUserName(change.user)}</div>
+                      {change.callOutcome && (
+                        <div><strong>Outcome:</strong> {change.callOutcome}</div>
+                      )}
                       {change.notes && (
                         <div><strong>Notes:</strong> {change.notes}</div>
                       )}
@@ -1002,166 +902,14 @@ export default function EnhancedCallFollowUpTrackerPage() {
         </DialogContent>
       </Dialog>
 
-      {/* Operator Management Dialog */}
-      <Dialog open={isOperatorDialogOpen} onOpenChange={setIsOperatorDialogOpen}>
-        <DialogContent className="max-w-md">
-          <DialogHeader>
-            <DialogTitle>Manage Operators</DialogTitle>
-          </DialogHeader>
-          
-          {/* Existing Operators */}
-          <div className="space-y-4">
-            <div>
-              <h3 className="text-sm font-medium mb-3">Existing Operators</h3>
-              <div className="space-y-2 max-h-48 overflow-y-auto">
-                {operators.map((operator) => (
-                  <div key={operator.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                    <span className="font-medium">{operator.name}</span>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        setOperators(operators.filter(op => op.id !== operator.id));
-                        toast.success('Operator deleted successfully');
-                      }}
-                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                ))}
-              </div>
-            </div>
-
-            {/* Add New Operator */}
-            <div>
-              <h3 className="text-sm font-medium mb-3">Add New Operator</h3>
-              <form onSubmit={(e) => {
-                e.preventDefault();
-                if (operatorFormData.name.trim()) {
-                  const newOperator: Operator = {
-                    id: `op_${Date.now()}`,
-                    name: operatorFormData.name.trim(),
-                    phone: '',
-                    email: '',
-                    isActive: true
-                  };
-                  setOperators([...operators, newOperator]);
-                  setOperatorFormData({ name: '', phone: '', email: '' });
-                  toast.success('Operator added successfully');
-                }
-              }} className="space-y-3">
-                <div className="space-y-2">
-                  <Label htmlFor="operatorName">Operator Name</Label>
-                  <Input
-                    id="operatorName"
-                    value={operatorFormData.name}
-                    onChange={(e) => setOperatorFormData({ ...operatorFormData, name: e.target.value })}
-                    placeholder="Enter operator name"
-                    required
-                  />
-                </div>
-                <div className="flex gap-2 pt-2">
-                  <Button type="button" variant="outline" onClick={() => {
-                    setIsOperatorDialogOpen(false);
-                    setOperatorFormData({ name: '', phone: '', email: '' });
-                  }} className="flex-1">
-                    Cancel
-                  </Button>
-                  <Button type="submit" className="flex-1 bg-purple-600 hover:bg-purple-700">
-                    Add Operator
-                  </Button>
-                </div>
-              </form>
-            </div>
-          </div>
-        </DialogContent>
-      </Dialog>
-
-      {/* Assigned Person Management Dialog */}
-      <Dialog open={isPersonDialogOpen} onOpenChange={setIsPersonDialogOpen}>
-        <DialogContent className="max-w-md">
-          <DialogHeader>
-            <DialogTitle>Manage Assigned Persons</DialogTitle>
-          </DialogHeader>
-          
-          {/* Existing Assigned Persons */}
-          <div className="space-y-4">
-            <div>
-              <h3 className="text-sm font-medium mb-3">Existing Assigned Persons</h3>
-              <div className="space-y-2 max-h-48 overflow-y-auto">
-                {assignedPersons.map((person) => (
-                  <div key={person.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                    <span className="font-medium">{person.name}</span>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        setAssignedPersons(assignedPersons.filter(p => p.id !== person.id));
-                        toast.success('Assigned person deleted successfully');
-                      }}
-                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                ))}
-              </div>
-            </div>
-
-            {/* Add New Assigned Person */}
-            <div>
-              <h3 className="text-sm font-medium mb-3">Add New Assigned Person</h3>
-              <form onSubmit={(e) => {
-                e.preventDefault();
-                if (personFormData.name.trim()) {
-                  const newPerson: AssignedPerson = {
-                    id: `person_${Date.now()}`,
-                    name: personFormData.name.trim(),
-                    department: '',
-                    phone: '',
-                    email: '',
-                    isActive: true
-                  };
-                  setAssignedPersons([...assignedPersons, newPerson]);
-                  setPersonFormData({ name: '', department: '', phone: '', email: '' });
-                  toast.success('Assigned person added successfully');
-                }
-              }} className="space-y-3">
-                <div className="space-y-2">
-                  <Label htmlFor="personName">Person Name</Label>
-                  <Input
-                    id="personName"
-                    value={personFormData.name}
-                    onChange={(e) => setPersonFormData({ ...personFormData, name: e.target.value })}
-                    placeholder="Enter person name"
-                    required
-                  />
-                </div>
-                <div className="flex gap-2 pt-2">
-                  <Button type="button" variant="outline" onClick={() => {
-                    setIsPersonDialogOpen(false);
-                    setPersonFormData({ name: '', department: '', phone: '', email: '' });
-                  }} className="flex-1">
-                    Cancel
-                  </Button>
-                  <Button type="submit" className="flex-1 bg-purple-600 hover:bg-purple-700">
-                    Add Person
-                  </Button>
-                </div>
-              </form>
-            </div>
-          </div>
-        </DialogContent>
-      </Dialog>
-
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the call follow-up record.
+              This action cannot be undone. This will permanently delete the call follow-up record
+              and its status history.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -1175,6 +923,7 @@ export default function EnhancedCallFollowUpTrackerPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
     </div>
   );
 }
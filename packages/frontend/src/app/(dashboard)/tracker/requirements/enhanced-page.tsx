@@ -1,20 +1,21 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { 
-  Dialog, 
-  DialogContent, 
-  DialogDescription, 
-  DialogFooter, 
-  DialogHeader, 
-  DialogTitle, 
-  DialogTrigger 
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
 } from "@/components/ui/dialog";
 import {
   Select,
@@ -41,288 +42,156 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { 
-  Clock, 
-  Plus, 
-  Search, 
-  Edit, 
-  Trash2, 
-  Settings, 
-  ShoppingCart, 
-  Clipboard, 
-  Phone, 
+import {
+  Clock,
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  Settings,
+  ShoppingCart,
+  Clipboard,
+  Phone,
   CheckCircle,
   Mail,
-  User,
-  Calendar,
-  DollarSign,
-  Users,
-  Tag,
   Download,
   Loader2,
-  FileText,
-  Eye
+  MessageSquare,
+  History,
+  Car,
+  X
 } from "lucide-react";
 import { toast } from 'sonner';
 
-interface CustomerRequirement {
-  id: string;
-  customerName: string;
-  customerPhone: string;
-  customerEmail?: string;
-  requirementDescription: string;
-  priority: 'low' | 'medium' | 'high';
-  status: 'pending' | 'in_progress' | 'ordered' | 'procedure' | 'contacted' | 'completed';
-  createdAt: string;
-  updatedAt: string;
-  completedAt?: string;
-  statusHistory: StatusChange[];
-  attachments?: string[];
-  comments?: RequirementComment[];
-}
+import { productApi } from '@/lib/api/masterData';
+import type {
+  CustomerRequirement,
+  CustomerRequirementPriority,
+  CustomerRequirementRequest,
+  CustomerRequirementStatus,
+  CustomerRequirementUser,
+  RequestedProduct,
+} from '@/lib/api/customerRequirements';
+import {
+  useAddRequirementComment,
+  useConvertRequirementToVehicle,
+  useCreateCustomerRequirement,
+  useCustomerRequirement,
+  useCustomerRequirementAssignees,
+  useCustomerRequirements,
+  useDeleteCustomerRequirement,
+  useUpdateCustomerRequirement,
+  useUpdateCustomerRequirementStatus,
+} from '@/lib/hooks/useCustomerRequirements';
 
-interface RequirementComment {
-  id: string;
-  text: string;
-  createdAt: string;
-  createdBy: string;
-  attachments?: string[];
-}
+const statusLabels: Record<CustomerRequirementStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  ordered: 'Ordered',
+  procedure: 'Procedure',
+  contacted: 'Contacted',
+  completed: 'Completed'
+};
 
-interface TeamMember {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  department: string;
-  role: string;
-}
+const UNASSIGNED = 'unassigned';
+const PAGE_SIZE = 25;
 
-interface TeamMember {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  department: string;
-  role: string;
+interface ProductRow {
+  productName: string;
+  brandName: string;
+  price: string;
 }
 
+const emptyForm = {
+  customerName: '',
+  customerPhone: '',
+  customerEmail: '',
+  description: '',
+  priority: 'medium' as CustomerRequirementPriority,
+  status: 'pending' as CustomerRequirementStatus,
+  assignedToId: UNASSIGNED,
+  products: [] as ProductRow[]
+};
+
+const emptyConvertForm = {
+  carNumber: '',
+  brandName: '',
+  modelName: '',
+  vehicleType: '',
+  expectedDeliveryDate: ''
+};
+
+const getUserName = (user?: CustomerRequirementUser | null) => {
+  if (!user) return '-';
+  return `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email;
+};
+
 export default function CustomerRequirementsPage() {
+  const router = useRouter();
+
   // State management
-  const [requirements, setRequirements] = useState<CustomerRequirement[]>([]);
-  const [filteredRequirements, setFilteredRequirements] = useState<CustomerRequirement[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [priorityFilter, setPriorityFilter] = useState<string>('all');
+  const [page, setPage] = useState(1);
+  const [completedPage, setCompletedPage] = useState(1);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
+  const [isCommentsDialogOpen, setIsCommentsDialogOpen] = useState(false);
+  const [isConvertDialogOpen, setIsConvertDialogOpen] = useState(false);
   const [editingRequirement, setEditingRequirement] = useState<CustomerRequirement | null>(null);
-  const [selectedRequirementHistory, setSelectedRequirementHistory] = useState<CustomerRequirement | null>(null);
+  const [selectedRequirementId, setSelectedRequirementId] = useState<string | null>(null);
+  const [convertingRequirement, setConvertingRequirement] = useState<CustomerRequirement | null>(null);
   const [deleteRequirementId, setDeleteRequirementId] = useState<string | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
-  const [isTeamMemberDialogOpen, setIsTeamMemberDialogOpen] = useState(false);
-  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [newComment, setNewComment] = useState('');
 
   // Form state
-  const [formData, setFormData] = useState({
-    customerName: '',
-    customerPhone: '',
-    requirementDescription: '',
-    priority: 'medium' as 'low' | 'medium' | 'high',
-    status: 'pending' as 'pending' | 'in_progress' | 'ordered' | 'procedure' | 'contacted' | 'completed'
-  });
-
-  // Attachments and Comments state
-  const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
-  const [selectedRequirementForAttachments, setSelectedRequirementForAttachments] = useState<CustomerRequirement | null>(null);
-  const [selectedRequirementForComments, setSelectedRequirementForComments] = useState<CustomerRequirement | null>(null);
-  const [isAttachmentsDialogOpen, setIsAttachmentsDialogOpen] = useState(false);
-  const [isCommentsDialogOpen, setIsCommentsDialogOpen] = useState(false);
-  const [newComment, setNewComment] = useState('');
-  const [commentFiles, setCommentFiles] = useState<FileList | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [convertFormData, setConvertFormData] = useState(emptyConvertForm);
 
-  const [teamMemberFormData, setTeamMemberFormData] = useState({
-    name: '',
-    email: '',
-    phone: '',
-    department: '',
-    role: ''
+  const { data: requirementsData, isLoading } = useCustomerRequirements({
+    page,
+    limit: PAGE_SIZE,
+    search: searchTerm || undefined,
+    status: statusFilter === 'all' ? undefined : statusFilter as CustomerRequirementStatus,
+    priority: priorityFilter === 'all' ? undefined : priorityFilter as CustomerRequirementPriority,
+    // Completed requirements have their own section unless specifically filtered for
+    includeCompleted: statusFilter === 'all' ? false : undefined
   });
+  const { data: completedData } = useCustomerRequirements({
+    page: completedPage,
+    limit: PAGE_SIZE,
+    status: 'completed'
+  });
+  const { data: selectedRequirementData, isLoading: selectedRequirementLoading } = useCustomerRequirement(selectedRequirementId);
+  const { data: assigneesData } = useCustomerRequirementAssignees();
+  const { data: productsData } = useQuery({
+    queryKey: ['products', 'active'],
+    queryFn: productApi.getProducts,
+    staleTime: 5 * 60 * 1000,
+  });
+  const createRequirementMutation = useCreateCustomerRequirement();
+  const updateRequirementMutation = useUpdateCustomerRequirement();
+  const updateStatusMutation = useUpdateCustomerRequirementStatus();
+  const addCommentMutation = useAddRequirementComment();
+  const convertMutation = useConvertRequirementToVehicle();
+  const deleteRequirementMutation = useDeleteCustomerRequirement();
 
-  // Mock data
-  useEffect(() => {
-    const mockRequirements: CustomerRequirement[] = [
-      {
-        id: 'req_001',
-        customerName: 'John Smith',
-        customerPhone: '+91-9876543210',
-        customerEmail: 'john@example.com',
-        requirementDescription: 'Premium Audio System Installation',
-        priority: 'high',
-        status: 'in_progress',
-        createdAt: '2024-01-15T10:30:00Z',
-        updatedAt: '2024-01-15T14:30:00Z',
-        statusHistory: [
-          {
-            id: 'status_001',
-            fromStatus: 'pending',
-            toStatus: 'in_progress',
-            changedAt: '2024-01-15T14:30:00Z',
-            changedBy: 'Raj Kumar',
-            notes: 'Started working on requirement'
-          }
-        ],
-        attachments: ['audio_system_specs.pdf', 'installation_guide.pdf'],
-        comments: [
-          {
-            id: 'comment_001',
-            text: 'Customer wants premium sound quality with subwoofer',
-            createdAt: '2024-01-15T10:30:00Z',
-            createdBy: 'John Smith',
-            attachments: ['customer_preferences.pdf']
-          }
-        ]
-      },
-      {
-        id: 'req_002',
-        customerName: 'Sarah Johnson',
-        customerPhone: '+91-9876543211',
-        customerEmail: 'sarah@example.com',
-        requirementDescription: 'LED Lighting System Upgrade',
-        priority: 'medium',
-        status: 'ordered',
-        createdAt: '2024-01-15T11:00:00Z',
-        updatedAt: '2024-01-15T16:00:00Z',
-        statusHistory: [
-          {
-            id: 'status_002',
-            fromStatus: 'pending',
-            toStatus: 'in_progress',
-            changedAt: '2024-01-15T11:00:00Z',
-            changedBy: 'Amit Patel',
-            notes: 'Requirement assigned'
-          },
-          {
-            id: 'status_003',
-            fromStatus: 'in_progress',
-            toStatus: 'ordered',
-            changedAt: '2024-01-15T16:00:00Z',
-            changedBy: 'Amit Patel',
-            notes: 'Materials ordered'
-          }
-        ],
-        attachments: ['led_specifications.pdf'],
-        comments: [
-          {
-            id: 'comment_002',
-            text: 'Energy efficient LED installation required',
-            createdAt: '2024-01-15T12:00:00Z',
-            createdBy: 'Sarah Johnson'
-          }
-        ]
-      },
-      {
-        id: 'req_003',
-        customerName: 'Mike Wilson',
-        customerPhone: '+91-9876543212',
-        customerEmail: 'mike@example.com',
-        requirementDescription: 'Safety Equipment Installation',
-        priority: 'high',
-        status: 'completed',
-        createdAt: '2024-01-15T09:00:00Z',
-        updatedAt: '2024-01-18T14:00:00Z',
-        completedAt: '2024-01-18T14:00:00Z',
-        statusHistory: [
-          {
-            id: 'status_004',
-            fromStatus: 'pending',
-            toStatus: 'in_progress',
-            changedAt: '2024-01-15T09:00:00Z',
-            changedBy: 'Priya Sharma',
-            notes: 'Started installation'
-          },
-          {
-            id: 'status_005',
-            fromStatus: 'in_progress',
-            toStatus: 'completed',
-            changedAt: '2024-01-18T14:00:00Z',
-            changedBy: 'Priya Sharma',
-            notes: 'Installation completed successfully'
-          }
-        ],
-        attachments: ['safety_equipment_list.pdf', 'installation_photos.jpg'],
-        comments: [
-          {
-            id: 'comment_003',
-            text: 'Installation completed successfully',
-            createdAt: '2024-01-18T14:00:00Z',
-            createdBy: 'Mike Wilson',
-            attachments: ['completion_certificate.pdf']
-          }
-        ]
-      }
-    ];
-
-    const mockTeamMembers: TeamMember[] = [
-      {
-        id: 'team_001',
-        name: 'Raj Kumar',
-        email: 'raj@company.com',
-        phone: '+91-9876543201',
-        department: 'Installation',
-        role: 'Senior Technician'
-      },
-      {
-        id: 'team_002',
-        name: 'Amit Patel',
-        email: 'amit@company.com',
-        phone: '+91-9876543202',
-        department: 'Installation',
-        role: 'Technician'
-      },
-      {
-        id: 'team_003',
-        name: 'Priya Sharma',
-        email: 'priya@company.com',
-        phone: '+91-9876543203',
-        department: 'Safety',
-        role: 'Safety Specialist'
-      }
-    ];
-
-    setRequirements(mockRequirements);
-    setFilteredRequirements(mockRequirements);
-    setTeamMembers(mockTeamMembers);
-  }, []);
-
-  // Filter requirements
-  useEffect(() => {
-    let filtered = requirements.filter(req => req.status !== 'completed');
-
-    if (searchTerm) {
-      filtered = filtered.filter(req =>
-        req.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        req.requirementDescription.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
-
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(req => req.status === statusFilter);
-    }
-
-    if (priorityFilter !== 'all') {
-      filtered = filtered.filter(req => req.priority === priorityFilter);
-    }
-
-    setFilteredRequirements(filtered);
-  }, [requirements, searchTerm, statusFilter, priorityFilter]);
+  const filteredRequirements: CustomerRequirement[] = requirementsData?.data || [];
+  const totalPages = requirementsData?.pagination?.totalPages || 1;
+  const completedRequirements: CustomerRequirement[] = completedData?.data || [];
+  const completedTotalPages = completedData?.pagination?.totalPages || 1;
+  const selectedRequirement = selectedRequirementData?.data || null;
+  const assignees = assigneesData?.data || [];
+  const productSuggestions = productsData?.data || [];
 
   // Dashboard statistics
-  const getStatusCount = (status: string) => {
-    return requirements.filter(req => req.status === status).length;
+  const getStatusCount = (status: CustomerRequirementStatus) => {
+    return requirementsData?.summary?.[status] || 0;
   };
 
-
   // Utility functions
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-GB', {
@@ -332,9 +201,8 @@ export default function CustomerRequirementsPage() {
     });
   };
 
-  const formatDateTime = (dateString: string, timeString: string) => {
-    const date = new Date(`${dateString}T${timeString}`);
-    return date.toLocaleString('en-GB', {
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-GB', {
       day: '2-digit',
       month: 'short',
       year: 'numeric',
@@ -344,18 +212,6 @@ export default function CustomerRequirementsPage() {
     });
   };
 
-  const getStatusColor = (status: string) => {
-    const colors = {
-      pending: 'bg-yellow-100 text-yellow-800',
-      in_progress: 'bg-blue-100 text-blue-800',
-      ordered: 'bg-purple-100 text-purple-800',
-      procedure: 'bg-orange-100 text-orange-800',
-      contacted: 'bg-gray-100 text-gray-800',
-      completed: 'bg-green-100 text-green-800'
-    };
-    return colors[status as keyof typeof colors] || 'bg-gray-100 text-gray-800';
-  };
-
   const getPriorityColor = (priority: string) => {
     const colors = {
       high: 'bg-red-100 text-red-800',
@@ -365,131 +221,187 @@ export default function CustomerRequirementsPage() {
     return colors[priority as keyof typeof colors] || 'bg-gray-100 text-gray-800';
   };
 
-  const getProgressColor = (progress: number) => {
-    if (progress >= 80) return 'bg-green-500';
-    if (progress >= 50) return 'bg-blue-500';
-    if (progress >= 25) return 'bg-yellow-500';
-    return 'bg-red-500';
+  const toRequestedProducts = (rows: ProductRow[]): RequestedProduct[] => {
+    return rows
+      .filter(row => row.productName.trim())
+      .map(row => ({
+        productName: row.productName.trim(),
+        brandName: row.brandName.trim() || null,
+        price: row.price ? Number(row.price) : null
+      }));
   };
 
   // Form handlers
   const resetForm = () => {
-    setFormData({
-      customerName: '',
-      customerPhone: '',
-      requirementDescription: '',
-      priority: 'medium',
-      status: 'pending'
-    });
-    setSelectedFiles(null);
+    setFormData(emptyForm);
     setEditingRequirement(null);
   };
 
+  const handleFilterChange = (setter: (value: any) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
   const handleEdit = (requirement: CustomerRequirement) => {
     setFormData({
       customerName: requirement.customerName,
       customerPhone: requirement.customerPhone,
-      requirementDescription: requirement.requirementDescription,
+      customerEmail: requirement.customerEmail || '',
+      description: requirement.description,
       priority: requirement.priority,
-      status: requirement.status
+      status: requirement.status,
+      assignedToId: requirement.assignedToId || UNASSIGNED,
+      products: requirement.requestedProducts.map(product => ({
+        productName: product.productName,
+        brandName: product.brandName || '',
+        price: product.price != null ? String(product.price) : ''
+      }))
     });
     setEditingRequirement(requirement);
     setIsDialogOpen(true);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const updateProductRow = (index: number, changes: Partial<ProductRow>) => {
+    setFormData({
+      ...formData,
+      products: formData.products.map((row, i) => i === index ? { ...row, ...changes } : row)
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (editingRequirement) {
-      // Update existing requirement
-      const updatedRequirements = requirements.map(req =>
-        req.id === editingRequirement.id
-          ? {
-              ...req,
-              ...formData,
-              updatedAt: new Date().toISOString(),
-              completedAt: formData.status === 'completed' ? new Date().toISOString() : undefined
-            }
-          : req
-      );
-      setRequirements(updatedRequirements);
-      toast.success('Requirement updated successfully');
-    } else {
-      // Create new requirement
-      const newRequirement: CustomerRequirement = {
-        id: `req_${Date.now()}`,
-        ...formData,
-        customerEmail: '', // Default empty
-        category: 'General', // Default category
-        categoryId: 'general',
-        assignedTo: 'Unassigned', // Default assignment
-        assignedToId: 'unassigned',
-        progress: 0, // Default progress
-        estimatedCost: 0, // Default cost
-        actualCost: 0,
-        targetDate: new Date().toISOString().split('T')[0], // Default to today
-        targetTime: '09:00', // Default time
-        attachments: selectedFiles ? Array.from(selectedFiles).map(f => f.name) : [],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        statusHistory: []
-      };
-      setRequirements([...requirements, newRequirement]);
-      toast.success('Requirement created successfully');
+    setSaving(true);
+
+    const details: CustomerRequirementRequest = {
+      customerName: formData.customerName.trim(),
+      customerPhone: formData.customerPhone.trim(),
+      customerEmail: formData.customerEmail.trim() || null,
+      description: formData.description.trim(),
+      requestedProducts: toRequestedProducts(formData.products),
+      priority: formData.priority,
+      assignedToId: formData.assignedToId === UNASSIGNED ? null : formData.assignedToId
+    };
+
+    try {
+      if (editingRequirement) {
+        // Update existing requirement
+        await updateRequirementMutation.mutateAsync({ requirementId: editingRequirement.requirementId, data: details });
+        if (formData.status !== editingRequirement.status) {
+          await updateStatusMutation.mutateAsync({
+            requirementId: editingRequirement.requirementId,
+            data: { status: formData.status }
+          });
+        }
+        toast.success('Requirement updated successfully');
+      } else {
+        // Create new requirement
+        await createRequirementMutation.mutateAsync(details);
+        toast.success('Requirement created successfully');
+      }
+
+      setIsDialogOpen(false);
+      resetForm();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save requirement');
+    } finally {
+      setSaving(false);
     }
-    
-    setIsDialogOpen(false);
-    resetForm();
   };
 
-  const handleDelete = (id: string) => {
-    setRequirements(requirements.filter(req => req.id !== id));
-    toast.success('Requirement deleted successfully');
+  const handleDelete = (requirementId: string) => {
+    deleteRequirementMutation.mutate(requirementId, {
+      onSuccess: () => toast.success('Requirement deleted successfully'),
+      onError: (error: any) => toast.error(error.message || 'Failed to delete requirement')
+    });
     setIsDeleteDialogOpen(false);
     setDeleteRequirementId(null);
   };
 
-  const handleStatusChange = (id: string, newStatus: string) => {
-    const updatedRequirements = requirements.map(req => {
-      if (req.id === id) {
-        const statusChange: StatusChange = {
-          id: `status_${Date.now()}`,
-          fromStatus: req.status,
-          toStatus: newStatus,
-          changedAt: new Date().toISOString(),
-          changedBy: 'Current User',
-          notes: `Status changed to ${newStatus}`
-        };
+  const handleStatusChange = (requirementId: string, newStatus: string) => {
+    const status = newStatus as CustomerRequirementStatus;
 
-        return {
-          ...req,
-          status: newStatus as any,
-          updatedAt: new Date().toISOString(),
-          completedAt: newStatus === 'completed' ? new Date().toISOString() : undefined,
-          statusHistory: [...req.statusHistory, statusChange]
-        };
-      }
-      return req;
+    updateStatusMutation.mutate({ requirementId, data: { status } }, {
+      onSuccess: () => toast.success(`Status updated to ${statusLabels[status]}`),
+      onError: (error: any) => toast.error(error.message || 'Failed to update status')
     });
-    setRequirements(updatedRequirements);
-    toast.success('Status updated successfully');
   };
 
   const handleViewHistory = (requirement: CustomerRequirement) => {
-    setSelectedRequirementHistory(requirement);
+    setSelectedRequirementId(requirement.requirementId);
     setIsHistoryDialogOpen(true);
   };
 
+  const handleViewComments = (requirement: CustomerRequirement) => {
+    setSelectedRequirementId(requirement.requirementId);
+    setNewComment('');
+    setIsCommentsDialogOpen(true);
+  };
+
+  const handleAddComment = () => {
+    if (!selectedRequirementId || !newComment.trim()) return;
+
+    addCommentMutation.mutate({ requirementId: selectedRequirementId, message: newComment.trim() }, {
+      onSuccess: () => {
+        setNewComment('');
+        toast.success('Comment added successfully');
+      },
+      onError: (error: any) => toast.error(error.message || 'Failed to add comment')
+    });
+  };
+
+  const handleOpenConvert = (requirement: CustomerRequirement) => {
+    setConvertingRequirement(requirement);
+    setConvertFormData(emptyConvertForm);
+    setIsConvertDialogOpen(true);
+  };
+
+  const handleConvert = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!convertingRequirement) return;
+
+    convertMutation.mutate({
+      requirementId: convertingRequirement.requirementId,
+      data: {
+        carNumber: convertFormData.carNumber.trim().toUpperCase(),
+        brandName: convertFormData.brandName.trim() || null,
+        modelName: convertFormData.modelName.trim() || null,
+        vehicleType: convertFormData.vehicleType.trim() || null,
+        expectedDeliveryDate: convertFormData.expectedDeliveryDate
+          ? new Date(convertFormData.expectedDeliveryDate).toISOString()
+          : null
+      }
+    }, {
+      onSuccess: (response) => {
+        setIsConvertDialogOpen(false);
+        setConvertingRequirement(null);
+        toast.success(`Vehicle order ${response.data?.vehicle.carNumber} created`, {
+          action: response.data ? {
+            label: 'Open',
+            onClick: () => router.push(`/vehicles/${response.data!.vehicle.vehicleId}/workflow`)
+          } : undefined
+        });
+      },
+      onError: (error: any) => toast.error(error.message || 'Failed to create vehicle order')
+    });
+  };
+
   const handleExport = () => {
+    const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
     const csvContent = [
-      ['Customer', 'Requirement', 'Status', 'Priority'],
+      ['Customer', 'Phone', 'Email', 'Requirement', 'Products', 'Status', 'Priority', 'Assigned To', 'Vehicle', 'Created'],
       ...filteredRequirements.map(req => [
         req.customerName,
-        req.requirementDescription,
-        req.status,
-        req.priority
+        req.customerPhone,
+        req.customerEmail || '',
+        req.description,
+        req.requestedProducts.map(product => product.productName).join('; '),
+        statusLabels[req.status],
+        req.priority,
+        getUserName(req.assignedTo),
+        req.vehicle?.carNumber || '',
+        formatDate(req.createdAt)
       ])
-    ].map(row => row.join(',')).join('\n');
+    ].map(row => row.map(escape).join(',')).join('\n');
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
@@ -501,6 +413,109 @@ export default function CustomerRequirementsPage() {
     toast.success('Requirements exported successfully');
   };
 
+  const renderCustomer = (requirement: CustomerRequirement) => (
+    <div className="space-y-1">
+      <div className="font-medium">{requirement.customerName}</div>
+      <div className="flex items-center gap-2">
+        <a
+          href={`tel:${requirement.customerPhone}`}
+          className="text-blue-600 hover:text-blue-800 underline text-sm"
+        >
+          {requirement.customerPhone}
+        </a>
+        {requirement.customerEmail && (
+          <a
+            href={`mailto:${requirement.customerEmail}`}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            <Mail className="h-4 w-4" />
+          </a>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderRequirement = (requirement: CustomerRequirement) => (
+    <div className="max-w-[240px] space-y-1">
+      <div className="truncate" title={requirement.description}>
+        {requirement.description}
+      </div>
+      {requirement.requestedProducts.length > 0 && (
+        <div className="text-xs text-muted-foreground truncate">
+          {requirement.requestedProducts.map(product => product.productName).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderVehicleOrder = (requirement: CustomerRequirement) => (
+    requirement.vehicle ? (
+      <Button
+        variant="link"
+        className="p-0 h-auto"
+        onClick={() => router.push(`/vehicles/${requirement.vehicle!.vehicleId}/workflow`)}
+      >
+        {requirement.vehicle.carNumber}
+      </Button>
+    ) : (
+      <Button variant="outline" size="sm" onClick={() => handleOpenConvert(requirement)}>
+        <Car className="h-4 w-4 mr-1" />
+        Convert
+      </Button>
+    )
+  );
+
+  const renderActions = (requirement: CustomerRequirement) => (
+    <div className="flex gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => handleViewComments(requirement)}
+      >
+        <MessageSquare className="h-4 w-4 mr-1" />
+        {requirement._count.comments}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => handleViewHistory(requirement)}
+      >
+        <History className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => handleEdit(requirement)}
+      >
+        <Edit className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          setDeleteRequirementId(requirement.requirementId);
+          setIsDeleteDialogOpen(true);
+        }}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  const renderPagination = (current: number, total: number, onChange: (page: number) => void) => (
+    total > 1 && (
+      <div className="flex items-center justify-end gap-2 mt-4">
+        <Button variant="outline" size="sm" onClick={() => onChange(current - 1)} disabled={current <= 1}>
+          Previous
+        </Button>
+        <span className="text-sm text-muted-foreground">Page {current} of {total}</span>
+        <Button variant="outline" size="sm" onClick={() => onChange(current + 1)} disabled={current >= total}>
+          Next
+        </Button>
+      </div>
+    )
+  );
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -515,7 +530,7 @@ export default function CustomerRequirementsPage() {
 
       {/* Dashboard Statistics */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
-        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setStatusFilter('pending')}>
+        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => handleFilterChange(setStatusFilter)('pending')}>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Pending</CardTitle>
             <Clock className="h-4 w-4 text-yellow-600" />
@@ -526,7 +541,7 @@ export default function CustomerRequirementsPage() {
           </CardContent>
         </Card>
 
-        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setStatusFilter('in_progress')}>
+        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => handleFilterChange(setStatusFilter)('in_progress')}>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">In Progress</CardTitle>
             <Settings className="h-4 w-4 text-blue-600" />
@@ -537,7 +552,7 @@ export default function CustomerRequirementsPage() {
           </CardContent>
         </Card>
 
-        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setStatusFilter('ordered')}>
+        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => handleFilterChange(setStatusFilter)('ordered')}>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Ordered</CardTitle>
             <ShoppingCart className="h-4 w-4 text-purple-600" />
@@ -548,7 +563,7 @@ export default function CustomerRequirementsPage() {
           </CardContent>
         </Card>
 
-        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setStatusFilter('procedure')}>
+        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => handleFilterChange(setStatusFilter)('procedure')}>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Procedure</CardTitle>
             <Clipboard className="h-4 w-4 text-orange-600" />
@@ -559,7 +574,7 @@ export default function CustomerRequirementsPage() {
           </CardContent>
         </Card>
 
-        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setStatusFilter('contacted')}>
+        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => handleFilterChange(setStatusFilter)('contacted')}>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Contacted</CardTitle>
             <Phone className="h-4 w-4 text-gray-600" />
@@ -570,7 +585,7 @@ export default function CustomerRequirementsPage() {
           </CardContent>
         </Card>
 
-        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => setStatusFilter('completed')}>
+        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => handleFilterChange(setStatusFilter)('completed')}>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Completed</CardTitle>
             <CheckCircle className="h-4 w-4 text-green-600" />
@@ -588,7 +603,7 @@ export default function CustomerRequirementsPage() {
         <CardHeader>
           <CardTitle>Customer Requirements Management</CardTitle>
           <CardDescription>
-            Manage customer requirements with simplified tracking and file attachments
+            Manage customer requirements and convert them into vehicle orders
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -599,25 +614,22 @@ export default function CustomerRequirementsPage() {
               <Input
                 placeholder="Search requirements..."
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                onChange={(e) => handleFilterChange(setSearchTerm)(e.target.value)}
                 className="pl-10"
               />
             </div>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <Select value={statusFilter} onValueChange={handleFilterChange(setStatusFilter)}>
               <SelectTrigger className="w-full sm:w-[180px]">
                 <SelectValue placeholder="All Status" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="in_progress">In Progress</SelectItem>
-                <SelectItem value="ordered">Ordered</SelectItem>
-                <SelectItem value="procedure">Procedure</SelectItem>
-                <SelectItem value="contacted">Contacted</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
+                {Object.entries(statusLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
-            <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+            <Select value={priorityFilter} onValueChange={handleFilterChange(setPriorityFilter)}>
               <SelectTrigger className="w-full sm:w-[180px]">
                 <SelectValue placeholder="All Priority" />
               </SelectTrigger>
@@ -628,7 +640,7 @@ export default function CustomerRequirementsPage() {
                 <SelectItem value="high">High</SelectItem>
               </SelectContent>
             </Select>
-            <Button variant="outline" onClick={handleExport}>
+            <Button variant="outline" onClick={handleExport} disabled={filteredRequirements.length === 0}>
               <Download className="mr-2 h-4 w-4" />
               Export
             </Button>
@@ -647,40 +659,28 @@ export default function CustomerRequirementsPage() {
                   <TableHead>Requirement</TableHead>
                   <TableHead>Priority</TableHead>
                   <TableHead>Status</TableHead>
-                  <TableHead>Attachments</TableHead>
-                  <TableHead>Comments</TableHead>
+                  <TableHead>Assigned To</TableHead>
+                  <TableHead>Vehicle Order</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredRequirements.map((requirement) => (
-                  <TableRow key={requirement.id} className="hover:bg-muted/50">
-                    <TableCell>
-                      <div className="space-y-1">
-                        <div className="font-medium">{requirement.customerName}</div>
-                        <div className="flex items-center gap-2">
-                          <a 
-                            href={`tel:${requirement.customerPhone}`}
-                            className="text-blue-600 hover:text-blue-800 underline text-sm"
-                          >
-                            {requirement.customerPhone}
-                          </a>
-                          {requirement.customerEmail && (
-                            <a 
-                              href={`mailto:${requirement.customerEmail}`}
-                              className="text-blue-600 hover:text-blue-800"
-                            >
-                              <Mail className="h-4 w-4" />
-                            </a>
-                          )}
-                        </div>
-                      </div>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
                     </TableCell>
-                    <TableCell>
-                      <div className="max-w-[200px] truncate" title={requirement.requirementDescription}>
-                        {requirement.requirementDescription}
-                      </div>
+                  </TableRow>
+                ) : filteredRequirements.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                      No requirements found
                     </TableCell>
+                  </TableRow>
+                ) : filteredRequirements.map((requirement) => (
+                  <TableRow key={requirement.requirementId} className="hover:bg-muted/50">
+                    <TableCell>{renderCustomer(requirement)}</TableCell>
+                    <TableCell>{renderRequirement(requirement)}</TableCell>
                     <TableCell>
                       <Badge className={getPriorityColor(requirement.priority)}>
                         {requirement.priority.charAt(0).toUpperCase() + requirement.priority.slice(1)}
@@ -689,89 +689,32 @@ export default function CustomerRequirementsPage() {
                     <TableCell>
                       <Select
                         value={requirement.status}
-                        onValueChange={(value) => handleStatusChange(requirement.id, value)}
+                        onValueChange={(value) => handleStatusChange(requirement.requirementId, value)}
                       >
                         <SelectTrigger className="w-[140px]">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="pending">Pending</SelectItem>
-                          <SelectItem value="in_progress">In Progress</SelectItem>
-                          <SelectItem value="ordered">Ordered</SelectItem>
-                          <SelectItem value="procedure">Procedure</SelectItem>
-                          <SelectItem value="contacted">Contacted</SelectItem>
-                          <SelectItem value="completed">Completed</SelectItem>
+                          {Object.entries(statusLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </TableCell>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            setSelectedRequirementForAttachments(requirement);
-                            setIsAttachmentsDialogOpen(true);
-                          }}
-                        >
-                          <FileText className="h-4 w-4 mr-1" />
-                          {requirement.attachments?.length || 0}
-                        </Button>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            setSelectedRequirementForComments(requirement);
-                            setIsCommentsDialogOpen(true);
-                          }}
-                        >
-                          <Eye className="h-4 w-4 mr-1" />
-                          {requirement.comments?.length || 0}
-                        </Button>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleViewHistory(requirement)}
-                        >
-                          <Eye className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleEdit(requirement)}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            setDeleteRequirementId(requirement.id);
-                            setIsDeleteDialogOpen(true);
-                          }}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </TableCell>
+                    <TableCell>{getUserName(requirement.assignedTo)}</TableCell>
+                    <TableCell>{renderVehicleOrder(requirement)}</TableCell>
+                    <TableCell>{renderActions(requirement)}</TableCell>
                   </TableRow>
                 ))}
               </TableBody>
             </Table>
           </div>
+          {renderPagination(page, totalPages, setPage)}
         </CardContent>
       </Card>
 
       {/* Completed Requirements Section */}
-      {requirements.filter(req => req.status === 'completed').length > 0 && (
+      {completedRequirements.length > 0 && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -791,40 +734,15 @@ export default function CustomerRequirementsPage() {
                     <TableHead>Requirement</TableHead>
                     <TableHead>Priority</TableHead>
                     <TableHead>Completed Date</TableHead>
-                    <TableHead>Attachments</TableHead>
-                    <TableHead>Comments</TableHead>
+                    <TableHead>Vehicle Order</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {requirements.filter(req => req.status === 'completed').map((requirement) => (
-                    <TableRow key={requirement.id} className="hover:bg-muted/50">
-                      <TableCell>
-                        <div className="space-y-1">
-                          <div className="font-medium">{requirement.customerName}</div>
-                          <div className="flex items-center gap-2">
-                            <a 
-                              href={`tel:${requirement.customerPhone}`}
-                              className="text-blue-600 hover:text-blue-800 underline text-sm"
-                            >
-                              {requirement.customerPhone}
-                            </a>
-                            {requirement.customerEmail && (
-                              <a 
-                                href={`mailto:${requirement.customerEmail}`}
-                                className="text-blue-600 hover:text-blue-800"
-                              >
-                                <Mail className="h-4 w-4" />
-                              </a>
-                            )}
-                          </div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="max-w-[200px] truncate" title={requirement.requirementDescription}>
-                          {requirement.requirementDescription}
-                        </div>
-                      </TableCell>
+                  {completedRequirements.map((requirement) => (
+                    <TableRow key={requirement.requirementId} className="hover:bg-muted/50">
+                      <TableCell>{renderCustomer(requirement)}</TableCell>
+                      <TableCell>{renderRequirement(requirement)}</TableCell>
                       <TableCell>
                         <Badge className={getPriorityColor(requirement.priority)}>
                           {requirement.priority.charAt(0).toUpperCase() + requirement.priority.slice(1)}
@@ -835,75 +753,20 @@ export default function CustomerRequirementsPage() {
                           <div className="font-medium">{formatDate(requirement.completedAt || requirement.updatedAt)}</div>
                         </div>
                       </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                              setSelectedRequirementForAttachments(requirement);
-                              setIsAttachmentsDialogOpen(true);
-                            }}
-                          >
-                            <FileText className="h-4 w-4 mr-1" />
-                            {requirement.attachments?.length || 0}
-                          </Button>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                              setSelectedRequirementForComments(requirement);
-                              setIsCommentsDialogOpen(true);
-                            }}
-                          >
-                            <Eye className="h-4 w-4 mr-1" />
-                            {requirement.comments?.length || 0}
-                          </Button>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleViewHistory(requirement)}
-                          >
-                            <Eye className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleEdit(requirement)}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                              setDeleteRequirementId(requirement.id);
-                              setIsDeleteDialogOpen(true);
-                            }}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </TableCell>
+                      <TableCell>{renderVehicleOrder(requirement)}</TableCell>
+                      <TableCell>{renderActions(requirement)}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
             </div>
+            {renderPagination(completedPage, completedTotalPages, setCompletedPage)}
           </CardContent>
         </Card>
       )}
 
       {/* Create/Edit Requirement Modal */}
-      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
@@ -935,21 +798,30 @@ export default function CustomerRequirementsPage() {
               </div>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="requirementDescription">Requirement Description *</Label>
+              <Label htmlFor="customerEmail">Customer Email</Label>
+              <Input
+                id="customerEmail"
+                type="email"
+                value={formData.customerEmail}
+                onChange={(e) => setFormData({ ...formData, customerEmail: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Requirement Description *</Label>
               <Textarea
-                id="requirementDescription"
-                value={formData.requirementDescription}
-                onChange={(e) => setFormData({ ...formData, requirementDescription: e.target.value })}
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                 required
                 rows={3}
               />
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="priority">Priority</Label>
                 <Select
                   value={formData.priority}
-                  onValueChange={(value: 'low' | 'medium' | 'high') => setFormData({ ...formData, priority: value })}
+                  onValueChange={(value: CustomerRequirementPriority) => setFormData({ ...formData, priority: value })}
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -965,213 +837,272 @@ export default function CustomerRequirementsPage() {
                 <Label htmlFor="status">Status</Label>
                 <Select
                   value={formData.status}
-                  onValueChange={(value: any) => setFormData({ ...formData, status: value })}
+                  onValueChange={(value: CustomerRequirementStatus) => setFormData({ ...formData, status: value })}
+                  disabled={!editingRequirement}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(statusLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assignedToId">Assigned To</Label>
+                <Select
+                  value={formData.assignedToId}
+                  onValueChange={(value) => setFormData({ ...formData, assignedToId: value })}
                 >
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="in_progress">In Progress</SelectItem>
-                    <SelectItem value="ordered">Ordered</SelectItem>
-                    <SelectItem value="procedure">Procedure</SelectItem>
-                    <SelectItem value="contacted">Contacted</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                    {assignees.map(user => (
+                      <SelectItem key={user.userId} value={user.userId}>
+                        {getUserName(user)}{user.department ? ` (${user.department.departmentName})` : ''}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
             </div>
-            {/* Attachments Section */}
+
+            {/* Requested Products */}
             <div className="space-y-2">
-              <Label htmlFor="attachments">Attachments</Label>
-              <div className="space-y-3">
-                <div className="flex gap-2">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => document.getElementById('pdf-upload')?.click()}
-                    className="flex items-center gap-2"
-                  >
-                    <FileText className="h-4 w-4" />
-                    PDF
-                  </Button>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => document.getElementById('image-upload')?.click()}
-                    className="flex items-center gap-2"
-                  >
-                    <Eye className="h-4 w-4" />
-                    JPEG
-                  </Button>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => document.getElementById('video-upload')?.click()}
-                    className="flex items-center gap-2"
-                  >
-                    <Eye className="h-4 w-4" />
-                    Video
-                  </Button>
-                </div>
-                
-                {/* Hidden file inputs */}
-                <input
-                  id="pdf-upload"
-                  type="file"
-                  accept=".pdf"
-                  multiple
-                  className="hidden"
-                  onChange={(e) => setSelectedFiles(e.target.files)}
-                />
-                <input
-                  id="image-upload"
-                  type="file"
-                  accept="image/*"
-                  multiple
-                  className="hidden"
-                  onChange={(e) => setSelectedFiles(e.target.files)}
-                />
-                <input
-                  id="video-upload"
-                  type="file"
-                  accept="video/*"
-                  multiple
-                  className="hidden"
-                  onChange={(e) => setSelectedFiles(e.target.files)}
-                />
-                
-                {/* Display selected files */}
-                {selectedFiles && selectedFiles.length > 0 && (
-                  <div className="space-y-2">
-                    <p className="text-sm text-muted-foreground">Selected files:</p>
-                    <div className="space-y-1">
-                      {Array.from(selectedFiles).map((file, index) => (
-                        <div key={index} className="flex items-center gap-2 text-sm p-2 bg-gray-50 rounded">
-                          <FileText className="h-4 w-4 text-blue-600" />
-                          <span className="truncate">{file.name}</span>
-                          <span className="text-muted-foreground">({(file.size / 1024).toFixed(1)} KB)</span>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                )}
+              <div className="flex items-center justify-between">
+                <Label>Requested Products</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFormData({
+                    ...formData,
+                    products: [...formData.products, { productName: '', brandName: '', price: '' }]
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
               </div>
+              <datalist id="requirement-products-list">
+                {productSuggestions.map(product => (
+                  <option key={product.productId} value={product.productName} />
+                ))}
+              </datalist>
+              {formData.products.length > 0 ? (
+                <div className="space-y-2">
+                  {formData.products.map((row, index) => (
+                    <div key={index} className="grid grid-cols-[2fr_1.5fr_1fr_auto] gap-2">
+                      <Input
+                        placeholder="Product"
+                        list="requirement-products-list"
+                        value={row.productName}
+                        onChange={(e) => {
+                          const match = productSuggestions.find(product => product.productName === e.target.value);
+                          updateProductRow(index, {
+                            productName: e.target.value,
+                            ...(match && !row.brandName ? { brandName: match.brandName || '' } : {}),
+                            ...(match && !row.price && match.price != null ? { price: String(match.price) } : {})
+                          });
+                        }}
+                      />
+                      <Input
+                        placeholder="Brand"
+                        value={row.brandName}
+                        onChange={(e) => updateProductRow(index, { brandName: e.target.value })}
+                      />
+                      <Input
+                        placeholder="Price"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={row.price}
+                        onChange={(e) => updateProductRow(index, { price: e.target.value })}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setFormData({
+                          ...formData,
+                          products: formData.products.filter((_, i) => i !== index)
+                        })}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No products added. Products are copied to the vehicle order on conversion.
+                </p>
+              )}
             </div>
             <DialogFooter>
-              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+              <Button type="button" variant="outline" onClick={() => { setIsDialogOpen(false); resetForm(); }}>
                 Cancel
               </Button>
-              <Button type="submit">
-                {editingRequirement ? 'Update Requirement' : 'Add Requirement'}
+              <Button type="submit" disabled={saving}>
+                {saving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  editingRequirement ? 'Update Requirement' : 'Add Requirement'
+                )}
               </Button>
             </DialogFooter>
           </form>
         </DialogContent>
       </Dialog>
 
-      {/* Status History Modal */}
-      <Dialog open={isHistoryDialogOpen} onOpenChange={setIsHistoryDialogOpen}>
-        <DialogContent className="max-w-2xl">
+      {/* Convert to Vehicle Order Modal */}
+      <Dialog open={isConvertDialogOpen} onOpenChange={setIsConvertDialogOpen}>
+        <DialogContent className="max-w-lg">
           <DialogHeader>
-            <DialogTitle>Status History</DialogTitle>
+            <DialogTitle>Create Vehicle Order</DialogTitle>
             <DialogDescription>
-              {selectedRequirementHistory && (
-                <>
-                  <span>Requirement: {selectedRequirementHistory.requirementDescription}</span>
-                  <br />
-                  <span>Customer: {selectedRequirementHistory.customerName}</span>
-                </>
+              {convertingRequirement && (
+                <span>
+                  A pending vehicle will be created for {convertingRequirement.customerName} with the
+                  requested products.
+                </span>
               )}
             </DialogDescription>
           </DialogHeader>
-          {selectedRequirementHistory && (
-            <div className="space-y-4">
-              {selectedRequirementHistory.statusHistory.length > 0 ? (
-                <div className="space-y-3">
-                  {selectedRequirementHistory.statusHistory.map((change) => (
-                    <div key={change.id} className="flex items-center justify-between p-3 border rounded-lg">
-                      <div className="flex items-center gap-3">
-                        <div className="w-2 h-2 bg-blue-600 rounded-full" />
-                        <div>
-                          <div className="font-medium">
-                            {change.fromStatus.charAt(0).toUpperCase() + change.fromStatus.slice(1)} → {change.toStatus.charAt(0).toUpperCase() + change.toStatus.slice(1)}
-                          </div>
-                          <div className="text-sm text-muted-foreground">
-                            {formatDateTime(change.changedAt, '00:00')} by {change.changedBy}
-                          </div>
-                          {change.notes && (
-                            <div className="text-sm text-muted-foreground mt-1">
-                              {change.notes}
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  ))}
+          {convertingRequirement && (
+            <form onSubmit={handleConvert} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="carNumber">Car Number *</Label>
+                <Input
+                  id="carNumber"
+                  value={convertFormData.carNumber}
+                  onChange={(e) => setConvertFormData({ ...convertFormData, carNumber: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="brandName">Brand</Label>
+                  <Input
+                    id="brandName"
+                    value={convertFormData.brandName}
+                    onChange={(e) => setConvertFormData({ ...convertFormData, brandName: e.target.value })}
+                  />
                 </div>
-              ) : (
-                <div className="text-center py-8 text-muted-foreground">
-                  <Clock className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-                  <p>No status changes yet</p>
+                <div className="space-y-2">
+                  <Label htmlFor="modelName">Model</Label>
+                  <Input
+                    id="modelName"
+                    value={convertFormData.modelName}
+                    onChange={(e) => setConvertFormData({ ...convertFormData, modelName: e.target.value })}
+                  />
                 </div>
-              )}
-            </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="vehicleType">Vehicle Type</Label>
+                  <Input
+                    id="vehicleType"
+                    value={convertFormData.vehicleType}
+                    onChange={(e) => setConvertFormData({ ...convertFormData, vehicleType: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expectedDeliveryDate">Expected Delivery</Label>
+                  <Input
+                    id="expectedDeliveryDate"
+                    type="date"
+                    value={convertFormData.expectedDeliveryDate}
+                    onChange={(e) => setConvertFormData({ ...convertFormData, expectedDeliveryDate: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Products</Label>
+                {convertingRequirement.requestedProducts.length > 0 ? (
+                  <div className="space-y-1">
+                    {convertingRequirement.requestedProducts.map((product, index) => (
+                      <div key={index} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded">
+                        <span>
+                          {product.productName}
+                          {product.brandName && <span className="text-muted-foreground"> · {product.brandName}</span>}
+                        </span>
+                        {product.price != null && <span>₹{product.price.toLocaleString('en-IN')}</span>}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No products requested</p>
+                )}
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsConvertDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={convertMutation.isPending}>
+                  {convertMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Create Vehicle Order
+                </Button>
+              </DialogFooter>
+            </form>
           )}
-          <DialogFooter>
-            <Button onClick={() => setIsHistoryDialogOpen(false)}>Close</Button>
-          </DialogFooter>
         </DialogContent>
       </Dialog>
 
-      {/* Attachments Dialog */}
-      <Dialog open={isAttachmentsDialogOpen} onOpenChange={setIsAttachmentsDialogOpen}>
+      {/* Status History Modal */}
+      <Dialog open={isHistoryDialogOpen} onOpenChange={setIsHistoryDialogOpen}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Attachments</DialogTitle>
+            <DialogTitle>Status History</DialogTitle>
             <DialogDescription>
-              {selectedRequirementForAttachments && (
+              {selectedRequirement && (
                 <>
-                  <span>Requirement: {selectedRequirementForAttachments.requirementDescription}</span>
+                  <span>Requirement: {selectedRequirement.description}</span>
                   <br />
-                  <span>Customer: {selectedRequirementForAttachments.customerName}</span>
+                  <span>Customer: {selectedRequirement.customerName}</span>
                 </>
               )}
             </DialogDescription>
           </DialogHeader>
-          {selectedRequirementForAttachments && (
-            <div className="space-y-4">
-              {selectedRequirementForAttachments.attachments && selectedRequirementForAttachments.attachments.length > 0 ? (
-                <div className="space-y-3">
-                  {selectedRequirementForAttachments.attachments.map((attachment, index) => (
-                    <div key={index} className="flex items-center justify-between p-3 border rounded-lg">
-                      <div className="flex items-center gap-3">
-                        <FileText className="h-5 w-5 text-blue-600" />
-                        <div>
-                          <div className="font-medium">{attachment}</div>
-                          <div className="text-sm text-muted-foreground">PDF Document</div>
-                        </div>
+          {selectedRequirementLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : selectedRequirement && (
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {selectedRequirement.statusHistory.map((change) => (
+                <div key={change.changeId} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <div className="w-2 h-2 bg-blue-600 rounded-full" />
+                    <div>
+                      <div className="font-medium">
+                        {change.fromStatus
+                          ? `${statusLabels[change.fromStatus]} → ${statusLabels[change.toStatus]}`
+                          : statusLabels[change.toStatus]}
                       </div>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => window.open(`https://via.placeholder.com/800x600/0066cc/ffffff?text=${attachment}`, '_blank')}
-                      >
-                        View
-                      </Button>
+                      <div className="text-sm text-muted-foreground">
+                        {formatDateTime(change.changedAt)} by {getUserName(change.user)}
+                      </div>
+                      {change.notes && (
+                        <div className="text-sm text-muted-foreground mt-1">
+                          {change.notes}
+                        </div>
+                      )}
                     </div>
-                  ))}
-                </div>
-              ) : (
-                <div className="text-center py-8 text-muted-foreground">
-                  <FileText className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-                  <p>No attachments yet</p>
+                  </div>
                 </div>
-              )}
+              ))}
             </div>
           )}
           <DialogFooter>
-            <Button onClick={() => setIsAttachmentsDialogOpen(false)}>Close</Button>
+            <Button onClick={() => setIsHistoryDialogOpen(false)}>Close</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -1180,47 +1111,41 @@ export default function CustomerRequirementsPage() {
       <Dialog open={isCommentsDialogOpen} onOpenChange={setIsCommentsDialogOpen}>
         <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Comments & Attachments</DialogTitle>
+            <DialogTitle>Comments</DialogTitle>
             <DialogDescription>
-              {selectedRequirementForComments && (
+              {selectedRequirement && (
                 <>
-                  <span>Requirement: {selectedRequirementForComments.requirementDescription}</span>
+                  <span>Requirement: {selectedRequirement.description}</span>
                   <br />
-                  <span>Customer: {selectedRequirementForComments.customerName}</span>
+                  <span>Customer: {selectedRequirement.customerName}</span>
                 </>
               )}
             </DialogDescription>
           </DialogHeader>
-          {selectedRequirementForComments && (
+          {selectedRequirementLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : selectedRequirement && (
             <div className="space-y-4">
               {/* Existing Comments */}
-              {selectedRequirementForComments.comments && selectedRequirementForComments.comments.length > 0 ? (
+              {selectedRequirement.comments.length > 0 ? (
                 <div className="space-y-3">
-                  {selectedRequirementForComments.comments.map((comment) => (
-                    <div key={comment.id} className="p-3 border rounded-lg">
+                  {selectedRequirement.comments.map((comment) => (
+                    <div key={comment.commentId} className="p-3 border rounded-lg">
                       <div className="flex items-start justify-between mb-2">
-                        <div className="font-medium">{comment.createdBy}</div>
+                        <div className="font-medium">{getUserName(comment.author)}</div>
                         <div className="text-sm text-muted-foreground">
-                          {new Date(comment.createdAt).toLocaleDateString()}
+                          {formatDateTime(comment.createdAt)}
                         </div>
                       </div>
-                      <p className="text-sm mb-2">{comment.text}</p>
-                      {comment.attachments && comment.attachments.length > 0 && (
-                        <div className="space-y-1">
-                          {comment.attachments.map((attachment, index) => (
-                            <div key={index} className="flex items-center gap-2 text-sm text-blue-600">
-                              <FileText className="h-4 w-4" />
-                              <span>{attachment}</span>
-                            </div>
-                          ))}
-                        </div>
-                      )}
+                      <p className="text-sm whitespace-pre-wrap">{comment.message}</p>
                     </div>
                   ))}
                 </div>
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
-                  <Eye className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                  <MessageSquare className="h-12 w-12 mx-auto mb-4 text-gray-400" />
                   <p>No comments yet</p>
                 </div>
               )}
@@ -1235,62 +1160,14 @@ export default function CustomerRequirementsPage() {
                     onChange={(e) => setNewComment(e.target.value)}
                     rows={3}
                   />
-                  <div className="flex gap-2">
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => document.getElementById('comment-file-upload')?.click()}
-                      className="flex items-center gap-2"
-                    >
-                      <FileText className="h-4 w-4" />
-                      Attach Files
-                    </Button>
-                    <input
-                      id="comment-file-upload"
-                      type="file"
-                      multiple
-                      className="hidden"
-                      onChange={(e) => setCommentFiles(e.target.files)}
-                    />
-                    <Button
-                      type="button"
-                      onClick={() => {
-                        if (newComment.trim()) {
-                          const newCommentObj: RequirementComment = {
-                            id: `comment_${Date.now()}`,
-                            text: newComment,
-                            createdAt: new Date().toISOString(),
-                            createdBy: 'Current User',
-                            attachments: commentFiles ? Array.from(commentFiles).map(f => f.name) : []
-                          };
-                          
-                          const updatedRequirements = requirements.map(req =>
-                            req.id === selectedRequirementForComments.id
-                              ? { ...req, comments: [...(req.comments || []), newCommentObj] }
-                              : req
-                          );
-                          setRequirements(updatedRequirements);
-                          
-                          setNewComment('');
-                          setCommentFiles(null);
-                          toast.success('Comment added successfully');
-                        }
-                      }}
-                    >
-                      Add Comment
-                    </Button>
-                  </div>
-                  {commentFiles && commentFiles.length > 0 && (
-                    <div className="space-y-1">
-                      <p className="text-sm text-muted-foreground">Selected files:</p>
-                      {Array.from(commentFiles).map((file, index) => (
-                        <div key={index} className="flex items-center gap-2 text-sm p-2 bg-gray-50 rounded">
-                          <FileText className="h-4 w-4 text-blue-600" />
-                          <span className="truncate">{file.name}</span>
-                        </div>
-                      ))}
-                    </div>
-                  )}
+                  <Button
+                    type="button"
+                    onClick={handleAddComment}
+                    disabled={!newComment.trim() || addCommentMutation.isPending}
+                  >
+                    {addCommentMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Add Comment
+                  </Button>
                 </div>
               </div>
             </div>
@@ -1307,7 +1184,8 @@ export default function CustomerRequirementsPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the requirement record.
+              This action cannot be undone. This will permanently delete the requirement record,
+              its comments and status history. A vehicle order created from it is kept.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -1,20 +1,20 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { 
-  Dialog, 
-  DialogContent, 
-  DialogDescription, 
-  DialogFooter, 
-  DialogHeader, 
-  DialogTitle, 
-  DialogTrigger 
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
 } from "@/components/ui/dialog";
 import {
   Select,
@@ -41,98 +41,50 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { 
-  Wrench, 
-  Plus, 
-  Search, 
-  Edit, 
-  Trash2, 
-  Clock, 
-  CheckCircle, 
+import {
+  Wrench,
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  CheckCircle,
   AlertTriangle,
-  User,
-  Calendar,
-  Filter,
   Download,
-  Users,
-  UserPlus,
-  Settings,
   Loader2,
   FileText,
   History,
-  Car,
-  Phone,
   Paperclip,
   MessageCircle,
   X,
   Send,
   Building,
   Eye,
-  DollarSign
+  Upload
 } from "lucide-react";
 import { toast } from 'sonner';
 
-interface ServiceJob {
-  id: string;
-  customerName: string;
-  customerPhone: string;
-  customerEmail?: string;
-  vehicleModel: string;
-  vehicleRegistration: string;
-  serviceType: string;
-  serviceTypeId: string;
-  technicianId: string;
-  technicianName: string;
-  priority: 'low' | 'medium' | 'high';
-  status: 'new_complaint' | 'under_inspection' | 'sent_to_service_centre' | 'received' | 'completed';
-  estimatedCost: number;
-  actualCost?: number;
-  scheduledDate: string;
-  scheduledTime: string;
-  notes?: string;
-  attachments: string[];
-  comments: {
-    id: string;
-    author: string;
-    message: string;
-    timestamp: string;
-    type: 'comment' | 'status_update' | 'attachment_added';
-    attachments?: string[]; // Comment-specific attachments
-  }[];
-  createdAt: string;
-  updatedAt: string;
-  completedAt?: string;
-  statusHistory: StatusChange[];
-}
-
-interface StatusChange {
-  id: string;
-  fromStatus: string;
-  toStatus: string;
-  changedAt: string;
-  changedBy: string;
-  notes?: string;
-}
-
-interface Technician {
-  id: string;
-  name: string;
-  specialization: string;
-  phone: string;
-  email: string;
-  isActive: boolean;
-  workload: number;
-}
-
-interface ServiceType {
-  id: string;
-  name: string;
-  category: string;
-  baseCost: number;
-  estimatedDuration: number; // in hours
-  description: string;
-  isActive: boolean;
-}
+import { mediaApi } from '@/lib/api/media';
+import type {
+  ServiceJob,
+  ServiceJobAttachment,
+  ServiceJobPriority,
+  ServiceJobRequest,
+  ServiceJobStatus,
+  ServiceJobUser,
+} from '@/lib/api/serviceJobs';
+import {
+  useAddServiceJobAttachments,
+  useAddServiceJobComment,
+  useAssignServiceTechnician,
+  useCreateServiceJob,
+  useDeleteServiceJob,
+  useRemoveServiceJobAttachment,
+  useServiceJob,
+  useServiceJobs,
+  useServiceTechnicians,
+  useUpdateServiceJob,
+  useUpdateServiceJobStatus,
+} from '@/lib/hooks/useServiceJobs';
 
 const priorityConfig = {
   low: { label: 'Low', color: 'bg-green-100 text-green-800' },
@@ -148,223 +100,82 @@ const statusConfig = {
   completed: { label: 'Completed', color: 'bg-green-100 text-green-800', icon: CheckCircle }
 };
 
+const UNASSIGNED = 'unassigned';
+const PAGE_SIZE = 25;
+
+const emptyForm = {
+  customerName: '',
+  customerPhone: '',
+  customerEmail: '',
+  vehicleModel: '',
+  vehicleRegistration: '',
+  serviceType: '',
+  technicianId: UNASSIGNED,
+  priority: 'medium' as ServiceJobPriority,
+  status: 'new_complaint' as ServiceJobStatus,
+  scheduledDate: '',
+  estimatedCost: '',
+  actualCost: '',
+  notes: '',
+  files: [] as File[]
+};
+
+const getUserName = (user?: ServiceJobUser | null) => {
+  if (!user) return 'Unassigned';
+  return `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email;
+};
+
+const getFileTypeLabel = (mimeType: string) => {
+  if (mimeType.startsWith('image/')) return 'Image file';
+  if (mimeType.startsWith('video/')) return 'Video file';
+  if (mimeType === 'application/pdf') return 'PDF Document';
+  return 'File';
+};
+
 export default function ServiceTrackerPage() {
-  const [serviceJobs, setServiceJobs] = useState<ServiceJob[]>([]);
-  const [filteredJobs, setFilteredJobs] = useState<ServiceJob[]>([]);
-  const [loading, setLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [priorityFilter, setPriorityFilter] = useState<string>('all');
+  const [page, setPage] = useState(1);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
   const [editingJob, setEditingJob] = useState<ServiceJob | null>(null);
-  const [selectedJobHistory, setSelectedJobHistory] = useState<ServiceJob | null>(null);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
   const [deleteJobId, setDeleteJobId] = useState<string | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
-  const [selectedJobAttachments, setSelectedJobAttachments] = useState<ServiceJob | null>(null);
   const [isAttachmentsDialogOpen, setIsAttachmentsDialogOpen] = useState(false);
-  const [selectedJobComments, setSelectedJobComments] = useState<ServiceJob | null>(null);
   const [isCommentsDialogOpen, setIsCommentsDialogOpen] = useState(false);
   const [newComment, setNewComment] = useState('');
-  const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
 
   // Form state
-  const [formData, setFormData] = useState({
-    customerName: '',
-    customerPhone: '',
-    customerEmail: '',
-    vehicleModel: '',
-    vehicleRegistration: '',
-    priority: 'medium' as const,
-    status: 'new_complaint' as const,
-    scheduledDate: '',
-    notes: '',
-    attachments: [] as string[]
-  });
-
-
-  // Enhanced mock data
-  useEffect(() => {
-    const mockServiceJobs: ServiceJob[] = [
-      {
-        id: 'job_001',
-        customerName: 'John Smith',
-        customerPhone: '+91-9876543210',
-        customerEmail: 'john@example.com',
-        vehicleModel: 'Swift',
-        vehicleRegistration: 'MH12AB1234',
-        serviceType: 'Audio System Repair',
-        serviceTypeId: 'service_001',
-        technicianId: 'tech_001',
-        technicianName: 'Raj Kumar',
-        priority: 'high',
-        status: 'under_inspection',
-        estimatedCost: 5000,
-        actualCost: 4500,
-        scheduledDate: '2024-01-16',
-        scheduledTime: '10:00',
-        notes: 'Customer reported audio system not working properly',
-        attachments: ['audio_diagnosis.pdf', 'before_photo.jpg', 'photos_1758198823126.jpeg'],
-        comments: [
-          {
-            id: 'comment_001',
-            author: 'Raj Kumar',
-            message: 'Initial inspection completed. Found loose wiring connection.',
-            timestamp: '2024-01-15T14:30:00Z',
-            type: 'comment',
-            attachments: ['wiring_diagram.pdf', 'inspection_photo.jpg']
-          }
-        ],
-        createdAt: '2024-01-15T10:30:00Z',
-        updatedAt: '2024-01-15T14:30:00Z',
-        statusHistory: [
-          {
-            id: 'status_001',
-            fromStatus: 'new_complaint',
-            toStatus: 'under_inspection',
-            changedAt: '2024-01-15T14:30:00Z',
-            changedBy: 'Raj Kumar',
-            notes: 'Job assigned and inspection started'
-          }
-        ]
-      },
-      {
-        id: 'job_002',
-        customerName: 'Sarah Johnson',
-        customerPhone: '+91-9876543211',
-        customerEmail: 'sarah@example.com',
-        vehicleModel: 'Honda City',
-        vehicleRegistration: 'MH13CD5678',
-        serviceType: 'Engine Diagnostic',
-        serviceTypeId: 'service_002',
-        technicianId: 'tech_002',
-        technicianName: 'Amit Patel',
-        priority: 'medium',
-        status: 'sent_to_service_centre',
-        estimatedCost: 3000,
-        actualCost: 3200,
-        scheduledDate: '2024-01-17',
-        scheduledTime: '14:00',
-        notes: 'Engine making unusual noise, needs diagnostic',
-        attachments: ['engine_noise.mp3'],
-        comments: [
-          {
-            id: 'comment_002',
-            author: 'Amit Patel',
-            message: 'Engine diagnostic completed. Found timing belt issue.',
-            timestamp: '2024-01-15T16:00:00Z',
-            type: 'comment',
-            attachments: ['engine_report.pdf']
-          }
-        ],
-        createdAt: '2024-01-15T11:00:00Z',
-        updatedAt: '2024-01-15T16:00:00Z',
-        statusHistory: [
-          {
-            id: 'status_002',
-            fromStatus: 'new_complaint',
-            toStatus: 'under_inspection',
-            changedAt: '2024-01-15T11:00:00Z',
-            changedBy: 'Amit Patel',
-            notes: 'Job assigned for diagnostic'
-          },
-          {
-            id: 'status_003',
-            fromStatus: 'under_inspection',
-            toStatus: 'sent_to_service_centre',
-            changedAt: '2024-01-15T16:00:00Z',
-            changedBy: 'Amit Patel',
-            notes: 'Diagnostic complete, sent to service centre for repair'
-          }
-        ]
-      },
-      {
-        id: 'job_003',
-        customerName: 'Mike Wilson',
-        customerPhone: '+91-9876543212',
-        customerEmail: 'mike@example.com',
-        vehicleModel: 'Toyota Innova',
-        vehicleRegistration: 'MH14EF9012',
-        serviceType: 'AC Service',
-        serviceTypeId: 'service_004',
-        technicianId: 'tech_003',
-        technicianName: 'Suresh Mehta',
-        priority: 'low',
-        status: 'completed',
-        estimatedCost: 2000,
-        actualCost: 1800,
-        scheduledDate: '2024-01-15',
-        scheduledTime: '09:00',
-        notes: 'AC not cooling properly',
-        attachments: ['ac_before.jpg', 'ac_after.jpg'],
-        comments: [
-          {
-            id: 'comment_003',
-            author: 'Suresh Mehta',
-            message: 'AC service completed successfully. Customer satisfied.',
-            timestamp: '2024-01-15T12:00:00Z',
-            type: 'comment'
-          }
-        ],
-        createdAt: '2024-01-15T08:00:00Z',
-        updatedAt: '2024-01-15T12:00:00Z',
-        completedAt: '2024-01-15T12:00:00Z',
-        statusHistory: [
-          {
-            id: 'status_004',
-            fromStatus: 'new_complaint',
-            toStatus: 'under_inspection',
-            changedAt: '2024-01-15T08:00:00Z',
-            changedBy: 'Suresh Mehta',
-            notes: 'Job assigned for AC service'
-          },
-          {
-            id: 'status_005',
-            fromStatus: 'under_inspection',
-            toStatus: 'completed',
-            changedAt: '2024-01-15T12:00:00Z',
-            changedBy: 'Suresh Mehta',
-            notes: 'AC service completed successfully'
-          }
-        ]
-      }
-    ];
-
-    setServiceJobs(mockServiceJobs);
-    // Initially filter out completed jobs
-    setFilteredJobs(mockServiceJobs.filter(job => job.status !== 'completed'));
-  }, []);
-
-  // Filter service jobs
-  useEffect(() => {
-    let filtered = serviceJobs;
+  const [formData, setFormData] = useState(emptyForm);
 
+  const { data: jobsData, isLoading } = useServiceJobs({
+    page,
+    limit: PAGE_SIZE,
+    search: searchTerm || undefined,
+    status: statusFilter === 'all' ? undefined : statusFilter as ServiceJobStatus,
+    priority: priorityFilter === 'all' ? undefined : priorityFilter as ServiceJobPriority,
     // By default, exclude completed jobs from main table unless specifically filtering for them
-    if (statusFilter === 'all') {
-      filtered = filtered.filter(job => job.status !== 'completed');
-    }
-
-    if (searchTerm) {
-      filtered = filtered.filter(job =>
-        job.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        job.customerPhone.includes(searchTerm) ||
-        job.vehicleModel.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        job.vehicleRegistration.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        job.serviceType.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        job.technicianName.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
-
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(job => job.status === statusFilter);
-    }
-
-    if (priorityFilter !== 'all') {
-      filtered = filtered.filter(job => job.priority === priorityFilter);
-    }
+    includeCompleted: statusFilter === 'all' ? false : undefined
+  });
+  const { data: selectedJobData, isLoading: selectedJobLoading } = useServiceJob(selectedJobId);
+  const { data: techniciansData } = useServiceTechnicians();
+  const createJobMutation = useCreateServiceJob();
+  const updateJobMutation = useUpdateServiceJob();
+  const updateStatusMutation = useUpdateServiceJobStatus();
+  const assignTechnicianMutation = useAssignServiceTechnician();
+  const deleteJobMutation = useDeleteServiceJob();
+  const addCommentMutation = useAddServiceJobComment();
+  const addAttachmentsMutation = useAddServiceJobAttachments();
+  const removeAttachmentMutation = useRemoveServiceJobAttachment();
 
-    setFilteredJobs(filtered);
-  }, [serviceJobs, searchTerm, statusFilter, priorityFilter]);
+  const filteredJobs: ServiceJob[] = jobsData?.data || [];
+  const totalPages = jobsData?.pagination?.totalPages || 1;
+  const selectedJob = selectedJobData?.data || null;
+  const technicians = techniciansData?.data || [];
 
   // Utility functions
   const formatDate = (dateString: string) => {
@@ -377,22 +188,12 @@ export default function ServiceTrackerPage() {
     });
   };
 
-  const formatCost = (estimated: number, actual?: number) => {
-    if (actual && actual > 0) {
-      return `₹${estimated} Actual: ₹${actual}`;
-    }
-    return `₹${estimated}`;
+  const formatCost = (cost: string | null) => {
+    return cost !== null ? `₹${Number(cost)}` : '';
   };
 
-  const formatScheduledDateTime = (date: string, time: string) => {
-    const scheduledDateTime = new Date(`${date}T${time}`);
-    return scheduledDateTime.toLocaleDateString('en-IN', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
+  const parseCost = (value: string) => {
+    return value.trim() === '' ? null : Number(value);
   };
 
   const handlePhoneClick = (phoneNumber: string) => {
@@ -400,90 +201,86 @@ export default function ServiceTrackerPage() {
   };
 
   const handleStatusChange = (jobId: string, newStatus: string) => {
-    const job = serviceJobs.find(j => j.id === jobId);
-    if (!job) return;
+    const status = newStatus as ServiceJobStatus;
 
-    const statusChange: StatusChange = {
-      id: `status_${Date.now()}`,
-      fromStatus: job.status,
-      toStatus: newStatus,
-      changedAt: new Date().toISOString(),
-      changedBy: 'Current User', // In real app, get from auth
-      notes: `Status changed from ${statusConfig[job.status as keyof typeof statusConfig].label} to ${statusConfig[newStatus as keyof typeof statusConfig].label}`
-    };
-
-    const updatedJob: ServiceJob = {
-      ...job,
-      status: newStatus as any,
-      updatedAt: new Date().toISOString(),
-      completedAt: newStatus === 'completed' ? new Date().toISOString() : undefined,
-      statusHistory: [...job.statusHistory, statusChange]
-    };
+    updateStatusMutation.mutate({ jobId, status }, {
+      onSuccess: () => {
+        // If status changed to completed, show success message
+        if (status === 'completed') {
+          toast.success(`Service job completed! It has been moved to the completed section.`);
+        } else {
+          toast.success(`Status updated to ${statusConfig[status].label}`);
+        }
+      },
+      onError: (error: any) => toast.error(error.message || 'Failed to update status')
+    });
+  };
 
-    setServiceJobs(serviceJobs.map(j => j.id === jobId ? updatedJob : j));
-    
-    // If status changed to completed, show success message
-    if (newStatus === 'completed') {
-      toast.success(`Service job completed! It has been moved to the completed section.`);
-    } else {
-      toast.success(`Status updated to ${statusConfig[newStatus as keyof typeof statusConfig].label}`);
-    }
+  const handleTechnicianChange = (jobId: string, value: string) => {
+    assignTechnicianMutation.mutate({ jobId, technicianId: value === UNASSIGNED ? null : value }, {
+      onSuccess: (response) => toast.success(response.message || 'Technician updated'),
+      onError: (error: any) => toast.error(error.message || 'Failed to assign technician')
+    });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
+    setSaving(true);
+
+    const technicianId = formData.technicianId === UNASSIGNED ? null : formData.technicianId;
+    const details: ServiceJobRequest = {
+      customerName: formData.customerName.trim() || undefined,
+      customerPhone: formData.customerPhone.trim() || undefined,
+      customerEmail: formData.customerEmail.trim() || null,
+      vehicleModel: formData.vehicleModel.trim() || null,
+      serviceType: formData.serviceType.trim() || null,
+      priority: formData.priority,
+      estimatedCost: parseCost(formData.estimatedCost),
+      actualCost: parseCost(formData.actualCost),
+      scheduledAt: formData.scheduledDate ? new Date(formData.scheduledDate).toISOString() : null,
+      notes: formData.notes.trim() || null
+    };
 
     try {
+      let job: ServiceJob;
+
       if (editingJob) {
         // Update existing job
-        const updatedJobs = serviceJobs.map(job =>
-          job.id === editingJob.id
-            ? { 
-                ...job, 
-                ...formData,
-                updatedAt: new Date().toISOString()
-              }
-            : job
-        );
-        setServiceJobs(updatedJobs);
-        toast.success('Service job updated successfully');
+        const response = await updateJobMutation.mutateAsync({ jobId: editingJob.jobId, data: details });
+        job = response.data!;
+
+        if (formData.status !== editingJob.status) {
+          await updateStatusMutation.mutateAsync({ jobId: job.jobId, status: formData.status });
+        }
+        if (technicianId !== editingJob.technicianId) {
+          await assignTechnicianMutation.mutateAsync({ jobId: job.jobId, technicianId });
+        }
       } else {
         // Create new job
-        const newJob: ServiceJob = {
-          id: `job_${Date.now()}`,
-          ...formData,
-          serviceType: 'General Service',
-          serviceTypeId: 'general',
-          technicianId: 'unassigned',
-          technicianName: 'Unassigned',
-          estimatedCost: 0,
-          actualCost: 0,
-          scheduledTime: '',
-          attachments: formData.attachments,
-          comments: [],
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-          statusHistory: [{
-            id: `status_${Date.now()}`,
-            fromStatus: '',
-            toStatus: formData.status,
-            changedAt: new Date().toISOString(),
-            changedBy: 'Current User',
-            notes: 'Initial service job entry'
-          }]
-        };
-        setServiceJobs([newJob, ...serviceJobs]);
-        toast.success('Service job created successfully');
+        const response = await createJobMutation.mutateAsync({
+          ...details,
+          vehicleRegistration: formData.vehicleRegistration.trim(),
+          technicianId
+        });
+        job = response.data!;
       }
 
+      if (formData.files.length > 0) {
+        try {
+          await addAttachmentsMutation.mutateAsync({ jobId: job.jobId, vehicleId: job.vehicleId, files: formData.files });
+        } catch (error: any) {
+          toast.error(`Service job saved, but attachments failed: ${error.message || 'Upload failed'}`);
+        }
+      }
+
+      toast.success(editingJob ? 'Service job updated successfully' : 'Service job created successfully');
       setIsDialogOpen(false);
       setEditingJob(null);
       resetForm();
-    } catch (error) {
-      toast.error('Failed to save service job');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save service job');
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
   };
 
@@ -493,148 +290,134 @@ export default function ServiceTrackerPage() {
       customerName: job.customerName,
       customerPhone: job.customerPhone,
       customerEmail: job.customerEmail || '',
-      vehicleModel: job.vehicleModel,
+      vehicleModel: job.vehicleModel || '',
       vehicleRegistration: job.vehicleRegistration,
+      serviceType: job.serviceType || '',
+      technicianId: job.technicianId || UNASSIGNED,
       priority: job.priority,
       status: job.status,
-      scheduledDate: job.scheduledDate || '',
+      scheduledDate: job.scheduledAt ? job.scheduledAt.split('T')[0] : '',
+      estimatedCost: job.estimatedCost !== null ? String(Number(job.estimatedCost)) : '',
+      actualCost: job.actualCost !== null ? String(Number(job.actualCost)) : '',
       notes: job.notes || '',
-      attachments: job.attachments || []
+      files: []
     });
     setIsDialogOpen(true);
   };
 
   const handleDelete = (jobId: string) => {
-    setServiceJobs(serviceJobs.filter(job => job.id !== jobId));
-    toast.success('Service job deleted successfully');
+    deleteJobMutation.mutate(jobId, {
+      onSuccess: () => toast.success('Service job deleted successfully'),
+      onError: (error: any) => toast.error(error.message || 'Failed to delete service job')
+    });
     setIsDeleteDialogOpen(false);
     setDeleteJobId(null);
   };
 
   const handleViewHistory = (job: ServiceJob) => {
-    setSelectedJobHistory(job);
+    setSelectedJobId(job.jobId);
     setIsHistoryDialogOpen(true);
   };
 
   const handleViewAttachments = (job: ServiceJob) => {
-    console.log('Opening attachments for job:', job);
-    console.log('Job attachments:', job.attachments);
-    setSelectedJobAttachments(job);
+    setSelectedJobId(job.jobId);
     setIsAttachmentsDialogOpen(true);
   };
 
   const handleViewComments = (job: ServiceJob) => {
-    console.log('Opening comments for job:', job);
-    console.log('Job comments:', job.comments);
-    setSelectedJobComments(job);
+    setSelectedJobId(job.jobId);
     setIsCommentsDialogOpen(true);
     // Clear previous form data
     setNewComment('');
-    setSelectedFiles(null);
+    setSelectedFiles([]);
   };
 
-  const handleViewFile = (fileName: string) => {
-    const fileType = fileName.includes('.jpg') || fileName.includes('.png') || fileName.includes('.jpeg') ? 'image' :
-                    fileName.includes('.pdf') ? 'pdf' :
-                    fileName.includes('.mp4') || fileName.includes('.avi') ? 'video' : 'document';
-    
-    // Create URLs for different file types
-    let fileUrl: string;
-    if (fileType === 'image') {
-      // Use a simple placeholder that always works
-      fileUrl = `https://via.placeholder.com/800x600/0066cc/ffffff?text=${encodeURIComponent(fileName)}`;
-    } else if (fileType === 'pdf') {
-      // Use a simple placeholder for PDFs
-      fileUrl = `https://via.placeholder.com/800x600/ff0000/ffffff?text=PDF+Document`;
-    } else if (fileType === 'video') {
-      // Use a simple placeholder for videos
-      fileUrl = `https://via.placeholder.com/800x600/00ff00/ffffff?text=Video+File`;
-    } else {
-      // For other documents, use a placeholder
-      fileUrl = `https://via.placeholder.com/800x600/0066cc/ffffff?text=${encodeURIComponent(fileName)}`;
+  const handleViewFile = async (attachment: ServiceJobAttachment, download = false) => {
+    try {
+      const response = await mediaApi.getMediaFileUrl(attachment.fileId);
+      if (!response.data?.url) {
+        throw new Error('File URL not available');
+      }
+
+      if (download) {
+        const a = document.createElement('a');
+        a.href = response.data.url;
+        a.download = attachment.file.originalFilename;
+        a.click();
+      } else {
+        // Open file in new tab
+        window.open(response.data.url, '_blank', 'noopener,noreferrer');
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to open file');
     }
-    
-    // Open file in new tab
-    window.open(fileUrl, '_blank', 'noopener,noreferrer');
   };
 
   const handleAddComment = () => {
-    if (!selectedJobComments || !newComment.trim()) return;
-    
-    // Handle file attachments if any
-    let newAttachments: string[] = [];
-    if (selectedFiles && selectedFiles.length > 0) {
-      newAttachments = Array.from(selectedFiles).map(file => {
-        const timestamp = Date.now();
-        const extension = file.name.split('.').pop();
-        return `comment_${timestamp}.${extension}`;
-      });
-    }
+    if (!selectedJob || !newComment.trim()) return;
 
-    const comment = {
-      id: `comment_${Date.now()}`,
-      author: 'Current User',
+    addCommentMutation.mutate({
+      jobId: selectedJob.jobId,
+      vehicleId: selectedJob.vehicleId,
       message: newComment.trim(),
-      timestamp: new Date().toISOString(),
-      type: 'comment' as const,
-      attachments: newAttachments
-    };
-
-    const updatedJobs = serviceJobs.map(job =>
-      job.id === selectedJobComments.id
-        ? { 
-            ...job, 
-            comments: [...job.comments, comment]
-          }
-        : job
-    );
-    setServiceJobs(updatedJobs);
-    setNewComment('');
-    setSelectedFiles(null);
-    toast.success('Comment added successfully');
+      files: selectedFiles
+    }, {
+      onSuccess: () => {
+        setNewComment('');
+        setSelectedFiles([]);
+        toast.success('Comment added successfully');
+      },
+      onError: (error: any) => toast.error(error.message || 'Failed to add comment')
+    });
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setSelectedFiles(event.target.files);
+    setSelectedFiles(Array.from(event.target.files || []));
+    event.target.value = '';
   };
 
   const handleAttachmentUpload = (event: React.ChangeEvent<HTMLInputElement>, type: string) => {
-    const files = event.target.files;
-    if (files && files.length > 0) {
-      const newAttachments = Array.from(files).map(file => {
-        const timestamp = Date.now();
-        const extension = file.name.split('.').pop();
-        return `${type}_${timestamp}.${extension}`;
-      });
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length > 0) {
       setFormData(prev => ({
         ...prev,
-        attachments: [...prev.attachments, ...newAttachments]
+        files: [...prev.files, ...files]
       }));
       toast.success(`${files.length} ${type} file(s) added successfully`);
     }
   };
 
+  const handleJobAttachmentUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (!selectedJob || files.length === 0) return;
+
+    try {
+      await addAttachmentsMutation.mutateAsync({ jobId: selectedJob.jobId, vehicleId: selectedJob.vehicleId, files });
+      toast.success(`${files.length} file(s) attached successfully`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to upload attachments');
+    }
+  };
+
+  const handleRemoveJobAttachment = (attachment: ServiceJobAttachment) => {
+    removeAttachmentMutation.mutate({ jobId: attachment.jobId, attachmentId: attachment.attachmentId }, {
+      onSuccess: () => toast.success('Attachment removed'),
+      onError: (error: any) => toast.error(error.message || 'Failed to remove attachment')
+    });
+  };
+
   const removeAttachment = (index: number) => {
     setFormData(prev => ({
       ...prev,
-      attachments: prev.attachments.filter((_, i) => i !== index)
+      files: prev.files.filter((_, i) => i !== index)
     }));
     toast.success('Attachment removed');
   };
 
   const resetForm = () => {
-    setFormData({
-      customerName: '',
-      customerPhone: '',
-      customerEmail: '',
-      vehicleModel: '',
-      vehicleRegistration: '',
-      priority: 'medium',
-      status: 'new_complaint',
-      scheduledDate: '',
-      notes: '',
-      attachments: []
-    });
+    setFormData(emptyForm);
   };
 
   const handleDialogClose = () => {
@@ -643,23 +426,29 @@ export default function ServiceTrackerPage() {
     resetForm();
   };
 
+  const handleFilterChange = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
   const handleExport = () => {
+    const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
     const csvContent = [
       ['Customer Name', 'Phone', 'Vehicle', 'Service Type', 'Technician', 'Priority', 'Status', 'Estimated Cost', 'Actual Cost', 'Scheduled', 'Notes'],
       ...filteredJobs.map(job => [
         job.customerName,
         job.customerPhone,
-        `${job.vehicleModel} ${job.vehicleRegistration}`,
-        job.serviceType,
-        job.technicianName,
+        `${job.vehicleModel || ''} ${job.vehicleRegistration}`.trim(),
+        job.serviceType || '',
+        getUserName(job.technician),
         priorityConfig[job.priority].label,
         statusConfig[job.status].label,
-        `₹${job.estimatedCost}`,
-        job.actualCost ? `₹${job.actualCost}` : '',
-        formatScheduledDateTime(job.scheduledDate, job.scheduledTime),
+        formatCost(job.estimatedCost),
+        formatCost(job.actualCost),
+        job.scheduledAt ? formatDate(job.scheduledAt) : '',
         job.notes || ''
       ])
-    ].map(row => row.join(',')).join('\n');
+    ].map(row => row.map(escape).join(',')).join('\n');
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
@@ -672,14 +461,56 @@ export default function ServiceTrackerPage() {
   };
 
   // Dashboard statistics
+  const summary = jobsData?.summary;
   const stats = {
-    newComplaints: serviceJobs.filter(job => job.status === 'new_complaint').length,
-    underInspection: serviceJobs.filter(job => job.status === 'under_inspection').length,
-    atServiceCentre: serviceJobs.filter(job => job.status === 'sent_to_service_centre').length,
-    received: serviceJobs.filter(job => job.status === 'received').length,
-    completed: serviceJobs.filter(job => job.status === 'completed').length
+    newComplaints: summary?.new_complaint || 0,
+    underInspection: summary?.under_inspection || 0,
+    atServiceCentre: summary?.sent_to_service_centre || 0,
+    received: summary?.received || 0,
+    completed: summary?.completed || 0
   };
 
+  const renderAttachment = (attachment: ServiceJobAttachment, subtitle?: string, removable = false) => (
+    <div key={attachment.attachmentId} className="flex items-center justify-between p-3 border rounded-lg">
+      <div className="flex items-center gap-3 min-w-0">
+        <FileText className="h-6 w-6 text-blue-600 shrink-0" />
+        <div className="min-w-0">
+          <div className="font-medium text-sm truncate">{attachment.file.originalFilename}</div>
+          <div className="text-xs text-muted-foreground">{getFileTypeLabel(attachment.file.mimeType)}</div>
+          {subtitle && <div className="text-xs text-gray-500 truncate">{subtitle}</div>}
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-blue-600"
+          onClick={() => handleViewFile(attachment)}
+        >
+          View
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-green-600"
+          onClick={() => handleViewFile(attachment, true)}
+        >
+          Download
+        </Button>
+        {removable && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleRemoveJobAttachment(attachment)}
+            disabled={removeAttachmentMutation.isPending}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -699,7 +530,7 @@ export default function ServiceTrackerPage() {
       <div className="grid gap-4 md:grid-cols-5">
         <Card 
           className="cursor-pointer hover:shadow-lg transition-shadow"
-          onClick={() => setStatusFilter('new_complaint')}
+          onClick={() => handleFilterChange(setStatusFilter)('new_complaint')}
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">New Complaints</CardTitle>
@@ -714,7 +545,7 @@ export default function ServiceTrackerPage() {
         </Card>
         <Card 
           className="cursor-pointer hover:shadow-lg transition-shadow"
-          onClick={() => setStatusFilter('under_inspection')}
+          onClick={() => handleFilterChange(setStatusFilter)('under_inspection')}
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Under Inspection</CardTitle>
@@ -729,7 +560,7 @@ export default function ServiceTrackerPage() {
         </Card>
         <Card 
           className="cursor-pointer hover:shadow-lg transition-shadow"
-          onClick={() => setStatusFilter('sent_to_service_centre')}
+          onClick={() => handleFilterChange(setStatusFilter)('sent_to_service_centre')}
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">At Service Centre</CardTitle>
@@ -744,7 +575,7 @@ export default function ServiceTrackerPage() {
         </Card>
         <Card 
           className="cursor-pointer hover:shadow-lg transition-shadow"
-          onClick={() => setStatusFilter('received')}
+          onClick={() => handleFilterChange(setStatusFilter)('received')}
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Received</CardTitle>
@@ -759,7 +590,7 @@ export default function ServiceTrackerPage() {
         </Card>
         <Card 
           className="cursor-pointer hover:shadow-lg transition-shadow"
-          onClick={() => setStatusFilter('completed')}
+          onClick={() => handleFilterChange(setStatusFilter)('completed')}
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Completed</CardTitle>
@@ -780,61 +611,94 @@ export default function ServiceTrackerPage() {
           <div className="flex items-center justify-between">
             <CardTitle>Service Job Management</CardTitle>
             <div className="flex gap-2">
-              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <Dialog open={isDialogOpen} onOpenChange={(open) => open ? setIsDialogOpen(true) : handleDialogClose()}>
                 <DialogTrigger asChild>
                   <Button onClick={() => { setEditingJob(null); resetForm(); }}>
                     <Plus className="mr-2 h-4 w-4" />
                     New Service Job
                   </Button>
                 </DialogTrigger>
-                <DialogContent className="max-w-2xl">
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                   <DialogHeader>
                     <DialogTitle>
                       {editingJob ? 'Edit Service Job' : 'Add New Service Job'}
                     </DialogTitle>
                     <DialogDescription>
-                      {editingJob ? 'Update service job details' : 'Add a new service job entry'}
+                      {editingJob
+                        ? 'Update service job details'
+                        : 'Add a service job for a delivered vehicle. Customer details default to the vehicle owner.'}
                     </DialogDescription>
                   </DialogHeader>
                   <form onSubmit={handleSubmit} className="space-y-4">
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
-                        <Label htmlFor="customerName">Customer Name *</Label>
+                        <Label htmlFor="vehicleRegistration">Vehicle Registration *</Label>
+                        <Input
+                          id="vehicleRegistration"
+                          value={formData.vehicleRegistration}
+                          onChange={(e) => setFormData({ ...formData, vehicleRegistration: e.target.value })}
+                          disabled={!!editingJob}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="vehicleModel">Vehicle Model</Label>
+                        <Input
+                          id="vehicleModel"
+                          value={formData.vehicleModel}
+                          onChange={(e) => setFormData({ ...formData, vehicleModel: e.target.value })}
+                          placeholder="From vehicle record"
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="customerName">Customer Name</Label>
                         <Input
                           id="customerName"
                           value={formData.customerName}
                           onChange={(e) => setFormData({ ...formData, customerName: e.target.value })}
-                          required
+                          placeholder="Vehicle owner"
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label htmlFor="customerPhone">Customer Phone *</Label>
+                        <Label htmlFor="customerPhone">Customer Phone</Label>
                         <Input
                           id="customerPhone"
                           value={formData.customerPhone}
                           onChange={(e) => setFormData({ ...formData, customerPhone: e.target.value })}
-                          required
+                          placeholder="Vehicle owner"
                         />
                       </div>
                     </div>
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
-                        <Label htmlFor="vehicleModel">Vehicle Model *</Label>
+                        <Label htmlFor="serviceType">Service Type</Label>
                         <Input
-                          id="vehicleModel"
-                          value={formData.vehicleModel}
-                          onChange={(e) => setFormData({ ...formData, vehicleModel: e.target.value })}
-                          required
+                          id="serviceType"
+                          value={formData.serviceType}
+                          onChange={(e) => setFormData({ ...formData, serviceType: e.target.value })}
+                          placeholder="e.g. Audio System Repair"
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label htmlFor="vehicleRegistration">Vehicle Registration *</Label>
-                        <Input
-                          id="vehicleRegistration"
-                          value={formData.vehicleRegistration}
-                          onChange={(e) => setFormData({ ...formData, vehicleRegistration: e.target.value })}
-                          required
-                        />
+                        <Label htmlFor="technician">Technician</Label>
+                        <Select
+                          value={formData.technicianId}
+                          onValueChange={(value) => setFormData({ ...formData, technicianId: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                            {technicians.map((technician) => (
+                              <SelectItem key={technician.userId} value={technician.userId}>
+                                {getUserName(technician)} ({technician.openJobs} open)
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
                     </div>
                     <div className="grid grid-cols-2 gap-4">
@@ -859,6 +723,7 @@ export default function ServiceTrackerPage() {
                         <Select
                           value={formData.status}
                           onValueChange={(value: any) => setFormData({ ...formData, status: value })}
+                          disabled={!editingJob}
                         >
                           <SelectTrigger>
                             <SelectValue />
@@ -873,15 +738,38 @@ export default function ServiceTrackerPage() {
                         </Select>
                       </div>
                     </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="scheduledDate">Scheduled Date *</Label>
-                      <Input
-                        id="scheduledDate"
-                        type="date"
-                        value={formData.scheduledDate}
-                        onChange={(e) => setFormData({ ...formData, scheduledDate: e.target.value })}
-                        required
-                      />
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="scheduledDate">Scheduled Date</Label>
+                        <Input
+                          id="scheduledDate"
+                          type="date"
+                          value={formData.scheduledDate}
+                          onChange={(e) => setFormData({ ...formData, scheduledDate: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="estimatedCost">Estimated Cost (₹)</Label>
+                        <Input
+                          id="estimatedCost"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={formData.estimatedCost}
+                          onChange={(e) => setFormData({ ...formData, estimatedCost: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="actualCost">Actual Cost (₹)</Label>
+                        <Input
+                          id="actualCost"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={formData.actualCost}
+                          onChange={(e) => setFormData({ ...formData, actualCost: e.target.value })}
+                        />
+                      </div>
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="notes">Notes</Label>
@@ -901,27 +789,27 @@ export default function ServiceTrackerPage() {
                             <span className="text-sm text-gray-600">Upload Photos, Videos, or PDFs</span>
                           </div>
                           <div className="flex space-x-2">
-                            <Button 
-                              type="button" 
-                              variant="outline" 
+                            <Button
+                              type="button"
+                              variant="outline"
                               size="sm"
                               onClick={() => document.getElementById('attachment-photos')?.click()}
                             >
                               <FileText className="mr-2 h-4 w-4" />
                               Photos
                             </Button>
-                            <Button 
-                              type="button" 
-                              variant="outline" 
+                            <Button
+                              type="button"
+                              variant="outline"
                               size="sm"
                               onClick={() => document.getElementById('attachment-videos')?.click()}
                             >
                               <FileText className="mr-2 h-4 w-4" />
                               Videos
                             </Button>
-                            <Button 
-                              type="button" 
-                              variant="outline" 
+                            <Button
+                              type="button"
+                              variant="outline"
                               size="sm"
                               onClick={() => document.getElementById('attachment-pdfs')?.click()}
                             >
@@ -930,7 +818,7 @@ export default function ServiceTrackerPage() {
                             </Button>
                           </div>
                           <p className="text-xs text-gray-500">
-                            Drag and drop files here, or click to browse
+                            Files are uploaded to the vehicle's media when the job is saved
                           </p>
                           <input
                             id="attachment-photos"
@@ -957,12 +845,12 @@ export default function ServiceTrackerPage() {
                             onChange={(e) => handleAttachmentUpload(e, 'pdfs')}
                           />
                         </div>
-                        {formData.attachments.length > 0 && (
+                        {formData.files.length > 0 && (
                           <div className="mt-4 space-y-2">
                             <p className="text-sm font-medium">Selected Files:</p>
-                            {formData.attachments.map((file, index) => (
+                            {formData.files.map((file, index) => (
                               <div key={index} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                                <span className="text-sm">{file}</span>
+                                <span className="text-sm">{file.name}</span>
                                 <Button
                                   type="button"
                                   variant="ghost"
@@ -981,8 +869,8 @@ export default function ServiceTrackerPage() {
                       <Button type="button" variant="outline" onClick={handleDialogClose}>
                         Cancel
                       </Button>
-                      <Button type="submit" disabled={loading}>
-                        {loading ? (
+                      <Button type="submit" disabled={saving}>
+                        {saving ? (
                           <>
                             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                             Saving...
@@ -1007,12 +895,12 @@ export default function ServiceTrackerPage() {
                 <Input
                   placeholder="Search service jobs..."
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => handleFilterChange(setSearchTerm)(e.target.value)}
                   className="pl-10"
                 />
               </div>
             </div>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <Select value={statusFilter} onValueChange={handleFilterChange(setStatusFilter)}>
               <SelectTrigger className="w-48">
                 <SelectValue placeholder="Status" />
               </SelectTrigger>
@@ -1025,7 +913,7 @@ export default function ServiceTrackerPage() {
                 <SelectItem value="completed">Completed</SelectItem>
               </SelectContent>
             </Select>
-            <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+            <Select value={priorityFilter} onValueChange={handleFilterChange(setPriorityFilter)}>
               <SelectTrigger className="w-40">
                 <SelectValue placeholder="Priority" />
               </SelectTrigger>
@@ -1036,7 +924,7 @@ export default function ServiceTrackerPage() {
                 <SelectItem value="low">Low</SelectItem>
               </SelectContent>
             </Select>
-            <Button variant="outline" onClick={handleExport}>
+            <Button variant="outline" onClick={handleExport} disabled={filteredJobs.length === 0}>
               <Download className="mr-2 h-4 w-4" />
               Export
             </Button>
@@ -1049,6 +937,7 @@ export default function ServiceTrackerPage() {
                 <TableRow>
                     <TableHead>Customer</TableHead>
                     <TableHead>Vehicle</TableHead>
+                    <TableHead>Technician</TableHead>
                     <TableHead>Priority</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Scheduled Date</TableHead>
@@ -1058,8 +947,20 @@ export default function ServiceTrackerPage() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredJobs.map((job) => (
-                  <TableRow key={job.id} className="hover:bg-muted/50">
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+                    </TableCell>
+                  </TableRow>
+                ) : filteredJobs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                      No service jobs found
+                    </TableCell>
+                  </TableRow>
+                ) : filteredJobs.map((job) => (
+                  <TableRow key={job.jobId} className="hover:bg-muted/50">
                     <TableCell>
                       <div>
                         <div className="font-medium">{job.customerName}</div>
@@ -1074,10 +975,31 @@ export default function ServiceTrackerPage() {
                     </TableCell>
                     <TableCell>
                       <div>
-                        <div className="font-medium">{job.vehicleModel}</div>
+                        <div className="font-medium">{job.vehicleModel || '-'}</div>
                         <div className="text-sm text-muted-foreground">{job.vehicleRegistration}</div>
+                        {job.serviceType && (
+                          <div className="text-xs text-muted-foreground">{job.serviceType}</div>
+                        )}
                       </div>
                     </TableCell>
+                    <TableCell>
+                      <Select
+                        value={job.technicianId || UNASSIGNED}
+                        onValueChange={(value) => handleTechnicianChange(job.jobId, value)}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue>{getUserName(job.technician)}</SelectValue>
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          {technicians.map((technician) => (
+                            <SelectItem key={technician.userId} value={technician.userId}>
+                              {getUserName(technician)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
                     <TableCell>
                       <Badge className={priorityConfig[job.priority].color}>
                         {priorityConfig[job.priority].label}
@@ -1086,7 +1008,7 @@ export default function ServiceTrackerPage() {
                     <TableCell>
                       <Select
                         value={job.status}
-                        onValueChange={(value) => handleStatusChange(job.id, value)}
+                        onValueChange={(value) => handleStatusChange(job.jobId, value)}
                       >
                         <SelectTrigger className="w-40">
                           <SelectValue />
@@ -1102,14 +1024,14 @@ export default function ServiceTrackerPage() {
                     </TableCell>
                     <TableCell>
                       <div className="text-sm">
-                        {job.scheduledDate && (
-                          <div className="font-medium">{formatDate(job.scheduledDate)}</div>
+                        {job.scheduledAt && (
+                          <div className="font-medium">{formatDate(job.scheduledAt)}</div>
                         )}
                       </div>
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
-                        <span className="text-sm font-medium">{job.attachments.length}</span>
+                        <span className="text-sm font-medium">{job._count?.attachments || 0}</span>
                         <Paperclip className="h-4 w-4 text-blue-600" />
                         <Button
                           variant="link"
@@ -1123,27 +1045,16 @@ export default function ServiceTrackerPage() {
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
-                        <span className="text-sm font-medium">{job.comments.length}</span>
+                        <span className="text-sm font-medium">{job._count?.comments || 0}</span>
                         <MessageCircle className="h-4 w-4 text-green-600" />
-                        {job.comments.length === 0 ? (
-                          <Button
-                            variant="link"
-                            size="sm"
-                            className="p-0 h-auto text-green-600 hover:text-green-800"
-                            onClick={() => handleViewComments(job)}
-                          >
-                            No comments
-                          </Button>
-                        ) : (
-                          <Button
-                            variant="link"
-                            size="sm"
-                            className="p-0 h-auto text-green-600 hover:text-green-800"
-                            onClick={() => handleViewComments(job)}
-                          >
-                            View
-                          </Button>
-                        )}
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="p-0 h-auto text-green-600 hover:text-green-800"
+                          onClick={() => handleViewComments(job)}
+                        >
+                          {job._count?.comments ? 'View' : 'No comments'}
+                        </Button>
                       </div>
                     </TableCell>
                     <TableCell>
@@ -1166,7 +1077,7 @@ export default function ServiceTrackerPage() {
                           variant="outline"
                           size="sm"
                           onClick={() => {
-                            setDeleteJobId(job.id);
+                            setDeleteJobId(job.jobId);
                             setIsDeleteDialogOpen(true);
                           }}
                         >
@@ -1179,6 +1090,17 @@ export default function ServiceTrackerPage() {
               </TableBody>
             </Table>
           </div>
+          {totalPages > 1 && (
+            <div className="flex items-center justify-end gap-2 mt-4">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                Next
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -1188,29 +1110,35 @@ export default function ServiceTrackerPage() {
           <DialogHeader>
             <DialogTitle>Service Job Status History</DialogTitle>
             <DialogDescription>
-              Complete status change history for {selectedJobHistory?.customerName}
+              Complete status change history for {selectedJob?.customerName}
             </DialogDescription>
           </DialogHeader>
-          {selectedJobHistory && (
+          {selectedJobLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : selectedJob && (
             <div className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label className="text-sm font-medium">Customer</Label>
-                  <div className="text-sm">{selectedJobHistory.customerName}</div>
+                  <div className="text-sm">{selectedJob.customerName}</div>
                 </div>
                 <div>
                   <Label className="text-sm font-medium">Vehicle</Label>
-                  <div className="text-sm">{selectedJobHistory.vehicleModel} {selectedJobHistory.vehicleRegistration}</div>
+                  <div className="text-sm">{selectedJob.vehicleModel} {selectedJob.vehicleRegistration}</div>
                 </div>
               </div>
-              <div className="space-y-3">
+              <div className="space-y-3 max-h-96 overflow-y-auto">
                 <Label className="text-sm font-medium">Status Changes</Label>
-                {selectedJobHistory.statusHistory.map((change, index) => (
-                  <div key={change.id} className="border rounded-lg p-3">
+                {selectedJob.statusHistory.map((change) => (
+                  <div key={change.changeId} className="border rounded-lg p-3">
                     <div className="flex items-center justify-between mb-2">
                       <div className="flex items-center gap-2">
                         <Badge variant="outline">
-                          {change.fromStatus ? `${change.fromStatus} → ${change.toStatus}` : change.toStatus}
+                          {change.fromStatus
+                            ? `${statusConfig[change.fromStatus].label} → ${statusConfig[change.toStatus].label}`
+                            : statusConfig[change.toStatus].label}
                         </Badge>
                         <span className="text-sm text-muted-foreground">
                           {formatDate(change.changedAt)}
@@ -1218,7 +1146,7 @@ export default function ServiceTrackerPage() {
                       </div>
                     </div>
                     <div className="text-sm">
-                      <div><strong>Changed by:</strong> {change.changedBy}</div>
+                      <div><strong>Changed by:</strong> {getUserName(change.user)}</div>
                       {change.notes && (
                         <div><strong>Notes:</strong> {change.notes}</div>
                       )}
@@ -1242,47 +1170,24 @@ export default function ServiceTrackerPage() {
               Attachments
             </DialogTitle>
             <DialogDescription>
-              {selectedJobAttachments && (
+              {selectedJob && (
                 <>
-                  <span>Vehicle: {selectedJobAttachments.vehicleModel} ({selectedJobAttachments.vehicleRegistration})</span>
+                  <span>Vehicle: {selectedJob.vehicleModel} ({selectedJob.vehicleRegistration})</span>
                   <br />
-                  <span>Customer: {selectedJobAttachments.customerName}</span>
+                  <span>Customer: {selectedJob.customerName}</span>
                 </>
               )}
             </DialogDescription>
           </DialogHeader>
-          {selectedJobAttachments && (
+          {selectedJobLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : selectedJob && (
             <div className="space-y-4">
-              {selectedJobAttachments.attachments.length > 0 ? (
-                <div className="space-y-3">
-                  {selectedJobAttachments.attachments.map((attachment, index) => (
-                    <div key={index} className="flex items-center justify-between p-3 border rounded-lg">
-                      <div className="flex items-center gap-3">
-                        <FileText className="h-6 w-6 text-blue-600" />
-                        <div>
-                          <div className="font-medium">{attachment}</div>
-                          <div className="text-sm text-muted-foreground">
-                            {attachment.includes('.jpg') || attachment.includes('.png') || attachment.includes('.jpeg') ? 'Image file' : 
-                             attachment.includes('.pdf') ? 'PDF Document' : 
-                             attachment.includes('.mp4') || attachment.includes('.avi') ? 'Video file' : 'File'}
-                          </div>
-                        </div>
-                      </div>
-                      <div className="flex gap-2">
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          className="text-blue-600"
-                          onClick={() => handleViewFile(attachment)}
-                        >
-                          View
-                        </Button>
-                        <Button variant="outline" size="sm" className="text-green-600">
-                          Download
-                        </Button>
-                      </div>
-                    </div>
-                  ))}
+              {selectedJob.attachments.length > 0 ? (
+                <div className="space-y-3 max-h-96 overflow-y-auto">
+                  {selectedJob.attachments.map((attachment) => renderAttachment(attachment, undefined, true))}
                 </div>
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
@@ -1290,9 +1195,29 @@ export default function ServiceTrackerPage() {
                   <p>No attachments found</p>
                 </div>
               )}
+              <input
+                id="job-attachment-upload"
+                type="file"
+                accept="image/*,video/*,.pdf"
+                multiple
+                className="hidden"
+                onChange={handleJobAttachmentUpload}
+              />
             </div>
           )}
           <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => document.getElementById('job-attachment-upload')?.click()}
+              disabled={!selectedJob || addAttachmentsMutation.isPending}
+            >
+              {addAttachmentsMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Upload
+            </Button>
             <Button onClick={() => setIsAttachmentsDialogOpen(false)}>Close</Button>
           </DialogFooter>
         </DialogContent>
@@ -1306,31 +1231,37 @@ export default function ServiceTrackerPage() {
               Comments & Attachments
             </DialogTitle>
             <DialogDescription>
-              {selectedJobComments && (
+              {selectedJob && (
                 <>
-                  <span>Vehicle: {selectedJobComments.vehicleModel} ({selectedJobComments.vehicleRegistration})</span>
+                  <span>Vehicle: {selectedJob.vehicleModel} ({selectedJob.vehicleRegistration})</span>
                   <br />
-                  <span>Customer: {selectedJobComments.customerName}</span>
+                  <span>Customer: {selectedJob.customerName}</span>
                 </>
               )}
             </DialogDescription>
           </DialogHeader>
-          {selectedJobComments && (
+          {selectedJobLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : selectedJob && (
             <div className="space-y-6">
               {/* Existing Comments */}
               <div className="space-y-4">
                 <Label className="text-sm font-medium">Comments</Label>
-                {selectedJobComments.comments.length > 0 ? (
+                {selectedJob.comments.length > 0 ? (
                   <div className="space-y-3 max-h-60 overflow-y-auto">
-                    {selectedJobComments.comments.map((comment) => (
-                      <div key={comment.id} className="border rounded-lg p-3">
+                    {selectedJob.comments.map((comment) => (
+                      <div key={comment.commentId} className="border rounded-lg p-3">
                         <div className="flex items-center justify-between mb-2">
-                          <span className="font-medium text-sm">{comment.author}</span>
+                          <span className="font-medium text-sm">{getUserName(comment.author)}</span>
                           <span className="text-xs text-muted-foreground">
-                            {formatDate(comment.timestamp)}
+                            {formatDate(comment.createdAt)}
                           </span>
                         </div>
-                        <p className="text-sm">{comment.message}</p>
+                        <p className={comment.type === 'status_update' ? 'text-sm text-muted-foreground italic' : 'text-sm'}>
+                          {comment.message}
+                        </p>
                       </div>
                     ))}
                   </div>
@@ -1346,49 +1277,15 @@ export default function ServiceTrackerPage() {
               <div className="space-y-4">
                 <Label className="text-sm font-medium">Comment Attachments</Label>
                 {(() => {
-                  const allCommentAttachments = selectedJobComments.comments
-                    .filter(comment => comment.attachments && comment.attachments.length > 0)
-                    .flatMap(comment => 
-                      comment.attachments!.map(attachment => ({
-                        attachment,
-                        comment: comment.message,
-                        author: comment.author,
-                        timestamp: comment.timestamp
-                      }))
-                    );
-                  
+                  const allCommentAttachments = selectedJob.comments.flatMap(comment =>
+                    comment.attachments.map(attachment => ({ attachment, comment }))
+                  );
+
                   return allCommentAttachments.length > 0 ? (
                     <div className="space-y-3 max-h-40 overflow-y-auto">
-                      {allCommentAttachments.map((item, index) => (
-                        <div key={index} className="flex items-center justify-between p-3 border rounded-lg">
-                          <div className="flex items-center gap-3">
-                            <FileText className="h-5 w-5 text-blue-600" />
-                            <div>
-                              <div className="font-medium text-sm">{item.attachment}</div>
-                              <div className="text-xs text-muted-foreground">
-                                {item.attachment.includes('.jpg') || item.attachment.includes('.png') || item.attachment.includes('.jpeg') ? 'Image file' : 
-                                 item.attachment.includes('.pdf') ? 'PDF Document' : 
-                                 item.attachment.includes('.mp4') || item.attachment.includes('.avi') ? 'Video file' : 'File'}
-                              </div>
-                              <div className="text-xs text-gray-500">
-                                From: {item.author} - {item.comment.substring(0, 30)}...
-                              </div>
-                            </div>
-                          </div>
-                          <div className="flex gap-2">
-                            <Button 
-                              variant="outline" 
-                              size="sm" 
-                              className="text-blue-600"
-                              onClick={() => handleViewFile(item.attachment)}
-                            >
-                              View
-                            </Button>
-                            <Button variant="outline" size="sm" className="text-green-600">
-                              Download
-                            </Button>
-                          </div>
-                        </div>
+                      {allCommentAttachments.map(({ attachment, comment }) => renderAttachment(
+                        attachment,
+                        `From: ${getUserName(comment.author)} - ${comment.message.substring(0, 30)}${comment.message.length > 30 ? '...' : ''}`
                       ))}
                     </div>
                   ) : (
@@ -1423,11 +1320,12 @@ export default function ServiceTrackerPage() {
                     Choose Files
                   </Button>
                   <span className="text-sm text-muted-foreground">
-                    {selectedFiles ? `${selectedFiles.length} file(s) selected` : 'No file chosen'}
+                    {selectedFiles.length > 0 ? `${selectedFiles.length} file(s) selected` : 'No file chosen'}
                   </span>
                   <input
                     id="file-upload"
                     type="file"
+                    accept="image/*,video/*,.pdf"
                     multiple
                     className="hidden"
                     onChange={handleFileUpload}
@@ -1440,8 +1338,12 @@ export default function ServiceTrackerPage() {
             <Button variant="outline" onClick={() => setIsCommentsDialogOpen(false)}>
               Close
             </Button>
-            <Button onClick={handleAddComment} disabled={!newComment.trim()}>
-              <Send className="mr-2 h-4 w-4" />
+            <Button onClick={handleAddComment} disabled={!newComment.trim() || addCommentMutation.isPending}>
+              {addCommentMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 h-4 w-4" />
+              )}
               Add Comment
             </Button>
           </DialogFooter>
@@ -1454,7 +1356,8 @@ export default function ServiceTrackerPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the service job record.
+              This action cannot be undone. This will permanently delete the service job record,
+              its status history and comments. Uploaded files stay in the vehicle's media.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
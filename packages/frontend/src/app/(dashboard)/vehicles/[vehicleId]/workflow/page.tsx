@@ -1,7 +1,11 @@
 "use client";
 
 import { VehicleWorkflowDashboard } from "@/components/dashboard/vehicle-workflow-dashboard";
+import { VehicleHistory } from "@/components/audit/vehicle-history";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { hasRequiredRole, ROLES } from "@/components/auth/protected-route";
+import { useAuthStore } from "@/store/authStore";
 import { ArrowLeft } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { use } from "react";
@@ -15,6 +19,8 @@ interface VehicleWorkflowPageProps {
 export default function VehicleWorkflowPage({ params }: VehicleWorkflowPageProps) {
   const router = useRouter();
   const { vehicleId } = use(params);
+  const { user } = useAuthStore();
+  const canViewHistory = !!user?.role && hasRequiredRole(user.role, ROLES.SUPERVISOR);
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -40,7 +46,24 @@ export default function VehicleWorkflowPage({ params }: VehicleWorkflowPageProps
 
       {/* Dashboard Content */}
       <div className="py-6">
-        <VehicleWorkflowDashboard vehicleId={vehicleId} />
+        {canViewHistory ? (
+          <Tabs defaultValue="workflow">
+            <TabsList className="mx-auto">
+              <TabsTrigger value="workflow">Workflow</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+            <TabsContent value="workflow">
+              <VehicleWorkflowDashboard vehicleId={vehicleId} />
+            </TabsContent>
+            <TabsContent value="history">
+              <div className="max-w-2xl mx-auto p-6">
+                <VehicleHistory vehicleId={vehicleId} />
+              </div>
+            </TabsContent>
+          </Tabs>
+        ) : (
+          <VehicleWorkflowDashboard vehicleId={vehicleId} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Clock, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+import { paymentApi, type AgeingBucket, type AgeingReport } from '@/lib/api/payments';
+
+const BUCKETS: Array<{ key: AgeingBucket; label: string; className?: string }> = [
+  { key: 'current', label: 'Not due' },
+  { key: '0-30', label: '0-30 days' },
+  { key: '31-60', label: '31-60 days', className: 'text-yellow-700' },
+  { key: '61-90', label: '61-90 days', className: 'text-orange-700' },
+  { key: '90+', label: '90+ days', className: 'text-red-700' },
+];
+
+const formatAmount = (value: number) =>
+  new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+
+interface AgeingCardProps {
+  // Bump to reload after payments change
+  refreshKey?: number;
+}
+
+export function AgeingCard({ refreshKey = 0 }: AgeingCardProps) {
+  const [report, setReport] = useState<AgeingReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [groupBy, setGroupBy] = useState<'location' | 'salesperson'>('location');
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        setReport(await paymentApi.getAgeingReport());
+      } catch (error: any) {
+        console.error('Error fetching ageing report:', error);
+        toast.error(error.message || 'Failed to load ageing report');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [refreshKey]);
+
+  const groups = report ? (groupBy === 'location' ? report.byLocation : report.bySalesperson) : [];
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Receivables Ageing
+          </CardTitle>
+          <CardDescription>Outstanding balances by days past due</CardDescription>
+        </div>
+        <Select value={groupBy} onValueChange={(value) => setGroupBy(value as 'location' | 'salesperson')}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="location">By location</SelectItem>
+            <SelectItem value="salesperson">By salesperson</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : !report || report.totals.count === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500">No outstanding balances</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{groupBy === 'location' ? 'Location' : 'Salesperson'}</TableHead>
+                {BUCKETS.map((bucket) => (
+                  <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map((group) => (
+                <TableRow key={group.id ?? 'unassigned'}>
+                  <TableCell>
+                    <div className="font-medium">{group.name}</div>
+                    <div className="text-xs text-gray-500">{group.count} payable(s)</div>
+                  </TableCell>
+                  {BUCKETS.map((bucket) => (
+                    <TableCell key={bucket.key} className={`text-right ${group[bucket.key] > 0 ? bucket.className || '' : 'text-gray-400'}`}>
+                      {formatAmount(group[bucket.key])}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-medium">{formatAmount(group.total)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-semibold">
+                <TableCell>Total</TableCell>
+                {BUCKETS.map((bucket) => (
+                  <TableCell key={bucket.key} className="text-right">{formatAmount(report.totals[bucket.key])}</TableCell>
+                ))}
+                <TableCell className="text-right">{formatAmount(report.totals.total)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,413 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle, Download, FileText, Loader2, Plus, Search, Trash2, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+import {
+  useCreateCreditNote,
+  useCreateVehicleInvoice,
+  useDeleteInvoice,
+  useInvoices,
+  useIssueInvoice,
+} from '@/lib/hooks/useInvoices';
+import { invoiceApi, type Invoice, type InvoiceDocumentType, type InvoiceStatus } from '@/lib/api/invoices';
+import { vehicleApi, type VehicleWithRelations } from '@/lib/api/vehicles';
+
+const PAGE_SIZE = 10;
+
+const formatAmount = (value: string | number) =>
+  `₹${Number(value).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function InvoicesCard() {
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'all' | InvoiceStatus>('all');
+  const [typeFilter, setTypeFilter] = useState<'all' | InvoiceDocumentType>('all');
+  const [page, setPage] = useState(1);
+
+  const [isVehicleDialogOpen, setIsVehicleDialogOpen] = useState(false);
+  const [carNumber, setCarNumber] = useState('');
+  const [customerGstin, setCustomerGstin] = useState('');
+  const [placeOfSupply, setPlaceOfSupply] = useState('');
+  const [isFindingVehicle, setIsFindingVehicle] = useState(false);
+
+  const [creditNoteFor, setCreditNoteFor] = useState<Invoice | null>(null);
+  const [creditReason, setCreditReason] = useState('');
+
+  const { data: invoicesData, isLoading } = useInvoices({
+    page,
+    limit: PAGE_SIZE,
+    search: search.trim() || undefined,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    documentType: typeFilter === 'all' ? undefined : typeFilter,
+  });
+  const createVehicleInvoiceMutation = useCreateVehicleInvoice();
+  const issueInvoiceMutation = useIssueInvoice();
+  const createCreditNoteMutation = useCreateCreditNote();
+  const deleteInvoiceMutation = useDeleteInvoice();
+
+  const invoices = invoicesData?.data || [];
+  const summary = invoicesData?.summary;
+  const totalPages = invoicesData?.pagination?.totalPages || 1;
+
+  const handleCreateFromVehicle = async () => {
+    if (!carNumber.trim()) {
+      toast.error('Car number is required');
+      return;
+    }
+
+    try {
+      setIsFindingVehicle(true);
+      const response = await vehicleApi.getVehicles({ search: carNumber.trim(), limit: 10 });
+      const vehicle = (response.data || []).find(
+        (candidate: VehicleWithRelations) => candidate.carNumber.toLowerCase() === carNumber.trim().toLowerCase()
+      );
+      if (!vehicle) {
+        toast.error(`No vehicle found with car number ${carNumber.trim()}`);
+        return;
+      }
+
+      createVehicleInvoiceMutation.mutate({
+        vehicleId: vehicle.vehicleId,
+        data: {
+          customerGstin: customerGstin.trim().toUpperCase() || null,
+          placeOfSupply: placeOfSupply.trim() || null,
+        },
+      }, {
+        onSuccess: () => {
+          toast.success('Draft invoice created');
+          setIsVehicleDialogOpen(false);
+          setCarNumber('');
+          setCustomerGstin('');
+          setPlaceOfSupply('');
+        },
+        onError: (error: any) => toast.error(error.message || 'Failed to create invoice'),
+      });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to look up vehicle');
+    } finally {
+      setIsFindingVehicle(false);
+    }
+  };
+
+  const handleIssue = (invoice: Invoice) => {
+    const label = invoice.documentType === 'credit_note' ? 'credit note' : 'invoice';
+    if (!confirm(`Issue this ${label}? It cannot be edited once issued.`)) return;
+
+    issueInvoiceMutation.mutate(invoice.invoiceId, {
+      onSuccess: (response) => toast.success(response.message || 'Issued'),
+      onError: (error: any) => toast.error(error.message || `Failed to issue ${label}`),
+    });
+  };
+
+  const handleDelete = (invoice: Invoice) => {
+    if (!confirm('Delete this draft?')) return;
+
+    deleteInvoiceMutation.mutate(invoice.invoiceId, {
+      onSuccess: () => toast.success('Draft deleted'),
+      onError: (error: any) => toast.error(error.message || 'Failed to delete draft'),
+    });
+  };
+
+  const handleCreateCreditNote = () => {
+    if (!creditNoteFor || !creditReason.trim()) {
+      toast.error('A reason is required');
+      return;
+    }
+
+    createCreditNoteMutation.mutate({
+      invoiceId: creditNoteFor.invoiceId,
+      data: { reason: creditReason.trim() },
+    }, {
+      onSuccess: () => {
+        toast.success('Draft credit note created');
+        setCreditNoteFor(null);
+        setCreditReason('');
+      },
+      onError: (error: any) => toast.error(error.message || 'Failed to create credit note'),
+    });
+  };
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      const blob = await invoiceApi.downloadPdf(invoice.invoiceId);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${(invoice.invoiceNumber || `draft-${invoice.invoiceId.slice(0, 8)}`).replace(/[^A-Za-z0-9-]+/g, '_')}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to download PDF');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Invoices
+          </CardTitle>
+          <CardDescription>
+            {summary
+              ? `${summary.issuedInvoices} issued · ${summary.issuedCreditNotes} credit notes · ${summary.drafts} drafts · Net ${formatAmount(summary.netTotal)}`
+              : 'GST invoices and credit notes'}
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setIsVehicleDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Invoice Vehicle
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <Input
+              placeholder="Search by number, customer or car number..."
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setPage(1);
+              }}
+              className="pl-9"
+            />
+          </div>
+          <Select
+            value={typeFilter}
+            onValueChange={(value) => {
+              setTypeFilter(value as 'all' | InvoiceDocumentType);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-full md:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All documents</SelectItem>
+              <SelectItem value="invoice">Invoices</SelectItem>
+              <SelectItem value="credit_note">Credit notes</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => {
+              setStatusFilter(value as 'all' | InvoiceStatus);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-full md:w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="draft">Draft</SelectItem>
+              <SelectItem value="issued">Issued</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : invoices.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No invoices found</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Vehicle</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map((invoice) => (
+                  <TableRow key={invoice.invoiceId}>
+                    <TableCell>
+                      <div className="font-medium">{invoice.invoiceNumber || 'Draft'}</div>
+                      {invoice.documentType === 'credit_note' && (
+                        <div className="text-xs text-muted-foreground">
+                          Credit note{invoice.originalInvoice?.invoiceNumber ? ` for ${invoice.originalInvoice.invoiceNumber}` : ''}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{invoice.customerName}</TableCell>
+                    <TableCell>{invoice.vehicle?.carNumber || '-'}</TableCell>
+                    <TableCell>
+                      {invoice.issueDate ? new Date(invoice.issueDate).toLocaleDateString() : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {invoice.documentType === 'credit_note' ? '-' : ''}{formatAmount(invoice.grandTotal)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={invoice.status === 'issued' ? 'default' : 'secondary'}>
+                        {invoice.status === 'issued' ? 'Issued' : 'Draft'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="outline" size="sm" title="Download PDF" onClick={() => handleDownload(invoice)}>
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        {invoice.status === 'draft' && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Issue"
+                              onClick={() => handleIssue(invoice)}
+                              disabled={issueInvoiceMutation.isPending}
+                            >
+                              <CheckCircle className="h-4 w-4" />
+                            </Button>
+                            <Button variant="outline" size="sm" title="Delete draft" onClick={() => handleDelete(invoice)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                        {invoice.status === 'issued' && invoice.documentType === 'invoice' && (
+                          <Button variant="outline" size="sm" title="Raise credit note" onClick={() => setCreditNoteFor(invoice)}>
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex items-center justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                Next
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      {/* Invoice Vehicle Dialog */}
+      <Dialog open={isVehicleDialogOpen} onOpenChange={setIsVehicleDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invoice Vehicle</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Creates a draft from the vehicle&apos;s installed products, or the products on its order when nothing has been installed yet.
+            </p>
+            <div>
+              <Label htmlFor="invoiceCarNumber">Car Number</Label>
+              <Input
+                id="invoiceCarNumber"
+                value={carNumber}
+                onChange={(e) => setCarNumber(e.target.value)}
+                placeholder="e.g. KA01AB1234"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="invoiceGstin">Customer GSTIN</Label>
+                <Input
+                  id="invoiceGstin"
+                  value={customerGstin}
+                  onChange={(e) => setCustomerGstin(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+              <div>
+                <Label htmlFor="invoicePlaceOfSupply">Place of Supply</Label>
+                <Input
+                  id="invoicePlaceOfSupply"
+                  value={placeOfSupply}
+                  onChange={(e) => setPlaceOfSupply(e.target.value)}
+                  placeholder="State"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button variant="outline" onClick={() => setIsVehicleDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreateFromVehicle}
+                disabled={isFindingVehicle || createVehicleInvoiceMutation.isPending}
+              >
+                Create Draft
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Credit Note Dialog */}
+      <Dialog open={!!creditNoteFor} onOpenChange={(open) => !open && setCreditNoteFor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Raise Credit Note</DialogTitle>
+          </DialogHeader>
+          {creditNoteFor && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Creates a draft credit note reversing {creditNoteFor.invoiceNumber} ({formatAmount(creditNoteFor.grandTotal)}).
+                Issuing it reduces the amount outstanding on the invoice.
+              </p>
+              <div>
+                <Label htmlFor="creditReason">Reason</Label>
+                <Textarea
+                  id="creditReason"
+                  value={creditReason}
+                  onChange={(e) => setCreditReason(e.target.value)}
+                  rows={3}
+                />
+              </div>
+              <div className="flex justify-end space-x-2 pt-2">
+                <Button variant="outline" onClick={() => setCreditNoteFor(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreateCreditNote} disabled={createCreditNoteMutation.isPending}>
+                  Create Draft
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
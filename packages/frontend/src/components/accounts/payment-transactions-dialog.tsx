@@ -0,0 +1,317 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Download, Loader2, Plus, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+import {
+  paymentApi,
+  type Payment,
+  type PaymentTransaction,
+  type PaymentTransactionMethod,
+  type PaymentTransactionType,
+} from '@/lib/api/payments';
+
+const METHOD_LABELS: Record<PaymentTransactionMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  bank_transfer: 'Bank Transfer',
+  cheque: 'Cheque',
+  upi: 'UPI',
+  online: 'Online',
+};
+
+const TYPE_STYLES: Record<PaymentTransactionType, string> = {
+  receipt: 'bg-green-100 text-green-800',
+  refund: 'bg-blue-100 text-blue-800',
+  reversal: 'bg-red-100 text-red-800',
+};
+
+const formatAmount = (value: string | number) =>
+  `₹${Number(value).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+interface PaymentTransactionsDialogProps {
+  payment: Payment | null;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+export function PaymentTransactionsDialog({ payment, onOpenChange, onChanged }: PaymentTransactionsDialogProps) {
+  const [transactions, setTransactions] = useState<PaymentTransaction[]>([]);
+  const [balance, setBalance] = useState<Payment | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [type, setType] = useState<'receipt' | 'refund'>('receipt');
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentTransactionMethod>('cash');
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [transactionDate, setTransactionDate] = useState(today());
+
+  const fetchTransactions = async (paymentId: string) => {
+    try {
+      setLoading(true);
+      const data = await paymentApi.getTransactions(paymentId);
+      setTransactions(Array.isArray(data) ? data : []);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load transactions');
+      setTransactions([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (payment) {
+      setBalance(payment);
+      setType('receipt');
+      setAmount(String(Number(payment.outstandingAmount) || ''));
+      setMethod('cash');
+      setReferenceNumber('');
+      setTransactionDate(today());
+      fetchTransactions(payment.paymentId);
+    }
+  }, [payment]);
+
+  const handleRecord = async () => {
+    if (!payment) return;
+    const value = Number(amount);
+    if (!value || value <= 0) {
+      toast.error('Enter an amount greater than zero');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const result = await paymentApi.recordTransaction(payment.paymentId, {
+        type,
+        amount: value,
+        paymentMethod: method,
+        referenceNumber: referenceNumber.trim() || null,
+        transactionDate: new Date(`${transactionDate}T00:00:00`).toISOString(),
+      });
+      toast.success(`${type === 'refund' ? 'Refund' : 'Receipt'} ${result.transaction.receiptNumber} recorded`);
+      setBalance({ ...payment, ...result.payment });
+      setAmount('');
+      setReferenceNumber('');
+      await fetchTransactions(payment.paymentId);
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to record transaction');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReverse = async (transaction: PaymentTransaction) => {
+    if (!payment) return;
+    const reason = prompt(`Reason for reversing ${transaction.receiptNumber}?`);
+    if (!reason?.trim()) return;
+
+    try {
+      const result = await paymentApi.reverseTransaction(transaction.paymentTransactionId, reason.trim());
+      toast.success(`${transaction.receiptNumber} reversed`);
+      setBalance({ ...payment, ...result.payment });
+      await fetchTransactions(payment.paymentId);
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to reverse transaction');
+    }
+  };
+
+  const handleDownload = async (transaction: PaymentTransaction) => {
+    try {
+      const blob = await paymentApi.downloadReceipt(transaction.paymentTransactionId);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${transaction.receiptNumber.replace(/[^A-Za-z0-9-]+/g, '_')}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to download receipt');
+    }
+  };
+
+  return (
+    <Dialog open={!!payment} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>
+            Transactions{payment ? ` · ${payment.vehicle.carNumber}` : ''}
+          </DialogTitle>
+        </DialogHeader>
+
+        {balance && (
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-gray-500">Total</p>
+              <p className="font-semibold">{formatAmount(balance.amount)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Paid</p>
+              <p className="font-semibold text-green-600">{formatAmount(balance.paidAmount)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Outstanding</p>
+              <p className="font-semibold text-red-600">{formatAmount(balance.outstandingAmount)}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="max-h-72 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : transactions.length === 0 ? (
+            <p className="py-6 text-center text-sm text-gray-500">No transactions recorded yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Collected By</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.map((transaction) => (
+                  <TableRow
+                    key={transaction.paymentTransactionId}
+                    className={transaction.reversal ? 'text-gray-400 line-through' : undefined}
+                  >
+                    <TableCell className="font-mono text-xs">{transaction.receiptNumber}</TableCell>
+                    <TableCell>
+                      <Badge className={TYPE_STYLES[transaction.type]}>
+                        {transaction.type.charAt(0).toUpperCase() + transaction.type.slice(1)}
+                      </Badge>
+                      {transaction.reversedTransaction && (
+                        <div className="text-xs text-gray-500">of {transaction.reversedTransaction.receiptNumber}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(transaction.transactionDate).toLocaleDateString()}</TableCell>
+                    <TableCell>{METHOD_LABELS[transaction.paymentMethod] || transaction.paymentMethod}</TableCell>
+                    <TableCell>{transaction.referenceNumber || '-'}</TableCell>
+                    <TableCell>
+                      {transaction.collector
+                        ? `${transaction.collector.firstName || ''} ${transaction.collector.lastName || ''}`.trim() || transaction.collector.email
+                        : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {transaction.type === 'receipt' ? '' : '-'}{formatAmount(transaction.amount)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" title="Download" onClick={() => handleDownload(transaction)}>
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        {transaction.type !== 'reversal' && !transaction.reversal && (
+                          <Button variant="ghost" size="sm" title="Reverse" onClick={() => handleReverse(transaction)}>
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div>
+              <Label htmlFor="transactionType">Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as 'receipt' | 'refund')}>
+                <SelectTrigger id="transactionType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="receipt">Receipt</SelectItem>
+                  <SelectItem value="refund">Refund</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="transactionAmount">Amount</Label>
+              <Input
+                id="transactionAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="transactionMethod">Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as PaymentTransactionMethod)}>
+                <SelectTrigger id="transactionMethod">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="transactionReference">Reference</Label>
+              <Input
+                id="transactionReference"
+                value={referenceNumber}
+                onChange={(e) => setReferenceNumber(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="transactionDate">Date</Label>
+              <Input
+                id="transactionDate"
+                type="date"
+                value={transactionDate}
+                onChange={(e) => setTransactionDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleRecord} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Record {type === 'refund' ? 'Refund' : 'Receipt'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
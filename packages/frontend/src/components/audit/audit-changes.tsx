@@ -0,0 +1,68 @@
+'use client';
+
+import type { AuditLogEntry } from '@/lib/api/audit';
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const humanize = (value: string) =>
+  value.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+
+/**
+ * "vehicle:status_changed" → "Vehicle status changed"
+ */
+export function formatAuditAction(action: string): string {
+  const text = humanize(action.replace(':', ' '));
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function formatAuditUser(entry: AuditLogEntry): string {
+  if (!entry.user) return entry.details?.automatic ? 'Automation' : 'System';
+  return `${entry.user.firstName || ''} ${entry.user.lastName || ''}`.trim() || entry.user.email;
+}
+
+interface AuditChangesProps {
+  entry: AuditLogEntry;
+}
+
+/**
+ * Field-level changes of an audit entry: old → new for updates, the recorded
+ * values for creates and deletes
+ */
+export function AuditChanges({ entry }: AuditChangesProps) {
+  const fields = entry.details?.changedFields?.length
+    ? entry.details.changedFields
+    : Object.keys({ ...(entry.oldValues || {}), ...(entry.newValues || {}) });
+
+  if (fields.length === 0) {
+    return <span className="text-xs text-gray-400">No field changes</span>;
+  }
+
+  const isUpdate = !!entry.oldValues && !!entry.newValues;
+
+  return (
+    <dl className="space-y-1 text-xs">
+      {fields.map((field) => (
+        <div key={field} className="flex flex-wrap gap-x-2">
+          <dt className="font-medium text-gray-700">{humanize(field)}:</dt>
+          <dd className="break-all">
+            {isUpdate ? (
+              <>
+                <span className="text-red-600 line-through">{formatValue(entry.oldValues?.[field])}</span>
+                {' → '}
+                <span className="text-green-700">{formatValue(entry.newValues?.[field])}</span>
+              </>
+            ) : (
+              <span className={entry.newValues ? 'text-green-700' : 'text-red-600'}>
+                {formatValue((entry.newValues || entry.oldValues)?.[field])}
+              </span>
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
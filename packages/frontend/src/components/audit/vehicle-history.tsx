@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+import { useVehicleHistory } from '@/lib/hooks/useAudit';
+import { AuditChanges, formatAuditAction, formatAuditUser } from './audit-changes';
+
+const PAGE_SIZE = 20;
+
+interface VehicleHistoryProps {
+  vehicleId: string;
+}
+
+/**
+ * Changes to a vehicle, its payables and its workflows, newest first
+ */
+export function VehicleHistory({ vehicleId }: VehicleHistoryProps) {
+  const [page, setPage] = useState(1);
+  const { data, isLoading, error } = useVehicleHistory(vehicleId, page, PAGE_SIZE);
+
+  const entries = data?.data || [];
+  const totalPages = data?.pagination?.totalPages || 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <p className="py-6 text-center text-sm text-red-600">Failed to load history</p>
+        ) : entries.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500">No changes recorded yet</p>
+        ) : (
+          <ol className="space-y-4">
+            {entries.map((entry) => (
+              <li key={entry.logId} className="border-l-2 border-gray-200 pl-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary">{formatAuditAction(entry.action)}</Badge>
+                  <span className="text-sm font-medium">{formatAuditUser(entry)}</span>
+                  <span className="text-xs text-gray-500">{new Date(entry.createdAt).toLocaleString()}</span>
+                </div>
+                <div className="mt-2">
+                  <AuditChanges entry={entry} />
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {totalPages > 1 && (
+          <div className="mt-4 flex items-center justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+              Next
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
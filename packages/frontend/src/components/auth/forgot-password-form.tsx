@@ -13,12 +13,14 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 
 import { forgotPasswordSchema, type ForgotPasswordFormData } from '@/lib/validations/auth';
 import { authApi } from '@/lib/api/auth';
+import { useTenantStore } from '@/store/tenantStore';
 
 export function ForgotPasswordForm() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [email, setEmail] = useState('');
+  const { currentTenant } = useTenantStore();
 
   const {
     register,
@@ -33,7 +35,10 @@ export function ForgotPasswordForm() {
     setError(null);
 
     try {
-      const response = await authApi.forgotPassword(data);
+      const response = await authApi.forgotPassword({
+        ...data,
+        subdomain: currentTenant?.subdomain,
+      });
       
       if (response.success) {
         setEmail(data.email);
@@ -25,6 +25,7 @@ export function ResetPasswordForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const token = searchParams.get('token') || '';
+  const tenant = searchParams.get('tenant') || undefined;
 
   const {
     register,
@@ -45,7 +46,7 @@ export function ResetPasswordForm() {
     setError(null);
 
     try {
-      const response = await authApi.resetPassword(data);
+      const response = await authApi.resetPassword({ ...data, subdomain: tenant });
       
       if (response.success) {
         setSuccess(true);
@@ -0,0 +1,30 @@
+"use client";
+
+import { Pencil } from "lucide-react";
+import type { EditingPresenceEvent } from "@/lib/providers/socket-provider";
+
+interface EditingPresenceProps {
+  editors: EditingPresenceEvent[];
+  entityLabel?: string;
+}
+
+/**
+ * "X is editing this vehicle" banner for other users working on the same record
+ */
+export function EditingPresence({ editors, entityLabel = "vehicle" }: EditingPresenceProps) {
+  if (editors.length === 0) return null;
+
+  const names = editors.map((editor) => editor.name || editor.email);
+  const who = names.length <= 2
+    ? names.join(" and ")
+    : `${names.slice(0, 2).join(", ")} and ${names.length - 2} other${names.length > 3 ? "s" : ""}`;
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+      <Pencil className="h-4 w-4 shrink-0" />
+      <span>
+        <span className="font-medium">{who}</span> {names.length === 1 ? "is" : "are"} editing this {entityLabel}
+      </span>
+    </div>
+  );
+}
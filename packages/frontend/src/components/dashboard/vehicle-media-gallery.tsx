@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { ImageIcon, Loader2, Play } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useMediaFiles } from "@/lib/hooks/useMedia";
+import { getMediaVariantUrl, type MediaFile } from "@/lib/api/media";
+
+interface VehicleMediaGalleryProps {
+  vehicleId: string;
+}
+
+/**
+ * Vehicle photo and video gallery. The grid loads thumbnails only; the
+ * web-sized photo or the video itself is fetched when an item is opened.
+ */
+export function VehicleMediaGallery({ vehicleId }: VehicleMediaGalleryProps) {
+  const [selectedFile, setSelectedFile] = useState<MediaFile | null>(null);
+
+  const { data, isLoading } = useMediaFiles({
+    entityType: 'vehicle',
+    entityId: vehicleId,
+    limit: 50,
+  });
+
+  const files = (data?.data || []).filter((file) => file.fileCategory === 'photo' || file.fileCategory === 'video');
+
+  if (!isLoading && files.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ImageIcon className="w-5 h-5" />
+          Photos & Videos
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+            {files.map((file) => {
+              const isVideo = file.fileCategory === 'video';
+              // Videos uploaded before poster frames existed have nothing an <img> can show
+              const thumbnailUrl = isVideo && !file.variants?.thumbnail ? null : getMediaVariantUrl(file, 'thumbnail');
+
+              return (
+                <button
+                  key={file.fileId}
+                  type="button"
+                  onClick={() => setSelectedFile(file)}
+                  className="relative aspect-square overflow-hidden rounded-md border bg-gray-50 hover:opacity-90"
+                  title={file.originalFilename}
+                >
+                  {thumbnailUrl ? (
+                    <img
+                      src={thumbnailUrl}
+                      alt={file.originalFilename}
+                      loading="lazy"
+                      className="h-full w-full object-cover"
+                    />
+                  ) : (
+                    <ImageIcon className="h-6 w-6 m-auto text-muted-foreground" />
+                  )}
+                  {isVideo && (
+                    <span className="absolute inset-0 flex items-center justify-center">
+                      <span className="rounded-full bg-black/60 p-2">
+                        <Play className="h-4 w-4 text-white" />
+                      </span>
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selectedFile} onOpenChange={(open) => !open && setSelectedFile(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="truncate">{selectedFile?.originalFilename}</DialogTitle>
+            <DialogDescription>
+              {selectedFile?.workflowStage ? `Stage: ${selectedFile.workflowStage} · ` : ''}
+              {selectedFile ? new Date(selectedFile.createdAt).toLocaleString() : ''}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedFile?.fileCategory === 'video' ? (
+            <video
+              src={getMediaVariantUrl(selectedFile, 'original') || undefined}
+              poster={selectedFile.variants?.poster?.url}
+              controls
+              preload="metadata"
+              className="w-full max-h-[70vh] rounded-md bg-black"
+            />
+          ) : selectedFile && getMediaVariantUrl(selectedFile, 'web') && (
+            <img
+              src={getMediaVariantUrl(selectedFile, 'web')!}
+              alt={selectedFile.originalFilename}
+              className="w-full max-h-[70vh] object-contain rounded-md"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
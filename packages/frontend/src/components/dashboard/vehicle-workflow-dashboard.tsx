@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { CheckCircle, Clock, Package, CreditCard, User, Calendar, MapPin, Car } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -14,7 +14,11 @@ import { formatPriceWithFallback, getProductPriceDisplay, getTotalValueDisplay }
 import { getDepartmentRowStyling, getDepartmentBadgeStyling } from "@/lib/utils/department-colors";
 import { useDepartmentColors } from "@/lib/hooks/useDepartmentColors";
 import { PaymentDetailsForm, PaymentDetails } from "./payment-details-form";
+import { VehicleMediaGallery } from "./vehicle-media-gallery";
 import { useAuthStore } from "@/store/authStore";
+import { useEditingPresence, useSocketEvent } from "@/lib/hooks/useRealtime";
+import { SOCKET_EVENTS, type VehicleUpdatedEvent, type WorkflowUpdatedEvent } from "@/lib/providers/socket-provider";
+import { EditingPresence } from "./editing-presence";
 
 interface Vehicle {
   vehicleId: string;
@@ -381,9 +385,10 @@ export function VehicleWorkflowDashboard({ vehicleId }: VehicleWorkflowDashboard
     }
   };
 
-  const fetchVehicle = async () => {
+  // Silent refreshes (live updates) keep the current view instead of showing the skeleton
+  const fetchVehicle = async (silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       setError(null);
       
 
@@ -483,6 +488,35 @@ export function VehicleWorkflowDashboard({ vehicleId }: VehicleWorkflowDashboard
     }
   }, [vehicleId]);
 
+  // Live updates: refresh when someone else changes this vehicle or its workflows.
+  // Events arrive through both the tenant and the vehicle room, so bursts are coalesced.
+  const { editors, startEditing, stopEditing } = useEditingPresence('vehicle', vehicleId);
+  const liveRefreshTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const scheduleLiveRefresh = (updatedBy: string) => {
+    if (updatedBy === user?.userId) return;
+    clearTimeout(liveRefreshTimer.current);
+    liveRefreshTimer.current = setTimeout(() => fetchVehicle(true), 300);
+  };
+
+  useSocketEvent<VehicleUpdatedEvent>(SOCKET_EVENTS.VEHICLE_UPDATED, (event) => {
+    if (event.vehicleId === vehicleId) scheduleLiveRefresh(event.updatedBy);
+  });
+
+  useSocketEvent<WorkflowUpdatedEvent>(SOCKET_EVENTS.WORKFLOW_UPDATED, (event) => {
+    if (event.entityType === 'vehicle' && event.entityId === vehicleId) scheduleLiveRefresh(event.updatedBy);
+  });
+
+  useEffect(() => () => clearTimeout(liveRefreshTimer.current), []);
+
+  // Let others on this vehicle see when the stage dialog is open
+  useEffect(() => {
+    if (workflowDialog.open) {
+      startEditing(workflowDialog.productName || workflowDialog.type);
+    } else {
+      stopEditing();
+    }
+  }, [workflowDialog.open, workflowDialog.productName, workflowDialog.type, startEditing, stopEditing]);
+
   const getWorkflowStatus = (productName: string) => {
     const workflow = productWorkflows[productName];
     if (!workflow) return 'pending';
@@ -874,7 +908,7 @@ export function VehicleWorkflowDashboard({ vehicleId }: VehicleWorkflowDashboard
                 </ul>
               </div>
               <Button 
-                onClick={fetchVehicle} 
+                onClick={() => fetchVehicle()} 
                 className="mt-4"
                 variant="outline"
               >
@@ -893,7 +927,7 @@ export function VehicleWorkflowDashboard({ vehicleId }: VehicleWorkflowDashboard
         <Card>
           <CardContent className="p-6 text-center">
             <p>Vehicle not found</p>
-            <Button onClick={fetchVehicle} className="mt-4" variant="outline">
+            <Button onClick={() => fetchVehicle()} className="mt-4" variant="outline">
               Retry
             </Button>
           </CardContent>
@@ -913,6 +947,8 @@ export function VehicleWorkflowDashboard({ vehicleId }: VehicleWorkflowDashboard
         </h1>
       </div>
 
+      <EditingPresence editors={editors} />
+
       {/* Vehicle Information Card */}
       <Card className="bg-slate-700 text-white">
         <CardContent className="p-6 space-y-4">
@@ -1046,6 +1082,9 @@ export function VehicleWorkflowDashboard({ vehicleId }: VehicleWorkflowDashboard
         </Card>
       )}
 
+      {/* Vehicle Photos */}
+      <VehicleMediaGallery vehicleId={vehicleId} />
+
       {/* Workflow Buttons */}
       <div className="flex gap-4 justify-center">
         <Button 
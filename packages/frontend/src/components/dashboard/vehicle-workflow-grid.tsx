@@ -16,6 +16,7 @@ import { getDepartmentRowStyling, getDepartmentBadgeStyling } from "@/lib/utils/
 import { useDepartmentColors } from "@/lib/hooks/useDepartmentColors";
 import { PaymentDetailsForm, PaymentDetails } from "./payment-details-form";
 import { useAuthStore } from "@/store/authStore";
+import { useSocket } from "@/lib/providers/socket-provider";
 
 // Use the VehicleWithRelations type from the API
 type Vehicle = VehicleWithRelations & {
@@ -855,12 +856,14 @@ export function VehicleWorkflowGrid() {
   const { loading: departmentLoading, error: departmentError } = useDepartmentColors();
   
   // Use shared vehicle data hook for consistency
-  // Disabled auto-refresh to prevent unnecessary API calls during user interactions
+  // Polling stays off; real-time events refresh only the vehicles that changed
   const { vehicles, loading, error, refreshVehicles } = useVehicles({ 
     includeWorkflows: true,
     autoRefresh: false, // Disabled for better performance
-    refreshInterval: 60000 // Reduced frequency when needed
+    refreshInterval: 60000, // Reduced frequency when needed
+    live: true
   });
+  const { connected } = useSocket();
 
   // console.log('Department loading status:', departmentLoading, 'error:', departmentError);
 
@@ -904,8 +907,12 @@ export function VehicleWorkflowGrid() {
 
   return (
     <div className="space-y-4">
-      {/* Manual Refresh Button */}
-      <div className="flex justify-end">
+      {/* Live status and manual refresh (fallback while disconnected) */}
+      <div className="flex items-center justify-end gap-3">
+        <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <span className={`h-2 w-2 rounded-full ${connected ? "bg-green-500" : "bg-gray-400"}`} />
+          {connected ? "Live" : "Offline"}
+        </span>
         <Button
           onClick={refreshVehicles}
           variant="outline"
@@ -19,7 +19,8 @@ import {
   Phone,
   Wrench,
   ClipboardList,
-  Activity
+  Activity,
+  FileClock
 } from 'lucide-react';
 
 import { cn } from '@/lib/utils';
@@ -175,6 +176,12 @@ const adminItems: NavItem[] = [
         icon: Settings,
         requiredRole: [ROLES.ADMIN],
       },
+      {
+        title: 'Audit Log',
+        href: '/admin/audit-logs',
+        icon: FileClock,
+        requiredRole: [ROLES.ADMIN],
+      },
     ],
   },
 ];
@@ -0,0 +1,94 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import type { PermissionConditions, VehicleAssignment } from "@/lib/api/roles";
+
+// Resources whose queries enforce conditions, and which kinds they support
+export const CONDITIONAL_RESOURCES: Record<string, { amount: boolean }> = {
+  vehicles: { amount: false },
+  workflows: { amount: false },
+  reports: { amount: false },
+  payments: { amount: true },
+  financial_reports: { amount: false },
+};
+
+const ASSIGNMENTS: Array<{ value: VehicleAssignment; label: string }> = [
+  { value: "salesperson", label: "Salesperson" },
+  { value: "coordinator", label: "Coordinator" },
+  { value: "supervisor", label: "Supervisor" },
+  { value: "creator", label: "Created by me" },
+];
+
+export const hasConditions = (conditions?: PermissionConditions) =>
+  !!conditions && Object.keys(conditions).length > 0;
+
+interface PermissionConditionsEditorProps {
+  resource: string;
+  conditions: PermissionConditions;
+  onChange: (conditions: PermissionConditions) => void;
+}
+
+/**
+ * Row-level limits for a resource's permissions: own location, own
+ * assignments and (for payments) a maximum amount
+ */
+export function PermissionConditionsEditor({ resource, conditions, onChange }: PermissionConditionsEditorProps) {
+  const support = CONDITIONAL_RESOURCES[resource];
+  if (!support) return null;
+
+  // Drop keys that no longer restrict anything so "no limits" stays `{}`
+  const update = (patch: PermissionConditions) => {
+    const next: PermissionConditions = { ...conditions, ...patch };
+    if (!next.ownLocation) delete next.ownLocation;
+    if (!next.assignedTo?.length) delete next.assignedTo;
+    if (next.maxAmount === undefined) delete next.maxAmount;
+    onChange(next);
+  };
+
+  const toggleAssignment = (assignment: VehicleAssignment, checked: boolean) => {
+    const current = conditions.assignedTo || [];
+    update({ assignedTo: checked ? [...current, assignment] : current.filter((value) => value !== assignment) });
+  };
+
+  return (
+    <div className="mt-3 space-y-2 rounded-md border border-dashed p-3 text-sm">
+      <div className="font-medium text-gray-700">
+        Limit access <span className="font-normal text-muted-foreground">(applies to all selected actions)</span>
+      </div>
+      <label className="flex items-center space-x-2 cursor-pointer">
+        <Checkbox
+          checked={!!conditions.ownLocation}
+          onCheckedChange={(checked) => update({ ownLocation: checked === true })}
+        />
+        <span>Only vehicles at the user&apos;s location</span>
+      </label>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span className="text-muted-foreground">Only vehicles where the user is:</span>
+        {ASSIGNMENTS.map(({ value, label }) => (
+          <label key={value} className="flex items-center space-x-2 cursor-pointer">
+            <Checkbox
+              checked={conditions.assignedTo?.includes(value) || false}
+              onCheckedChange={(checked) => toggleAssignment(value, checked === true)}
+            />
+            <span>{label}</span>
+          </label>
+        ))}
+      </div>
+      {support.amount && (
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Only amounts up to ₹</span>
+          <Input
+            type="number"
+            min="0"
+            step="1"
+            className="h-8 w-40"
+            placeholder="No limit"
+            value={conditions.maxAmount ?? ""}
+            onChange={(e) => update({ maxAmount: e.target.value === "" ? undefined : Math.max(0, Number(e.target.value)) })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
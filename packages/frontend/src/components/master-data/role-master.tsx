@@ -5,7 +5,8 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Plus, Search, Edit, Trash2, Shield, Users, Settings, Palette, Save, X, Check } from "lucide-react";
-import { roleApi, type Role, type PermissionOptions } from "@/lib/api/roles";
+import { roleApi, type Role, type PermissionOptions, type PermissionConditions } from "@/lib/api/roles";
+import { PermissionConditionsEditor, hasConditions } from "./permission-conditions-editor";
 import {
   Card,
   CardContent,
@@ -111,7 +112,11 @@ const roleSchema = z.object({
   permissions: z.array(z.object({
     resource: z.string(),
     action: z.string(),
-    conditions: z.record(z.any()).optional()
+    conditions: z.object({
+      ownLocation: z.boolean().optional(),
+      assignedTo: z.array(z.enum(["salesperson", "coordinator", "supervisor", "creator"])).optional(),
+      maxAmount: z.number().min(0).optional()
+    }).optional()
   })).optional()
 });
 
@@ -288,12 +293,25 @@ export function RoleMaster() {
       const newPermissions = currentPermissions.filter(p => !(p.resource === resource && p.action === action));
       form.setValue("permissions", newPermissions);
     } else {
-      // Add permission
-      const newPermissions = [...currentPermissions, { resource, action, conditions: {} }];
+      // Add permission, with the limits already set for this resource
+      const newPermissions = [...currentPermissions, { resource, action, conditions: getResourceConditions(resource) }];
       form.setValue("permissions", newPermissions);
     }
   };
 
+  // Conditions shared by a resource's selected permissions
+  const getResourceConditions = (resource: string): PermissionConditions => {
+    const permissions = form.watch("permissions") || [];
+    return { ...(permissions.find(p => p.resource === resource)?.conditions || {}) };
+  };
+
+  const setResourceConditions = (resource: string, conditions: PermissionConditions) => {
+    const currentPermissions = form.getValues("permissions") || [];
+    form.setValue("permissions", currentPermissions.map(p =>
+      p.resource === resource ? { ...p, conditions: { ...conditions } } : p
+    ));
+  };
+
   // Check if permission is selected
   const isPermissionSelected = (resource: string, action: string) => {
     const permissions = form.watch("permissions") || [];
@@ -327,9 +345,10 @@ export function RoleMaster() {
       const existingResourcePermissions = currentPermissions.filter(p => p.resource === resource);
       const existingActions = new Set(existingResourcePermissions.map(p => p.action));
       
+      const conditions = getResourceConditions(resource);
       const newResourcePermissions = actions
         .filter(action => !existingActions.has(action))
-        .map(action => ({ resource, action, conditions: {} }));
+        .map(action => ({ resource, action, conditions: { ...conditions } }));
       
       const newPermissions = [...currentPermissions, ...newResourcePermissions];
       form.setValue("permissions", newPermissions);
@@ -657,6 +676,13 @@ export function RoleMaster() {
                                   </label>
                                 ))}
                               </div>
+                              {selectedPermissions[resource] && (
+                                <PermissionConditionsEditor
+                                  resource={resource}
+                                  conditions={getResourceConditions(resource)}
+                                  onChange={(conditions) => setResourceConditions(resource, conditions)}
+                                />
+                              )}
                             </CardContent>
                           </Card>
                         ))}
@@ -719,6 +745,13 @@ export function RoleMaster() {
                                   </label>
                                 ))}
                               </div>
+                              {selectedPermissions[resource] && (
+                                <PermissionConditionsEditor
+                                  resource={resource}
+                                  conditions={getResourceConditions(resource)}
+                                  onChange={(conditions) => setResourceConditions(resource, conditions)}
+                                />
+                              )}
                             </CardContent>
                           </Card>
                         ))}
@@ -845,6 +878,11 @@ export function RoleMaster() {
                         <Badge variant="secondary">
                           {role.rolePermissions?.length || 0} permissions
                         </Badge>
+                        {role.rolePermissions?.some(p => hasConditions(p.conditions)) && (
+                          <Badge variant="outline" className="ml-1" title="Some permissions are limited by location, assignment or amount">
+                            Limited
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Badge variant={role.status === "active" ? "default" : "secondary"}>
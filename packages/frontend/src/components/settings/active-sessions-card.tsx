@@ -0,0 +1,126 @@
+'use client';
+
+import { Loader2, LogOut, Monitor, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+import { useLogoutAll, useRevokeSession, useSessions } from '@/lib/hooks/useAuth';
+import type { UserSession } from '@/lib/api/auth';
+
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+export function ActiveSessionsCard() {
+  const { data, isLoading } = useSessions();
+  const revokeSessionMutation = useRevokeSession();
+  const logoutAllMutation = useLogoutAll();
+
+  const sessions: UserSession[] = data?.data || [];
+
+  const handleRevoke = (sessionId: string) => {
+    revokeSessionMutation.mutate(sessionId, {
+      onSuccess: () => toast.success('Session revoked'),
+      onError: (error: any) => toast.error(error.message || 'Failed to revoke session'),
+    });
+  };
+
+  const handleLogoutAll = () => {
+    if (!confirm('Sign out of all devices, including this one?')) return;
+
+    logoutAllMutation.mutate(undefined, {
+      onError: (error: any) => toast.error(error.message || 'Failed to sign out of all devices'),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Active Sessions
+            </CardTitle>
+            <CardDescription>
+              Devices currently signed in to your account
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleLogoutAll}
+            disabled={logoutAllMutation.isPending || sessions.length === 0}
+          >
+            {logoutAllMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <LogOut className="h-4 w-4 mr-2" />
+            )}
+            Log out all devices
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : sessions.length > 0 ? (
+          <div className="space-y-3">
+            {sessions.map((session) => (
+              <div key={session.sessionId} className="flex items-center justify-between border rounded-lg p-4">
+                <div className="flex items-center gap-3">
+                  <Monitor className="h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{describeDevice(session.userAgent)}</p>
+                      {session.current && <Badge>This device</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {session.ipAddress || 'Unknown IP'} · Last active {new Date(session.lastUsedAt).toLocaleString()}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Signed in {new Date(session.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(session.sessionId)}
+                    disabled={revokeSessionMutation.isPending}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>No active sessions</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Plus, RotateCcw, Trash2, Webhook } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+import {
+  useCreateWebhookEndpoint,
+  useDeleteWebhookEndpoint,
+  useReplayWebhookDelivery,
+  useUpdateWebhookEndpoint,
+  useWebhookDeliveries,
+  useWebhookEndpoints,
+} from '@/lib/hooks/useWebhooks';
+import type { WebhookDeliveryStatus, WebhookEndpoint, WebhookEventType } from '@/lib/api/webhooks';
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  'vehicle.created': 'Vehicle created',
+  'vehicle.status_changed': 'Vehicle status changed',
+  'workflow.stage_changed': 'Workflow stage changed',
+  'payment.recorded': 'Payment recorded',
+  'invoice.issued': 'Invoice issued',
+  'media.uploaded': 'Media uploaded',
+};
+
+const EVENT_TYPES = Object.keys(EVENT_LABELS) as WebhookEventType[];
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive'> = {
+  success: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+const PAGE_SIZE = 10;
+
+export function WebhooksCard() {
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>([]);
+  const [statusFilter, setStatusFilter] = useState<'all' | WebhookDeliveryStatus>('all');
+  const [page, setPage] = useState(1);
+
+  const { data: endpointsData, isLoading: endpointsLoading } = useWebhookEndpoints();
+  const { data: deliveriesData, isLoading: deliveriesLoading } = useWebhookDeliveries({
+    page,
+    limit: PAGE_SIZE,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+  });
+  const createEndpointMutation = useCreateWebhookEndpoint();
+  const updateEndpointMutation = useUpdateWebhookEndpoint();
+  const deleteEndpointMutation = useDeleteWebhookEndpoint();
+  const replayDeliveryMutation = useReplayWebhookDelivery();
+
+  const endpoints: WebhookEndpoint[] = endpointsData?.data || [];
+  const deliveries = deliveriesData?.data || [];
+  const totalPages = deliveriesData?.pagination?.totalPages || 1;
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents((current) => checked ? [...current, event] : current.filter((value) => value !== event));
+  };
+
+  const handleCreate = () => {
+    if (!name.trim() || !url.trim() || events.length === 0) {
+      toast.error('Name, URL and at least one event are required');
+      return;
+    }
+
+    createEndpointMutation.mutate({ name: name.trim(), url: url.trim(), events }, {
+      onSuccess: () => {
+        toast.success('Webhook endpoint added');
+        setName('');
+        setUrl('');
+        setEvents([]);
+      },
+      onError: (error: any) => toast.error(error.message || 'Failed to add webhook endpoint'),
+    });
+  };
+
+  const handleToggleEnabled = (endpoint: WebhookEndpoint, enabled: boolean) => {
+    updateEndpointMutation.mutate({ endpointId: endpoint.endpointId, data: { enabled } }, {
+      onError: (error: any) => toast.error(error.message || 'Failed to update webhook endpoint'),
+    });
+  };
+
+  const handleDelete = (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Delete "${endpoint.name}" and its delivery log?`)) return;
+
+    deleteEndpointMutation.mutate(endpoint.endpointId, {
+      onSuccess: () => toast.success('Webhook endpoint deleted'),
+      onError: (error: any) => toast.error(error.message || 'Failed to delete webhook endpoint'),
+    });
+  };
+
+  const handleReplay = (deliveryId: string) => {
+    replayDeliveryMutation.mutate(deliveryId, {
+      onSuccess: (response) => {
+        if (response.data?.status === 'success') {
+          toast.success('Webhook delivered');
+        } else {
+          toast.warning(response.message || 'Delivery failed, it will be retried');
+        }
+      },
+      onError: (error: any) => toast.error(error.message || 'Failed to replay webhook'),
+    });
+  };
+
+  return (
+    <Card className="shadow-sm border-0 bg-white">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-3 text-xl">
+          <div className="p-2 bg-purple-50 rounded-lg">
+            <Webhook className="h-6 w-6 text-purple-600" />
+          </div>
+          Webhooks
+        </CardTitle>
+        <CardDescription className="text-gray-600">
+          Send events to external systems. Requests are signed with the integration webhook secret
+          in the X-OMSMS-Signature header and retried with backoff on failure.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* New endpoint */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhookName" className="text-sm font-medium text-gray-700">Name</Label>
+            <Input
+              id="webhookName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="ERP sync"
+              className="h-10"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhookUrl" className="text-sm font-medium text-gray-700">URL</Label>
+            <Input
+              id="webhookUrl"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/webhooks/omsms"
+              className="h-10"
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {EVENT_TYPES.map((event) => (
+            <label key={event} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={events.includes(event)}
+                onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+              />
+              {EVENT_LABELS[event]}
+            </label>
+          ))}
+        </div>
+        <Button onClick={handleCreate} disabled={createEndpointMutation.isPending}>
+          {createEndpointMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Plus className="h-4 w-4 mr-2" />
+          )}
+          Add Endpoint
+        </Button>
+
+        {/* Endpoints */}
+        {endpointsLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : endpoints.length > 0 ? (
+          <div className="space-y-3">
+            {endpoints.map((endpoint) => (
+              <div key={endpoint.endpointId} className="flex items-center justify-between border rounded-lg p-4">
+                <div className="space-y-1 min-w-0">
+                  <p className="font-medium">{endpoint.name}</p>
+                  <p className="text-sm text-muted-foreground truncate">{endpoint.url}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {endpoint.events.map((event) => (
+                      <Badge key={event} variant="outline">
+                        {event === '*' ? 'All events' : EVENT_LABELS[event]}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch
+                    checked={endpoint.enabled}
+                    onCheckedChange={(checked) => handleToggleEnabled(endpoint, checked)}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(endpoint)}
+                    disabled={deleteEndpointMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">No webhook endpoints configured</p>
+        )}
+
+        <Separator />
+
+        {/* Delivery log */}
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Delivery Log</h3>
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => {
+              setStatusFilter(value as 'all' | WebhookDeliveryStatus);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="h-9 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="success">Delivered</SelectItem>
+              <SelectItem value="pending">Retrying</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {deliveriesLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : deliveries.length > 0 ? (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <TableRow key={delivery.deliveryId}>
+                    <TableCell>{EVENT_LABELS[delivery.eventType] || delivery.eventType}</TableCell>
+                    <TableCell className="max-w-[220px] truncate" title={delivery.url}>
+                      {delivery.endpoint?.name || delivery.url}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[delivery.status]}>
+                        {delivery.status}{delivery.responseStatus ? ` (${delivery.responseStatus})` : ''}
+                      </Badge>
+                      {delivery.error && (
+                        <p className="text-xs text-red-600 mt-1 max-w-[220px] truncate" title={delivery.error}>
+                          {delivery.error}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>{delivery.attempts}</TableCell>
+                    <TableCell>{new Date(delivery.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleReplay(delivery.deliveryId)}
+                        disabled={replayDeliveryMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Replay
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex items-center justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                Next
+              </Button>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">No deliveries yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
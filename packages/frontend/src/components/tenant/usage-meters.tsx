@@ -0,0 +1,93 @@
+"use client";
+
+import { Car, HardDrive, Loader2, Users } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { useTenantUsage } from "@/lib/hooks/useTenantUsage";
+import type { LimitedResource, ResourceUsage } from "@/lib/api/organization";
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+const RESOURCES: Record<LimitedResource, { label: string; icon: typeof Car }> = {
+  vehicles: { label: "Vehicles", icon: Car },
+  users: { label: "Active users", icon: Users },
+  storage: { label: "Media storage", icon: HardDrive },
+};
+
+const formatValue = (resource: LimitedResource, value: number) =>
+  resource === "storage" ? `${(value / BYTES_PER_GB).toFixed(2)} GB` : value.toLocaleString();
+
+// Same levels at which the backend warns tenant admins
+const levelClass = (percent: number | null) => {
+  if (percent === null || percent < 80) return "";
+  return percent >= 100 ? "[&>div]:bg-red-500" : "[&>div]:bg-amber-500";
+};
+
+function UsageMeter({ usage }: { usage: ResourceUsage }) {
+  const { label, icon: Icon } = RESOURCES[usage.resource];
+  const unlimited = usage.limit < 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-2 font-medium text-gray-700">
+          <Icon className="h-4 w-4 text-muted-foreground" />
+          {label}
+        </span>
+        <span className="text-muted-foreground">
+          {formatValue(usage.resource, usage.current)} of{" "}
+          {unlimited ? "Unlimited" : formatValue(usage.resource, usage.limit)}
+        </span>
+      </div>
+      <Progress
+        value={unlimited ? 0 : Math.min(usage.usagePercent ?? 0, 100)}
+        className={cn("h-2", levelClass(usage.usagePercent))}
+      />
+      {!unlimited && (usage.usagePercent ?? 0) >= 100 && (
+        <p className="text-xs text-red-600">Limit reached. Upgrade your plan to add more.</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Vehicles, users and storage used against the tenant's subscription tier
+ */
+export function UsageMeters() {
+  const { data: usage, isLoading, error } = useTenantUsage();
+
+  return (
+    <Card className="shadow-sm border-0 bg-white">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Plan Usage</CardTitle>
+            <CardDescription>Usage against your subscription limits</CardDescription>
+          </div>
+          {usage && (
+            <Badge variant="outline" className="capitalize">
+              {usage.tier} plan
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !usage ? (
+          <p className="text-sm text-muted-foreground">Usage information is unavailable.</p>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+            {usage.resources.map((resource) => (
+              <UsageMeter key={resource.resource} usage={resource} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
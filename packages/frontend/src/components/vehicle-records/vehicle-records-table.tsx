@@ -25,7 +25,8 @@ export function VehicleRecordsTable() {
   // Use shared vehicle data hook for consistency
   const { vehicles, loading, error, refreshVehicles } = useVehicles({ 
     includeWorkflows: true,
-    autoRefresh: false 
+    autoRefresh: false,
+    live: true
   });
   
   const [searchTerm, setSearchTerm] = useState('');
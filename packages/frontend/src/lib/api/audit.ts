@@ -0,0 +1,80 @@
+import { apiClient } from './client';
+import type { ApiResponse } from '@omsms/shared';
+
+export interface AuditLogEntry {
+  logId: string;
+  userId: string | null;
+  action: string;
+  entityType: string | null;
+  entityId: string | null;
+  oldValues: Record<string, any> | null;
+  newValues: Record<string, any> | null;
+  details: (Record<string, any> & { changedFields?: string[] }) | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  user?: {
+    userId: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string;
+  } | null;
+}
+
+export interface AuditLogFilterParams {
+  page?: number;
+  limit?: number;
+  entityType?: string;
+  entityId?: string;
+  userId?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditFilterOptions {
+  entityTypes: string[];
+  actions: string[];
+}
+
+/**
+ * Audit log API service
+ */
+export const auditApi = {
+  /**
+   * Get audit log entries with filtering and pagination
+   */
+  async getAuditLogs(params?: AuditLogFilterParams): Promise<ApiResponse<AuditLogEntry[]>> {
+    const queryParams = new URLSearchParams();
+
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const endpoint = `/audit-logs${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return apiClient.get<ApiResponse<AuditLogEntry[]>>(endpoint);
+  },
+
+  /**
+   * Get entity types and actions for the filter dropdowns
+   */
+  async getFilterOptions(): Promise<ApiResponse<AuditFilterOptions>> {
+    return apiClient.get<ApiResponse<AuditFilterOptions>>('/audit-logs/filters');
+  },
+
+  /**
+   * Get the change history of a vehicle
+   */
+  async getVehicleHistory(vehicleId: string, params?: { page?: number; limit?: number }): Promise<ApiResponse<AuditLogEntry[]>> {
+    const queryParams = new URLSearchParams();
+    if (params?.page) queryParams.append('page', params.page.toString());
+    if (params?.limit) queryParams.append('limit', params.limit.toString());
+
+    const endpoint = `/audit-logs/vehicles/${vehicleId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return apiClient.get<ApiResponse<AuditLogEntry[]>>(endpoint);
+  }
+};
@@ -62,6 +62,16 @@ export interface PasswordResetResponse {
   message: string;
 }
 
+export interface UserSession {
+  sessionId: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
 // Authentication API functions
 export const authApi = {
   // Standard login
@@ -94,18 +104,33 @@ export const authApi = {
     return apiClient.publicGet('/public/plans');
   },
 
-  // Logout
-  async logout(): Promise<ApiResponse<void>> {
-    return apiClient.post('/auth/logout');
+  // Logout (revokes the current session)
+  async logout(refreshToken?: string | null): Promise<ApiResponse<void>> {
+    return apiClient.post('/auth/logout', refreshToken ? { refreshToken } : undefined);
+  },
+
+  // Logout from all devices
+  async logoutAll(): Promise<ApiResponse<{ revokedSessions: number }>> {
+    return apiClient.post('/auth/logout-all');
+  },
+
+  // List active sessions
+  async getSessions(): Promise<ApiResponse<UserSession[]>> {
+    return apiClient.get('/auth/sessions');
+  },
+
+  // Revoke a session
+  async revokeSession(sessionId: string): Promise<ApiResponse<void>> {
+    return apiClient.delete(`/auth/sessions/${sessionId}`);
   },
 
   // Forgot password
-  async forgotPassword(data: ForgotPasswordFormData): Promise<ApiResponse<PasswordResetResponse>> {
+  async forgotPassword(data: ForgotPasswordFormData & { subdomain?: string }): Promise<ApiResponse<PasswordResetResponse>> {
     return apiClient.publicPost('/auth/forgot-password', data);
   },
 
   // Reset password
-  async resetPassword(data: ResetPasswordFormData): Promise<ApiResponse<PasswordResetResponse>> {
+  async resetPassword(data: ResetPasswordFormData & { subdomain?: string }): Promise<ApiResponse<PasswordResetResponse>> {
     return apiClient.publicPost('/auth/reset-password', data);
   },
 
@@ -115,8 +140,8 @@ export const authApi = {
   },
 
   // Refresh token
-  async refreshToken(): Promise<ApiResponse<{ accessToken: string; refreshToken: string }>> {
-    return apiClient.post('/auth/refresh');
+  async refreshToken(refreshToken: string): Promise<ApiResponse<{ accessToken: string; refreshToken: string }>> {
+    return apiClient.publicPost('/auth/refresh', { refreshToken });
   },
 
   // Get available tenants for user
@@ -0,0 +1,184 @@
+import { apiClient } from './client';
+import type { ApiResponse } from '@omsms/shared';
+
+export type CallFollowUpStatus =
+  | 'call_entered'
+  | 'active_calls'
+  | 'pending'
+  | 'followed_up'
+  | 'not_received'
+  | 'completed';
+
+export type CallFollowUpPriority = 'low' | 'medium' | 'high';
+
+export interface CallFollowUpUser {
+  userId: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string;
+}
+
+export interface CallFollowUpStatusChange {
+  changeId: string;
+  callId: string;
+  fromStatus: CallFollowUpStatus | null;
+  toStatus: CallFollowUpStatus;
+  callOutcome: string | null;
+  notes: string | null;
+  changedBy: string | null;
+  changedAt: string;
+  user: CallFollowUpUser | null;
+}
+
+export interface CallFollowUp {
+  callId: string;
+  callerName: string;
+  phoneNumber: string;
+  personToContact: string | null;
+  vehicleId: string | null;
+  operatorId: string | null;
+  assignedToId: string | null;
+  priority: CallFollowUpPriority;
+  status: CallFollowUpStatus;
+  callOutcome: string | null;
+  notes: string | null;
+  followUpAt: string | null;
+  reminderSentAt: string | null;
+  firstRespondedAt: string | null;
+  completedAt: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  operator: CallFollowUpUser | null;
+  assignedTo: CallFollowUpUser | null;
+  vehicle: { vehicleId: string; carNumber: string } | null;
+}
+
+export interface CallFollowUpDetail extends CallFollowUp {
+  statusHistory: CallFollowUpStatusChange[];
+}
+
+export interface CallFollowUpAssignee extends CallFollowUpUser {
+  mobileNumber: string | null;
+  role: { roleName: string };
+  department: { departmentName: string } | null;
+}
+
+export interface CallFollowUpRequest {
+  callerName: string;
+  phoneNumber: string;
+  personToContact?: string | null;
+  vehicleId?: string | null;
+  operatorId?: string | null;
+  assignedToId?: string | null;
+  priority?: CallFollowUpPriority;
+  callOutcome?: string | null;
+  notes?: string | null;
+  followUpAt?: string | null;
+}
+
+export interface CallFollowUpStatusRequest {
+  status: CallFollowUpStatus;
+  notes?: string;
+  callOutcome?: string;
+  followUpAt?: string | null;
+}
+
+export interface CallFollowUpFilterParams {
+  page?: number;
+  limit?: number;
+  status?: CallFollowUpStatus;
+  priority?: CallFollowUpPriority;
+  assignedToId?: string;
+  operatorId?: string;
+  mine?: boolean;
+  search?: string;
+  includeCompleted?: boolean;
+}
+
+export type CallFollowUpSummary = Record<CallFollowUpStatus, number> & {
+  total: number;
+  dueToday: number;
+  overdue: number;
+};
+
+export type CallFollowUpListResponse = ApiResponse<CallFollowUp[]> & {
+  summary?: CallFollowUpSummary;
+};
+
+export interface CallFollowUpQueues {
+  overdue: CallFollowUp[];
+  dueToday: CallFollowUp[];
+}
+
+/**
+ * Call follow-up API service
+ */
+export const callFollowUpApi = {
+  /**
+   * Get follow-up calls with filtering, pagination and queue counts
+   */
+  async getCalls(params?: CallFollowUpFilterParams): Promise<CallFollowUpListResponse> {
+    const queryParams = new URLSearchParams();
+
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const endpoint = `/call-follow-ups${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return apiClient.get<CallFollowUpListResponse>(endpoint);
+  },
+
+  /**
+   * Get overdue and due-today callbacks
+   */
+  async getQueues(mine?: boolean): Promise<ApiResponse<CallFollowUpQueues>> {
+    return apiClient.get<ApiResponse<CallFollowUpQueues>>(`/call-follow-ups/queues${mine ? '?mine=true' : ''}`);
+  },
+
+  /**
+   * Get users calls can be taken by or assigned to
+   */
+  async getAssignees(): Promise<ApiResponse<CallFollowUpAssignee[]>> {
+    return apiClient.get<ApiResponse<CallFollowUpAssignee[]>>('/call-follow-ups/assignees');
+  },
+
+  /**
+   * Get follow-up call with status history
+   */
+  async getCall(callId: string): Promise<ApiResponse<CallFollowUpDetail>> {
+    return apiClient.get<ApiResponse<CallFollowUpDetail>>(`/call-follow-ups/${callId}`);
+  },
+
+  /**
+   * Log a new follow-up call
+   */
+  async createCall(data: CallFollowUpRequest): Promise<ApiResponse<CallFollowUp>> {
+    return apiClient.post<ApiResponse<CallFollowUp>>('/call-follow-ups', data);
+  },
+
+  /**
+   * Update call details, callback time and assignment
+   */
+  async updateCall(callId: string, data: Partial<CallFollowUpRequest>): Promise<ApiResponse<CallFollowUp>> {
+    return apiClient.put<ApiResponse<CallFollowUp>>(`/call-follow-ups/${callId}`, data);
+  },
+
+  /**
+   * Change call status and record the outcome
+   */
+  async updateStatus(callId: string, data: CallFollowUpStatusRequest): Promise<ApiResponse<CallFollowUpDetail>> {
+    return apiClient.patch<ApiResponse<CallFollowUpDetail>>(`/call-follow-ups/${callId}/status`, data);
+  },
+
+  /**
+   * Delete follow-up call
+   */
+  async deleteCall(callId: string): Promise<ApiResponse> {
+    return apiClient.delete<ApiResponse>(`/call-follow-ups/${callId}`);
+  }
+};
@@ -9,6 +9,8 @@ const USE_MOCKS = process.env.NEXT_PUBLIC_USE_MOCKS === 'true';
 // HTTP client class with tenant awareness
 class ApiClient {
   private _baseUrl: string;
+  // Refresh tokens are single-use, so concurrent 401s must share one refresh
+  private refreshPromise: Promise<string | null> | null = null;
 
   constructor(baseUrl: string = API_BASE_URL) {
     this._baseUrl = baseUrl;
@@ -385,47 +387,73 @@ class ApiClient {
     } as T;
   }
 
+  private refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async requestTokenRefresh(): Promise<string | null> {
+    const authStore = useAuthStore.getState();
+
+    try {
+      const refreshResponse = await fetch(`${this._baseUrl}/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ refreshToken: authStore.refreshToken })
+      });
+
+      if (refreshResponse.ok) {
+        const refreshData = await refreshResponse.json();
+
+        if (refreshData.success && refreshData.data?.accessToken) {
+          // Update tokens in store
+          authStore.updateTokens(
+            refreshData.data.accessToken,
+            refreshData.data.refreshToken
+          );
+          return refreshData.data.accessToken;
+        }
+      }
+    } catch (error) {
+      console.error('Token refresh failed:', error);
+    }
+
+    return null;
+  }
+
   private async handleResponse<T>(response: Response, originalUrl: string, originalMethod: string, originalBody?: any): Promise<T> {
+    // The tenant's subdomain was renamed: address it by the new one from now on
+    const movedTo = response.headers.get('X-Tenant-Redirect');
+    const { tenant, setTenant } = useAuthStore.getState();
+    if (movedTo && tenant && tenant.subdomain !== movedTo) {
+      setTenant({ ...tenant, subdomain: movedTo });
+    }
+
     // Handle 401 errors with automatic token refresh
     if (response.status === 401) {
       const authStore = useAuthStore.getState();
       
       if (authStore.refreshToken) {
-        try {
-          // Attempt to refresh the token
-          const refreshResponse = await fetch(`${this._baseUrl}/auth/refresh`, {
-            method: 'POST',
+        const accessToken = await this.refreshAccessToken();
+
+        if (accessToken) {
+          // Retry original request with new token
+          const retryResponse = await fetch(originalUrl, {
+            method: originalMethod,
             headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${authStore.refreshToken}`
-            }
+              ...this.getHeaders(),
+              'Authorization': `Bearer ${accessToken}`
+            },
+            body: originalBody
           });
 
-          if (refreshResponse.ok) {
-            const refreshData = await refreshResponse.json();
-            
-            if (refreshData.success && refreshData.data?.tokens) {
-              // Update tokens in store
-              authStore.updateTokens(
-                refreshData.data.tokens.accessToken,
-                refreshData.data.tokens.refreshToken
-              );
-
-              // Retry original request with new token
-              const retryResponse = await fetch(originalUrl, {
-                method: originalMethod,
-                headers: {
-                  ...this.getHeaders(),
-                  'Authorization': `Bearer ${refreshData.data.tokens.accessToken}`
-                },
-                body: originalBody
-              });
-
-              return this.handleResponse(retryResponse, originalUrl, originalMethod, originalBody);
-            }
-          }
-        } catch (error) {
-          console.error('Token refresh failed:', error);
+          return this.handleResponse(retryResponse, originalUrl, originalMethod, originalBody);
         }
       }
 
@@ -0,0 +1,214 @@
+import { apiClient } from './client';
+import type { ApiResponse } from '@omsms/shared';
+
+export type CustomerRequirementStatus =
+  | 'pending'
+  | 'in_progress'
+  | 'ordered'
+  | 'procedure'
+  | 'contacted'
+  | 'completed';
+
+export type CustomerRequirementPriority = 'low' | 'medium' | 'high';
+
+export interface CustomerRequirementUser {
+  userId: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string;
+}
+
+/**
+ * Requested product, same shape as vehicleDetails.products on a vehicle
+ */
+export interface RequestedProduct {
+  productName: string;
+  brandName?: string | null;
+  price?: number | null;
+  departmentName?: string | null;
+}
+
+export interface CustomerRequirementStatusChange {
+  changeId: string;
+  requirementId: string;
+  fromStatus: CustomerRequirementStatus | null;
+  toStatus: CustomerRequirementStatus;
+  notes: string | null;
+  changedBy: string | null;
+  changedAt: string;
+  user: CustomerRequirementUser | null;
+}
+
+export interface RequirementComment {
+  commentId: string;
+  requirementId: string;
+  authorId: string | null;
+  message: string;
+  createdAt: string;
+  updatedAt: string;
+  author: CustomerRequirementUser | null;
+}
+
+export interface CustomerRequirement {
+  requirementId: string;
+  customerName: string;
+  customerPhone: string;
+  customerEmail: string | null;
+  description: string;
+  requestedProducts: RequestedProduct[];
+  priority: CustomerRequirementPriority;
+  status: CustomerRequirementStatus;
+  assignedToId: string | null;
+  vehicleId: string | null;
+  convertedAt: string | null;
+  completedAt: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  assignedTo: CustomerRequirementUser | null;
+  creator: CustomerRequirementUser | null;
+  vehicle: { vehicleId: string; carNumber: string; status: string } | null;
+  _count: { comments: number };
+}
+
+export interface CustomerRequirementDetail extends CustomerRequirement {
+  statusHistory: CustomerRequirementStatusChange[];
+  comments: RequirementComment[];
+}
+
+export interface CustomerRequirementAssignee extends CustomerRequirementUser {
+  role: { roleName: string };
+  department: { departmentName: string } | null;
+}
+
+export interface CustomerRequirementRequest {
+  customerName: string;
+  customerPhone: string;
+  customerEmail?: string | null;
+  description: string;
+  requestedProducts?: RequestedProduct[];
+  priority?: CustomerRequirementPriority;
+  assignedToId?: string | null;
+}
+
+export interface CustomerRequirementStatusRequest {
+  status: CustomerRequirementStatus;
+  notes?: string;
+}
+
+export interface ConvertRequirementRequest {
+  carNumber: string;
+  modelName?: string | null;
+  brandName?: string | null;
+  vehicleType?: string | null;
+  ownerAddress?: string | null;
+  locationId?: string | null;
+  salespersonId?: string | null;
+  coordinatorId?: string | null;
+  supervisorId?: string | null;
+  inwardDate?: string | null;
+  expectedDeliveryDate?: string | null;
+}
+
+export interface ConvertRequirementResult {
+  requirement: CustomerRequirementDetail;
+  vehicle: { vehicleId: string; carNumber: string; status: string };
+}
+
+export interface CustomerRequirementFilterParams {
+  page?: number;
+  limit?: number;
+  status?: CustomerRequirementStatus;
+  priority?: CustomerRequirementPriority;
+  assignedToId?: string;
+  mine?: boolean;
+  search?: string;
+  includeCompleted?: boolean;
+}
+
+export type CustomerRequirementSummary = Record<CustomerRequirementStatus, number> & {
+  total: number;
+};
+
+export type CustomerRequirementListResponse = ApiResponse<CustomerRequirement[]> & {
+  summary?: CustomerRequirementSummary;
+};
+
+/**
+ * Customer requirement API service
+ */
+export const customerRequirementApi = {
+  /**
+   * Get customer requirements with filtering, pagination and status counts
+   */
+  async getRequirements(params?: CustomerRequirementFilterParams): Promise<CustomerRequirementListResponse> {
+    const queryParams = new URLSearchParams();
+
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const endpoint = `/customer-requirements${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return apiClient.get<CustomerRequirementListResponse>(endpoint);
+  },
+
+  /**
+   * Get users requirements can be assigned to
+   */
+  async getAssignees(): Promise<ApiResponse<CustomerRequirementAssignee[]>> {
+    return apiClient.get<ApiResponse<CustomerRequirementAssignee[]>>('/customer-requirements/assignees');
+  },
+
+  /**
+   * Get customer requirement with status history and comments
+   */
+  async getRequirement(requirementId: string): Promise<ApiResponse<CustomerRequirementDetail>> {
+    return apiClient.get<ApiResponse<CustomerRequirementDetail>>(`/customer-requirements/${requirementId}`);
+  },
+
+  /**
+   * Record a new customer requirement
+   */
+  async createRequirement(data: CustomerRequirementRequest): Promise<ApiResponse<CustomerRequirement>> {
+    return apiClient.post<ApiResponse<CustomerRequirement>>('/customer-requirements', data);
+  },
+
+  /**
+   * Update requirement details, requested products and assignment
+   */
+  async updateRequirement(requirementId: string, data: Partial<CustomerRequirementRequest>): Promise<ApiResponse<CustomerRequirement>> {
+    return apiClient.put<ApiResponse<CustomerRequirement>>(`/customer-requirements/${requirementId}`, data);
+  },
+
+  /**
+   * Change requirement status
+   */
+  async updateStatus(requirementId: string, data: CustomerRequirementStatusRequest): Promise<ApiResponse<CustomerRequirementDetail>> {
+    return apiClient.patch<ApiResponse<CustomerRequirementDetail>>(`/customer-requirements/${requirementId}/status`, data);
+  },
+
+  /**
+   * Add a comment to a requirement
+   */
+  async addComment(requirementId: string, message: string): Promise<ApiResponse<RequirementComment>> {
+    return apiClient.post<ApiResponse<RequirementComment>>(`/customer-requirements/${requirementId}/comments`, { message });
+  },
+
+  /**
+   * Create a vehicle order pre-filled with the requested products
+   */
+  async convertToVehicle(requirementId: string, data: ConvertRequirementRequest): Promise<ApiResponse<ConvertRequirementResult>> {
+    return apiClient.post<ApiResponse<ConvertRequirementResult>>(`/customer-requirements/${requirementId}/convert`, data);
+  },
+
+  /**
+   * Delete customer requirement
+   */
+  async deleteRequirement(requirementId: string): Promise<ApiResponse> {
+    return apiClient.delete<ApiResponse>(`/customer-requirements/${requirementId}`);
+  }
+};
@@ -0,0 +1,237 @@
+import { apiClient } from './client';
+import { useAuthStore } from '@/store/authStore';
+import type { ApiResponse } from '@omsms/shared';
+
+export type InvoiceStatus = 'draft' | 'issued';
+export type InvoiceDocumentType = 'invoice' | 'credit_note';
+export type SupplyType = 'intra_state' | 'inter_state';
+
+interface InvoiceUser {
+  userId: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string;
+}
+
+// Decimal columns are serialized as strings
+type DecimalValue = string | number;
+
+export interface InvoiceItem {
+  itemId: string;
+  invoiceId: string;
+  lineNumber: number;
+  productId: string | null;
+  description: string;
+  hsnSac: string | null;
+  quantity: DecimalValue;
+  unitPrice: DecimalValue;
+  discount: DecimalValue;
+  taxRate: DecimalValue;
+  taxableValue: DecimalValue;
+  cgstAmount: DecimalValue;
+  sgstAmount: DecimalValue;
+  igstAmount: DecimalValue;
+  lineTotal: DecimalValue;
+}
+
+export interface Invoice {
+  invoiceId: string;
+  invoiceNumber: string | null;
+  documentType: InvoiceDocumentType;
+  status: InvoiceStatus;
+  vehicleId: string | null;
+  originalInvoiceId: string | null;
+  paymentId: string | null;
+  customerName: string;
+  customerPhone: string | null;
+  customerEmail: string | null;
+  customerAddress: string | null;
+  customerGstin: string | null;
+  placeOfSupply: string | null;
+  supplyType: SupplyType;
+  subtotal: DecimalValue;
+  discountTotal: DecimalValue;
+  cgstTotal: DecimalValue;
+  sgstTotal: DecimalValue;
+  igstTotal: DecimalValue;
+  taxTotal: DecimalValue;
+  roundOff: DecimalValue;
+  grandTotal: DecimalValue;
+  currency: string;
+  paymentTerms: string | null;
+  dueDate: string | null;
+  notes: string | null;
+  reason: string | null;
+  issueDate: string | null;
+  issuedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  vehicle: { vehicleId: string; carNumber: string } | null;
+  originalInvoice: { invoiceId: string; invoiceNumber: string | null } | null;
+  payment: { paymentId: string; status: string; paidAmount: DecimalValue; outstandingAmount: DecimalValue } | null;
+}
+
+export interface InvoiceDetail extends Invoice {
+  items: InvoiceItem[];
+  creditNotes: Array<{
+    invoiceId: string;
+    invoiceNumber: string | null;
+    status: InvoiceStatus;
+    grandTotal: DecimalValue;
+    issueDate: string | null;
+    reason: string | null;
+  }>;
+  creator: InvoiceUser | null;
+  issuer: InvoiceUser | null;
+}
+
+export interface InvoiceLineRequest {
+  productId?: string | null;
+  description: string;
+  hsnSac?: string | null;
+  quantity: number;
+  unitPrice: number;
+  discount?: number;
+  taxRate?: number | null;
+}
+
+export interface InvoiceRequest {
+  vehicleId?: string | null;
+  customerName: string;
+  customerPhone?: string | null;
+  customerEmail?: string | null;
+  customerAddress?: string | null;
+  customerGstin?: string | null;
+  placeOfSupply?: string | null;
+  paymentTerms?: string | null;
+  notes?: string | null;
+  items: InvoiceLineRequest[];
+}
+
+export interface VehicleInvoiceRequest {
+  customerGstin?: string | null;
+  placeOfSupply?: string | null;
+  paymentTerms?: string | null;
+  notes?: string | null;
+}
+
+export interface CreditNoteRequest {
+  reason: string;
+  items?: InvoiceLineRequest[];
+  notes?: string | null;
+}
+
+export interface InvoiceFilterParams {
+  page?: number;
+  limit?: number;
+  status?: InvoiceStatus;
+  documentType?: InvoiceDocumentType;
+  vehicleId?: string;
+  search?: string;
+}
+
+export interface InvoiceSummary {
+  drafts: number;
+  issuedInvoices: number;
+  issuedCreditNotes: number;
+  invoicedTotal: number;
+  creditedTotal: number;
+  netTotal: number;
+}
+
+export type InvoiceListResponse = ApiResponse<Invoice[]> & {
+  summary?: InvoiceSummary;
+};
+
+/**
+ * Invoice API service
+ */
+export const invoiceApi = {
+  /**
+   * Get invoices and credit notes with filtering, pagination and totals
+   */
+  async getInvoices(params?: InvoiceFilterParams): Promise<InvoiceListResponse> {
+    const queryParams = new URLSearchParams();
+
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const endpoint = `/invoices${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return apiClient.get<InvoiceListResponse>(endpoint);
+  },
+
+  /**
+   * Get invoice with line items, credit notes and linked payable
+   */
+  async getInvoice(invoiceId: string): Promise<ApiResponse<InvoiceDetail>> {
+    return apiClient.get<ApiResponse<InvoiceDetail>>(`/invoices/${invoiceId}`);
+  },
+
+  /**
+   * Create a draft invoice from supplied line items
+   */
+  async createInvoice(data: InvoiceRequest): Promise<ApiResponse<InvoiceDetail>> {
+    return apiClient.post<ApiResponse<InvoiceDetail>>('/invoices', data);
+  },
+
+  /**
+   * Create a draft invoice from a vehicle's installed or ordered products
+   */
+  async createVehicleInvoice(vehicleId: string, data: VehicleInvoiceRequest = {}): Promise<ApiResponse<InvoiceDetail>> {
+    return apiClient.post<ApiResponse<InvoiceDetail>>(`/invoices/vehicles/${vehicleId}`, data);
+  },
+
+  /**
+   * Update a draft invoice
+   */
+  async updateInvoice(invoiceId: string, data: Partial<InvoiceRequest>): Promise<ApiResponse<InvoiceDetail>> {
+    return apiClient.put<ApiResponse<InvoiceDetail>>(`/invoices/${invoiceId}`, data);
+  },
+
+  /**
+   * Assign the next number and issue a draft invoice or credit note
+   */
+  async issueInvoice(invoiceId: string): Promise<ApiResponse<InvoiceDetail>> {
+    return apiClient.post<ApiResponse<InvoiceDetail>>(`/invoices/${invoiceId}/issue`);
+  },
+
+  /**
+   * Create a draft credit note against an issued invoice
+   */
+  async createCreditNote(invoiceId: string, data: CreditNoteRequest): Promise<ApiResponse<InvoiceDetail>> {
+    return apiClient.post<ApiResponse<InvoiceDetail>>(`/invoices/${invoiceId}/credit-notes`, data);
+  },
+
+  /**
+   * Download invoice or credit note as PDF
+   */
+  async downloadPdf(invoiceId: string): Promise<Blob> {
+    const { token, tenant } = useAuthStore.getState();
+    const response = await fetch(`${apiClient.baseUrl}/invoices/${invoiceId}/pdf`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'X-Tenant-ID': tenant?.subdomain || 'demo',
+      },
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || data.error || 'PDF download failed');
+    }
+
+    return response.blob();
+  },
+
+  /**
+   * Delete a draft invoice or credit note
+   */
+  async deleteInvoice(invoiceId: string): Promise<ApiResponse> {
+    return apiClient.delete<ApiResponse>(`/invoices/${invoiceId}`);
+  }
+};
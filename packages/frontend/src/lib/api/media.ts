@@ -0,0 +1,177 @@
+import { apiClient } from './client';
+import { useAuthStore } from '@/store/authStore';
+import type { ApiResponse } from '@omsms/shared';
+
+export type MediaEntityType = 'vehicle' | 'installation' | 'user' | 'location';
+export type MediaFileCategory = 'photo' | 'video' | 'document';
+export type MediaVariantName = 'original' | 'web' | 'thumbnail' | 'poster';
+
+export interface MediaVariant {
+  filePath: string;
+  url: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+export interface MediaFile {
+  fileId: string;
+  entityType: MediaEntityType;
+  entityId: string;
+  fileCategory: MediaFileCategory;
+  fileSubcategory: string | null;
+  originalFilename: string;
+  storedFilename: string;
+  filePath: string;
+  fileSize: number;
+  mimeType: string;
+  fileExtension: string;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  storageProvider: string;
+  cdnUrl: string | null;
+  isPublic: boolean;
+  workflowStage: string | null;
+  metadata: Record<string, any>;
+  variants: Partial<Record<MediaVariantName, MediaVariant>>;
+  tags: string[];
+  uploadedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  uploader?: {
+    userId: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  } | null;
+}
+
+export interface MediaUploadRequest {
+  entityType: MediaEntityType;
+  entityId: string;
+  fileCategory: MediaFileCategory;
+  fileSubcategory?: string;
+  workflowStage?: string;
+}
+
+export interface MediaUploadResult {
+  fileId?: string;
+  originalFilename: string;
+  url?: string;
+  fileCategory?: MediaFileCategory;
+  size?: number;
+  error?: string;
+}
+
+export interface MediaFilterParams {
+  page?: number;
+  limit?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  search?: string;
+  entityType?: MediaEntityType;
+  entityId?: string;
+  fileCategory?: MediaFileCategory;
+  workflowStage?: string;
+}
+
+/**
+ * Pick the best URL for a display size, falling back to larger renditions
+ * (files uploaded before variants were generated only have cdnUrl).
+ * Videos have poster and thumbnail frames; 'original' is the playable file.
+ */
+export function getMediaVariantUrl(file: MediaFile, variant: MediaVariantName): string | null {
+  const order: MediaVariantName[] = variant === 'thumbnail'
+    ? ['thumbnail', 'poster', 'web', 'original']
+    : variant === 'web' || variant === 'poster'
+      ? [variant, 'original']
+      : ['original'];
+
+  for (const name of order) {
+    const url = file.variants?.[name]?.url;
+    if (url) return url;
+  }
+
+  return file.cdnUrl;
+}
+
+/**
+ * Media category the upload endpoint expects for a browser file
+ */
+export function getMediaFileCategory(file: File): MediaFileCategory {
+  if (file.type.startsWith('image/')) return 'photo';
+  if (file.type.startsWith('video/')) return 'video';
+  return 'document';
+}
+
+/**
+ * Media API service
+ */
+export const mediaApi = {
+  /**
+   * Get media files with filtering and pagination
+   */
+  async getMediaFiles(params?: MediaFilterParams): Promise<ApiResponse<MediaFile[]>> {
+    const queryParams = new URLSearchParams();
+
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const endpoint = `/media${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return apiClient.get<ApiResponse<MediaFile[]>>(endpoint);
+  },
+
+  /**
+   * Get media file by ID
+   */
+  async getMediaFile(fileId: string): Promise<ApiResponse<MediaFile>> {
+    return apiClient.get<ApiResponse<MediaFile>>(`/media/${fileId}`);
+  },
+
+  /**
+   * Get a signed download URL for a media file
+   */
+  async getMediaFileUrl(fileId: string, expiresIn?: number): Promise<ApiResponse<{ url: string; expiresIn: number }>> {
+    const query = expiresIn ? `?expiresIn=${expiresIn}` : '';
+    return apiClient.get<ApiResponse<{ url: string; expiresIn: number }>>(`/media/${fileId}/url${query}`);
+  },
+
+  /**
+   * Upload files of one category (multipart, so the JSON client is bypassed).
+   * Per-file failures are reported in the results rather than thrown.
+   */
+  async uploadFiles(files: File[], request: MediaUploadRequest): Promise<ApiResponse<MediaUploadResult[]>> {
+    const formData = new FormData();
+    files.forEach((file) => formData.append('files', file));
+    Object.entries(request).forEach(([key, value]) => {
+      if (value !== undefined) {
+        formData.append(key, value);
+      }
+    });
+
+    const { token, tenant } = useAuthStore.getState();
+    const response = await fetch(`${apiClient.baseUrl}/media/upload`, {
+      method: 'POST',
+      headers: {
+        // Don't set Content-Type for FormData - browser will set it with boundary
+        'Authorization': `Bearer ${token}`,
+        'X-Tenant-ID': tenant?.subdomain || 'demo',
+      },
+      body: formData,
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.message || data.error || 'Upload failed');
+    }
+
+    return data;
+  }
+};
@@ -58,6 +58,27 @@ export interface QRCode {
   isActive?: boolean;
 }
 
+export type LimitedResource = 'vehicles' | 'users' | 'storage';
+
+export interface ResourceUsage {
+  resource: LimitedResource;
+  current: number; // count, or bytes for storage
+  limit: number; // -1 = unlimited
+  usagePercent: number | null; // null when unlimited
+}
+
+export interface TenantUsage {
+  tier: string;
+  limits: {
+    maxVehicles: number;
+    maxUsers: number;
+    storageGB: number;
+    customWorkflows: boolean;
+    apiAccess: boolean;
+  };
+  resources: ResourceUsage[];
+}
+
 export const organizationApi = {
   // Get organization settings
   getSettings: async (): Promise<OrganizationSettings> => {
@@ -65,6 +86,12 @@ export const organizationApi = {
     return response.data;
   },
 
+  // Get usage against the subscription tier's limits
+  getUsage: async (): Promise<TenantUsage> => {
+    const response = await apiClient.get<{ data: TenantUsage }>('/organization/usage');
+    return response.data;
+  },
+
   // Update organization settings
   updateSettings: async (settings: Partial<OrganizationSettings>): Promise<void> => {
     console.log('Sending organization settings update:', settings);
@@ -1,4 +1,5 @@
 import { apiClient } from './client';
+import { useAuthStore } from '@/store/authStore';
 import type { ApiResponse } from '@omsms/shared';
 
 export interface CreatePaymentRequest {
@@ -47,9 +48,13 @@ export interface Payment {
   notes?: string;
   invoiceNumber?: string;
   workflowStage?: string;
+  lastReminderAt?: string | null;
   createdBy?: string;
   createdAt: string;
   updatedAt: string;
+  // Present on outstanding payments
+  daysPastDue?: number;
+  ageingBucket?: AgeingBucket;
   vehicle: {
     carNumber: string;
     ownerName: string;
@@ -58,6 +63,66 @@ export interface Payment {
   };
 }
 
+export type AgeingBucket = 'current' | '0-30' | '31-60' | '61-90' | '90+';
+
+export type AgeingTotals = Record<AgeingBucket, number> & { total: number; count: number };
+
+export interface AgeingGroup extends AgeingTotals {
+  id: string | null;
+  name: string;
+}
+
+export interface AgeingReport {
+  asOf: string;
+  totals: AgeingTotals;
+  byLocation: AgeingGroup[];
+  bySalesperson: AgeingGroup[];
+}
+
+export type PaymentTransactionType = 'receipt' | 'refund' | 'reversal';
+export type PaymentTransactionMethod = 'cash' | 'card' | 'bank_transfer' | 'cheque' | 'upi' | 'online';
+
+interface PaymentTransactionUser {
+  userId: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string;
+}
+
+export interface PaymentTransaction {
+  paymentTransactionId: string;
+  paymentId: string;
+  receiptNumber: string;
+  type: PaymentTransactionType;
+  amount: number | string;
+  paymentMethod: PaymentTransactionMethod;
+  referenceNumber: string | null;
+  transactionDate: string;
+  collectedBy: string | null;
+  reversedTransactionId: string | null;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  collector: PaymentTransactionUser | null;
+  reversal: { paymentTransactionId: string; receiptNumber: string; transactionDate: string } | null;
+  reversedTransaction: { paymentTransactionId: string; receiptNumber: string } | null;
+}
+
+export interface RecordPaymentTransactionRequest {
+  type: 'receipt' | 'refund';
+  amount: number;
+  paymentMethod: PaymentTransactionMethod;
+  referenceNumber?: string | null;
+  transactionDate?: string;
+  collectedBy?: string | null;
+  notes?: string | null;
+}
+
+export interface PaymentTransactionResult {
+  transaction: PaymentTransaction;
+  payment: Payment;
+}
+
 export interface PaymentSummary {
   totalAmount: number;
   totalPaid: number;
@@ -93,6 +158,11 @@ export const paymentApi = {
     return apiClient.get<PaymentSummary>('/payments/summary');
   },
 
+  // Get receivables ageing by location and salesperson
+  getAgeingReport: async (asOf?: string): Promise<AgeingReport> => {
+    return apiClient.get<AgeingReport>(`/payments/ageing${asOf ? `?asOf=${encodeURIComponent(asOf)}` : ''}`);
+  },
+
   // Get payments for specific vehicle
   getVehiclePayments: async (vehicleId: string): Promise<Payment[]> => {
     return apiClient.get<Payment[]>(`/payments/vehicle/${vehicleId}`);
@@ -108,6 +178,40 @@ export const paymentApi = {
     return apiClient.put<Payment>(`/payments/${paymentId}`, payment);
   },
 
+  // Get the transaction ledger for a payment
+  getTransactions: async (paymentId: string): Promise<PaymentTransaction[]> => {
+    return apiClient.get<PaymentTransaction[]>(`/payments/${paymentId}/transactions`);
+  },
+
+  // Record an installment receipt or a refund
+  recordTransaction: async (paymentId: string, data: RecordPaymentTransactionRequest): Promise<PaymentTransactionResult> => {
+    return apiClient.post<PaymentTransactionResult>(`/payments/${paymentId}/transactions`, data);
+  },
+
+  // Reverse a receipt or refund
+  reverseTransaction: async (transactionId: string, reason: string): Promise<PaymentTransactionResult> => {
+    return apiClient.post<PaymentTransactionResult>(`/payments/transactions/${transactionId}/reverse`, { reason });
+  },
+
+  // Download the printable receipt for a transaction
+  downloadReceipt: async (transactionId: string): Promise<Blob> => {
+    const { token, tenant } = useAuthStore.getState();
+    const response = await fetch(`${apiClient.baseUrl}/payments/transactions/${transactionId}/receipt`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'X-Tenant-ID': tenant?.subdomain || 'demo',
+      },
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || data.error || 'Receipt download failed');
+    }
+
+    return response.blob();
+  },
+
   // Delete payment
   deletePayment: async (paymentId: string): Promise<void> => {
     await apiClient.delete(`/payments/${paymentId}`);
@@ -16,11 +16,22 @@ export interface Role {
   };
 }
 
+export type VehicleAssignment = 'salesperson' | 'coordinator' | 'supervisor' | 'creator';
+
+/**
+ * Row-level limits on a permission; an empty object means no restriction
+ */
+export interface PermissionConditions {
+  ownLocation?: boolean;
+  assignedTo?: VehicleAssignment[];
+  maxAmount?: number;
+}
+
 export interface RolePermission {
   rolePermissionId: string;
   resource: string;
   action: string;
-  conditions: Record<string, any>;
+  conditions: PermissionConditions;
 }
 
 export interface CreateRoleRequest {
@@ -31,7 +42,7 @@ export interface CreateRoleRequest {
   permissions?: {
     resource: string;
     action: string;
-    conditions?: Record<string, any>;
+    conditions?: PermissionConditions;
   }[];
 }
 
@@ -44,7 +55,7 @@ export interface UpdateRoleRequest {
   permissions?: {
     resource: string;
     action: string;
-    conditions?: Record<string, any>;
+    conditions?: PermissionConditions;
   }[];
 }
 
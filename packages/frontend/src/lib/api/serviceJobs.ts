@@ -0,0 +1,224 @@
+import { apiClient } from './client';
+import type { ApiResponse } from '@omsms/shared';
+import type { MediaFile } from './media';
+
+export type ServiceJobStatus =
+  | 'new_complaint'
+  | 'under_inspection'
+  | 'sent_to_service_centre'
+  | 'received'
+  | 'completed';
+
+export type ServiceJobPriority = 'low' | 'medium' | 'high';
+
+export type ServiceJobCommentType = 'comment' | 'status_update' | 'attachment_added';
+
+export interface ServiceJobUser {
+  userId: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string;
+}
+
+export interface ServiceJobAttachment {
+  attachmentId: string;
+  jobId: string;
+  fileId: string;
+  commentId: string | null;
+  createdAt: string;
+  file: Pick<MediaFile, 'fileId' | 'originalFilename' | 'mimeType' | 'fileCategory' | 'filePath' | 'variants' | 'createdAt'>;
+}
+
+export interface ServiceJobComment {
+  commentId: string;
+  jobId: string;
+  authorId: string | null;
+  message: string;
+  type: ServiceJobCommentType;
+  createdAt: string;
+  updatedAt: string;
+  author: ServiceJobUser | null;
+  attachments: ServiceJobAttachment[];
+}
+
+export interface ServiceJobStatusChange {
+  changeId: string;
+  jobId: string;
+  fromStatus: ServiceJobStatus | null;
+  toStatus: ServiceJobStatus;
+  notes: string | null;
+  changedBy: string | null;
+  changedAt: string;
+  user: ServiceJobUser | null;
+}
+
+export interface ServiceJob {
+  jobId: string;
+  vehicleId: string;
+  customerName: string;
+  customerPhone: string;
+  customerEmail: string | null;
+  vehicleModel: string | null;
+  vehicleRegistration: string;
+  serviceType: string | null;
+  priority: ServiceJobPriority;
+  status: ServiceJobStatus;
+  technicianId: string | null;
+  estimatedCost: string | null; // Decimal, serialized as a string
+  actualCost: string | null;
+  scheduledAt: string | null;
+  completedAt: string | null;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  technician?: ServiceJobUser | null;
+  _count?: {
+    comments: number;
+    attachments: number;
+  };
+}
+
+export interface ServiceJobDetail extends ServiceJob {
+  vehicle: {
+    vehicleId: string;
+    carNumber: string;
+    ownerName: string;
+    brandName: string | null;
+    modelName: string | null;
+  };
+  creator: ServiceJobUser | null;
+  statusHistory: ServiceJobStatusChange[];
+  comments: ServiceJobComment[];
+  attachments: ServiceJobAttachment[];
+}
+
+export interface ServiceTechnician extends ServiceJobUser {
+  mobileNumber: string | null;
+  role: { roleName: string };
+  openJobs: number;
+}
+
+export interface ServiceJobRequest {
+  vehicleId?: string;
+  vehicleRegistration?: string;
+  customerName?: string;
+  customerPhone?: string;
+  customerEmail?: string | null;
+  vehicleModel?: string | null;
+  serviceType?: string | null;
+  priority?: ServiceJobPriority;
+  technicianId?: string | null;
+  estimatedCost?: number | null;
+  actualCost?: number | null;
+  scheduledAt?: string | null;
+  notes?: string | null;
+}
+
+export interface ServiceJobFilterParams {
+  page?: number;
+  limit?: number;
+  status?: ServiceJobStatus;
+  priority?: ServiceJobPriority;
+  technicianId?: string;
+  vehicleId?: string;
+  search?: string;
+  includeCompleted?: boolean;
+}
+
+export type ServiceJobListResponse = ApiResponse<ServiceJob[]> & {
+  summary?: Record<ServiceJobStatus, number>;
+};
+
+/**
+ * Service job API service
+ */
+export const serviceJobApi = {
+  /**
+   * Get service jobs with filtering, pagination and a per-status summary
+   */
+  async getServiceJobs(params?: ServiceJobFilterParams): Promise<ServiceJobListResponse> {
+    const queryParams = new URLSearchParams();
+
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const endpoint = `/service-jobs${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return apiClient.get<ServiceJobListResponse>(endpoint);
+  },
+
+  /**
+   * Get service job with status history, comments and attachments
+   */
+  async getServiceJob(jobId: string): Promise<ApiResponse<ServiceJobDetail>> {
+    return apiClient.get<ApiResponse<ServiceJobDetail>>(`/service-jobs/${jobId}`);
+  },
+
+  /**
+   * Get assignable technicians
+   */
+  async getTechnicians(): Promise<ApiResponse<ServiceTechnician[]>> {
+    return apiClient.get<ApiResponse<ServiceTechnician[]>>('/service-jobs/technicians');
+  },
+
+  /**
+   * Create service job
+   */
+  async createServiceJob(data: ServiceJobRequest): Promise<ApiResponse<ServiceJob>> {
+    return apiClient.post<ApiResponse<ServiceJob>>('/service-jobs', data);
+  },
+
+  /**
+   * Update service job details
+   */
+  async updateServiceJob(jobId: string, data: Partial<ServiceJobRequest>): Promise<ApiResponse<ServiceJob>> {
+    return apiClient.put<ApiResponse<ServiceJob>>(`/service-jobs/${jobId}`, data);
+  },
+
+  /**
+   * Change service job status
+   */
+  async updateStatus(jobId: string, status: ServiceJobStatus, notes?: string): Promise<ApiResponse<ServiceJobDetail>> {
+    return apiClient.patch<ApiResponse<ServiceJobDetail>>(`/service-jobs/${jobId}/status`, { status, notes });
+  },
+
+  /**
+   * Assign or unassign the technician
+   */
+  async assignTechnician(jobId: string, technicianId: string | null): Promise<ApiResponse<ServiceJob>> {
+    return apiClient.patch<ApiResponse<ServiceJob>>(`/service-jobs/${jobId}/technician`, { technicianId });
+  },
+
+  /**
+   * Delete service job
+   */
+  async deleteServiceJob(jobId: string): Promise<ApiResponse> {
+    return apiClient.delete<ApiResponse>(`/service-jobs/${jobId}`);
+  },
+
+  /**
+   * Add comment with optional uploaded media files
+   */
+  async addComment(jobId: string, message: string, fileIds: string[] = []): Promise<ApiResponse<ServiceJobComment>> {
+    return apiClient.post<ApiResponse<ServiceJobComment>>(`/service-jobs/${jobId}/comments`, { message, fileIds });
+  },
+
+  /**
+   * Attach uploaded media files
+   */
+  async addAttachments(jobId: string, fileIds: string[]): Promise<ApiResponse<ServiceJobAttachment[]>> {
+    return apiClient.post<ApiResponse<ServiceJobAttachment[]>>(`/service-jobs/${jobId}/attachments`, { fileIds });
+  },
+
+  /**
+   * Remove attachment (the media file is kept)
+   */
+  async removeAttachment(jobId: string, attachmentId: string): Promise<ApiResponse> {
+    return apiClient.delete<ApiResponse>(`/service-jobs/${jobId}/attachments/${attachmentId}`);
+  }
+};
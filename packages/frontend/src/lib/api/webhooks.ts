@@ -0,0 +1,130 @@
+import { apiClient } from './client';
+import type { ApiResponse } from '@omsms/shared';
+
+export type WebhookEventType =
+  | 'vehicle.created'
+  | 'vehicle.status_changed'
+  | 'workflow.stage_changed'
+  | 'payment.recorded'
+  | 'invoice.issued'
+  | 'media.uploaded';
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+export interface WebhookEndpoint {
+  endpointId: string;
+  name: string;
+  url: string;
+  events: Array<WebhookEventType | '*'>;
+  enabled: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  _count?: {
+    deliveries: number;
+  };
+}
+
+export interface WebhookEndpointRequest {
+  name: string;
+  url: string;
+  events: Array<WebhookEventType | '*'>;
+  enabled?: boolean;
+}
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  endpointId: string | null;
+  eventId: string;
+  eventType: WebhookEventType;
+  url: string;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  replayOf: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  endpoint?: {
+    endpointId: string;
+    name: string;
+  } | null;
+}
+
+export interface WebhookDeliveryFilterParams {
+  page?: number;
+  limit?: number;
+  endpointId?: string;
+  eventType?: WebhookEventType;
+  status?: WebhookDeliveryStatus;
+}
+
+/**
+ * Webhook API service
+ */
+export const webhookApi = {
+  /**
+   * Get available event types
+   */
+  async getEventTypes(): Promise<ApiResponse<WebhookEventType[]>> {
+    return apiClient.get<ApiResponse<WebhookEventType[]>>('/webhooks/events');
+  },
+
+  /**
+   * Get webhook endpoints
+   */
+  async getEndpoints(): Promise<ApiResponse<WebhookEndpoint[]>> {
+    return apiClient.get<ApiResponse<WebhookEndpoint[]>>('/webhooks/endpoints');
+  },
+
+  /**
+   * Create webhook endpoint
+   */
+  async createEndpoint(data: WebhookEndpointRequest): Promise<ApiResponse<WebhookEndpoint>> {
+    return apiClient.post<ApiResponse<WebhookEndpoint>>('/webhooks/endpoints', data);
+  },
+
+  /**
+   * Update webhook endpoint
+   */
+  async updateEndpoint(endpointId: string, data: Partial<WebhookEndpointRequest>): Promise<ApiResponse<WebhookEndpoint>> {
+    return apiClient.put<ApiResponse<WebhookEndpoint>>(`/webhooks/endpoints/${endpointId}`, data);
+  },
+
+  /**
+   * Delete webhook endpoint
+   */
+  async deleteEndpoint(endpointId: string): Promise<ApiResponse> {
+    return apiClient.delete<ApiResponse>(`/webhooks/endpoints/${endpointId}`);
+  },
+
+  /**
+   * Get delivery log with filtering and pagination
+   */
+  async getDeliveries(params?: WebhookDeliveryFilterParams): Promise<ApiResponse<WebhookDelivery[]>> {
+    const queryParams = new URLSearchParams();
+
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const endpoint = `/webhooks/deliveries${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return apiClient.get<ApiResponse<WebhookDelivery[]>>(endpoint);
+  },
+
+  /**
+   * Send a logged delivery again
+   */
+  async replayDelivery(deliveryId: string): Promise<ApiResponse<WebhookDelivery>> {
+    return apiClient.post<ApiResponse<WebhookDelivery>>(`/webhooks/deliveries/${deliveryId}/replay`);
+  }
+};
@@ -4,6 +4,33 @@ export * from './useAuth';
 // Vehicle data hooks
 export * from './useVehicles';
 
+// Webhook hooks
+export * from './useWebhooks';
+
+// Media hooks
+export * from './useMedia';
+
+// Service job hooks
+export * from './useServiceJobs';
+
+// Call follow-up hooks
+export * from './useCallFollowUps';
+
+// Customer requirement hooks
+export * from './useCustomerRequirements';
+
+// Invoice hooks
+export * from './useInvoices';
+
+// Audit log hooks
+export * from './useAudit';
+
+// Subscription usage hooks
+export * from './useTenantUsage';
+
+// Real-time socket hooks
+export * from './useRealtime';
+
 // Re-export commonly used hooks for convenience
 export { useAuthStore } from '@/store/authStore';
 export { useTenantStore } from '@/store/tenantStore';
\ No newline at end of file
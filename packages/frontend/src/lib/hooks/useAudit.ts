@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query';
+import { auditApi, type AuditLogFilterParams } from '@/lib/api/audit';
+
+// Query keys
+export const auditKeys = {
+  all: ['audit'] as const,
+  logs: (params?: AuditLogFilterParams) => [...auditKeys.all, 'logs', params] as const,
+  filters: () => [...auditKeys.all, 'filters'] as const,
+  vehicle: (vehicleId: string, page?: number) => [...auditKeys.all, 'vehicle', vehicleId, page] as const,
+};
+
+// Get audit log query
+export function useAuditLogs(params?: AuditLogFilterParams) {
+  return useQuery({
+    queryKey: auditKeys.logs(params),
+    queryFn: () => auditApi.getAuditLogs(params),
+  });
+}
+
+// Get audit filter options query
+export function useAuditFilterOptions() {
+  return useQuery({
+    queryKey: auditKeys.filters(),
+    queryFn: auditApi.getFilterOptions,
+  });
+}
+
+// Get vehicle history query
+export function useVehicleHistory(vehicleId: string, page = 1, limit = 20) {
+  return useQuery({
+    queryKey: auditKeys.vehicle(vehicleId, page),
+    queryFn: () => auditApi.getVehicleHistory(vehicleId, { page, limit }),
+    enabled: !!vehicleId,
+  });
+}
@@ -18,6 +18,7 @@ export const authKeys = {
   all: ['auth'] as const,
   profile: () => [...authKeys.all, 'profile'] as const,
   tenants: () => [...authKeys.all, 'tenants'] as const,
+  sessions: () => [...authKeys.all, 'sessions'] as const,
 };
 
 // Use auth profile query
@@ -137,7 +138,7 @@ export function useLogout() {
   const { setCurrentTenant, setAvailableTenants } = useTenantStore();
 
   return useMutation({
-    mutationFn: authApi.logout,
+    mutationFn: () => authApi.logout(useAuthStore.getState().refreshToken),
     onSettled: () => {
       // Clear all state regardless of API response
       logout();
@@ -152,6 +153,48 @@ export function useLogout() {
   });
 }
 
+// Logout from all devices mutation
+export function useLogoutAll() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { logout } = useAuthStore();
+  const { setCurrentTenant, setAvailableTenants } = useTenantStore();
+
+  return useMutation({
+    mutationFn: authApi.logoutAll,
+    onSuccess: () => {
+      logout();
+      setCurrentTenant(null);
+      setAvailableTenants([]);
+      queryClient.clear();
+      router.push('/login');
+    },
+  });
+}
+
+// Active sessions query
+export function useSessions() {
+  const { isAuthenticated, token } = useAuthStore();
+
+  return useQuery({
+    queryKey: authKeys.sessions(),
+    queryFn: authApi.getSessions,
+    enabled: isAuthenticated && !!token,
+  });
+}
+
+// Revoke session mutation
+export function useRevokeSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: authApi.revokeSession,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: authKeys.sessions() });
+    },
+  });
+}
+
 // Forgot password mutation
 export function useForgotPassword() {
   return useMutation({
@@ -0,0 +1,102 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  callFollowUpApi,
+  type CallFollowUpFilterParams,
+  type CallFollowUpRequest,
+  type CallFollowUpStatusRequest,
+} from '@/lib/api/callFollowUps';
+
+// Query keys
+export const callFollowUpKeys = {
+  all: ['call-follow-ups'] as const,
+  lists: () => [...callFollowUpKeys.all, 'list'] as const,
+  list: (params?: CallFollowUpFilterParams) => [...callFollowUpKeys.lists(), params] as const,
+  queues: (mine?: boolean) => [...callFollowUpKeys.all, 'queues', { mine }] as const,
+  detail: (callId: string) => [...callFollowUpKeys.all, 'detail', callId] as const,
+  assignees: () => [...callFollowUpKeys.all, 'assignees'] as const,
+};
+
+// Get follow-up calls query
+export function useCallFollowUps(params?: CallFollowUpFilterParams) {
+  return useQuery({
+    queryKey: callFollowUpKeys.list(params),
+    queryFn: () => callFollowUpApi.getCalls(params),
+  });
+}
+
+// Get overdue and due-today queues query (refreshed as callbacks come due)
+export function useCallFollowUpQueues(mine?: boolean) {
+  return useQuery({
+    queryKey: callFollowUpKeys.queues(mine),
+    queryFn: () => callFollowUpApi.getQueues(mine),
+    refetchInterval: 60 * 1000,
+  });
+}
+
+// Get follow-up call detail query
+export function useCallFollowUp(callId: string | null) {
+  return useQuery({
+    queryKey: callFollowUpKeys.detail(callId || ''),
+    queryFn: () => callFollowUpApi.getCall(callId!),
+    enabled: !!callId,
+  });
+}
+
+// Get assignable users query
+export function useCallFollowUpAssignees() {
+  return useQuery({
+    queryKey: callFollowUpKeys.assignees(),
+    queryFn: callFollowUpApi.getAssignees,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Create follow-up call mutation
+export function useCreateCallFollowUp() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CallFollowUpRequest) => callFollowUpApi.createCall(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: callFollowUpKeys.all });
+    },
+  });
+}
+
+// Update follow-up call mutation
+export function useUpdateCallFollowUp() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ callId, data }: { callId: string; data: Partial<CallFollowUpRequest> }) =>
+      callFollowUpApi.updateCall(callId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: callFollowUpKeys.all });
+    },
+  });
+}
+
+// Change follow-up call status mutation
+export function useUpdateCallFollowUpStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ callId, data }: { callId: string; data: CallFollowUpStatusRequest }) =>
+      callFollowUpApi.updateStatus(callId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: callFollowUpKeys.all });
+    },
+  });
+}
+
+// Delete follow-up call mutation
+export function useDeleteCallFollowUp() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: callFollowUpApi.deleteCall,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: callFollowUpKeys.all });
+    },
+  });
+}
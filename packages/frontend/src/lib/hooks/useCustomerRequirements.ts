@@ -0,0 +1,120 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  customerRequirementApi,
+  type ConvertRequirementRequest,
+  type CustomerRequirementFilterParams,
+  type CustomerRequirementRequest,
+  type CustomerRequirementStatusRequest,
+} from '@/lib/api/customerRequirements';
+
+// Query keys
+export const customerRequirementKeys = {
+  all: ['customer-requirements'] as const,
+  lists: () => [...customerRequirementKeys.all, 'list'] as const,
+  list: (params?: CustomerRequirementFilterParams) => [...customerRequirementKeys.lists(), params] as const,
+  detail: (requirementId: string) => [...customerRequirementKeys.all, 'detail', requirementId] as const,
+  assignees: () => [...customerRequirementKeys.all, 'assignees'] as const,
+};
+
+// Get customer requirements query
+export function useCustomerRequirements(params?: CustomerRequirementFilterParams) {
+  return useQuery({
+    queryKey: customerRequirementKeys.list(params),
+    queryFn: () => customerRequirementApi.getRequirements(params),
+  });
+}
+
+// Get customer requirement detail query
+export function useCustomerRequirement(requirementId: string | null) {
+  return useQuery({
+    queryKey: customerRequirementKeys.detail(requirementId || ''),
+    queryFn: () => customerRequirementApi.getRequirement(requirementId!),
+    enabled: !!requirementId,
+  });
+}
+
+// Get assignable users query
+export function useCustomerRequirementAssignees() {
+  return useQuery({
+    queryKey: customerRequirementKeys.assignees(),
+    queryFn: customerRequirementApi.getAssignees,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Create customer requirement mutation
+export function useCreateCustomerRequirement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CustomerRequirementRequest) => customerRequirementApi.createRequirement(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: customerRequirementKeys.all });
+    },
+  });
+}
+
+// Update customer requirement mutation
+export function useUpdateCustomerRequirement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ requirementId, data }: { requirementId: string; data: Partial<CustomerRequirementRequest> }) =>
+      customerRequirementApi.updateRequirement(requirementId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: customerRequirementKeys.all });
+    },
+  });
+}
+
+// Change customer requirement status mutation
+export function useUpdateCustomerRequirementStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ requirementId, data }: { requirementId: string; data: CustomerRequirementStatusRequest }) =>
+      customerRequirementApi.updateStatus(requirementId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: customerRequirementKeys.all });
+    },
+  });
+}
+
+// Add requirement comment mutation
+export function useAddRequirementComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ requirementId, message }: { requirementId: string; message: string }) =>
+      customerRequirementApi.addComment(requirementId, message),
+    onSuccess: (_, { requirementId }) => {
+      queryClient.invalidateQueries({ queryKey: customerRequirementKeys.detail(requirementId) });
+      queryClient.invalidateQueries({ queryKey: customerRequirementKeys.lists() });
+    },
+  });
+}
+
+// Convert requirement to vehicle order mutation
+export function useConvertRequirementToVehicle() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ requirementId, data }: { requirementId: string; data: ConvertRequirementRequest }) =>
+      customerRequirementApi.convertToVehicle(requirementId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: customerRequirementKeys.all });
+    },
+  });
+}
+
+// Delete customer requirement mutation
+export function useDeleteCustomerRequirement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: customerRequirementApi.deleteRequirement,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: customerRequirementKeys.all });
+    },
+  });
+}
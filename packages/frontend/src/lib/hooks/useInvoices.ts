@@ -0,0 +1,111 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  invoiceApi,
+  type CreditNoteRequest,
+  type InvoiceFilterParams,
+  type InvoiceRequest,
+  type VehicleInvoiceRequest,
+} from '@/lib/api/invoices';
+
+// Query keys
+export const invoiceKeys = {
+  all: ['invoices'] as const,
+  lists: () => [...invoiceKeys.all, 'list'] as const,
+  list: (params?: InvoiceFilterParams) => [...invoiceKeys.lists(), params] as const,
+  detail: (invoiceId: string) => [...invoiceKeys.all, 'detail', invoiceId] as const,
+};
+
+// Get invoices query
+export function useInvoices(params?: InvoiceFilterParams) {
+  return useQuery({
+    queryKey: invoiceKeys.list(params),
+    queryFn: () => invoiceApi.getInvoices(params),
+  });
+}
+
+// Get invoice detail query
+export function useInvoice(invoiceId: string | null) {
+  return useQuery({
+    queryKey: invoiceKeys.detail(invoiceId || ''),
+    queryFn: () => invoiceApi.getInvoice(invoiceId!),
+    enabled: !!invoiceId,
+  });
+}
+
+// Create draft invoice mutation
+export function useCreateInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: InvoiceRequest) => invoiceApi.createInvoice(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.lists() });
+    },
+  });
+}
+
+// Create draft invoice from vehicle mutation
+export function useCreateVehicleInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ vehicleId, data }: { vehicleId: string; data?: VehicleInvoiceRequest }) =>
+      invoiceApi.createVehicleInvoice(vehicleId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.lists() });
+    },
+  });
+}
+
+// Update draft invoice mutation
+export function useUpdateInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ invoiceId, data }: { invoiceId: string; data: Partial<InvoiceRequest> }) =>
+      invoiceApi.updateInvoice(invoiceId, data),
+    onSuccess: (_, { invoiceId }) => {
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.detail(invoiceId) });
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.lists() });
+    },
+  });
+}
+
+// Issue invoice or credit note mutation
+export function useIssueInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: invoiceApi.issueInvoice,
+    onSuccess: () => {
+      // Issuing a credit note changes the original invoice as well
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.all });
+    },
+  });
+}
+
+// Create draft credit note mutation
+export function useCreateCreditNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ invoiceId, data }: { invoiceId: string; data: CreditNoteRequest }) =>
+      invoiceApi.createCreditNote(invoiceId, data),
+    onSuccess: (_, { invoiceId }) => {
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.detail(invoiceId) });
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.lists() });
+    },
+  });
+}
+
+// Delete draft invoice mutation
+export function useDeleteInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: invoiceApi.deleteInvoice,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.all });
+    },
+  });
+}
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { mediaApi, type MediaFilterParams } from '@/lib/api/media';
+
+// Query keys
+export const mediaKeys = {
+  all: ['media'] as const,
+  lists: () => [...mediaKeys.all, 'list'] as const,
+  list: (params?: MediaFilterParams) => [...mediaKeys.lists(), params] as const,
+};
+
+// Get media files query
+export function useMediaFiles(params?: MediaFilterParams) {
+  return useQuery({
+    queryKey: mediaKeys.list(params),
+    queryFn: () => mediaApi.getMediaFiles(params),
+  });
+}
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  SOCKET_EVENTS,
+  useSocket,
+  type EditingPresenceEvent,
+} from '@/lib/providers/socket-provider';
+import { useAuthStore } from '@/store/authStore';
+
+// Subscribe to a socket event for the lifetime of the component
+export function useSocketEvent<T = any>(event: string, handler: (payload: T) => void) {
+  const { socket } = useSocket();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const listener = (payload: T) => handlerRef.current(payload);
+    socket.on(event, listener);
+    return () => {
+      socket.off(event, listener);
+    };
+  }, [socket, event]);
+}
+
+// Join an entity's room so its targeted events (updates, presence) reach this client
+export function useWatchEntity(entityType: string, entityId?: string) {
+  const { watchEntity } = useSocket();
+
+  useEffect(() => {
+    if (!entityId) return;
+    return watchEntity(entityType, entityId);
+  }, [watchEntity, entityType, entityId]);
+}
+
+/**
+ * Other users editing an entity, plus callbacks to announce this user's own
+ * editing. Announcements are withdrawn on unmount.
+ */
+export function useEditingPresence(entityType: string, entityId?: string) {
+  const { socket, connected } = useSocket();
+  const currentUserId = useAuthStore((state) => state.user?.userId);
+  const [editors, setEditors] = useState<EditingPresenceEvent[]>([]);
+  const editingRef = useRef<string | null>(null);
+
+  useWatchEntity(entityType, entityId);
+
+  const isThisEntity = (event: { entityType: string; entityId: string }) =>
+    event.entityType === entityType && event.entityId === entityId;
+
+  useSocketEvent<EditingPresenceEvent>(SOCKET_EVENTS.USER_EDITING, (event) => {
+    if (!isThisEntity(event) || event.userId === currentUserId) return;
+    setEditors((current) => [...current.filter((editor) => editor.userId !== event.userId), event]);
+  });
+
+  useSocketEvent<{ userId: string; entityType: string; entityId: string }>(SOCKET_EVENTS.USER_STOPPED_EDITING, (event) => {
+    if (!isThisEntity(event)) return;
+    setEditors((current) => current.filter((editor) => editor.userId !== event.userId));
+  });
+
+  // The server drops presence on disconnect: others' is re-sent when the room
+  // is re-joined, this user's own is announced again here
+  useEffect(() => {
+    if (!connected) {
+      setEditors([]);
+    } else if (socket && entityId && editingRef.current !== null) {
+      socket.emit('activity:editing', { entityType, entityId, field: editingRef.current || undefined });
+    }
+  }, [connected, socket, entityType, entityId]);
+
+  useEffect(() => {
+    setEditors([]);
+  }, [entityType, entityId]);
+
+  const startEditing = useCallback((field?: string) => {
+    if (!socket || !entityId || editingRef.current === (field ?? '')) return;
+    editingRef.current = field ?? '';
+    socket.emit('activity:editing', { entityType, entityId, field });
+  }, [socket, entityType, entityId]);
+
+  const stopEditing = useCallback(() => {
+    if (!socket || !entityId || editingRef.current === null) return;
+    editingRef.current = null;
+    socket.emit('activity:stopped_editing', { entityType, entityId });
+  }, [socket, entityType, entityId]);
+
+  useEffect(() => stopEditing, [stopEditing]);
+
+  return { editors, startEditing, stopEditing };
+}
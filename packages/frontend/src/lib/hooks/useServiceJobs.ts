@@ -0,0 +1,196 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  serviceJobApi,
+  type ServiceJobFilterParams,
+  type ServiceJobRequest,
+  type ServiceJobStatus,
+} from '@/lib/api/serviceJobs';
+import { mediaApi, getMediaFileCategory } from '@/lib/api/media';
+
+// Query keys
+export const serviceJobKeys = {
+  all: ['service-jobs'] as const,
+  lists: () => [...serviceJobKeys.all, 'list'] as const,
+  list: (params?: ServiceJobFilterParams) => [...serviceJobKeys.lists(), params] as const,
+  details: () => [...serviceJobKeys.all, 'detail'] as const,
+  detail: (jobId: string) => [...serviceJobKeys.details(), jobId] as const,
+  technicians: () => [...serviceJobKeys.all, 'technicians'] as const,
+};
+
+/**
+ * Upload files against the job's vehicle, grouped by media category.
+ * Resolves to the stored file ids; throws if none of the files could be stored.
+ */
+export async function uploadServiceJobFiles(vehicleId: string, files: File[]): Promise<string[]> {
+  const groups = new Map<ReturnType<typeof getMediaFileCategory>, File[]>();
+  files.forEach((file) => {
+    const category = getMediaFileCategory(file);
+    groups.set(category, [...(groups.get(category) || []), file]);
+  });
+
+  const fileIds: string[] = [];
+  const errors: string[] = [];
+  for (const [fileCategory, categoryFiles] of groups) {
+    const response = await mediaApi.uploadFiles(categoryFiles, {
+      entityType: 'vehicle',
+      entityId: vehicleId,
+      fileCategory,
+      fileSubcategory: 'service_job',
+    });
+    (response.data || []).forEach((result) => {
+      if (result.fileId) {
+        fileIds.push(result.fileId);
+      } else {
+        errors.push(`${result.originalFilename}: ${result.error || 'Upload failed'}`);
+      }
+    });
+  }
+
+  if (fileIds.length === 0 && errors.length > 0) {
+    throw new Error(errors.join(', '));
+  }
+
+  return fileIds;
+}
+
+// Get service jobs query
+export function useServiceJobs(params?: ServiceJobFilterParams) {
+  return useQuery({
+    queryKey: serviceJobKeys.list(params),
+    queryFn: () => serviceJobApi.getServiceJobs(params),
+  });
+}
+
+// Get service job detail query
+export function useServiceJob(jobId: string | null) {
+  return useQuery({
+    queryKey: serviceJobKeys.detail(jobId || ''),
+    queryFn: () => serviceJobApi.getServiceJob(jobId!),
+    enabled: !!jobId,
+  });
+}
+
+// Get assignable technicians query
+export function useServiceTechnicians() {
+  return useQuery({
+    queryKey: serviceJobKeys.technicians(),
+    queryFn: serviceJobApi.getTechnicians,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Create service job mutation
+export function useCreateServiceJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: ServiceJobRequest) => serviceJobApi.createServiceJob(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: serviceJobKeys.all });
+    },
+  });
+}
+
+// Update service job mutation
+export function useUpdateServiceJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ jobId, data }: { jobId: string; data: Partial<ServiceJobRequest> }) =>
+      serviceJobApi.updateServiceJob(jobId, data),
+    onSuccess: (_, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: serviceJobKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: serviceJobKeys.detail(jobId) });
+    },
+  });
+}
+
+// Change service job status mutation
+export function useUpdateServiceJobStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ jobId, status, notes }: { jobId: string; status: ServiceJobStatus; notes?: string }) =>
+      serviceJobApi.updateStatus(jobId, status, notes),
+    onSuccess: (_, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: serviceJobKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: serviceJobKeys.detail(jobId) });
+    },
+  });
+}
+
+// Assign technician mutation
+export function useAssignServiceTechnician() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ jobId, technicianId }: { jobId: string; technicianId: string | null }) =>
+      serviceJobApi.assignTechnician(jobId, technicianId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: serviceJobKeys.all });
+    },
+  });
+}
+
+// Delete service job mutation
+export function useDeleteServiceJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: serviceJobApi.deleteServiceJob,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: serviceJobKeys.all });
+    },
+  });
+}
+
+// Add comment (uploading any files first) mutation
+export function useAddServiceJobComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ jobId, vehicleId, message, files = [] }: {
+      jobId: string;
+      vehicleId: string;
+      message: string;
+      files?: File[];
+    }) => {
+      const fileIds = files.length > 0 ? await uploadServiceJobFiles(vehicleId, files) : [];
+      return serviceJobApi.addComment(jobId, message, fileIds);
+    },
+    onSuccess: (_, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: serviceJobKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: serviceJobKeys.detail(jobId) });
+    },
+  });
+}
+
+// Upload and attach files mutation
+export function useAddServiceJobAttachments() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ jobId, vehicleId, files }: { jobId: string; vehicleId: string; files: File[] }) => {
+      const fileIds = await uploadServiceJobFiles(vehicleId, files);
+      return serviceJobApi.addAttachments(jobId, fileIds);
+    },
+    onSuccess: (_, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: serviceJobKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: serviceJobKeys.detail(jobId) });
+    },
+  });
+}
+
+// Remove attachment mutation
+export function useRemoveServiceJobAttachment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ jobId, attachmentId }: { jobId: string; attachmentId: string }) =>
+      serviceJobApi.removeAttachment(jobId, attachmentId),
+    onSuccess: (_, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: serviceJobKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: serviceJobKeys.detail(jobId) });
+    },
+  });
+}
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { organizationApi } from '@/lib/api/organization';
+
+// Query keys
+export const tenantUsageKeys = {
+  all: ['tenant-usage'] as const,
+};
+
+// Get subscription tier usage query
+export function useTenantUsage() {
+  return useQuery({
+    queryKey: tenantUsageKeys.all,
+    queryFn: organizationApi.getUsage,
+  });
+}
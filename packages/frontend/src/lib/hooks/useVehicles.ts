@@ -1,6 +1,8 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { vehicleApi, type VehicleWithRelations } from '@/lib/api/vehicles';
 import { useAuthStore } from '@/store/authStore';
+import { SOCKET_EVENTS, type VehicleUpdatedEvent, type WorkflowUpdatedEvent } from '@/lib/providers/socket-provider';
+import { useSocketEvent } from './useRealtime';
 import { toast } from 'sonner';
 
 export interface VehicleWithWorkflows extends VehicleWithRelations {
@@ -15,6 +17,7 @@ interface UseVehiclesOptions {
   includeWorkflows?: boolean;
   autoRefresh?: boolean;
   refreshInterval?: number; // in milliseconds
+  live?: boolean; // refresh on real-time vehicle and workflow events
 }
 
 interface UseVehiclesReturn {
@@ -33,7 +36,8 @@ export function useVehicles(options: UseVehiclesOptions = {}): UseVehiclesReturn
   const {
     includeWorkflows = true,
     autoRefresh = false,
-    refreshInterval = 30000 // 30 seconds default
+    refreshInterval = 30000, // 30 seconds default
+    live = false
   } = options;
 
   const { isAuthenticated, isHydrated } = useAuthStore();
@@ -42,16 +46,34 @@ export function useVehicles(options: UseVehiclesOptions = {}): UseVehiclesReturn
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
-  const fetchVehicles = useCallback(async () => {
+  // Vehicles changed since the last fetch; always re-rendered even if the list payload is identical
+  const changedVehicleIds = useRef(new Set<string>());
+  const liveRefreshTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const fetchVehicles = useCallback(async (silent = false) => {
     try {
-      setLoading(true);
+      // Silent refreshes (live updates) keep the current list on screen
+      if (!silent) setLoading(true);
       setError(null);
       
       const params = includeWorkflows ? { include: 'workflows,salesperson,coordinator,supervisor,location' } : { include: 'salesperson,location' };
       const response = await vehicleApi.getVehicles(params);
       
       if (response.success && response.data) {
-        setVehicles(response.data);
+        const changed = changedVehicleIds.current;
+        changedVehicleIds.current = new Set();
+        const fetched = response.data as VehicleWithWorkflows[];
+
+        // Keep unchanged vehicles as the same objects so their cards don't reload
+        setVehicles(previous => {
+          const previousById = new Map(previous.map(vehicle => [vehicle.vehicleId, vehicle]));
+          return fetched.map(vehicle => {
+            const existing = previousById.get(vehicle.vehicleId);
+            return existing && !changed.has(vehicle.vehicleId) && JSON.stringify(existing) === JSON.stringify(vehicle)
+              ? existing
+              : vehicle;
+          });
+        });
         setLastUpdated(new Date());
         
         // Log workflow data for debugging
@@ -99,11 +121,29 @@ export function useVehicles(options: UseVehiclesOptions = {}): UseVehiclesReturn
     return () => clearInterval(interval);
   }, [autoRefresh, refreshInterval, fetchVehicles]);
 
+  // Live refresh, coalescing bursts (the tenant and vehicle rooms both deliver each event)
+  const scheduleLiveRefresh = (vehicleId: string) => {
+    if (!live) return;
+    changedVehicleIds.current.add(vehicleId);
+    clearTimeout(liveRefreshTimer.current);
+    liveRefreshTimer.current = setTimeout(() => fetchVehicles(true), 500);
+  };
+
+  useSocketEvent<VehicleUpdatedEvent>(SOCKET_EVENTS.VEHICLE_UPDATED, (event) => {
+    scheduleLiveRefresh(event.vehicleId);
+  });
+
+  useSocketEvent<WorkflowUpdatedEvent>(SOCKET_EVENTS.WORKFLOW_UPDATED, (event) => {
+    if (event.entityType === 'vehicle') scheduleLiveRefresh(event.entityId);
+  });
+
+  useEffect(() => () => clearTimeout(liveRefreshTimer.current), []);
+
   return {
     vehicles,
     loading,
     error,
-    refreshVehicles: fetchVehicles,
+    refreshVehicles: () => fetchVehicles(),
     lastUpdated
   };
 }
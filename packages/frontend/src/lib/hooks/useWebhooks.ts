@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { webhookApi, type WebhookDeliveryFilterParams, type WebhookEndpointRequest } from '@/lib/api/webhooks';
+
+// Query keys
+export const webhookKeys = {
+  all: ['webhooks'] as const,
+  endpoints: () => [...webhookKeys.all, 'endpoints'] as const,
+  deliveries: (params?: WebhookDeliveryFilterParams) => [...webhookKeys.all, 'deliveries', params] as const,
+};
+
+// Get webhook endpoints query
+export function useWebhookEndpoints() {
+  return useQuery({
+    queryKey: webhookKeys.endpoints(),
+    queryFn: webhookApi.getEndpoints,
+  });
+}
+
+// Get webhook delivery log query
+export function useWebhookDeliveries(params?: WebhookDeliveryFilterParams) {
+  return useQuery({
+    queryKey: webhookKeys.deliveries(params),
+    queryFn: () => webhookApi.getDeliveries(params),
+  });
+}
+
+// Create webhook endpoint mutation
+export function useCreateWebhookEndpoint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: WebhookEndpointRequest) => webhookApi.createEndpoint(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.endpoints() });
+    },
+  });
+}
+
+// Update webhook endpoint mutation
+export function useUpdateWebhookEndpoint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ endpointId, data }: { endpointId: string; data: Partial<WebhookEndpointRequest> }) =>
+      webhookApi.updateEndpoint(endpointId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.endpoints() });
+    },
+  });
+}
+
+// Delete webhook endpoint mutation
+export function useDeleteWebhookEndpoint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: webhookApi.deleteEndpoint,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.all });
+    },
+  });
+}
+
+// Replay webhook delivery mutation
+export function useReplayWebhookDelivery() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: webhookApi.replayDelivery,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.all });
+    },
+  });
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { io, type Socket } from 'socket.io-client';
+import { useQueryClient, type QueryKey } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { apiClient } from '@/lib/api/client';
+import { useAuthStore } from '@/store/authStore';
+import { auditKeys } from '@/lib/hooks/useAudit';
+import { mediaKeys } from '@/lib/hooks/useMedia';
+import { serviceJobKeys } from '@/lib/hooks/useServiceJobs';
+import { callFollowUpKeys } from '@/lib/hooks/useCallFollowUps';
+import { customerRequirementKeys } from '@/lib/hooks/useCustomerRequirements';
+import { invoiceKeys } from '@/lib/hooks/useInvoices';
+
+// Event names as emitted by the backend SocketManager / RealTimeEventEmitter
+export const SOCKET_EVENTS = {
+  VEHICLE_UPDATED: 'vehicle:updated',
+  VEHICLE_ASSIGNED: 'vehicle:assigned',
+  WORKFLOW_UPDATED: 'workflow:updated',
+  WORKFLOW_STAGE_ASSIGNED: 'workflow:stage_assigned',
+  MEDIA_UPLOADED: 'media:uploaded',
+  DATA_SYNC: 'data:sync',
+  NOTIFICATION: 'notification',
+  USER_EDITING: 'user:editing',
+  USER_STOPPED_EDITING: 'user:stopped_editing',
+} as const;
+
+export interface VehicleUpdatedEvent {
+  vehicleId: string;
+  status?: string;
+  updatedBy: string;
+  changes: Record<string, any>;
+  timestamp: string;
+}
+
+export interface WorkflowUpdatedEvent {
+  workflowInstanceId: string;
+  entityType: string;
+  entityId: string;
+  stage: string;
+  status: string;
+  updatedBy: string;
+  completionPercentage?: number;
+  timestamp: string;
+}
+
+export interface DataSyncEvent {
+  entityType: string;
+  action: 'created' | 'updated' | 'deleted';
+  entityId: string;
+  timestamp: string;
+}
+
+export interface NotificationEvent {
+  id: string;
+  type: 'info' | 'success' | 'warning' | 'error';
+  title: string;
+  message: string;
+  action?: {
+    label: string;
+    url: string;
+  };
+}
+
+export interface EditingPresenceEvent {
+  userId: string;
+  email: string;
+  name?: string;
+  entityType: string;
+  entityId: string;
+  field?: string;
+}
+
+// React Query caches holding each entity type, refreshed when it changes
+const ENTITY_QUERY_KEYS: Record<string, QueryKey> = {
+  service_job: serviceJobKeys.all,
+  call_follow_up: callFollowUpKeys.all,
+  customer_requirement: customerRequirementKeys.all,
+  invoice: invoiceKeys.all,
+};
+
+// Server rejections (bad or expired token) stop reconnection; retry after the token is refreshed
+const AUTH_RETRY_DELAY = 10000;
+
+const formatLabel = (value: string) =>
+  value.replace(/_/g, ' ').replace(/\b\w/g, (char) => char.toUpperCase());
+
+const describeVehicleUpdate = ({ changes }: VehicleUpdatedEvent) => {
+  if (changes?.action === 'created') return `New vehicle ${changes.vehicle?.carNumber || ''}`.trim();
+  if (changes?.type === 'product_workflow_updated') return `${changes.productName} ${changes.workflowType} updated`;
+  if (changes?.type === 'workflow_updated') {
+    return `${formatLabel(changes.workflowType)} moved to ${formatLabel(changes.stage)}`;
+  }
+  return 'Vehicle updated';
+};
+
+interface SocketContextType {
+  socket: Socket | null;
+  connected: boolean;
+  watchEntity: (entityType: string, entityId: string) => () => void;
+}
+
+const SocketContext = createContext<SocketContextType | undefined>(undefined);
+
+/**
+ * Authenticated Socket.IO connection for the signed-in user. Keeps React
+ * Query caches fresh from server events and toasts changes made by others
+ * to the entities on screen.
+ */
+export function SocketProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+  const { user, tenant, isAuthenticated } = useAuthStore();
+  const [socket, setSocket] = useState<Socket | null>(null);
+  const [connected, setConnected] = useState(false);
+  // Entity rooms this client is in, reference counted and re-joined after reconnects
+  const watchedEntities = useRef(new Map<string, number>());
+
+  const userId = user?.userId;
+
+  useEffect(() => {
+    if (!isAuthenticated || !userId) return;
+
+    const client = io(apiClient.baseUrl.replace(/\/api\/?$/, ''), {
+      // Read at every (re)connect so refreshed tokens are picked up
+      auth: (cb) => cb({ token: useAuthStore.getState().token }),
+      transports: ['websocket', 'polling'],
+    });
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    client.on('connect', () => {
+      setConnected(true);
+      watchedEntities.current.forEach((_, key) => {
+        const [entityType, entityId] = key.split('|');
+        client.emit('join:entity', { entityType, entityId });
+      });
+    });
+
+    client.on('disconnect', () => setConnected(false));
+
+    client.on('connect_error', (error) => {
+      if (!client.active) {
+        console.warn('Socket connection rejected:', error.message);
+        retryTimer = setTimeout(() => client.connect(), AUTH_RETRY_DELAY);
+      }
+    });
+
+    const isWatched = (entityType: string, entityId: string) =>
+      watchedEntities.current.has(`${entityType}|${entityId}`);
+
+    client.on(SOCKET_EVENTS.VEHICLE_UPDATED, (event: VehicleUpdatedEvent) => {
+      queryClient.invalidateQueries({ queryKey: [...auditKeys.all, 'vehicle', event.vehicleId] });
+      if (event.updatedBy !== userId && isWatched('vehicle', event.vehicleId)) {
+        // Same id: the tenant and entity rooms both deliver the event
+        toast.info(describeVehicleUpdate(event), { id: `vehicle:${event.vehicleId}` });
+      }
+    });
+
+    client.on(SOCKET_EVENTS.WORKFLOW_UPDATED, (event: WorkflowUpdatedEvent) => {
+      const queryKey = event.entityType === 'vehicle'
+        ? [...auditKeys.all, 'vehicle', event.entityId]
+        : ENTITY_QUERY_KEYS[event.entityType];
+      if (queryKey) queryClient.invalidateQueries({ queryKey });
+
+      if (event.updatedBy !== userId && isWatched(event.entityType, event.entityId)) {
+        toast.info(`Workflow moved to ${formatLabel(event.stage)}`, {
+          id: `workflow:${event.workflowInstanceId}`,
+        });
+      }
+    });
+
+    client.on(SOCKET_EVENTS.MEDIA_UPLOADED, () => {
+      queryClient.invalidateQueries({ queryKey: mediaKeys.lists() });
+    });
+
+    client.on(SOCKET_EVENTS.DATA_SYNC, (event: DataSyncEvent) => {
+      const queryKey = ENTITY_QUERY_KEYS[event.entityType];
+      if (queryKey) queryClient.invalidateQueries({ queryKey });
+    });
+
+    client.on(SOCKET_EVENTS.VEHICLE_ASSIGNED, (event: { vehicleId: string; assignedBy: string }) => {
+      if (event.assignedBy !== userId) {
+        toast.info('A vehicle has been assigned to you', { id: `vehicle-assigned:${event.vehicleId}` });
+      }
+    });
+
+    client.on(SOCKET_EVENTS.WORKFLOW_STAGE_ASSIGNED, (event: { workflowInstanceId: string; stage: string; assignedBy: string }) => {
+      if (event.assignedBy !== userId) {
+        toast.info(`You have been assigned the ${formatLabel(event.stage)} stage`, {
+          id: `stage-assigned:${event.workflowInstanceId}`,
+        });
+      }
+    });
+
+    client.on(SOCKET_EVENTS.NOTIFICATION, (notification: NotificationEvent) => {
+      const show = {
+        info: toast.info,
+        success: toast.success,
+        warning: toast.warning,
+        error: toast.error,
+      }[notification.type] || toast;
+      show(notification.title, {
+        id: notification.id,
+        description: notification.message,
+        action: notification.action
+          ? {
+              label: notification.action.label,
+              onClick: () => window.location.assign(notification.action!.url),
+            }
+          : undefined,
+      });
+    });
+
+    setSocket(client);
+
+    return () => {
+      clearTimeout(retryTimer);
+      client.removeAllListeners();
+      client.disconnect();
+      setSocket(null);
+      setConnected(false);
+    };
+  }, [isAuthenticated, userId, tenant?.tenantId, queryClient]);
+
+  const watchEntity = useCallback((entityType: string, entityId: string) => {
+    const key = `${entityType}|${entityId}`;
+    const count = watchedEntities.current.get(key) || 0;
+    watchedEntities.current.set(key, count + 1);
+    if (count === 0 && socket?.connected) {
+      socket.emit('join:entity', { entityType, entityId });
+    }
+
+    return () => {
+      const remaining = (watchedEntities.current.get(key) || 1) - 1;
+      if (remaining > 0) {
+        watchedEntities.current.set(key, remaining);
+        return;
+      }
+      watchedEntities.current.delete(key);
+      if (socket?.connected) {
+        socket.emit('leave:entity', { entityType, entityId });
+      }
+    };
+  }, [socket]);
+
+  return (
+    <SocketContext.Provider value={{ socket, connected, watchEntity }}>
+      {children}
+    </SocketContext.Provider>
+  );
+}
+
+export function useSocket() {
+  const context = useContext(SocketContext);
+  if (context === undefined) {
+    throw new Error('useSocket must be used within a SocketProvider');
+  }
+  return context;
+}